@@ -0,0 +1,8 @@
+-- Blue-green redeploys: a candidate AkashDeployment points at the ACTIVE
+-- row it will replace once its health probe passes.
+
+-- AlterTable
+ALTER TABLE "AkashDeployment" ADD COLUMN     "cutover_from_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "AkashDeployment_cutover_from_id_idx" ON "AkashDeployment"("cutover_from_id");
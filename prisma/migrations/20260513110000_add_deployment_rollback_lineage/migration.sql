@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "AkashDeployment" ADD COLUMN     "rollback_of_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "PhalaDeployment" ADD COLUMN     "rollback_of_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "spheron_deployment" ADD COLUMN     "rollback_of_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "AkashDeployment_rollback_of_id_idx" ON "AkashDeployment"("rollback_of_id");
+
+-- CreateIndex
+CREATE INDEX "PhalaDeployment_rollback_of_id_idx" ON "PhalaDeployment"("rollback_of_id");
+
+-- CreateIndex
+CREATE INDEX "spheron_deployment_rollback_of_id_idx" ON "spheron_deployment"("rollback_of_id");
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "PhalaDeployment" ADD COLUMN     "failover_parent_id" TEXT,
+ADD COLUMN     "failover_reason" TEXT;
+
+-- AlterTable
+ALTER TABLE "spheron_deployment" ADD COLUMN     "failover_parent_id" TEXT,
+ADD COLUMN     "failover_reason" TEXT;
+
+-- CreateIndex
+CREATE INDEX "PhalaDeployment_failover_parent_id_idx" ON "PhalaDeployment"("failover_parent_id");
+
+-- CreateIndex
+CREATE INDEX "spheron_deployment_failover_parent_id_idx" ON "spheron_deployment"("failover_parent_id");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Service" ADD COLUMN     "replicas" INTEGER NOT NULL DEFAULT 1;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "deployment_policy" ADD COLUMN     "last_scaled_at" TIMESTAMP(3),
+ADD COLUMN     "max_replicas" INTEGER,
+ADD COLUMN     "min_replicas" INTEGER,
+ADD COLUMN     "target_p95_latency_ms" DOUBLE PRECISION,
+ADD COLUMN     "target_requests_per_second" DOUBLE PRECISION;
+
+-- CreateIndex
+CREATE INDEX "deployment_policy_max_replicas_idx" ON "deployment_policy"("max_replicas");
@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "PolicyStopReason" ADD VALUE 'SCHEDULED_STOP';
+
+-- AlterTable
+ALTER TABLE "Service" ADD COLUMN     "runSchedule" JSONB;
@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "PreviewEnvironmentStatus" AS ENUM ('ACTIVE', 'CLOSED');
+
+-- AlterTable
+ALTER TABLE "Service" ADD COLUMN     "previewPolicy" JSONB;
+
+-- CreateTable
+CREATE TABLE "preview_environment" (
+    "id" TEXT NOT NULL,
+    "service_id" TEXT NOT NULL,
+    "preview_service_id" TEXT NOT NULL,
+    "pr_number" INTEGER NOT NULL,
+    "head_branch" TEXT NOT NULL,
+    "head_sha" TEXT NOT NULL,
+    "status" "PreviewEnvironmentStatus" NOT NULL DEFAULT 'ACTIVE',
+    "comment_id" BIGINT,
+    "last_activity_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "closed_at" TIMESTAMP(3),
+    "close_reason" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "preview_environment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "preview_environment_preview_service_id_key" ON "preview_environment"("preview_service_id");
+
+-- CreateIndex
+CREATE INDEX "preview_environment_status_last_activity_at_idx" ON "preview_environment"("status", "last_activity_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "preview_environment_service_id_pr_number_key" ON "preview_environment"("service_id", "pr_number");
+
+-- AddForeignKey
+ALTER TABLE "preview_environment" ADD CONSTRAINT "preview_environment_service_id_fkey" FOREIGN KEY ("service_id") REFERENCES "Service"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "preview_environment" ADD CONSTRAINT "preview_environment_preview_service_id_fkey" FOREIGN KEY ("preview_service_id") REFERENCES "Service"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "Service" ADD COLUMN     "gitConnectionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "git_connection" (
+    "id" TEXT NOT NULL,
+    "organization_id" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "base_url" TEXT NOT NULL,
+    "account_login" TEXT NOT NULL,
+    "sealed_token" TEXT NOT NULL,
+    "webhook_secret" TEXT NOT NULL,
+    "created_by_user_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "git_connection_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "git_connection_organization_id_idx" ON "git_connection"("organization_id");
+
+-- AddForeignKey
+ALTER TABLE "Service" ADD CONSTRAINT "Service_gitConnectionId_fkey" FOREIGN KEY ("gitConnectionId") REFERENCES "git_connection"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "git_connection" ADD CONSTRAINT "git_connection_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
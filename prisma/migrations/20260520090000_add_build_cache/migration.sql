@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Service" ADD COLUMN     "buildCacheEpoch" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "buildCachePurgedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "build_job" ADD COLUMN     "cacheHit" BOOLEAN,
+ADD COLUMN     "cacheKey" TEXT,
+ADD COLUMN     "durationMs" INTEGER;
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "build_log_chunk" (
+    "id" TEXT NOT NULL,
+    "build_job_id" TEXT NOT NULL,
+    "seq" INTEGER NOT NULL,
+    "content" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "build_log_chunk_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "build_log_chunk_build_job_id_seq_key" ON "build_log_chunk"("build_job_id", "seq");
+
+-- AddForeignKey
+ALTER TABLE "build_log_chunk" ADD CONSTRAINT "build_log_chunk_build_job_id_fkey" FOREIGN KEY ("build_job_id") REFERENCES "build_job"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "BuildStatus" ADD VALUE 'SKIPPED';
+
+-- AlterTable
+ALTER TABLE "Service" ADD COLUMN     "watchPaths" TEXT[] DEFAULT ARRAY[]::TEXT[];
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Service" ADD COLUMN     "buildStrategy" JSONB;
+
+-- AlterTable
+ALTER TABLE "ServiceEnvVar" ADD COLUMN     "buildTime" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "build_job" ADD COLUMN     "buildStrategy" JSONB;
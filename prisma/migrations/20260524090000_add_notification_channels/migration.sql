@@ -0,0 +1,60 @@
+-- CreateEnum
+CREATE TYPE "NotificationChannelType" AS ENUM ('WEBHOOK', 'SLACK', 'DISCORD');
+
+-- CreateEnum
+CREATE TYPE "NotificationDeliveryStatus" AS ENUM ('PENDING', 'DELIVERED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "notification_channel" (
+    "id" TEXT NOT NULL,
+    "project_id" TEXT NOT NULL,
+    "type" "NotificationChannelType" NOT NULL,
+    "name" TEXT NOT NULL,
+    "sealed_url" TEXT NOT NULL,
+    "url_hint" TEXT NOT NULL,
+    "signing_secret" TEXT,
+    "events" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "created_by_user_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "notification_channel_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "notification_delivery" (
+    "id" TEXT NOT NULL,
+    "channel_id" TEXT NOT NULL,
+    "event" TEXT NOT NULL,
+    "dedupe_key" TEXT,
+    "payload" JSONB NOT NULL,
+    "status" "NotificationDeliveryStatus" NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "next_attempt_at" TIMESTAMP(3),
+    "response_status" INTEGER,
+    "last_error" TEXT,
+    "delivered_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "notification_delivery_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "notification_channel_project_id_idx" ON "notification_channel"("project_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "notification_delivery_channel_id_dedupe_key_key" ON "notification_delivery"("channel_id", "dedupe_key");
+
+-- CreateIndex
+CREATE INDEX "notification_delivery_status_next_attempt_at_idx" ON "notification_delivery"("status", "next_attempt_at");
+
+-- CreateIndex
+CREATE INDEX "notification_delivery_channel_id_created_at_idx" ON "notification_delivery"("channel_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "notification_channel" ADD CONSTRAINT "notification_channel_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "notification_delivery" ADD CONSTRAINT "notification_delivery_channel_id_fkey" FOREIGN KEY ("channel_id") REFERENCES "notification_channel"("id") ON DELETE CASCADE ON UPDATE CASCADE;
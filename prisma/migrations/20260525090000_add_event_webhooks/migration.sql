@@ -0,0 +1,60 @@
+-- CreateEnum
+CREATE TYPE "EventWebhookDeliveryStatus" AS ENUM ('PENDING', 'DELIVERED', 'DEAD');
+
+-- CreateTable
+CREATE TABLE "event_webhook" (
+    "id" TEXT NOT NULL,
+    "organization_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "sealed_url" TEXT NOT NULL,
+    "url_hint" TEXT NOT NULL,
+    "signing_secret" TEXT NOT NULL,
+    "events" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "cursor_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "created_by_user_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "event_webhook_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "event_webhook_delivery" (
+    "id" TEXT NOT NULL,
+    "webhook_id" TEXT NOT NULL,
+    "audit_event_id" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "status" "EventWebhookDeliveryStatus" NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "next_attempt_at" TIMESTAMP(3),
+    "response_status" INTEGER,
+    "last_error" TEXT,
+    "delivered_at" TIMESTAMP(3),
+    "dead_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "event_webhook_delivery_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "event_webhook_organization_id_idx" ON "event_webhook"("organization_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "event_webhook_delivery_webhook_id_audit_event_id_key" ON "event_webhook_delivery"("webhook_id", "audit_event_id");
+
+-- CreateIndex
+CREATE INDEX "event_webhook_delivery_status_next_attempt_at_idx" ON "event_webhook_delivery"("status", "next_attempt_at");
+
+-- CreateIndex
+CREATE INDEX "event_webhook_delivery_webhook_id_created_at_idx" ON "event_webhook_delivery"("webhook_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "event_webhook" ADD CONSTRAINT "event_webhook_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_webhook_delivery" ADD CONSTRAINT "event_webhook_delivery_webhook_id_fkey" FOREIGN KEY ("webhook_id") REFERENCES "event_webhook"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_webhook_delivery" ADD CONSTRAINT "event_webhook_delivery_audit_event_id_fkey" FOREIGN KEY ("audit_event_id") REFERENCES "AuditEvent"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,33 @@
+-- Role-based access control: DEVELOPER replaces MEMBER, plus read-only
+-- VIEWER and BILLING roles. Postgres won't let a new enum value be used in
+-- the transaction that adds it, so moving MEMBER rows over happens in the
+-- next migration.
+ALTER TYPE "OrganizationRole" ADD VALUE IF NOT EXISTS 'DEVELOPER';
+ALTER TYPE "OrganizationRole" ADD VALUE IF NOT EXISTS 'VIEWER';
+ALTER TYPE "OrganizationRole" ADD VALUE IF NOT EXISTS 'BILLING';
+
+-- CreateTable
+CREATE TABLE "organization_invite" (
+    "id" TEXT NOT NULL,
+    "organization_id" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "role" "OrganizationRole" NOT NULL,
+    "token_hash" TEXT NOT NULL,
+    "invited_by_user_id" TEXT NOT NULL,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "accepted_at" TIMESTAMP(3),
+    "accepted_by_user_id" TEXT,
+    "revoked_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "organization_invite_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "organization_invite_token_hash_key" ON "organization_invite"("token_hash");
+
+-- CreateIndex
+CREATE INDEX "organization_invite_organization_id_email_idx" ON "organization_invite"("organization_id", "email");
+
+-- AddForeignKey
+ALTER TABLE "organization_invite" ADD CONSTRAINT "organization_invite_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- MEMBER had developer-level access; keep it that way under its new name.
+UPDATE "OrganizationMember" SET "role" = 'DEVELOPER' WHERE "role" = 'MEMBER';
+
+-- AlterTable
+ALTER TABLE "OrganizationMember" ALTER COLUMN "role" SET DEFAULT 'DEVELOPER';
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "personal_access_token_scope" (
+    "token_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "scopes" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "project_ids" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "service_ids" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "last_used_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "personal_access_token_scope_pkey" PRIMARY KEY ("token_id")
+);
+
+-- CreateIndex
+CREATE INDEX "personal_access_token_scope_user_id_idx" ON "personal_access_token_scope"("user_id");
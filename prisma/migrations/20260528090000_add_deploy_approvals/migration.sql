@@ -0,0 +1,70 @@
+-- CreateEnum
+CREATE TYPE "DeployApprovalStatus" AS ENUM ('PENDING', 'APPROVED', 'LAUNCHED', 'FAILED', 'REJECTED', 'EXPIRED', 'CANCELED');
+
+-- CreateTable
+CREATE TABLE "deploy_approval_rule" (
+    "id" TEXT NOT NULL,
+    "organization_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "project_ids" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "min_hourly_cost_cents" INTEGER,
+    "require_for_gpu" BOOLEAN NOT NULL DEFAULT false,
+    "approver_role" "OrganizationRole" NOT NULL DEFAULT 'ADMIN',
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "created_by_user_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "deploy_approval_rule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "deploy_approval_request" (
+    "id" TEXT NOT NULL,
+    "organization_id" TEXT NOT NULL,
+    "project_id" TEXT NOT NULL,
+    "service_id" TEXT,
+    "operation" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "sealed_args" TEXT NOT NULL,
+    "args_hash" TEXT NOT NULL,
+    "hourly_cost_cents" INTEGER NOT NULL,
+    "gpu_units" INTEGER NOT NULL DEFAULT 0,
+    "rule_ids" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "reasons" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "approver_role" "OrganizationRole" NOT NULL,
+    "status" "DeployApprovalStatus" NOT NULL DEFAULT 'PENDING',
+    "requested_by_user_id" TEXT,
+    "decided_by_user_id" TEXT,
+    "decided_at" TIMESTAMP(3),
+    "decision_note" TEXT,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "launched_service_id" TEXT,
+    "launched_deployment_id" TEXT,
+    "error_message" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "deploy_approval_request_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "deploy_approval_rule_organization_id_idx" ON "deploy_approval_rule"("organization_id");
+
+-- CreateIndex
+CREATE INDEX "deploy_approval_request_organization_id_status_idx" ON "deploy_approval_request"("organization_id", "status");
+
+-- CreateIndex
+CREATE INDEX "deploy_approval_request_status_expires_at_idx" ON "deploy_approval_request"("status", "expires_at");
+
+-- CreateIndex
+CREATE INDEX "deploy_approval_request_requested_by_user_id_args_hash_idx" ON "deploy_approval_request"("requested_by_user_id", "args_hash");
+
+-- AddForeignKey
+ALTER TABLE "deploy_approval_rule" ADD CONSTRAINT "deploy_approval_rule_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "deploy_approval_request" ADD CONSTRAINT "deploy_approval_request_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "deploy_approval_request" ADD CONSTRAINT "deploy_approval_request_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
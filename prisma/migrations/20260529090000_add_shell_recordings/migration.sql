@@ -0,0 +1,52 @@
+-- CreateTable
+CREATE TABLE "shell_recording_settings" (
+    "id" TEXT NOT NULL,
+    "organization_id" TEXT NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT false,
+    "retention_days" INTEGER NOT NULL DEFAULT 30,
+    "updated_by_user_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "shell_recording_settings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "shell_recording" (
+    "id" TEXT NOT NULL,
+    "session_id" TEXT NOT NULL,
+    "organization_id" TEXT NOT NULL,
+    "project_id" TEXT NOT NULL,
+    "service_id" TEXT NOT NULL,
+    "deployment_id" TEXT,
+    "provider" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "sealed_cast" TEXT NOT NULL,
+    "output_bytes" INTEGER NOT NULL,
+    "event_count" INTEGER NOT NULL,
+    "truncated" BOOLEAN NOT NULL DEFAULT false,
+    "end_reason" TEXT,
+    "started_at" TIMESTAMP(3) NOT NULL,
+    "ended_at" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "shell_recording_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "shell_recording_settings_organization_id_key" ON "shell_recording_settings"("organization_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "shell_recording_session_id_key" ON "shell_recording"("session_id");
+
+-- CreateIndex
+CREATE INDEX "shell_recording_organization_id_started_at_idx" ON "shell_recording"("organization_id", "started_at");
+
+-- CreateIndex
+CREATE INDEX "shell_recording_service_id_started_at_idx" ON "shell_recording"("service_id", "started_at");
+
+-- AddForeignKey
+ALTER TABLE "shell_recording_settings" ADD CONSTRAINT "shell_recording_settings_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shell_recording" ADD CONSTRAINT "shell_recording_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,75 @@
+-- CreateEnum
+CREATE TYPE "AlertRuleKind" AS ENUM ('METRIC_THRESHOLD', 'SPAN_ERROR_RATE', 'LOG_MATCH');
+
+-- CreateEnum
+CREATE TYPE "AlertComparator" AS ENUM ('GT', 'GTE', 'LT', 'LTE');
+
+-- CreateEnum
+CREATE TYPE "AlertIncidentStatus" AS ENUM ('FIRING', 'RESOLVED');
+
+-- CreateTable
+CREATE TABLE "alert_rule" (
+    "id" TEXT NOT NULL,
+    "project_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "kind" "AlertRuleKind" NOT NULL,
+    "metric_name" TEXT,
+    "aggregation" TEXT,
+    "service_name" TEXT,
+    "log_pattern" TEXT,
+    "min_severity_number" INTEGER,
+    "comparator" "AlertComparator" NOT NULL DEFAULT 'GT',
+    "threshold" DOUBLE PRECISION NOT NULL,
+    "window_minutes" INTEGER NOT NULL DEFAULT 5,
+    "severity" TEXT NOT NULL DEFAULT 'warning',
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "silenced_until" TIMESTAMP(3),
+    "last_evaluated_at" TIMESTAMP(3),
+    "last_value" DOUBLE PRECISION,
+    "last_error" TEXT,
+    "created_by_user_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "alert_rule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "alert_incident" (
+    "id" TEXT NOT NULL,
+    "rule_id" TEXT NOT NULL,
+    "project_id" TEXT NOT NULL,
+    "status" "AlertIncidentStatus" NOT NULL DEFAULT 'FIRING',
+    "threshold" DOUBLE PRECISION NOT NULL,
+    "value" DOUBLE PRECISION NOT NULL,
+    "peak_value" DOUBLE PRECISION NOT NULL,
+    "last_value" DOUBLE PRECISION NOT NULL,
+    "silenced" BOOLEAN NOT NULL DEFAULT false,
+    "started_at" TIMESTAMP(3) NOT NULL,
+    "resolved_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "alert_incident_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "alert_rule_project_id_idx" ON "alert_rule"("project_id");
+
+-- CreateIndex
+CREATE INDEX "alert_rule_enabled_idx" ON "alert_rule"("enabled");
+
+-- CreateIndex
+CREATE INDEX "alert_incident_rule_id_status_idx" ON "alert_incident"("rule_id", "status");
+
+-- CreateIndex
+CREATE INDEX "alert_incident_project_id_started_at_idx" ON "alert_incident"("project_id", "started_at");
+
+-- AddForeignKey
+ALTER TABLE "alert_rule" ADD CONSTRAINT "alert_rule_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "alert_incident" ADD CONSTRAINT "alert_incident_rule_id_fkey" FOREIGN KEY ("rule_id") REFERENCES "alert_rule"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "alert_incident" ADD CONSTRAINT "alert_incident_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
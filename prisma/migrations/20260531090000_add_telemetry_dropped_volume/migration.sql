@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "TelemetryIngestion" ADD COLUMN     "bytesDropped" BIGINT NOT NULL DEFAULT 0,
+ADD COLUMN     "spansDropped" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "metricsDropped" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "logsDropped" INTEGER NOT NULL DEFAULT 0;
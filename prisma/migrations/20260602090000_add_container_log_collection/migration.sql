@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ObservabilitySettings" ADD COLUMN     "containerLogsEnabled" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "personal_access_token_scope" ADD COLUMN     "revoked_at" TIMESTAMP(3);
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "organization_member_removal" (
+    "id" TEXT NOT NULL,
+    "organization_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "removed_by_user_id" TEXT NOT NULL,
+    "removed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "organization_member_removal_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "organization_member_removal_organization_id_user_id_key" ON "organization_member_removal"("organization_id", "user_id");
+
+-- AddForeignKey
+ALTER TABLE "organization_member_removal" ADD CONSTRAINT "organization_member_removal_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
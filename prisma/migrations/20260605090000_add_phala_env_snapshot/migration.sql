@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "PhalaDeployment" ADD COLUMN     "sealed_env_snapshot" TEXT;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "build_job" ADD COLUMN     "logBytes" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "build_log_chunk_created_at_idx" ON "build_log_chunk"("created_at");
@@ -0,0 +1,6 @@
+-- Signing secrets are now sealed with the token vault like the URL.
+-- Secrets stored before this are plaintext and cannot be opened: their
+-- deliveries fail until the webhook is recreated.
+
+-- AlterTable
+ALTER TABLE "event_webhook" RENAME COLUMN "signing_secret" TO "sealed_signing_secret";
@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import jwt from 'jsonwebtoken'
+import { getAuthContext } from './middleware.js'
+
+const SECRET = 'test-secret'
+
+function sessionToken(userId: string): string {
+  return jwt.sign({ userId, sessionId: 'sess-1', type: 'access' }, SECRET, {
+    issuer: 'alternatefutures-auth',
+    audience: 'alternatefutures-app',
+  })
+}
+
+function request(token: string, organizationId: string): Request {
+  return new Request('http://localhost/graphql', {
+    headers: {
+      authorization: `Bearer ${token}`,
+      'x-organization-id': organizationId,
+    },
+  })
+}
+
+function makePrisma(removal: Record<string, unknown> | null) {
+  return {
+    user: { upsert: vi.fn().mockResolvedValue({}) },
+    organization: { upsert: vi.fn().mockResolvedValue({}) },
+    organizationMember: {
+      findUnique: vi.fn().mockResolvedValue(null),
+      upsert: vi.fn().mockResolvedValue({}),
+    },
+    organizationMemberRemoval: {
+      findUnique: vi.fn().mockResolvedValue(removal),
+    },
+  }
+}
+
+describe('getAuthContext org membership sync', () => {
+  const fetchMock = vi.fn()
+
+  beforeEach(() => {
+    vi.stubEnv('JWT_SECRET', SECRET)
+    vi.stubEnv('AUTH_SERVICE_URL', 'http://auth.test')
+    vi.stubGlobal('fetch', fetchMock)
+    // service-auth still lists the org for this user
+    fetchMock.mockResolvedValue(
+      new Response(
+        JSON.stringify({ organizations: [{ id: 'org-1', role: 'admin' }] }),
+        { status: 200 }
+      )
+    )
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.unstubAllGlobals()
+    fetchMock.mockReset()
+  })
+
+  it('syncs a membership that only service-auth knows about', async () => {
+    const prisma = makePrisma(null)
+    const auth = await getAuthContext(
+      request(sessionToken('user-1'), 'org-1'),
+      prisma as any
+    )
+    expect(auth.organizationId).toBe('org-1')
+    expect(prisma.organizationMember.upsert).toHaveBeenCalled()
+  })
+
+  it('keeps a removed member out on their next request', async () => {
+    const prisma = makePrisma({
+      id: 'rm-1',
+      organizationId: 'org-1',
+      userId: 'user-1',
+    })
+    const auth = await getAuthContext(
+      request(sessionToken('user-1'), 'org-1'),
+      prisma as any
+    )
+    expect(auth.userId).toBe('user-1')
+    expect(auth.organizationId).toBeUndefined()
+    expect(fetchMock).not.toHaveBeenCalled()
+    expect(prisma.organizationMember.upsert).not.toHaveBeenCalled()
+  })
+})
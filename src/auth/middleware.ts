@@ -1,6 +1,11 @@
 import type { PrismaClient } from '@prisma/client'
 import jwt from 'jsonwebtoken'
 import { createLogger } from '../lib/logger.js'
+import { normalizeOrgRole } from '../services/auth/permissions.js'
+import {
+  loadTokenRestriction,
+  type TokenRestriction,
+} from '../services/auth/tokenScopes.js'
 
 const log = createLogger('auth-middleware')
 
@@ -8,11 +13,15 @@ export interface AuthContext {
   userId?: string
   organizationId?: string
   projectId?: string
+  /** Set when the request uses a scoped personal access token. */
+  tokenScope?: TokenRestriction
 }
 
 interface SdkAccessTokenPayload {
   userId: string
   projectId?: string
+  /** The PAT this token was exchanged for, if any. */
+  tokenId?: string
   type: 'sdk-access'
 }
 
@@ -29,7 +38,7 @@ interface AuthAccessTokenPayload {
  */
 function validateSdkAccessToken(
   token: string
-): { userId: string; projectId?: string } | null {
+): { userId: string; projectId?: string; tokenId?: string } | null {
   const secret = process.env.JWT_SECRET
   if (!secret) {
     return null
@@ -46,6 +55,7 @@ function validateSdkAccessToken(
     return {
       userId: payload.userId,
       projectId: payload.projectId,
+      tokenId: payload.tokenId,
     }
   } catch {
     return null
@@ -250,7 +260,8 @@ async function validateTokenViaAuthService(
 /**
  * Validate org membership locally, then verify via auth service if not found.
  * On successful remote verification, syncs org/membership locally for future fast-path.
- * NEVER creates membership from unverified request headers.
+ * NEVER creates membership from unverified request headers, and never
+ * re-adds a member who was removed in this service.
  */
 async function validateAndSyncOrgMembership(
   prisma: PrismaClient,
@@ -273,6 +284,14 @@ async function validateAndSyncOrgMembership(
   if (!authServiceUrl) return false
 
   try {
+    // Removed from the org here; service-auth may not know yet
+    const removal = await prisma.organizationMemberRemoval.findUnique({
+      where: {
+        organizationId_userId: { organizationId, userId },
+      },
+    })
+    if (removal) return false
+
     const res = await fetch(`${authServiceUrl}/auth/me`, {
       method: 'GET',
       headers: {
@@ -303,7 +322,7 @@ async function validateAndSyncOrgMembership(
       create: {
         organizationId,
         userId,
-        role: (match.role as any) || 'MEMBER',
+        role: match.role ? normalizeOrgRole(match.role) : 'DEVELOPER',
       },
     })
 
@@ -410,10 +429,20 @@ export async function getAuthContext(
         validatedOrgId = isMember ? organizationId : undefined
       }
 
+      // Short-lived SDK tokens inherit the restrictions of their PAT, and
+      // stop working when it is deleted
+      const tokenScope = jwtResult.tokenId
+        ? await loadTokenRestriction(prisma, jwtResult.tokenId)
+        : null
+      if (tokenScope?.revoked) {
+        return {}
+      }
+
       return {
         userId: jwtResult.userId,
         organizationId: validatedOrgId,
         projectId,
+        ...(tokenScope ? { tokenScope } : {}),
       }
     }
 
@@ -455,10 +484,19 @@ export async function getAuthContext(
       validatedOrgId = isMember ? requestedOrgId : undefined
     }
 
+    const tokenScope = validationResult.tokenId
+      ? await loadTokenRestriction(prisma, validationResult.tokenId)
+      : null
+    // Deleted tokens can still be in the validation cache
+    if (tokenScope?.revoked) {
+      return {}
+    }
+
     return {
       userId: validationResult.userId,
       organizationId: validatedOrgId,
       projectId,
+      ...(tokenScope ? { tokenScope } : {}),
     }
   } catch (error) {
     log.error(error, 'Auth error — failing closed (unauthenticated)')
@@ -25,6 +25,7 @@ import {
   getTelemetryIngestionService,
   handleTelemetryWebhook,
   handleTelemetryStats,
+  handleTelemetryAdmission,
 } from './services/observability/index.js'
 import { startSslRenewalJob } from './jobs/sslRenewal.js'
 import depthLimit from 'graphql-depth-limit'
@@ -58,6 +59,20 @@ import { ProviderRegistryScheduler } from './services/providers/providerRegistry
 import { ProviderVerificationScheduler } from './services/providers/providerVerificationScheduler.js'
 import { GpuBidProbeScheduler } from './services/providers/gpuBidProbeScheduler.js'
 import { AuditExportScheduler } from './services/audit/auditExportScheduler.js'
+import { AutoscaleScheduler } from './services/autoscaling/autoscaleScheduler.js'
+import { RunScheduleScheduler } from './services/runSchedule/runScheduleScheduler.js'
+import { PreviewSweepScheduler } from './services/github/previewSweepScheduler.js'
+import { BuildTimeoutScheduler } from './services/github/buildTimeoutScheduler.js'
+import { NotificationDeliveryScheduler } from './services/notifications/notificationDeliveryScheduler.js'
+import { startDeploymentNotifications } from './services/notifications/notify.js'
+import { EventWebhookScheduler } from './services/webhooks/eventWebhookScheduler.js'
+import { DeployApprovalExpiryScheduler } from './services/approvals/deployApprovalExpiryScheduler.js'
+import { ShellRecordingRetentionScheduler } from './services/shell/shellRecordingRetentionScheduler.js'
+import { BuildLogRetentionScheduler } from './services/github/buildLogRetentionScheduler.js'
+import { AlertScheduler } from './services/alerts/alertScheduler.js'
+import { ObservabilityRetentionScheduler } from './services/observability/retentionScheduler.js'
+import { ContainerLogCollector } from './services/logs/containerLogCollector.js'
+import { startDeploymentStatusAudit } from './services/events/deploymentStatusAudit.js'
 import { handleProviderRegistryRequest } from './services/providers/providerRegistryEndpoint.js'
 import { handleGpuPricingRequest } from './services/providers/gpuPricingEndpoint.js'
 import { handleGpuProbeManualTrigger } from './services/providers/gpuProbeManualTriggerEndpoint.js'
@@ -68,7 +83,10 @@ import { handleAdminAuditEvents } from './services/admin/auditEventsEndpoint.js'
 import { handlePhalaInstanceTypesRequest } from './services/providers/phalaInstanceTypesEndpoint.js'
 import { handleSpheronGpuAvailabilityRequest } from './services/spheron/gpuAvailabilityEndpoint.js'
 import { handleBuildCallback } from './services/github/buildCallbackEndpoint.js'
+import { handleBuildLogIngest } from './services/github/buildLogs.js'
+import { BuildLogStreamEndpoint } from './services/github/buildLogStreamEndpoint.js'
 import { handleGithubWebhook } from './services/github/webhookEndpoint.js'
+import { handleGitWebhook } from './services/git/webhookEndpoint.js'
 import { reconcileActivePolicyExpirySchedules } from './services/policy/runtimeScheduler.js'
 import { ShellEndpoint } from './services/shell/shellEndpoint.js'
 import { LogStreamEndpoint } from './services/logs/logStreamEndpoint.js'
@@ -95,6 +113,24 @@ const providerRegistryScheduler = new ProviderRegistryScheduler(prisma)
 const providerVerificationScheduler = new ProviderVerificationScheduler(prisma)
 const gpuBidProbeScheduler = new GpuBidProbeScheduler(prisma)
 const auditExportScheduler = new AuditExportScheduler(prisma)
+const autoscaleScheduler = new AutoscaleScheduler(prisma)
+const runScheduleScheduler = new RunScheduleScheduler(prisma)
+const previewSweepScheduler = new PreviewSweepScheduler(prisma)
+const buildTimeoutScheduler = new BuildTimeoutScheduler(prisma)
+const notificationDeliveryScheduler = new NotificationDeliveryScheduler(prisma)
+let stopDeploymentNotifications: (() => void) | null = null
+const eventWebhookScheduler = new EventWebhookScheduler(prisma)
+const deployApprovalExpiryScheduler = new DeployApprovalExpiryScheduler(prisma)
+const shellRecordingRetentionScheduler = new ShellRecordingRetentionScheduler(
+  prisma
+)
+const buildLogRetentionScheduler = new BuildLogRetentionScheduler(prisma)
+const alertScheduler = new AlertScheduler(prisma)
+const observabilityRetentionScheduler = new ObservabilityRetentionScheduler(
+  prisma
+)
+const containerLogCollector = new ContainerLogCollector(prisma)
+let stopDeploymentStatusAudit: (() => void) | null = null
 let healthPrewarmerInterval: ReturnType<typeof setInterval> | null = null
 const telemetryIngestionService = getTelemetryIngestionService(prisma)
 const jwtSecret = process.env.JWT_SECRET
@@ -279,11 +315,22 @@ async function requestHandler(req: IncomingMessage, res: ServerResponse) {
       return
     }
 
+    const gitWebhook = url.pathname.match(/^\/webhooks\/git\/([A-Za-z0-9_-]+)$/)
+    if (gitWebhook) {
+      await handleGitWebhook(req, res, prisma, gitWebhook[1])
+      return
+    }
+
     if (url.pathname === '/internal/build-callback' && req.method === 'POST') {
       await handleBuildCallback(req, res, prisma)
       return
     }
 
+    if (url.pathname === '/internal/build-logs' && req.method === 'POST') {
+      await handleBuildLogIngest(req, res, prisma)
+      return
+    }
+
     if (url.pathname === '/internal/telemetry/ingestion-webhook') {
       await handleTelemetryWebhook(req, res, prisma)
       return
@@ -294,6 +341,14 @@ async function requestHandler(req: IncomingMessage, res: ServerResponse) {
       return
     }
 
+    if (
+      url.pathname === '/internal/telemetry/admission' &&
+      req.method === 'GET'
+    ) {
+      await handleTelemetryAdmission(req, res, prisma)
+      return
+    }
+
     if (url.pathname === '/internal/compute/check-resume' && req.method === 'POST') {
       await handleComputeResumeCheck(req, res, prisma)
       return
@@ -401,6 +456,14 @@ async function requestHandler(req: IncomingMessage, res: ServerResponse) {
       }
     }
 
+    {
+      const sseBuildJobId = BuildLogStreamEndpoint.matchPath(url.pathname)
+      if (sseBuildJobId && req.method === 'GET') {
+        await buildLogStreamEndpoint.handle(req, res, sseBuildJobId)
+        return
+      }
+    }
+
     if (url.pathname === '/queue/akash/step' && req.method === 'POST') {
       await handleAkashWebhook(req, res)
       return
@@ -431,6 +494,12 @@ const chatServer = new ChatServer(prisma, effectiveJwtSecret)
 const shellEndpoint = new ShellEndpoint(prisma, effectiveJwtSecret)
 
 const logStreamEndpoint = new LogStreamEndpoint(prisma, effectiveJwtSecret)
+// Build-log streams share logStreamEndpoint's stream registry, so its
+// shutdown() closes them too.
+const buildLogStreamEndpoint = new BuildLogStreamEndpoint(
+  prisma,
+  effectiveJwtSecret
+)
 
 // Handle WebSocket upgrade for /ws path and proxied subdomains
 server.on('upgrade', async (request, socket, head) => {
@@ -554,6 +623,85 @@ server.listen(port, async () => {
     onRelease: () => stopStaleDeploymentSweeper(),
   })
 
+  // Autoscaler launches and closes deployments — one pod only. Started
+  // after provider registration since scale-ins close through the registry.
+  await runWithLeadership(prisma, 'autoscale-scheduler', {
+    onAcquire: () => autoscaleScheduler.start(),
+    onRelease: () => autoscaleScheduler.stop(),
+  })
+
+  // Run-schedule windows stop and resume deployments — one pod only.
+  await runWithLeadership(prisma, 'run-schedule-scheduler', {
+    onAcquire: () => runScheduleScheduler.start(),
+    onRelease: () => runScheduleScheduler.stop(),
+  })
+
+  // Idle PR previews close their leases — one pod only.
+  await runWithLeadership(prisma, 'preview-sweep-scheduler', {
+    onAcquire: () => previewSweepScheduler.start(),
+    onRelease: () => previewSweepScheduler.stop(),
+  })
+
+  // Stuck builds are failed and their builders torn down — one pod only.
+  await runWithLeadership(prisma, 'build-timeout-scheduler', {
+    onAcquire: () => buildTimeoutScheduler.start(),
+    onRelease: () => buildTimeoutScheduler.stop(),
+  })
+
+  // Notification retries and log pruning — one pod only. The deploy
+  // status listener runs on every pod: status events are in-process.
+  await runWithLeadership(prisma, 'notification-delivery-scheduler', {
+    onAcquire: () => notificationDeliveryScheduler.start(),
+    onRelease: () => notificationDeliveryScheduler.stop(),
+  })
+  stopDeploymentNotifications = startDeploymentNotifications(prisma)
+
+  // Org event webhooks — one pod owns the fan-out cursors. Status changes
+  // are audited on every pod (in-process events) and reach it via the DB.
+  await runWithLeadership(prisma, 'event-webhook-scheduler', {
+    onAcquire: () => eventWebhookScheduler.start(),
+    onRelease: () => eventWebhookScheduler.stop(),
+  })
+  stopDeploymentStatusAudit = startDeploymentStatusAudit(prisma)
+
+  // Undecided deploy approvals expire — one pod only.
+  await runWithLeadership(prisma, 'deploy-approval-expiry-scheduler', {
+    onAcquire: () => deployApprovalExpiryScheduler.start(),
+    onRelease: () => deployApprovalExpiryScheduler.stop(),
+  })
+
+  // Shell recordings past their org's retention are deleted — one pod only.
+  await runWithLeadership(prisma, 'shell-recording-retention-scheduler', {
+    onAcquire: () => shellRecordingRetentionScheduler.start(),
+    onRelease: () => shellRecordingRetentionScheduler.stop(),
+  })
+
+  // Live build log chunks past their retention are deleted — one pod only.
+  await runWithLeadership(prisma, 'build-log-retention-scheduler', {
+    onAcquire: () => buildLogRetentionScheduler.start(),
+    onRelease: () => buildLogRetentionScheduler.stop(),
+  })
+
+  // Alert rules open and resolve incidents — one pod only, or each pod
+  // would notify.
+  await runWithLeadership(prisma, 'alert-scheduler', {
+    onAcquire: () => alertScheduler.start(),
+    onRelease: () => alertScheduler.stop(),
+  })
+
+  // Per-project telemetry retention — ClickHouse deletes, one pod only.
+  await runWithLeadership(prisma, 'observability-retention-scheduler', {
+    onAcquire: () => observabilityRetentionScheduler.start(),
+    onRelease: () => observabilityRetentionScheduler.stop(),
+  })
+
+  // Container log collection — one pod tails each deployment, or every
+  // line would be written once per pod.
+  await runWithLeadership(prisma, 'container-log-collector', {
+    onAcquire: () => containerLogCollector.start(),
+    onRelease: () => containerLogCollector.stop(),
+  })
+
   healthPrewarmerInterval = startHealthPrewarmer(prisma)
   startApplicationHealthRunner(prisma)
 })
@@ -564,6 +712,8 @@ async function gracefulShutdown(signal: string) {
   // its next poll) AND calls each scheduler's stop hook.
   await stopAllLeaderSchedulers(prisma)
   if (healthPrewarmerInterval) clearInterval(healthPrewarmerInterval)
+  stopDeploymentNotifications?.()
+  stopDeploymentStatusAudit?.()
   stopApplicationHealthRunner()
   spheronBalanceMonitor.stop()
 
@@ -577,9 +727,12 @@ async function gracefulShutdown(signal: string) {
   // own onRelease was already called by stopAllLeaderSchedulers).
   await stopStaleDeploymentSweeper()
 
+  // Shell sockets hold the server open; end them first, and let their
+  // recordings finish writing before Prisma disconnects.
+  const shellsClosed = shellEndpoint.shutdown()
   server.close(async () => {
     try {
-      shellEndpoint.shutdown()
+      await shellsClosed
       logStreamEndpoint.shutdown()
       await chatServer.shutdown()
       await usageAggregator.shutdown()
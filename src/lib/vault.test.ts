@@ -0,0 +1,53 @@
+import crypto from 'node:crypto'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { openSecret, sealSecret } from './vault.js'
+
+describe('vault', () => {
+  beforeEach(() => {
+    vi.stubEnv('VAULT_ENCRYPTION_KEY', 'test-key')
+  })
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('round-trips a secret without storing it in the clear', () => {
+    const sealed = sealSecret('git-token', 'glpat-secret')
+    expect(sealed.startsWith('v2.')).toBe(true)
+    expect(sealed).not.toContain('glpat-secret')
+    expect(openSecret('git-token', sealed)).toBe('glpat-secret')
+  })
+
+  it('refuses to open a secret sealed under another key', () => {
+    const sealed = sealSecret('git-token', 'glpat-secret')
+    vi.stubEnv('VAULT_ENCRYPTION_KEY', 'rotated')
+    expect(() => openSecret('git-token', sealed)).toThrow()
+  })
+
+  it('refuses to open a secret sealed for another purpose', () => {
+    const sealed = sealSecret('event-webhook', 'whsec-1')
+    expect(() => openSecret('git-token', sealed)).toThrow()
+  })
+
+  it('still opens v1 values sealed under the shared git token key', () => {
+    const key = crypto
+      .createHash('sha256')
+      .update('git-token:test-key')
+      .digest()
+    const iv = crypto.randomBytes(12)
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv)
+    const ciphertext = Buffer.concat([cipher.update('old-url'), cipher.final()])
+    const sealed = ['v1', iv, cipher.getAuthTag(), ciphertext]
+      .map(part =>
+        typeof part === 'string' ? part : part.toString('base64url')
+      )
+      .join('.')
+
+    expect(openSecret('notification-channel', sealed)).toBe('old-url')
+  })
+
+  it('names the purpose, not git, when a value is malformed', () => {
+    expect(() => openSecret('shell-recording', 'plaintext')).toThrow(
+      'vault: unrecognised sealed shell-recording format'
+    )
+  })
+})
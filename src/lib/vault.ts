@@ -0,0 +1,89 @@
+/**
+ * Sealing for secrets at rest: git access tokens, notification and event
+ * webhook destinations, deploy approval args, Phala env snapshots and
+ * shell recordings.
+ *
+ * A sealed value is `v2.<iv>.<tag>.<ciphertext>` (base64url), AES-256-GCM
+ * under a key derived (HKDF) from the root secret and the value's
+ * purpose, so a value sealed for one purpose can't be opened as another.
+ * The root secret is `VAULT_ENCRYPTION_KEY`, falling back to
+ * `GIT_TOKEN_ENCRYPTION_KEY` and then `JWT_SECRET` so existing
+ * environments work without new config. Rotating it invalidates every
+ * sealed value.
+ *
+ * `v1` values predate per-purpose keys: they were all sealed under the one
+ * key git tokens used, and still open with it until they're rewritten.
+ */
+
+import crypto from 'node:crypto'
+
+export type VaultPurpose =
+  | 'git-token'
+  | 'notification-channel'
+  | 'event-webhook'
+  | 'deploy-approval'
+  | 'phala-env'
+  | 'shell-recording'
+
+const VERSION = 'v2'
+const LEGACY_VERSION = 'v1'
+
+function rootSecret(): string {
+  const secret =
+    process.env.VAULT_ENCRYPTION_KEY ||
+    process.env.GIT_TOKEN_ENCRYPTION_KEY ||
+    process.env.JWT_SECRET
+  if (!secret) {
+    throw new Error(
+      'vault: none of VAULT_ENCRYPTION_KEY, GIT_TOKEN_ENCRYPTION_KEY or JWT_SECRET is set'
+    )
+  }
+  return secret
+}
+
+function purposeKey(purpose: VaultPurpose): Buffer {
+  return Buffer.from(
+    crypto.hkdfSync('sha256', rootSecret(), '', `af-vault:${purpose}`, 32)
+  )
+}
+
+function legacyKey(): Buffer {
+  return crypto
+    .createHash('sha256')
+    .update(`git-token:${rootSecret()}`)
+    .digest()
+}
+
+export function sealSecret(purpose: VaultPurpose, value: string): string {
+  const iv = crypto.randomBytes(12)
+  const cipher = crypto.createCipheriv('aes-256-gcm', purposeKey(purpose), iv)
+  const ciphertext = Buffer.concat([
+    cipher.update(value, 'utf8'),
+    cipher.final(),
+  ])
+  return [VERSION, iv, cipher.getAuthTag(), ciphertext]
+    .map(part => (typeof part === 'string' ? part : part.toString('base64url')))
+    .join('.')
+}
+
+export function openSecret(purpose: VaultPurpose, sealed: string): string {
+  const [version, iv, tag, ciphertext] = sealed.split('.')
+  if (
+    (version !== VERSION && version !== LEGACY_VERSION) ||
+    !iv ||
+    !tag ||
+    ciphertext === undefined
+  ) {
+    throw new Error(`vault: unrecognised sealed ${purpose} format`)
+  }
+  const decipher = crypto.createDecipheriv(
+    'aes-256-gcm',
+    version === VERSION ? purposeKey(purpose) : legacyKey(),
+    Buffer.from(iv, 'base64url')
+  )
+  decipher.setAuthTag(Buffer.from(tag, 'base64url'))
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64url')),
+    decipher.final(),
+  ]).toString('utf8')
+}
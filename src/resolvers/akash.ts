@@ -6,21 +6,32 @@
  */
 
 import { GraphQLError } from 'graphql'
-import { getAkashOrchestrator, DEFAULT_DEPOSIT_UACT } from '../services/akash/orchestrator.js'
+import {
+  getAkashOrchestrator,
+  DEFAULT_DEPOSIT_UACT,
+  parseServiceVolumes,
+} from '../services/akash/orchestrator.js'
+import type { AkashDeployStrategy } from '../services/akash/blueGreenCutover.js'
 import { getEscrowService } from '../services/billing/escrowService.js'
 import { settleAkashEscrowToTime } from '../services/billing/deploymentSettlement.js'
 import { assertSubscriptionActive } from './subscriptionCheck.js'
 import { assertDeployBalance, checkTimeLimitedDeployBalance } from './balanceCheck.js'
 import { assertLaunchAllowed } from './launchGuards.js'
+import { assertDeployApproved } from './deployApprovalGuard.js'
 import { decrementOrgConcurrency } from '../services/concurrency/concurrencyService.js'
 import type { Context } from './types.js'
-import { requireAuth, assertProjectAccess } from '../utils/authorization.js'
+import {
+  requireAuth,
+  assertProjectAccess,
+  assertServiceAccess,
+} from '../utils/authorization.js'
 import { createLogger } from '../lib/logger.js'
 import { audit } from '../lib/audit.js'
 import { resolveAkashActiveSince } from '../lib/leaseChain.js'
 import { validatePolicyInput } from '../services/policy/validator.js'
 import type { DeploymentPolicyInput } from '../services/policy/types.js'
 import { BILLING_CONFIG } from '../config/billing.js'
+import { getTemplateById } from '../templates/index.js'
 
 const log = createLogger('resolver-akash')
 
@@ -163,13 +174,13 @@ async function estimateGpuDailyCost(
   }
 }
 
-async function assertServiceAccess(context: Context, serviceId: string) {
+async function assertServiceIdAccess(context: Context, serviceId: string) {
   const service = await context.prisma.service.findUnique({
     where: { id: serviceId },
     include: { project: true },
   })
   if (!service?.project) throw new GraphQLError('Service or project not found')
-  assertProjectAccess(context, service.project)
+  assertServiceAccess(context, service)
 }
 
 export const akashQueries = {
@@ -189,7 +200,7 @@ export const akashQueries = {
       throw new GraphQLError('Akash deployment not found')
     }
 
-    assertProjectAccess(context, deployment.service.project)
+    assertServiceAccess(context, deployment.service)
     return formatDeployment(deployment)
   },
 
@@ -200,7 +211,7 @@ export const akashQueries = {
   ) => {
     requireAuth(context)
 
-    if (serviceId) await assertServiceAccess(context, serviceId)
+    if (serviceId) await assertServiceIdAccess(context, serviceId)
     if (functionId) {
       const func = await context.prisma.aFFunction.findUnique({
         where: { id: functionId },
@@ -237,7 +248,7 @@ export const akashQueries = {
     context: Context
   ) => {
     requireAuth(context)
-    await assertServiceAccess(context, serviceId)
+    await assertServiceIdAccess(context, serviceId)
 
     const deployment = await context.prisma.akashDeployment.findFirst({
       where: {
@@ -290,7 +301,7 @@ export const akashMutations = {
    */
   deployToAkash: async (
     _: unknown,
-    { input }: { input: { serviceId: string; depositUakt?: number; sdlContent?: string; sourceCode?: string; policy?: DeploymentPolicyInput; resourceOverrides?: { cpu?: number; memory?: string; storage?: string; gpu?: { units: number; vendor: string; model?: string } | null }; baseImage?: string; region?: string | null } },
+    { input }: { input: { serviceId: string; depositUakt?: number; sdlContent?: string; sourceCode?: string; policy?: DeploymentPolicyInput; resourceOverrides?: { cpu?: number; memory?: string; storage?: string; gpu?: { units: number; vendor: string; model?: string } | null }; baseImage?: string; region?: string | null; strategy?: AkashDeployStrategy | null } },
     context: Context
   ) => {
     if (!context.userId) {
@@ -313,7 +324,61 @@ export const akashMutations = {
       throw new GraphQLError('Service not found')
     }
 
-    assertProjectAccess(context, service.project, 'Not authorized to deploy this service')
+    assertServiceAccess(context, service, 'Not authorized to deploy this service')
+
+    // Blue-green needs something to gate the cutover on, and can't move
+    // persistent volumes between two concurrently running leases.
+    const strategy: AkashDeployStrategy = input.strategy ?? 'RECREATE'
+    if (strategy === 'BLUE_GREEN') {
+      if (!service.healthProbe) {
+        throw new GraphQLError(
+          'Blue-green redeploys require a health probe on the service'
+        )
+      }
+      if (parseServiceVolumes(service.volumes).length > 0) {
+        throw new GraphQLError(
+          'Blue-green redeploys are not supported for services with persistent volumes'
+        )
+      }
+    }
+
+    // ── Validate deployment policy and estimate cost ─────────
+    if (input.policy) {
+      const validation = validatePolicyInput(input.policy)
+      if (!validation.allowed) {
+        throw new GraphQLError(validation.reason ?? 'Invalid deployment policy')
+      }
+    }
+
+    let estimatedDailyCostCents: number = BILLING_CONFIG.akash.minBalanceCentsToLaunch
+    if (input.policy?.gpuUnits && input.policy.gpuUnits > 0) {
+      estimatedDailyCostCents = await estimateGpuDailyCost(
+        context.prisma,
+        input.policy.gpuUnits,
+        input.policy.acceptableGpuModels ?? []
+      )
+    }
+
+    // Org approval rules hold the deploy before anything is written.
+    const templateGpu = service.templateId
+      ? getTemplateById(service.templateId)?.resources.gpu
+      : undefined
+    const gpuUnits =
+      input.resourceOverrides?.gpu === null
+        ? 0
+        : (input.resourceOverrides?.gpu?.units ??
+          input.policy?.gpuUnits ??
+          templateGpu?.units ??
+          0)
+    await assertDeployApproved(context, {
+      operation: 'deployToAkash',
+      args: { input },
+      provider: 'akash',
+      project: service.project,
+      serviceId: service.id,
+      hourlyCostCents: estimatedDailyCostCents / 24,
+      gpuUnits,
+    })
 
     // If source code is provided and this is a function, save it first
     if (input.sourceCode !== undefined && service.type === 'FUNCTION' && service.afFunction) {
@@ -324,23 +389,9 @@ export const akashMutations = {
       log.info(`Updated function source code for: ${service.afFunction.id}`)
     }
 
-    // ── Validate and create deployment policy ────────────────
+    // ── Create deployment policy ─────────────────────────────
     let policyId: string | undefined
-    let estimatedDailyCostCents: number = BILLING_CONFIG.akash.minBalanceCentsToLaunch
     if (input.policy) {
-      const validation = validatePolicyInput(input.policy)
-      if (!validation.allowed) {
-        throw new GraphQLError(validation.reason ?? 'Invalid deployment policy')
-      }
-
-      if (input.policy.gpuUnits && input.policy.gpuUnits > 0) {
-        estimatedDailyCostCents = await estimateGpuDailyCost(
-          context.prisma,
-          input.policy.gpuUnits,
-          input.policy.acceptableGpuModels ?? []
-        )
-      }
-
       // For time-limited deployments, validate and reserve funds upfront
       let reservedCents = 0
       if (input.policy.runtimeMinutes && input.policy.runtimeMinutes > 0 && context.organizationId) {
@@ -380,6 +431,10 @@ export const akashMutations = {
           maxBudgetUsd: input.policy.maxBudgetUsd ?? null,
           maxMonthlyUsd: input.policy.maxMonthlyUsd ?? null,
           runtimeMinutes: input.policy.runtimeMinutes ?? null,
+          minReplicas: input.policy.minReplicas ?? null,
+          maxReplicas: input.policy.maxReplicas ?? null,
+          targetP95LatencyMs: input.policy.targetP95LatencyMs ?? null,
+          targetRequestsPerSecond: input.policy.targetRequestsPerSecond ?? null,
           expiresAt: input.policy.runtimeMinutes
             ? new Date(Date.now() + input.policy.runtimeMinutes * 60_000)
             : null,
@@ -426,6 +481,7 @@ export const akashMutations = {
         depositUakt: input.depositUakt ?? null,
         hasSdlOverride: Boolean(input.sdlContent),
         hasResourceOverrides: Boolean(input.resourceOverrides),
+        strategy,
       },
     })
 
@@ -452,6 +508,7 @@ export const akashMutations = {
         resourceOverrides: input.resourceOverrides ?? undefined,
         baseImage: input.baseImage,
         region: regionForDeploy,
+        strategy,
       })
 
       if (policyId) {
@@ -526,6 +583,16 @@ export const akashMutations = {
       throw new GraphQLError('Function has no associated service in the registry')
     }
 
+    await assertDeployApproved(context, {
+      operation: 'deployFunctionToAkash',
+      args: { input },
+      provider: 'akash',
+      project: func.project,
+      serviceId: func.serviceId,
+      hourlyCostCents: BILLING_CONFIG.akash.minBalanceCentsToLaunch / 24,
+      gpuUnits: 0,
+    })
+
     await assertLaunchAllowed(
       context.organizationId,
       context.prisma,
@@ -594,7 +661,7 @@ export const akashMutations = {
       throw new GraphQLError('Deployment not found')
     }
 
-    assertProjectAccess(context, deployment.service.project, 'Not authorized to close this deployment')
+    assertServiceAccess(context, deployment.service, 'Not authorized to close this deployment')
 
     if (deployment.status === 'CLOSED') {
       throw new GraphQLError('Deployment is already closed')
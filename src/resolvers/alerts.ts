@@ -0,0 +1,281 @@
+/**
+ * Alert rule resolvers.
+ *
+ * Rules belong to a project and are evaluated by the alert scheduler (see
+ * services/alerts/alertRules.ts); this module only stores them and lists
+ * the incidents they opened. Silencing keeps a rule evaluating but stops
+ * its notifications until `silencedUntil`.
+ */
+
+import { GraphQLError } from 'graphql'
+import type {
+  AlertIncident,
+  AlertIncidentStatus,
+  AlertRule,
+} from '@prisma/client'
+import type { Context } from './types.js'
+import { requireAuth, assertProjectAccess } from '../utils/authorization.js'
+import { audit } from '../lib/audit.js'
+import {
+  MAX_SILENCE_MINUTES,
+  isSilenced,
+  normalizeAlertRule,
+  resolveIncident,
+  type AlertRuleInput,
+} from '../services/alerts/alertRules.js'
+
+const MAX_RULES_PER_PROJECT = 50
+const DEFAULT_INCIDENT_LIMIT = 50
+const MAX_INCIDENT_LIMIT = 200
+
+function invalid(message: string): GraphQLError {
+  return new GraphQLError(message, {
+    extensions: { code: 'INVALID_ALERT_RULE' },
+  })
+}
+
+function toRule(rule: AlertRule & { incidents?: AlertIncident[] }) {
+  const { incidents, ...fields } = rule
+  return {
+    ...fields,
+    firing: Boolean(incidents?.length),
+    silenced: isSilenced(rule, new Date()),
+  }
+}
+
+const FIRING_INCIDENT = {
+  incidents: { where: { status: 'FIRING' as const }, take: 1 },
+}
+
+async function loadProject(context: Context, projectId: string) {
+  const project = await context.prisma.project.findUnique({
+    where: { id: projectId },
+  })
+  if (!project) throw new GraphQLError('Project not found')
+  assertProjectAccess(context, project)
+  return project
+}
+
+async function loadRule(context: Context, id: string) {
+  requireAuth(context)
+  const rule = await context.prisma.alertRule.findUnique({
+    where: { id },
+    include: { project: true, ...FIRING_INCIDENT },
+  })
+  if (!rule) throw new GraphQLError('Alert rule not found')
+  assertProjectAccess(context, rule.project)
+  return rule
+}
+
+export const alertQueries = {
+  alertRules: async (
+    _: unknown,
+    args: { projectId: string },
+    context: Context
+  ) => {
+    requireAuth(context)
+    await loadProject(context, args.projectId)
+    const rules = await context.prisma.alertRule.findMany({
+      where: { projectId: args.projectId },
+      include: FIRING_INCIDENT,
+      orderBy: { createdAt: 'asc' },
+    })
+    return rules.map(toRule)
+  },
+
+  alertIncidents: async (
+    _: unknown,
+    args: {
+      projectId: string
+      ruleId?: string | null
+      status?: AlertIncidentStatus | null
+      limit?: number | null
+    },
+    context: Context
+  ) => {
+    requireAuth(context)
+    await loadProject(context, args.projectId)
+    const limit = Math.min(
+      Math.max(args.limit ?? DEFAULT_INCIDENT_LIMIT, 1),
+      MAX_INCIDENT_LIMIT
+    )
+    return context.prisma.alertIncident.findMany({
+      where: {
+        projectId: args.projectId,
+        ...(args.ruleId ? { ruleId: args.ruleId } : {}),
+        ...(args.status ? { status: args.status } : {}),
+      },
+      orderBy: { startedAt: 'desc' },
+      take: limit,
+    })
+  },
+}
+
+export const alertMutations = {
+  createAlertRule: async (
+    _: unknown,
+    args: {
+      input: AlertRuleInput & { projectId: string; enabled?: boolean | null }
+    },
+    context: Context
+  ) => {
+    const userId = requireAuth(context)
+    const { input } = args
+    const checked = normalizeAlertRule(input)
+    if (!checked.ok) throw invalid(checked.reason)
+    const project = await loadProject(context, input.projectId)
+
+    const existing = await context.prisma.alertRule.count({
+      where: { projectId: project.id },
+    })
+    if (existing >= MAX_RULES_PER_PROJECT) {
+      throw new GraphQLError(
+        `A project can have at most ${MAX_RULES_PER_PROJECT} alert rules`,
+        { extensions: { code: 'LIMIT_EXCEEDED' } }
+      )
+    }
+
+    const rule = await context.prisma.alertRule.create({
+      data: {
+        projectId: project.id,
+        ...checked.rule,
+        enabled: input.enabled ?? true,
+        createdByUserId: userId,
+      },
+    })
+    audit(context.prisma, {
+      category: 'user',
+      action: 'alert_rule.created',
+      userId,
+      orgId: project.organizationId,
+      projectId: project.id,
+      payload: { ruleId: rule.id, kind: rule.kind, name: rule.name },
+    })
+    return toRule(rule)
+  },
+
+  updateAlertRule: async (
+    _: unknown,
+    args: { id: string; input: AlertRuleInput & { enabled?: boolean | null } },
+    context: Context
+  ) => {
+    const existing = await loadRule(context, args.id)
+    const { input } = args
+    // Omitted fields keep their value; null clears an optional one.
+    const keep = <K extends keyof AlertRuleInput>(key: K) =>
+      input[key] !== undefined ? input[key] : existing[key]
+    const checked = normalizeAlertRule({
+      name: input.name ?? existing.name,
+      kind: input.kind ?? existing.kind,
+      metricName: keep('metricName'),
+      aggregation: keep('aggregation'),
+      serviceName: keep('serviceName'),
+      logPattern: keep('logPattern'),
+      minSeverityNumber: keep('minSeverityNumber'),
+      comparator: input.comparator ?? existing.comparator,
+      threshold: input.threshold ?? existing.threshold,
+      windowMinutes: input.windowMinutes ?? existing.windowMinutes,
+      severity: input.severity ?? existing.severity,
+    })
+    if (!checked.ok) throw invalid(checked.reason)
+
+    const rule = await context.prisma.alertRule.update({
+      where: { id: existing.id },
+      data: {
+        ...checked.rule,
+        ...(typeof input.enabled === 'boolean'
+          ? { enabled: input.enabled }
+          : {}),
+      },
+      include: FIRING_INCIDENT,
+    })
+    // A disabled rule is no longer watched, so its incident can't resolve
+    // on its own. Close it without notifying.
+    const open = rule.incidents[0]
+    if (!rule.enabled && open) {
+      await resolveIncident(context.prisma, rule, open, null, new Date())
+      rule.incidents = []
+    }
+    audit(context.prisma, {
+      category: 'user',
+      action: 'alert_rule.updated',
+      userId: context.userId,
+      orgId: existing.project.organizationId,
+      projectId: existing.projectId,
+      payload: { ruleId: rule.id, enabled: rule.enabled },
+    })
+    return toRule(rule)
+  },
+
+  deleteAlertRule: async (
+    _: unknown,
+    args: { id: string },
+    context: Context
+  ) => {
+    const rule = await loadRule(context, args.id)
+    await context.prisma.alertRule.delete({ where: { id: rule.id } })
+    audit(context.prisma, {
+      category: 'user',
+      action: 'alert_rule.deleted',
+      userId: context.userId,
+      orgId: rule.project.organizationId,
+      projectId: rule.projectId,
+      payload: { ruleId: rule.id, kind: rule.kind, name: rule.name },
+    })
+    return true
+  },
+
+  silenceAlertRule: async (
+    _: unknown,
+    args: { id: string; minutes: number },
+    context: Context
+  ) => {
+    const existing = await loadRule(context, args.id)
+    if (
+      !Number.isInteger(args.minutes) ||
+      args.minutes < 1 ||
+      args.minutes > MAX_SILENCE_MINUTES
+    ) {
+      throw invalid(
+        `minutes must be a whole number from 1 to ${MAX_SILENCE_MINUTES}`
+      )
+    }
+    const silencedUntil = new Date(Date.now() + args.minutes * 60_000)
+    const rule = await context.prisma.alertRule.update({
+      where: { id: existing.id },
+      data: { silencedUntil },
+      include: FIRING_INCIDENT,
+    })
+    audit(context.prisma, {
+      category: 'user',
+      action: 'alert_rule.silenced',
+      userId: context.userId,
+      orgId: existing.project.organizationId,
+      projectId: existing.projectId,
+      payload: { ruleId: rule.id, silencedUntil: silencedUntil.toISOString() },
+    })
+    return toRule(rule)
+  },
+
+  unsilenceAlertRule: async (
+    _: unknown,
+    args: { id: string },
+    context: Context
+  ) => {
+    const existing = await loadRule(context, args.id)
+    const rule = await context.prisma.alertRule.update({
+      where: { id: existing.id },
+      data: { silencedUntil: null },
+      include: FIRING_INCIDENT,
+    })
+    audit(context.prisma, {
+      category: 'user',
+      action: 'alert_rule.unsilenced',
+      userId: context.userId,
+      orgId: existing.project.organizationId,
+      projectId: existing.projectId,
+      payload: { ruleId: rule.id },
+    })
+    return toRule(rule)
+  },
+}
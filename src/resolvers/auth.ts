@@ -2,13 +2,26 @@
  * Authentication Resolvers
  *
  * GraphQL resolvers for Personal Access Token management
- * All PAT operations now proxy to the auth service
+ * All PAT operations now proxy to the auth service. Scope / project
+ * restrictions are ours and are stored locally, keyed by token id
+ * (see services/auth/tokenScopes.ts).
  */
 
 import { GraphQLError } from 'graphql'
 import jwt from 'jsonwebtoken'
 import type { Context } from './types.js'
 import { createLogger } from '../lib/logger.js'
+import { audit } from '../lib/audit.js'
+import {
+  assertProjectAccess,
+  assertServiceAccess,
+} from '../utils/authorization.js'
+import {
+  loadTokenRestriction,
+  revokeTokenRestriction,
+  normalizeTokenScopes,
+  tokenCoversProject,
+} from '../services/auth/tokenScopes.js'
 
 const log = createLogger('resolver-auth')
 
@@ -100,6 +113,44 @@ function validateTokenName(name: string): void {
   }
 }
 
+/**
+ * A token can only be bound to projects and services its creator can
+ * access in the current context.
+ */
+async function assertCanBindToken(
+  context: Context,
+  binding: { projectIds: string[]; serviceIds: string[] }
+): Promise<void> {
+  if (binding.projectIds.length) {
+    const projects = await context.prisma.project.findMany({
+      where: { id: { in: binding.projectIds } },
+      select: { id: true, userId: true, organizationId: true },
+    })
+    if (projects.length !== binding.projectIds.length) {
+      throw new GraphQLError('Project not found', {
+        extensions: { code: 'NOT_FOUND' },
+      })
+    }
+    projects.forEach(project => assertProjectAccess(context, project))
+  }
+  if (binding.serviceIds.length) {
+    const services = await context.prisma.service.findMany({
+      where: { id: { in: binding.serviceIds } },
+      select: {
+        id: true,
+        parentServiceId: true,
+        project: { select: { id: true, userId: true, organizationId: true } },
+      },
+    })
+    if (services.length !== binding.serviceIds.length) {
+      throw new GraphQLError('Service not found', {
+        extensions: { code: 'NOT_FOUND' },
+      })
+    }
+    services.forEach(service => assertServiceAccess(context, service))
+  }
+}
+
 /**
  * Validate expiration date
  */
@@ -149,16 +200,39 @@ export const authQueries = {
     }
 
     const data = await response.json()
-    const tokens = (data.tokens || []).map((t: any) => ({
-      id: t.id,
-      name: t.name,
-      // SDK expects this field; we don't have a server-side masked value
-      maskedToken: null,
-      expiresAt: t.expiresAt ? new Date(t.expiresAt) : null,
-      lastUsedAt: t.lastUsedAt ? new Date(t.lastUsedAt) : null,
-      createdAt: t.createdAt ? new Date(t.createdAt) : new Date(),
-      updatedAt: t.updatedAt ? new Date(t.updatedAt) : new Date(),
-    }))
+    const restrictions = await context.prisma.personalAccessTokenScope.findMany(
+      {
+        where: {
+          userId: context.userId,
+          tokenId: { in: (data.tokens || []).map((t: any) => t.id) },
+        },
+      }
+    )
+    const byTokenId = new Map(restrictions.map(r => [r.tokenId, r]))
+    const tokens = (data.tokens || []).map((t: any) => {
+      const restriction = byTokenId.get(t.id)
+      // Scoped tokens are also tracked here (SSE / shell use may not reach
+      // the auth service); show whichever use is more recent.
+      const lastUsed = [
+        t.lastUsedAt ? new Date(t.lastUsedAt) : null,
+        restriction?.lastUsedAt ?? null,
+      ].filter((d): d is Date => d !== null)
+      return {
+        id: t.id,
+        name: t.name,
+        // SDK expects this field; we don't have a server-side masked value
+        maskedToken: null,
+        scopes: restriction ? restriction.scopes : null,
+        projectIds: restriction?.projectIds ?? [],
+        serviceIds: restriction?.serviceIds ?? [],
+        expiresAt: t.expiresAt ? new Date(t.expiresAt) : null,
+        lastUsedAt: lastUsed.length
+          ? new Date(Math.max(...lastUsed.map(d => d.getTime())))
+          : null,
+        createdAt: t.createdAt ? new Date(t.createdAt) : new Date(),
+        updatedAt: t.updatedAt ? new Date(t.updatedAt) : new Date(),
+      }
+    })
 
     // Return wrapped format for SDK compatibility
     return { data: tokens }
@@ -248,7 +322,11 @@ async function validateTokenViaAuthService(
  * Generate a short-lived access token for the SDK
  * This token is used for subsequent GraphQL requests
  */
-function generateAccessToken(userId: string, projectId?: string): string {
+function generateAccessToken(
+  userId: string,
+  projectId?: string,
+  tokenId?: string
+): string {
   const secret = process.env.JWT_SECRET
   if (!secret) {
     throw new Error('JWT_SECRET not configured')
@@ -259,6 +337,8 @@ function generateAccessToken(userId: string, projectId?: string): string {
     {
       userId,
       projectId,
+      // Lets the middleware apply the PAT's scopes to the SDK token too
+      tokenId,
       type: 'sdk-access',
     },
     secret,
@@ -330,10 +410,34 @@ export const authMutations = {
           extensions: { code: 'UNAUTHORIZED' },
         })
       }
+
+      // A token bound to services can still select their project.
+      const restriction = await loadTokenRestriction(
+        context.prisma,
+        validationResult.tokenId
+      )
+      if (
+        restriction &&
+        !tokenCoversProject(restriction, projectId) &&
+        (await context.prisma.service.count({
+          where: { id: { in: restriction.serviceIds }, projectId },
+        })) === 0
+      ) {
+        throw new GraphQLError(
+          'This token is not allowed to access this project',
+          {
+            extensions: { code: 'FORBIDDEN' },
+          }
+        )
+      }
     }
 
     // Generate a short-lived access token for subsequent requests
-    const accessToken = generateAccessToken(validationResult.userId, projectId)
+    const accessToken = generateAccessToken(
+      validationResult.userId,
+      projectId,
+      validationResult.tokenId
+    )
 
     return accessToken
   },
@@ -344,7 +448,17 @@ export const authMutations = {
    */
   createPersonalAccessToken: async (
     _: unknown,
-    { name, expiresAt }: { name: string; expiresAt?: string },
+    {
+      name,
+      expiresAt,
+      ...restrictionInput
+    }: {
+      name: string
+      expiresAt?: string
+      scopes?: string[] | null
+      projectIds?: string[] | null
+      serviceIds?: string[] | null
+    },
     context: Context
   ) => {
     if (!context.userId) {
@@ -353,6 +467,13 @@ export const authMutations = {
 
     // Validate inputs
     validateTokenName(name)
+    const restriction = normalizeTokenScopes(restrictionInput)
+    if (!restriction.ok) {
+      throw new GraphQLError(restriction.reason, {
+        extensions: { code: 'INVALID_ARGUMENT' },
+      })
+    }
+    await assertCanBindToken(context, restriction)
 
     let expirationDate: Date | undefined
     let expirationTimestamp: number | undefined
@@ -411,7 +532,48 @@ export const authMutations = {
     }
 
     const data = await response.json()
-    return data.token
+    const scoped = restriction.scopes.length > 0
+    if (scoped) {
+      try {
+        await context.prisma.personalAccessTokenScope.create({
+          data: {
+            tokenId: data.token.id,
+            userId: context.userId,
+            scopes: restriction.scopes,
+            projectIds: restriction.projectIds,
+            serviceIds: restriction.serviceIds,
+          },
+        })
+      } catch (error) {
+        // Never leave an unrestricted token behind for a scoped request.
+        log.error(error, 'Failed to store token scopes; revoking token')
+        await authServiceRequest(
+          `/tokens/${data.token.id}`,
+          { method: 'DELETE' },
+          context.userId
+        ).catch(() => undefined)
+        throw new GraphQLError('Failed to create token', {
+          extensions: { code: 'INTERNAL_SERVER_ERROR' },
+        })
+      }
+      audit(context.prisma, {
+        category: 'auth',
+        action: 'token.scoped_created',
+        userId: context.userId,
+        payload: {
+          tokenId: data.token.id,
+          scopes: restriction.scopes,
+          projectIds: restriction.projectIds,
+          serviceIds: restriction.serviceIds,
+        },
+      })
+    }
+    return {
+      ...data.token,
+      scopes: scoped ? restriction.scopes : null,
+      projectIds: restriction.projectIds,
+      serviceIds: restriction.serviceIds,
+    }
   },
 
   /**
@@ -460,6 +622,8 @@ export const authMutations = {
       })
     }
 
+    await revokeTokenRestriction(context.prisma, id, context.userId)
+
     const data = await response.json()
     return data.success
   },
@@ -0,0 +1,263 @@
+/**
+ * Provider-agnostic deploy resolvers.
+ *
+ * `deployService(serviceId, target)` routes to the existing per-provider
+ * deploy mutation, so every launch guard, policy reservation and audit
+ * event stays where it already lives. With `target.provider` unset or
+ * `auto`, providers are quoted through the registry
+ * (`DeploymentProvider.quoteDeployTarget`) and tried cheapest-first; a
+ * NO_CAPACITY rejection falls through to the next candidate.
+ *
+ * `deployTarget(serviceId, target)` previews that decision without
+ * deploying anything.
+ */
+
+import { GraphQLError } from 'graphql'
+import type { Context } from './types.js'
+import { requireAuth, assertServiceAccess } from '../utils/authorization.js'
+import { createLogger } from '../lib/logger.js'
+import {
+  quoteDeployTargets,
+  rankDeployTargets,
+  tryGetProvider,
+} from '../services/providers/registry.js'
+import type {
+  DeployTargetQuote,
+  DeployTargetRequest,
+} from '../services/providers/types.js'
+import type { DeploymentPolicyInput } from '../services/policy/types.js'
+import { getTemplateById } from '../templates/registry.js'
+import { akashMutations } from './akash.js'
+import { phalaMutations } from './phala.js'
+import { spheronMutations } from './spheron.js'
+
+const log = createLogger('resolver-deploy')
+
+export const AUTO_PROVIDER = 'auto'
+
+type GpuTarget = { units: number; vendor: string; model?: string | null }
+
+export interface DeployTargetInput {
+  provider?: string | null
+  region?: string | null
+  /** null = explicitly CPU-only; omitted = service/template default. */
+  gpu?: GpuTarget | null
+  policy?: DeploymentPolicyInput | null
+}
+
+function gpuOverride(target: DeployTargetInput) {
+  if (target.gpu === undefined) return undefined
+  if (target.gpu === null) return { gpu: null }
+  return {
+    gpu: {
+      units: target.gpu.units,
+      vendor: target.gpu.vendor,
+      model: target.gpu.model ?? undefined,
+    },
+  }
+}
+
+/**
+ * Per-provider deploy entry points. Adding a provider means registering
+ * its `DeploymentProvider` and mapping the generic target onto its deploy
+ * mutation here.
+ */
+const DEPLOY_ENTRYPOINTS = {
+  akash: (serviceId: string, target: DeployTargetInput, context: Context) =>
+    akashMutations.deployToAkash(
+      undefined,
+      {
+        input: {
+          serviceId,
+          region: target.region ?? null,
+          policy: target.policy ?? undefined,
+          resourceOverrides: gpuOverride(target),
+        },
+      },
+      context
+    ),
+  phala: (serviceId: string, target: DeployTargetInput, context: Context) =>
+    phalaMutations.deployToPhala(
+      undefined,
+      {
+        input: {
+          serviceId,
+          policy: target.policy ?? undefined,
+          resourceOverrides: gpuOverride(target),
+        },
+      },
+      context
+    ),
+  spheron: (serviceId: string, target: DeployTargetInput, context: Context) =>
+    spheronMutations.deployToSpheron(
+      undefined,
+      {
+        input: {
+          serviceId,
+          region: target.region ?? undefined,
+          policy: target.policy ?? undefined,
+          resourceOverrides: gpuOverride(target),
+        },
+      },
+      context
+    ),
+}
+
+function entrypointFor(provider: string) {
+  return Object.hasOwn(DEPLOY_ENTRYPOINTS, provider)
+    ? DEPLOY_ENTRYPOINTS[provider as keyof typeof DEPLOY_ENTRYPOINTS]
+    : null
+}
+
+async function loadService(context: Context, serviceId: string) {
+  requireAuth(context)
+  const service = await context.prisma.service.findUnique({
+    where: { id: serviceId },
+    include: { project: true },
+  })
+  if (!service) throw new GraphQLError('Service not found')
+  assertServiceAccess(context, service, 'Not authorized to deploy this service')
+  return service
+}
+
+/**
+ * Build the quote request. GPU comes from the explicit target, then the
+ * policy, then the service's template — the same precedence the
+ * per-provider mutations apply when they resolve resources.
+ */
+function buildQuoteRequest(
+  service: { id: string; type: string; templateId: string | null },
+  target: DeployTargetInput
+): DeployTargetRequest {
+  const template = service.templateId
+    ? getTemplateById(service.templateId)
+    : null
+  let gpu: GpuTarget | null = null
+  if (target.gpu !== undefined) {
+    gpu = target.gpu
+  } else if (target.policy?.gpuUnits) {
+    gpu = {
+      units: target.policy.gpuUnits,
+      vendor: target.policy.gpuVendor ?? 'nvidia',
+      model: target.policy.acceptableGpuModels?.[0] ?? null,
+    }
+  } else if (template?.resources.gpu) {
+    gpu = template.resources.gpu
+  }
+
+  return {
+    serviceId: service.id,
+    serviceType: service.type,
+    region: target.region ?? null,
+    gpu,
+    acceptableGpuModels: target.policy?.acceptableGpuModels ?? undefined,
+    cpu: template?.resources.cpu,
+    memory: template?.resources.memory,
+  }
+}
+
+function assertKnownProvider(name: string) {
+  const entrypoint = entrypointFor(name)
+  if (!entrypoint || !tryGetProvider(name)?.isAvailable()) {
+    throw new GraphQLError(
+      `Provider "${name}" is not available for deployService`,
+      {
+        extensions: { code: 'PROVIDER_UNAVAILABLE', provider: name },
+      }
+    )
+  }
+  return entrypoint
+}
+
+function isNoCapacity(err: unknown): boolean {
+  return err instanceof GraphQLError && err.extensions?.code === 'NO_CAPACITY'
+}
+
+async function decideTargets(
+  service: { id: string; type: string; templateId: string | null },
+  target: DeployTargetInput
+): Promise<DeployTargetQuote[]> {
+  const quotes = await quoteDeployTargets(buildQuoteRequest(service, target))
+  return rankDeployTargets(quotes.filter(q => entrypointFor(q.provider)))
+}
+
+export const deployQueries = {
+  deployTarget: async (
+    _: unknown,
+    {
+      serviceId,
+      target,
+    }: { serviceId: string; target?: DeployTargetInput | null },
+    context: Context
+  ) => {
+    const service = await loadService(context, serviceId)
+    const ranked = await decideTargets(service, target ?? {})
+    const best = ranked.find(q => q.available) ?? null
+    return {
+      provider: best?.provider ?? null,
+      region: best?.region ?? null,
+      estimatedHourlyUsd: best?.estimatedHourlyUsd ?? null,
+      reason: best?.reason ?? 'No provider can take this workload right now',
+      candidates: ranked,
+    }
+  },
+}
+
+export const deployMutations = {
+  deployService: async (
+    _: unknown,
+    {
+      serviceId,
+      target,
+    }: { serviceId: string; target?: DeployTargetInput | null },
+    context: Context
+  ) => {
+    if (!context.userId) {
+      throw new GraphQLError('Not authenticated')
+    }
+    const service = await loadService(context, serviceId)
+    const input = target ?? {}
+    const requested = (input.provider ?? AUTO_PROVIDER).toLowerCase()
+
+    if (requested !== AUTO_PROVIDER) {
+      const entrypoint = assertKnownProvider(requested)
+      return entrypoint(service.id, input, context)
+    }
+
+    const ranked = (await decideTargets(service, input)).filter(
+      q => q.available
+    )
+    if (ranked.length === 0) {
+      throw new GraphQLError('No provider can take this workload right now', {
+        extensions: { code: 'NO_CAPACITY', provider: AUTO_PROVIDER },
+      })
+    }
+
+    let lastError: unknown
+    for (const quote of ranked) {
+      try {
+        log.info(
+          {
+            serviceId,
+            provider: quote.provider,
+            estimatedHourlyUsd: quote.estimatedHourlyUsd,
+          },
+          'deployService auto: trying provider'
+        )
+        return await assertKnownProvider(quote.provider)(
+          service.id,
+          input,
+          context
+        )
+      } catch (err) {
+        if (!isNoCapacity(err)) throw err
+        log.info(
+          { serviceId, provider: quote.provider },
+          'deployService auto: no capacity, falling through'
+        )
+        lastError = err
+      }
+    }
+    throw lastError
+  },
+}
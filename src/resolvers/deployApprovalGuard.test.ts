@@ -0,0 +1,102 @@
+import { describe, expect, it, vi } from 'vitest'
+import type { Context } from './types.js'
+import {
+  assertDeployApproved,
+  exemptFromDeployApproval,
+} from './deployApprovalGuard.js'
+
+vi.mock('../services/notifications/notify.js', () => ({ notify: vi.fn() }))
+vi.mock('../lib/vault.js', () => ({
+  sealSecret: (_purpose: string, value: string) => `sealed:${value}`,
+}))
+
+function makeContext(role: string, pending: unknown = null) {
+  const create = vi.fn().mockImplementation(({ data }) => ({
+    id: 'req-1',
+    ...data,
+  }))
+  const context = {
+    userId: 'dev-1',
+    prisma: {
+      deployApprovalRule: {
+        findMany: vi.fn().mockResolvedValue([
+          {
+            id: 'r1',
+            name: 'Prod GPUs',
+            projectIds: ['prod'],
+            minHourlyCostCents: null,
+            requireForGpu: true,
+            approverRole: 'ADMIN',
+          },
+        ]),
+      },
+      organizationMember: {
+        findUnique: vi.fn().mockResolvedValue({ role }),
+      },
+      deployApprovalRequest: {
+        findFirst: vi.fn().mockResolvedValue(pending),
+        create,
+      },
+      auditEvent: { create: vi.fn().mockResolvedValue({}) },
+    },
+  } as unknown as Context
+  return { context, create }
+}
+
+const gpuDeploy = {
+  operation: 'deployToAkash' as const,
+  args: { input: { serviceId: 's1' } },
+  provider: 'akash' as const,
+  project: { id: 'prod', organizationId: 'org-1' },
+  serviceId: 's1',
+  hourlyCostCents: 75,
+  gpuUnits: 1,
+}
+
+describe('assertDeployApproved', () => {
+  it('parks a matching deploy as a sealed request', async () => {
+    const { context, create } = makeContext('DEVELOPER')
+    await expect(
+      assertDeployApproved(context, gpuDeploy)
+    ).rejects.toMatchObject({
+      extensions: {
+        code: 'APPROVAL_REQUIRED',
+        approvalRequestId: 'req-1',
+        reasons: ['Prod GPUs: requests 1 GPU'],
+      },
+    })
+    expect(create.mock.calls[0][0].data).toMatchObject({
+      organizationId: 'org-1',
+      operation: 'deployToAkash',
+      sealedArgs: 'sealed:{"input":{"serviceId":"s1"}}',
+      requestedByUserId: 'dev-1',
+    })
+  })
+
+  it('returns the pending request when the same deploy is retried', async () => {
+    const pending = {
+      id: 'req-0',
+      reasons: ['Prod GPUs: requests 1 GPU'],
+      approverRole: 'ADMIN',
+      expiresAt: new Date('2026-06-02T00:00:00Z'),
+    }
+    const { context, create } = makeContext('DEVELOPER', pending)
+    await expect(
+      assertDeployApproved(context, gpuDeploy)
+    ).rejects.toMatchObject({ extensions: { approvalRequestId: 'req-0' } })
+    expect(create).not.toHaveBeenCalled()
+  })
+
+  it('lets approvers, exempt contexts and non-matching deploys through', async () => {
+    await expect(
+      assertDeployApproved(makeContext('ADMIN').context, gpuDeploy)
+    ).resolves.toBeUndefined()
+    const { context } = makeContext('DEVELOPER')
+    await expect(
+      assertDeployApproved(exemptFromDeployApproval(context), gpuDeploy)
+    ).resolves.toBeUndefined()
+    await expect(
+      assertDeployApproved(context, { ...gpuDeploy, gpuUnits: 0 })
+    ).resolves.toBeUndefined()
+  })
+})
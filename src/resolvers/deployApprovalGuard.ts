@@ -0,0 +1,179 @@
+/**
+ * Deploy approval gate — the per-organization counterpart of the platform
+ * launch guards (`launchGuards.ts`).
+ *
+ * Provider and template deploy mutations call `assertDeployApproved` once
+ * they know the project, hourly cost and GPU count, before anything is
+ * launched or reserved. When one of the org's rules matches (see
+ * services/approvals/deployApprovals.ts) the deploy is parked as a
+ * pending request, approvers are notified, and the mutation fails with
+ * APPROVAL_REQUIRED. Asking again with the same args returns the same
+ * request instead of queueing a duplicate.
+ *
+ * Contexts passed through `exemptFromDeployApproval` skip the gate: the
+ * approved replay itself, and platform-driven redeploys of a service that
+ * already runs (failover, autoscaling). Rollbacks are gated like any
+ * deploy; one that redeploys through a provider mutation uses
+ * `holdDeployAs` so a held request replays the rollback, not the inner
+ * deploy.
+ */
+
+import { GraphQLError } from 'graphql'
+import type { Context } from './types.js'
+import { audit } from '../lib/audit.js'
+import { sealSecret } from '../lib/vault.js'
+import { getOrgRole } from '../services/auth/permissions.js'
+import { notify } from '../services/notifications/notify.js'
+import {
+  canApprove,
+  getApprovalTtlHours,
+  hashDeployArgs,
+  matchApprovalRules,
+  type ApprovableOperation,
+} from '../services/approvals/deployApprovals.js'
+
+const exemptContexts = new WeakSet<Context>()
+const heldAs = new WeakMap<
+  Context,
+  { operation: ApprovableOperation; args: unknown }
+>()
+
+/** A copy of the context that deploys without the approval gate. */
+export function exemptFromDeployApproval(context: Context): Context {
+  const exempt = { ...context }
+  exemptContexts.add(exempt)
+  return exempt
+}
+
+/**
+ * A copy of the context whose held deploys are recorded — and replayed on
+ * approval — as `operation` with `args` instead of the mutation it calls.
+ */
+export function holdDeployAs(
+  context: Context,
+  operation: ApprovableOperation,
+  args: unknown
+): Context {
+  const held = { ...context }
+  heldAs.set(held, { operation, args })
+  if (exemptContexts.has(context)) exemptContexts.add(held)
+  return held
+}
+
+export interface DeployApprovalCheck {
+  operation: ApprovableOperation
+  /** The mutation's args, replayed as-is on approval. */
+  args: unknown
+  provider: 'akash' | 'phala' | 'spheron'
+  project: { id: string; organizationId: string | null }
+  serviceId?: string | null
+  hourlyCostCents: number
+  gpuUnits: number
+}
+
+/**
+ * Throws APPROVAL_REQUIRED (after recording the request) when an org rule
+ * holds this deploy. Personal projects have no approvers and pass.
+ */
+export async function assertDeployApproved(
+  context: Context,
+  check: DeployApprovalCheck
+): Promise<void> {
+  const organizationId = check.project.organizationId
+  if (exemptContexts.has(context) || !organizationId) return
+
+  const rules = await context.prisma.deployApprovalRule.findMany({
+    where: { organizationId, enabled: true },
+  })
+  if (rules.length === 0) return
+  const hourlyCostCents = Math.ceil(check.hourlyCostCents)
+  const match = matchApprovalRules(rules, {
+    projectId: check.project.id,
+    hourlyCostCents,
+    gpuUnits: check.gpuUnits,
+  })
+  if (!match) return
+
+  const userId = context.userId ?? null
+  if (userId) {
+    const role = await getOrgRole(context.prisma, organizationId, userId)
+    if (canApprove(role, match.approverRole)) return
+  }
+
+  const { operation, args } = heldAs.get(context) ?? check
+  const now = new Date()
+  const argsHash = hashDeployArgs(operation, args)
+  let request = await context.prisma.deployApprovalRequest.findFirst({
+    where: {
+      organizationId,
+      requestedByUserId: userId,
+      argsHash,
+      status: 'PENDING',
+      expiresAt: { gt: now },
+    },
+  })
+  if (!request) {
+    request = await context.prisma.deployApprovalRequest.create({
+      data: {
+        organizationId,
+        projectId: check.project.id,
+        serviceId: check.serviceId ?? null,
+        operation,
+        provider: check.provider,
+        sealedArgs: sealSecret('deploy-approval', JSON.stringify(args)),
+        argsHash,
+        hourlyCostCents,
+        gpuUnits: check.gpuUnits,
+        ruleIds: match.ruleIds,
+        reasons: match.reasons,
+        approverRole: match.approverRole,
+        requestedByUserId: userId,
+        expiresAt: new Date(now.getTime() + getApprovalTtlHours() * 3_600_000),
+      },
+    })
+    audit(context.prisma, {
+      category: 'deployment',
+      action: 'deployment.approval_requested',
+      userId,
+      orgId: organizationId,
+      projectId: check.project.id,
+      serviceId: check.serviceId ?? null,
+      payload: {
+        approvalRequestId: request.id,
+        operation,
+        provider: check.provider,
+        hourlyCostCents,
+        gpuUnits: check.gpuUnits,
+        ruleIds: match.ruleIds,
+      },
+    })
+    notify(context.prisma, {
+      event: 'deploy.approval_requested',
+      severity: 'warning',
+      title: 'Deploy waiting for approval',
+      message: `A ${check.provider} deploy needs approval from an org ${match.approverRole === 'OWNER' ? 'owner' : 'admin'}: ${match.reasons.join('; ')}`,
+      projectId: check.project.id,
+      serviceId: check.serviceId ?? null,
+      dedupeKey: `deploy.approval_requested:${request.id}`,
+      data: {
+        approvalRequestId: request.id,
+        hourlyCostCents,
+        gpuUnits: check.gpuUnits,
+        expiresAt: request.expiresAt.toISOString(),
+      },
+    })
+  }
+
+  throw new GraphQLError(
+    `This deploy needs approval (${request.reasons.join('; ')}). Request ${request.id} was sent to the organization's approvers.`,
+    {
+      extensions: {
+        code: 'APPROVAL_REQUIRED',
+        approvalRequestId: request.id,
+        approverRole: request.approverRole,
+        reasons: request.reasons,
+        expiresAt: request.expiresAt.toISOString(),
+      },
+    }
+  )
+}
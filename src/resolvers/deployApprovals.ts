@@ -0,0 +1,531 @@
+/**
+ * Deploy approval rules and requests.
+ *
+ * Owners and admins (`org.manage`) maintain the rules. Requests are
+ * created by the deploy mutations themselves (see deployApprovalGuard.ts)
+ * and decided here: approving replays the held mutation with the
+ * requester's identity, so the deployment is attributed to them and goes
+ * through the normal provider queue.
+ */
+
+import {
+  GraphQLError,
+  type GraphQLFieldResolver,
+  type GraphQLResolveInfo,
+} from 'graphql'
+import type {
+  DeployApprovalRequest,
+  DeployApprovalRule,
+  DeployApprovalStatus,
+  OrganizationRole,
+  Prisma,
+} from '@prisma/client'
+import type { Context } from './types.js'
+import {
+  requireAuth,
+  assertOrgPermission,
+  assertTokenScope,
+} from '../utils/authorization.js'
+import { audit } from '../lib/audit.js'
+import { openSecret } from '../lib/vault.js'
+import { getOrgRole, roleHasPermission } from '../services/auth/permissions.js'
+import {
+  canApprove,
+  normalizeApprovalRule,
+  type ApprovableOperation,
+} from '../services/approvals/deployApprovals.js'
+import { exemptFromDeployApproval } from './deployApprovalGuard.js'
+import { assertOrgMembership } from './github.js'
+import { akashMutations } from './akash.js'
+import { phalaMutations } from './phala.js'
+import { spheronMutations } from './spheron.js'
+import { templateMutations } from './templates.js'
+import { rollbackMutations } from './rollback.js'
+
+const MAX_RULES_PER_ORG = 25
+const MAX_NOTE_LENGTH = 500
+const DEFAULT_REQUEST_LIMIT = 50
+const MAX_REQUEST_LIMIT = 200
+
+const REPLAY: Record<
+  ApprovableOperation,
+  GraphQLFieldResolver<unknown, Context>
+> = {
+  deployToAkash: akashMutations.deployToAkash,
+  deployFunctionToAkash: akashMutations.deployFunctionToAkash,
+  deployToPhala: phalaMutations.deployToPhala,
+  deployToSpheron: spheronMutations.deployToSpheron,
+  deployFromTemplate: templateMutations.deployFromTemplate,
+  deployFromTemplateToPhala: templateMutations.deployFromTemplateToPhala,
+  deployFromTemplateToSpheron: templateMutations.deployFromTemplateToSpheron,
+  deployCompositeTemplate: templateMutations.deployCompositeTemplate,
+  rollbackService: rollbackMutations.rollbackService,
+}
+
+function invalid(message: string): GraphQLError {
+  return new GraphQLError(message, {
+    extensions: { code: 'INVALID_DEPLOY_APPROVAL' },
+  })
+}
+
+function normalizeNote(raw: string | null | undefined): string | null {
+  const note = raw?.trim() ?? ''
+  if (note.length > MAX_NOTE_LENGTH) {
+    throw invalid(`note can be at most ${MAX_NOTE_LENGTH} characters`)
+  }
+  return note || null
+}
+
+function toRule(rule: DeployApprovalRule) {
+  return {
+    ...rule,
+    minHourlyCostUsd:
+      rule.minHourlyCostCents === null ? null : rule.minHourlyCostCents / 100,
+  }
+}
+
+/** The sealed args never leave the server. */
+function toRequest(request: DeployApprovalRequest) {
+  return {
+    ...request,
+    sealedArgs: null,
+    argsHash: null,
+    hourlyCostUsd: request.hourlyCostCents / 100,
+  }
+}
+
+async function assertRuleProjects(
+  context: Context,
+  organizationId: string,
+  projectIds: string[]
+): Promise<void> {
+  if (projectIds.length === 0) return
+  const found = await context.prisma.project.count({
+    where: { id: { in: projectIds }, organizationId },
+  })
+  if (found !== projectIds.length) {
+    throw invalid('every project must belong to the organization')
+  }
+}
+
+async function loadRule(context: Context, id: string) {
+  requireAuth(context)
+  const rule = await context.prisma.deployApprovalRule.findUnique({
+    where: { id },
+  })
+  if (!rule) throw new GraphQLError('Approval rule not found')
+  await assertOrgPermission(context, rule.organizationId, 'org.manage')
+  return rule
+}
+
+async function loadRequest(context: Context, id: string) {
+  requireAuth(context)
+  const request = await context.prisma.deployApprovalRequest.findUnique({
+    where: { id },
+  })
+  if (!request) throw new GraphQLError('Approval request not found')
+  return request
+}
+
+/** Approving or rejecting needs the request's approver role. */
+async function assertApprover(
+  context: Context,
+  request: DeployApprovalRequest,
+  operation: string
+): Promise<OrganizationRole> {
+  const userId = requireAuth(context)
+  assertTokenScope(context, 'deploy:write', { operation })
+  const role = await getOrgRole(context.prisma, request.organizationId, userId)
+  if (!role || !canApprove(role, request.approverRole)) {
+    throw new GraphQLError(
+      `Only an org ${request.approverRole === 'OWNER' ? 'owner' : 'admin or owner'} can decide this request`,
+      { extensions: { code: 'FORBIDDEN' } }
+    )
+  }
+  if (request.requestedByUserId === userId) {
+    throw new GraphQLError('You cannot decide your own deploy request', {
+      extensions: { code: 'FORBIDDEN' },
+    })
+  }
+  return role
+}
+
+/**
+ * Move a PENDING, unexpired request to `status`. Throws when someone else
+ * decided it first or it has lapsed.
+ */
+async function claimPending(
+  context: Context,
+  request: DeployApprovalRequest,
+  data: Prisma.DeployApprovalRequestUpdateManyMutationInput & {
+    status: DeployApprovalStatus
+  }
+): Promise<void> {
+  const now = new Date()
+  const claimed = await context.prisma.deployApprovalRequest.updateMany({
+    where: { id: request.id, status: 'PENDING', expiresAt: { gt: now } },
+    data: { decidedAt: now, ...data },
+  })
+  if (claimed.count > 0) return
+  const current = await context.prisma.deployApprovalRequest.findUnique({
+    where: { id: request.id },
+    select: { status: true },
+  })
+  // Still PENDING here means it lapsed before the expiry sweep got to it.
+  const status =
+    !current || current.status === 'PENDING' ? 'EXPIRED' : current.status
+  throw invalid(`This request is already ${status.toLowerCase()}`)
+}
+
+function launchedIds(result: unknown): {
+  launchedDeploymentId: string | null
+  launchedServiceId: string | null
+} {
+  const r = (result ?? {}) as Record<string, unknown>
+  const str = (v: unknown) => (typeof v === 'string' ? v : null)
+  return {
+    launchedDeploymentId: r.primaryServiceId ? null : str(r.id),
+    launchedServiceId: str(r.serviceId) ?? str(r.primaryServiceId),
+  }
+}
+
+/** Run the held mutation as the requester. */
+async function launchApproved(
+  context: Context,
+  request: DeployApprovalRequest,
+  approverId: string,
+  info: GraphQLResolveInfo
+) {
+  const requesterId = request.requestedByUserId ?? approverId
+  try {
+    const role = await getOrgRole(
+      context.prisma,
+      request.organizationId,
+      requesterId
+    )
+    if (!role || !roleHasPermission(role, 'deploy')) {
+      throw new Error('The requester can no longer deploy in this organization')
+    }
+    const resolve = REPLAY[request.operation as ApprovableOperation]
+    if (!resolve) throw new Error(`Unknown operation ${request.operation}`)
+    const args = JSON.parse(openSecret('deploy-approval', request.sealedArgs))
+    const result = await resolve(
+      undefined,
+      args,
+      exemptFromDeployApproval({
+        ...context,
+        userId: requesterId,
+        organizationId: request.organizationId,
+        tokenScope: undefined,
+      }),
+      info
+    )
+    const ids = launchedIds(result)
+    audit(context.prisma, {
+      category: 'deployment',
+      action: 'deployment.approval_launched',
+      userId: approverId,
+      orgId: request.organizationId,
+      projectId: request.projectId,
+      serviceId: ids.launchedServiceId ?? request.serviceId,
+      deploymentId: ids.launchedDeploymentId,
+      payload: { approvalRequestId: request.id, requestedBy: requesterId },
+    })
+    return context.prisma.deployApprovalRequest.update({
+      where: { id: request.id },
+      data: { status: 'LAUNCHED', ...ids },
+    })
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err)
+    audit(context.prisma, {
+      category: 'deployment',
+      action: 'deployment.approval_launch_failed',
+      status: 'error',
+      userId: approverId,
+      orgId: request.organizationId,
+      projectId: request.projectId,
+      serviceId: request.serviceId,
+      errorMessage: message,
+      payload: { approvalRequestId: request.id, requestedBy: requesterId },
+    })
+    return context.prisma.deployApprovalRequest.update({
+      where: { id: request.id },
+      data: { status: 'FAILED', errorMessage: message.slice(0, 1000) },
+    })
+  }
+}
+
+export const deployApprovalQueries = {
+  deployApprovalRules: async (
+    _: unknown,
+    args: { orgId: string },
+    context: Context
+  ) => {
+    await assertOrgMembership(context, args.orgId)
+    const rules = await context.prisma.deployApprovalRule.findMany({
+      where: { organizationId: args.orgId },
+      orderBy: { createdAt: 'asc' },
+    })
+    return rules.map(toRule)
+  },
+
+  deployApprovalRequests: async (
+    _: unknown,
+    args: {
+      orgId: string
+      status?: DeployApprovalStatus | null
+      limit?: number | null
+    },
+    context: Context
+  ) => {
+    await assertOrgMembership(context, args.orgId)
+    const limit = Math.min(
+      Math.max(args.limit ?? DEFAULT_REQUEST_LIMIT, 1),
+      MAX_REQUEST_LIMIT
+    )
+    const requests = await context.prisma.deployApprovalRequest.findMany({
+      where: {
+        organizationId: args.orgId,
+        ...(args.status ? { status: args.status } : {}),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    })
+    return requests.map(toRequest)
+  },
+
+  deployApprovalRequest: async (
+    _: unknown,
+    args: { id: string },
+    context: Context
+  ) => {
+    const request = await loadRequest(context, args.id)
+    await assertOrgMembership(context, request.organizationId)
+    return toRequest(request)
+  },
+}
+
+export const deployApprovalMutations = {
+  createDeployApprovalRule: async (
+    _: unknown,
+    args: {
+      input: {
+        orgId: string
+        name: string
+        projectIds?: string[] | null
+        minHourlyCostUsd?: number | null
+        requireForGpu?: boolean | null
+        approverRole?: OrganizationRole | null
+        enabled?: boolean | null
+      }
+    },
+    context: Context
+  ) => {
+    const userId = requireAuth(context)
+    const { input } = args
+    const checked = normalizeApprovalRule(input)
+    if (!checked.ok) throw invalid(checked.reason)
+    const fields = checked.rule
+    await assertOrgPermission(context, input.orgId, 'org.manage', {
+      operation: 'createDeployApprovalRule',
+    })
+    await assertRuleProjects(context, input.orgId, fields.projectIds)
+
+    const existing = await context.prisma.deployApprovalRule.count({
+      where: { organizationId: input.orgId },
+    })
+    if (existing >= MAX_RULES_PER_ORG) {
+      throw new GraphQLError(
+        `An organization can have at most ${MAX_RULES_PER_ORG} approval rules`,
+        { extensions: { code: 'LIMIT_EXCEEDED' } }
+      )
+    }
+
+    const created = await context.prisma.deployApprovalRule.create({
+      data: {
+        organizationId: input.orgId,
+        ...fields,
+        enabled: input.enabled ?? true,
+        createdByUserId: userId,
+      },
+    })
+    audit(context.prisma, {
+      category: 'user',
+      action: 'deploy_approval_rule.created',
+      userId,
+      orgId: input.orgId,
+      payload: { ruleId: created.id, ...fields },
+    })
+    return toRule(created)
+  },
+
+  updateDeployApprovalRule: async (
+    _: unknown,
+    args: {
+      id: string
+      input: {
+        name?: string | null
+        projectIds?: string[] | null
+        minHourlyCostUsd?: number | null
+        requireForGpu?: boolean | null
+        approverRole?: OrganizationRole | null
+        enabled?: boolean | null
+      }
+    },
+    context: Context
+  ) => {
+    const existing = await loadRule(context, args.id)
+    const { input } = args
+    // Omitted fields keep their value; minHourlyCostUsd: null clears it.
+    const checked = normalizeApprovalRule({
+      name: input.name ?? existing.name,
+      projectIds: input.projectIds ?? existing.projectIds,
+      minHourlyCostUsd:
+        input.minHourlyCostUsd !== undefined
+          ? input.minHourlyCostUsd
+          : existing.minHourlyCostCents === null
+            ? null
+            : existing.minHourlyCostCents / 100,
+      requireForGpu: input.requireForGpu ?? existing.requireForGpu,
+      approverRole: input.approverRole ?? existing.approverRole,
+    })
+    if (!checked.ok) throw invalid(checked.reason)
+    const fields = checked.rule
+    await assertRuleProjects(
+      context,
+      existing.organizationId,
+      fields.projectIds
+    )
+
+    const updated = await context.prisma.deployApprovalRule.update({
+      where: { id: existing.id },
+      data: {
+        ...fields,
+        ...(typeof input.enabled === 'boolean'
+          ? { enabled: input.enabled }
+          : {}),
+      },
+    })
+    audit(context.prisma, {
+      category: 'user',
+      action: 'deploy_approval_rule.updated',
+      userId: context.userId,
+      orgId: existing.organizationId,
+      payload: { ruleId: existing.id, ...fields, enabled: updated.enabled },
+    })
+    return toRule(updated)
+  },
+
+  deleteDeployApprovalRule: async (
+    _: unknown,
+    args: { id: string },
+    context: Context
+  ) => {
+    const rule = await loadRule(context, args.id)
+    await context.prisma.deployApprovalRule.delete({ where: { id: rule.id } })
+    audit(context.prisma, {
+      category: 'user',
+      action: 'deploy_approval_rule.deleted',
+      userId: context.userId,
+      orgId: rule.organizationId,
+      payload: { ruleId: rule.id, name: rule.name },
+    })
+    return true
+  },
+
+  approveDeployRequest: async (
+    _: unknown,
+    args: { id: string; note?: string | null },
+    context: Context,
+    info: GraphQLResolveInfo
+  ) => {
+    const approverId = requireAuth(context)
+    const request = await loadRequest(context, args.id)
+    await assertApprover(context, request, 'approveDeployRequest')
+    const note = normalizeNote(args.note)
+    await claimPending(context, request, {
+      status: 'APPROVED',
+      decidedByUserId: approverId,
+      decisionNote: note,
+    })
+    audit(context.prisma, {
+      category: 'deployment',
+      action: 'deployment.approval_granted',
+      userId: approverId,
+      orgId: request.organizationId,
+      projectId: request.projectId,
+      serviceId: request.serviceId,
+      payload: {
+        approvalRequestId: request.id,
+        requestedBy: request.requestedByUserId,
+        note,
+      },
+    })
+    return toRequest(await launchApproved(context, request, approverId, info))
+  },
+
+  rejectDeployRequest: async (
+    _: unknown,
+    args: { id: string; note?: string | null },
+    context: Context
+  ) => {
+    const approverId = requireAuth(context)
+    const request = await loadRequest(context, args.id)
+    await assertApprover(context, request, 'rejectDeployRequest')
+    const note = normalizeNote(args.note)
+    await claimPending(context, request, {
+      status: 'REJECTED',
+      decidedByUserId: approverId,
+      decisionNote: note,
+    })
+    audit(context.prisma, {
+      category: 'deployment',
+      action: 'deployment.approval_rejected',
+      userId: approverId,
+      orgId: request.organizationId,
+      projectId: request.projectId,
+      serviceId: request.serviceId,
+      payload: {
+        approvalRequestId: request.id,
+        requestedBy: request.requestedByUserId,
+        note,
+      },
+    })
+    return toRequest(
+      await context.prisma.deployApprovalRequest.findUniqueOrThrow({
+        where: { id: request.id },
+      })
+    )
+  },
+
+  cancelDeployRequest: async (
+    _: unknown,
+    args: { id: string },
+    context: Context
+  ) => {
+    const request = await loadRequest(context, args.id)
+    if (request.requestedByUserId !== context.userId) {
+      throw new GraphQLError('Only the requester can cancel a deploy request', {
+        extensions: { code: 'FORBIDDEN' },
+      })
+    }
+    await claimPending(context, request, {
+      status: 'CANCELED',
+      decidedByUserId: context.userId,
+    })
+    audit(context.prisma, {
+      category: 'deployment',
+      action: 'deployment.approval_canceled',
+      userId: context.userId,
+      orgId: request.organizationId,
+      projectId: request.projectId,
+      serviceId: request.serviceId,
+      payload: { approvalRequestId: request.id },
+    })
+    return toRequest(
+      await context.prisma.deployApprovalRequest.findUniqueOrThrow({
+        where: { id: request.id },
+      })
+    )
+  },
+}
@@ -87,7 +87,7 @@ describe('Deployment Resolvers', () => {
 
       expect(mockContext.prisma.site.findUnique).toHaveBeenCalledWith({
         where: { id: 'site-123' },
-        include: { project: { select: { userId: true, organizationId: true } } },
+        include: { project: { select: { id: true, userId: true, organizationId: true } } },
       })
     })
 
@@ -21,6 +21,7 @@ import {
 import { DomainUsageTracker } from '../services/billing/domainUsageTracker.js'
 import type { PrismaClient } from '@prisma/client'
 import { createLogger } from '../lib/logger.js'
+import { audit } from '../lib/audit.js'
 
 const log = createLogger('resolver-domain')
 
@@ -467,6 +468,19 @@ export const domainMutations = {
 
     const verificationResult = await verifyDomainOwnership(domainId)
 
+    audit(prisma, {
+      category: 'deployment',
+      action: verificationResult
+        ? 'domain.verified'
+        : 'domain.verification_failed',
+      status: verificationResult ? 'ok' : 'warn',
+      userId,
+      orgId:
+        domain.organizationId ?? domain.site?.project?.organizationId ?? null,
+      projectId: domain.site?.projectId ?? null,
+      payload: { domainId, hostname: domain.hostname },
+    })
+
     trackDomainUsageAsync(
       prisma,
       userId,
@@ -0,0 +1,281 @@
+/**
+ * Org event webhook resolvers.
+ *
+ * An event webhook streams the org's audit events (deploy status, builds,
+ * env var and domain changes, …) to one HTTPS endpoint; see
+ * services/webhooks/eventWebhooks.ts for fan-out and delivery. Like
+ * notification channels the URL is write-only, but the signing secret is
+ * returned once, from `createEventWebhook`, so receivers can verify
+ * `X-AF-Signature`. Both are stored sealed with the vault.
+ */
+
+import { GraphQLError } from 'graphql'
+import type { EventWebhookDeliveryStatus, Prisma } from '@prisma/client'
+import type { Context } from './types.js'
+import { requireAuth, assertOrgPermission } from '../utils/authorization.js'
+import { audit } from '../lib/audit.js'
+import { sealSecret } from '../lib/vault.js'
+import {
+  generateSigningSecret,
+  validateChannelUrl,
+} from '../services/notifications/channels.js'
+import {
+  RETENTION_DAYS,
+  replayWebhookDeliveries,
+} from '../services/webhooks/eventWebhooks.js'
+import { assertOrgMembership } from './github.js'
+
+const MAX_WEBHOOKS_PER_ORG = 10
+const MAX_NAME_LENGTH = 100
+const MAX_EVENT_FILTERS = 20
+const EVENT_PREFIX_PATTERN = /^[a-z0-9_.-]{1,64}$/
+const DEFAULT_DELIVERY_LIMIT = 50
+const MAX_DELIVERY_LIMIT = 200
+
+function invalid(message: string): GraphQLError {
+  return new GraphQLError(message, {
+    extensions: { code: 'INVALID_EVENT_WEBHOOK' },
+  })
+}
+
+function normalizeName(raw: unknown): string {
+  const name = typeof raw === 'string' ? raw.trim() : ''
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    throw invalid(`name is required (max ${MAX_NAME_LENGTH} characters)`)
+  }
+  return name
+}
+
+function sealUrl(raw: unknown) {
+  const checked = validateChannelUrl('WEBHOOK', raw)
+  if (!checked.allowed) throw invalid(checked.reason)
+  return {
+    sealedUrl: sealSecret('event-webhook', checked.url),
+    urlHint: checked.hint,
+  }
+}
+
+/** Action prefixes, e.g. `build.` or `deployment.status_changed`. */
+function normalizeEvents(raw: string[] | null | undefined): string[] {
+  if (!raw) return []
+  const events = [...new Set(raw.map(e => e.trim().toLowerCase()))]
+  if (events.length > MAX_EVENT_FILTERS) {
+    throw invalid(`at most ${MAX_EVENT_FILTERS} event filters are allowed`)
+  }
+  const bad = events.find(e => !EVENT_PREFIX_PATTERN.test(e))
+  if (bad !== undefined) {
+    throw invalid(
+      `invalid event filter "${bad}" — use an action prefix such as "build." or "service.env."`
+    )
+  }
+  return events
+}
+
+/** Any member can read; changes need org.manage. */
+async function loadWebhook(context: Context, id: string, manage = false) {
+  requireAuth(context)
+  const webhook = await context.prisma.eventWebhook.findUnique({
+    where: { id },
+  })
+  if (!webhook) throw new GraphQLError('Event webhook not found')
+  if (manage) {
+    await assertOrgPermission(context, webhook.organizationId, 'org.manage')
+  } else {
+    await assertOrgMembership(context, webhook.organizationId)
+  }
+  return webhook
+}
+
+export const eventWebhookQueries = {
+  eventWebhooks: async (
+    _: unknown,
+    args: { orgId: string },
+    context: Context
+  ) => {
+    await assertOrgMembership(context, args.orgId)
+    const webhooks = await context.prisma.eventWebhook.findMany({
+      where: { organizationId: args.orgId },
+      orderBy: { createdAt: 'asc' },
+    })
+    return webhooks
+  },
+
+  eventWebhookDeliveries: async (
+    _: unknown,
+    args: {
+      webhookId: string
+      status?: EventWebhookDeliveryStatus | null
+      limit?: number | null
+    },
+    context: Context
+  ) => {
+    const webhook = await loadWebhook(context, args.webhookId)
+    const limit = Math.min(
+      Math.max(args.limit ?? DEFAULT_DELIVERY_LIMIT, 1),
+      MAX_DELIVERY_LIMIT
+    )
+    return context.prisma.eventWebhookDelivery.findMany({
+      where: {
+        webhookId: webhook.id,
+        ...(args.status ? { status: args.status } : {}),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    })
+  },
+}
+
+export const eventWebhookMutations = {
+  createEventWebhook: async (
+    _: unknown,
+    args: {
+      input: {
+        orgId: string
+        name: string
+        url: string
+        events?: string[] | null
+        enabled?: boolean | null
+      }
+    },
+    context: Context
+  ) => {
+    const userId = requireAuth(context)
+    const { input } = args
+    const name = normalizeName(input.name)
+    const events = normalizeEvents(input.events)
+    const { sealedUrl, urlHint } = sealUrl(input.url)
+    const signingSecret = generateSigningSecret()
+    await assertOrgPermission(context, input.orgId, 'org.manage')
+
+    const existing = await context.prisma.eventWebhook.count({
+      where: { organizationId: input.orgId },
+    })
+    if (existing >= MAX_WEBHOOKS_PER_ORG) {
+      throw new GraphQLError(
+        `An organization can have at most ${MAX_WEBHOOKS_PER_ORG} event webhooks`,
+        { extensions: { code: 'LIMIT_EXCEEDED' } }
+      )
+    }
+
+    const webhook = await context.prisma.eventWebhook.create({
+      data: {
+        organizationId: input.orgId,
+        name,
+        sealedUrl,
+        urlHint,
+        sealedSigningSecret: sealSecret('event-webhook', signingSecret),
+        events,
+        enabled: input.enabled ?? true,
+        createdByUserId: userId,
+      },
+    })
+    audit(context.prisma, {
+      category: 'user',
+      action: 'event_webhook.created',
+      userId,
+      orgId: webhook.organizationId,
+      payload: { webhookId: webhook.id, events },
+    })
+    // The only time the secret leaves the vault for the caller
+    return { ...webhook, signingSecret }
+  },
+
+  updateEventWebhook: async (
+    _: unknown,
+    args: {
+      id: string
+      input: {
+        name?: string | null
+        url?: string | null
+        events?: string[] | null
+        enabled?: boolean | null
+      }
+    },
+    context: Context
+  ) => {
+    const webhook = await loadWebhook(context, args.id, true)
+    const { input } = args
+    const data: Prisma.EventWebhookUpdateInput = {}
+    if (input.name !== undefined && input.name !== null) {
+      data.name = normalizeName(input.name)
+    }
+    if (input.url !== undefined && input.url !== null) {
+      Object.assign(data, sealUrl(input.url))
+    }
+    if (input.events !== undefined) {
+      data.events = normalizeEvents(input.events)
+    }
+    if (typeof input.enabled === 'boolean') {
+      data.enabled = input.enabled
+      // Events that happen while disabled are skipped, not queued up.
+      if (input.enabled && !webhook.enabled) data.cursorAt = new Date()
+    }
+    const updated = await context.prisma.eventWebhook.update({
+      where: { id: webhook.id },
+      data,
+    })
+    return updated
+  },
+
+  deleteEventWebhook: async (
+    _: unknown,
+    args: { id: string },
+    context: Context
+  ) => {
+    const webhook = await loadWebhook(context, args.id, true)
+    await context.prisma.eventWebhook.delete({ where: { id: webhook.id } })
+    audit(context.prisma, {
+      category: 'user',
+      action: 'event_webhook.deleted',
+      userId: context.userId,
+      orgId: webhook.organizationId,
+      payload: { webhookId: webhook.id },
+    })
+    return true
+  },
+
+  replayWebhookDeliveries: async (
+    _: unknown,
+    args: { since: Date; orgId?: string | null; webhookId?: string | null },
+    context: Context
+  ) => {
+    const userId = requireAuth(context)
+    let organizationId: string
+    if (args.webhookId) {
+      organizationId = (await loadWebhook(context, args.webhookId, true))
+        .organizationId
+    } else {
+      const orgId = args.orgId ?? context.organizationId
+      if (!orgId) throw invalid('orgId or webhookId is required')
+      await assertOrgPermission(context, orgId, 'org.manage')
+      organizationId = orgId
+    }
+
+    const now = new Date()
+    const since = new Date(args.since)
+    if (Number.isNaN(since.getTime()) || since > now) {
+      throw invalid('since must be a date in the past')
+    }
+    if (now.getTime() - since.getTime() > RETENTION_DAYS * 86_400_000) {
+      throw invalid(`since can be at most ${RETENTION_DAYS} days ago`)
+    }
+
+    const requeued = await replayWebhookDeliveries(
+      context.prisma,
+      { organizationId, since, webhookId: args.webhookId },
+      now
+    )
+    audit(context.prisma, {
+      category: 'user',
+      action: 'event_webhook.replayed',
+      userId,
+      orgId: organizationId,
+      payload: {
+        webhookId: args.webhookId ?? null,
+        since: since.toISOString(),
+        requeued,
+      },
+    })
+    return requeued
+  },
+}
@@ -0,0 +1,331 @@
+/**
+ * GraphQL resolvers for GitLab and Bitbucket git sources.
+ *
+ * A `GitConnection` is the token-based counterpart of a GitHub App
+ * installation: created once per org and account with `createGitConnection`,
+ * then used to browse repos/branches and to attach a service via
+ * `connectGitRepo`. Connecting registers a push webhook on the repo that
+ * points at `/webhooks/git/{connectionId}`; from there builds run through
+ * the same `startBuild` pipeline as GitHub services.
+ */
+
+import crypto from 'node:crypto'
+import { GraphQLError } from 'graphql'
+import type { Context } from './types.js'
+import { requireAuth, assertServiceAccess } from '../utils/authorization.js'
+import {
+  assertGithubConfigured,
+  assertOrgMembership,
+  normalizeRootDirectory,
+  normalizeShellCommand,
+  normalizeBuildStrategy,
+  normalizeWatchPaths,
+  startBuild,
+} from './github.js'
+import {
+  DEFAULT_BASE_URLS,
+  getGitAdapter,
+  gitClientForConnection,
+  isTokenGitProvider,
+} from '../services/git/index.js'
+import { GitProviderApiError } from '../services/git/errors.js'
+import { sealSecret } from '../lib/vault.js'
+import { gitWebhookUrl } from '../services/git/webhookEndpoint.js'
+import { isPrivateHost } from '../services/notifications/channels.js'
+
+const MAX_TOKEN_LENGTH = 1024
+const WORKSPACE_RE = /^[A-Za-z0-9_.-]{1,62}$/
+
+/**
+ * Self-hosted GitLab URL → canonical `https://host[/path]`. Credentials,
+ * query strings, plain http and private or internal hosts are rejected:
+ * the token is sent to this origin on every call, from inside our network.
+ */
+function normalizeGitlabBaseUrl(raw: string | null | undefined): string {
+  if (!raw) return DEFAULT_BASE_URLS.gitlab
+  let url: URL
+  try {
+    url = new URL(raw.trim())
+  } catch {
+    throw new GraphQLError('baseUrl must be a valid URL', {
+      extensions: { code: 'INVALID_INPUT' },
+    })
+  }
+  if (url.protocol !== 'https:' || url.username || url.password) {
+    throw new GraphQLError('baseUrl must be an https URL without credentials', {
+      extensions: { code: 'INVALID_INPUT' },
+    })
+  }
+  if (url.search || url.hash) {
+    throw new GraphQLError('baseUrl must not contain a query or fragment', {
+      extensions: { code: 'INVALID_INPUT' },
+    })
+  }
+  if (isPrivateHost(url.hostname)) {
+    throw new GraphQLError('baseUrl must point at a public host', {
+      extensions: { code: 'INVALID_INPUT' },
+    })
+  }
+  return `${url.origin}${url.pathname.replace(/\/+$/, '')}`
+}
+
+async function loadConnection(context: Context, id: string) {
+  requireAuth(context)
+  const conn = await context.prisma.gitConnection.findUnique({ where: { id } })
+  if (!conn) throw new GraphQLError('git connection not found')
+  await assertOrgMembership(context, conn.organizationId)
+  return conn
+}
+
+// =====================================================================
+// Queries
+// =====================================================================
+
+export const gitProviderQueries = {
+  gitConnections: async (
+    _: unknown,
+    args: { orgId?: string },
+    context: Context
+  ) => {
+    requireAuth(context)
+    const orgId = args.orgId || context.organizationId
+    if (!orgId) throw new GraphQLError('orgId required')
+    await assertOrgMembership(context, orgId)
+    return context.prisma.gitConnection.findMany({
+      where: { organizationId: orgId },
+      orderBy: { createdAt: 'desc' },
+    })
+  },
+
+  gitConnectionRepos: async (
+    _: unknown,
+    args: { connectionId: string },
+    context: Context
+  ) => {
+    const conn = await loadConnection(context, args.connectionId)
+    return gitClientForConnection(conn).listRepos()
+  },
+
+  gitConnectionBranches: async (
+    _: unknown,
+    args: { connectionId: string; owner: string; repo: string },
+    context: Context
+  ) => {
+    const conn = await loadConnection(context, args.connectionId)
+    return gitClientForConnection(conn).listBranches(args.owner, args.repo)
+  },
+}
+
+// =====================================================================
+// Mutations
+// =====================================================================
+
+export const gitProviderMutations = {
+  createGitConnection: async (
+    _: unknown,
+    args: {
+      input: {
+        orgId?: string
+        provider: string
+        baseUrl?: string | null
+        workspace?: string | null
+        accessToken: string
+      }
+    },
+    context: Context
+  ) => {
+    const userId = requireAuth(context)
+    const { input } = args
+    const orgId = input.orgId || context.organizationId
+    if (!orgId) throw new GraphQLError('orgId required')
+    await assertOrgMembership(context, orgId)
+
+    if (!isTokenGitProvider(input.provider)) {
+      throw new GraphQLError('provider must be one of: gitlab, bitbucket', {
+        extensions: { code: 'INVALID_INPUT' },
+      })
+    }
+    const token = input.accessToken.trim()
+    if (!token || token.length > MAX_TOKEN_LENGTH) {
+      throw new GraphQLError('accessToken is required', {
+        extensions: { code: 'INVALID_INPUT' },
+      })
+    }
+
+    let baseUrl: string
+    let accountLogin = ''
+    if (input.provider === 'gitlab') {
+      baseUrl = normalizeGitlabBaseUrl(input.baseUrl)
+    } else {
+      baseUrl = DEFAULT_BASE_URLS.bitbucket
+      const workspace = input.workspace?.trim() ?? ''
+      if (!WORKSPACE_RE.test(workspace)) {
+        throw new GraphQLError('Bitbucket connections need a workspace slug', {
+          extensions: { code: 'INVALID_INPUT' },
+        })
+      }
+      accountLogin = workspace
+    }
+
+    const adapter = getGitAdapter(input.provider)
+    try {
+      accountLogin = await adapter.verifyCredentials({
+        provider: adapter.provider,
+        baseUrl,
+        accountLogin,
+        token,
+      })
+    } catch (err) {
+      if (
+        err instanceof GitProviderApiError &&
+        (err.status === 401 || err.status === 403 || err.status === 404)
+      ) {
+        throw new GraphQLError(
+          `${input.provider} rejected the access token (HTTP ${err.status})`,
+          { extensions: { code: 'INVALID_GIT_TOKEN' } }
+        )
+      }
+      throw new GraphQLError(`could not reach ${baseUrl}`, {
+        extensions: { code: 'GIT_PROVIDER_UNAVAILABLE' },
+      })
+    }
+
+    return context.prisma.gitConnection.create({
+      data: {
+        organizationId: orgId,
+        provider: input.provider,
+        baseUrl,
+        accountLogin,
+        sealedToken: sealSecret('git-token', token),
+        webhookSecret: crypto.randomBytes(32).toString('hex'),
+        createdByUserId: userId,
+      },
+    })
+  },
+
+  deleteGitConnection: async (
+    _: unknown,
+    args: { id: string },
+    context: Context
+  ) => {
+    const conn = await loadConnection(context, args.id)
+    // Service.gitConnectionId is ON DELETE SET NULL.
+    await context.prisma.gitConnection.delete({ where: { id: conn.id } })
+    return true
+  },
+
+  connectGitRepo: async (
+    _: unknown,
+    args: {
+      input: {
+        serviceId: string
+        connectionId: string
+        owner: string
+        repo: string
+        branch?: string
+        rootDirectory?: string
+        watchPaths?: string[]
+        buildStrategy?: unknown
+        buildCommand?: string
+        startCommand?: string
+      }
+    },
+    context: Context
+  ) => {
+    const userId = requireAuth(context)
+    assertGithubConfigured()
+    const { input } = args
+    const safeRootDirectory = normalizeRootDirectory(input.rootDirectory)
+    const safeWatchPaths = normalizeWatchPaths(input.watchPaths)
+    const safeBuildStrategy = normalizeBuildStrategy(input.buildStrategy)
+    const safeBuildCommand = normalizeShellCommand(
+      input.buildCommand,
+      'buildCommand'
+    )
+    const safeStartCommand = normalizeShellCommand(
+      input.startCommand,
+      'startCommand'
+    )
+
+    const service = await context.prisma.service.findUnique({
+      where: { id: input.serviceId },
+      include: { project: true },
+    })
+    if (!service) throw new GraphQLError('service not found')
+    assertServiceAccess(context, service)
+
+    const conn = await loadConnection(context, input.connectionId)
+    if (service.flavor !== conn.provider) {
+      throw new GraphQLError(
+        `Service ${service.id} has flavor "${service.flavor ?? 'null'}" — this connection only serves ${conn.provider}-flavor services`,
+        { extensions: { code: 'WRONG_FLAVOR' } }
+      )
+    }
+    if (service.lastBuildStatus === 'SUCCEEDED') {
+      throw new GraphQLError(
+        'Service is already connected and has a successful build. Use redeployGithubService to rebuild.',
+        { extensions: { code: 'ALREADY_CONNECTED' } }
+      )
+    }
+    // Same rule as GitHub installs: the connection must belong to the org
+    // that owns the project, not merely one the caller is a member of.
+    if (conn.organizationId !== service.project.organizationId) {
+      throw new GraphQLError(
+        'Git connection belongs to a different organization',
+        { extensions: { code: 'CONNECTION_ORG_MISMATCH' } }
+      )
+    }
+
+    const git = gitClientForConnection(conn)
+    const repo = await git.getRepo(input.owner, input.repo)
+    const branchName = input.branch || repo.defaultBranch
+    await git.ensurePushWebhook(
+      input.owner,
+      input.repo,
+      gitWebhookUrl(conn.id),
+      conn.webhookSecret
+    )
+
+    const updated = await context.prisma.service.update({
+      where: { id: service.id },
+      data: {
+        gitProvider: conn.provider,
+        gitOwner: input.owner,
+        gitRepo: input.repo,
+        gitBranch: branchName,
+        gitConnectionId: conn.id,
+        gitInstallationId: null,
+        rootDirectory: safeRootDirectory,
+        watchPaths: safeWatchPaths,
+        buildStrategy: safeBuildStrategy,
+        buildCommand: safeBuildCommand,
+        startCommand: safeStartCommand,
+      },
+    })
+
+    await startBuild(context, {
+      serviceId: updated.id,
+      userId,
+      git,
+      owner: input.owner,
+      repo: input.repo,
+      branch: branchName,
+      rootDirectory: safeRootDirectory,
+      buildCommand: safeBuildCommand,
+      startCommand: safeStartCommand,
+      triggeredBy: 'first-deploy',
+    })
+
+    return updated
+  },
+}
+
+// =====================================================================
+// Field resolvers
+// =====================================================================
+
+export const gitProviderFieldResolvers = {
+  GitConnection: {
+    webhookUrl: (parent: { id: string }) => gitWebhookUrl(parent.id),
+  },
+}
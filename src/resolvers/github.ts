@@ -21,9 +21,15 @@
 
 import { GraphQLError } from 'graphql'
 import type { Context } from './types.js'
-import { requireAuth, assertProjectAccess } from '../utils/authorization.js'
+import {
+  requireAuth,
+  assertProjectAccess,
+  assertServiceAccess,
+  assertTokenScope,
+} from '../utils/authorization.js'
 import { generateSlug } from '../utils/slug.js'
 import { generateInternalHostname } from '../utils/internalHostname.js'
+import { generateInvokeUrl } from '../utils/invokeUrl.js'
 import { createLogger } from '../lib/logger.js'
 import { getGithubAppConfig, isGithubAppConfigured } from '../services/github/config.js'
 import {
@@ -31,14 +37,32 @@ import {
   listInstallationRepos,
   listRepoBranches,
   getRepo,
-  getCommit,
 } from '../services/github/client.js'
 import { uninstallApp } from '../services/github/app.js'
 import { spawnBuildJob } from '../services/github/buildSpawner.js'
+import { buildCacheScope } from '../services/github/buildCache.js'
+import { readBuildLogChunks } from '../services/github/buildLogs.js'
+import {
+  resolveBuildStrategy,
+  validateBuildStrategy,
+  type BuildStrategy,
+} from '../services/github/buildStrategy.js'
+import {
+  MAX_WATCH_PATH_LENGTH,
+  MAX_WATCH_PATHS,
+} from '../services/git/watchPaths.js'
+import {
+  markBuildSpawned,
+  stopBuild,
+  supersedeServiceBuilds,
+} from '../services/github/buildQueue.js'
+import { githubRepoClient } from '../services/git/github.js'
+import { gitClientForConnection } from '../services/git/index.js'
+import type { GitRepoClient } from '../services/git/types.js'
 
 const log = createLogger('resolvers.github')
 
-function assertGithubConfigured() {
+export function assertGithubConfigured() {
   if (!isGithubAppConfigured()) {
     throw new GraphQLError('GitHub deploy is not enabled on this server', {
       extensions: { code: 'NOT_CONFIGURED' },
@@ -58,7 +82,9 @@ function assertGithubConfigured() {
  * for a builder workdir to escape the clone, and silently allowing it is
  * how shell-injection foot-guns get found by reviewers (rightly so).
  */
-function normalizeRootDirectory(input: string | null | undefined): string | null {
+export function normalizeRootDirectory(
+  input: string | null | undefined
+): string | null {
   if (input == null) return null
   const trimmed = input.trim()
   if (trimmed === '' || trimmed === '.' || trimmed === './') return null
@@ -109,7 +135,7 @@ function normalizeRootDirectory(input: string | null | undefined): string | null
  * Returns the trimmed string (or null for empty) so callers don't have to
  * remember whether they validated; if it returned, it's safe to persist.
  */
-function normalizeShellCommand(
+export function normalizeShellCommand(
   input: string | null | undefined,
   fieldName: 'buildCommand' | 'startCommand',
 ): string | null {
@@ -129,6 +155,71 @@ function normalizeShellCommand(
   return trimmed
 }
 
+/**
+ * Validate user-supplied watch-path globs (see services/git/watchPaths.ts).
+ * Same character rules as `rootDirectory` plus the glob characters `*`,
+ * `?` and a leading `!`; no absolute paths or `..` segments. Blank entries
+ * are dropped and duplicates collapsed. `undefined` passes through so
+ * callers can tell "not provided" from "cleared".
+ */
+export function normalizeWatchPaths(
+  input: string[] | null | undefined
+): string[] | undefined {
+  if (input === undefined) return undefined
+  if (input === null) return []
+  const out: string[] = []
+  for (const raw of input) {
+    const trimmed = raw.trim()
+    if (trimmed === '') continue
+    const path = trimmed.startsWith('!') ? trimmed.slice(1) : trimmed
+    if (trimmed.length > MAX_WATCH_PATH_LENGTH) {
+      throw new GraphQLError(
+        `watch path too long (max ${MAX_WATCH_PATH_LENGTH} chars)`,
+        { extensions: { code: 'INVALID_WATCH_PATH' } }
+      )
+    }
+    if (
+      path === '' ||
+      path.startsWith('/') ||
+      path.split('/').includes('..') ||
+      !/^[A-Za-z0-9._\-/*?]+$/.test(path)
+    ) {
+      throw new GraphQLError(
+        `Invalid watch path "${trimmed}": use a relative path or glob inside the repo`,
+        { extensions: { code: 'INVALID_WATCH_PATH' } }
+      )
+    }
+    if (!out.includes(trimmed)) out.push(trimmed)
+  }
+  if (out.length > MAX_WATCH_PATHS) {
+    throw new GraphQLError(
+      `At most ${MAX_WATCH_PATHS} watch paths per service`,
+      {
+        extensions: { code: 'INVALID_WATCH_PATH' },
+      }
+    )
+  }
+  return out
+}
+
+/**
+ * Validate a `buildStrategy` input from the connect flows (see
+ * services/github/buildStrategy.ts). `undefined`/null pass through as
+ * undefined: the column stays null, which means auto.
+ */
+export function normalizeBuildStrategy(
+  input: unknown
+): BuildStrategy | undefined {
+  if (input == null) return undefined
+  const result = validateBuildStrategy(input)
+  if (!result.allowed) {
+    throw new GraphQLError(result.reason, {
+      extensions: { code: 'INVALID_BUILD_STRATEGY' },
+    })
+  }
+  return result.strategy
+}
+
 /**
  * Throws unless the caller is a member of an AF org that has access to the
  * given GitHub installation.
@@ -243,7 +334,10 @@ async function assertInstallationAccessToOrg(
  * Lighter-weight cousin of `assertInstallationAccess` for queries that
  * take an `orgId` arg directly (e.g. `githubInstallations`).
  */
-async function assertOrgMembership(context: Context, orgId: string): Promise<void> {
+export async function assertOrgMembership(
+  context: Context,
+  orgId: string
+): Promise<void> {
   const userId = requireAuth(context)
   const member = await context.prisma.organizationMember.findFirst({
     where: { organizationId: orgId, userId },
@@ -290,10 +384,40 @@ export const githubQueries = {
       include: { service: { include: { project: true } } },
     })
     if (!job) return null
-    assertProjectAccess(context, job.service.project)
+    assertServiceAccess(context, job.service)
     return job
   },
 
+  /**
+   * Streamed log history of one build, in batch order. The live view is
+   * `/sse/builds/:id/logs`; this backs scrollback and finished builds.
+   * Page with `afterSeq` (the last `seq` seen).
+   */
+  buildLogs: async (
+    _: unknown,
+    args: {
+      buildJobId: string
+      afterSeq?: number | null
+      limit?: number | null
+    },
+    context: Context
+  ) => {
+    requireAuth(context)
+    const job = await context.prisma.buildJob.findUnique({
+      where: { id: args.buildJobId },
+      include: { service: { include: { project: true } } },
+    })
+    if (!job) throw new GraphQLError('Build not found')
+    assertServiceAccess(context, job.service)
+    assertTokenScope(context, 'logs:read', { serviceId: job.serviceId, operation: 'buildLogs' })
+    return readBuildLogChunks(
+      context.prisma,
+      job.id,
+      args.afterSeq ?? -1,
+      Math.min(Math.max(args.limit ?? 500, 1), 1000)
+    )
+  },
+
   /**
    * List recent BuildJobs for a service. Mirrors the `Service.buildJobs(limit)`
    * field resolver but is reachable without first fetching the parent Service
@@ -315,7 +439,7 @@ export const githubQueries = {
       include: { project: true },
     })
     if (!service) throw new GraphQLError('service not found')
-    assertProjectAccess(context, service.project)
+    assertServiceAccess(context, service)
     return context.prisma.buildJob.findMany({
       where: { serviceId: args.serviceId },
       orderBy: { createdAt: 'desc' },
@@ -412,23 +536,22 @@ export const githubQueries = {
 // =====================================================================
 // Shared: spawn a BuildJob + builder Job for a service that's already
 // been connected to a git repo. Used by createGithubService,
-// connectGithubRepo, and redeployGithubService.
+// connectGithubRepo, redeployGithubService, and connectGitRepo.
 // =====================================================================
 
-async function startBuild(
+export async function startBuild(
   context: Context,
   args: {
     serviceId: string
     userId: string
-    installationIdNum: bigint
+    git: GitRepoClient
     owner: string
     repo: string
     /** Branch name persisted on the BuildJob — what shows up in the UI as "main", "develop", etc. */
     branch: string
     /**
-     * Optional override of the GitHub ref used to RESOLVE the commit (passes
-     * through to GET /repos/:owner/:repo/commits/:ref, which accepts a branch
-     * name OR a SHA). Used by per-commit rebuilds from the build-history UI:
+     * Optional override of the ref used to RESOLVE the commit (passes through
+     * to the host's get-commit API, which accepts a branch name OR a SHA). Used by per-commit rebuilds from the build-history UI:
      * we still tag the BuildJob with the original branch label, but resolve
      * the commit at the user-specified SHA. Defaults to `branch`.
      */
@@ -439,15 +562,21 @@ async function startBuild(
     triggeredBy: string
   },
 ) {
-  const commit = await getCommit(args.installationIdNum, args.owner, args.repo, args.ref ?? args.branch)
+  const commit = await args.git.getCommit(
+    args.owner,
+    args.repo,
+    args.ref ?? args.branch
+  )
 
+  const build = await resolveBuildStrategy(context.prisma, args.serviceId)
   const buildJob = await context.prisma.buildJob.create({
     data: {
       serviceId: args.serviceId,
       commitSha: commit.sha,
-      commitMessage: commit.commit.message.slice(0, 1000),
+      commitMessage: commit.message.slice(0, 1000),
       branch: args.branch,
       triggeredBy: args.triggeredBy,
+      buildStrategy: build.snapshot,
     },
   })
 
@@ -456,7 +585,7 @@ async function startBuild(
   // build callback later overwrites lastBuildStatus with SUCCEEDED / FAILED;
   // in BUILDER_DRY_RUN mode the callback never fires, so this is also what
   // makes local dev show PENDING instead of "No builds yet".
-  await context.prisma.service.update({
+  const service = await context.prisma.service.update({
     where: { id: args.serviceId },
     data: {
       lastBuildSha: commit.sha,
@@ -465,11 +594,15 @@ async function startBuild(
     },
   })
 
+  // One live build per service: older queued/running builds are canceled so
+  // they can't race this one's auto-deploy.
+  await supersedeServiceBuilds(context.prisma, buildJob)
+
   const imageTag = imageTagFor(args.userId, args.owner, args.repo, commit.sha)
   try {
     const spawned = await spawnBuildJob({
       buildJobId: buildJob.id,
-      installationId: args.installationIdNum,
+      git: args.git,
       repoOwner: args.owner,
       repoName: args.repo,
       commitSha: commit.sha,
@@ -477,15 +610,16 @@ async function startBuild(
       rootDirectory: args.rootDirectory ?? undefined,
       buildCommand: args.buildCommand ?? undefined,
       startCommand: args.startCommand ?? undefined,
+      cacheScope: buildCacheScope(service),
+      buildStrategy: build.strategy,
+      buildArgs: build.buildArgs,
     })
-    await context.prisma.buildJob.update({
-      where: { id: buildJob.id },
-      data: {
-        k8sJobName: spawned.k8sJobName,
-        status: 'RUNNING',
-        logs: spawned.initialLog,
-      },
-    })
+    if (!(await markBuildSpawned(context.prisma, buildJob.id, spawned))) {
+      // Canceled (or superseded by an even newer build) mid-spawn.
+      return context.prisma.buildJob.findUniqueOrThrow({
+        where: { id: buildJob.id },
+      })
+    }
     await context.prisma.service.update({
       where: { id: args.serviceId },
       data: { lastBuildStatus: 'RUNNING' },
@@ -775,10 +909,17 @@ export const githubMutations = {
         repo: string
         branch?: string
         rootDirectory?: string
+        watchPaths?: string[]
+        buildStrategy?: unknown
         buildCommand?: string
         startCommand?: string
         name?: string
-        envVars?: Array<{ key: string; value: string; secret?: boolean }>
+        envVars?: Array<{
+          key: string
+          value: string
+          secret?: boolean
+          buildTime?: boolean
+        }>
       }
     },
     context: Context,
@@ -787,6 +928,8 @@ export const githubMutations = {
     assertGithubConfigured()
     const { input } = args
     const safeRootDirectory = normalizeRootDirectory(input.rootDirectory)
+    const safeWatchPaths = normalizeWatchPaths(input.watchPaths)
+    const safeBuildStrategy = normalizeBuildStrategy(input.buildStrategy)
     const safeBuildCommand = normalizeShellCommand(input.buildCommand, 'buildCommand')
     const safeStartCommand = normalizeShellCommand(input.startCommand, 'startCommand')
 
@@ -844,6 +987,8 @@ export const githubMutations = {
         gitBranch: branchName,
         gitInstallationId: install.id,
         rootDirectory: safeRootDirectory,
+        watchPaths: safeWatchPaths,
+        buildStrategy: safeBuildStrategy,
         buildCommand: safeBuildCommand,
         startCommand: safeStartCommand,
         internalHostname: generateInternalHostname(slug, project.slug),
@@ -857,6 +1002,7 @@ export const githubMutations = {
           key: e.key,
           value: e.value,
           secret: e.secret ?? true,
+          buildTime: e.buildTime ?? false,
         })),
       })
     }
@@ -864,7 +1010,7 @@ export const githubMutations = {
     await startBuild(context, {
       serviceId: service.id,
       userId,
-      installationIdNum: install.installationId,
+      git: githubRepoClient(install.installationId),
       owner: input.owner,
       repo: input.repo,
       branch: branchName,
@@ -894,6 +1040,8 @@ export const githubMutations = {
         repo: string
         branch?: string
         rootDirectory?: string
+        watchPaths?: string[]
+        buildStrategy?: unknown
         buildCommand?: string
         startCommand?: string
       }
@@ -904,6 +1052,8 @@ export const githubMutations = {
     assertGithubConfigured()
     const { input } = args
     const safeRootDirectory = normalizeRootDirectory(input.rootDirectory)
+    const safeWatchPaths = normalizeWatchPaths(input.watchPaths)
+    const safeBuildStrategy = normalizeBuildStrategy(input.buildStrategy)
     const safeBuildCommand = normalizeShellCommand(input.buildCommand, 'buildCommand')
     const safeStartCommand = normalizeShellCommand(input.startCommand, 'startCommand')
 
@@ -912,7 +1062,7 @@ export const githubMutations = {
       include: { project: true },
     })
     if (!service) throw new GraphQLError('service not found')
-    assertProjectAccess(context, service.project)
+    assertServiceAccess(context, service)
     if (service.flavor !== 'github') {
       throw new GraphQLError(
         `Service ${service.id} has flavor "${service.flavor ?? 'null'}" — connectGithubRepo only works on github-flavor services`,
@@ -949,6 +1099,8 @@ export const githubMutations = {
         gitBranch: branchName,
         gitInstallationId: install.id,
         rootDirectory: safeRootDirectory,
+        watchPaths: safeWatchPaths,
+        buildStrategy: safeBuildStrategy,
         buildCommand: safeBuildCommand,
         startCommand: safeStartCommand,
       },
@@ -957,7 +1109,7 @@ export const githubMutations = {
     await startBuild(context, {
       serviceId: updated.id,
       userId,
-      installationIdNum: install.installationId,
+      git: githubRepoClient(install.installationId),
       owner: input.owner,
       repo: input.repo,
       branch: branchName,
@@ -980,18 +1132,23 @@ export const githubMutations = {
 
     const service = await context.prisma.service.findUnique({
       where: { id: args.serviceId },
-      include: { project: true, gitInstallation: true },
+      include: { project: true, gitInstallation: true, gitConnection: true },
     })
     if (!service) throw new GraphQLError('service not found')
-    assertProjectAccess(context, service.project)
-    if (!service.gitInstallation || !service.gitOwner || !service.gitRepo || !service.gitBranch) {
+    assertServiceAccess(context, service)
+    const git = service.gitInstallation
+      ? githubRepoClient(service.gitInstallation.installationId)
+      : service.gitConnection
+        ? gitClientForConnection(service.gitConnection)
+        : null
+    if (!git || !service.gitOwner || !service.gitRepo || !service.gitBranch) {
       throw new GraphQLError('service is not connected to a git repo')
     }
 
     // Optional `sha` override: per-commit rebuild from the build-history UI.
-    // Validate strictly to a hex SHA before flowing it into the GitHub commit
+    // Validate strictly to a hex SHA before flowing it into the host's commit
     // URL path — `getCommit` accepts any ref (branch, SHA, tag), and we don't
-    // want unvalidated user input riding along to GitHub or, after resolution,
+    // want unvalidated user input riding along to the host or, after resolution,
     // becoming part of a docker image tag.
     let ref: string | undefined
     let triggeredBy = `manual:${userId}`
@@ -1009,7 +1166,7 @@ export const githubMutations = {
     return startBuild(context, {
       serviceId: service.id,
       userId,
-      installationIdNum: service.gitInstallation.installationId,
+      git,
       owner: service.gitOwner,
       repo: service.gitRepo,
       branch: service.gitBranch,
@@ -1020,6 +1177,94 @@ export const githubMutations = {
       triggeredBy,
     })
   },
+
+  /**
+   * Stop a PENDING/RUNNING build: deletes the K8s Job or destroys the Fly
+   * machine, and marks the row CANCELED so a late builder callback can't
+   * resurrect it (or auto-deploy it).
+   */
+  cancelBuild: async (
+    _: unknown,
+    args: { buildJobId: string },
+    context: Context
+  ) => {
+    requireAuth(context)
+    const job = await context.prisma.buildJob.findUnique({
+      where: { id: args.buildJobId },
+      include: { service: { include: { project: true } } },
+    })
+    if (!job) throw new GraphQLError('build job not found')
+    assertServiceAccess(context, job.service)
+    const stopped = await stopBuild(
+      context.prisma,
+      job,
+      'CANCELED',
+      'Canceled by user'
+    )
+    if (!stopped) {
+      throw new GraphQLError('Build has already finished', {
+        extensions: { code: 'BUILD_NOT_RUNNING' },
+      })
+    }
+    return context.prisma.buildJob.findUniqueOrThrow({ where: { id: job.id } })
+  },
+
+  /**
+   * Drop a service's build cache. The cache scope embeds
+   * `buildCacheEpoch`, so bumping it makes the next build start cold
+   * without touching the registry. Builds already running keep the scope
+   * they were spawned with.
+   */
+  purgeServiceBuildCache: async (
+    _: unknown,
+    args: { serviceId: string },
+    context: Context
+  ) => {
+    requireAuth(context)
+    const service = await context.prisma.service.findUnique({
+      where: { id: args.serviceId },
+      include: { project: true },
+    })
+    if (!service) throw new GraphQLError('service not found')
+    assertServiceAccess(context, service)
+    if (!service.gitProvider) {
+      throw new GraphQLError('service is not connected to a git repo')
+    }
+    return context.prisma.service.update({
+      where: { id: service.id },
+      data: {
+        buildCacheEpoch: { increment: 1 },
+        buildCachePurgedAt: new Date(),
+      },
+    })
+  },
+
+  /**
+   * Replace the service's watch paths. Only affects push-triggered builds;
+   * manual rebuilds and preview builds always run. An empty list restores
+   * "rebuild on every push".
+   */
+  updateServiceWatchPaths: async (
+    _: unknown,
+    args: { serviceId: string; watchPaths: string[] },
+    context: Context
+  ) => {
+    requireAuth(context)
+    const watchPaths = normalizeWatchPaths(args.watchPaths) ?? []
+    const service = await context.prisma.service.findUnique({
+      where: { id: args.serviceId },
+      include: { project: true },
+    })
+    if (!service) throw new GraphQLError('service not found')
+    assertServiceAccess(context, service)
+    if (!service.gitProvider) {
+      throw new GraphQLError('service is not connected to a git repo')
+    }
+    return context.prisma.service.update({
+      where: { id: service.id },
+      data: { watchPaths },
+    })
+  },
 }
 
 // =====================================================================
@@ -1046,5 +1291,23 @@ export const githubFieldResolvers = {
         take: Math.min(Math.max(args.limit ?? 20, 1), 100),
       })
     },
+    previewEnvironments: async (
+      parent: { id: string },
+      args: { status?: 'ACTIVE' | 'CLOSED' | null },
+      context: Context
+    ) => {
+      return context.prisma.previewEnvironment.findMany({
+        where: {
+          serviceId: parent.id,
+          ...(args.status ? { status: args.status } : {}),
+        },
+        include: { previewService: true },
+        orderBy: { createdAt: 'desc' },
+      })
+    },
+  },
+  PreviewEnvironment: {
+    url: (parent: { previewService: { slug: string } }) =>
+      generateInvokeUrl(parent.previewService.slug),
   },
 }
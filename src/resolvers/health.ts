@@ -10,7 +10,7 @@
  */
 
 import type { Context } from './types.js'
-import { requireAuth, assertProjectAccess } from '../utils/authorization.js'
+import { requireAuth, assertServiceAccess } from '../utils/authorization.js'
 import { findActiveOrPendingDeploymentForService } from '../services/providers/registry.js'
 
 export const healthQueries = {
@@ -23,13 +23,17 @@ export const healthQueries = {
 
     const svc = await context.prisma.service.findUnique({
       where: { id: serviceId },
-      include: { project: { select: { userId: true, organizationId: true } } },
+      include: { project: { select: { id: true, userId: true, organizationId: true } } },
     })
     if (!svc) return null
 
     const p = (svc as any).project
     if (p) {
-      assertProjectAccess(context, p, 'Not authorized to view health for this service')
+      assertServiceAccess(
+        context,
+        { ...svc, project: p },
+        'Not authorized to view health for this service'
+      )
     }
 
     const deploymentServiceId = svc.parentServiceId || serviceId
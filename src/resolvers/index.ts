@@ -47,22 +47,62 @@ import { phalaQueries, phalaMutations, phalaFieldResolvers } from './phala.js'
 import { spheronQueries, spheronMutations, spheronFieldResolvers } from './spheron.js'
 import { regionsQueries } from './regions.js'
 import { githubQueries, githubMutations, githubFieldResolvers } from './github.js'
+import {
+  gitProviderQueries,
+  gitProviderMutations,
+  gitProviderFieldResolvers,
+} from './gitProviders.js'
 import {
   serviceConnectivityQueries,
   serviceConnectivityMutations,
   serviceConnectivityFieldResolvers,
 } from './serviceConnectivity.js'
 import { logsQueries } from './logs.js'
+import { notificationQueries, notificationMutations } from './notifications.js'
+import { eventWebhookQueries, eventWebhookMutations } from './eventWebhooks.js'
+import {
+  organizationMemberQueries,
+  organizationMemberMutations,
+} from './organizationMembers.js'
+import {
+  deployApprovalQueries,
+  deployApprovalMutations,
+} from './deployApprovals.js'
+import {
+  shellRecordingQueries,
+  shellRecordingMutations,
+} from './shellRecordings.js'
+import { alertQueries, alertMutations } from './alerts.js'
+import {
+  savedLogQueryQueries,
+  savedLogQueryMutations,
+} from './savedLogQueries.js'
+import { withMutationPermissions } from './mutationPermissions.js'
 import { healthQueries } from './health.js'
+import { rollbackQueries, rollbackMutations } from './rollback.js'
+import { deployQueries, deployMutations } from './deploy.js'
+import { runScheduleQueries } from './runSchedule.js'
 import { StorageTracker } from '../services/billing/storageTracker.js'
 import type { Context } from './types.js'
-import { requireAuth, assertProjectAccess } from '../utils/authorization.js'
+import {
+  requireAuth,
+  assertProjectAccess,
+  assertProjectPermission,
+  assertServiceAccess,
+} from '../utils/authorization.js'
 import { getOrgHourlyBurnCents } from './balanceCheck.js'
+import {
+  tokenCoversProject,
+  tokenCoversService,
+} from '../services/auth/tokenScopes.js'
 
 export type { Context }
 
 // Service factory for storage tracking (billing is now handled by service-auth)
 const storageTracker = (prisma: any) => new StorageTracker(prisma)
+
+/** Upper bound for `Service.replicas` (Akash SDL `count`). */
+const MAX_SERVICE_REPLICAS = 10
  
 /**
  * Validate that context.projectId is owned by the authenticated user.
@@ -76,7 +116,7 @@ async function requireOwnedProjectContext(context: Context, projectId?: string):
   }
   const project = await context.prisma.project.findUnique({
     where: { id: pid },
-    select: { userId: true, organizationId: true },
+    select: { id: true, userId: true, organizationId: true },
   })
   if (!project) {
     throw new GraphQLError('Project not found', { extensions: { code: 'NOT_FOUND' } })
@@ -204,9 +244,36 @@ export const resolvers = {
             ],
           }
         : { userId: context.userId }
-      const data = await context.prisma.project.findMany({
+      const projects = await context.prisma.project.findMany({
         where,
       })
+      // A token bound to projects or services lists only what it can
+      // reach: its projects, and the projects holding its services.
+      const { tokenScope } = context
+      let data = projects
+      if (tokenScope) {
+        const services =
+          tokenScope.serviceIds.length > 0
+            ? await context.prisma.service.findMany({
+                where: {
+                  projectId: { in: projects.map(p => p.id) },
+                  OR: [
+                    { id: { in: tokenScope.serviceIds } },
+                    { parentServiceId: { in: tokenScope.serviceIds } },
+                  ],
+                },
+                select: { id: true, parentServiceId: true, projectId: true },
+              })
+            : []
+        const viaService = new Set(
+          services
+            .filter(s => tokenCoversService(tokenScope, s, s.projectId))
+            .map(s => s.projectId)
+        )
+        data = projects.filter(
+          p => tokenCoversProject(tokenScope, p.id) || viaService.has(p.id)
+        )
+      }
       // Return wrapped format for SDK compatibility
       return { data }
     },
@@ -249,7 +316,7 @@ export const resolvers = {
       }
       const site = await context.prisma.site.findUnique({
         where: { id: where.id },
-        include: { project: { select: { userId: true, organizationId: true } } },
+        include: { project: { select: { id: true, userId: true, organizationId: true } } },
       })
       if (!site) return null
       const p = (site as any).project
@@ -273,7 +340,7 @@ export const resolvers = {
       requireAuth(context)
       const site = await context.prisma.site.findUnique({
         where: { slug: where.slug },
-        include: { project: { select: { userId: true, organizationId: true } } },
+        include: { project: { select: { id: true, userId: true, organizationId: true } } },
       })
       if (!site) return null
       const p = (site as any).project
@@ -289,7 +356,7 @@ export const resolvers = {
       requireAuth(context)
       const record = await context.prisma.iPNSRecord.findUnique({
         where: { name },
-        include: { site: { include: { project: { select: { userId: true, organizationId: true } } } } },
+        include: { site: { include: { project: { select: { id: true, userId: true, organizationId: true } } } } },
       })
       if (!record) return null
       if ((record as any).site?.project) {
@@ -344,7 +411,7 @@ export const resolvers = {
       requireAuth(context)
       const deployment = await context.prisma.deployment.findUnique({
         where: { id: where.id },
-        include: { site: { include: { project: { select: { userId: true, organizationId: true } } } } },
+        include: { site: { include: { project: { select: { id: true, userId: true, organizationId: true } } } } },
       })
       if (!deployment) return null
       if ((deployment as any).site?.project) {
@@ -362,7 +429,7 @@ export const resolvers = {
       if (siteId) {
         const site = await context.prisma.site.findUnique({
           where: { id: siteId },
-          include: { project: { select: { userId: true, organizationId: true } } },
+          include: { project: { select: { id: true, userId: true, organizationId: true } } },
         })
         if (!site) throw new GraphQLError('Site not found')
         assertProjectAccess(context, (site as any).project)
@@ -403,7 +470,7 @@ export const resolvers = {
       requireAuth(context)
       const zone = await context.prisma.zone.findUnique({
         where: { id },
-        include: { site: { include: { project: { select: { userId: true, organizationId: true } } } } },
+        include: { site: { include: { project: { select: { id: true, userId: true, organizationId: true } } } } },
       })
       if (!zone) return null
       if ((zone as any).site?.project) {
@@ -468,7 +535,7 @@ export const resolvers = {
       requireAuth(context)
       const func = await context.prisma.aFFunction.findUnique({
         where: { id: where.id },
-        include: { project: { select: { userId: true, organizationId: true } } },
+        include: { project: { select: { id: true, userId: true, organizationId: true } } },
       })
 
       if (!func) {
@@ -521,7 +588,7 @@ export const resolvers = {
       }
       const func = await context.prisma.aFFunction.findUnique({
         where: { id: afFunctionId },
-        include: { project: { select: { userId: true, organizationId: true } } },
+        include: { project: { select: { id: true, userId: true, organizationId: true } } },
       })
       if (!func) {
         throw new GraphQLError('Function not found')
@@ -545,7 +612,7 @@ export const resolvers = {
       if (where.id) {
         deployment = await context.prisma.aFFunctionDeployment.findUnique({
           where: { id: where.id },
-          include: { afFunction: { include: { project: { select: { userId: true, organizationId: true } } } } },
+          include: { afFunction: { include: { project: { select: { id: true, userId: true, organizationId: true } } } } },
         })
       } else if (where.cid) {
         deployment = await context.prisma.aFFunctionDeployment.findFirst({
@@ -553,13 +620,13 @@ export const resolvers = {
             cid: where.cid,
             ...(where.functionId ? { afFunctionId: where.functionId } : {}),
           },
-          include: { afFunction: { include: { project: { select: { userId: true, organizationId: true } } } } },
+          include: { afFunction: { include: { project: { select: { id: true, userId: true, organizationId: true } } } } },
           orderBy: { createdAt: 'desc' },
         })
       } else if (where.functionId) {
         deployment = await context.prisma.aFFunctionDeployment.findFirst({
           where: { afFunctionId: where.functionId },
-          include: { afFunction: { include: { project: { select: { userId: true, organizationId: true } } } } },
+          include: { afFunction: { include: { project: { select: { id: true, userId: true, organizationId: true } } } } },
           orderBy: { createdAt: 'desc' },
         })
       }
@@ -1107,15 +1174,46 @@ export const resolvers = {
     // GitHub-source deploy queries
     ...githubQueries,
 
+    // GitLab / Bitbucket connections
+    ...gitProviderQueries,
+
     // Service container logs
     ...logsQueries,
 
     // Live container health
     ...healthQueries,
 
+    // Deployment history / rollback candidates
+    ...rollbackQueries,
+
+    // Provider-agnostic deploy target preview
+    ...deployQueries,
+
+    // Run-schedule savings preview
+    ...runScheduleQueries,
+
     // Service connectivity (env vars, ports, links)
     ...serviceConnectivityQueries,
 
+    // Project notification channels + delivery log
+    ...notificationQueries,
+
+    // Org event webhooks + delivery log
+    ...eventWebhookQueries,
+
+    // Organization members, roles and invites
+    ...organizationMemberQueries,
+
+    // Org deploy approval rules and requests
+    ...deployApprovalQueries,
+
+    // Org shell recording settings and recordings
+    ...shellRecordingQueries,
+
+    // Project alert rules + incidents
+    ...alertQueries,
+    ...savedLogQueryQueries,
+
     // Org billing runway
     orgBillingRunway: async (_: unknown, __: unknown, context: Context) => {
       requireAuth(context)
@@ -1251,7 +1349,7 @@ export const resolvers = {
     },
   },
 
-  Mutation: {
+  Mutation: withMutationPermissions({
     // Projects
     createProject: async (
       _: unknown,
@@ -1417,7 +1515,7 @@ export const resolvers = {
           serviceId: true,
           createdAt: true,
           updatedAt: true,
-          project: { select: { userId: true, organizationId: true } },
+          project: { select: { id: true, userId: true, organizationId: true } },
         },
       })
 
@@ -1449,7 +1547,7 @@ export const resolvers = {
 
       const site = await context.prisma.site.findUnique({
         where: { id: data.siteId },
-        include: { project: { select: { userId: true, organizationId: true } } },
+        include: { project: { select: { id: true, userId: true, organizationId: true } } },
       })
 
       if (!site) {
@@ -1495,7 +1593,7 @@ export const resolvers = {
 
       const site = await context.prisma.site.findUnique({
         where: { id: siteId },
-        include: { project: { select: { userId: true, organizationId: true } } },
+        include: { project: { select: { id: true, userId: true, organizationId: true } } },
       })
 
       if (!site) {
@@ -1552,14 +1650,22 @@ export const resolvers = {
       // can't mis-tag a template-backed service). Anything else must be one
       // of the known flavors or null (legacy/unspecified — readers default
       // to 'docker' for VM, 'function' for FUNCTION).
-      const ALLOWED_FLAVORS = new Set(['docker', 'server', 'function', 'template', 'github'])
+      const ALLOWED_FLAVORS = new Set([
+        'docker',
+        'server',
+        'function',
+        'template',
+        'github',
+        'gitlab',
+        'bitbucket',
+      ])
       let flavor: string | null = null
       if (input.templateId) {
         flavor = 'template'
       } else if (input.flavor != null) {
         if (!ALLOWED_FLAVORS.has(input.flavor)) {
           throw new GraphQLError(
-            `Invalid flavor "${input.flavor}". Must be one of: docker, server, function, template, github.`
+            `Invalid flavor "${input.flavor}". Must be one of: docker, server, function, template, github, gitlab, bitbucket.`
           )
         }
         flavor = input.flavor
@@ -1659,10 +1765,10 @@ export const resolvers = {
 
       const service = await context.prisma.service.findUnique({
         where: { id: serviceId },
-        include: { project: { select: { userId: true, organizationId: true } } },
+        include: { project: { select: { id: true, userId: true, organizationId: true } } },
       })
       if (!service) throw new GraphQLError('Service not found')
-      assertProjectAccess(context, service.project, 'Not authorized to update this service')
+      assertServiceAccess(context, service, 'Not authorized to update this service')
 
       const clamped = Math.max(0, Math.min(100, shutdownPriority))
       return context.prisma.service.update({
@@ -1700,7 +1806,24 @@ export const resolvers = {
             enabled: boolean
             maxAttempts?: number
             windowHours?: number
+            fallbackProviders?: string[]
           } | null
+          runSchedule?: {
+            enabled: boolean
+            stopCron: string
+            startCron: string
+            timezone?: string
+          } | null
+          previewPolicy?: {
+            enabled: boolean
+            ttlHours?: number
+          } | null
+          buildStrategy?: {
+            type: string
+            dockerfilePath?: string
+            outputDirectory?: string
+          } | null
+          replicas?: number | null
         }
       },
       context: Context
@@ -1710,12 +1833,29 @@ export const resolvers = {
       const service = await context.prisma.service.findUnique({
         where: { id: serviceId },
         include: {
-          project: { select: { userId: true, organizationId: true } },
+          project: { select: { id: true, userId: true, organizationId: true } },
           akashDeployments: { select: { status: true } },
         },
       })
       if (!service) throw new GraphQLError('Service not found')
-      assertProjectAccess(context, service.project, 'Not authorized to update this service')
+      assertServiceAccess(context, service, 'Not authorized to update this service')
+
+      // Billing can change policies without deploy rights; developers can
+      // change everything else.
+      const policyKeys = ['failoverPolicy', 'runSchedule', 'previewPolicy']
+      const inputKeys = Object.keys(input)
+      const scope = { serviceId, operation: 'updateService' }
+      if (inputKeys.some(k => policyKeys.includes(k))) {
+        await assertProjectPermission(
+          context,
+          service.project,
+          'policy.manage',
+          scope
+        )
+      }
+      if (inputKeys.some(k => !policyKeys.includes(k))) {
+        await assertProjectPermission(context, service.project, 'deploy', scope)
+      }
 
       // Block edits while any deployment is mid-flight on Akash. ACTIVE/FAILED/
       // CLOSED/SUSPENDED/PERMANENTLY_FAILED are fine — the change applies on
@@ -1740,6 +1880,10 @@ export const resolvers = {
         volumes?: any
         healthProbe?: any
         failoverPolicy?: any
+        runSchedule?: any
+        previewPolicy?: any
+        buildStrategy?: any
+        replicas?: number
       } = {}
 
       if (Object.prototype.hasOwnProperty.call(input, 'dockerImage')) {
@@ -1910,6 +2054,26 @@ export const resolvers = {
             }
             cleaned.windowHours = n
           }
+          if (policy.fallbackProviders !== undefined) {
+            const { FALLBACK_PROVIDERS } =
+              await import('../services/failover/failoverService.js')
+            const list = policy.fallbackProviders
+            if (
+              !Array.isArray(list) ||
+              list.some(
+                p =>
+                  !FALLBACK_PROVIDERS.includes(
+                    p as (typeof FALLBACK_PROVIDERS)[number]
+                  )
+              ) ||
+              new Set(list).size !== list.length
+            ) {
+              throw new GraphQLError(
+                `failoverPolicy.fallbackProviders must be a list of distinct providers from: ${FALLBACK_PROVIDERS.join(', ')}.`
+              )
+            }
+            cleaned.fallbackProviders = list
+          }
           if (cleaned.enabled) {
             // Use whatever we're about to write; fall back to current row.
             const incomingVolumes =
@@ -1927,6 +2091,107 @@ export const resolvers = {
         }
       }
 
+      // Run schedule — recurring stop/start window. A scheduled stop closes
+      // the Akash lease like a low-balance suspension does, so stateful
+      // services are refused for the same reason as failover.
+      if (Object.prototype.hasOwnProperty.call(input, 'runSchedule')) {
+        if (input.runSchedule === null) {
+          data.runSchedule = null
+        } else {
+          const { validateRunSchedule } =
+            await import('../services/runSchedule/runSchedule.js')
+          const result = validateRunSchedule(input.runSchedule)
+          if (!result.allowed) throw new GraphQLError(result.reason)
+          if (result.schedule.enabled) {
+            const incomingVolumes =
+              data.volumes !== undefined ? data.volumes : service.volumes
+            if (Array.isArray(incomingVolumes) && incomingVolumes.length > 0) {
+              throw new GraphQLError(
+                'A run schedule cannot be enabled on a service that has persistent volumes — each scheduled stop closes the deployment and its volume data. Remove volumes first or keep the schedule disabled.'
+              )
+            }
+          }
+          data.runSchedule = result.schedule
+        }
+      }
+
+      // Pull-request previews — copies of a GitHub-connected service per PR.
+      if (Object.prototype.hasOwnProperty.call(input, 'previewPolicy')) {
+        if (input.previewPolicy === null) {
+          data.previewPolicy = null
+        } else {
+          const { validatePreviewPolicy } =
+            await import('../services/github/previewEnvironments.js')
+          const result = validatePreviewPolicy(input.previewPolicy)
+          if (!result.allowed) throw new GraphQLError(result.reason)
+          if (result.policy.enabled) {
+            if (
+              service.gitProvider !== 'github' ||
+              !service.gitInstallationId
+            ) {
+              throw new GraphQLError(
+                'Preview environments need a service connected to a GitHub repository.'
+              )
+            }
+            const isPreview =
+              await context.prisma.previewEnvironment.findUnique({
+                where: { previewServiceId: service.id },
+                select: { id: true },
+              })
+            if (isPreview) {
+              throw new GraphQLError(
+                'Preview environments cannot be enabled on a preview service.'
+              )
+            }
+          }
+          data.previewPolicy = result.policy
+        }
+      }
+
+      // Build strategy — how git services are turned into an image. Applies
+      // from the next build; null resets to auto-detection.
+      if (Object.prototype.hasOwnProperty.call(input, 'buildStrategy')) {
+        if (!service.gitProvider) {
+          throw new GraphQLError(
+            'A build strategy only applies to services connected to a git repository.'
+          )
+        }
+        if (input.buildStrategy === null) {
+          data.buildStrategy = null
+        } else {
+          const { validateBuildStrategy } =
+            await import('../services/github/buildStrategy.js')
+          const result = validateBuildStrategy(input.buildStrategy)
+          if (!result.allowed) throw new GraphQLError(result.reason)
+          data.buildStrategy = result.strategy
+        }
+      }
+
+      // Replicas — Akash SDL `count`, plus proxy load-balancing across every
+      // ACTIVE deployment once >1. Persistent volumes are per-replica on
+      // Akash, so stateful services stay at one replica.
+      if (input.replicas !== undefined && input.replicas !== null) {
+        const n = input.replicas
+        if (!Number.isInteger(n) || n < 1 || n > MAX_SERVICE_REPLICAS) {
+          throw new GraphQLError(
+            `replicas must be an integer between 1 and ${MAX_SERVICE_REPLICAS}.`
+          )
+        }
+        data.replicas = n
+      }
+      const nextReplicas = data.replicas ?? service.replicas
+      const nextVolumes =
+        data.volumes !== undefined ? data.volumes : service.volumes
+      if (
+        nextReplicas > 1 &&
+        Array.isArray(nextVolumes) &&
+        nextVolumes.length > 0
+      ) {
+        throw new GraphQLError(
+          'A service with persistent volumes cannot run more than one replica — each replica would get its own empty volume. Remove volumes first or keep replicas at 1.'
+        )
+      }
+
       if (Object.keys(data).length === 0) {
         // Nothing to change — return the existing service rather than firing
         // an empty UPDATE.
@@ -2011,7 +2276,7 @@ export const resolvers = {
       requireAuth(context)
       const func = await context.prisma.aFFunction.findUnique({
         where: { id: where.functionId },
-        include: { project: { select: { userId: true, organizationId: true } } },
+        include: { project: { select: { id: true, userId: true, organizationId: true } } },
       })
       if (!func) throw new GraphQLError('Function not found')
       assertProjectAccess(context, (func as any).project)
@@ -2057,7 +2322,7 @@ export const resolvers = {
       requireAuth(context)
       const existing = await context.prisma.aFFunction.findUnique({
         where: { id: where.id },
-        include: { project: { select: { userId: true, organizationId: true } } },
+        include: { project: { select: { id: true, userId: true, organizationId: true } } },
       })
       if (!existing) throw new GraphQLError('Function not found')
       assertProjectAccess(context, (existing as any).project)
@@ -2108,7 +2373,7 @@ export const resolvers = {
           createdAt: true,
           updatedAt: true,
           serviceId: true,
-          project: { select: { userId: true, organizationId: true } },
+          project: { select: { id: true, userId: true, organizationId: true } },
         },
       })
 
@@ -2140,7 +2405,7 @@ export const resolvers = {
       const service = await context.prisma.service.findUnique({
         where: { id },
         include: {
-          project: { select: { userId: true, organizationId: true } },
+          project: { select: { id: true, userId: true, organizationId: true } },
         },
       })
 
@@ -2148,7 +2413,7 @@ export const resolvers = {
         throw new GraphQLError('Service not found')
       }
 
-      assertProjectAccess(context, (service as any).project, 'Not authorized to delete this service')
+      assertServiceAccess(context, (service as any), 'Not authorized to delete this service')
 
       // Guard: block deletion if any provider has a non-terminal deployment.
       // Each provider's descriptor.terminalStatuses defines what counts as
@@ -2198,6 +2463,23 @@ export const resolvers = {
         }
       }
 
+      // Close this service's PR previews and drop their copies; deleting
+      // the parent would otherwise strand them with live leases.
+      const previews = await context.prisma.previewEnvironment.findMany({
+        where: { serviceId: id },
+        select: { id: true, previewServiceId: true },
+      })
+      if (previews.length > 0) {
+        const { teardownPreview } =
+          await import('../services/github/previewEnvironments.js')
+        for (const preview of previews) {
+          await teardownPreview(context.prisma, preview.id, 'service_deleted')
+        }
+        await context.prisma.service.deleteMany({
+          where: { id: { in: previews.map(p => p.previewServiceId) } },
+        })
+      }
+
       await context.prisma.service.delete({ where: { id } })
       return service
     },
@@ -2232,12 +2514,40 @@ export const resolvers = {
     // Spheron deployment mutations
     ...spheronMutations,
 
+    // Provider-agnostic deploy (routes to the mutations above)
+    ...deployMutations,
+
     // GitHub-source deploy mutations
     ...githubMutations,
 
+    // GitLab / Bitbucket connections
+    ...gitProviderMutations,
+
+    // Rollback to a previous deployment or build
+    ...rollbackMutations,
+
     // Service connectivity mutations (env vars, ports, links)
     ...serviceConnectivityMutations,
 
+    // Project notification channels
+    ...notificationMutations,
+
+    // Org event webhooks
+    ...eventWebhookMutations,
+
+    // Organization members, roles and invites
+    ...organizationMemberMutations,
+
+    // Org deploy approval rules and decisions
+    ...deployApprovalMutations,
+
+    // Org shell recording settings
+    ...shellRecordingMutations,
+
+    // Project alert rules
+    ...alertMutations,
+    ...savedLogQueryMutations,
+
     // Feedback mutations
     ...feedbackMutations,
 
@@ -2264,7 +2574,7 @@ export const resolvers = {
         totalBytes: snapshot.totalBytes.toString(),
       }
     },
-  },
+  }),
 
   // Field resolvers
   User: {
@@ -2378,7 +2688,8 @@ export const resolvers = {
      * failoverHistory — derived view over the failover chain for this
      * service. Returns null when no failover has fired (the chain is empty).
      * The `chain` array is newest-first and includes the original deployment
-     * + every spawned replacement so the UI can show the full lineage.
+     * + every spawned replacement so the UI can show the full lineage,
+     * including cross-provider replacements on Phala/Spheron.
      */
     failoverHistory: async (parent: any, _: unknown, context: Context) => {
       if (!parent?.id) return null
@@ -2386,39 +2697,52 @@ export const resolvers = {
         '../services/failover/failoverService.js'
       )
       const policy = parseFailoverPolicy(parent.failoverPolicy)
-      const failovers = await context.prisma.akashDeployment.findMany({
-        where: {
-          serviceId: parent.id,
-          failoverParentId: { not: null },
-        },
-        orderBy: { createdAt: 'desc' },
-        take: 20,
-        select: {
-          id: true,
-          parentDeploymentId: true,
-          failoverParentId: true,
-          provider: true,
-          excludedProviders: true,
-          status: true,
-          failoverReason: true,
-          createdAt: true,
-          deployedAt: true,
-          closedAt: true,
-        },
-      })
-      if (failovers.length === 0) return null
-      const attemptsInWindow = await countAttemptsInWindow(
-        context.prisma,
-        parent.id,
-        policy.windowHours
-      )
-      return {
-        attemptsInWindow,
-        maxAttempts: policy.maxAttempts,
-        windowHours: policy.windowHours,
-        chain: failovers.map(f => ({
+      const where = { serviceId: parent.id, failoverParentId: { not: null } }
+      const crossSelect = {
+        id: true,
+        failoverParentId: true,
+        status: true,
+        failoverReason: true,
+        createdAt: true,
+        activeStartedAt: true,
+      }
+      const [akashFailovers, phalaFailovers, spheronFailovers] =
+        await Promise.all([
+          context.prisma.akashDeployment.findMany({
+            where,
+            orderBy: { createdAt: 'desc' },
+            take: 20,
+            select: {
+              id: true,
+              parentDeploymentId: true,
+              failoverParentId: true,
+              provider: true,
+              excludedProviders: true,
+              status: true,
+              failoverReason: true,
+              createdAt: true,
+              deployedAt: true,
+              closedAt: true,
+            },
+          }),
+          context.prisma.phalaDeployment.findMany({
+            where,
+            orderBy: { createdAt: 'desc' },
+            take: 20,
+            select: crossSelect,
+          }),
+          context.prisma.spheronDeployment.findMany({
+            where,
+            orderBy: { createdAt: 'desc' },
+            take: 20,
+            select: crossSelect,
+          }),
+        ])
+      const chain = [
+        ...akashFailovers.map(f => ({
           deploymentId: f.id,
           parentDeploymentId: f.failoverParentId,
+          computeProvider: 'akash',
           provider: f.provider,
           excludedProviders: f.excludedProviders ?? [],
           status: f.status,
@@ -2427,6 +2751,36 @@ export const resolvers = {
           deployedAt: f.deployedAt,
           closedAt: f.closedAt,
         })),
+        ...[
+          ...phalaFailovers.map(f => ({ ...f, computeProvider: 'phala' })),
+          ...spheronFailovers.map(f => ({ ...f, computeProvider: 'spheron' })),
+        ].map(f => ({
+          deploymentId: f.id,
+          parentDeploymentId: f.failoverParentId,
+          computeProvider: f.computeProvider,
+          provider: null,
+          excludedProviders: [],
+          status: f.status,
+          reason: f.failoverReason,
+          createdAt: f.createdAt,
+          deployedAt: f.activeStartedAt,
+          closedAt: null,
+        })),
+      ]
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+        .slice(0, 20)
+      if (chain.length === 0) return null
+      const attemptsInWindow = await countAttemptsInWindow(
+        context.prisma,
+        parent.id,
+        policy.windowHours
+      )
+      return {
+        attemptsInWindow,
+        maxAttempts: policy.maxAttempts,
+        windowHours: policy.windowHours,
+        fallbackProviders: policy.fallbackProviders,
+        chain,
       }
     },
     // Merge Akash-related Service field resolvers (akashDeployments, activeAkashDeployment)
@@ -2437,7 +2791,7 @@ export const resolvers = {
     ...(spheronFieldResolvers.Service ?? {}),
     // Merge inter-service communication field resolvers (envVars, ports, linksFrom, linksTo)
     ...(serviceConnectivityFieldResolvers.Service ?? {}),
-    // Merge GitHub-source field resolvers (latestBuild, buildJobs)
+    // Merge GitHub-source field resolvers (latestBuild, buildJobs, previewEnvironments)
     ...(githubFieldResolvers.Service ?? {}),
   },
 
@@ -2449,6 +2803,14 @@ export const resolvers = {
     ...(githubFieldResolvers.GithubInstallation ?? {}),
   },
 
+  PreviewEnvironment: {
+    ...(githubFieldResolvers.PreviewEnvironment ?? {}),
+  },
+
+  GitConnection: {
+    ...(gitProviderFieldResolvers.GitConnection ?? {}),
+  },
+
   Site: {
     service: (parent: any, _: unknown, context: Context) => {
       if (!parent.serviceId) return null
@@ -2640,7 +3002,7 @@ export const resolvers = {
 
         const deployment = await context.prisma.deployment.findUnique({
           where: { id: deploymentId },
-          include: { site: { include: { project: { select: { userId: true, organizationId: true } } } } },
+          include: { site: { include: { project: { select: { id: true, userId: true, organizationId: true } } } } },
         })
 
         if (!deployment) {
@@ -2717,7 +3079,7 @@ export const resolvers = {
 
         const deployment = await context.prisma.deployment.findUnique({
           where: { id: deploymentId },
-          include: { site: { include: { project: { select: { userId: true, organizationId: true } } } } },
+          include: { site: { include: { project: { select: { id: true, userId: true, organizationId: true } } } } },
         })
 
         if (!deployment) {
@@ -8,7 +8,11 @@
 
 import { GraphQLError } from 'graphql'
 import type { Context } from './types.js'
-import { requireAuth, assertProjectAccess } from '../utils/authorization.js'
+import {
+  requireAuth,
+  assertServiceAccess,
+  assertTokenScope,
+} from '../utils/authorization.js'
 
 export interface ServiceLogsArgs {
   serviceId: string
@@ -25,7 +29,7 @@ export const logsQueries = {
     requireAuth(context)
     const svc = await context.prisma.service.findUnique({
       where: { id: serviceId },
-      include: { project: { select: { userId: true, organizationId: true } } },
+      include: { project: { select: { id: true, userId: true, organizationId: true } } },
     })
     if (!svc) {
       throw new GraphQLError(`Service not found: ${serviceId}`)
@@ -33,8 +37,16 @@ export const logsQueries = {
 
     const p = (svc as any).project
     if (p) {
-      assertProjectAccess(context, p, 'Not authorized to view logs for this service')
+      assertServiceAccess(
+        context,
+        { ...svc, project: p },
+        'Not authorized to view logs for this service'
+      )
     }
+    assertTokenScope(context, 'logs:read', {
+      serviceId,
+      operation: 'serviceLogs',
+    })
 
     const tailLines = tail ?? 200
 
@@ -0,0 +1,134 @@
+import { describe, expect, it, vi } from 'vitest'
+import { Kind, parse } from 'graphql'
+import { typeDefs } from '../schema/typeDefs.js'
+import {
+  MUTATION_PERMISSIONS,
+  withMutationPermissions,
+} from './mutationPermissions.js'
+import type { Context } from './types.js'
+
+function schemaMutations(): string[] {
+  const names: string[] = []
+  for (const def of parse(typeDefs).definitions) {
+    if (
+      (def.kind === Kind.OBJECT_TYPE_DEFINITION ||
+        def.kind === Kind.OBJECT_TYPE_EXTENSION) &&
+      def.name.value === 'Mutation'
+    ) {
+      names.push(...(def.fields ?? []).map(f => f.name.value))
+    }
+  }
+  return names
+}
+
+function makeContext(role: string | null, organizationId = 'org-1') {
+  const create = vi.fn().mockResolvedValue({})
+  const context = {
+    userId: 'user-1',
+    organizationId,
+    prisma: {
+      organizationMember: {
+        findUnique: vi.fn().mockResolvedValue(role ? { role } : null),
+      },
+      auditEvent: { create },
+    },
+  } as unknown as Context
+  return { context, auditCreate: create }
+}
+
+describe('MUTATION_PERMISSIONS', () => {
+  it('has an explicit rule for every mutation in the schema', () => {
+    const missing = schemaMutations().filter(
+      name => !(name in MUTATION_PERMISSIONS)
+    )
+    expect(missing).toEqual([])
+  })
+})
+
+describe('withMutationPermissions', () => {
+  const resolve = vi.fn().mockResolvedValue(true)
+  const mutations = withMutationPermissions({
+    deleteProject: resolve,
+    revealServiceEnvVar: resolve,
+    deployToAkash: resolve,
+    createChat: resolve,
+    createPersonalAccessToken: resolve,
+  })
+
+  it('lets owners delete projects but not admins, and audits the denial', async () => {
+    const owner = makeContext('OWNER')
+    await expect(
+      mutations.deleteProject(null, { id: 'p1' }, owner.context, null)
+    ).resolves.toBe(true)
+
+    const admin = makeContext('ADMIN')
+    await expect(
+      mutations.deleteProject(null, { id: 'p1' }, admin.context, null)
+    ).rejects.toMatchObject({ extensions: { code: 'FORBIDDEN' } })
+    expect(admin.auditCreate.mock.calls[0][0].data).toMatchObject({
+      action: 'rbac.denied',
+      orgId: 'org-1',
+      payload: { permission: 'project.delete', operation: 'deleteProject' },
+    })
+  })
+
+  it('keeps viewers away from secrets and deploys', async () => {
+    const viewer = makeContext('VIEWER')
+    await expect(
+      mutations.revealServiceEnvVar(null, {}, viewer.context, null)
+    ).rejects.toThrow('Your role (VIEWER) does not allow this action')
+    await expect(
+      mutations.deployToAkash(null, {}, viewer.context, null)
+    ).rejects.toThrow()
+    await expect(
+      mutations.createChat(null, {}, viewer.context, null)
+    ).resolves.toBe(true)
+  })
+
+  it('requires policy rights to deploy with a budget policy', async () => {
+    const developer = makeContext('DEVELOPER')
+    await expect(
+      mutations.deployToAkash(null, {}, developer.context, null)
+    ).resolves.toBe(true)
+    await expect(
+      mutations.deployToAkash(
+        null,
+        { input: { policy: { maxBudgetUsd: 5 } } },
+        developer.context,
+        null
+      )
+    ).rejects.toMatchObject({ extensions: { permission: 'policy.manage' } })
+  })
+
+  it('skips the role check outside an organization', async () => {
+    const personal = makeContext(null, '')
+    await expect(
+      mutations.deleteProject(null, { id: 'p1' }, personal.context, null)
+    ).resolves.toBe(true)
+  })
+
+  it('holds scoped tokens to their scopes, with or without an org', async () => {
+    const { context, auditCreate } = makeContext(null, '')
+    context.tokenScope = {
+      tokenId: 'tok-1',
+      scopes: ['logs:read'],
+      projectIds: [],
+      serviceIds: [],
+    }
+    await expect(
+      mutations.deployToAkash(null, {}, context, null)
+    ).rejects.toMatchObject({ extensions: { scope: 'deploy:write' } })
+    expect(auditCreate.mock.calls[0][0].data).toMatchObject({
+      action: 'token_scope.denied',
+      payload: { tokenId: 'tok-1', operation: 'deployToAkash' },
+    })
+
+    context.tokenScope.scopes = ['deploy:write']
+    await expect(
+      mutations.deployToAkash(null, {}, context, null)
+    ).resolves.toBe(true)
+    await expect(
+      mutations.createPersonalAccessToken(null, {}, context, null)
+    ).rejects.toThrow('Scoped access tokens cannot perform account actions')
+  })
+})
@@ -0,0 +1,222 @@
+/**
+ * Role requirements for every GraphQL mutation.
+ *
+ * When a request runs in an organization (`x-organization-id`), each
+ * mutation first checks that the caller's role in that org grants the
+ * permission listed here. `assertProjectAccess` only lets a request reach
+ * an org project through that org's header — a request without one
+ * reaches personal projects only, even ones the caller created in an
+ * org — so that role is the one that governs whatever the mutation
+ * touches. Personal projects are fully controlled by their owner.
+ *
+ * Two markers opt out of the blanket check:
+ *   - 'user'      acts on the caller's own account (tokens, chats, …)
+ *   - 'resolver'  the resolver checks finer-grained permissions itself,
+ *                 or takes an explicit orgId and checks against that org
+ *
+ * A mutation missing from the table requires 'deploy', so a new mutation
+ * is never open to viewers by accident.
+ *
+ * Scoped tokens (see services/auth/tokenScopes.ts) also need the scope
+ * matching the permission, with or without an org. They can't run 'user'
+ * mutations at all: a CI token must not be able to mint an unrestricted
+ * one or act on the account.
+ */
+
+import { GraphQLError, type GraphQLFieldResolver } from 'graphql'
+import type { Context } from './types.js'
+import {
+  assertOrgPermission,
+  assertTokenScope,
+} from '../utils/authorization.js'
+import type { OrgPermission } from '../services/auth/permissions.js'
+import { scopeForPermission } from '../services/auth/tokenScopes.js'
+
+export type MutationRule = OrgPermission | 'user' | 'resolver'
+
+export const MUTATION_PERMISSIONS: Record<string, MutationRule> = {
+  // Account
+  loginWithPersonalAccessToken: 'user',
+  createPersonalAccessToken: 'user',
+  deletePersonalAccessToken: 'user',
+  createAgent: 'user',
+  createChat: 'user',
+  sendMessage: 'user',
+  deleteChat: 'user',
+  submitFeedback: 'user',
+  createGitConnection: 'user',
+  deleteGitConnection: 'user',
+
+  // Projects and services
+  createProject: 'deploy',
+  updateProject: 'deploy',
+  deleteProject: 'project.delete',
+  createService: 'deploy',
+  updateService: 'resolver',
+  updateServicePriority: 'policy.manage',
+  deleteService: 'deploy',
+  createSite: 'deploy',
+  deleteSite: 'deploy',
+  createCustomIpfsDeployment: 'deploy',
+  createDeployment: 'deploy',
+  createAFFunction: 'deploy',
+  updateAFFunction: 'deploy',
+  triggerAFFunctionDeployment: 'deploy',
+  deleteAFFunction: 'deploy',
+  triggerStorageSnapshot: 'deploy',
+  updateObservabilitySettings: 'deploy',
+
+  // Domains, DNS and web3 names
+  createDomain: 'deploy',
+  createOrgDomain: 'deploy',
+  assignDomainToSite: 'deploy',
+  verifyDomain: 'deploy',
+  provisionSsl: 'deploy',
+  renewSslCertificate: 'deploy',
+  setPrimaryDomain: 'deploy',
+  deleteDomain: 'deploy',
+  purchaseDomain: 'billing.manage',
+  addDnsRecord: 'deploy',
+  updateDnsRecord: 'deploy',
+  deleteDnsRecord: 'deploy',
+  registerArns: 'deploy',
+  updateArnsContent: 'deploy',
+  setEnsContentHash: 'deploy',
+  publishIpns: 'deploy',
+  updateIpns: 'deploy',
+
+  // Deployments
+  deployToAkash: 'deploy',
+  deployFunctionToAkash: 'deploy',
+  closeAkashDeployment: 'deploy',
+  deployFromTemplate: 'deploy',
+  deployFromTemplateToPhala: 'deploy',
+  deployFromTemplateToSpheron: 'deploy',
+  deployCompositeTemplate: 'deploy',
+  deployToPhala: 'deploy',
+  stopPhalaDeployment: 'deploy',
+  deletePhalaDeployment: 'deploy',
+  deployToSpheron: 'deploy',
+  deleteSpheronDeployment: 'deploy',
+  deployService: 'deploy',
+  rollbackService: 'deploy',
+
+  // Env vars, ports and links
+  setServiceEnvVar: 'deploy',
+  deleteServiceEnvVar: 'deploy',
+  bulkSetServiceEnvVars: 'deploy',
+  revealServiceEnvVar: 'env.reveal',
+  setServicePort: 'deploy',
+  deleteServicePort: 'deploy',
+  linkServices: 'deploy',
+  unlinkServices: 'deploy',
+
+  // Git builds
+  connectGitRepo: 'deploy',
+  syncGithubInstallation: 'org.manage',
+  refreshGithubInstallations: 'org.manage',
+  uninstallGithubInstallation: 'org.manage',
+  createGithubService: 'deploy',
+  connectGithubRepo: 'deploy',
+  redeployGithubService: 'deploy',
+  purgeServiceBuildCache: 'deploy',
+  updateServiceWatchPaths: 'deploy',
+  cancelBuild: 'deploy',
+
+  // Notifications and org event webhooks
+  createNotificationChannel: 'deploy',
+  updateNotificationChannel: 'deploy',
+  deleteNotificationChannel: 'deploy',
+  testNotificationChannel: 'deploy',
+  createEventWebhook: 'resolver',
+  updateEventWebhook: 'resolver',
+  deleteEventWebhook: 'resolver',
+  replayWebhookDeliveries: 'resolver',
+
+  // Members and invites
+  inviteOrganizationMember: 'resolver',
+  revokeOrganizationInvite: 'resolver',
+  acceptOrganizationInvite: 'user',
+  updateOrganizationMemberRole: 'resolver',
+  removeOrganizationMember: 'resolver',
+
+  // Deploy approvals
+  createDeployApprovalRule: 'resolver',
+  updateDeployApprovalRule: 'resolver',
+  deleteDeployApprovalRule: 'resolver',
+  approveDeployRequest: 'resolver',
+  rejectDeployRequest: 'resolver',
+  cancelDeployRequest: 'resolver',
+
+  // Shell recordings
+  updateShellRecordingSettings: 'resolver',
+
+  // Alert rules
+  createAlertRule: 'deploy',
+  updateAlertRule: 'deploy',
+  deleteAlertRule: 'deploy',
+  silenceAlertRule: 'deploy',
+  unsilenceAlertRule: 'deploy',
+
+  // Saved log queries are shared by the project
+  createSavedLogQuery: 'deploy',
+  updateSavedLogQuery: 'deploy',
+  deleteSavedLogQuery: 'deploy',
+}
+
+/** Deploy inputs that carry a spend / runtime policy need policy.manage too. */
+function carriesPolicy(args: Record<string, unknown>): boolean {
+  if (args.policy) return true
+  const input = args.input as Record<string, unknown> | undefined
+  return Boolean(input && typeof input === 'object' && input.policy)
+}
+
+type Resolver = GraphQLFieldResolver<unknown, Context>
+
+/** Wrap each mutation resolver with its role check. */
+export function withMutationPermissions<T extends Record<string, Resolver>>(
+  mutations: T
+): T {
+  const wrapped: Record<string, Resolver> = {}
+  for (const [name, resolve] of Object.entries(mutations)) {
+    const rule = MUTATION_PERMISSIONS[name] ?? 'deploy'
+    if (rule === 'resolver' || name === 'loginWithPersonalAccessToken') {
+      wrapped[name] = resolve
+      continue
+    }
+    if (rule === 'user') {
+      wrapped[name] = async (parent, args, context, info) => {
+        if (context.tokenScope) {
+          throw new GraphQLError(
+            'Scoped access tokens cannot perform account actions',
+            { extensions: { code: 'FORBIDDEN' } }
+          )
+        }
+        return resolve(parent, args, context, info)
+      }
+      continue
+    }
+    wrapped[name] = async (parent, args, context, info) => {
+      const policy = rule === 'deploy' && carriesPolicy(args ?? {})
+      assertTokenScope(context, scopeForPermission(rule), { operation: name })
+      if (policy) {
+        assertTokenScope(context, 'policy:write', { operation: name })
+      }
+      if (context.organizationId) {
+        await assertOrgPermission(context, context.organizationId, rule, {
+          operation: name,
+        })
+        if (policy) {
+          await assertOrgPermission(
+            context,
+            context.organizationId,
+            'policy.manage',
+            { operation: name }
+          )
+        }
+      }
+      return resolve(parent, args, context, info)
+    }
+  }
+  return wrapped as T
+}
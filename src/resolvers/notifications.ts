@@ -0,0 +1,281 @@
+/**
+ * Notification channel resolvers.
+ *
+ * Channels belong to a project and receive the platform events listed in
+ * services/notifications/channels.ts. The destination URL is write-only:
+ * it is sealed on save and only `urlHint` is ever returned. Every send,
+ * including `testNotificationChannel`, is recorded as a
+ * NotificationDelivery, which is what `notificationDeliveries` lists.
+ */
+
+import { GraphQLError } from 'graphql'
+import type {
+  NotificationChannelType,
+  NotificationDeliveryStatus,
+  Prisma,
+} from '@prisma/client'
+import type { Context } from './types.js'
+import { requireAuth, assertProjectAccess } from '../utils/authorization.js'
+import { audit } from '../lib/audit.js'
+import { sealSecret } from '../lib/vault.js'
+import {
+  NOTIFICATION_EVENTS,
+  TEST_EVENT,
+  generateSigningSecret,
+  validateChannelEvents,
+  validateChannelUrl,
+  type NotificationPayload,
+} from '../services/notifications/channels.js'
+import { deliverNotification } from '../services/notifications/delivery.js'
+
+const CHANNEL_TYPES: NotificationChannelType[] = ['WEBHOOK', 'SLACK', 'DISCORD']
+const MAX_CHANNELS_PER_PROJECT = 20
+const MAX_NAME_LENGTH = 100
+const DEFAULT_DELIVERY_LIMIT = 50
+const MAX_DELIVERY_LIMIT = 200
+
+function invalid(message: string): GraphQLError {
+  return new GraphQLError(message, {
+    extensions: { code: 'INVALID_NOTIFICATION_CHANNEL' },
+  })
+}
+
+function normalizeName(raw: unknown): string {
+  const name = typeof raw === 'string' ? raw.trim() : ''
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    throw invalid(`name is required (max ${MAX_NAME_LENGTH} characters)`)
+  }
+  return name
+}
+
+function sealUrl(type: NotificationChannelType, raw: unknown) {
+  const checked = validateChannelUrl(type, raw)
+  if (!checked.allowed) throw invalid(checked.reason)
+  return {
+    sealedUrl: sealSecret('notification-channel', checked.url),
+    urlHint: checked.hint,
+  }
+}
+
+function normalizeEvents(raw: unknown): string[] {
+  const checked = validateChannelEvents(raw)
+  if (!checked.allowed) throw invalid(checked.reason)
+  return checked.events
+}
+
+async function loadProject(context: Context, projectId: string) {
+  const project = await context.prisma.project.findUnique({
+    where: { id: projectId },
+  })
+  if (!project) throw new GraphQLError('Project not found')
+  assertProjectAccess(context, project)
+  return project
+}
+
+async function loadChannel(context: Context, id: string) {
+  requireAuth(context)
+  const channel = await context.prisma.notificationChannel.findUnique({
+    where: { id },
+    include: { project: true },
+  })
+  if (!channel) throw new GraphQLError('Notification channel not found')
+  assertProjectAccess(context, channel.project)
+  return channel
+}
+
+export const notificationQueries = {
+  notificationChannels: async (
+    _: unknown,
+    args: { projectId: string },
+    context: Context
+  ) => {
+    requireAuth(context)
+    await loadProject(context, args.projectId)
+    return context.prisma.notificationChannel.findMany({
+      where: { projectId: args.projectId },
+      orderBy: { createdAt: 'asc' },
+    })
+  },
+
+  notificationDeliveries: async (
+    _: unknown,
+    args: {
+      channelId: string
+      status?: NotificationDeliveryStatus | null
+      limit?: number | null
+    },
+    context: Context
+  ) => {
+    const channel = await loadChannel(context, args.channelId)
+    const limit = Math.min(
+      Math.max(args.limit ?? DEFAULT_DELIVERY_LIMIT, 1),
+      MAX_DELIVERY_LIMIT
+    )
+    return context.prisma.notificationDelivery.findMany({
+      where: {
+        channelId: channel.id,
+        ...(args.status ? { status: args.status } : {}),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    })
+  },
+
+  notificationEventTypes: () => [...NOTIFICATION_EVENTS],
+}
+
+export const notificationMutations = {
+  createNotificationChannel: async (
+    _: unknown,
+    args: {
+      input: {
+        projectId: string
+        type: NotificationChannelType
+        name: string
+        url: string
+        events?: string[] | null
+        enabled?: boolean | null
+      }
+    },
+    context: Context
+  ) => {
+    const userId = requireAuth(context)
+    const { input } = args
+    if (!CHANNEL_TYPES.includes(input.type)) {
+      throw invalid(`type must be one of: ${CHANNEL_TYPES.join(', ')}`)
+    }
+    const name = normalizeName(input.name)
+    const events = normalizeEvents(input.events)
+    const { sealedUrl, urlHint } = sealUrl(input.type, input.url)
+    const project = await loadProject(context, input.projectId)
+
+    const existing = await context.prisma.notificationChannel.count({
+      where: { projectId: project.id },
+    })
+    if (existing >= MAX_CHANNELS_PER_PROJECT) {
+      throw new GraphQLError(
+        `A project can have at most ${MAX_CHANNELS_PER_PROJECT} notification channels`,
+        { extensions: { code: 'LIMIT_EXCEEDED' } }
+      )
+    }
+
+    const channel = await context.prisma.notificationChannel.create({
+      data: {
+        projectId: project.id,
+        type: input.type,
+        name,
+        sealedUrl,
+        urlHint,
+        signingSecret:
+          input.type === 'WEBHOOK' ? generateSigningSecret() : null,
+        events,
+        enabled: input.enabled ?? true,
+        createdByUserId: userId,
+      },
+    })
+    audit(context.prisma, {
+      category: 'user',
+      action: 'notification_channel.created',
+      userId,
+      orgId: project.organizationId,
+      projectId: project.id,
+      payload: { channelId: channel.id, type: channel.type, events },
+    })
+    return channel
+  },
+
+  updateNotificationChannel: async (
+    _: unknown,
+    args: {
+      id: string
+      input: {
+        name?: string | null
+        url?: string | null
+        events?: string[] | null
+        enabled?: boolean | null
+      }
+    },
+    context: Context
+  ) => {
+    const channel = await loadChannel(context, args.id)
+    const { input } = args
+    const data: Prisma.NotificationChannelUpdateInput = {}
+    if (input.name !== undefined && input.name !== null) {
+      data.name = normalizeName(input.name)
+    }
+    if (input.url !== undefined && input.url !== null) {
+      Object.assign(data, sealUrl(channel.type, input.url))
+    }
+    if (input.events !== undefined) {
+      data.events = normalizeEvents(input.events)
+    }
+    if (typeof input.enabled === 'boolean') data.enabled = input.enabled
+    return context.prisma.notificationChannel.update({
+      where: { id: channel.id },
+      data,
+    })
+  },
+
+  deleteNotificationChannel: async (
+    _: unknown,
+    args: { id: string },
+    context: Context
+  ) => {
+    const channel = await loadChannel(context, args.id)
+    await context.prisma.notificationChannel.delete({
+      where: { id: channel.id },
+    })
+    audit(context.prisma, {
+      category: 'user',
+      action: 'notification_channel.deleted',
+      userId: context.userId,
+      orgId: channel.project.organizationId,
+      projectId: channel.projectId,
+      payload: { channelId: channel.id, type: channel.type },
+    })
+    return true
+  },
+
+  testNotificationChannel: async (
+    _: unknown,
+    args: { id: string },
+    context: Context
+  ) => {
+    const channel = await loadChannel(context, args.id)
+    const now = new Date()
+    const payload: NotificationPayload = {
+      event: TEST_EVENT,
+      severity: 'info',
+      title: 'Test notification',
+      message: `Notifications for project "${channel.project.name}" will arrive here.`,
+      occurredAt: now.toISOString(),
+      projectId: channel.projectId,
+      serviceId: null,
+      serviceName: null,
+      deploymentId: null,
+      url: null,
+      data: { channel: channel.name },
+    }
+    const delivery = await context.prisma.notificationDelivery.create({
+      data: {
+        channelId: channel.id,
+        event: TEST_EVENT,
+        payload: payload as unknown as Prisma.InputJsonValue,
+        nextAttemptAt: now,
+      },
+    })
+    // A failed test is reported, not retried.
+    const attempted = await deliverNotification(
+      context.prisma,
+      delivery.id,
+      now
+    )
+    if (attempted?.status === 'PENDING') {
+      return context.prisma.notificationDelivery.update({
+        where: { id: delivery.id },
+        data: { status: 'FAILED', nextAttemptAt: null },
+      })
+    }
+    return attempted ?? delivery
+  },
+}
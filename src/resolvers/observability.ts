@@ -9,18 +9,34 @@ import { GraphQLError } from 'graphql'
 import {
   getClickHouseClient,
   getTelemetryIngestionService,
+  STORAGE_RETENTION_DAYS,
   type TraceQueryInput,
   type MetricQueryInput,
   type LogQueryInput,
 } from '../services/observability/index.js'
+import { buildServiceGraph } from '../services/observability/serviceGraph.js'
+import {
+  LogQueryError,
+  decodeLogCursor,
+  parseLogQuery,
+} from '../services/observability/logQuery.js'
 import type { Context } from './types.js'
+import {
+  assertProjectAccess,
+  assertTokenScope,
+} from '../utils/authorization.js'
+import type { TokenScope } from '../services/auth/tokenScopes.js'
 
 /**
- * Verify user has access to a project
+ * Verify user has access to a project. Scoped tokens also need to be bound
+ * to it and hold `scope` — telemetry is log data, so `logs:read` unless
+ * the caller only reads settings or usage.
  */
 async function verifyProjectAccess(
   projectId: string,
-  context: Context
+  context: Context,
+  operation: string,
+  scope: TokenScope = 'logs:read'
 ): Promise<void> {
   if (!context.userId) {
     throw new GraphQLError('Authentication required')
@@ -28,20 +44,24 @@ async function verifyProjectAccess(
 
   const project = await context.prisma.project.findUnique({
     where: { id: projectId },
-    select: { userId: true },
+    select: { id: true, userId: true, organizationId: true },
   })
 
   if (!project) {
     throw new GraphQLError('Project not found')
   }
 
-  if (project.userId !== context.userId) {
-    throw new GraphQLError(
-      'Unauthorized - you do not have access to this project'
-    )
-  }
+  assertProjectAccess(
+    context,
+    project,
+    'Unauthorized - you do not have access to this project'
+  )
+  assertTokenScope(context, scope, { projectId, operation })
 }
 
+const DEFAULT_LOG_SEARCH_WINDOW_MS = 60 * 60 * 1000
+const MAX_LOG_PAGE_SIZE = 1000
+
 export const observabilityQueries = {
   /**
    * Query traces with filters
@@ -51,7 +71,7 @@ export const observabilityQueries = {
     { input }: { input: TraceQueryInput },
     context: Context
   ) => {
-    await verifyProjectAccess(input.projectId, context)
+    await verifyProjectAccess(input.projectId, context, 'traces')
 
     const client = getClickHouseClient()
     return client.queryTraces(input)
@@ -65,7 +85,7 @@ export const observabilityQueries = {
     { projectId, traceId }: { projectId: string; traceId: string },
     context: Context
   ) => {
-    await verifyProjectAccess(projectId, context)
+    await verifyProjectAccess(projectId, context, 'trace')
 
     const client = getClickHouseClient()
     return client.getTrace(projectId, traceId)
@@ -79,7 +99,7 @@ export const observabilityQueries = {
     { input }: { input: MetricQueryInput },
     context: Context
   ) => {
-    await verifyProjectAccess(input.projectId, context)
+    await verifyProjectAccess(input.projectId, context, 'metrics')
 
     const client = getClickHouseClient()
 
@@ -106,12 +126,75 @@ export const observabilityQueries = {
     { input }: { input: LogQueryInput },
     context: Context
   ) => {
-    await verifyProjectAccess(input.projectId, context)
+    await verifyProjectAccess(input.projectId, context, 'logs')
 
     const client = getClickHouseClient()
     return client.queryLogs(input)
   },
 
+  /**
+   * Search logs with the query language, a page at a time
+   */
+  searchLogs: async (
+    _: unknown,
+    {
+      input,
+    }: {
+      input: {
+        projectId: string
+        query?: string | null
+        startTime?: Date | null
+        endTime?: Date | null
+        limit?: number | null
+        cursor?: string | null
+      }
+    },
+    context: Context
+  ) => {
+    await verifyProjectAccess(input.projectId, context, 'searchLogs')
+
+    const now = new Date()
+    let parsed
+    try {
+      parsed = parseLogQuery(input.query ?? '', now)
+    } catch (err) {
+      if (!(err instanceof LogQueryError)) throw err
+      throw new GraphQLError(err.message, {
+        extensions: { code: 'INVALID_LOG_QUERY' },
+      })
+    }
+
+    // since:/until: in the query win over the input's range
+    const endTime = parsed.endTime ?? input.endTime ?? now
+    const startTime =
+      parsed.startTime ??
+      input.startTime ??
+      new Date(endTime.getTime() - DEFAULT_LOG_SEARCH_WINDOW_MS)
+    if (startTime >= endTime) {
+      throw new GraphQLError('startTime must be before endTime', {
+        extensions: { code: 'INVALID_LOG_QUERY' },
+      })
+    }
+
+    const after = input.cursor ? decodeLogCursor(input.cursor) : undefined
+    if (after === null) {
+      throw new GraphQLError('Invalid cursor', {
+        extensions: { code: 'INVALID_LOG_QUERY' },
+      })
+    }
+
+    const limit = Math.min(Math.max(input.limit ?? 100, 1), MAX_LOG_PAGE_SIZE)
+    const page = await getClickHouseClient().searchLogs({
+      projectId: input.projectId,
+      startTime,
+      endTime,
+      filters: parsed.filters,
+      limit,
+      after,
+    })
+    return { ...page, startTime, endTime }
+  },
+
   /**
    * Get service statistics for a project
    */
@@ -124,12 +207,42 @@ export const observabilityQueries = {
     }: { projectId: string; startTime: Date; endTime: Date },
     context: Context
   ) => {
-    await verifyProjectAccess(projectId, context)
+    await verifyProjectAccess(projectId, context, 'services')
 
     const client = getClickHouseClient()
     return client.getServices(projectId, startTime, endTime)
   },
 
+  /**
+   * Service dependency map from trace spans, overlaid with ServiceLinks
+   */
+  serviceGraph: async (
+    _: unknown,
+    {
+      projectId,
+      startTime,
+      endTime,
+    }: { projectId: string; startTime: Date; endTime: Date },
+    context: Context
+  ) => {
+    await verifyProjectAccess(projectId, context, 'serviceGraph')
+
+    const client = getClickHouseClient()
+    const [edges, services] = await Promise.all([
+      client.getServiceEdges(projectId, startTime, endTime),
+      context.prisma.service.findMany({
+        where: { projectId },
+        select: { id: true, name: true, slug: true, sdlServiceName: true },
+        orderBy: { createdAt: 'asc' },
+      }),
+    ])
+    const links = await context.prisma.serviceLink.findMany({
+      where: { sourceServiceId: { in: services.map(s => s.id) } },
+      select: { id: true, sourceServiceId: true, targetServiceId: true },
+    })
+    return buildServiceGraph(edges, services, links)
+  },
+
   /**
    * Get observability settings for a project
    */
@@ -138,7 +251,12 @@ export const observabilityQueries = {
     { projectId }: { projectId: string },
     context: Context
   ) => {
-    await verifyProjectAccess(projectId, context)
+    await verifyProjectAccess(
+      projectId,
+      context,
+      'observabilitySettings',
+      'project:read'
+    )
 
     // Get or create settings
     let settings = await context.prisma.observabilitySettings.findUnique({
@@ -176,7 +294,12 @@ export const observabilityQueries = {
     }: { projectId: string; startDate: Date; endDate: Date },
     context: Context
   ) => {
-    await verifyProjectAccess(projectId, context)
+    await verifyProjectAccess(
+      projectId,
+      context,
+      'telemetryUsage',
+      'project:read'
+    )
 
     const service = getTelemetryIngestionService(context.prisma)
     const usage = await service.getProjectUsage(projectId, startDate, endDate)
@@ -189,6 +312,10 @@ export const observabilityQueries = {
       spansCount: usage.spansCount,
       metricsCount: usage.metricsCount,
       logsCount: usage.logsCount,
+      bytesDropped: usage.bytesDropped.toString(),
+      spansDropped: usage.spansDropped,
+      metricsDropped: usage.metricsDropped,
+      logsDropped: usage.logsDropped,
       costCents: cost.costCents,
       costFormatted: cost.costFormatted,
       periodStart: startDate,
@@ -212,6 +339,7 @@ export const observabilityMutations = {
         tracesEnabled?: boolean
         metricsEnabled?: boolean
         logsEnabled?: boolean
+        containerLogsEnabled?: boolean
         traceRetention?: number
         metricRetention?: number
         logRetention?: number
@@ -221,7 +349,12 @@ export const observabilityMutations = {
     },
     context: Context
   ) => {
-    await verifyProjectAccess(projectId, context)
+    await verifyProjectAccess(
+      projectId,
+      context,
+      'updateObservabilitySettings',
+      'project:read'
+    )
 
     // Validate inputs
     if (input.sampleRate !== undefined) {
@@ -230,16 +363,24 @@ export const observabilityMutations = {
       }
     }
 
-    if (input.traceRetention !== undefined && input.traceRetention < 1) {
-      throw new GraphQLError('traceRetention must be at least 1 day')
-    }
-
-    if (input.metricRetention !== undefined && input.metricRetention < 1) {
-      throw new GraphQLError('metricRetention must be at least 1 day')
-    }
-
-    if (input.logRetention !== undefined && input.logRetention < 1) {
-      throw new GraphQLError('logRetention must be at least 1 day')
+    // Retention can only shorten the storage TTL of each table
+    const retentions = [
+      ['traceRetention', input.traceRetention, STORAGE_RETENTION_DAYS.traces],
+      [
+        'metricRetention',
+        input.metricRetention,
+        STORAGE_RETENTION_DAYS.metrics,
+      ],
+      ['logRetention', input.logRetention, STORAGE_RETENTION_DAYS.logs],
+    ] as const
+    for (const [field, days, maxDays] of retentions) {
+      if (days === undefined) continue
+      if (days < 1) {
+        throw new GraphQLError(`${field} must be at least 1 day`)
+      }
+      if (days > maxDays) {
+        throw new GraphQLError(`${field} can be at most ${maxDays} days`)
+      }
     }
 
     // Parse maxBytesPerHour if provided
@@ -255,6 +396,9 @@ export const observabilityMutations = {
             'maxBytesPerHour must be a valid integer string'
           )
         }
+        if (maxBytesPerHour <= BigInt(0)) {
+          throw new GraphQLError('maxBytesPerHour must be positive')
+        }
       }
     }
 
@@ -266,6 +410,7 @@ export const observabilityMutations = {
         tracesEnabled: input.tracesEnabled ?? true,
         metricsEnabled: input.metricsEnabled ?? true,
         logsEnabled: input.logsEnabled ?? true,
+        containerLogsEnabled: input.containerLogsEnabled ?? false,
         traceRetention: input.traceRetention ?? 7,
         metricRetention: input.metricRetention ?? 30,
         logRetention: input.logRetention ?? 7,
@@ -282,6 +427,9 @@ export const observabilityMutations = {
         ...(input.logsEnabled !== undefined && {
           logsEnabled: input.logsEnabled,
         }),
+        ...(input.containerLogsEnabled !== undefined && {
+          containerLogsEnabled: input.containerLogsEnabled,
+        }),
         ...(input.traceRetention !== undefined && {
           traceRetention: input.traceRetention,
         }),
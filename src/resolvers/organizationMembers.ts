@@ -0,0 +1,399 @@
+/**
+ * Organization members, roles and invites.
+ *
+ * Owners and admins (`org.manage`) invite people and change roles. Only an
+ * owner can grant, change or remove the OWNER role, and an org always
+ * keeps at least one owner. Invites are addressed to an email: the token
+ * is returned once to the inviter, stored hashed, and only accepted by a
+ * signed-in user with that email. A removed member stays removed until
+ * they accept a new invite, whatever service-auth still reports.
+ */
+
+import crypto from 'node:crypto'
+import { GraphQLError } from 'graphql'
+import type { OrganizationRole, Prisma } from '@prisma/client'
+import type { Context } from './types.js'
+import { requireAuth, assertOrgPermission } from '../utils/authorization.js'
+import { audit } from '../lib/audit.js'
+import {
+  ORG_ROLES,
+  getOrgRole,
+  permissionsForRole,
+} from '../services/auth/permissions.js'
+import { assertOrgMembership } from './github.js'
+
+const INVITE_TTL_MS = 7 * 24 * 60 * 60_000
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+function invalid(message: string): GraphQLError {
+  return new GraphQLError(message, {
+    extensions: { code: 'INVALID_MEMBER_CHANGE' },
+  })
+}
+
+function hashInviteToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex')
+}
+
+function assertAssignableRole(role: OrganizationRole): void {
+  if (!ORG_ROLES.includes(role)) {
+    throw invalid(`role must be one of: ${ORG_ROLES.join(', ')}`)
+  }
+}
+
+/** Changing anything about the OWNER role is reserved to owners. */
+function assertCanTouchOwner(
+  callerRole: OrganizationRole,
+  ...roles: OrganizationRole[]
+): void {
+  if (roles.includes('OWNER') && callerRole !== 'OWNER') {
+    throw new GraphQLError('Only an owner can grant or change the owner role', {
+      extensions: { code: 'FORBIDDEN' },
+    })
+  }
+}
+
+/**
+ * Refuse to take the OWNER role away from `memberId` when they are the
+ * org's only owner. Call inside the transaction that makes the change: the
+ * owner rows are locked (SELECT FOR UPDATE), so two concurrent demotions
+ * serialize and the second sees the first one's result.
+ */
+async function assertNotLastOwner(
+  tx: Prisma.TransactionClient,
+  organizationId: string,
+  memberId: string
+): Promise<void> {
+  const owners = await tx.$queryRawUnsafe<{ id: string }[]>(
+    `SELECT id FROM "OrganizationMember"
+     WHERE "organizationId" = $1 AND role = 'OWNER'
+     FOR UPDATE`,
+    organizationId
+  )
+  if (owners.length <= 1 && owners.some(o => o.id === memberId)) {
+    throw invalid('An organization needs at least one owner')
+  }
+}
+
+function toMember(member: {
+  id: string
+  organizationId: string
+  userId: string
+  role: OrganizationRole
+  createdAt: Date
+  user: { email: string | null; username: string | null }
+}) {
+  return {
+    id: member.id,
+    organizationId: member.organizationId,
+    userId: member.userId,
+    email: member.user.email,
+    username: member.user.username,
+    // Rows not yet migrated still read MEMBER.
+    role: member.role === 'MEMBER' ? 'DEVELOPER' : member.role,
+    createdAt: member.createdAt,
+  }
+}
+
+const MEMBER_USER = { user: { select: { email: true, username: true } } }
+
+export const organizationMemberQueries = {
+  organizationMembers: async (
+    _: unknown,
+    args: { orgId: string },
+    context: Context
+  ) => {
+    await assertOrgMembership(context, args.orgId)
+    const members = await context.prisma.organizationMember.findMany({
+      where: { organizationId: args.orgId },
+      include: MEMBER_USER,
+      orderBy: { createdAt: 'asc' },
+    })
+    return members.map(toMember)
+  },
+
+  organizationInvites: async (
+    _: unknown,
+    args: { orgId: string },
+    context: Context
+  ) => {
+    await assertOrgPermission(context, args.orgId, 'org.manage')
+    return context.prisma.organizationInvite.findMany({
+      where: {
+        organizationId: args.orgId,
+        acceptedAt: null,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      orderBy: { createdAt: 'desc' },
+    })
+  },
+
+  myOrganizationAccess: async (
+    _: unknown,
+    args: { orgId: string },
+    context: Context
+  ) => {
+    const userId = requireAuth(context)
+    const role = await getOrgRole(context.prisma, args.orgId, userId)
+    if (!role) {
+      throw new GraphQLError('not a member of this organization', {
+        extensions: { code: 'FORBIDDEN' },
+      })
+    }
+    return {
+      role: role === 'MEMBER' ? 'DEVELOPER' : role,
+      permissions: permissionsForRole(role),
+    }
+  },
+}
+
+export const organizationMemberMutations = {
+  inviteOrganizationMember: async (
+    _: unknown,
+    args: { orgId: string; email: string; role: OrganizationRole },
+    context: Context
+  ) => {
+    const email = args.email.trim().toLowerCase()
+    if (!EMAIL_PATTERN.test(email)) throw invalid('email is not valid')
+    assertAssignableRole(args.role)
+    const callerRole = await assertOrgPermission(
+      context,
+      args.orgId,
+      'org.manage',
+      { operation: 'inviteOrganizationMember' }
+    )
+    assertCanTouchOwner(callerRole, args.role)
+
+    const existing = await context.prisma.organizationMember.findFirst({
+      where: {
+        organizationId: args.orgId,
+        user: { email: { equals: email, mode: 'insensitive' } },
+      },
+      select: { id: true },
+    })
+    if (existing) throw invalid(`${email} is already a member`)
+
+    const now = new Date()
+    // A new invite replaces any pending one for the same address.
+    await context.prisma.organizationInvite.updateMany({
+      where: {
+        organizationId: args.orgId,
+        email,
+        acceptedAt: null,
+        revokedAt: null,
+      },
+      data: { revokedAt: now },
+    })
+    const token = `afinv_${crypto.randomBytes(24).toString('base64url')}`
+    const invite = await context.prisma.organizationInvite.create({
+      data: {
+        organizationId: args.orgId,
+        email,
+        role: args.role,
+        tokenHash: hashInviteToken(token),
+        invitedByUserId: context.userId!,
+        expiresAt: new Date(now.getTime() + INVITE_TTL_MS),
+      },
+    })
+    audit(context.prisma, {
+      category: 'user',
+      action: 'organization.member_invited',
+      userId: context.userId,
+      orgId: args.orgId,
+      payload: { inviteId: invite.id, email, role: args.role },
+    })
+    return { invite, token }
+  },
+
+  revokeOrganizationInvite: async (
+    _: unknown,
+    args: { id: string },
+    context: Context
+  ) => {
+    requireAuth(context)
+    const invite = await context.prisma.organizationInvite.findUnique({
+      where: { id: args.id },
+    })
+    if (!invite) throw new GraphQLError('Invite not found')
+    await assertOrgPermission(context, invite.organizationId, 'org.manage', {
+      operation: 'revokeOrganizationInvite',
+    })
+    if (invite.acceptedAt) throw invalid('Invite was already accepted')
+    await context.prisma.organizationInvite.update({
+      where: { id: invite.id },
+      data: { revokedAt: invite.revokedAt ?? new Date() },
+    })
+    return true
+  },
+
+  acceptOrganizationInvite: async (
+    _: unknown,
+    args: { token: string },
+    context: Context
+  ) => {
+    const userId = requireAuth(context)
+    const invite = await context.prisma.organizationInvite.findUnique({
+      where: { tokenHash: hashInviteToken(args.token.trim()) },
+    })
+    if (
+      !invite ||
+      invite.acceptedAt ||
+      invite.revokedAt ||
+      invite.expiresAt <= new Date()
+    ) {
+      throw invalid('This invite is invalid or has expired')
+    }
+    const user = await context.prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true },
+    })
+    if (user?.email?.toLowerCase() !== invite.email) {
+      throw new GraphQLError(
+        `This invite was sent to ${invite.email}; sign in with that address to accept it`,
+        { extensions: { code: 'FORBIDDEN' } }
+      )
+    }
+
+    const member = await context.prisma.$transaction(async tx => {
+      const claimed = await tx.organizationInvite.updateMany({
+        where: { id: invite.id, acceptedAt: null, revokedAt: null },
+        data: { acceptedAt: new Date(), acceptedByUserId: userId },
+      })
+      if (claimed.count === 0) {
+        throw invalid('This invite is invalid or has expired')
+      }
+      const existing = await tx.organizationMember.findUnique({
+        where: {
+          organizationId_userId: {
+            organizationId: invite.organizationId,
+            userId,
+          },
+        },
+      })
+      if (existing) throw invalid('You are already a member')
+      await tx.organizationMemberRemoval.deleteMany({
+        where: { organizationId: invite.organizationId, userId },
+      })
+      return tx.organizationMember.create({
+        data: {
+          organizationId: invite.organizationId,
+          userId,
+          role: invite.role,
+        },
+        include: MEMBER_USER,
+      })
+    })
+    audit(context.prisma, {
+      category: 'user',
+      action: 'organization.member_joined',
+      userId,
+      orgId: invite.organizationId,
+      payload: { inviteId: invite.id, role: invite.role },
+    })
+    return toMember(member)
+  },
+
+  updateOrganizationMemberRole: async (
+    _: unknown,
+    args: { orgId: string; userId: string; role: OrganizationRole },
+    context: Context
+  ) => {
+    assertAssignableRole(args.role)
+    const callerRole = await assertOrgPermission(
+      context,
+      args.orgId,
+      'org.manage',
+      { operation: 'updateOrganizationMemberRole' }
+    )
+    const member = await context.prisma.organizationMember.findUnique({
+      where: {
+        organizationId_userId: {
+          organizationId: args.orgId,
+          userId: args.userId,
+        },
+      },
+    })
+    if (!member) throw new GraphQLError('Member not found')
+    assertCanTouchOwner(callerRole, member.role, args.role)
+    const updated = await context.prisma.$transaction(async tx => {
+      if (args.role !== 'OWNER') {
+        await assertNotLastOwner(tx, args.orgId, member.id)
+      }
+      return tx.organizationMember.update({
+        where: { id: member.id },
+        data: { role: args.role },
+        include: MEMBER_USER,
+      })
+    })
+    audit(context.prisma, {
+      category: 'user',
+      action: 'organization.member_role_changed',
+      userId: context.userId,
+      orgId: args.orgId,
+      payload: {
+        memberUserId: args.userId,
+        from: member.role,
+        to: args.role,
+      },
+    })
+    return toMember(updated)
+  },
+
+  removeOrganizationMember: async (
+    _: unknown,
+    args: { orgId: string; userId: string },
+    context: Context
+  ) => {
+    const callerId = requireAuth(context)
+    const member = await context.prisma.organizationMember.findUnique({
+      where: {
+        organizationId_userId: {
+          organizationId: args.orgId,
+          userId: args.userId,
+        },
+      },
+    })
+    // Anyone may leave; removing someone else needs org.manage.
+    if (args.userId === callerId) {
+      if (!member) throw new GraphQLError('Member not found')
+    } else {
+      const callerRole = await assertOrgPermission(
+        context,
+        args.orgId,
+        'org.manage',
+        { operation: 'removeOrganizationMember' }
+      )
+      if (!member) throw new GraphQLError('Member not found')
+      assertCanTouchOwner(callerRole, member.role)
+    }
+    // Keep a removal record so the service-auth membership sync in the
+    // auth middleware doesn't add them straight back.
+    await context.prisma.$transaction(async tx => {
+      await assertNotLastOwner(tx, args.orgId, member.id)
+      await tx.organizationMember.delete({ where: { id: member.id } })
+      await tx.organizationMemberRemoval.upsert({
+        where: {
+          organizationId_userId: {
+            organizationId: args.orgId,
+            userId: args.userId,
+          },
+        },
+        update: { removedByUserId: callerId, removedAt: new Date() },
+        create: {
+          organizationId: args.orgId,
+          userId: args.userId,
+          removedByUserId: callerId,
+        },
+      })
+    })
+    audit(context.prisma, {
+      category: 'user',
+      action: 'organization.member_removed',
+      userId: callerId,
+      orgId: args.orgId,
+      payload: { memberUserId: args.userId, role: member.role },
+    })
+    return true
+  },
+}
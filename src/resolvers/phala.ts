@@ -7,6 +7,7 @@ import { processFinalPhalaBilling } from '../services/billing/deploymentSettleme
 import { assertSubscriptionActive } from './subscriptionCheck.js'
 import { assertDeployBalance, checkTimeLimitedDeployBalance } from './balanceCheck.js'
 import { assertLaunchAllowed } from './launchGuards.js'
+import { assertDeployApproved } from './deployApprovalGuard.js'
 import { decrementOrgConcurrency } from '../services/concurrency/concurrencyService.js'
 import { BILLING_CONFIG } from '../config/billing.js'
 import { resolvePhalaInstanceType } from '../services/phala/instanceTypes.js'
@@ -21,7 +22,11 @@ import {
 } from '../templates/index.js'
 import type { TemplateResources, TemplateGpu } from '../templates/index.js'
 import type { Context } from './types.js'
-import { requireAuth, assertProjectAccess } from '../utils/authorization.js'
+import {
+  requireAuth,
+  assertProjectAccess,
+  assertServiceAccess,
+} from '../utils/authorization.js'
 import { createLogger } from '../lib/logger.js'
 import { audit } from '../lib/audit.js'
 import { resolvePhalaActiveSince } from '../lib/leaseChain.js'
@@ -123,7 +128,7 @@ export const phalaQueries = {
       include: { service: { include: { project: true } }, site: true, afFunction: true },
     })
     if (!deployment) throw new GraphQLError('Phala deployment not found')
-    assertProjectAccess(context, deployment.service.project)
+    assertServiceAccess(context, deployment.service)
     return deployment
   },
 
@@ -140,7 +145,7 @@ export const phalaQueries = {
         include: { project: true },
       })
       if (!service?.project) throw new GraphQLError('Service or project not found')
-      assertProjectAccess(context, service.project)
+      assertServiceAccess(context, service)
     }
     if (projectId) {
       const project = await context.prisma.project.findUnique({ where: { id: projectId } })
@@ -171,7 +176,7 @@ export const phalaQueries = {
       include: { project: true },
     })
     if (!service?.project) throw new GraphQLError('Service or project not found')
-    assertProjectAccess(context, service.project)
+    assertServiceAccess(context, service)
 
     return context.prisma.phalaDeployment.findFirst({
       where: { serviceId, status: { in: ['CREATING', 'STARTING', 'ACTIVE'] } },
@@ -321,7 +326,7 @@ export const phalaMutations = {
       throw new GraphQLError('Service not found')
     }
 
-    assertProjectAccess(context, service.project, 'Not authorized to deploy this service')
+    assertServiceAccess(context, service, 'Not authorized to deploy this service')
 
     if (input.sourceCode && service.type === 'FUNCTION' && service.afFunction) {
       await context.prisma.aFFunction.update({
@@ -437,6 +442,16 @@ export const phalaMutations = {
       hourlyCostCents * 24
     )
 
+    await assertDeployApproved(context, {
+      operation: 'deployToPhala',
+      args: { input },
+      provider: 'phala',
+      project: service.project,
+      serviceId: service.id,
+      hourlyCostCents,
+      gpuUnits: input.policy?.gpuUnits ?? resolvedResources.gpu?.units ?? 0,
+    })
+
     // Now create the policy (deferred from above so we know the hourly cost)
     if (input.policy) {
       let reservedCents = 0
@@ -474,6 +489,10 @@ export const phalaMutations = {
           maxBudgetUsd: input.policy.maxBudgetUsd ?? null,
           maxMonthlyUsd: input.policy.maxMonthlyUsd ?? null,
           runtimeMinutes: input.policy.runtimeMinutes ?? null,
+          minReplicas: input.policy.minReplicas ?? null,
+          maxReplicas: input.policy.maxReplicas ?? null,
+          targetP95LatencyMs: input.policy.targetP95LatencyMs ?? null,
+          targetRequestsPerSecond: input.policy.targetRequestsPerSecond ?? null,
           expiresAt: input.policy.runtimeMinutes
             ? new Date(Date.now() + input.policy.runtimeMinutes * 60_000)
             : null,
@@ -587,7 +606,7 @@ export const phalaMutations = {
       include: { service: { include: { project: true } } },
     })
     if (!deployment) throw new GraphQLError('Phala deployment not found')
-    assertProjectAccess(context, deployment.service.project, 'Not authorized to stop this deployment')
+    assertServiceAccess(context, deployment.service, 'Not authorized to stop this deployment')
 
     const stoppedAt = new Date()
 
@@ -689,7 +708,7 @@ export const phalaMutations = {
       include: { service: { include: { project: true } } },
     })
     if (!deployment) throw new GraphQLError('Phala deployment not found')
-    assertProjectAccess(context, deployment.service.project, 'Not authorized to delete this deployment')
+    assertServiceAccess(context, deployment.service, 'Not authorized to delete this deployment')
 
     const deletedAt = new Date()
 
@@ -131,6 +131,38 @@ describe('Query Resolvers', () => {
       })
     })
 
+    it('lists only the projects a bound token reaches', async () => {
+      vi.mocked(mockContext.prisma.project.findMany).mockResolvedValue([
+        { id: 'project-1' },
+        { id: 'project-2' },
+        { id: 'project-3' },
+      ] as any)
+      ;(mockContext.prisma as any).service = {
+        findMany: vi
+          .fn()
+          .mockResolvedValue([
+            {
+              id: 'svc-db',
+              parentServiceId: 'svc-web',
+              projectId: 'project-3',
+            },
+          ]),
+      }
+      mockContext.tokenScope = {
+        tokenId: 'tok-1',
+        scopes: ['project:read'],
+        projectIds: ['project-1'],
+        serviceIds: ['svc-web'],
+      } as any
+
+      const result = await resolvers.Query.projects({}, {}, mockContext)
+
+      expect(result.data.map((p: any) => p.id)).toEqual([
+        'project-1',
+        'project-3',
+      ])
+    })
+
     it('should throw error if not authenticated', async () => {
       mockContext.userId = undefined
 
@@ -164,6 +196,7 @@ describe('Query Resolvers', () => {
         include: {
           project: {
             select: {
+              id: true,
               userId: true,
               organizationId: true,
             },
@@ -223,6 +256,7 @@ describe('Query Resolvers', () => {
         include: {
           project: {
             select: {
+              id: true,
               userId: true,
               organizationId: true,
             },
@@ -0,0 +1,247 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { Context } from './types.js'
+import {
+  assertDeployApproved,
+  exemptFromDeployApproval,
+} from './deployApprovalGuard.js'
+import { rollbackMutations } from './rollback.js'
+import { findRollbackTarget } from '../services/rollback/rollbackService.js'
+
+const { mockDeployToAkash, mockReplayDeployment } = vi.hoisted(() => ({
+  mockDeployToAkash: vi.fn(),
+  mockReplayDeployment: vi.fn(),
+}))
+
+vi.mock('./akash.js', () => ({
+  akashMutations: { deployToAkash: mockDeployToAkash },
+}))
+vi.mock('./phala.js', () => ({ phalaMutations: {} }))
+vi.mock('./spheron.js', () => ({ spheronMutations: {} }))
+vi.mock('./subscriptionCheck.js', () => ({
+  assertSubscriptionActive: vi.fn().mockResolvedValue('ACTIVE'),
+}))
+vi.mock('./balanceCheck.js', () => ({ assertDeployBalance: vi.fn() }))
+vi.mock('./launchGuards.js', () => ({ assertLaunchAllowed: vi.fn() }))
+vi.mock('../services/notifications/notify.js', () => ({ notify: vi.fn() }))
+vi.mock('../lib/vault.js', () => ({
+  sealSecret: (_purpose: string, value: string) => `sealed:${value}`,
+}))
+vi.mock('../services/providers/registry.js', () => ({
+  findActiveDeploymentForService: vi.fn().mockResolvedValue(null),
+  findActiveOrPendingDeploymentForService: vi.fn().mockResolvedValue(null),
+}))
+vi.mock('../services/rollback/rollbackService.js', () => ({
+  estimateTargetDailyCostCents: () => 240,
+  findRollbackTarget: vi.fn().mockResolvedValue({
+    provider: 'spheron',
+    row: {
+      id: 'dep-0',
+      serviceId: 'svc-1',
+      savedDeployInput: {},
+      gpuCount: 1,
+    },
+  }),
+  listDeploymentHistory: vi.fn(),
+  phalaEnvReplayable: () => true,
+  replayDeployment: mockReplayDeployment,
+  targetGpuUnits: (target: { row: { gpuCount?: number } }) =>
+    target.row.gpuCount ?? 0,
+  targetReachedActive: () => true,
+}))
+
+const gpuDeploy = {
+  operation: 'deployToAkash' as const,
+  args: { input: { serviceId: 'svc-1' } },
+  provider: 'akash' as const,
+  project: { id: 'prod', organizationId: 'org-1' },
+  serviceId: 'svc-1',
+  hourlyCostCents: 75,
+  gpuUnits: 1,
+}
+
+function makeContext() {
+  return {
+    userId: 'dev-1',
+    organizationId: 'org-1',
+    prisma: {
+      service: {
+        findUnique: vi.fn().mockResolvedValue({
+          id: 'svc-1',
+          projectId: 'prod',
+          dockerImage: 'app:v2',
+          project: { id: 'prod', userId: 'owner-1', organizationId: 'org-1' },
+        }),
+        update: vi.fn().mockResolvedValue({}),
+      },
+      buildJob: {
+        findUnique: vi.fn().mockResolvedValue({
+          id: 'build-1',
+          serviceId: 'svc-1',
+          status: 'SUCCEEDED',
+          imageTag: 'app:v1',
+          commitSha: 'abc123',
+        }),
+      },
+      spheronDeployment: {
+        findUnique: vi.fn().mockResolvedValue({ id: 'dep-2' }),
+      },
+      akashDeployment: {
+        findUnique: vi
+          .fn()
+          .mockResolvedValue({ id: 'dep-2', dseq: 7n, depositUakt: null }),
+      },
+      // A developer, and a rule that holds any GPU deploy in the org
+      organizationMember: {
+        findUnique: vi.fn().mockResolvedValue({ role: 'DEVELOPER' }),
+      },
+      deployApprovalRule: {
+        findMany: vi.fn().mockResolvedValue([
+          {
+            id: 'r1',
+            name: 'Prod GPUs',
+            projectIds: [],
+            minHourlyCostCents: null,
+            requireForGpu: true,
+            approverRole: 'ADMIN',
+          },
+        ]),
+      },
+      deployApprovalRequest: {
+        findFirst: vi.fn().mockResolvedValue(null),
+        create: vi.fn(async ({ data }) => ({
+          id: 'req-1',
+          ...data,
+          expiresAt: new Date('2026-06-02T00:00:00Z'),
+        })),
+      },
+      auditEvent: { create: vi.fn().mockResolvedValue({}) },
+    },
+  } as unknown as Context
+}
+
+describe('rollbackService and deploy approvals', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockDeployToAkash.mockImplementation(
+      async (_parent: unknown, _args: unknown, context: Context) => {
+        await assertDeployApproved(context, gpuDeploy)
+        return { id: 'dep-2' }
+      }
+    )
+    mockReplayDeployment.mockResolvedValue('dep-2')
+  })
+
+  it('holds a build rollback as a rollback and keeps the current image meanwhile', async () => {
+    const context = makeContext()
+
+    await expect(
+      rollbackMutations.rollbackService(
+        undefined,
+        { serviceId: 'svc-1', buildJobId: 'build-1' },
+        context
+      )
+    ).rejects.toMatchObject({ extensions: { code: 'APPROVAL_REQUIRED' } })
+    expect(
+      context.prisma.deployApprovalRequest.create.mock.calls[0][0].data
+    ).toMatchObject({
+      operation: 'rollbackService',
+      sealedArgs: 'sealed:{"serviceId":"svc-1","buildJobId":"build-1"}',
+      gpuUnits: 1,
+    })
+    expect(context.prisma.service.update).toHaveBeenLastCalledWith({
+      where: { id: 'svc-1' },
+      data: { dockerImage: 'app:v2' },
+    })
+  })
+
+  it('holds a replay that an org rule matches before launching anything', async () => {
+    const context = makeContext()
+
+    await expect(
+      rollbackMutations.rollbackService(
+        undefined,
+        { serviceId: 'svc-1', toDeploymentId: 'dep-0' },
+        context
+      )
+    ).rejects.toMatchObject({ extensions: { code: 'APPROVAL_REQUIRED' } })
+    expect(
+      context.prisma.deployApprovalRequest.create.mock.calls[0][0].data
+    ).toMatchObject({
+      operation: 'rollbackService',
+      sealedArgs: 'sealed:{"serviceId":"svc-1","toDeploymentId":"dep-0"}',
+      provider: 'spheron',
+      gpuUnits: 1,
+    })
+    expect(mockReplayDeployment).not.toHaveBeenCalled()
+  })
+
+  it('runs the approved rollback without holding it again', async () => {
+    const context = exemptFromDeployApproval(makeContext())
+
+    await expect(
+      rollbackMutations.rollbackService(
+        undefined,
+        { serviceId: 'svc-1', buildJobId: 'build-1' },
+        context
+      )
+    ).resolves.toEqual({ id: 'dep-2' })
+    await expect(
+      rollbackMutations.rollbackService(
+        undefined,
+        { serviceId: 'svc-1', toDeploymentId: 'dep-0' },
+        context
+      )
+    ).resolves.toEqual({ id: 'dep-2' })
+    expect(context.prisma.deployApprovalRule.findMany).not.toHaveBeenCalled()
+  })
+})
+
+describe('rollbackService Akash strategy', () => {
+  const akashTarget = {
+    provider: 'akash',
+    row: { id: 'dep-0', serviceId: 'svc-1', policyId: null },
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockReplayDeployment.mockResolvedValue('dep-2')
+    vi.mocked(findRollbackTarget).mockResolvedValueOnce(akashTarget as never)
+  })
+
+  it('recreates when the service has no health probe to gate a cutover on', async () => {
+    const context = makeContext()
+
+    await rollbackMutations.rollbackService(
+      undefined,
+      { serviceId: 'svc-1', toDeploymentId: 'dep-0' },
+      context
+    )
+    expect(mockReplayDeployment).toHaveBeenCalledWith(
+      context.prisma,
+      akashTarget,
+      'RECREATE'
+    )
+  })
+
+  it('cuts over blue-green when the service has a probe and no volumes', async () => {
+    const context = makeContext()
+    vi.mocked(context.prisma.service.findUnique).mockResolvedValueOnce({
+      id: 'svc-1',
+      projectId: 'prod',
+      healthProbe: { path: '/healthz' },
+      volumes: null,
+      project: { id: 'prod', userId: 'owner-1', organizationId: 'org-1' },
+    } as never)
+
+    await rollbackMutations.rollbackService(
+      undefined,
+      { serviceId: 'svc-1', toDeploymentId: 'dep-0' },
+      context
+    )
+    expect(mockReplayDeployment).toHaveBeenCalledWith(
+      context.prisma,
+      akashTarget,
+      'BLUE_GREEN'
+    )
+  })
+})
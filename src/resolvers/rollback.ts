@@ -0,0 +1,396 @@
+/**
+ * Rollback Resolvers
+ *
+ * `deploymentHistory` lists a service's past deployments across providers
+ * (plus successful builds for git services); `rollbackService` redeploys
+ * one of them. See services/rollback/rollbackService.ts for how each
+ * provider's recipe is replayed. Rollbacks go through org deploy approval
+ * rules like any deploy (see APPROVABLE_OPERATIONS).
+ */
+
+import { GraphQLError } from 'graphql'
+import type { Context } from './types.js'
+import { requireAuth, assertServiceAccess } from '../utils/authorization.js'
+import { createLogger } from '../lib/logger.js'
+import { audit } from '../lib/audit.js'
+import { assertSubscriptionActive } from './subscriptionCheck.js'
+import { assertDeployBalance } from './balanceCheck.js'
+import { assertLaunchAllowed } from './launchGuards.js'
+import { assertDeployApproved, holdDeployAs } from './deployApprovalGuard.js'
+import { decrementOrgConcurrency } from '../services/concurrency/concurrencyService.js'
+import { parseServiceVolumes } from '../services/akash/orchestrator.js'
+import type { AkashDeployStrategy } from '../services/akash/blueGreenCutover.js'
+import {
+  findActiveDeploymentForService,
+  findActiveOrPendingDeploymentForService,
+  type ProviderDeployment,
+} from '../services/providers/registry.js'
+import {
+  estimateTargetDailyCostCents,
+  findRollbackTarget,
+  listDeploymentHistory,
+  phalaEnvReplayable,
+  replayDeployment,
+  targetGpuUnits,
+  targetReachedActive,
+} from '../services/rollback/rollbackService.js'
+import { akashMutations } from './akash.js'
+import { phalaMutations } from './phala.js'
+import { spheronMutations } from './spheron.js'
+
+const log = createLogger('resolver-rollback')
+
+async function loadServiceForRollback(context: Context, serviceId: string) {
+  requireAuth(context)
+  const service = await context.prisma.service.findUnique({
+    where: { id: serviceId },
+    include: { project: true },
+  })
+  if (!service) throw new GraphQLError('Service not found')
+  assertServiceAccess(context, service, 'Not authorized to access this service')
+  return service
+}
+
+/**
+ * Close the deployment that was live before the rollback and release its
+ * concurrency slot in the project's org. Failures are logged, not thrown
+ * — a stray old deployment is recoverable from the UI and must not block
+ * the rollback itself.
+ */
+async function retirePrevious(
+  context: Context,
+  organizationId: string | null,
+  previous: ProviderDeployment | null
+) {
+  if (!previous) return
+  try {
+    await previous.provider.close(previous.deployment.id)
+    await decrementOrgConcurrency(context.prisma, organizationId)
+  } catch (err) {
+    log.warn(
+      { err, deploymentId: previous.deployment.id },
+      'Closing pre-rollback deployment failed — may need manual close'
+    )
+  }
+}
+
+/**
+ * Akash replays keep the live lease serving through a blue-green cutover
+ * when the service could take one from `deployToAkash` (a health probe to
+ * gate on, no persistent volumes); otherwise they recreate.
+ */
+function akashRollbackStrategy(service: {
+  healthProbe: unknown
+  volumes: unknown
+}): AkashDeployStrategy {
+  return service.healthProbe &&
+    parseServiceVolumes(service.volumes).length === 0
+    ? 'BLUE_GREEN'
+    : 'RECREATE'
+}
+
+async function formatRollbackResult(
+  context: Context,
+  provider: string,
+  deploymentId: string
+) {
+  if (provider === 'akash') {
+    const d = await context.prisma.akashDeployment.findUnique({
+      where: { id: deploymentId },
+      include: { policy: true },
+    })
+    if (!d) throw new GraphQLError('Rollback deployment record not found')
+    return {
+      ...d,
+      dseq: d.dseq.toString(),
+      depositUakt: d.depositUakt?.toString(),
+    }
+  }
+  if (provider === 'phala') {
+    return context.prisma.phalaDeployment.findUnique({
+      where: { id: deploymentId },
+      include: { policy: true },
+    })
+  }
+  return context.prisma.spheronDeployment.findUnique({
+    where: { id: deploymentId },
+    include: { policy: true },
+  })
+}
+
+export const rollbackQueries = {
+  deploymentHistory: async (
+    _: unknown,
+    { serviceId, limit }: { serviceId: string; limit?: number },
+    context: Context
+  ) => {
+    const service = await loadServiceForRollback(context, serviceId)
+    const take = Math.min(Math.max(limit ?? 20, 1), 100)
+
+    const live = await findActiveDeploymentForService(
+      context.prisma,
+      service.id
+    )
+    const [deployments, builds] = await Promise.all([
+      listDeploymentHistory(
+        context.prisma,
+        service.id,
+        live?.deployment.id ?? null,
+        take
+      ),
+      service.gitProvider
+        ? context.prisma.buildJob.findMany({
+            where: {
+              serviceId: service.id,
+              status: 'SUCCEEDED',
+              imageTag: { not: null },
+            },
+            orderBy: { createdAt: 'desc' },
+            take,
+          })
+        : Promise.resolve([]),
+    ])
+
+    return {
+      deployments,
+      builds: builds.map(b => ({
+        ...b,
+        isCurrent: b.imageTag === service.dockerImage,
+      })),
+    }
+  },
+}
+
+export const rollbackMutations = {
+  rollbackService: async (
+    _: unknown,
+    {
+      serviceId,
+      toDeploymentId,
+      buildJobId,
+    }: {
+      serviceId: string
+      toDeploymentId?: string | null
+      buildJobId?: string | null
+    },
+    context: Context
+  ) => {
+    if (!context.userId) {
+      throw new GraphQLError('Not authenticated')
+    }
+    if (Boolean(toDeploymentId) === Boolean(buildJobId)) {
+      throw new GraphQLError(
+        'Provide exactly one of toDeploymentId or buildJobId'
+      )
+    }
+
+    const service = await loadServiceForRollback(context, serviceId)
+    const previous = await findActiveOrPendingDeploymentForService(
+      context.prisma,
+      service.id
+    )
+
+    // ── Build image rollback (git services) ───────────────────
+    // Pin the old image and run a regular deploy on whichever provider
+    // currently hosts the service; that path owns all launch guards.
+    if (buildJobId) {
+      const job = await context.prisma.buildJob.findUnique({
+        where: { id: buildJobId },
+      })
+      if (!job || job.serviceId !== service.id) {
+        throw new GraphQLError('Build not found for this service')
+      }
+      if (job.status !== 'SUCCEEDED' || !job.imageTag) {
+        throw new GraphQLError(
+          'Only successful builds with an image can be rolled back to'
+        )
+      }
+
+      const provider = previous?.descriptor.name ?? 'akash'
+      audit(context.prisma, {
+        category: 'deployment',
+        action: 'deployment.rollback_requested',
+        status: 'ok',
+        userId: context.userId,
+        orgId: context.organizationId ?? null,
+        projectId: service.projectId,
+        serviceId: service.id,
+        payload: {
+          provider,
+          buildJobId: job.id,
+          imageTag: job.imageTag,
+          commitSha: job.commitSha,
+          previousImage: service.dockerImage,
+        },
+      })
+
+      await context.prisma.service.update({
+        where: { id: service.id },
+        data: { dockerImage: job.imageTag },
+      })
+
+      const input = { serviceId: service.id }
+      // The provider mutation checks approval rules against today's
+      // service config, which is what launches; a held request replays
+      // this rollback rather than the bare redeploy.
+      const deployContext = holdDeployAs(context, 'rollbackService', {
+        serviceId: service.id,
+        buildJobId: job.id,
+      })
+      let deployment: { id: string }
+      try {
+        if (provider === 'phala') {
+          deployment = await phalaMutations.deployToPhala(
+            undefined,
+            { input },
+            deployContext
+          )
+        } else if (provider === 'spheron') {
+          deployment = await spheronMutations.deployToSpheron(
+            undefined,
+            { input },
+            deployContext
+          )
+        } else {
+          // Akash redeploys close the previous lease themselves.
+          return await akashMutations.deployToAkash(
+            undefined,
+            { input },
+            deployContext
+          )
+        }
+      } catch (error) {
+        // Nothing launched while the rollback waits for approval, so the
+        // service keeps its current image until then.
+        if (
+          error instanceof GraphQLError &&
+          error.extensions.code === 'APPROVAL_REQUIRED'
+        ) {
+          await context.prisma.service.update({
+            where: { id: service.id },
+            data: { dockerImage: service.dockerImage },
+          })
+        }
+        throw error
+      }
+      if (previous?.deployment.id !== deployment.id) {
+        await retirePrevious(context, service.project.organizationId, previous)
+      }
+      return deployment
+    }
+
+    // ── Deployment replay ─────────────────────────────────────
+    if (!toDeploymentId) {
+      throw new GraphQLError(
+        'Provide exactly one of toDeploymentId or buildJobId'
+      )
+    }
+    const target = await findRollbackTarget(context.prisma, toDeploymentId)
+    if (!target || target.row.serviceId !== service.id) {
+      throw new GraphQLError('Deployment not found for this service')
+    }
+    if (previous?.deployment.id === target.row.id) {
+      throw new GraphQLError('This deployment is already live')
+    }
+    if (!targetReachedActive(target)) {
+      throw new GraphQLError(
+        'Only deployments that reached ACTIVE can be rolled back to'
+      )
+    }
+    if (target.provider === 'phala' && !phalaEnvReplayable(target.row)) {
+      throw new GraphQLError(
+        'This Phala deployment has no saved env snapshot to replay'
+      )
+    }
+    if (target.provider === 'spheron' && !target.row.savedDeployInput) {
+      throw new GraphQLError(
+        'This Spheron deployment has no saved deploy input to replay'
+      )
+    }
+
+    const subscriptionStatus = await assertSubscriptionActive(
+      context.organizationId
+    )
+    const estimatedDailyCostCents = estimateTargetDailyCostCents(target)
+    // A replay may predate the org's approval rules; check it like a
+    // fresh deploy of the target's recipe.
+    await assertDeployApproved(context, {
+      operation: 'rollbackService',
+      args: { serviceId: service.id, toDeploymentId: target.row.id },
+      provider: target.provider,
+      project: service.project,
+      serviceId: service.id,
+      hourlyCostCents: estimatedDailyCostCents / 24,
+      gpuUnits: targetGpuUnits(target),
+    })
+    await assertLaunchAllowed(
+      context.organizationId,
+      context.prisma,
+      estimatedDailyCostCents / 24,
+      subscriptionStatus
+    )
+    await assertDeployBalance(
+      context.organizationId,
+      target.provider,
+      context.prisma,
+      {
+        dailyCostCents: estimatedDailyCostCents,
+      }
+    )
+
+    audit(context.prisma, {
+      category: 'deployment',
+      action: 'deployment.rollback_requested',
+      status: 'ok',
+      userId: context.userId,
+      orgId: context.organizationId ?? null,
+      projectId: service.projectId,
+      serviceId: service.id,
+      payload: {
+        provider: target.provider,
+        toDeploymentId: target.row.id,
+        previousDeploymentId: previous?.deployment.id ?? null,
+        estimatedDailyCostCents,
+      },
+    })
+
+    const akashStrategy = akashRollbackStrategy(service)
+    let deploymentId: string
+    try {
+      deploymentId = await replayDeployment(
+        context.prisma,
+        target,
+        akashStrategy
+      )
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : 'Unknown error'
+      audit(context.prisma, {
+        category: 'deployment',
+        action: 'deployment.submit_failed',
+        status: 'error',
+        userId: context.userId,
+        orgId: context.organizationId ?? null,
+        projectId: service.projectId,
+        serviceId: service.id,
+        errorMessage: msg,
+        payload: { provider: target.provider, rollbackOfId: target.row.id },
+      })
+      throw new GraphQLError(`Rollback failed: ${msg}`)
+    }
+
+    // Only retire what was live once the rollback exists, so a failed
+    // replay leaves the service running. Under BLUE_GREEN an ACTIVE Akash
+    // lease is handed to the cutover instead, which closes it and settles
+    // its escrow after the replay passes its health probe.
+    const handedToCutover =
+      target.provider === 'akash' &&
+      akashStrategy === 'BLUE_GREEN' &&
+      previous?.descriptor.name === 'akash' &&
+      previous.deployment.status === 'ACTIVE'
+    if (!handedToCutover) {
+      await retirePrevious(context, service.project.organizationId, previous)
+    }
+
+    return formatRollbackResult(context, target.provider, deploymentId)
+  },
+}
@@ -0,0 +1,93 @@
+/**
+ * Run Schedule Resolvers
+ *
+ * `runSchedulePreview` projects what a run window (stored on the service
+ * or passed in for a dry run) would save. The schedule itself is set
+ * through `updateService(input: { runSchedule })` and applied by
+ * services/runSchedule/runScheduleScheduler.ts.
+ */
+
+import { GraphQLError } from 'graphql'
+import type { Context } from './types.js'
+import { requireAuth, assertServiceAccess } from '../utils/authorization.js'
+import {
+  previewRunSchedule,
+  validateRunSchedule,
+} from '../services/runSchedule/runSchedule.js'
+
+/**
+ * What the service costs per hour while it runs: the live deployments,
+ * or the ones a schedule stopped when it is currently off.
+ */
+async function serviceHourlyRateCents(
+  context: Context,
+  serviceId: string
+): Promise<number> {
+  const rate = async (
+    akash: { status: 'ACTIVE' | 'SUSPENDED' },
+    vm: { status: 'ACTIVE' | 'STOPPED' },
+    policy?: { is: { stopReason: 'SCHEDULED_STOP' } }
+  ) => {
+    const [escrows, phala, spheron] = await Promise.all([
+      context.prisma.deploymentEscrow.findMany({
+        where: { akashDeployment: { serviceId, ...akash, policy } },
+        select: { dailyRateCents: true },
+      }),
+      context.prisma.phalaDeployment.findMany({
+        where: { serviceId, ...vm, policy },
+        select: { hourlyRateCents: true },
+      }),
+      context.prisma.spheronDeployment.findMany({
+        where: { serviceId, ...vm, policy },
+        select: { hourlyRateCents: true },
+      }),
+    ])
+    let cents = 0
+    for (const e of escrows) cents += e.dailyRateCents / 24
+    for (const d of [...phala, ...spheron]) cents += d.hourlyRateCents ?? 0
+    return cents
+  }
+
+  const live = await rate({ status: 'ACTIVE' }, { status: 'ACTIVE' })
+  if (live > 0) return live
+  return rate(
+    { status: 'SUSPENDED' },
+    { status: 'STOPPED' },
+    { is: { stopReason: 'SCHEDULED_STOP' } }
+  )
+}
+
+export const runScheduleQueries = {
+  runSchedulePreview: async (
+    _: unknown,
+    { serviceId, schedule }: { serviceId: string; schedule?: unknown },
+    context: Context
+  ) => {
+    requireAuth(context)
+    const service = await context.prisma.service.findUnique({
+      where: { id: serviceId },
+      include: { project: true },
+    })
+    if (!service) throw new GraphQLError('Service not found')
+    assertServiceAccess(
+      context,
+      service,
+      'Not authorized to access this service'
+    )
+
+    const raw = schedule ?? service.runSchedule
+    if (raw === null || raw === undefined) {
+      throw new GraphQLError(
+        'Service has no runSchedule — pass one to preview it.'
+      )
+    }
+    const result = validateRunSchedule(raw)
+    if (!result.allowed) throw new GraphQLError(result.reason)
+
+    const hourlyRateCents = await serviceHourlyRateCents(context, service.id)
+    return {
+      ...previewRunSchedule(result.schedule, hourlyRateCents, new Date()),
+      hourlyCostUsd: Math.round(hourlyRateCents) / 100,
+    }
+  },
+}
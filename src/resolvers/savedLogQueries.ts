@@ -0,0 +1,177 @@
+/**
+ * Saved log query resolvers.
+ *
+ * A saved query is a name plus query-language text (see
+ * services/observability/logQuery.ts), shared by the project. The text is
+ * parsed on save so a broken query can't be stored, and run later through
+ * `searchLogs`, so relative ranges stay relative. Reading them needs the
+ * `logs:read` token scope; changing them is a `deploy` mutation.
+ */
+
+import { GraphQLError } from 'graphql'
+import type { Context } from './types.js'
+import {
+  requireAuth,
+  assertProjectAccess,
+  assertTokenScope,
+} from '../utils/authorization.js'
+import { audit } from '../lib/audit.js'
+import {
+  LogQueryError,
+  parseLogQuery,
+} from '../services/observability/logQuery.js'
+
+const MAX_QUERIES_PER_PROJECT = 100
+const MAX_NAME_LENGTH = 100
+
+function invalid(message: string): GraphQLError {
+  return new GraphQLError(message, {
+    extensions: { code: 'INVALID_LOG_QUERY' },
+  })
+}
+
+function checkName(name: string): string {
+  const trimmed = name.trim()
+  if (!trimmed || trimmed.length > MAX_NAME_LENGTH) {
+    throw invalid(`name must be 1 to ${MAX_NAME_LENGTH} characters`)
+  }
+  return trimmed
+}
+
+function checkQuery(query: string): string {
+  try {
+    parseLogQuery(query)
+  } catch (err) {
+    if (err instanceof LogQueryError) throw invalid(err.message)
+    throw err
+  }
+  return query.trim()
+}
+
+function duplicateName(err: unknown): never {
+  if ((err as { code?: string }).code === 'P2002') {
+    throw invalid('A saved query with this name already exists')
+  }
+  throw err
+}
+
+async function loadProject(context: Context, projectId: string) {
+  const project = await context.prisma.project.findUnique({
+    where: { id: projectId },
+  })
+  if (!project) throw new GraphQLError('Project not found')
+  assertProjectAccess(context, project)
+  return project
+}
+
+async function loadSavedQuery(context: Context, id: string) {
+  requireAuth(context)
+  const saved = await context.prisma.savedLogQuery.findUnique({
+    where: { id },
+    include: { project: true },
+  })
+  if (!saved) throw new GraphQLError('Saved query not found')
+  assertProjectAccess(context, saved.project)
+  return saved
+}
+
+export const savedLogQueryQueries = {
+  savedLogQueries: async (
+    _: unknown,
+    args: { projectId: string },
+    context: Context
+  ) => {
+    requireAuth(context)
+    await loadProject(context, args.projectId)
+    assertTokenScope(context, 'logs:read', {
+      projectId: args.projectId,
+      operation: 'savedLogQueries',
+    })
+    return context.prisma.savedLogQuery.findMany({
+      where: { projectId: args.projectId },
+      orderBy: { name: 'asc' },
+    })
+  },
+}
+
+export const savedLogQueryMutations = {
+  createSavedLogQuery: async (
+    _: unknown,
+    args: { projectId: string; name: string; query: string },
+    context: Context
+  ) => {
+    const userId = requireAuth(context)
+    const name = checkName(args.name)
+    const query = checkQuery(args.query)
+    const project = await loadProject(context, args.projectId)
+
+    const existing = await context.prisma.savedLogQuery.count({
+      where: { projectId: project.id },
+    })
+    if (existing >= MAX_QUERIES_PER_PROJECT) {
+      throw new GraphQLError(
+        `A project can have at most ${MAX_QUERIES_PER_PROJECT} saved queries`,
+        { extensions: { code: 'LIMIT_EXCEEDED' } }
+      )
+    }
+
+    const saved = await context.prisma.savedLogQuery
+      .create({
+        data: { projectId: project.id, name, query, createdByUserId: userId },
+      })
+      .catch(duplicateName)
+    audit(context.prisma, {
+      category: 'logs',
+      action: 'saved_log_query.created',
+      userId,
+      orgId: project.organizationId,
+      projectId: project.id,
+      payload: { savedQueryId: saved.id, name },
+    })
+    return saved
+  },
+
+  updateSavedLogQuery: async (
+    _: unknown,
+    args: { id: string; name?: string | null; query?: string | null },
+    context: Context
+  ) => {
+    const existing = await loadSavedQuery(context, args.id)
+    const saved = await context.prisma.savedLogQuery
+      .update({
+        where: { id: existing.id },
+        data: {
+          ...(args.name ? { name: checkName(args.name) } : {}),
+          ...(args.query ? { query: checkQuery(args.query) } : {}),
+        },
+      })
+      .catch(duplicateName)
+    audit(context.prisma, {
+      category: 'logs',
+      action: 'saved_log_query.updated',
+      userId: context.userId,
+      orgId: existing.project.organizationId,
+      projectId: existing.projectId,
+      payload: { savedQueryId: saved.id, name: saved.name },
+    })
+    return saved
+  },
+
+  deleteSavedLogQuery: async (
+    _: unknown,
+    args: { id: string },
+    context: Context
+  ) => {
+    const saved = await loadSavedQuery(context, args.id)
+    await context.prisma.savedLogQuery.delete({ where: { id: saved.id } })
+    audit(context.prisma, {
+      category: 'logs',
+      action: 'saved_log_query.deleted',
+      userId: context.userId,
+      orgId: saved.project.organizationId,
+      projectId: saved.projectId,
+      payload: { savedQueryId: saved.id, name: saved.name },
+    })
+    return true
+  },
+}
@@ -1,6 +1,11 @@
 import { GraphQLError } from 'graphql'
 import type { Context } from './types.js'
-import { requireAuth, assertProjectAccess } from '../utils/authorization.js'
+import {
+  requireAuth,
+  assertProjectAccess,
+  assertProjectPermission,
+} from '../utils/authorization.js'
+import type { OrgPermission } from '../services/auth/permissions.js'
 import { getTemplateById } from '../templates/index.js'
 import {
   resolveConnectionStrings,
@@ -69,7 +74,7 @@ export const serviceConnectivityQueries = {
 
     const project = await context.prisma.project.findUnique({
       where: { id: projectId },
-      select: { userId: true, organizationId: true },
+      select: { id: true, userId: true, organizationId: true },
     })
     if (!project) throw new GraphQLError('Project not found')
     assertProjectAccess(context, project)
@@ -90,19 +95,23 @@ export const serviceConnectivityQueries = {
 
 // ── Mutations ────────────────────────────────────────────────────────
 
+/**
+ * Load a service the caller may act on. Org projects also need the given
+ * permission for the caller's role; personal projects only their owner.
+ */
 async function verifyServiceOwnership(
-  prisma: any,
+  context: Context,
   serviceId: string,
-  userId: string
+  permission: OrgPermission
 ): Promise<any> {
-  const service = await prisma.service.findUnique({
+  const service = await context.prisma.service.findUnique({
     where: { id: serviceId },
     include: { project: true },
   })
   if (!service) throw new GraphQLError('Service not found')
-  if (service.project.userId !== userId) {
-    throw new GraphQLError('Not authorized')
-  }
+  await assertProjectPermission(context, service.project, permission, {
+    serviceId,
+  })
   return service
 }
 
@@ -114,16 +123,44 @@ export const serviceConnectivityMutations = {
       key,
       value,
       secret,
-    }: { serviceId: string; key: string; value: string; secret?: boolean },
+      buildTime,
+    }: {
+      serviceId: string
+      key: string
+      value: string
+      secret?: boolean
+      buildTime?: boolean
+    },
     context: Context
   ) => {
     if (!context.userId) throw new GraphQLError('Not authenticated')
-    await verifyServiceOwnership(context.prisma, serviceId, context.userId)
+    const service = await verifyServiceOwnership(context, serviceId, 'deploy')
 
+    // `buildTime` is left alone when omitted so older clients editing a
+    // value don't silently drop it from the build.
     const envVar = await context.prisma.serviceEnvVar.upsert({
       where: { serviceId_key: { serviceId, key } },
-      create: { serviceId, key, value, secret: secret ?? false },
-      update: { value, secret: secret ?? false },
+      create: {
+        serviceId,
+        key,
+        value,
+        secret: secret ?? false,
+        buildTime: buildTime ?? false,
+      },
+      update: {
+        value,
+        secret: secret ?? false,
+        ...(typeof buildTime === 'boolean' && { buildTime }),
+      },
+    })
+    audit(context.prisma, {
+      category: 'deployment',
+      action: 'service.env.updated',
+      userId: context.userId,
+      orgId: service.project.organizationId ?? null,
+      projectId: service.projectId,
+      serviceId: service.id,
+      payload: { keys: [key] },
     })
     return {
       ...envVar,
@@ -137,11 +174,20 @@ export const serviceConnectivityMutations = {
     context: Context
   ) => {
     if (!context.userId) throw new GraphQLError('Not authenticated')
-    await verifyServiceOwnership(context.prisma, serviceId, context.userId)
+    const service = await verifyServiceOwnership(context, serviceId, 'deploy')
 
     await context.prisma.serviceEnvVar.delete({
       where: { serviceId_key: { serviceId, key } },
     })
+    audit(context.prisma, {
+      category: 'deployment',
+      action: 'service.env.deleted',
+      userId: context.userId,
+      orgId: service.project.organizationId ?? null,
+      projectId: service.projectId,
+      serviceId: service.id,
+      payload: { keys: [key] },
+    })
     return true
   },
 
@@ -160,9 +206,9 @@ export const serviceConnectivityMutations = {
   ) => {
     if (!context.userId) throw new GraphQLError('Not authenticated')
     const service = await verifyServiceOwnership(
-      context.prisma,
+      context,
       serviceId,
-      context.userId
+      'env.reveal'
     )
 
     const envVar = await context.prisma.serviceEnvVar.findUnique({
@@ -193,12 +239,17 @@ export const serviceConnectivityMutations = {
       vars,
     }: {
       serviceId: string
-      vars: Array<{ key: string; value: string; secret?: boolean }>
+      vars: Array<{
+        key: string
+        value: string
+        secret?: boolean
+        buildTime?: boolean
+      }>
     },
     context: Context
   ) => {
     if (!context.userId) throw new GraphQLError('Not authenticated')
-    await verifyServiceOwnership(context.prisma, serviceId, context.userId)
+    const service = await verifyServiceOwnership(context, serviceId, 'deploy')
 
     const results = await context.prisma.$transaction(
       vars.map((v) =>
@@ -209,11 +260,26 @@ export const serviceConnectivityMutations = {
             key: v.key,
             value: v.value,
             secret: v.secret ?? false,
+            buildTime: v.buildTime ?? false,
+          },
+          update: {
+            value: v.value,
+            secret: v.secret ?? false,
+            ...(typeof v.buildTime === 'boolean' && { buildTime: v.buildTime }),
           },
-          update: { value: v.value, secret: v.secret ?? false },
         })
       )
     )
+    audit(context.prisma, {
+      category: 'deployment',
+      action: 'service.env.updated',
+      userId: context.userId,
+      orgId: service.project.organizationId ?? null,
+      projectId: service.projectId,
+      serviceId: service.id,
+      // Keys only — values (secret or not) never leave the service.
+      payload: { keys: vars.map(v => v.key) },
+    })
     return results.map((r: any) => ({
       ...r,
       value: r.secret ? '••••••••' : r.value,
@@ -236,7 +302,7 @@ export const serviceConnectivityMutations = {
     context: Context
   ) => {
     if (!context.userId) throw new GraphQLError('Not authenticated')
-    await verifyServiceOwnership(context.prisma, serviceId, context.userId)
+    await verifyServiceOwnership(context, serviceId, 'deploy')
 
     return context.prisma.servicePort.upsert({
       where: { serviceId_containerPort: { serviceId, containerPort } },
@@ -259,7 +325,7 @@ export const serviceConnectivityMutations = {
     context: Context
   ) => {
     if (!context.userId) throw new GraphQLError('Not authenticated')
-    await verifyServiceOwnership(context.prisma, serviceId, context.userId)
+    await verifyServiceOwnership(context, serviceId, 'deploy')
 
     await context.prisma.servicePort.delete({
       where: { serviceId_containerPort: { serviceId, containerPort } },
@@ -279,9 +345,9 @@ export const serviceConnectivityMutations = {
     if (!context.userId) throw new GraphQLError('Not authenticated')
 
     const source = await verifyServiceOwnership(
-      context.prisma,
+      context,
       sourceServiceId,
-      context.userId
+      'deploy'
     )
     const target = await context.prisma.service.findUnique({
       where: { id: targetServiceId },
@@ -360,7 +426,7 @@ export const serviceConnectivityMutations = {
     context: Context
   ) => {
     if (!context.userId) throw new GraphQLError('Not authenticated')
-    await verifyServiceOwnership(context.prisma, sourceServiceId, context.userId)
+    await verifyServiceOwnership(context, sourceServiceId, 'deploy')
 
     // Also remove any env vars that were auto-generated from this link
     await context.prisma.serviceEnvVar.deleteMany({
@@ -0,0 +1,159 @@
+/**
+ * Shell recording settings and playback.
+ *
+ * Owners and admins (`org.manage`) turn recording on for their org and
+ * are the only ones who can list or open recordings. Opening one returns
+ * the decrypted asciicast and leaves a `shell.recording_viewed` audit
+ * event, so access to recorded sessions is itself on the record.
+ */
+
+import { GraphQLError } from 'graphql'
+import type { ShellRecording } from '@prisma/client'
+import type { Context } from './types.js'
+import { requireAuth, assertOrgPermission } from '../utils/authorization.js'
+import { audit } from '../lib/audit.js'
+import { openSecret } from '../lib/vault.js'
+import {
+  MAX_RETENTION_DAYS,
+  MIN_RETENTION_DAYS,
+  isValidRetentionDays,
+  loadShellRecordingPolicy,
+} from '../services/shell/shellRecording.js'
+import { assertOrgMembership } from './github.js'
+
+const DEFAULT_RECORDING_LIMIT = 50
+const MAX_RECORDING_LIMIT = 200
+
+/** The cast is only returned by `shellRecording`. */
+function toRecording(recording: ShellRecording, asciicast: string | null) {
+  return {
+    ...recording,
+    sealedCast: null,
+    durationMs: recording.endedAt.getTime() - recording.startedAt.getTime(),
+    asciicast,
+  }
+}
+
+export const shellRecordingQueries = {
+  shellRecordingSettings: async (
+    _: unknown,
+    args: { orgId: string },
+    context: Context
+  ) => {
+    await assertOrgMembership(context, args.orgId)
+    return loadShellRecordingPolicy(context.prisma, args.orgId)
+  },
+
+  shellRecordings: async (
+    _: unknown,
+    args: {
+      orgId: string
+      serviceId?: string | null
+      userId?: string | null
+      limit?: number | null
+    },
+    context: Context
+  ) => {
+    await assertOrgPermission(context, args.orgId, 'org.manage', {
+      operation: 'shellRecordings',
+    })
+    const limit = Math.min(
+      Math.max(args.limit ?? DEFAULT_RECORDING_LIMIT, 1),
+      MAX_RECORDING_LIMIT
+    )
+    const recordings = await context.prisma.shellRecording.findMany({
+      where: {
+        organizationId: args.orgId,
+        ...(args.serviceId ? { serviceId: args.serviceId } : {}),
+        ...(args.userId ? { userId: args.userId } : {}),
+      },
+      orderBy: { startedAt: 'desc' },
+      take: limit,
+    })
+    return recordings.map(recording => toRecording(recording, null))
+  },
+
+  shellRecording: async (
+    _: unknown,
+    args: { id: string },
+    context: Context
+  ) => {
+    const userId = requireAuth(context)
+    const recording = await context.prisma.shellRecording.findUnique({
+      where: { id: args.id },
+    })
+    if (!recording) throw new GraphQLError('Shell recording not found')
+    await assertOrgPermission(context, recording.organizationId, 'org.manage', {
+      operation: 'shellRecording',
+      serviceId: recording.serviceId,
+    })
+    audit(context.prisma, {
+      category: 'user',
+      action: 'shell.recording_viewed',
+      userId,
+      orgId: recording.organizationId,
+      projectId: recording.projectId,
+      serviceId: recording.serviceId,
+      payload: {
+        recordingId: recording.id,
+        sessionId: recording.sessionId,
+        recordedUserId: recording.userId,
+      },
+    })
+    return toRecording(
+      recording,
+      openSecret('shell-recording', recording.sealedCast)
+    )
+  },
+}
+
+export const shellRecordingMutations = {
+  updateShellRecordingSettings: async (
+    _: unknown,
+    args: {
+      orgId: string
+      input: { enabled?: boolean | null; retentionDays?: number | null }
+    },
+    context: Context
+  ) => {
+    const userId = requireAuth(context)
+    const { orgId, input } = args
+    await assertOrgPermission(context, orgId, 'org.manage', {
+      operation: 'updateShellRecordingSettings',
+    })
+    if (
+      input.retentionDays !== null &&
+      input.retentionDays !== undefined &&
+      !isValidRetentionDays(input.retentionDays)
+    ) {
+      throw new GraphQLError(
+        `retentionDays must be a whole number from ${MIN_RETENTION_DAYS} to ${MAX_RETENTION_DAYS}`,
+        { extensions: { code: 'BAD_USER_INPUT' } }
+      )
+    }
+
+    const fields = {
+      ...(typeof input.enabled === 'boolean' ? { enabled: input.enabled } : {}),
+      ...(typeof input.retentionDays === 'number'
+        ? { retentionDays: input.retentionDays }
+        : {}),
+      updatedByUserId: userId,
+    }
+    const settings = await context.prisma.shellRecordingSettings.upsert({
+      where: { organizationId: orgId },
+      create: { organizationId: orgId, ...fields },
+      update: fields,
+    })
+    audit(context.prisma, {
+      category: 'user',
+      action: 'shell.recording_settings_updated',
+      userId,
+      orgId,
+      payload: {
+        enabled: settings.enabled,
+        retentionDays: settings.retentionDays,
+      },
+    })
+    return { enabled: settings.enabled, retentionDays: settings.retentionDays }
+  },
+}
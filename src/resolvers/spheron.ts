@@ -38,6 +38,7 @@ import {
   checkTimeLimitedDeployBalance,
 } from './balanceCheck.js'
 import { assertLaunchAllowed } from './launchGuards.js'
+import { assertDeployApproved } from './deployApprovalGuard.js'
 import { validatePolicyInput } from '../services/policy/validator.js'
 import type { DeploymentPolicyInput } from '../services/policy/types.js'
 import {
@@ -47,7 +48,11 @@ import {
   getEnvKeysFromTemplate,
 } from '../templates/index.js'
 import type { Context } from './types.js'
-import { requireAuth, assertProjectAccess } from '../utils/authorization.js'
+import {
+  requireAuth,
+  assertProjectAccess,
+  assertServiceAccess,
+} from '../utils/authorization.js'
 import { createLogger } from '../lib/logger.js'
 import { audit } from '../lib/audit.js'
 import { resolveSpheronActiveSince } from '../lib/leaseChain.js'
@@ -71,7 +76,7 @@ export const spheronQueries = {
       include: { service: { include: { project: true } }, site: true, afFunction: true },
     })
     if (!deployment) throw new GraphQLError('Spheron deployment not found')
-    assertProjectAccess(context, deployment.service.project)
+    assertServiceAccess(context, deployment.service)
     return deployment
   },
 
@@ -88,7 +93,7 @@ export const spheronQueries = {
         include: { project: true },
       })
       if (!service?.project) throw new GraphQLError('Service or project not found')
-      assertProjectAccess(context, service.project)
+      assertServiceAccess(context, service)
     }
     if (projectId) {
       const project = await context.prisma.project.findUnique({ where: { id: projectId } })
@@ -118,7 +123,7 @@ export const spheronQueries = {
       include: { project: true },
     })
     if (!service?.project) throw new GraphQLError('Service or project not found')
-    assertProjectAccess(context, service.project)
+    assertServiceAccess(context, service)
 
     return context.prisma.spheronDeployment.findFirst({
       where: { serviceId, status: { in: ['CREATING', 'STARTING', 'ACTIVE'] } },
@@ -333,7 +338,7 @@ export const spheronMutations = {
       },
     })
     if (!service) throw new GraphQLError('Service not found')
-    assertProjectAccess(context, service.project, 'Not authorized to deploy this service')
+    assertServiceAccess(context, service, 'Not authorized to deploy this service')
 
     // ── Service-type guard ───────────────────────────────────────────
     // Spheron currently supports VM / SITE / DATABASE / CRON via raw
@@ -542,6 +547,16 @@ export const spheronMutations = {
       hourlyRateCents * 24,
     )
 
+    await assertDeployApproved(context, {
+      operation: 'deployToSpheron',
+      args: { input },
+      provider: 'spheron',
+      project: service.project,
+      serviceId: service.id,
+      hourlyCostCents: hourlyRateCents,
+      gpuUnits: picked.offer.gpuCount,
+    })
+
     // ── Time-limited reservation (if policy specifies runtimeMinutes) ──
     let reservedCents = 0
     if (input.policy?.runtimeMinutes && input.policy.runtimeMinutes > 0) {
@@ -580,6 +595,10 @@ export const spheronMutations = {
           maxBudgetUsd: input.policy.maxBudgetUsd ?? null,
           maxMonthlyUsd: input.policy.maxMonthlyUsd ?? null,
           runtimeMinutes: input.policy.runtimeMinutes ?? null,
+          minReplicas: input.policy.minReplicas ?? null,
+          maxReplicas: input.policy.maxReplicas ?? null,
+          targetP95LatencyMs: input.policy.targetP95LatencyMs ?? null,
+          targetRequestsPerSecond: input.policy.targetRequestsPerSecond ?? null,
           expiresAt: input.policy.runtimeMinutes
             ? new Date(Date.now() + input.policy.runtimeMinutes * 60_000)
             : null,
@@ -747,7 +766,7 @@ export const spheronMutations = {
       include: { service: { include: { project: true } } },
     })
     if (!deployment) throw new GraphQLError('Spheron deployment not found')
-    assertProjectAccess(context, deployment.service.project, 'Not authorized to delete this deployment')
+    assertServiceAccess(context, deployment.service, 'Not authorized to delete this deployment')
 
     const deletedAt = new Date()
 
@@ -45,6 +45,7 @@ import { resolvePhalaInstanceType } from '../services/phala/instanceTypes.js'
 import { validatePolicyInput } from '../services/policy/validator.js'
 import type { DeploymentPolicyInput } from '../services/policy/types.js'
 import { assertProjectAccess } from '../utils/authorization.js'
+import { assertDeployApproved } from './deployApprovalGuard.js'
 
 const log = createLogger('resolver-templates')
 
@@ -379,6 +380,14 @@ export const templateMutations = {
       throw new GraphQLError('Project not found')
     }
     assertProjectAccess(context, project, 'Not authorized to deploy to this project')
+    await assertDeployApproved(context, {
+      operation: 'deployFromTemplate',
+      args: { input },
+      provider: 'akash',
+      project,
+      hourlyCostCents: estimatedCost / 24,
+      gpuUnits,
+    })
 
     const serviceName =
       input.serviceName || defaultServiceNameForTemplate(template)
@@ -469,6 +478,10 @@ export const templateMutations = {
           maxBudgetUsd: input.policy.maxBudgetUsd ?? null,
           maxMonthlyUsd: input.policy.maxMonthlyUsd ?? null,
           runtimeMinutes: input.policy.runtimeMinutes ?? null,
+          minReplicas: input.policy.minReplicas ?? null,
+          maxReplicas: input.policy.maxReplicas ?? null,
+          targetP95LatencyMs: input.policy.targetP95LatencyMs ?? null,
+          targetRequestsPerSecond: input.policy.targetRequestsPerSecond ?? null,
           expiresAt: input.policy.runtimeMinutes
             ? new Date(Date.now() + input.policy.runtimeMinutes * 60_000)
             : null,
@@ -557,6 +570,28 @@ export const templateMutations = {
     if (!project) throw new GraphQLError('Project not found')
     assertProjectAccess(context, project, 'Not authorized to deploy to this project')
 
+    // ── Size the instance before creating anything ───────────
+    const resourceOverrides = normalizeResourceOverrides(
+      input.resourceOverrides
+    )
+    const phalaResources = resolveTemplateResources(
+      template.resources,
+      resourceOverrides
+    )
+    const phalaInstance = await resolvePhalaInstanceType(
+      phalaResources,
+      input.policy?.acceptableGpuModels,
+      input.policy?.gpuUnits
+    )
+    await assertDeployApproved(context, {
+      operation: 'deployFromTemplateToPhala',
+      args: { input },
+      provider: 'phala',
+      project,
+      hourlyCostCents: Math.ceil(phalaInstance.hourlyRateUsd * 100),
+      gpuUnits: input.policy?.gpuUnits ?? phalaResources.gpu?.units ?? 0,
+    })
+
     const serviceName =
       input.serviceName || defaultServiceNameForTemplate(template)
     const slug = generateSlug(serviceName)
@@ -623,10 +658,6 @@ export const templateMutations = {
       )
     }
 
-    const resourceOverrides = normalizeResourceOverrides(
-      input.resourceOverrides
-    )
-
     // ── Validate and create deployment policy ────────────────
     let policyId: string | undefined
     if (input.policy) {
@@ -642,6 +673,10 @@ export const templateMutations = {
           maxBudgetUsd: input.policy.maxBudgetUsd ?? null,
           maxMonthlyUsd: input.policy.maxMonthlyUsd ?? null,
           runtimeMinutes: input.policy.runtimeMinutes ?? null,
+          minReplicas: input.policy.minReplicas ?? null,
+          maxReplicas: input.policy.maxReplicas ?? null,
+          targetP95LatencyMs: input.policy.targetP95LatencyMs ?? null,
+          targetRequestsPerSecond: input.policy.targetRequestsPerSecond ?? null,
           expiresAt: input.policy.runtimeMinutes
             ? new Date(Date.now() + input.policy.runtimeMinutes * 60_000)
             : null,
@@ -650,16 +685,6 @@ export const templateMutations = {
       policyId = policyRecord.id
     }
 
-    const phalaResources = resolveTemplateResources(
-      template.resources,
-      resourceOverrides
-    )
-    const phalaInstance = await resolvePhalaInstanceType(
-      phalaResources,
-      input.policy?.acceptableGpuModels,
-      input.policy?.gpuUnits
-    )
-
     const estimatedDailyCostCents = Math.max(
       BILLING_CONFIG.phala.minBalanceCentsToLaunch,
       Math.ceil(phalaInstance.hourlyRateUsd * 24 * 100)
@@ -855,6 +880,14 @@ export const templateMutations = {
     await assertDeployBalance(context.organizationId, 'spheron', context.prisma, {
       dailyCostCents: estimatedDailyCostCents,
     })
+    await assertDeployApproved(context, {
+      operation: 'deployFromTemplateToSpheron',
+      args: { input },
+      provider: 'spheron',
+      project,
+      hourlyCostCents: hourlyRateCents,
+      gpuUnits: picked.offer.gpuCount,
+    })
 
     // ── Now create the Service + ports + envVars (mirror Phala flow) ─
     const service = await context.prisma.service.create({
@@ -913,6 +946,10 @@ export const templateMutations = {
           maxBudgetUsd: input.policy.maxBudgetUsd ?? null,
           maxMonthlyUsd: input.policy.maxMonthlyUsd ?? null,
           runtimeMinutes: input.policy.runtimeMinutes ?? null,
+          minReplicas: input.policy.minReplicas ?? null,
+          maxReplicas: input.policy.maxReplicas ?? null,
+          targetP95LatencyMs: input.policy.targetP95LatencyMs ?? null,
+          targetRequestsPerSecond: input.policy.targetRequestsPerSecond ?? null,
           expiresAt: input.policy.runtimeMinutes
             ? new Date(Date.now() + input.policy.runtimeMinutes * 60_000)
             : null,
@@ -1065,16 +1102,13 @@ export const templateMutations = {
     context: Context
   ) => {
     await assertSubscriptionActive(context.organizationId)
-    {
-      const hasGpu = !!(input.resourceOverrides?.gpu?.units || input.policy?.gpuUnits)
-      const gpuUnits = input.resourceOverrides?.gpu?.units ?? input.policy?.gpuUnits ?? 0
-      const compositeCost = hasGpu
-        ? BILLING_CONFIG.thresholds.failClosedAboveCentsPerDay * gpuUnits
-        : BILLING_CONFIG.akash.minBalanceCentsToLaunch
-      await assertDeployBalance(context.organizationId, 'akash', context.prisma, {
-        dailyCostCents: compositeCost,
-      })
-    }
+    const compositeGpuUnits = input.resourceOverrides?.gpu?.units ?? input.policy?.gpuUnits ?? 0
+    const compositeCost = compositeGpuUnits > 0
+      ? BILLING_CONFIG.thresholds.failClosedAboveCentsPerDay * compositeGpuUnits
+      : BILLING_CONFIG.akash.minBalanceCentsToLaunch
+    await assertDeployBalance(context.organizationId, 'akash', context.prisma, {
+      dailyCostCents: compositeCost,
+    })
     if (!context.userId) throw new GraphQLError('Not authenticated')
 
     // ── Validate policy input if provided ────────────────────
@@ -1151,6 +1185,15 @@ export const templateMutations = {
     })
     if (!project) throw new GraphQLError('Project not found')
     assertProjectAccess(context, project, 'Not authorized to deploy to this project')
+    await assertDeployApproved(context, {
+      operation: 'deployCompositeTemplate',
+      args: { input },
+      provider: targets.some(t => t.provider === 'akash') ? 'akash' : 'phala',
+      project,
+      serviceId: input.primaryServiceId ?? null,
+      hourlyCostCents: compositeCost / 24,
+      gpuUnits: compositeGpuUnits,
+    })
 
     const existingPrimaryService = input.primaryServiceId
       ? await context.prisma.service.findUnique({
@@ -1446,6 +1489,10 @@ export const templateMutations = {
           maxBudgetUsd: input.policy.maxBudgetUsd ?? null,
           maxMonthlyUsd: input.policy.maxMonthlyUsd ?? null,
           runtimeMinutes: input.policy.runtimeMinutes ?? null,
+          minReplicas: input.policy.minReplicas ?? null,
+          maxReplicas: input.policy.maxReplicas ?? null,
+          targetP95LatencyMs: input.policy.targetP95LatencyMs ?? null,
+          targetRequestsPerSecond: input.policy.targetRequestsPerSecond ?? null,
           expiresAt: input.policy.runtimeMinutes
             ? new Date(Date.now() + input.policy.runtimeMinutes * 60_000)
             : null,
@@ -4,10 +4,12 @@
 
 import type { YogaInitialContext } from 'graphql-yoga'
 import type { PrismaClient } from '@prisma/client'
+import type { TokenRestriction } from '../services/auth/tokenScopes.js'
 
 export interface Context extends YogaInitialContext {
   prisma: PrismaClient
   userId?: string
   organizationId?: string
   projectId?: string
+  tokenScope?: TokenRestriction
 }
@@ -28,6 +28,17 @@ export const typeDefs = /* GraphQL */ `
     name: String!
     # SDK compatibility field
     maskedToken: String
+    """
+    Scopes the token is limited to (e.g. deploy:write, logs:read), or null
+    for a token with the full access of its owner
+    """
+    scopes: [String!]
+    """
+    Projects and services the token is bound to; both empty when it can
+    reach everything its owner can
+    """
+    projectIds: [ID!]!
+    serviceIds: [ID!]!
     expiresAt: Date
     lastUsedAt: Date
     createdAt: Date!
@@ -49,6 +60,9 @@ export const typeDefs = /* GraphQL */ `
     id: ID!
     name: String!
     token: String!
+    scopes: [String!]
+    projectIds: [ID!]!
+    serviceIds: [ID!]!
     expiresAt: Date
     lastUsedAt: Date
     createdAt: Date!
@@ -109,8 +123,8 @@ export const typeDefs = /* GraphQL */ `
     projectId: ID!
     """
     Create-time discriminator describing the catalog flow that produced
-    this service. One of 'docker' | 'server' | 'function' | 'template'.
-    Null on legacy rows; the web app falls through to 'docker' for VM
+    this service. One of 'docker' | 'server' | 'function' | 'template' |
+    'github' | 'gitlab' | 'bitbucket'. Null on legacy rows; the web app falls through to 'docker' for VM
     rows and 'function' for FUNCTION rows. Immutable after creation.
     """
     flavor: String
@@ -137,9 +151,13 @@ export const typeDefs = /* GraphQL */ `
     """
     Optional health-aware auto-failover policy. Shape:
     JSON object with enabled (boolean), maxAttempts (default 3, clamped 1-10),
-    and windowHours (default 24, clamped 1-720). When enabled, the sweeper
+    windowHours (default 24, clamped 1-720) and fallbackProviders (ordered
+    list of "spheron" / "phala", default empty). When enabled, the sweeper
     redeploys to a different provider on provider-side failures rather than
-    plain-closing the deployment. Refused for services with persistent
+    plain-closing the deployment. Once one Akash-to-Akash failover has been
+    spent in the window, or a failover replacement cannot be placed on
+    Akash at all, the next attempt goes to the first fallback provider that
+    fits (Spheron is GPU-only). Refused for services with persistent
     volumes (data-loss risk) and for application-side failures.
     """
     failoverPolicy: JSON
@@ -148,11 +166,34 @@ export const typeDefs = /* GraphQL */ `
     Null when no failover has ever fired for this service.
     """
     failoverHistory: FailoverHistory
+    """
+    Optional recurring run window. Shape: JSON object with enabled
+    (boolean), stopCron and startCron (5-field cron expressions) and
+    timezone (IANA name, default "UTC"). At each stopCron edge the live
+    deployments are paused with stop reason SCHEDULED_STOP; at each
+    startCron edge they are redeployed, subject to the usual balance check.
+    """
+    runSchedule: JSON
+    """
+    Optional pull-request preview policy for GitHub-connected services.
+    Shape: JSON object with enabled (boolean) and ttlHours (default 72).
+    When enabled, each same-repo PR against gitBranch gets its own copy of
+    the service at {slug}-pr-{number}-app, closed when the PR closes or
+    after ttlHours without a push.
+    """
+    previewPolicy: JSON
     internalHostname: String
     createdByUserId: ID
     parentServiceId: ID
     sdlServiceName: String
     shutdownPriority: Int!
+    """
+    Replica count. Emitted as the Akash SDL count; when above 1 the subdomain
+    proxy also load-balances across every ACTIVE deployment of the service
+    (e.g. several Phala/Spheron instances), skipping backends the health
+    probe marks unhealthy.
+    """
+    replicas: Int!
     createdAt: Date!
     updatedAt: Date!
 
@@ -188,6 +229,10 @@ export const typeDefs = /* GraphQL */ `
     value: String!
     secret: Boolean!
     source: String
+    """
+    Also passed to git builds: as Docker build args for the dockerfile strategy, as build-step environment otherwise.
+    """
+    buildTime: Boolean!
     createdAt: Date!
     updatedAt: Date!
   }
@@ -243,12 +288,20 @@ export const typeDefs = /* GraphQL */ `
 
   """
   One entry in the failover chain for a service. Newest first. Each attempt
-  corresponds to one AkashDeployment row spawned by the sweeper after the
-  previous attempt was declared dead.
+  corresponds to one deployment row spawned by the sweeper after the
+  previous attempt was declared dead — an AkashDeployment, or a Phala /
+  Spheron deployment when the failover went cross-provider.
   """
   type FailoverAttempt {
     deploymentId: ID!
     parentDeploymentId: ID
+    """
+    akash, phala or spheron.
+    """
+    computeProvider: String!
+    """
+    Akash provider address; null for cross-provider attempts.
+    """
     provider: String
     excludedProviders: [String!]!
     status: String!
@@ -266,6 +319,7 @@ export const typeDefs = /* GraphQL */ `
     attemptsInWindow: Int!
     maxAttempts: Int!
     windowHours: Int!
+    fallbackProviders: [String!]!
     chain: [FailoverAttempt!]!
   }
 
@@ -288,6 +342,10 @@ export const typeDefs = /* GraphQL */ `
     key: String!
     value: String!
     secret: Boolean
+    """
+    Left unchanged on existing vars when omitted.
+    """
+    buildTime: Boolean
   }
 
   input ServicePortInput {
@@ -439,8 +497,8 @@ export const typeDefs = /* GraphQL */ `
     type: ServiceType
     templateId: String
     """
-    Catalog flow discriminator. One of 'docker' | 'server' | 'function' | 'template'.
-    Validated server-side; rejected if any other value. Immutable post-creation.
+    Catalog flow discriminator. One of 'docker' | 'server' | 'function' | 'template'
+    | 'github' | 'gitlab' | 'bitbucket'. Validated server-side; rejected if any other value. Immutable post-creation.
     """
     flavor: String
     dockerImage: String
@@ -481,11 +539,41 @@ export const typeDefs = /* GraphQL */ `
     Optional health-aware auto-failover policy. Pass null to remove the
     policy; pass an object to set/replace it. Required key:
     enabled (boolean). Optional keys: maxAttempts (default 3, clamped 1-10),
-    windowHours (default 24, clamped 1-720). Refused on services with
+    windowHours (default 24, clamped 1-720), fallbackProviders (ordered,
+    distinct values from "spheron" / "phala"). Refused on services with
     persistent volumes — that combination would silently lose data on a
     failover event.
     """
     failoverPolicy: JSON
+    """
+    Optional recurring run window. Pass null to remove it; pass an object
+    to set/replace it. Required keys: enabled (boolean), stopCron and
+    startCron (distinct 5-field numeric cron expressions). Optional key:
+    timezone (IANA name, default "UTC"). Refused on services with
+    persistent volumes — a scheduled stop closes the lease and its volume.
+    """
+    runSchedule: JSON
+    """
+    Optional pull-request preview policy. Pass null to remove it; pass an
+    object to set/replace it. Required key: enabled (boolean). Optional
+    key: ttlHours (default 72, 1-720). Only GitHub-connected services can
+    enable it, and not on a preview copy itself.
+    """
+    previewPolicy: JSON
+    """
+    Build strategy for git services, applied from the next build. Pass null
+    to reset to auto-detection. Required key: type ("auto", "dockerfile",
+    "buildpack" or "static"). Optional keys: dockerfilePath (dockerfile;
+    relative to rootDirectory, default "Dockerfile") and outputDirectory
+    (static; detected when omitted). Build args come from env vars marked
+    buildTime.
+    """
+    buildStrategy: JSON
+    """
+    Replica count, 1-10. Refused above 1 on services with persistent
+    volumes, since every Akash replica gets its own volume.
+    """
+    replicas: Int
   }
 
   """
@@ -577,6 +665,10 @@ export const typeDefs = /* GraphQL */ `
     gpuUnits: Int                 # deployed GPU count from SDL
     retryCount: Int!
     parentDeploymentId: String
+    # Blue-green: the ACTIVE deployment this row replaces on cutover
+    cutoverFromId: String
+    # Set when this row replays an earlier deployment (rollbackService)
+    rollbackOfId: String
     costPerHour: Float
     costPerDay: Float
     costPerMonth: Float
@@ -670,6 +762,10 @@ export const typeDefs = /* GraphQL */ `
 
     retryCount: Int!
     parentDeploymentId: String
+    """
+    Set when this row replays an earlier deployment (rollbackService).
+    """
+    rollbackOfId: String
     costPerHour: Float
     costPerDay: Float
     costPerMonth: Float
@@ -763,6 +859,10 @@ export const typeDefs = /* GraphQL */ `
     parentDeploymentId: String
     """Set when this row was spawned from a STOPPED row by resumeHandler."""
     resumedFromId: String
+    """
+    Set when this row replays an earlier deployment (rollbackService).
+    """
+    rollbackOfId: String
     policy: DeploymentPolicy
 
     createdAt: Date!
@@ -952,6 +1052,20 @@ export const typeDefs = /* GraphQL */ `
     # If no bids arrive, the deployment goes to AWAITING_REGION_RESPONSE
     # (not FAILED) so the UI/CLI can surface alternatives without losing the row.
     region: String
+    # Redeploy strategy when the service already has an ACTIVE deployment.
+    # Default RECREATE. BLUE_GREEN requires a healthProbe and no volumes.
+    strategy: AkashDeployStrategy
+  }
+
+  """
+  RECREATE closes the current lease before bidding for a new one.
+  BLUE_GREEN brings the new lease up alongside the current one and flips
+  traffic only after the new lease passes the service's health probe; a
+  failed cutover leaves the current lease serving.
+  """
+  enum AkashDeployStrategy {
+    RECREATE
+    BLUE_GREEN
   }
 
   """
@@ -1800,12 +1914,88 @@ export const typeDefs = /* GraphQL */ `
     p99DurationMs: Float!
   }
 
+  input LogSearchInput {
+    projectId: ID!
+    """
+    Terms that must all match: free text, "a phrase", severity>=warn,
+    service:api, trace:<id>, body~<RE2>, attr.<key>>=500,
+    resource.<key>:web-*, since:15m, until:<ISO time>. A leading - negates
+    a term.
+    """
+    query: String
+    """
+    Used when the query has no since:/until:; defaults to the last hour.
+    """
+    startTime: Date
+    endTime: Date
+    limit: Int
+    """
+    nextCursor from the previous page.
+    """
+    cursor: String
+  }
+
+  type LogSearchResult {
+    entries: [LogEntry!]!
+    """
+    Null on the last page.
+    """
+    nextCursor: String
+    """
+    The range searched, after resolving since:/until: and defaults.
+    """
+    startTime: Date!
+    endTime: Date!
+  }
+
+  type ServiceGraph {
+    nodes: [ServiceGraphNode!]!
+    edges: [ServiceGraphEdge!]!
+  }
+
+  type ServiceGraphNode {
+    """
+    The OTel service name, or the platform service's name if it reports no spans.
+    """
+    name: String!
+    """
+    The platform service this name matched (by slug, SDL name or name).
+    """
+    serviceId: ID
+  }
+
+  type ServiceGraphEdge {
+    caller: String!
+    callee: String!
+    callerServiceId: ID
+    calleeServiceId: ID
+    requestCount: Int!
+    errorCount: Int!
+    errorRate: Float!
+    p50DurationMs: Float
+    p95DurationMs: Float
+    """
+    A ServiceLink exists from caller to callee.
+    """
+    declared: Boolean!
+    """
+    Traffic was seen in the window.
+    """
+    observed: Boolean!
+    serviceLinkId: ID
+  }
+
   type ObservabilitySettings {
     id: ID!
     projectId: String!
     tracesEnabled: Boolean!
     metricsEnabled: Boolean!
     logsEnabled: Boolean!
+    """
+    Container output of ACTIVE Akash and Spheron deployments is kept in the
+    log store, so logs and searchLogs cover it after the lease is gone.
+    """
+    containerLogsEnabled: Boolean!
     traceRetention: Int!
     metricRetention: Int!
     logRetention: Int!
@@ -1822,6 +2012,14 @@ export const typeDefs = /* GraphQL */ `
     spansCount: Int!
     metricsCount: Int!
     logsCount: Int!
+    """
+    Volume dropped at ingestion by the project's ObservabilitySettings
+    (disabled signals, sampling, maxBytesPerHour). Not billed.
+    """
+    bytesDropped: String!
+    spansDropped: Int!
+    metricsDropped: Int!
+    logsDropped: Int!
     costCents: Int!
     costFormatted: String!
     periodStart: Date!
@@ -1876,6 +2074,7 @@ export const typeDefs = /* GraphQL */ `
     tracesEnabled: Boolean
     metricsEnabled: Boolean
     logsEnabled: Boolean
+    containerLogsEnabled: Boolean
     traceRetention: Int
     metricRetention: Int
     logRetention: Int
@@ -1892,6 +2091,7 @@ export const typeDefs = /* GraphQL */ `
     RUNTIME_EXPIRED
     MANUAL_STOP
     BALANCE_LOW
+    SCHEDULED_STOP
   }
 
   type DeploymentPolicy {
@@ -1902,6 +2102,26 @@ export const typeDefs = /* GraphQL */ `
     maxBudgetUsd: Float
     maxMonthlyUsd: Float
     runtimeMinutes: Int
+    """
+    Autoscaling floor. Defaults to 1 when only maxReplicas is set.
+    """
+    minReplicas: Int
+    """
+    Autoscaling ceiling. Setting it turns on autoscaling for the service.
+    """
+    maxReplicas: Int
+    """
+    Scale out while trace p95 latency stays above this.
+    """
+    targetP95LatencyMs: Float
+    """
+    Scale to keep requests per second per replica at or below this.
+    """
+    targetRequestsPerSecond: Float
+    """
+    When the autoscaler last made a scale decision (starts its cooldown).
+    """
+    lastScaledAt: Date
     expiresAt: Date
     reservedCents: Int!
     stopReason: PolicyStopReason
@@ -1918,6 +2138,15 @@ export const typeDefs = /* GraphQL */ `
     maxBudgetUsd: Float
     maxMonthlyUsd: Float
     runtimeMinutes: Int
+    """
+    Autoscaling rules (1-10 replicas). maxReplicas plus at least one target
+    enables autoscaling; scale-outs never push the projected monthly cost
+    past maxMonthlyUsd.
+    """
+    minReplicas: Int
+    maxReplicas: Int
+    targetP95LatencyMs: Float
+    targetRequestsPerSecond: Float
   }
 
   # ============================================
@@ -2231,7 +2460,13 @@ export const typeDefs = /* GraphQL */ `
     trace(projectId: ID!, traceId: String!): Trace
     metrics(input: MetricQueryInput!): [MetricSeries!]!
     logs(input: LogQueryInput!): [LogEntry!]!
+    searchLogs(input: LogSearchInput!): LogSearchResult!
     services(projectId: ID!, startTime: Date!, endTime: Date!): [ServiceStats!]!
+    serviceGraph(
+      projectId: ID!
+      startTime: Date!
+      endTime: Date!
+    ): ServiceGraph!
     observabilitySettings(projectId: ID!): ObservabilitySettings
     telemetryUsage(
       projectId: ID!
@@ -2288,9 +2523,19 @@ export const typeDefs = /* GraphQL */ `
     loginWithPersonalAccessToken(data: LoginWithPersonalAccessTokenDataInput!): String!
 
     # Auth
+    """
+    Create a personal access token. Without scopes the token has the full
+    access of its owner. With scopes (project:read, logs:read, deploy:write,
+    env:read, shell:open, policy:write, billing:write, org:admin) it is
+    limited to them, and optionally to the given projects and services.
+    Scoped tokens cannot manage tokens or other account settings.
+    """
     createPersonalAccessToken(
       name: String!
       expiresAt: Date
+      scopes: [String!]
+      projectIds: [ID!]
+      serviceIds: [ID!]
     ): PersonalAccessTokenCreated!
     deletePersonalAccessToken(id: ID!): Boolean!
 
@@ -2399,7 +2644,7 @@ export const typeDefs = /* GraphQL */ `
     deleteSpheronDeployment(id: ID!): SpheronDeployment!
 
     # Service Environment Variables
-    setServiceEnvVar(serviceId: ID!, key: String!, value: String!, secret: Boolean): ServiceEnvVar!
+    setServiceEnvVar(serviceId: ID!, key: String!, value: String!, secret: Boolean, buildTime: Boolean): ServiceEnvVar!
     deleteServiceEnvVar(serviceId: ID!, key: String!): Boolean!
     bulkSetServiceEnvVars(serviceId: ID!, vars: [EnvVarInput!]!): [ServiceEnvVar!]!
     # Returns the plaintext value of a single env var (including secrets).
@@ -2442,6 +2687,10 @@ export const typeDefs = /* GraphQL */ `
     SUCCEEDED
     FAILED
     CANCELED
+    """
+    The push didn't touch the service's watchPaths; no builder was spawned.
+    """
+    SKIPPED
   }
 
   type GithubInstallation {
@@ -2494,14 +2743,75 @@ export const typeDefs = /* GraphQL */ `
     startedAt: Date
     finishedAt: Date
     errorMessage: String
+    """
+    Registry cache tag the builder imported/exported (scope + lockfile hash).
+    """
+    cacheKey: String
+    """
+    True when cached layers were restored. Null when caching was off or not reported.
+    """
+    cacheHit: Boolean
+    """
+    Build time in milliseconds, as reported by the builder.
+    """
+    durationMs: Int
+    """
+    Strategy this build ran with, plus the keys of the build args it received ({ type, dockerfilePath?, outputDirectory?, buildArgKeys }). Null for builds that predate strategies.
+    """
+    buildStrategy: JSON
     createdAt: Date!
     updatedAt: Date!
   }
 
+  """
+  One batch of builder output, as streamed to /internal/build-logs.
+  """
+  type BuildLogChunk {
+    """
+    Batch number, increasing per build. Also the SSE event id on /sse/builds/:id/logs.
+    """
+    seq: Int!
+    lines: [String!]!
+    createdAt: Date!
+  }
+
+  enum PreviewEnvironmentStatus {
+    ACTIVE
+    CLOSED
+  }
+
+  """
+  An ephemeral copy of a service for one pull request. The copy is a
+  regular Service (previewService) built from the PR head.
+  """
+  type PreviewEnvironment {
+    id: ID!
+    prNumber: Int!
+    headBranch: String!
+    headSha: String!
+    status: PreviewEnvironmentStatus!
+    """
+    Public URL: https://{slug}-pr-{prNumber}-app.<base domain>.
+    """
+    url: String!
+    previewService: Service!
+    """
+    Last push to the PR; the idle TTL counts from here.
+    """
+    lastActivityAt: Date!
+    closedAt: Date
+    """
+    'pr_closed' | 'idle_ttl' | 'service_deleted' once CLOSED.
+    """
+    closeReason: String
+    createdAt: Date!
+  }
+
   input CreateGithubServiceEnvVarInput {
     key: String!
     value: String!
     secret: Boolean
+    buildTime: Boolean
   }
 
   input CreateGithubServiceInput {
@@ -2514,6 +2824,14 @@ export const typeDefs = /* GraphQL */ `
     branch: String
     """Monorepo subdir (defaults to '.')."""
     rootDirectory: String
+    """
+    Globs relative to the repo root; pushes that touch none of them are recorded as SKIPPED instead of building. Omit to build on every push.
+    """
+    watchPaths: [String!]
+    """
+    How the builder produces the image: { type: "auto" | "dockerfile" | "buildpack" | "static", dockerfilePath?, outputDirectory? }. Defaults to auto.
+    """
+    buildStrategy: JSON
     buildCommand: String
     startCommand: String
     """Display name; defaults to repo name."""
@@ -2536,6 +2854,8 @@ export const typeDefs = /* GraphQL */ `
     repo: String!
     branch: String
     rootDirectory: String
+    watchPaths: [String!]
+    buildStrategy: JSON
     buildCommand: String
     startCommand: String
   }
@@ -2550,6 +2870,115 @@ export const typeDefs = /* GraphQL */ `
     buildJob(id: ID!): BuildJob
     """List recent BuildJobs for a service, newest first. Logs blob omitted — fetch it via buildJob(id) on demand. Used by the Source-tab build-history list (polled every 3s while a build is in flight)."""
     serviceBuildJobs(serviceId: ID!, limit: Int): [BuildJob!]!
+    """
+    Streamed log history of a build, oldest batch first. Pass the last seen seq as afterSeq to page; limit defaults to 500 batches (max 1000). Live tail: /sse/builds/:id/logs.
+    """
+    buildLogs(buildJobId: ID!, afterSeq: Int, limit: Int): [BuildLogChunk!]!
+  }
+
+  # ============================================
+  # GITLAB / BITBUCKET CONNECTIONS
+  # ============================================
+
+  """
+  A GitLab (gitlab.com or self-hosted) or Bitbucket Cloud account connected
+  to an organization with an access token. The token and webhook secret are
+  stored sealed and never returned.
+  """
+  type GitConnection {
+    id: ID!
+    organizationId: ID!
+    """
+    'gitlab' | 'bitbucket'.
+    """
+    provider: String!
+    """
+    GitLab instance URL, or https://bitbucket.org.
+    """
+    baseUrl: String!
+    """
+    GitLab username, or the Bitbucket workspace slug.
+    """
+    accountLogin: String!
+    """
+    Endpoint the connected repos post push events to.
+    """
+    webhookUrl: String!
+    createdAt: Date!
+    updatedAt: Date!
+  }
+
+  input CreateGitConnectionInput {
+    """
+    Defaults to the caller's current organization.
+    """
+    orgId: ID
+    """
+    'gitlab' | 'bitbucket'.
+    """
+    provider: String!
+    """
+    Self-hosted GitLab URL (https only). Defaults to https://gitlab.com;
+    ignored for Bitbucket.
+    """
+    baseUrl: String
+    """
+    Bitbucket workspace slug. Required for Bitbucket, ignored for GitLab.
+    """
+    workspace: String
+    """
+    GitLab personal/group/project access token with api scope, or a
+    Bitbucket workspace access token with repository and webhook scopes.
+    """
+    accessToken: String!
+  }
+
+  """
+  Connect an existing (empty, gitlab- or bitbucket-flavor) Service to a
+  repo reachable through a GitConnection. Registers the push webhook on
+  the repo and starts the first build — the GitLab/Bitbucket counterpart
+  of connectGithubRepo.
+  """
+  input ConnectGitRepoInput {
+    serviceId: ID!
+    connectionId: ID!
+    """
+    GitLab namespace (group/subgroup path) or Bitbucket workspace.
+    """
+    owner: String!
+    repo: String!
+    """
+    Defaults to the repo's default branch when omitted.
+    """
+    branch: String
+    rootDirectory: String
+    watchPaths: [String!]
+    buildStrategy: JSON
+    buildCommand: String
+    startCommand: String
+  }
+
+  extend type Query {
+    gitConnections(orgId: ID): [GitConnection!]!
+    gitConnectionRepos(connectionId: ID!): [GithubRepoSummary!]!
+    gitConnectionBranches(
+      connectionId: ID!
+      owner: String!
+      repo: String!
+    ): [GithubBranchSummary!]!
+  }
+
+  extend type Mutation {
+    """
+    Validate the token against the provider and store the connection.
+    """
+    createGitConnection(input: CreateGitConnectionInput!): GitConnection!
+    """
+    Remove a connection. Services built through it keep running but can no
+    longer rebuild until reconnected.
+    """
+    deleteGitConnection(id: ID!): Boolean!
+    connectGitRepo(input: ConnectGitRepoInput!): Service!
   }
 
   # ============================================
@@ -2634,8 +3063,25 @@ export const typeDefs = /* GraphQL */ `
     uninstallGithubInstallation(installationId: ID!): Boolean!
     createGithubService(input: CreateGithubServiceInput!): Service!
     connectGithubRepo(input: ConnectGithubRepoInput!): Service!
-    """Trigger a new build. With no sha, builds the tip of the tracked branch (default behaviour, used by top-level Rebuild). With a sha (7-40 char hex commit SHA), rebuilds that exact commit — used by the per-row rebuild button in build history."""
+    """
+    Trigger a new build. With no sha, builds the tip of the tracked branch (default behaviour, used by top-level Rebuild). With a sha (7-40 char hex commit SHA), rebuilds that exact commit — used by the per-row rebuild button in build history. Also rebuilds GitLab and Bitbucket services.
+    """
     redeployGithubService(serviceId: ID!, sha: String): BuildJob!
+    """
+    Discard the service's build cache so the next build starts cold. Use
+    when a cached layer is stale or corrupt.
+    """
+    purgeServiceBuildCache(serviceId: ID!): Service!
+    """
+    Replace the globs that decide which pushes rebuild the service. An empty
+    list rebuilds on every push. Manual and preview builds ignore them.
+    """
+    updateServiceWatchPaths(serviceId: ID!, watchPaths: [String!]!): Service!
+    """
+    Stop a PENDING or RUNNING build: tears down its builder (K8s Job or Fly
+    machine) and marks it CANCELED. Errors if the build already finished.
+    """
+    cancelBuild(buildJobId: ID!): BuildJob!
   }
 
   extend type Service {
@@ -2643,14 +3089,35 @@ export const typeDefs = /* GraphQL */ `
     latestBuild: BuildJob
     """Recent build attempts (newest first), capped per request."""
     buildJobs(limit: Int): [BuildJob!]!
+    """
+    Pull-request previews spawned from this service (newest first). Empty
+    unless previewPolicy was ever enabled.
+    """
+    previewEnvironments(
+      status: PreviewEnvironmentStatus
+    ): [PreviewEnvironment!]!
     """Set when this Service is connected to a git repo. One of 'github' | 'gitlab' | 'bitbucket'."""
     gitProvider: String
-    """Local id of the GithubInstallation row (or future provider install row)."""
+    """
+    Local id of the GithubInstallation row (GitHub services).
+    """
     gitInstallationId: ID
+    """
+    Local id of the GitConnection row (GitLab / Bitbucket services).
+    """
+    gitConnectionId: ID
     gitOwner: String
     gitRepo: String
     gitBranch: String
     rootDirectory: String
+    """
+    Push filter for monorepos: globs relative to the repo root. Empty = every push rebuilds.
+    """
+    watchPaths: [String!]!
+    """
+    Build strategy ({ type, dockerfilePath?, outputDirectory? }). Null = auto.
+    """
+    buildStrategy: JSON
     buildCommand: String
     startCommand: String
     detectedFramework: String
@@ -2660,6 +3127,10 @@ export const typeDefs = /* GraphQL */ `
     """One of 'PENDING' | 'RUNNING' | 'SUCCEEDED' | 'FAILED' | 'CANCELED' or null."""
     lastBuildStatus: String
     lastBuildAt: Date
+    """
+    Last purgeServiceBuildCache call. Null if the cache was never purged.
+    """
+    buildCachePurgedAt: Date
   }
 
   # ============================================
@@ -2672,6 +3143,75 @@ export const typeDefs = /* GraphQL */ `
   # not a new \`activeXDeployment\` field per consumer.
   union Deployment = AkashDeployment | PhalaDeployment | SpheronDeployment
 
+  """
+  Where \`deployService\` should run a service. Every field is optional.
+  """
+  input DeployTargetInput {
+    """
+    Registered provider name ('akash' | 'phala' | 'spheron'), or 'auto'
+    (default) to pick the cheapest provider that can take the workload.
+    """
+    provider: String
+    """
+    Curated region bucket: us-east | us-west | eu | asia. Null = any.
+    """
+    region: String
+    """
+    GPU requirement. Omit to use the service/template default.
+    """
+    gpu: GpuOverrideInput
+    policy: DeploymentPolicyInput
+  }
+
+  """
+  One provider's answer to "can you run this, and for how much".
+  """
+  type DeployTargetQuote {
+    provider: String!
+    available: Boolean!
+    """
+    Raw provider cost in USD/hour before margin. Null = no price signal.
+    """
+    estimatedHourlyUsd: Float
+    region: String
+    """
+    Why the provider is unavailable, or where the price came from.
+    """
+    reason: String
+  }
+
+  """
+  The provider \`deployService\` in auto mode would try first, plus every
+  quote ranked best-first. provider is null when nothing is available.
+  """
+  type DeployTargetDecision {
+    provider: String
+    region: String
+    estimatedHourlyUsd: Float
+    reason: String!
+    candidates: [DeployTargetQuote!]!
+  }
+
+  extend type Query {
+    """
+    Preview which provider deployService would pick for this target.
+    """
+    deployTarget(
+      serviceId: ID!
+      target: DeployTargetInput
+    ): DeployTargetDecision!
+  }
+
+  extend type Mutation {
+    """
+    Deploy a service on any registered provider. Routes to the matching
+    deployTo* mutation (same guards, policy handling and audit trail). In
+    auto mode providers are tried cheapest-first, falling through on
+    NO_CAPACITY.
+    """
+    deployService(serviceId: ID!, target: DeployTargetInput): Deployment!
+  }
+
   extend type Service {
     """
     Provider-agnostic accessor for the live deployment.
@@ -2684,4 +3224,825 @@ export const typeDefs = /* GraphQL */ `
     """
     activeDeployment: Deployment
   }
+
+  # ============================================
+  # ROLLBACK
+  # ============================================
+
+  """
+  One past deployment of a service, on any provider. \`image\` and
+  \`envKeys\` are read back from the stored SDL / compose; env values are
+  never exposed.
+  """
+  type DeploymentHistoryEntry {
+    id: ID!
+    """
+    'akash' | 'phala' | 'spheron'
+    """
+    provider: String!
+    """
+    Provider-native status string (e.g. ACTIVE, CLOSED, DELETED).
+    """
+    status: String!
+    image: String
+    envKeys: [String!]!
+    createdAt: Date!
+    """
+    When the deployment first reached ACTIVE; null if it never did.
+    """
+    activeSince: Date
+    rollbackOfId: String
+    isCurrent: Boolean!
+    """
+    True when rollbackService(toDeploymentId: id) would accept this row.
+    """
+    rollbackable: Boolean!
+  }
+
+  """
+  A successful build whose image can be rolled back to.
+  """
+  type BuildRollbackCandidate {
+    id: ID!
+    commitSha: String!
+    commitMessage: String
+    branch: String!
+    imageTag: String!
+    finishedAt: Date
+    createdAt: Date!
+    """
+    True when this image is the one the service currently deploys.
+    """
+    isCurrent: Boolean!
+  }
+
+  type DeploymentHistory {
+    deployments: [DeploymentHistoryEntry!]!
+    """
+    Successful builds with an image. Empty for non-git services.
+    """
+    builds: [BuildRollbackCandidate!]!
+  }
+
+  """
+  Projected effect of a service run schedule over the coming week.
+  """
+  type RunSchedulePreview {
+    """
+    Hours per week the schedule keeps the service stopped.
+    """
+    offHoursPerWeek: Float!
+    """
+    Hourly cost of the service while running, from its current (or
+    schedule-stopped) deployments.
+    """
+    hourlyCostUsd: Float!
+    """
+    offHoursPerWeek as a share of the week, applied to a 30-day month.
+    """
+    projectedMonthlySavingsUsd: Float!
+    """
+    Next stop / start edge within the coming week, if any.
+    """
+    nextStopAt: Date
+    nextStartAt: Date
+  }
+
+  extend type Query {
+    """
+    Preview a run schedule's off-hours and savings. Uses the service's
+    stored runSchedule unless one is passed.
+    """
+    runSchedulePreview(serviceId: ID!, schedule: JSON): RunSchedulePreview!
+  }
+
+  extend type Query {
+    """
+    Past deployments (all providers) and builds a service can be rolled back to, newest first.
+    """
+    deploymentHistory(serviceId: ID!, limit: Int): DeploymentHistory!
+  }
+
+  extend type Mutation {
+    """
+    Roll a service back. Pass exactly one of:
+    - toDeploymentId: replay that deployment's stored SDL / compose and env
+      snapshot on its original provider. The currently live deployment is
+      closed first.
+    - buildJobId (git services): pin the service image to that build's
+      imageTag and redeploy on the current provider.
+    """
+    rollbackService(
+      serviceId: ID!
+      toDeploymentId: ID
+      buildJobId: ID
+    ): Deployment!
+  }
+
+  # ============================================
+  # NOTIFICATIONS
+  # ============================================
+
+  enum NotificationChannelType {
+    """
+    JSON POST signed with X-AF-Signature (HMAC-SHA256 of "<X-AF-Timestamp>.<body>").
+    """
+    WEBHOOK
+    SLACK
+    DISCORD
+  }
+
+  enum NotificationDeliveryStatus {
+    PENDING
+    DELIVERED
+    FAILED
+  }
+
+  type NotificationChannel {
+    id: ID!
+    projectId: ID!
+    type: NotificationChannelType!
+    name: String!
+    """
+    Host and last characters of the destination URL. The URL itself is write-only.
+    """
+    urlHint: String!
+    """
+    WEBHOOK channels only: the key for verifying X-AF-Signature.
+    """
+    signingSecret: String
+    """
+    Subscribed events (see notificationEventTypes). Empty means every event.
+    """
+    events: [String!]!
+    enabled: Boolean!
+    createdAt: Date!
+    updatedAt: Date!
+  }
+
+  type NotificationDelivery {
+    id: ID!
+    channelId: ID!
+    event: String!
+    status: NotificationDeliveryStatus!
+    attempts: Int!
+    """
+    HTTP status of the last attempt, when the destination answered.
+    """
+    responseStatus: Int
+    lastError: String
+    """
+    When the next retry is due (PENDING only).
+    """
+    nextAttemptAt: Date
+    deliveredAt: Date
+    payload: JSON!
+    createdAt: Date!
+  }
+
+  input CreateNotificationChannelInput {
+    projectId: ID!
+    type: NotificationChannelType!
+    name: String!
+    """
+    Destination: any public https URL for WEBHOOK, a hooks.slack.com incoming webhook for SLACK, a discord.com/api/webhooks URL for DISCORD.
+    """
+    url: String!
+    events: [String!]
+    enabled: Boolean
+  }
+
+  input UpdateNotificationChannelInput {
+    name: String
+    url: String
+    """
+    Replaces the subscription. Pass [] to receive every event.
+    """
+    events: [String!]
+    enabled: Boolean
+  }
+
+  extend type Query {
+    notificationChannels(projectId: ID!): [NotificationChannel!]!
+    """
+    Delivery log of a channel, newest first. Kept for 30 days.
+    """
+    notificationDeliveries(
+      channelId: ID!
+      status: NotificationDeliveryStatus
+      limit: Int
+    ): [NotificationDelivery!]!
+    """
+    Event names a channel can subscribe to.
+    """
+    notificationEventTypes: [String!]!
+  }
+
+  extend type Mutation {
+    createNotificationChannel(
+      input: CreateNotificationChannelInput!
+    ): NotificationChannel!
+    updateNotificationChannel(
+      id: ID!
+      input: UpdateNotificationChannelInput!
+    ): NotificationChannel!
+    deleteNotificationChannel(id: ID!): Boolean!
+    """
+    Send a test message to the channel right away and return its delivery record.
+    Works on disabled channels; a failed test is not retried.
+    """
+    testNotificationChannel(id: ID!): NotificationDelivery!
+  }
+
+  # ============================================
+  # ORG EVENT WEBHOOKS
+  # ============================================
+
+  enum EventWebhookDeliveryStatus {
+    PENDING
+    DELIVERED
+    """
+    Gave up after the final retry, or the endpoint rejected the event outright. Replay to send it again.
+    """
+    DEAD
+  }
+
+  """
+  Streams the organization's audit events as signed JSON POSTs. Each body carries the audit event id (also sent as X-AF-Event-Id); delivery is at-least-once, so receivers should dedupe on it.
+  """
+  type EventWebhook {
+    id: ID!
+    organizationId: ID!
+    name: String!
+    """
+    Host and last characters of the endpoint URL. The URL itself is write-only.
+    """
+    urlHint: String!
+    """
+    HMAC-SHA256 key for X-AF-Signature. Only returned by createEventWebhook.
+    """
+    signingSecret: String
+    """
+    Audit action prefixes to send, e.g. "build." or "service.env.". Empty means every event.
+    """
+    events: [String!]!
+    enabled: Boolean!
+    createdAt: Date!
+    updatedAt: Date!
+  }
+
+  type EventWebhookDelivery {
+    id: ID!
+    webhookId: ID!
+    auditEventId: ID!
+    action: String!
+    status: EventWebhookDeliveryStatus!
+    attempts: Int!
+    responseStatus: Int
+    lastError: String
+    nextAttemptAt: Date
+    deliveredAt: Date
+    deadAt: Date
+    createdAt: Date!
+  }
+
+  input CreateEventWebhookInput {
+    orgId: ID!
+    name: String!
+    """
+    Public https endpoint.
+    """
+    url: String!
+    events: [String!]
+    enabled: Boolean
+  }
+
+  input UpdateEventWebhookInput {
+    name: String
+    url: String
+    """
+    Replaces the filter. Pass [] to receive every event.
+    """
+    events: [String!]
+    """
+    Events raised while a webhook is disabled are not sent when it is re-enabled; use replayWebhookDeliveries for those.
+    """
+    enabled: Boolean
+  }
+
+  extend type Query {
+    eventWebhooks(orgId: ID!): [EventWebhook!]!
+    """
+    Delivery log of an event webhook, newest first. Kept for 30 days.
+    """
+    eventWebhookDeliveries(
+      webhookId: ID!
+      status: EventWebhookDeliveryStatus
+      limit: Int
+    ): [EventWebhookDelivery!]!
+  }
+
+  extend type Mutation {
+    """
+    Create an event webhook. The response is the only time signingSecret is returned.
+    """
+    createEventWebhook(input: CreateEventWebhookInput!): EventWebhook!
+    updateEventWebhook(id: ID!, input: UpdateEventWebhookInput!): EventWebhook!
+    deleteEventWebhook(id: ID!): Boolean!
+    """
+    Send again every event since the given time (at most 30 days back), including delivered and dead-lettered ones. Scoped to one webhook, or every webhook of the org. Returns the number of deliveries re-queued.
+    """
+    replayWebhookDeliveries(since: Date!, webhookId: ID, orgId: ID): Int!
+  }
+
+  # ============================================
+  # ORGANIZATION MEMBERS & ROLES
+  # ============================================
+
+  """
+  OWNER: everything. ADMIN: everything but deleting projects. DEVELOPER: build, deploy, env vars and shell. VIEWER: read-only, including logs. BILLING: read-only plus billing and spend / runtime policies.
+  """
+  enum OrganizationRole {
+    OWNER
+    ADMIN
+    DEVELOPER
+    VIEWER
+    BILLING
+  }
+
+  type OrganizationMember {
+    id: ID!
+    organizationId: ID!
+    userId: ID!
+    email: String
+    username: String
+    role: OrganizationRole!
+    createdAt: Date!
+  }
+
+  type OrganizationInvite {
+    id: ID!
+    organizationId: ID!
+    email: String!
+    role: OrganizationRole!
+    expiresAt: Date!
+    createdAt: Date!
+  }
+
+  type OrganizationInviteResult {
+    invite: OrganizationInvite!
+    """
+    One-time invite token to share with the invitee. It is not shown again.
+    """
+    token: String!
+  }
+
+  type OrganizationAccess {
+    role: OrganizationRole!
+    """
+    e.g. project.read, deploy, env.reveal, shell.open, policy.manage, billing.manage, org.manage, project.delete
+    """
+    permissions: [String!]!
+  }
+
+  extend type Query {
+    organizationMembers(orgId: ID!): [OrganizationMember!]!
+    """
+    Pending invites. Owners and admins only.
+    """
+    organizationInvites(orgId: ID!): [OrganizationInvite!]!
+    """
+    The caller's role in the organization and what it allows.
+    """
+    myOrganizationAccess(orgId: ID!): OrganizationAccess!
+  }
+
+  extend type Mutation {
+    """
+    Invite an email address to the organization. Replaces any pending invite for the same address; expires after 7 days.
+    """
+    inviteOrganizationMember(
+      orgId: ID!
+      email: String!
+      role: OrganizationRole!
+    ): OrganizationInviteResult!
+    revokeOrganizationInvite(id: ID!): Boolean!
+    """
+    Join the organization an invite is for. The caller's email must match the invite.
+    """
+    acceptOrganizationInvite(token: String!): OrganizationMember!
+    """
+    Only owners can grant or change the OWNER role; an organization always keeps one owner.
+    """
+    updateOrganizationMemberRole(
+      orgId: ID!
+      userId: ID!
+      role: OrganizationRole!
+    ): OrganizationMember!
+    """
+    Remove a member, or leave the organization when userId is your own.
+    """
+    removeOrganizationMember(orgId: ID!, userId: ID!): Boolean!
+  }
+
+  # ============================================
+  # DEPLOY APPROVALS
+  # ============================================
+
+  enum DeployApprovalStatus {
+    PENDING
+    """
+    An approver signed off and the deploy is being launched.
+    """
+    APPROVED
+    LAUNCHED
+    """
+    Approved, but the deploy itself failed. See errorMessage.
+    """
+    FAILED
+    REJECTED
+    EXPIRED
+    CANCELED
+  }
+
+  """
+  Holds matching deploys in an organization until an approver signs off. A deploy matches when it targets one of projectIds (any org project when empty) and either costs at least minHourlyCostUsd per hour or, with requireForGpu, requests a GPU. Members who hold the approver role are not held.
+  """
+  type DeployApprovalRule {
+    id: ID!
+    organizationId: ID!
+    name: String!
+    projectIds: [ID!]!
+    minHourlyCostUsd: Float
+    requireForGpu: Boolean!
+    """
+    ADMIN (admins and owners may approve) or OWNER.
+    """
+    approverRole: OrganizationRole!
+    enabled: Boolean!
+    createdAt: Date!
+    updatedAt: Date!
+  }
+
+  type DeployApprovalRequest {
+    id: ID!
+    organizationId: ID!
+    projectId: ID!
+    """
+    Null for template deploys, which create their service on launch.
+    """
+    serviceId: ID
+    """
+    The deploy mutation that is held, e.g. deployToAkash.
+    """
+    operation: String!
+    provider: String!
+    hourlyCostUsd: Float!
+    gpuUnits: Int!
+    ruleIds: [ID!]!
+    reasons: [String!]!
+    approverRole: OrganizationRole!
+    status: DeployApprovalStatus!
+    requestedByUserId: ID
+    decidedByUserId: ID
+    decidedAt: Date
+    decisionNote: String
+    expiresAt: Date!
+    launchedServiceId: ID
+    launchedDeploymentId: ID
+    errorMessage: String
+    createdAt: Date!
+  }
+
+  input CreateDeployApprovalRuleInput {
+    orgId: ID!
+    name: String!
+    projectIds: [ID!]
+    minHourlyCostUsd: Float
+    requireForGpu: Boolean
+    approverRole: OrganizationRole
+    enabled: Boolean
+  }
+
+  input UpdateDeployApprovalRuleInput {
+    name: String
+    """
+    Replaces the list. Pass [] to cover every project.
+    """
+    projectIds: [ID!]
+    """
+    Pass null to remove the cost condition.
+    """
+    minHourlyCostUsd: Float
+    requireForGpu: Boolean
+    approverRole: OrganizationRole
+    enabled: Boolean
+  }
+
+  extend type Query {
+    deployApprovalRules(orgId: ID!): [DeployApprovalRule!]!
+    """
+    Approval requests of the organization, newest first.
+    """
+    deployApprovalRequests(
+      orgId: ID!
+      status: DeployApprovalStatus
+      limit: Int
+    ): [DeployApprovalRequest!]!
+    deployApprovalRequest(id: ID!): DeployApprovalRequest
+  }
+
+  extend type Mutation {
+    """
+    Deploys that match a rule fail with APPROVAL_REQUIRED (extensions.approvalRequestId) instead of launching.
+    """
+    createDeployApprovalRule(
+      input: CreateDeployApprovalRuleInput!
+    ): DeployApprovalRule!
+    updateDeployApprovalRule(
+      id: ID!
+      input: UpdateDeployApprovalRuleInput!
+    ): DeployApprovalRule!
+    deleteDeployApprovalRule(id: ID!): Boolean!
+    """
+    Approve a pending request and launch the held deploy as the requester. Returns the request as LAUNCHED, or FAILED with errorMessage.
+    """
+    approveDeployRequest(id: ID!, note: String): DeployApprovalRequest!
+    rejectDeployRequest(id: ID!, note: String): DeployApprovalRequest!
+    """
+    Withdraw your own pending request.
+    """
+    cancelDeployRequest(id: ID!): DeployApprovalRequest!
+  }
+
+  # ============================================
+  # SHELL RECORDINGS
+  # ============================================
+
+  """
+  Opt-in recording of interactive shells in an organization's services. Recorded sessions show a banner on the terminal; recordings older than retentionDays are deleted.
+  """
+  type ShellRecordingSettings {
+    enabled: Boolean!
+    retentionDays: Int!
+  }
+
+  """
+  One recorded shell session: terminal output and resizes, without keystrokes.
+  """
+  type ShellRecording {
+    id: ID!
+    """
+    Matches the sessionId in the shell's ready message and audit events.
+    """
+    sessionId: String!
+    organizationId: ID!
+    projectId: ID!
+    serviceId: ID!
+    deploymentId: ID
+    provider: String!
+    userId: ID!
+    outputBytes: Int!
+    eventCount: Int!
+    """
+    Output past the size limit was not recorded.
+    """
+    truncated: Boolean!
+    """
+    Null while the session is still open, or when the server stopped
+    before it could close it; the recording then runs to its last checkpoint.
+    """
+    endReason: String
+    startedAt: Date!
+    """
+    When the session ended, or the last checkpoint if endReason is null.
+    """
+    endedAt: Date!
+    durationMs: Int!
+    """
+    The session as asciicast v2 (newline-delimited JSON). Only returned by shellRecording.
+    """
+    asciicast: String
+  }
+
+  input UpdateShellRecordingSettingsInput {
+    enabled: Boolean
+    """
+    1-365 days.
+    """
+    retentionDays: Int
+  }
+
+  extend type Query {
+    shellRecordingSettings(orgId: ID!): ShellRecordingSettings!
+    """
+    Recorded sessions of the organization, newest first. Org admins and owners only.
+    """
+    shellRecordings(
+      orgId: ID!
+      serviceId: ID
+      userId: ID
+      limit: Int
+    ): [ShellRecording!]!
+    """
+    Open a recording for playback. Each call is audited as shell.recording_viewed.
+    """
+    shellRecording(id: ID!): ShellRecording
+  }
+
+  extend type Mutation {
+    updateShellRecordingSettings(
+      orgId: ID!
+      input: UpdateShellRecordingSettingsInput!
+    ): ShellRecordingSettings!
+  }
+
+  # ============================================
+  # ALERT RULES
+  # ============================================
+
+  enum AlertRuleKind {
+    """
+    An aggregate of metricName over the window.
+    """
+    METRIC_THRESHOLD
+    """
+    Percent (0-100) of spans with status ERROR over the window, for serviceName or every service.
+    """
+    SPAN_ERROR_RATE
+    """
+    Number of log lines over the window whose body matches logPattern (RE2), from minSeverityNumber up.
+    """
+    LOG_MATCH
+  }
+
+  enum AlertComparator {
+    GT
+    GTE
+    LT
+    LTE
+  }
+
+  enum AlertIncidentStatus {
+    FIRING
+    RESOLVED
+  }
+
+  """
+  Watches one number from the project's telemetry. Evaluated every minute; a breach opens an incident and notifies the project's channels (alert.firing), and the incident resolves once the value is back (alert.resolved).
+  """
+  type AlertRule {
+    id: ID!
+    projectId: ID!
+    name: String!
+    kind: AlertRuleKind!
+    metricName: String
+    aggregation: MetricAggregation
+    serviceName: String
+    logPattern: String
+    minSeverityNumber: Int
+    comparator: AlertComparator!
+    threshold: Float!
+    windowMinutes: Int!
+    """
+    info, warning or critical — the severity of alert.firing notifications.
+    """
+    severity: String!
+    enabled: Boolean!
+    """
+    Has an open incident.
+    """
+    firing: Boolean!
+    silenced: Boolean!
+    silencedUntil: Date
+    lastEvaluatedAt: Date
+    """
+    Null when the last window had no data.
+    """
+    lastValue: Float
+    lastError: String
+    createdAt: Date!
+    updatedAt: Date!
+  }
+
+  type AlertIncident {
+    id: ID!
+    ruleId: ID!
+    projectId: ID!
+    status: AlertIncidentStatus!
+    threshold: Float!
+    value: Float!
+    """
+    Furthest past the threshold while firing.
+    """
+    peakValue: Float!
+    lastValue: Float!
+    """
+    Opened while the rule was silenced, so nobody was notified.
+    """
+    silenced: Boolean!
+    startedAt: Date!
+    resolvedAt: Date
+  }
+
+  input CreateAlertRuleInput {
+    projectId: ID!
+    name: String!
+    kind: AlertRuleKind!
+    metricName: String
+    """
+    Defaults to AVG.
+    """
+    aggregation: MetricAggregation
+    serviceName: String
+    logPattern: String
+    minSeverityNumber: Int
+    """
+    Defaults to GT.
+    """
+    comparator: AlertComparator
+    threshold: Float!
+    """
+    1-1440, defaults to 5.
+    """
+    windowMinutes: Int
+    severity: String
+    enabled: Boolean
+  }
+
+  input UpdateAlertRuleInput {
+    name: String
+    kind: AlertRuleKind
+    metricName: String
+    aggregation: MetricAggregation
+    serviceName: String
+    logPattern: String
+    minSeverityNumber: Int
+    comparator: AlertComparator
+    threshold: Float
+    windowMinutes: Int
+    severity: String
+    """
+    Disabling a firing rule resolves its incident without notifying.
+    """
+    enabled: Boolean
+  }
+
+  extend type Query {
+    alertRules(projectId: ID!): [AlertRule!]!
+    """
+    Incidents of the project, newest first.
+    """
+    alertIncidents(
+      projectId: ID!
+      ruleId: ID
+      status: AlertIncidentStatus
+      limit: Int
+    ): [AlertIncident!]!
+  }
+
+  extend type Mutation {
+    createAlertRule(input: CreateAlertRuleInput!): AlertRule!
+    updateAlertRule(id: ID!, input: UpdateAlertRuleInput!): AlertRule!
+    deleteAlertRule(id: ID!): Boolean!
+    """
+    Keep evaluating, but send no notifications for up to 7 days (10080 minutes).
+    """
+    silenceAlertRule(id: ID!, minutes: Int!): AlertRule!
+    unsilenceAlertRule(id: ID!): AlertRule!
+  }
+
+  # ============================================
+  # SAVED LOG QUERIES
+  # ============================================
+
+  """
+  A named searchLogs query shared by a project.
+  """
+  type SavedLogQuery {
+    id: ID!
+    projectId: ID!
+    name: String!
+    query: String!
+    createdByUserId: ID
+    createdAt: Date!
+    updatedAt: Date!
+  }
+
+  extend type Query {
+    savedLogQueries(projectId: ID!): [SavedLogQuery!]!
+  }
+
+  extend type Mutation {
+    """
+    The query is checked on save; names are unique within the project.
+    """
+    createSavedLogQuery(
+      projectId: ID!
+      name: String!
+      query: String!
+    ): SavedLogQuery!
+    updateSavedLogQuery(id: ID!, name: String, query: String): SavedLogQuery!
+    deleteSavedLogQuery(id: ID!): Boolean!
+  }
 `
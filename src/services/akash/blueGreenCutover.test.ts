@@ -0,0 +1,253 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { PrismaClient } from '@prisma/client'
+
+const {
+  auditMock,
+  closeDeploymentMock,
+  settleMock,
+  refundMock,
+  decrementMock,
+} = vi.hoisted(() => ({
+  auditMock: vi.fn(),
+  closeDeploymentMock: vi.fn(),
+  settleMock: vi.fn(),
+  refundMock: vi.fn(),
+  decrementMock: vi.fn(),
+}))
+
+vi.mock('../../lib/audit.js', () => ({ audit: auditMock }))
+
+vi.mock('./orchestrator.js', () => ({
+  getAkashOrchestrator: vi.fn(() => ({ closeDeployment: closeDeploymentMock })),
+}))
+
+vi.mock('../billing/deploymentSettlement.js', () => ({
+  settleAkashEscrowToTime: settleMock,
+}))
+
+vi.mock('../billing/escrowService.js', () => ({
+  getEscrowService: vi.fn(() => ({ refundEscrow: refundMock })),
+}))
+
+vi.mock('../concurrency/concurrencyService.js', () => ({
+  decrementOrgConcurrency: decrementMock,
+}))
+
+import {
+  activateCutover,
+  CUTOVER_GATE_FAILED,
+  gateCutover,
+  retireCutoverSource,
+  type CutoverCandidate,
+} from './blueGreenCutover.js'
+
+const prisma = {} as PrismaClient
+
+function candidate(
+  overrides: Partial<CutoverCandidate['service']> = {}
+): CutoverCandidate {
+  return {
+    id: 'dep-new',
+    cutoverFromId: 'dep-old',
+    serviceId: 'svc-1',
+    service: {
+      slug: 'my-app',
+      projectId: 'proj-1',
+      sdlServiceName: 'app',
+      healthProbe: { path: '/healthz' },
+      project: { organizationId: 'org-1' },
+      ...overrides,
+    },
+  }
+}
+
+const urls = { app: { uris: ['new.provider.example.com'] } }
+
+function probeResult(ok: boolean, statusCode = ok ? 200 : 503) {
+  return { timestamp: new Date(), ok, statusCode, latencyMs: 12 }
+}
+
+describe('gateCutover', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('passes once the candidate returns consecutive healthy probes', async () => {
+    const probe = vi
+      .fn()
+      .mockResolvedValueOnce(probeResult(false))
+      .mockResolvedValueOnce(probeResult(true))
+      .mockResolvedValueOnce(probeResult(true))
+
+    await gateCutover(prisma, candidate(), urls, {
+      probe,
+      sleep: async () => {},
+      attempts: 5,
+    })
+
+    expect(probe).toHaveBeenCalledTimes(3)
+    expect(probe).toHaveBeenCalledWith(
+      'new.provider.example.com',
+      expect.objectContaining({ path: '/healthz' })
+    )
+    expect(auditMock).not.toHaveBeenCalled()
+  })
+
+  it('throws a deterministic gate error and audits why when the probe never passes', async () => {
+    const probe = vi.fn().mockResolvedValue(probeResult(false))
+
+    await expect(
+      gateCutover(prisma, candidate(), urls, {
+        probe,
+        sleep: async () => {},
+        attempts: 3,
+      })
+    ).rejects.toThrow(CUTOVER_GATE_FAILED)
+
+    expect(probe).toHaveBeenCalledTimes(3)
+    expect(auditMock).toHaveBeenCalledWith(
+      prisma,
+      expect.objectContaining({
+        action: 'deployment.cutover_failed',
+        status: 'error',
+        deploymentId: 'dep-new',
+        errorMessage: expect.stringContaining('after 3 attempts (status 503)'),
+        payload: expect.objectContaining({ fromDeploymentId: 'dep-old' }),
+      })
+    )
+  })
+
+  it('refuses to cut over a service without a usable probe', async () => {
+    const probe = vi.fn()
+
+    await expect(
+      gateCutover(prisma, candidate({ healthProbe: null }), urls, { probe })
+    ).rejects.toThrow('no usable healthProbe')
+    expect(probe).not.toHaveBeenCalled()
+  })
+})
+
+describe('activateCutover', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  function mockPrisma(closedCount: number) {
+    const update = vi.fn(args => ({ op: 'update', args }))
+    const updateMany = vi.fn(args => ({ op: 'updateMany', args }))
+    const $transaction = vi.fn(async () => [{}, { count: closedCount }])
+    return {
+      prisma: {
+        akashDeployment: { update, updateMany },
+        $transaction,
+      } as unknown as PrismaClient,
+      update,
+      updateMany,
+      $transaction,
+    }
+  }
+
+  it('flips candidate and source in a single transaction', async () => {
+    const { prisma, updateMany, $transaction } = mockPrisma(1)
+    const flippedAt = new Date('2026-05-12T10:00:00Z')
+
+    const retired = await activateCutover(
+      prisma,
+      candidate(),
+      { status: 'ACTIVE', deployedAt: flippedAt },
+      flippedAt
+    )
+
+    expect(retired).toBe('dep-old')
+    expect($transaction).toHaveBeenCalledTimes(1)
+    expect(updateMany).toHaveBeenCalledWith({
+      where: { id: 'dep-old', status: 'ACTIVE' },
+      data: { status: 'CLOSED', closedAt: flippedAt },
+    })
+    expect(auditMock).toHaveBeenCalledWith(
+      prisma,
+      expect.objectContaining({
+        action: 'deployment.cutover_completed',
+        payload: expect.objectContaining({ sourceWasActive: true }),
+      })
+    )
+  })
+
+  it('does not retire a source that already left ACTIVE', async () => {
+    const { prisma } = mockPrisma(0)
+
+    const retired = await activateCutover(prisma, candidate(), {
+      status: 'ACTIVE',
+    })
+
+    expect(retired).toBeNull()
+  })
+})
+
+describe('retireCutoverSource', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('closes the old lease, settles escrow and releases the policy', async () => {
+    closeDeploymentMock.mockResolvedValue({
+      chainStatus: 'CLOSED',
+      txhash: 'ABC',
+    })
+    settleMock.mockResolvedValue(0)
+    refundMock.mockResolvedValue(150)
+    decrementMock.mockResolvedValue(undefined)
+    const policyUpdate = vi.fn()
+    const prisma = {
+      akashDeployment: {
+        findUnique: vi.fn().mockResolvedValue({
+          id: 'dep-old',
+          dseq: 42n,
+          policyId: 'policy-old',
+          serviceId: 'svc-1',
+          service: {
+            projectId: 'proj-1',
+            project: { organizationId: 'org-1' },
+          },
+        }),
+      },
+      deploymentPolicy: { update: policyUpdate },
+    } as unknown as PrismaClient
+    const closedAt = new Date('2026-05-12T10:00:00Z')
+
+    await retireCutoverSource(prisma, 'dep-old', closedAt)
+
+    expect(closeDeploymentMock).toHaveBeenCalledWith(42)
+    expect(settleMock).toHaveBeenCalledWith(prisma, 'dep-old', closedAt)
+    expect(refundMock).toHaveBeenCalledWith('dep-old')
+    expect(policyUpdate).toHaveBeenCalledWith({
+      where: { id: 'policy-old' },
+      data: {
+        stopReason: 'MANUAL_STOP',
+        stoppedAt: closedAt,
+        reservedCents: 0,
+      },
+    })
+    expect(decrementMock).toHaveBeenCalledWith(prisma, 'org-1')
+    expect(auditMock).toHaveBeenCalledWith(
+      prisma,
+      expect.objectContaining({
+        action: 'lease.closed',
+        status: 'ok',
+        payload: expect.objectContaining({ reason: 'blue_green_cutover' }),
+      })
+    )
+  })
+
+  it('never throws when retiring fails', async () => {
+    const prisma = {
+      akashDeployment: {
+        findUnique: vi.fn().mockRejectedValue(new Error('db down')),
+      },
+    } as unknown as PrismaClient
+
+    await expect(
+      retireCutoverSource(prisma, 'dep-old', new Date())
+    ).resolves.toBeUndefined()
+  })
+})
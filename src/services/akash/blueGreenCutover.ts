@@ -0,0 +1,312 @@
+/**
+ * Blue-green (zero-downtime) redeploys for Akash.
+ *
+ * A `BLUE_GREEN` redeploy leaves the current ACTIVE lease running and stamps
+ * the new row with `cutoverFromId`. The candidate walks the normal queue
+ * steps; in `finalizeDeployment` it must pass the service's application
+ * health probe (`gateCutover`) before anything is billed or routed. On pass,
+ * `activateCutover` flips both rows in a single transaction and drops the
+ * proxy cache entry, so the subdomain never resolves to "no backend" or to a
+ * closed lease. `retireCutoverSource` then closes the old lease on-chain and
+ * settles its escrow.
+ *
+ * A failing probe throws an error carrying `CUTOVER_GATE_FAILED`, which
+ * `handleFailure` treats as deterministic: the candidate is closed without
+ * retries and the old lease keeps serving. The reason lands in the audit log
+ * as `deployment.cutover_failed`.
+ */
+
+import type { PrismaClient, Prisma } from '@prisma/client'
+import { audit } from '../../lib/audit.js'
+import { createLogger } from '../../lib/logger.js'
+import {
+  getApplicationHealthRunner,
+  pickProbeUri,
+  type HealthProbeConfig,
+  type ProbeResult,
+} from '../health/applicationHealthRunner.js'
+import { getAkashOrchestrator } from './orchestrator.js'
+import { settleAkashEscrowToTime } from '../billing/deploymentSettlement.js'
+import { getEscrowService } from '../billing/escrowService.js'
+import { decrementOrgConcurrency } from '../concurrency/concurrencyService.js'
+
+const log = createLogger('akash-blue-green')
+
+export type AkashDeployStrategy = 'RECREATE' | 'BLUE_GREEN'
+
+/**
+ * Lower-case marker embedded in gate failure messages. Listed in
+ * `DETERMINISTIC_FAILURE_PATTERNS` so a failed gate never enters the retry
+ * chain — a candidate that fails its own app probe will fail it on any
+ * provider.
+ */
+export const CUTOVER_GATE_FAILED = 'blue-green cutover gate failed'
+
+const DEFAULT_PROBE_ATTEMPTS = 6
+const DEFAULT_PROBE_INTERVAL_MS = 5_000
+/** Consecutive passing probes required before traffic is flipped. */
+const REQUIRED_CONSECUTIVE_PASSES = 2
+
+/**
+ * Minimal deployment shape needed by the cutover helpers. Matches what
+ * `handlePollUrls` loads (service + project included).
+ */
+export interface CutoverCandidate {
+  id: string
+  cutoverFromId?: string | null
+  serviceId: string
+  service: {
+    slug: string
+    projectId?: string | null
+    sdlServiceName?: string | null
+    healthProbe?: unknown
+    project?: { organizationId?: string | null } | null
+  }
+}
+
+export interface CutoverGateDeps {
+  /** Probe a URI without recording it. Tests inject a stub. */
+  probe?: (uri: string, probe: HealthProbeConfig) => Promise<ProbeResult>
+  sleep?: (ms: number) => Promise<void>
+  attempts?: number
+  intervalMs?: number
+}
+
+function probeAttemptsFromEnv(): number {
+  const n = parseInt(process.env.AKASH_CUTOVER_PROBE_ATTEMPTS || '', 10)
+  return Number.isFinite(n) && n > 0 ? n : DEFAULT_PROBE_ATTEMPTS
+}
+
+function probeIntervalFromEnv(): number {
+  const n = parseInt(process.env.AKASH_CUTOVER_PROBE_INTERVAL_MS || '', 10)
+  return Number.isFinite(n) && n >= 0 ? n : DEFAULT_PROBE_INTERVAL_MS
+}
+
+/**
+ * Probe the candidate lease directly (it is not routable yet) until it
+ * returns `REQUIRED_CONSECUTIVE_PASSES` passes in a row or the attempt
+ * budget runs out. Throws on failure after auditing the reason; resolves
+ * silently on pass.
+ */
+export async function gateCutover(
+  prisma: PrismaClient,
+  deployment: CutoverCandidate,
+  serviceUrls: Record<string, { uris: string[]; ips?: string[] }>,
+  deps: CutoverGateDeps = {}
+): Promise<void> {
+  const runner = getApplicationHealthRunner()
+  const probe = runner.coerceProbe(deployment.service.healthProbe)
+  const probeFn =
+    deps.probe ??
+    ((uri: string, p: HealthProbeConfig) =>
+      runner.probeDetached({ uri, probe: p }))
+  const sleep =
+    deps.sleep ?? ((ms: number) => new Promise<void>(r => setTimeout(r, ms)))
+  const attempts = deps.attempts ?? probeAttemptsFromEnv()
+  const intervalMs = deps.intervalMs ?? probeIntervalFromEnv()
+
+  const gateFailure = (reason: string, lastResult?: ProbeResult): Error => {
+    audit(prisma, {
+      category: 'deployment',
+      action: 'deployment.cutover_failed',
+      status: 'error',
+      orgId: deployment.service.project?.organizationId ?? null,
+      projectId: deployment.service.projectId ?? null,
+      serviceId: deployment.serviceId,
+      deploymentId: deployment.id,
+      errorMessage: reason,
+      payload: {
+        provider: 'akash',
+        fromDeploymentId: deployment.cutoverFromId ?? null,
+        lastResult: lastResult
+          ? {
+              ok: lastResult.ok,
+              statusCode: lastResult.statusCode ?? null,
+              latencyMs: lastResult.latencyMs,
+              error: lastResult.error ?? null,
+            }
+          : null,
+      },
+    })
+    return new Error(`${CUTOVER_GATE_FAILED}: ${reason}`)
+  }
+
+  if (!probe) {
+    throw gateFailure('service has no usable healthProbe configured')
+  }
+  const uri = pickProbeUri(
+    serviceUrls,
+    deployment.service.sdlServiceName ?? null,
+    probe.port
+  )
+  if (!uri) {
+    throw gateFailure('candidate lease exposed no probe-able URI')
+  }
+
+  let passes = 0
+  let last: ProbeResult | undefined
+  for (let i = 1; i <= attempts; i++) {
+    last = await probeFn(uri, probe)
+    passes = last.ok ? passes + 1 : 0
+    if (passes >= REQUIRED_CONSECUTIVE_PASSES) {
+      log.info(
+        { deploymentId: deployment.id, uri, attempt: i },
+        'Cutover gate passed'
+      )
+      return
+    }
+    if (i < attempts) await sleep(intervalMs)
+  }
+
+  const detail = last?.error
+    ? last.error
+    : `status ${last?.statusCode ?? 'n/a'}`
+  throw gateFailure(
+    `health probe did not pass after ${attempts} attempts (${detail})`,
+    last
+  )
+}
+
+/**
+ * Flip traffic from the source deployment to the candidate. Both rows move
+ * in one transaction so `lookupBackend` never observes zero or two ACTIVE
+ * Akash rows for the service. The source is only closed if it is still
+ * ACTIVE — a source that went away mid-rollout (manual close, sweeper) is
+ * left as-is. Returns the id of the row that now needs retiring, if any.
+ */
+export async function activateCutover(
+  prisma: PrismaClient,
+  deployment: CutoverCandidate,
+  activeData: Prisma.AkashDeploymentUpdateInput,
+  flippedAt = new Date()
+): Promise<string | null> {
+  const sourceId = deployment.cutoverFromId ?? null
+  if (!sourceId) {
+    await prisma.akashDeployment.update({
+      where: { id: deployment.id },
+      data: activeData,
+    })
+    return null
+  }
+
+  const [, closed] = await prisma.$transaction([
+    prisma.akashDeployment.update({
+      where: { id: deployment.id },
+      data: activeData,
+    }),
+    prisma.akashDeployment.updateMany({
+      where: { id: sourceId, status: 'ACTIVE' },
+      data: { status: 'CLOSED', closedAt: flippedAt },
+    }),
+  ])
+
+  try {
+    const { getSubdomainProxy } = await import('../proxy/subdomainProxy.js')
+    getSubdomainProxy()?.invalidateSlug(deployment.service.slug)
+  } catch (err) {
+    log.warn(
+      { err, slug: deployment.service.slug },
+      'Subdomain proxy invalidation failed (cutover)'
+    )
+  }
+
+  audit(prisma, {
+    category: 'deployment',
+    action: 'deployment.cutover_completed',
+    status: 'ok',
+    orgId: deployment.service.project?.organizationId ?? null,
+    projectId: deployment.service.projectId ?? null,
+    serviceId: deployment.serviceId,
+    deploymentId: deployment.id,
+    payload: {
+      provider: 'akash',
+      fromDeploymentId: sourceId,
+      sourceWasActive: closed.count > 0,
+    },
+  })
+
+  return closed.count > 0 ? sourceId : null
+}
+
+/**
+ * Tear down the deployment that was just cut away from: on-chain close,
+ * escrow settlement up to the flip, refund of the remainder, policy stop,
+ * and concurrency slot release. Never throws — the candidate is already
+ * serving, so every failure here is logged and audited for manual cleanup
+ * rather than bubbling into the queue step.
+ */
+export async function retireCutoverSource(
+  prisma: PrismaClient,
+  sourceId: string,
+  closedAt: Date
+): Promise<void> {
+  try {
+    const source = await prisma.akashDeployment.findUnique({
+      where: { id: sourceId },
+      include: { service: { include: { project: true } } },
+    })
+    if (!source) return
+
+    const orgId = source.service.project.organizationId
+    const closeResult = await getAkashOrchestrator(prisma).closeDeployment(
+      Number(source.dseq)
+    )
+
+    audit(prisma, {
+      category: 'deployment',
+      action: 'lease.closed',
+      status: closeResult.chainStatus === 'FAILED' ? 'error' : 'ok',
+      orgId,
+      projectId: source.service.projectId,
+      serviceId: source.serviceId,
+      deploymentId: source.id,
+      ...(closeResult.chainStatus === 'FAILED'
+        ? { errorMessage: closeResult.error }
+        : {}),
+      payload: {
+        provider: 'akash',
+        reason: 'blue_green_cutover',
+        chainStatus: closeResult.chainStatus,
+        dseq: source.dseq.toString(),
+      },
+    })
+
+    try {
+      await settleAkashEscrowToTime(prisma, source.id, closedAt)
+      const refundCents = await getEscrowService(prisma).refundEscrow(source.id)
+      if (refundCents > 0) {
+        log.info(
+          `Refunded $${(refundCents / 100).toFixed(2)} escrow for cut-over deployment ${source.id}`
+        )
+      }
+    } catch (err) {
+      log.warn(
+        { err, deploymentId: source.id },
+        'Escrow settlement/refund failed after cutover — may need manual resolution'
+      )
+    }
+
+    if (source.policyId) {
+      await prisma.deploymentPolicy.update({
+        where: { id: source.policyId },
+        data: {
+          stopReason: 'MANUAL_STOP',
+          stoppedAt: closedAt,
+          reservedCents: 0,
+        },
+      })
+    }
+
+    await decrementOrgConcurrency(prisma, orgId).catch(err => {
+      log.warn(
+        { err, deploymentId: source.id },
+        'Concurrency decrement failed (cutover)'
+      )
+    })
+  } catch (err) {
+    log.error(
+      { err, deploymentId: sourceId },
+      'Retiring cut-over source deployment failed'
+    )
+  }
+}
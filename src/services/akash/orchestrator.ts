@@ -25,6 +25,7 @@ import { createLogger } from '../../lib/logger.js'
 import { withWalletLock, isWalletTx } from './walletMutex.js'
 import type { TemplateGpu } from '../../templates/index.js'
 import { resolveSdlPricingUact, buildPlacementAttributesBlock } from '../../templates/sdl.js'
+import type { AkashDeployStrategy } from './blueGreenCutover.js'
 
 const log = createLogger('akash-orchestrator')
 
@@ -1313,6 +1314,15 @@ export class AkashOrchestrator {
        * undefined = "Any (cheapest globally)" — today's default behavior.
        */
       region?: string | null
+      /**
+       * `BLUE_GREEN` keeps the newest ACTIVE deployment serving and links the
+       * new row to it via `cutoverFromId`; finalize flips traffic once the
+       * new lease passes its health probe (see `blueGreenCutover.ts`).
+       * Default `RECREATE` closes existing deployments up front.
+       */
+      strategy?: AkashDeployStrategy
+      /** Earlier deployment whose SDL this one replays (`rollbackService`). */
+      rollbackOfId?: string | null
     } = {}
   ): Promise<string> {
     const deposit = options.deposit || DEFAULT_DEPOSIT_UACT
@@ -1329,13 +1339,25 @@ export class AkashOrchestrator {
       throw new Error(`Service not found: ${serviceId}`)
     }
 
-    // Close any existing ACTIVE deployments for this service
-    const existingDeployments = await this.prisma.akashDeployment.findMany({
+    // Close any existing ACTIVE deployments for this service — except the
+    // blue-green source, which keeps serving until the cutover.
+    const activeDeployments = await this.prisma.akashDeployment.findMany({
       where: {
         serviceId: service.id,
         status: 'ACTIVE',
       },
+      orderBy: { deployedAt: 'desc' },
     })
+    const cutoverSource =
+      options.strategy === 'BLUE_GREEN' ? (activeDeployments[0] ?? null) : null
+    const existingDeployments = activeDeployments.filter(
+      d => d.id !== cutoverSource?.id
+    )
+    if (cutoverSource) {
+      log.info(
+        `Blue-green redeploy for ${service.name}: dseq=${cutoverSource.dseq} keeps serving until cutover`
+      )
+    }
 
     const { isQStashEnabled, publishJob } =
       await import('../queue/qstashClient.js')
@@ -1364,6 +1386,11 @@ export class AkashOrchestrator {
           )
         }
       }
+
+      // Don't let the proxy keep routing to the lease we just closed for
+      // the rest of its cache TTL.
+      const { getSubdomainProxy } = await import('../proxy/subdomainProxy.js')
+      getSubdomainProxy()?.invalidateSlug(service.slug)
     }
 
     // Prepare SDL content. Pass region through so the SDL generator can
@@ -1408,6 +1435,8 @@ export class AkashOrchestrator {
         // the lease creation handler from the winning
         // provider's `ComputeProvider.region`.
         region: options.region ?? null,
+        cutoverFromId: cutoverSource?.id ?? null,
+        rollbackOfId: options.rollbackOfId ?? null,
       },
     })
 
@@ -1477,6 +1506,7 @@ export class AkashOrchestrator {
     // port when the user (or builder) didn't set one. See port-fallback below.
     flavor?: string | null
     gitProvider?: string | null
+    replicas?: number
     site?: { id: string } | null
     afFunction?: { id: string; sourceCode: string | null } | null
   }, resourceOverrides?: {
@@ -1561,6 +1591,7 @@ export class AkashOrchestrator {
               }
             : undefined,
           region,
+          replicas: service.replicas,
         })
       }
       log.warn(
@@ -1600,6 +1631,7 @@ export class AkashOrchestrator {
         resourceOverrides,
         parsedVolumes,
         region,
+        service.replicas
       )
     }
 
@@ -1742,6 +1774,7 @@ export class AkashOrchestrator {
     },
     volumes: ServiceVolume[] = [],
     region?: string | null,
+    replicas = 1
   ): string {
     const needsKeepAlive = /^(ubuntu|debian|alpine|centos|fedora|busybox|amazonlinux|rockylinux|almalinux)(:|$)/i.test(image)
 
@@ -1850,7 +1883,7 @@ deployment:
   ${name}:
     dcloud:
       profile: ${name}
-      count: 1
+      count: ${volumes.length > 0 ? 1 : Math.max(1, replicas)}
 `
   }
 
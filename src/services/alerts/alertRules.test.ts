@@ -0,0 +1,196 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { AlertRule } from '@prisma/client'
+import {
+  evaluateAlertRules,
+  measureAlertRule,
+  normalizeAlertRule,
+  type AlertDataSource,
+} from './alertRules.js'
+import { notify } from '../notifications/notify.js'
+
+vi.mock('../notifications/notify.js', () => ({ notify: vi.fn() }))
+
+function rule(overrides: Partial<AlertRule> = {}): AlertRule {
+  return {
+    id: 'rule-1',
+    projectId: 'proj-1',
+    name: 'API errors',
+    kind: 'SPAN_ERROR_RATE',
+    metricName: null,
+    aggregation: null,
+    serviceName: 'api',
+    logPattern: null,
+    minSeverityNumber: null,
+    comparator: 'GT',
+    threshold: 5,
+    windowMinutes: 5,
+    severity: 'critical',
+    enabled: true,
+    silencedUntil: null,
+    lastEvaluatedAt: null,
+    lastValue: null,
+    lastError: null,
+    createdByUserId: 'user-1',
+    createdAt: new Date('2026-06-01T00:00:00Z'),
+    updatedAt: new Date('2026-06-01T00:00:00Z'),
+    ...overrides,
+  }
+}
+
+function source(overrides: Partial<AlertDataSource> = {}): AlertDataSource {
+  return {
+    aggregateMetric: vi.fn().mockResolvedValue(null),
+    countLogs: vi.fn().mockResolvedValue(0),
+    getServices: vi.fn().mockResolvedValue([
+      { serviceName: 'api', spanCount: 200, errorCount: 20 },
+      { serviceName: 'worker', spanCount: 800, errorCount: 0 },
+    ]),
+    ...overrides,
+  } as AlertDataSource
+}
+
+describe('normalizeAlertRule', () => {
+  it('checks the fields each kind needs and clears the rest', () => {
+    expect(
+      normalizeAlertRule({ name: 'x', kind: 'METRIC_THRESHOLD', threshold: 1 })
+    ).toMatchObject({ ok: false })
+    expect(
+      normalizeAlertRule({
+        name: 'x',
+        kind: 'LOG_MATCH',
+        logPattern: '(unclosed',
+        threshold: 1,
+      })
+    ).toMatchObject({ ok: false })
+    expect(
+      normalizeAlertRule({
+        name: ' Latency ',
+        kind: 'METRIC_THRESHOLD',
+        metricName: 'http.server.duration',
+        serviceName: 'ignored',
+        threshold: 500,
+      })
+    ).toEqual({
+      ok: true,
+      rule: {
+        name: 'Latency',
+        kind: 'METRIC_THRESHOLD',
+        metricName: 'http.server.duration',
+        aggregation: 'AVG',
+        serviceName: null,
+        logPattern: null,
+        minSeverityNumber: null,
+        comparator: 'GT',
+        threshold: 500,
+        windowMinutes: 5,
+        severity: 'warning',
+      },
+    })
+  })
+})
+
+describe('measureAlertRule', () => {
+  it('computes the span error rate as a percentage', async () => {
+    const now = new Date('2026-06-01T12:00:00Z')
+    expect(await measureAlertRule(source(), rule(), now)).toBe(10)
+    expect(
+      await measureAlertRule(source(), rule({ serviceName: null }), now)
+    ).toBe(2)
+  })
+})
+
+describe('evaluateAlertRules', () => {
+  const now = new Date('2026-06-01T12:00:00Z')
+  let prisma: any
+
+  function withRules(rules: unknown[]) {
+    prisma = {
+      alertRule: {
+        findMany: vi.fn().mockResolvedValue(rules),
+        update: vi.fn().mockResolvedValue({}),
+      },
+      alertIncident: {
+        create: vi.fn().mockResolvedValue({ id: 'inc-1' }),
+        update: vi.fn().mockResolvedValue({}),
+        updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+      },
+      auditEvent: { create: vi.fn().mockResolvedValue({}) },
+    }
+  }
+
+  beforeEach(() => {
+    vi.mocked(notify).mockClear()
+  })
+
+  it('opens an incident and notifies when a rule breaches', async () => {
+    withRules([{ ...rule(), incidents: [] }])
+
+    const result = await evaluateAlertRules(prisma, source(), now)
+
+    expect(result).toMatchObject({ evaluated: 1, fired: 1 })
+    expect(prisma.alertIncident.create.mock.calls[0][0].data).toMatchObject({
+      ruleId: 'rule-1',
+      value: 10,
+      silenced: false,
+    })
+    expect(notify).toHaveBeenCalledWith(
+      prisma,
+      expect.objectContaining({
+        event: 'alert.firing',
+        severity: 'critical',
+        projectId: 'proj-1',
+        dedupeKey: 'alert.firing:inc-1',
+      })
+    )
+  })
+
+  it('opens silenced incidents without notifying', async () => {
+    const silencedUntil = new Date('2026-06-01T13:00:00Z')
+    withRules([{ ...rule({ silencedUntil }), incidents: [] }])
+
+    await evaluateAlertRules(prisma, source(), now)
+
+    expect(prisma.alertIncident.create.mock.calls[0][0].data.silenced).toBe(
+      true
+    )
+    expect(notify).not.toHaveBeenCalled()
+  })
+
+  it('resolves the open incident once the value is back', async () => {
+    const open = {
+      id: 'inc-0',
+      peakValue: 12,
+      silenced: false,
+      startedAt: new Date('2026-06-01T11:50:00Z'),
+    }
+    withRules([{ ...rule({ threshold: 15 }), incidents: [open] }])
+
+    const result = await evaluateAlertRules(prisma, source(), now)
+
+    expect(result.resolved).toBe(1)
+    expect(prisma.alertIncident.updateMany).toHaveBeenCalledWith({
+      where: { id: 'inc-0', status: 'FIRING' },
+      data: { status: 'RESOLVED', resolvedAt: now, lastValue: 10 },
+    })
+    expect(notify).toHaveBeenCalledWith(
+      prisma,
+      expect.objectContaining({ event: 'alert.resolved' })
+    )
+  })
+
+  it('leaves the state alone when the window has no data', async () => {
+    withRules([{ ...rule(), incidents: [] }])
+
+    await evaluateAlertRules(
+      prisma,
+      source({ getServices: vi.fn().mockResolvedValue([]) }),
+      now
+    )
+
+    expect(prisma.alertIncident.create).not.toHaveBeenCalled()
+    expect(prisma.alertRule.update).toHaveBeenCalledWith({
+      where: { id: 'rule-1' },
+      data: { lastEvaluatedAt: now, lastValue: null, lastError: null },
+    })
+  })
+})
@@ -0,0 +1,478 @@
+/**
+ * Alert rules over a project's observability data.
+ *
+ * Each rule measures one number over a trailing window of ClickHouse data:
+ *   - METRIC_THRESHOLD  an aggregate (AVG/SUM/MIN/MAX/COUNT) of one metric
+ *   - SPAN_ERROR_RATE   percent of spans with status ERROR, for one OTel
+ *                       service or all of them
+ *   - LOG_MATCH         number of log lines whose body matches an RE2
+ *                       pattern, optionally from a minimum severity
+ * and compares it to `threshold`. A breach opens a FIRING incident; the
+ * first evaluation that no longer breaches resolves it. A window with no
+ * data (no points for the metric, no spans) leaves the state as it is.
+ *
+ * Transitions are sent to the project's notification channels as
+ * `alert.firing` / `alert.resolved` and audited. While a rule is silenced
+ * incidents still open and close, but an incident that opened silenced
+ * stays quiet until it resolves.
+ */
+
+import type {
+  AlertComparator,
+  AlertIncident,
+  AlertRule,
+  AlertRuleKind,
+  PrismaClient,
+} from '@prisma/client'
+import { audit } from '../../lib/audit.js'
+import { createLogger } from '../../lib/logger.js'
+import type { ClickHouseObservabilityClient } from '../observability/clickhouseClient.js'
+import type { NotificationSeverity } from '../notifications/channels.js'
+import { notify } from '../notifications/notify.js'
+
+const log = createLogger('alert-rules')
+
+export const ALERT_SEVERITIES: NotificationSeverity[] = [
+  'info',
+  'warning',
+  'critical',
+]
+export const METRIC_AGGREGATIONS = ['AVG', 'SUM', 'MIN', 'MAX', 'COUNT']
+
+const ALERT_RULE_KINDS: AlertRuleKind[] = [
+  'METRIC_THRESHOLD',
+  'SPAN_ERROR_RATE',
+  'LOG_MATCH',
+]
+const COMPARATORS: AlertComparator[] = ['GT', 'GTE', 'LT', 'LTE']
+const MAX_NAME_LENGTH = 100
+const MAX_WINDOW_MINUTES = 24 * 60
+const MAX_PATTERN_LENGTH = 200
+
+/** Longest a rule can be silenced for in one go. */
+export const MAX_SILENCE_MINUTES = 7 * 24 * 60
+
+/** Where rule values come from; the ClickHouse client in production. */
+export type AlertDataSource = Pick<
+  ClickHouseObservabilityClient,
+  'aggregateMetric' | 'countLogs' | 'getServices'
+>
+
+export interface AlertRuleInput {
+  name?: string | null
+  kind?: AlertRuleKind | null
+  metricName?: string | null
+  aggregation?: string | null
+  serviceName?: string | null
+  logPattern?: string | null
+  minSeverityNumber?: number | null
+  comparator?: AlertComparator | null
+  threshold?: number | null
+  windowMinutes?: number | null
+  severity?: string | null
+}
+
+export type AlertRuleFields = Pick<
+  AlertRule,
+  | 'name'
+  | 'kind'
+  | 'metricName'
+  | 'aggregation'
+  | 'serviceName'
+  | 'logPattern'
+  | 'minSeverityNumber'
+  | 'comparator'
+  | 'threshold'
+  | 'windowMinutes'
+  | 'severity'
+>
+
+function optionalText(raw: string | null | undefined): string | null {
+  const text = raw?.trim() ?? ''
+  return text || null
+}
+
+/**
+ * Validate a full rule (create, or an update merged over the stored rule).
+ * Fields that don't apply to the rule's kind are cleared.
+ */
+export function normalizeAlertRule(
+  input: AlertRuleInput
+): { ok: true; rule: AlertRuleFields } | { ok: false; reason: string } {
+  const name = (input.name ?? '').trim()
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    return {
+      ok: false,
+      reason: `name must be 1-${MAX_NAME_LENGTH} characters`,
+    }
+  }
+  const kind = input.kind
+  if (!kind || !ALERT_RULE_KINDS.includes(kind)) {
+    return {
+      ok: false,
+      reason: `kind must be one of: ${ALERT_RULE_KINDS.join(', ')}`,
+    }
+  }
+  const comparator = input.comparator ?? 'GT'
+  if (!COMPARATORS.includes(comparator)) {
+    return {
+      ok: false,
+      reason: `comparator must be one of: ${COMPARATORS.join(', ')}`,
+    }
+  }
+  const threshold = input.threshold
+  if (typeof threshold !== 'number' || !Number.isFinite(threshold)) {
+    return { ok: false, reason: 'threshold must be a number' }
+  }
+  const windowMinutes = input.windowMinutes ?? 5
+  if (
+    !Number.isInteger(windowMinutes) ||
+    windowMinutes < 1 ||
+    windowMinutes > MAX_WINDOW_MINUTES
+  ) {
+    return {
+      ok: false,
+      reason: `windowMinutes must be a whole number from 1 to ${MAX_WINDOW_MINUTES}`,
+    }
+  }
+  const severity = (input.severity ?? 'warning').toLowerCase()
+  if (!ALERT_SEVERITIES.includes(severity as NotificationSeverity)) {
+    return {
+      ok: false,
+      reason: `severity must be one of: ${ALERT_SEVERITIES.join(', ')}`,
+    }
+  }
+
+  const rule: AlertRuleFields = {
+    name,
+    kind,
+    metricName: null,
+    aggregation: null,
+    serviceName: null,
+    logPattern: null,
+    minSeverityNumber: null,
+    comparator,
+    threshold,
+    windowMinutes,
+    severity,
+  }
+
+  if (kind === 'METRIC_THRESHOLD') {
+    rule.metricName = optionalText(input.metricName)
+    if (!rule.metricName) {
+      return { ok: false, reason: 'METRIC_THRESHOLD rules need a metricName' }
+    }
+    rule.aggregation = (input.aggregation ?? 'AVG').toUpperCase()
+    if (!METRIC_AGGREGATIONS.includes(rule.aggregation)) {
+      return {
+        ok: false,
+        reason: `aggregation must be one of: ${METRIC_AGGREGATIONS.join(', ')}`,
+      }
+    }
+  } else if (kind === 'SPAN_ERROR_RATE') {
+    if (threshold < 0 || threshold > 100) {
+      return {
+        ok: false,
+        reason: 'SPAN_ERROR_RATE thresholds are a percentage (0-100)',
+      }
+    }
+    rule.serviceName = optionalText(input.serviceName)
+  } else {
+    rule.logPattern = optionalText(input.logPattern)
+    if (rule.logPattern) {
+      if (rule.logPattern.length > MAX_PATTERN_LENGTH) {
+        return {
+          ok: false,
+          reason: `logPattern can be at most ${MAX_PATTERN_LENGTH} characters`,
+        }
+      }
+      // RE2 is close enough to JS syntax to reject obvious typos here.
+      try {
+        new RegExp(rule.logPattern)
+      } catch {
+        return { ok: false, reason: 'logPattern is not a valid pattern' }
+      }
+    }
+    const severityNumber = input.minSeverityNumber
+    if (severityNumber !== null && severityNumber !== undefined) {
+      if (
+        !Number.isInteger(severityNumber) ||
+        severityNumber < 1 ||
+        severityNumber > 24
+      ) {
+        return {
+          ok: false,
+          reason: 'minSeverityNumber must be an OTel severity from 1 to 24',
+        }
+      }
+      rule.minSeverityNumber = severityNumber
+    }
+  }
+
+  return { ok: true, rule }
+}
+
+export function isBreached(
+  value: number,
+  comparator: AlertComparator,
+  threshold: number
+): boolean {
+  switch (comparator) {
+    case 'GT':
+      return value > threshold
+    case 'GTE':
+      return value >= threshold
+    case 'LT':
+      return value < threshold
+    case 'LTE':
+      return value <= threshold
+  }
+}
+
+/**
+ * The rule's value over the window ending at `now`, or null when there is
+ * nothing to measure.
+ */
+export async function measureAlertRule(
+  source: AlertDataSource,
+  rule: AlertRule,
+  now = new Date()
+): Promise<number | null> {
+  const range = {
+    projectId: rule.projectId,
+    startTime: new Date(now.getTime() - rule.windowMinutes * 60_000),
+    endTime: now,
+  }
+  switch (rule.kind) {
+    case 'METRIC_THRESHOLD':
+      return source.aggregateMetric({
+        ...range,
+        metricName: rule.metricName ?? '',
+        aggregation: (rule.aggregation ?? 'AVG').toLowerCase() as
+          | 'avg'
+          | 'sum'
+          | 'min'
+          | 'max'
+          | 'count',
+      })
+    case 'SPAN_ERROR_RATE': {
+      const stats = await source.getServices(
+        range.projectId,
+        range.startTime,
+        range.endTime
+      )
+      const rows = rule.serviceName
+        ? stats.filter(s => s.serviceName === rule.serviceName)
+        : stats
+      const spans = rows.reduce((sum, s) => sum + Number(s.spanCount), 0)
+      if (spans === 0) return null
+      const errors = rows.reduce((sum, s) => sum + Number(s.errorCount), 0)
+      return (errors / spans) * 100
+    }
+    case 'LOG_MATCH':
+      return source.countLogs({
+        ...range,
+        pattern: rule.logPattern ?? undefined,
+        minSeverityNumber: rule.minSeverityNumber ?? undefined,
+      })
+  }
+}
+
+const COMPARATOR_TEXT: Record<AlertComparator, string> = {
+  GT: 'above',
+  GTE: 'at or above',
+  LT: 'below',
+  LTE: 'at or below',
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/** What was measured, for notification text. */
+export function describeAlertValue(rule: AlertRule, value: number): string {
+  switch (rule.kind) {
+    case 'METRIC_THRESHOLD':
+      return `${(rule.aggregation ?? 'AVG').toLowerCase()}(${rule.metricName}) = ${round(value)}`
+    case 'SPAN_ERROR_RATE':
+      return `${rule.serviceName ? `${rule.serviceName} span` : 'Span'} error rate ${round(value)}%`
+    case 'LOG_MATCH':
+      return `${value} matching log line${value === 1 ? '' : 's'}`
+  }
+}
+
+export function isSilenced(
+  rule: Pick<AlertRule, 'silencedUntil'>,
+  now: Date
+): boolean {
+  return rule.silencedUntil !== null && rule.silencedUntil > now
+}
+
+/** Further past the threshold, in the direction the rule watches. */
+function peakOf(comparator: AlertComparator, a: number, b: number): number {
+  return comparator === 'LT' || comparator === 'LTE'
+    ? Math.min(a, b)
+    : Math.max(a, b)
+}
+
+async function openIncident(
+  prisma: PrismaClient,
+  rule: AlertRule,
+  value: number,
+  now: Date
+): Promise<void> {
+  const silenced = isSilenced(rule, now)
+  const incident = await prisma.alertIncident.create({
+    data: {
+      ruleId: rule.id,
+      projectId: rule.projectId,
+      threshold: rule.threshold,
+      value,
+      peakValue: value,
+      lastValue: value,
+      silenced,
+      startedAt: now,
+    },
+  })
+  audit(prisma, {
+    category: 'health',
+    action: 'alert.fired',
+    status: 'warn',
+    projectId: rule.projectId,
+    payload: {
+      ruleId: rule.id,
+      incidentId: incident.id,
+      kind: rule.kind,
+      value,
+      threshold: rule.threshold,
+      silenced,
+    },
+  })
+  if (silenced) return
+  notify(prisma, {
+    event: 'alert.firing',
+    severity: rule.severity as NotificationSeverity,
+    title: `Alert firing: ${rule.name}`,
+    message: `${describeAlertValue(rule, value)} is ${COMPARATOR_TEXT[rule.comparator]} ${rule.threshold} over the last ${rule.windowMinutes} min.`,
+    projectId: rule.projectId,
+    dedupeKey: `alert.firing:${incident.id}`,
+    data: {
+      ruleId: rule.id,
+      incidentId: incident.id,
+      value,
+      threshold: rule.threshold,
+    },
+  })
+}
+
+export async function resolveIncident(
+  prisma: PrismaClient,
+  rule: AlertRule,
+  incident: AlertIncident,
+  value: number | null,
+  now: Date
+): Promise<void> {
+  const resolved = await prisma.alertIncident.updateMany({
+    where: { id: incident.id, status: 'FIRING' },
+    data: {
+      status: 'RESOLVED',
+      resolvedAt: now,
+      ...(value === null ? {} : { lastValue: value }),
+    },
+  })
+  if (resolved.count === 0) return
+  audit(prisma, {
+    category: 'health',
+    action: 'alert.resolved',
+    projectId: rule.projectId,
+    durationMs: now.getTime() - incident.startedAt.getTime(),
+    payload: { ruleId: rule.id, incidentId: incident.id, value },
+  })
+  if (value === null || incident.silenced || isSilenced(rule, now)) return
+  notify(prisma, {
+    event: 'alert.resolved',
+    severity: 'info',
+    title: `Alert resolved: ${rule.name}`,
+    message: `${describeAlertValue(rule, value)} is no longer ${COMPARATOR_TEXT[rule.comparator]} ${rule.threshold}.`,
+    projectId: rule.projectId,
+    dedupeKey: `alert.resolved:${incident.id}`,
+    data: {
+      ruleId: rule.id,
+      incidentId: incident.id,
+      value,
+      peakValue: incident.peakValue,
+    },
+  })
+}
+
+export interface AlertEvaluationResult {
+  evaluated: number
+  fired: number
+  resolved: number
+  failed: number
+}
+
+/** Evaluate every enabled rule once. */
+export async function evaluateAlertRules(
+  prisma: PrismaClient,
+  source: AlertDataSource,
+  now = new Date()
+): Promise<AlertEvaluationResult> {
+  const rules = await prisma.alertRule.findMany({
+    where: { enabled: true },
+    include: {
+      incidents: {
+        where: { status: 'FIRING' },
+        orderBy: { startedAt: 'desc' },
+        take: 1,
+      },
+    },
+  })
+  const result: AlertEvaluationResult = {
+    evaluated: 0,
+    fired: 0,
+    resolved: 0,
+    failed: 0,
+  }
+
+  for (const { incidents, ...rule } of rules) {
+    const open = incidents[0] ?? null
+    try {
+      const value = await measureAlertRule(source, rule, now)
+      result.evaluated++
+      if (value !== null) {
+        const breached = isBreached(value, rule.comparator, rule.threshold)
+        if (breached && !open) {
+          await openIncident(prisma, rule, value, now)
+          result.fired++
+        } else if (breached && open) {
+          await prisma.alertIncident.update({
+            where: { id: open.id },
+            data: {
+              lastValue: value,
+              peakValue: peakOf(rule.comparator, open.peakValue, value),
+            },
+          })
+        } else if (open) {
+          await resolveIncident(prisma, rule, open, value, now)
+          result.resolved++
+        }
+      }
+      await prisma.alertRule.update({
+        where: { id: rule.id },
+        data: { lastEvaluatedAt: now, lastValue: value, lastError: null },
+      })
+    } catch (err) {
+      result.failed++
+      const message = err instanceof Error ? err.message : String(err)
+      log.warn({ err, ruleId: rule.id }, 'Alert rule evaluation failed')
+      await prisma.alertRule
+        .update({
+          where: { id: rule.id },
+          data: { lastEvaluatedAt: now, lastError: message.slice(0, 500) },
+        })
+        .catch(() => undefined)
+    }
+  }
+  return result
+}
@@ -0,0 +1,73 @@
+/**
+ * Alert Scheduler
+ *
+ * Evaluates every enabled alert rule once a minute (see alertRules.ts).
+ * Incidents must open and resolve exactly once, so this is wrapped in
+ * `runWithLeadership('alert-scheduler', …)` in `index.ts`.
+ */
+
+import * as cron from 'node-cron'
+import { randomUUID } from 'node:crypto'
+import type { PrismaClient } from '@prisma/client'
+import { createLogger } from '../../lib/logger.js'
+import { requestContext } from '../../lib/requestContext.js'
+import { getClickHouseClient } from '../observability/clickhouseClient.js'
+import { evaluateAlertRules } from './alertRules.js'
+
+const log = createLogger('alert-scheduler')
+
+export class AlertScheduler {
+  private cronJob: cron.ScheduledTask | null = null
+  private running = false
+  private readonly prisma: PrismaClient
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma
+  }
+
+  start() {
+    if (this.cronJob) {
+      log.info('Already running')
+      return
+    }
+
+    this.cronJob = cron.schedule('* * * * *', async () => {
+      await this.runOnce()
+    })
+
+    log.info('Started — evaluates alert rules every minute')
+  }
+
+  stop() {
+    if (this.cronJob) {
+      this.cronJob.stop()
+      this.cronJob = null
+      log.info('Stopped')
+    }
+  }
+
+  async runOnce(now = new Date()) {
+    if (this.running) {
+      log.info('Previous alert evaluation still in progress — skipping tick')
+      return
+    }
+    this.running = true
+    const traceId = randomUUID()
+    try {
+      await requestContext.run({ requestId: traceId, traceId }, async () => {
+        const result = await evaluateAlertRules(
+          this.prisma,
+          getClickHouseClient(),
+          now
+        )
+        if (result.fired > 0 || result.resolved > 0 || result.failed > 0) {
+          log.info(result, 'Alert evaluation complete')
+        }
+      })
+    } catch (err) {
+      log.error({ err }, 'Alert evaluation failed')
+    } finally {
+      this.running = false
+    }
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Deploy Approval Expiry Scheduler
+ *
+ * Every 5 minutes, marks deploy approval requests that nobody decided on
+ * in time EXPIRED, so they drop out of the approvers' queue and can no
+ * longer be approved. One pod only (leadership in `index.ts`).
+ */
+
+import * as cron from 'node-cron'
+import { randomUUID } from 'node:crypto'
+import type { PrismaClient } from '@prisma/client'
+import { createLogger } from '../../lib/logger.js'
+import { requestContext } from '../../lib/requestContext.js'
+import { expireDeployApprovals } from './deployApprovals.js'
+
+const log = createLogger('deploy-approval-expiry-scheduler')
+
+export class DeployApprovalExpiryScheduler {
+  private cronJob: cron.ScheduledTask | null = null
+  private running = false
+  private readonly prisma: PrismaClient
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma
+  }
+
+  start() {
+    if (this.cronJob) {
+      log.info('Already running')
+      return
+    }
+
+    this.cronJob = cron.schedule('*/5 * * * *', async () => {
+      await this.runOnce()
+    })
+
+    log.info('Started — expires undecided deploy approvals every 5 minutes')
+  }
+
+  stop() {
+    if (this.cronJob) {
+      this.cronJob.stop()
+      this.cronJob = null
+      log.info('Stopped')
+    }
+  }
+
+  async runOnce(now = new Date()) {
+    if (this.running) {
+      log.info('Previous expiry sweep still in progress — skipping tick')
+      return
+    }
+    this.running = true
+    const traceId = randomUUID()
+    try {
+      await requestContext.run({ requestId: traceId, traceId }, async () => {
+        const expired = await expireDeployApprovals(this.prisma, now)
+        if (expired > 0) log.info({ expired }, 'Deploy approvals expired')
+      })
+    } catch (err) {
+      log.error({ err }, 'Deploy approval expiry sweep failed')
+    } finally {
+      this.running = false
+    }
+  }
+}
@@ -0,0 +1,122 @@
+import { describe, expect, it, vi } from 'vitest'
+import {
+  canApprove,
+  expireDeployApprovals,
+  matchApprovalRules,
+  normalizeApprovalRule,
+  type ApprovalRuleFields,
+} from './deployApprovals.js'
+
+function rule(overrides: Partial<ApprovalRuleFields> = {}): ApprovalRuleFields {
+  return {
+    id: 'r1',
+    name: 'Expensive',
+    projectIds: [],
+    minHourlyCostCents: 200,
+    requireForGpu: false,
+    approverRole: 'ADMIN',
+    ...overrides,
+  }
+}
+
+describe('matchApprovalRules', () => {
+  const deploy = { projectId: 'prod', hourlyCostCents: 250, gpuUnits: 0 }
+
+  it('holds deploys at or over the cost threshold', () => {
+    expect(matchApprovalRules([rule()], deploy)).toEqual({
+      ruleIds: ['r1'],
+      reasons: ['Expensive: $2.50/hr is at or above $2.00/hr'],
+      approverRole: 'ADMIN',
+    })
+    expect(
+      matchApprovalRules([rule()], { ...deploy, hourlyCostCents: 199 })
+    ).toBeNull()
+  })
+
+  it('only applies project-scoped rules to their projects', () => {
+    const gpu = rule({
+      id: 'r2',
+      name: 'Prod GPUs',
+      projectIds: ['prod'],
+      minHourlyCostCents: null,
+      requireForGpu: true,
+      approverRole: 'OWNER',
+    })
+    const cheapGpu = { projectId: 'prod', hourlyCostCents: 50, gpuUnits: 2 }
+    expect(matchApprovalRules([rule(), gpu], cheapGpu)).toMatchObject({
+      ruleIds: ['r2'],
+      reasons: ['Prod GPUs: requests 2 GPUs'],
+      approverRole: 'OWNER',
+    })
+    expect(
+      matchApprovalRules([gpu], { ...cheapGpu, projectId: 'staging' })
+    ).toBeNull()
+  })
+})
+
+describe('canApprove', () => {
+  it('lets owners approve everything and admins only ADMIN rules', () => {
+    expect(canApprove('OWNER', 'OWNER')).toBe(true)
+    expect(canApprove('ADMIN', 'ADMIN')).toBe(true)
+    expect(canApprove('ADMIN', 'OWNER')).toBe(false)
+    expect(canApprove('DEVELOPER', 'ADMIN')).toBe(false)
+    expect(canApprove(null, 'ADMIN')).toBe(false)
+  })
+})
+
+describe('normalizeApprovalRule', () => {
+  it('needs at least one condition and an approver role', () => {
+    expect(normalizeApprovalRule({ name: 'x' })).toMatchObject({ ok: false })
+    expect(
+      normalizeApprovalRule({
+        name: 'x',
+        requireForGpu: true,
+        approverRole: 'DEVELOPER',
+      })
+    ).toMatchObject({ ok: false })
+    expect(
+      normalizeApprovalRule({ name: ' Big ', minHourlyCostUsd: 2.5 })
+    ).toEqual({
+      ok: true,
+      rule: {
+        name: 'Big',
+        projectIds: [],
+        minHourlyCostCents: 250,
+        requireForGpu: false,
+        approverRole: 'ADMIN',
+      },
+    })
+  })
+})
+
+describe('expireDeployApprovals', () => {
+  it('expires overdue requests that are still pending', async () => {
+    const auditCreate = vi.fn().mockResolvedValue({})
+    const updateMany = vi
+      .fn()
+      .mockResolvedValueOnce({ count: 1 })
+      .mockResolvedValueOnce({ count: 0 })
+    const prisma = {
+      deployApprovalRequest: {
+        findMany: vi.fn().mockResolvedValue([
+          { id: 'a', organizationId: 'org-1', projectId: 'p1' },
+          { id: 'b', organizationId: 'org-1', projectId: 'p1' },
+        ]),
+        updateMany,
+      },
+      auditEvent: { create: auditCreate },
+    } as any
+    const now = new Date('2026-06-01T12:00:00Z')
+
+    expect(await expireDeployApprovals(prisma, now)).toBe(1)
+    expect(updateMany).toHaveBeenCalledWith({
+      where: { id: 'a', status: 'PENDING' },
+      data: { status: 'EXPIRED', decidedAt: now },
+    })
+    await vi.waitFor(() => expect(auditCreate).toHaveBeenCalledTimes(1))
+    expect(auditCreate.mock.calls[0][0].data).toMatchObject({
+      action: 'deployment.approval_expired',
+      payload: { approvalRequestId: 'a' },
+    })
+  })
+})
@@ -0,0 +1,237 @@
+/**
+ * Deploy approvals: per-organization rules that hold expensive or GPU
+ * deploys until an admin signs off.
+ *
+ * A rule matches a deploy to one of its projects (or any org project when
+ * it lists none) when the hourly cost reaches `minHourlyCostCents` or,
+ * with `requireForGpu`, when it asks for a GPU. A matching deploy is not
+ * launched: the mutation args are sealed into a `DeployApprovalRequest`
+ * and the caller gets an APPROVAL_REQUIRED error. Approving replays the
+ * same mutation with the same args, so the deploy goes through the usual
+ * provider queue steps. Requests expire after DEPLOY_APPROVAL_TTL_HOURS
+ * (default 24); the expiry sweep runs on the leader pod.
+ *
+ * Members who already hold the approver role aren't held back by a rule:
+ * they would only be asking themselves.
+ */
+
+import crypto from 'node:crypto'
+import type {
+  DeployApprovalRule,
+  OrganizationRole,
+  PrismaClient,
+} from '@prisma/client'
+import { audit } from '../../lib/audit.js'
+
+/**
+ * Deploy mutations that can be held for approval and replayed.
+ * `rollbackService` is one: a build rollback launches today's service
+ * config and a replay may predate the rule, so neither is trusted just
+ * because it ran before. It is checked against the target's (or today's)
+ * cost and GPUs, and approving it re-runs the rollback.
+ */
+export const APPROVABLE_OPERATIONS = [
+  'deployToAkash',
+  'deployFunctionToAkash',
+  'deployToPhala',
+  'deployToSpheron',
+  'deployFromTemplate',
+  'deployFromTemplateToPhala',
+  'deployFromTemplateToSpheron',
+  'deployCompositeTemplate',
+  'rollbackService',
+] as const
+
+export type ApprovableOperation = (typeof APPROVABLE_OPERATIONS)[number]
+
+export const APPROVER_ROLES: OrganizationRole[] = ['ADMIN', 'OWNER']
+
+const DEFAULT_TTL_HOURS = 24
+const MAX_RULE_PROJECTS = 50
+
+export function getApprovalTtlHours(): number {
+  const raw = Number.parseInt(process.env.DEPLOY_APPROVAL_TTL_HOURS ?? '', 10)
+  return Number.isFinite(raw) && raw >= 1 && raw <= 168
+    ? raw
+    : DEFAULT_TTL_HOURS
+}
+
+export type ApprovalRuleFields = Pick<
+  DeployApprovalRule,
+  | 'id'
+  | 'name'
+  | 'projectIds'
+  | 'minHourlyCostCents'
+  | 'requireForGpu'
+  | 'approverRole'
+>
+
+export interface DeployFacts {
+  projectId: string
+  hourlyCostCents: number
+  gpuUnits: number
+}
+
+export interface ApprovalMatch {
+  ruleIds: string[]
+  reasons: string[]
+  /** The strictest approver role among the matching rules. */
+  approverRole: OrganizationRole
+}
+
+function usd(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`
+}
+
+export function matchApprovalRules(
+  rules: ApprovalRuleFields[],
+  deploy: DeployFacts
+): ApprovalMatch | null {
+  const match: ApprovalMatch = {
+    ruleIds: [],
+    reasons: [],
+    approverRole: 'ADMIN',
+  }
+  for (const rule of rules) {
+    if (rule.projectIds.length && !rule.projectIds.includes(deploy.projectId)) {
+      continue
+    }
+    const reasons: string[] = []
+    if (
+      rule.minHourlyCostCents !== null &&
+      deploy.hourlyCostCents >= rule.minHourlyCostCents
+    ) {
+      reasons.push(
+        `${rule.name}: ${usd(deploy.hourlyCostCents)}/hr is at or above ${usd(rule.minHourlyCostCents)}/hr`
+      )
+    }
+    if (rule.requireForGpu && deploy.gpuUnits > 0) {
+      reasons.push(
+        `${rule.name}: requests ${deploy.gpuUnits} GPU${deploy.gpuUnits === 1 ? '' : 's'}`
+      )
+    }
+    if (reasons.length === 0) continue
+    match.ruleIds.push(rule.id)
+    match.reasons.push(...reasons)
+    if (rule.approverRole === 'OWNER') match.approverRole = 'OWNER'
+  }
+  return match.ruleIds.length ? match : null
+}
+
+/** OWNER rules need an owner; ADMIN rules accept admins and owners. */
+export function canApprove(
+  role: OrganizationRole | null,
+  approverRole: OrganizationRole
+): boolean {
+  if (role === 'OWNER') return true
+  return role === 'ADMIN' && approverRole === 'ADMIN'
+}
+
+/** Identifies a repeated request for the same deploy. */
+export function hashDeployArgs(operation: string, args: unknown): string {
+  return crypto
+    .createHash('sha256')
+    .update(`${operation}\n${JSON.stringify(args)}`)
+    .digest('hex')
+}
+
+export interface ApprovalRuleInput {
+  name?: string | null
+  projectIds?: string[] | null
+  minHourlyCostUsd?: number | null
+  requireForGpu?: boolean | null
+  approverRole?: OrganizationRole | null
+}
+
+export interface ApprovalRuleFieldsInput {
+  name: string
+  projectIds: string[]
+  minHourlyCostCents: number | null
+  requireForGpu: boolean
+  approverRole: OrganizationRole
+}
+
+/** Validate a full rule (create, or an update merged over the stored rule). */
+export function normalizeApprovalRule(
+  input: ApprovalRuleInput
+): { ok: true; rule: ApprovalRuleFieldsInput } | { ok: false; reason: string } {
+  const name = (input.name ?? '').trim()
+  if (!name || name.length > 100) {
+    return { ok: false, reason: 'name must be 1-100 characters' }
+  }
+  const projectIds = [...new Set(input.projectIds ?? [])]
+  if (projectIds.length > MAX_RULE_PROJECTS) {
+    return {
+      ok: false,
+      reason: `a rule can list at most ${MAX_RULE_PROJECTS} projects`,
+    }
+  }
+  const cost = input.minHourlyCostUsd
+  if (
+    cost !== null &&
+    cost !== undefined &&
+    (!Number.isFinite(cost) || cost < 0)
+  ) {
+    return { ok: false, reason: 'minHourlyCostUsd must be zero or more' }
+  }
+  const requireForGpu = input.requireForGpu ?? false
+  if ((cost === null || cost === undefined) && !requireForGpu) {
+    return {
+      ok: false,
+      reason: 'set minHourlyCostUsd, requireForGpu, or both',
+    }
+  }
+  const approverRole = input.approverRole ?? 'ADMIN'
+  if (!APPROVER_ROLES.includes(approverRole)) {
+    return { ok: false, reason: 'approverRole must be ADMIN or OWNER' }
+  }
+  return {
+    ok: true,
+    rule: {
+      name,
+      projectIds,
+      minHourlyCostCents:
+        cost === null || cost === undefined ? null : Math.round(cost * 100),
+      requireForGpu,
+      approverRole,
+    },
+  }
+}
+
+/** Mark overdue PENDING requests EXPIRED. Returns how many expired. */
+export async function expireDeployApprovals(
+  prisma: PrismaClient,
+  now = new Date()
+): Promise<number> {
+  const overdue = await prisma.deployApprovalRequest.findMany({
+    where: { status: 'PENDING', expiresAt: { lte: now } },
+    select: {
+      id: true,
+      organizationId: true,
+      projectId: true,
+      serviceId: true,
+      requestedByUserId: true,
+    },
+    take: 500,
+  })
+  let expired = 0
+  for (const request of overdue) {
+    const claimed = await prisma.deployApprovalRequest.updateMany({
+      where: { id: request.id, status: 'PENDING' },
+      data: { status: 'EXPIRED', decidedAt: now },
+    })
+    if (claimed.count === 0) continue
+    expired++
+    audit(prisma, {
+      category: 'deployment',
+      action: 'deployment.approval_expired',
+      status: 'warn',
+      userId: request.requestedByUserId,
+      orgId: request.organizationId,
+      projectId: request.projectId,
+      serviceId: request.serviceId,
+      payload: { approvalRequestId: request.id },
+    })
+  }
+  return expired
+}
@@ -0,0 +1,128 @@
+/**
+ * Organization roles and what each one may do.
+ *
+ * Access to an org project still starts with membership (see
+ * `assertProjectAccess` / `authorizeServiceAccess`); the role then decides
+ * which actions are allowed. Personal projects (no organization) have a
+ * single owner, who may do everything.
+ *
+ *   OWNER      everything, including deleting projects
+ *   ADMIN      everything except deleting projects
+ *   DEVELOPER  build, deploy and operate services (env vars, shell)
+ *   VIEWER     read-only: projects, deployments, logs, metrics
+ *   BILLING    read-only, plus billing and spend / runtime policies
+ *
+ * `MEMBER` is the pre-RBAC name for DEVELOPER and is treated the same.
+ */
+
+import type { OrganizationRole, PrismaClient } from '@prisma/client'
+
+export type OrgPermission =
+  /** See projects, services, deployments, logs and metrics. */
+  | 'project.read'
+  /** Create and change services, deploy, manage env vars and domains. */
+  | 'deploy'
+  /** Read secret env var values. */
+  | 'env.reveal'
+  /** Open an interactive shell in a running container. */
+  | 'shell.open'
+  /** Budgets, failover / preview / run-schedule policies. */
+  | 'policy.manage'
+  /** Payment-affecting actions (domain purchases, …). */
+  | 'billing.manage'
+  /** Members, invites, integrations and org event webhooks. */
+  | 'org.manage'
+  | 'project.delete'
+
+export const ORG_ROLES: OrganizationRole[] = [
+  'OWNER',
+  'ADMIN',
+  'DEVELOPER',
+  'VIEWER',
+  'BILLING',
+]
+
+const DEVELOPER_PERMISSIONS: OrgPermission[] = [
+  'project.read',
+  'deploy',
+  'env.reveal',
+  'shell.open',
+]
+
+const ROLE_PERMISSIONS: Record<OrganizationRole, ReadonlySet<OrgPermission>> = {
+  OWNER: new Set<OrgPermission>([
+    ...DEVELOPER_PERMISSIONS,
+    'policy.manage',
+    'billing.manage',
+    'org.manage',
+    'project.delete',
+  ]),
+  ADMIN: new Set<OrgPermission>([
+    ...DEVELOPER_PERMISSIONS,
+    'policy.manage',
+    'billing.manage',
+    'org.manage',
+  ]),
+  DEVELOPER: new Set(DEVELOPER_PERMISSIONS),
+  MEMBER: new Set(DEVELOPER_PERMISSIONS),
+  VIEWER: new Set<OrgPermission>(['project.read']),
+  BILLING: new Set<OrgPermission>([
+    'project.read',
+    'policy.manage',
+    'billing.manage',
+  ]),
+}
+
+export function roleHasPermission(
+  role: OrganizationRole,
+  permission: OrgPermission
+): boolean {
+  return ROLE_PERMISSIONS[role].has(permission)
+}
+
+export function permissionsForRole(role: OrganizationRole): OrgPermission[] {
+  return [...ROLE_PERMISSIONS[role]]
+}
+
+/**
+ * Map a role string from service-auth onto ours. Unknown roles get the
+ * least access rather than failing the membership sync.
+ */
+export function normalizeOrgRole(raw: unknown): OrganizationRole {
+  const role = typeof raw === 'string' ? raw.trim().toUpperCase() : ''
+  if (role === 'MEMBER') return 'DEVELOPER'
+  return (ORG_ROLES as string[]).includes(role)
+    ? (role as OrganizationRole)
+    : 'VIEWER'
+}
+
+/** The user's role in the org, or null when they aren't a member. */
+export async function getOrgRole(
+  prisma: PrismaClient,
+  organizationId: string,
+  userId: string
+): Promise<OrganizationRole | null> {
+  const member = await prisma.organizationMember.findUnique({
+    where: { organizationId_userId: { organizationId, userId } },
+    select: { role: true },
+  })
+  return member?.role ?? null
+}
+
+/**
+ * Permission check for a project the caller already has access to.
+ * Personal projects are all-access for their owner.
+ */
+export async function hasProjectPermission(
+  prisma: PrismaClient,
+  project: { organizationId: string | null },
+  userId: string,
+  permission: OrgPermission
+): Promise<{ allowed: boolean; role: OrganizationRole | null }> {
+  if (!project.organizationId) return { allowed: true, role: 'OWNER' }
+  const role = await getOrgRole(prisma, project.organizationId, userId)
+  return {
+    allowed: role !== null && roleHasPermission(role, permission),
+    role,
+  }
+}
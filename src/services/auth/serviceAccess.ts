@@ -11,12 +11,21 @@
 import type { PrismaClient } from '@prisma/client'
 import jwt from 'jsonwebtoken'
 import { createLogger } from '../../lib/logger.js'
+import { audit } from '../../lib/audit.js'
+import {
+  loadTokenRestriction,
+  tokenCoversService,
+  tokenHasScope,
+  type TokenScope,
+} from './tokenScopes.js'
 
 const log = createLogger('service-access')
 
 export interface AuthResult {
   userId: string
   organizationId?: string
+  /** Auth-service PAT id, for PATs and SDK tokens exchanged from one. */
+  tokenId?: string
 }
 
 export interface ServiceAccessSuccess {
@@ -67,10 +76,11 @@ export async function validateBearerToken(
   try {
     const payload = jwt.verify(token, jwtSecret) as {
       userId: string
+      tokenId?: string
       type: string
     }
     if (payload.type === 'sdk-access' && payload.userId) {
-      return { userId: payload.userId }
+      return { userId: payload.userId, tokenId: payload.tokenId }
     }
   } catch {
     /* fall through */
@@ -96,10 +106,15 @@ export async function validateBearerToken(
     const data = (await res.json()) as {
       valid: boolean
       userId?: string
+      tokenId?: string
       organizationId?: string
     }
     if (!data.valid || !data.userId) return null
-    return { userId: data.userId, organizationId: data.organizationId }
+    return {
+      userId: data.userId,
+      organizationId: data.organizationId,
+      tokenId: data.tokenId,
+    }
   } catch (err) {
     log.warn({ err }, 'PAT introspection failed')
     return null
@@ -108,14 +123,18 @@ export async function validateBearerToken(
 
 /**
  * Resolve a serviceId + token pair, performing identical authorization
- * checks to the GraphQL `assertProjectAccess` helper. Returns the matched
+ * checks to the GraphQL `assertServiceAccess` helper. Returns the matched
  * service record on success so callers don't have to re-fetch it.
+ *
+ * Scoped tokens also need `scope` (both callers stream logs) and must be
+ * bound to the service or its project, if bound at all.
  */
 export async function authorizeServiceAccess(
   prisma: PrismaClient,
   serviceId: string,
   token: string,
   jwtSecret: string,
+  scope: TokenScope = 'logs:read'
 ): Promise<ServiceAccessResult> {
   const auth = await validateBearerToken(token, jwtSecret, prisma)
   if (!auth) {
@@ -128,7 +147,7 @@ export async function authorizeServiceAccess(
       id: true,
       parentServiceId: true,
       sdlServiceName: true,
-      project: { select: { userId: true, organizationId: true } },
+      project: { select: { id: true, userId: true, organizationId: true } },
     },
   })
 
@@ -172,6 +191,32 @@ export async function authorizeServiceAccess(
     }
   }
 
+  const restriction = auth.tokenId
+    ? await loadTokenRestriction(prisma, auth.tokenId)
+    : null
+  if (
+    restriction &&
+    (!tokenHasScope(restriction, scope) ||
+      !tokenCoversService(restriction, service, service.project.id))
+  ) {
+    audit(prisma, {
+      category: 'auth',
+      action: 'token_scope.denied',
+      status: 'warn',
+      userId: auth.userId,
+      orgId: service.project.organizationId,
+      projectId: service.project.id,
+      serviceId: service.id,
+      errorCode: 'FORBIDDEN',
+      payload: { tokenId: restriction.tokenId, scope },
+    })
+    return {
+      ok: false,
+      status: 'forbidden',
+      message: 'This token is not allowed to access this service',
+    }
+  }
+
   return {
     ok: true,
     serviceId: service.id,
@@ -0,0 +1,171 @@
+import { describe, expect, it, vi } from 'vitest'
+import {
+  loadTokenRestriction,
+  normalizeTokenScopes,
+  revokeTokenRestriction,
+  tokenCoversProject,
+  tokenCoversService,
+  tokenHasScope,
+  type TokenRestriction,
+} from './tokenScopes.js'
+
+function restriction(
+  overrides: Partial<TokenRestriction> = {}
+): TokenRestriction {
+  return {
+    tokenId: 'tok-1',
+    scopes: ['deploy:write'],
+    projectIds: [],
+    serviceIds: [],
+    ...overrides,
+  }
+}
+
+describe('tokenHasScope', () => {
+  it('grants listed scopes and read access, nothing else', () => {
+    const r = restriction({ scopes: ['logs:read'] })
+    expect(tokenHasScope(r, 'logs:read')).toBe(true)
+    expect(tokenHasScope(r, 'project:read')).toBe(true)
+    expect(tokenHasScope(r, 'deploy:write')).toBe(false)
+    expect(tokenHasScope(r, 'env:read')).toBe(false)
+  })
+})
+
+describe('token bindings', () => {
+  it('lets unbound tokens reach every project and service', () => {
+    const r = restriction()
+    expect(tokenCoversProject(r, 'p1')).toBe(true)
+    expect(tokenCoversService(r, { id: 's1' }, 'p1')).toBe(true)
+  })
+
+  it('limits project-bound tokens to those projects and their services', () => {
+    const r = restriction({ projectIds: ['p1'] })
+    expect(tokenCoversProject(r, 'p1')).toBe(true)
+    expect(tokenCoversProject(r, 'p2')).toBe(false)
+    expect(tokenCoversProject(r, undefined)).toBe(false)
+    expect(tokenCoversService(r, { id: 's9' }, 'p1')).toBe(true)
+    expect(tokenCoversService(r, { id: 's9' }, 'p2')).toBe(false)
+  })
+
+  it('limits service-bound tokens to the service and its companions', () => {
+    const r = restriction({ serviceIds: ['s1'] })
+    expect(tokenCoversService(r, { id: 's1' }, 'p1')).toBe(true)
+    expect(
+      tokenCoversService(r, { id: 'db', parentServiceId: 's1' }, 'p1')
+    ).toBe(true)
+    expect(tokenCoversService(r, { id: 's2' }, 'p1')).toBe(false)
+    expect(tokenCoversProject(r, 'p1')).toBe(false)
+  })
+
+  it('lets a revoked token reach nothing', () => {
+    const r = restriction({ scopes: [], revoked: true })
+    expect(tokenHasScope(r, 'project:read')).toBe(false)
+    expect(tokenCoversProject(r, 'p1')).toBe(false)
+    expect(tokenCoversService(r, { id: 's1' }, 'p1')).toBe(false)
+  })
+})
+
+describe('normalizeTokenScopes', () => {
+  it('dedupes scopes and rejects unknown ones', () => {
+    expect(
+      normalizeTokenScopes({ scopes: ['logs:read', ' logs:read'] })
+    ).toMatchObject({ ok: true, scopes: ['logs:read'] })
+    expect(normalizeTokenScopes({ scopes: ['admin'] })).toMatchObject({
+      ok: false,
+    })
+  })
+
+  it('requires scopes when binding to projects or services', () => {
+    expect(normalizeTokenScopes({ projectIds: ['p1'] })).toMatchObject({
+      ok: false,
+    })
+    expect(normalizeTokenScopes({})).toEqual({
+      ok: true,
+      scopes: [],
+      projectIds: [],
+      serviceIds: [],
+    })
+  })
+})
+
+describe('loadTokenRestriction', () => {
+  function makePrisma(row: Record<string, unknown> | null) {
+    const update = vi.fn().mockResolvedValue({})
+    return {
+      prisma: {
+        personalAccessTokenScope: {
+          findUnique: vi.fn().mockResolvedValue(row),
+          update,
+        },
+      } as any,
+      update,
+    }
+  }
+
+  it('keeps revoked tokens revoked instead of unrestricted', async () => {
+    const { prisma, update } = makePrisma({
+      tokenId: 'tok-1',
+      scopes: ['logs:read'],
+      projectIds: ['p1'],
+      serviceIds: [],
+      lastUsedAt: null,
+      revokedAt: new Date('2026-06-01T12:00:00Z'),
+    })
+    expect(await loadTokenRestriction(prisma, 'tok-1')).toEqual({
+      tokenId: 'tok-1',
+      scopes: [],
+      projectIds: [],
+      serviceIds: [],
+      revoked: true,
+    })
+    expect(update).not.toHaveBeenCalled()
+  })
+
+  it('returns null for unrestricted tokens', async () => {
+    const { prisma } = makePrisma(null)
+    expect(await loadTokenRestriction(prisma, 'tok-1')).toBeNull()
+  })
+
+  it('bumps lastUsedAt at most once a minute', async () => {
+    const now = new Date('2026-06-01T12:00:00Z')
+    const row = {
+      tokenId: 'tok-1',
+      scopes: ['logs:read', 'retired:scope'],
+      projectIds: ['p1'],
+      serviceIds: [],
+      lastUsedAt: new Date(now.getTime() - 30_000),
+    }
+    const fresh = makePrisma(row)
+    expect(await loadTokenRestriction(fresh.prisma, 'tok-1', now)).toEqual({
+      tokenId: 'tok-1',
+      scopes: ['logs:read'],
+      projectIds: ['p1'],
+      serviceIds: [],
+    })
+    expect(fresh.update).not.toHaveBeenCalled()
+
+    const stale = makePrisma({
+      ...row,
+      lastUsedAt: new Date(now.getTime() - 120_000),
+    })
+    await loadTokenRestriction(stale.prisma, 'tok-1', now)
+    expect(stale.update).toHaveBeenCalledWith({
+      where: { tokenId: 'tok-1' },
+      data: { lastUsedAt: now },
+    })
+  })
+})
+
+describe('revokeTokenRestriction', () => {
+  it('marks the row revoked, creating one for unscoped tokens', async () => {
+    const upsert = vi.fn().mockResolvedValue({})
+    const prisma = { personalAccessTokenScope: { upsert } } as any
+    const now = new Date('2026-06-01T12:00:00Z')
+    await revokeTokenRestriction(prisma, 'tok-1', 'user-1', now)
+    expect(upsert).toHaveBeenCalledWith({
+      where: { tokenId: 'tok-1' },
+      update: { revokedAt: now },
+      create: { tokenId: 'tok-1', userId: 'user-1', revokedAt: now },
+    })
+  })
+})
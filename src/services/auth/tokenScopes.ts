@@ -0,0 +1,214 @@
+/**
+ * Scoped personal access tokens.
+ *
+ * PATs are issued by service-auth and carry no restrictions there. A token
+ * created with scopes (and optionally bound to projects or services) gets a
+ * `PersonalAccessTokenScope` row here, keyed by the auth-service token id;
+ * every request made with it is then limited to those scopes, on top of
+ * whatever the user's org role allows. Tokens without a row keep full
+ * access, so existing tokens are unaffected. Deleting a token keeps (or
+ * creates) its row with `revokedAt` set, and a revoked token reaches
+ * nothing, even while a cached validation still accepts it.
+ *
+ *   project:read   read projects, services and deployments (any scope)
+ *   logs:read      runtime and build logs, including the SSE streams
+ *   deploy:write   create / change / deploy services, env vars, domains
+ *   env:read       reveal secret env var values
+ *   shell:open     interactive shell in a running container
+ *   policy:write   budgets and failover / preview / run-schedule policies
+ *   billing:write  payment-affecting actions
+ *   org:admin      members, integrations, webhooks, deleting projects
+ */
+
+import type { PrismaClient } from '@prisma/client'
+import type { OrgPermission } from './permissions.js'
+
+export type TokenScope =
+  | 'project:read'
+  | 'logs:read'
+  | 'deploy:write'
+  | 'env:read'
+  | 'shell:open'
+  | 'policy:write'
+  | 'billing:write'
+  | 'org:admin'
+
+export const TOKEN_SCOPES: TokenScope[] = [
+  'project:read',
+  'logs:read',
+  'deploy:write',
+  'env:read',
+  'shell:open',
+  'policy:write',
+  'billing:write',
+  'org:admin',
+]
+
+const PERMISSION_SCOPES: Record<OrgPermission, TokenScope> = {
+  'project.read': 'project:read',
+  deploy: 'deploy:write',
+  'env.reveal': 'env:read',
+  'shell.open': 'shell:open',
+  'policy.manage': 'policy:write',
+  'billing.manage': 'billing:write',
+  'org.manage': 'org:admin',
+  'project.delete': 'org:admin',
+}
+
+export function scopeForPermission(permission: OrgPermission): TokenScope {
+  return PERMISSION_SCOPES[permission]
+}
+
+export interface TokenRestriction {
+  tokenId: string
+  scopes: TokenScope[]
+  projectIds: string[]
+  serviceIds: string[]
+  /** The token was deleted; every check fails. */
+  revoked?: true
+}
+
+/** Every scope implies read access to whatever the token can reach. */
+export function tokenHasScope(
+  restriction: TokenRestriction,
+  scope: TokenScope
+): boolean {
+  if (restriction.revoked) return false
+  return scope === 'project:read' || restriction.scopes.includes(scope)
+}
+
+function isBound(restriction: TokenRestriction): boolean {
+  return restriction.projectIds.length > 0 || restriction.serviceIds.length > 0
+}
+
+/**
+ * Project-level access. A token bound only to services never reaches the
+ * project as a whole, just those services (see `tokenCoversService`).
+ */
+export function tokenCoversProject(
+  restriction: TokenRestriction,
+  projectId: string | null | undefined
+): boolean {
+  if (restriction.revoked) return false
+  if (!isBound(restriction)) return true
+  return !!projectId && restriction.projectIds.includes(projectId)
+}
+
+export function tokenCoversService(
+  restriction: TokenRestriction,
+  service: { id: string; parentServiceId?: string | null },
+  projectId: string | null | undefined
+): boolean {
+  if (restriction.revoked) return false
+  if (!isBound(restriction)) return true
+  if (projectId && restriction.projectIds.includes(projectId)) return true
+  // Companion services (e.g. a database sidecar) go with their parent.
+  return (
+    restriction.serviceIds.includes(service.id) ||
+    (!!service.parentServiceId &&
+      restriction.serviceIds.includes(service.parentServiceId))
+  )
+}
+
+const MAX_BINDINGS = 50
+
+/** Validate `createPersonalAccessToken` restriction input. */
+export function normalizeTokenScopes(input: {
+  scopes?: string[] | null
+  projectIds?: string[] | null
+  serviceIds?: string[] | null
+}):
+  | {
+      ok: true
+      scopes: TokenScope[]
+      projectIds: string[]
+      serviceIds: string[]
+    }
+  | { ok: false; reason: string } {
+  const scopes = [...new Set((input.scopes ?? []).map(s => s.trim()))]
+  const unknown = scopes.find(s => !(TOKEN_SCOPES as string[]).includes(s))
+  if (unknown !== undefined) {
+    return {
+      ok: false,
+      reason: `unknown scope "${unknown}" — use one of: ${TOKEN_SCOPES.join(', ')}`,
+    }
+  }
+  const projectIds = [...new Set(input.projectIds ?? [])]
+  const serviceIds = [...new Set(input.serviceIds ?? [])]
+  if (projectIds.length + serviceIds.length > MAX_BINDINGS) {
+    return {
+      ok: false,
+      reason: `a token can be bound to at most ${MAX_BINDINGS} projects and services`,
+    }
+  }
+  if (scopes.length === 0 && (projectIds.length || serviceIds.length)) {
+    return {
+      ok: false,
+      reason:
+        'scopes are required when binding a token to projects or services',
+    }
+  }
+  return { ok: true, scopes: scopes as TokenScope[], projectIds, serviceIds }
+}
+
+const LAST_USED_THROTTLE_MS = 60_000
+
+/**
+ * Mark a deleted token as revoked. Unscoped tokens get a row too, so the
+ * cached validation of any deleted token stops working at once.
+ */
+export async function revokeTokenRestriction(
+  prisma: PrismaClient,
+  tokenId: string,
+  userId: string,
+  now = new Date()
+): Promise<void> {
+  await prisma.personalAccessTokenScope.upsert({
+    where: { tokenId },
+    update: { revokedAt: now },
+    create: { tokenId, userId, revokedAt: now },
+  })
+}
+
+/**
+ * Load the restriction for an auth-service token id, or null when the
+ * token is unrestricted. Also bumps `lastUsedAt`, at most once a minute.
+ * A revoked token comes back with `revoked` set and nothing in scope.
+ */
+export async function loadTokenRestriction(
+  prisma: PrismaClient,
+  tokenId: string,
+  now = new Date()
+): Promise<TokenRestriction | null> {
+  const row = await prisma.personalAccessTokenScope.findUnique({
+    where: { tokenId },
+  })
+  if (!row) return null
+  if (row.revokedAt) {
+    return {
+      tokenId,
+      scopes: [],
+      projectIds: [],
+      serviceIds: [],
+      revoked: true,
+    }
+  }
+
+  if (
+    !row.lastUsedAt ||
+    now.getTime() - row.lastUsedAt.getTime() > LAST_USED_THROTTLE_MS
+  ) {
+    prisma.personalAccessTokenScope
+      .update({ where: { tokenId }, data: { lastUsedAt: now } })
+      .catch(() => {})
+  }
+
+  return {
+    tokenId: row.tokenId,
+    scopes: row.scopes.filter((s): s is TokenScope =>
+      (TOKEN_SCOPES as string[]).includes(s)
+    ),
+    projectIds: row.projectIds,
+    serviceIds: row.serviceIds,
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Autoscale Scheduler
+ *
+ * Runs `runAutoscaleCycle` every 2 minutes. The trace window is 5
+ * minutes and the per-service cooldown 10, so a tick that is skipped
+ * (leader handover, previous run still going) only delays a decision —
+ * it never loses one.
+ *
+ * Scale decisions launch and close deployments, so this is wrapped in
+ * `runWithLeadership('autoscale-scheduler', …)` in `index.ts`.
+ */
+
+import * as cron from 'node-cron'
+import { randomUUID } from 'node:crypto'
+import type { PrismaClient } from '@prisma/client'
+import { createLogger } from '../../lib/logger.js'
+import { requestContext } from '../../lib/requestContext.js'
+import { getClickHouseClient } from '../observability/clickhouseClient.js'
+import { runAutoscaleCycle } from './autoscaler.js'
+
+const log = createLogger('autoscale-scheduler')
+
+export class AutoscaleScheduler {
+  private cronJob: cron.ScheduledTask | null = null
+  private running = false
+  private readonly prisma: PrismaClient
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma
+  }
+
+  start() {
+    if (this.cronJob) {
+      log.info('Already running')
+      return
+    }
+
+    this.cronJob = cron.schedule('*/2 * * * *', async () => {
+      await this.runOnce()
+    })
+
+    log.info('Started — evaluates autoscaling rules every 2 minutes')
+  }
+
+  stop() {
+    if (this.cronJob) {
+      this.cronJob.stop()
+      this.cronJob = null
+      log.info('Stopped')
+    }
+  }
+
+  async runOnce() {
+    if (this.running) {
+      log.info('Previous autoscale run still in progress — skipping tick')
+      return
+    }
+    this.running = true
+    const traceId = randomUUID()
+    try {
+      await requestContext.run({ requestId: traceId, traceId }, async () => {
+        const result = await runAutoscaleCycle(
+          this.prisma,
+          getClickHouseClient(),
+          traceId
+        )
+        if (result.evaluated > 0 || result.skipped > 0) {
+          log.info(result, 'Autoscale run complete')
+        }
+      })
+    } catch (err) {
+      log.error({ err }, 'Autoscale run failed')
+    } finally {
+      this.running = false
+    }
+  }
+}
@@ -0,0 +1,210 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { PrismaClient } from '@prisma/client'
+
+const { auditMock, deployServiceMock } = vi.hoisted(() => ({
+  auditMock: vi.fn(),
+  deployServiceMock: vi.fn(),
+}))
+
+vi.mock('../../lib/audit.js', () => ({ audit: auditMock }))
+
+vi.mock('../../resolvers/deploy.js', () => ({
+  deployMutations: { deployService: deployServiceMock },
+}))
+
+import {
+  AUTOSCALE_WINDOW_MS,
+  capReplicasToBudget,
+  decideReplicas,
+  parseAutoscaleRule,
+  runAutoscaleCycle,
+} from './autoscaler.js'
+
+const rule = {
+  minReplicas: 1,
+  maxReplicas: 5,
+  targetP95LatencyMs: 200,
+  targetRequestsPerSecond: 10,
+}
+
+describe('decideReplicas', () => {
+  it('scales to the request rate and lets either signal scale out', () => {
+    expect(
+      decideReplicas(1, rule, { p95LatencyMs: 150, requestsPerSecond: 31 })
+    ).toEqual({ replicas: 4, reason: 'request_rate' })
+    expect(
+      decideReplicas(2, rule, { p95LatencyMs: 450, requestsPerSecond: 5 })
+    ).toEqual({ replicas: 3, reason: 'latency' })
+  })
+
+  it('only scales in when both signals agree', () => {
+    expect(
+      decideReplicas(3, rule, { p95LatencyMs: 150, requestsPerSecond: 5 })
+    ).toEqual({ replicas: 3, reason: 'steady' })
+    expect(
+      decideReplicas(3, rule, { p95LatencyMs: 60, requestsPerSecond: 5 })
+    ).toEqual({ replicas: 2, reason: 'latency' })
+  })
+
+  it('holds without metrics but still enforces the bounds', () => {
+    expect(decideReplicas(3, rule, null)).toEqual({
+      replicas: 3,
+      reason: 'no_metrics',
+    })
+    expect(decideReplicas(7, rule, null)).toEqual({
+      replicas: 5,
+      reason: 'max_replicas',
+    })
+    expect(
+      decideReplicas(4, rule, { p95LatencyMs: 900, requestsPerSecond: 500 })
+    ).toEqual({ replicas: 5, reason: 'request_rate' })
+  })
+})
+
+describe('parseAutoscaleRule', () => {
+  it('needs a ceiling and a target, and defaults the floor to one', () => {
+    expect(
+      parseAutoscaleRule({
+        minReplicas: null,
+        maxReplicas: 3,
+        targetP95LatencyMs: null,
+        targetRequestsPerSecond: 20,
+      })
+    ).toMatchObject({ minReplicas: 1, maxReplicas: 3 })
+    expect(
+      parseAutoscaleRule({
+        minReplicas: 1,
+        maxReplicas: 3,
+        targetP95LatencyMs: null,
+        targetRequestsPerSecond: null,
+      })
+    ).toBeNull()
+  })
+})
+
+describe('capReplicasToBudget', () => {
+  it('keeps scale-outs inside maxMonthlyUsd', () => {
+    // $1/day per replica => $30/month each.
+    expect(capReplicasToBudget(1, 5, 100, 1)).toBe(3)
+    expect(capReplicasToBudget(1, 5, null, 1)).toBe(5)
+    expect(capReplicasToBudget(1, 5, 100, null)).toBe(1)
+    expect(capReplicasToBudget(4, 2, 10, 1)).toBe(2)
+  })
+})
+
+describe('runAutoscaleCycle', () => {
+  const now = new Date('2026-05-16T12:00:00Z')
+
+  function phalaRow(id: string, policyId: string) {
+    return {
+      id,
+      serviceId: 'svc-1',
+      hourlyRateCents: 10,
+      policy: {
+        id: policyId,
+        acceptableGpuModels: [],
+        gpuUnits: null,
+        gpuVendor: null,
+        maxBudgetUsd: null,
+        maxMonthlyUsd: 200,
+        runtimeMinutes: null,
+        minReplicas: 1,
+        maxReplicas: 4,
+        targetP95LatencyMs: null,
+        targetRequestsPerSecond: 5,
+        lastScaledAt: null,
+        totalSpentUsd: 0,
+      },
+      service: {
+        id: 'svc-1',
+        name: 'API',
+        slug: 'api',
+        sdlServiceName: null,
+        projectId: 'proj-1',
+        createdByUserId: 'user-1',
+        healthProbe: null,
+        volumes: null,
+        replicas: 1,
+        project: { organizationId: 'org-1' },
+      },
+    }
+  }
+
+  function prismaWith(phalaRows: unknown[]) {
+    return {
+      akashDeployment: { findMany: vi.fn().mockResolvedValue([]) },
+      phalaDeployment: {
+        findMany: vi.fn().mockResolvedValue(phalaRows),
+        count: vi.fn().mockResolvedValue(0),
+      },
+      spheronDeployment: { findMany: vi.fn().mockResolvedValue([]) },
+      service: { update: vi.fn() },
+      deploymentPolicy: { updateMany: vi.fn() },
+    } as unknown as PrismaClient & {
+      service: { update: ReturnType<typeof vi.fn> }
+      deploymentPolicy: { updateMany: ReturnType<typeof vi.fn> }
+    }
+  }
+
+  const busy = {
+    getServices: vi.fn().mockResolvedValue([
+      {
+        serviceName: 'api',
+        traceCount: (18 * AUTOSCALE_WINDOW_MS) / 1000,
+        p95DurationMs: 120,
+      },
+    ]),
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('adds Phala deployments up to what the monthly budget allows', async () => {
+    // 18 rps at 5/replica wants 4; $2.40/day per replica fits 2 in $200/month.
+    deployServiceMock.mockResolvedValue({ id: 'ph-2', policyId: 'pol-2' })
+    const prisma = prismaWith([phalaRow('ph-1', 'pol-1')])
+
+    const result = await runAutoscaleCycle(prisma, busy, 'trace-1', now)
+
+    expect(result).toEqual({ evaluated: 1, scaled: 1, skipped: 0 })
+    expect(deployServiceMock).toHaveBeenCalledTimes(1)
+    expect(deployServiceMock.mock.calls[0][1]).toMatchObject({
+      serviceId: 'svc-1',
+      target: { provider: 'phala', policy: { maxReplicas: 4 } },
+    })
+    expect(prisma.service.update).toHaveBeenCalledWith({
+      where: { id: 'svc-1' },
+      data: { replicas: 2 },
+    })
+    expect(prisma.deploymentPolicy.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['pol-1', 'pol-2'] } },
+      data: { lastScaledAt: now },
+    })
+    expect(auditMock).toHaveBeenCalledWith(
+      prisma,
+      expect.objectContaining({
+        action: 'autoscale.scaled_out',
+        serviceId: 'svc-1',
+        payload: expect.objectContaining({
+          fromReplicas: 1,
+          desiredReplicas: 4,
+          toReplicas: 2,
+          budgetCapped: true,
+        }),
+      })
+    )
+  })
+
+  it('leaves a service alone during its cooldown', async () => {
+    const row = phalaRow('ph-1', 'pol-1')
+    row.policy.lastScaledAt = new Date(now.getTime() - 60_000) as never
+    const prisma = prismaWith([row])
+
+    const result = await runAutoscaleCycle(prisma, busy, 'trace-2', now)
+
+    expect(result).toEqual({ evaluated: 0, scaled: 0, skipped: 1 })
+    expect(busy.getServices).not.toHaveBeenCalled()
+    expect(deployServiceMock).not.toHaveBeenCalled()
+  })
+})
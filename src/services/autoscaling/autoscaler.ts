@@ -0,0 +1,673 @@
+/**
+ * Metric-driven autoscaling.
+ *
+ * A service whose live deployment carries a policy with `maxReplicas` is
+ * kept between `minReplicas` and `maxReplicas` using the trace stats the
+ * `observabilityServices` resolver already reads from ClickHouse:
+ *   - `targetRequestsPerSecond` is per replica, so the wanted count is
+ *     ceil(traces per second / target).
+ *   - `targetP95LatencyMs` adds a replica while p95 is above target and
+ *     drops one once p95 is under half of it.
+ * The larger of the two wins: either signal can scale out on its own,
+ * but both must agree before scaling in.
+ *
+ * Applying a new count depends on where the service runs:
+ *   - Akash: `Service.replicas` is the SDL `count`, so the service is
+ *     blue-green redeployed with the new count (needs a health probe).
+ *   - Phala / Spheron: one deployment per replica. Scale-out launches
+ *     another through `deployService`; scale-in closes the newest. The
+ *     subdomain proxy balances across all of them once `replicas` > 1.
+ *
+ * A scale-out is capped so the projected monthly cost of all replicas
+ * stays within the policy's `maxMonthlyUsd`. Each decision — scaled,
+ * held back by the budget, or failed — is audited as `autoscale.*` and
+ * starts the cooldown.
+ */
+
+import type { PrismaClient } from '@prisma/client'
+import { audit } from '../../lib/audit.js'
+import { createLogger } from '../../lib/logger.js'
+import type { Context } from '../../resolvers/types.js'
+import { exemptFromDeployApproval } from '../../resolvers/deployApprovalGuard.js'
+import type {
+  ClickHouseObservabilityClient,
+  ServiceStats,
+} from '../observability/clickhouseClient.js'
+import { validateBudgetBeforeDeploy } from '../policy/validator.js'
+
+const log = createLogger('autoscaler')
+
+/** Trace window each evaluation looks back over. */
+export const AUTOSCALE_WINDOW_MS = 5 * 60_000
+/** Minimum gap between two scale decisions for the same service. */
+export const AUTOSCALE_COOLDOWN_MS = 10 * 60_000
+/** Scale in once p95 falls below this fraction of the latency target. */
+const SCALE_IN_LATENCY_RATIO = 0.5
+
+const AKASH_IN_FLIGHT = [
+  'CREATING',
+  'WAITING_BIDS',
+  'SELECTING_BID',
+  'CREATING_LEASE',
+  'SENDING_MANIFEST',
+  'DEPLOYING',
+] as const
+const VM_IN_FLIGHT = ['CREATING', 'STARTING'] as const
+
+export type AutoscaleProvider = 'akash' | 'phala' | 'spheron'
+
+export interface AutoscaleRule {
+  minReplicas: number
+  maxReplicas: number
+  targetP95LatencyMs: number | null
+  targetRequestsPerSecond: number | null
+}
+
+export interface ServiceLoad {
+  p95LatencyMs: number
+  /** Across all replicas. */
+  requestsPerSecond: number
+}
+
+export type ScaleReason =
+  | 'request_rate'
+  | 'latency'
+  | 'min_replicas'
+  | 'max_replicas'
+  | 'steady'
+  | 'no_metrics'
+
+export interface ScaleDecision {
+  replicas: number
+  reason: ScaleReason
+}
+
+interface AutoscalePolicy {
+  id: string
+  acceptableGpuModels: string[]
+  gpuUnits: number | null
+  gpuVendor: string | null
+  maxBudgetUsd: number | null
+  maxMonthlyUsd: number | null
+  runtimeMinutes: number | null
+  minReplicas: number | null
+  maxReplicas: number | null
+  targetP95LatencyMs: number | null
+  targetRequestsPerSecond: number | null
+  lastScaledAt: Date | null
+  totalSpentUsd: number
+}
+
+interface AutoscaleService {
+  id: string
+  name: string
+  slug: string
+  sdlServiceName: string | null
+  projectId: string
+  createdByUserId: string | null
+  healthProbe: unknown
+  volumes: unknown
+  replicas: number
+  project: { organizationId: string | null } | null
+}
+
+/** One service on one provider, with its live deployments newest first. */
+export interface ScaleTarget {
+  provider: AutoscaleProvider
+  service: AutoscaleService
+  deploymentIds: string[]
+  /** Policy of the newest live deployment; its rules apply. */
+  policy: AutoscalePolicy
+  lastScaledAt: Date | null
+  region: string | null
+  replicas: number
+  replicaDailyUsd: number | null
+}
+
+/** Source of per-service trace stats; the ClickHouse client in production. */
+export type TraceStatsSource = Pick<
+  ClickHouseObservabilityClient,
+  'getServices'
+>
+
+export function parseAutoscaleRule(
+  policy: Pick<
+    AutoscalePolicy,
+    | 'minReplicas'
+    | 'maxReplicas'
+    | 'targetP95LatencyMs'
+    | 'targetRequestsPerSecond'
+  > | null
+): AutoscaleRule | null {
+  if (!policy?.maxReplicas || policy.maxReplicas < 1) return null
+  if (
+    policy.targetP95LatencyMs === null &&
+    policy.targetRequestsPerSecond === null
+  ) {
+    return null
+  }
+  return {
+    minReplicas: Math.min(
+      Math.max(1, policy.minReplicas ?? 1),
+      policy.maxReplicas
+    ),
+    maxReplicas: policy.maxReplicas,
+    targetP95LatencyMs: policy.targetP95LatencyMs,
+    targetRequestsPerSecond: policy.targetRequestsPerSecond,
+  }
+}
+
+export function decideReplicas(
+  current: number,
+  rule: AutoscaleRule,
+  load: ServiceLoad | null
+): ScaleDecision {
+  if (current < rule.minReplicas) {
+    return { replicas: rule.minReplicas, reason: 'min_replicas' }
+  }
+  if (current > rule.maxReplicas) {
+    return { replicas: rule.maxReplicas, reason: 'max_replicas' }
+  }
+  if (!load) return { replicas: current, reason: 'no_metrics' }
+
+  const wanted: ScaleDecision[] = []
+  if (rule.targetRequestsPerSecond) {
+    wanted.push({
+      replicas: Math.ceil(
+        load.requestsPerSecond / rule.targetRequestsPerSecond
+      ),
+      reason: 'request_rate',
+    })
+  }
+  if (rule.targetP95LatencyMs) {
+    let step = 0
+    if (load.p95LatencyMs > rule.targetP95LatencyMs) step = 1
+    else if (
+      load.p95LatencyMs <
+      rule.targetP95LatencyMs * SCALE_IN_LATENCY_RATIO
+    ) {
+      step = -1
+    }
+    wanted.push({ replicas: current + step, reason: 'latency' })
+  }
+
+  const top = wanted.reduce((a, b) => (b.replicas > a.replicas ? b : a))
+  const replicas = Math.min(
+    rule.maxReplicas,
+    Math.max(rule.minReplicas, top.replicas)
+  )
+  return replicas === current
+    ? { replicas, reason: 'steady' }
+    : { replicas, reason: top.reason }
+}
+
+/**
+ * Largest count in (current, desired] whose projected monthly cost fits
+ * `maxMonthlyUsd`. Scale-ins and uncapped policies pass through; with a
+ * cap but no known rate, nothing is added.
+ */
+export function capReplicasToBudget(
+  current: number,
+  desired: number,
+  maxMonthlyUsd: number | null,
+  replicaDailyUsd: number | null
+): number {
+  if (desired <= current || maxMonthlyUsd === null) return desired
+  if (replicaDailyUsd === null) return current
+  for (let n = desired; n > current; n--) {
+    if (
+      validateBudgetBeforeDeploy({ maxMonthlyUsd }, replicaDailyUsd * n).allowed
+    ) {
+      return n
+    }
+  }
+  return current
+}
+
+/**
+ * Pick the service's row out of the project's trace stats. The OTel
+ * service name is whatever the app reports, so match the slug, the SDL
+ * service name and the display name.
+ */
+export function loadFromStats(
+  stats: ServiceStats[],
+  service: Pick<AutoscaleService, 'slug' | 'name' | 'sdlServiceName'>,
+  windowMs: number
+): ServiceLoad | null {
+  const names = [service.slug, service.sdlServiceName, service.name]
+  const row = stats.find(s => names.includes(s.serviceName))
+  if (!row || row.traceCount === 0) return null
+  return {
+    p95LatencyMs: row.p95DurationMs,
+    requestsPerSecond: row.traceCount / (windowMs / 1000),
+  }
+}
+
+const SERVICE_SELECT = {
+  id: true,
+  name: true,
+  slug: true,
+  sdlServiceName: true,
+  projectId: true,
+  createdByUserId: true,
+  healthProbe: true,
+  volumes: true,
+  replicas: true,
+  project: { select: { organizationId: true } },
+} as const
+
+type LiveRow = {
+  id: string
+  serviceId: string
+  policy: AutoscalePolicy | null
+  service: AutoscaleService
+}
+
+/** Live rows per service, keeping the newest-first order. */
+function groupByService<T extends LiveRow>(rows: T[]): T[][] {
+  const byService = new Map<string, T[]>()
+  for (const row of rows) {
+    const list = byService.get(row.serviceId) ?? []
+    list.push(row)
+    byService.set(row.serviceId, list)
+  }
+  return [...byService.values()].filter(list => list[0].policy)
+}
+
+function toTarget(
+  provider: AutoscaleProvider,
+  rows: LiveRow[],
+  placement: Pick<ScaleTarget, 'region' | 'replicas' | 'replicaDailyUsd'>
+): ScaleTarget {
+  const stamps = rows
+    .map(r => r.policy?.lastScaledAt?.getTime() ?? 0)
+    .filter(t => t > 0)
+  return {
+    provider,
+    service: rows[0].service,
+    deploymentIds: rows.map(r => r.id),
+    policy: rows[0].policy as AutoscalePolicy,
+    lastScaledAt: stamps.length ? new Date(Math.max(...stamps)) : null,
+    ...placement,
+  }
+}
+
+function dailyUsdFromHourlyCents(cents: number | null): number | null {
+  return cents === null ? null : (cents * 24) / 100
+}
+
+/**
+ * Every service whose live deployment has autoscaling rules. Akash runs
+ * all replicas in one lease; Phala and Spheron run one deployment each.
+ */
+export async function loadScaleTargets(
+  prisma: PrismaClient
+): Promise<ScaleTarget[]> {
+  const where = {
+    status: 'ACTIVE' as const,
+    policy: { maxReplicas: { not: null }, stopReason: null },
+  }
+  const include = { policy: true, service: { select: SERVICE_SELECT } }
+  const orderBy = { createdAt: 'desc' as const }
+
+  const [akash, phala, spheron] = await Promise.all([
+    prisma.akashDeployment.findMany({ where, include, orderBy }),
+    prisma.phalaDeployment.findMany({ where, include, orderBy }),
+    prisma.spheronDeployment.findMany({ where, include, orderBy }),
+  ])
+
+  return [
+    ...groupByService(akash).map(rows =>
+      toTarget('akash', rows, {
+        region: rows[0].region ?? null,
+        replicas: rows[0].service.replicas,
+        replicaDailyUsd:
+          rows[0].dailyRateCentsCharged === null
+            ? null
+            : rows[0].dailyRateCentsCharged /
+              100 /
+              Math.max(1, rows[0].service.replicas),
+      })
+    ),
+    ...groupByService(phala).map(rows =>
+      toTarget('phala', rows, {
+        region: null,
+        replicas: rows.length,
+        replicaDailyUsd: dailyUsdFromHourlyCents(rows[0].hourlyRateCents),
+      })
+    ),
+    // Spheron rows store the upstream cluster name, not a region bucket,
+    // so extra replicas go wherever the offer picker lands them.
+    ...groupByService(spheron).map(rows =>
+      toTarget('spheron', rows, {
+        region: null,
+        replicas: rows.length,
+        replicaDailyUsd: dailyUsdFromHourlyCents(rows[0].hourlyRateCents),
+      })
+    ),
+  ]
+}
+
+async function hasDeployInFlight(
+  prisma: PrismaClient,
+  target: ScaleTarget
+): Promise<boolean> {
+  const serviceId = target.service.id
+  if (target.provider === 'akash') {
+    const n = await prisma.akashDeployment.count({
+      where: { serviceId, status: { in: [...AKASH_IN_FLIGHT] } },
+    })
+    return n > 0
+  }
+  const where = { serviceId, status: { in: [...VM_IN_FLIGHT] } }
+  const n =
+    target.provider === 'phala'
+      ? await prisma.phalaDeployment.count({ where })
+      : await prisma.spheronDeployment.count({ where })
+  return n > 0
+}
+
+/** Why a target is left alone this tick, or null to evaluate it. */
+function skipReason(target: ScaleTarget, now: Date): string | null {
+  if (
+    target.lastScaledAt &&
+    now.getTime() - target.lastScaledAt.getTime() < AUTOSCALE_COOLDOWN_MS
+  ) {
+    return 'cooldown'
+  }
+  if (!target.service.createdByUserId) return 'no_owner'
+  if (
+    Array.isArray(target.service.volumes) &&
+    target.service.volumes.length > 0
+  ) {
+    return 'has_volumes'
+  }
+  if (target.provider === 'akash' && !target.service.healthProbe) {
+    return 'no_health_probe'
+  }
+  return null
+}
+
+function policyInput(policy: AutoscalePolicy) {
+  return {
+    acceptableGpuModels: policy.acceptableGpuModels,
+    gpuUnits: policy.gpuUnits ?? undefined,
+    gpuVendor: policy.gpuVendor ?? undefined,
+    maxBudgetUsd: policy.maxBudgetUsd ?? undefined,
+    maxMonthlyUsd: policy.maxMonthlyUsd ?? undefined,
+    runtimeMinutes: policy.runtimeMinutes ?? undefined,
+    minReplicas: policy.minReplicas ?? undefined,
+    maxReplicas: policy.maxReplicas ?? undefined,
+    targetP95LatencyMs: policy.targetP95LatencyMs ?? undefined,
+    targetRequestsPerSecond: policy.targetRequestsPerSecond ?? undefined,
+  }
+}
+
+/**
+ * Scaling stays within the service's policy bounds, so it isn't held for
+ * org deploy approval.
+ */
+function systemContext(prisma: PrismaClient, target: ScaleTarget): Context {
+  return exemptFromDeployApproval({
+    prisma,
+    userId: target.service.createdByUserId,
+    organizationId: target.service.project?.organizationId ?? undefined,
+    projectId: target.service.projectId,
+  } as unknown as Context)
+}
+
+/**
+ * Move the target to `replicas`. Returns the policy ids that should
+ * carry the new cooldown stamp.
+ */
+async function applyReplicas(
+  prisma: PrismaClient,
+  target: ScaleTarget,
+  replicas: number
+): Promise<string[]> {
+  const serviceId = target.service.id
+  const ctx = systemContext(prisma, target)
+
+  if (target.provider === 'akash') {
+    await prisma.service.update({
+      where: { id: serviceId },
+      data: { replicas },
+    })
+    try {
+      const { akashMutations } = await import('../../resolvers/akash.js')
+      const created = (await akashMutations.deployToAkash(
+        undefined,
+        {
+          input: {
+            serviceId,
+            region: target.region,
+            policy: policyInput(target.policy),
+            strategy: 'BLUE_GREEN',
+          },
+        },
+        ctx
+      )) as { id: string; policyId?: string | null }
+      // The replacement lease serves the same workload, so the budget
+      // it counts against carries over.
+      if (created.policyId) {
+        await prisma.deploymentPolicy.update({
+          where: { id: created.policyId },
+          data: { totalSpentUsd: target.policy.totalSpentUsd },
+        })
+      }
+      return [target.policy.id, created.policyId].filter(
+        (id): id is string => !!id
+      )
+    } catch (err) {
+      await prisma.service.update({
+        where: { id: serviceId },
+        data: { replicas: target.replicas },
+      })
+      throw err
+    }
+  }
+
+  const stamped: string[] = [target.policy.id]
+  if (replicas > target.replicas) {
+    const { deployMutations } = await import('../../resolvers/deploy.js')
+    for (let i = target.replicas; i < replicas; i++) {
+      const created = (await deployMutations.deployService(
+        undefined,
+        {
+          serviceId,
+          target: {
+            provider: target.provider,
+            region: target.region,
+            policy: policyInput(target.policy),
+          },
+        },
+        ctx
+      )) as { id: string; policyId?: string | null }
+      if (created.policyId) stamped.push(created.policyId)
+    }
+  } else {
+    const { tryGetProvider } = await import('../providers/registry.js')
+    const { decrementOrgConcurrency } =
+      await import('../concurrency/concurrencyService.js')
+    const provider = tryGetProvider(target.provider)
+    if (!provider) throw new Error(`Provider ${target.provider} not registered`)
+    for (const id of target.deploymentIds.slice(
+      0,
+      target.replicas - replicas
+    )) {
+      await provider.close(id)
+      await decrementOrgConcurrency(
+        prisma,
+        target.service.project?.organizationId ?? null
+      )
+    }
+  }
+
+  await prisma.service.update({ where: { id: serviceId }, data: { replicas } })
+  return stamped
+}
+
+/**
+ * Evaluate one target and apply the outcome. Returns true if the
+ * replica count changed.
+ */
+async function evaluateTarget(
+  prisma: PrismaClient,
+  target: ScaleTarget,
+  load: ServiceLoad | null,
+  now: Date,
+  traceId: string
+): Promise<boolean> {
+  const rule = parseAutoscaleRule(target.policy)
+  if (!rule) return false
+
+  const decision = decideReplicas(target.replicas, rule, load)
+  const replicas = capReplicasToBudget(
+    target.replicas,
+    decision.replicas,
+    target.policy.maxMonthlyUsd,
+    target.replicaDailyUsd
+  )
+
+  const base = {
+    traceId,
+    source: 'monitor',
+    category: 'deployment' as const,
+    orgId: target.service.project?.organizationId ?? null,
+    projectId: target.service.projectId,
+    serviceId: target.service.id,
+    deploymentId: target.deploymentIds[0],
+  }
+  const payload = {
+    provider: target.provider,
+    fromReplicas: target.replicas,
+    desiredReplicas: decision.replicas,
+    reason: decision.reason,
+    p95LatencyMs: load?.p95LatencyMs ?? null,
+    requestsPerSecond: load?.requestsPerSecond ?? null,
+    minReplicas: rule.minReplicas,
+    maxReplicas: rule.maxReplicas,
+    maxMonthlyUsd: target.policy.maxMonthlyUsd,
+  }
+  const stamp = (ids: string[]) =>
+    prisma.deploymentPolicy.updateMany({
+      where: { id: { in: ids } },
+      data: { lastScaledAt: now },
+    })
+
+  if (replicas === target.replicas) {
+    if (decision.replicas > target.replicas) {
+      audit(prisma, {
+        ...base,
+        action: 'autoscale.budget_capped',
+        status: 'warn',
+        payload: { ...payload, toReplicas: replicas },
+      })
+      await stamp([target.policy.id])
+    }
+    return false
+  }
+
+  try {
+    const stamped = await applyReplicas(prisma, target, replicas)
+    await stamp(stamped)
+    audit(prisma, {
+      ...base,
+      action:
+        replicas > target.replicas
+          ? 'autoscale.scaled_out'
+          : 'autoscale.scaled_in',
+      status: 'ok',
+      payload: {
+        ...payload,
+        toReplicas: replicas,
+        budgetCapped: replicas !== decision.replicas,
+      },
+    })
+    log.info(
+      {
+        serviceId: target.service.id,
+        provider: target.provider,
+        from: target.replicas,
+        to: replicas,
+        reason: decision.reason,
+      },
+      'autoscaler: replica count changed'
+    )
+    return true
+  } catch (err) {
+    await stamp([target.policy.id])
+    audit(prisma, {
+      ...base,
+      action: 'autoscale.failed',
+      status: 'error',
+      errorMessage: err instanceof Error ? err.message : String(err),
+      payload: { ...payload, toReplicas: replicas },
+    })
+    log.warn(
+      {
+        serviceId: target.service.id,
+        provider: target.provider,
+        err: err instanceof Error ? err.message : err,
+      },
+      'autoscaler: failed to apply replica count'
+    )
+    return false
+  }
+}
+
+/**
+ * One autoscaler pass. Trace stats are fetched once per project; a
+ * ClickHouse failure for one project leaves its services at the current
+ * count (`no_metrics` still enforces the min/max bounds).
+ */
+export async function runAutoscaleCycle(
+  prisma: PrismaClient,
+  traces: TraceStatsSource,
+  traceId: string,
+  now = new Date()
+): Promise<{ evaluated: number; scaled: number; skipped: number }> {
+  const targets = await loadScaleTargets(prisma)
+  const stats = new Map<string, Promise<ServiceStats[]>>()
+  const startTime = new Date(now.getTime() - AUTOSCALE_WINDOW_MS)
+  let evaluated = 0
+  let scaled = 0
+  let skipped = 0
+
+  for (const target of targets) {
+    const skip = skipReason(target, now)
+    if (skip || (await hasDeployInFlight(prisma, target))) {
+      log.debug(
+        { serviceId: target.service.id, reason: skip ?? 'deploy_in_flight' },
+        'autoscaler: skipping service'
+      )
+      skipped++
+      continue
+    }
+
+    const projectId = target.service.projectId
+    let projectStats = stats.get(projectId)
+    if (!projectStats) {
+      projectStats = traces
+        .getServices(projectId, startTime, now)
+        .catch(err => {
+          log.warn(
+            { projectId, err: err instanceof Error ? err.message : err },
+            'autoscaler: trace stats unavailable'
+          )
+          return []
+        })
+      stats.set(projectId, projectStats)
+    }
+    const load = loadFromStats(
+      await projectStats,
+      target.service,
+      AUTOSCALE_WINDOW_MS
+    )
+
+    evaluated++
+    if (await evaluateTarget(prisma, target, load, now, traceId)) scaled++
+  }
+
+  return { evaluated, scaled, skipped }
+}
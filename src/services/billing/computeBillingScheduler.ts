@@ -26,6 +26,7 @@ import { audit } from '../../lib/audit.js'
 import { checkPolicyLimits } from '../policy/enforcer.js'
 import { getAkashOrchestrator } from '../akash/orchestrator.js'
 import { opsAlert } from '../../lib/opsAlert.js'
+import { notify } from '../notifications/notify.js'
 import { BLOCKS_PER_HOUR } from '../../config/akash.js'
 import { randomUUID } from 'node:crypto'
 
@@ -1661,6 +1662,15 @@ export class ComputeBillingScheduler {
       } catch (error) {
         log.error({ orgId, err: error }, 'Failed to send pause notification')
       }
+      notify(this.prisma, {
+        event: 'balance.low',
+        severity: 'critical',
+        title: 'Balance low — services paused',
+        message: `Your balance no longer covers the hourly burn, so ${pausedServices.length} service(s) were paused. Add funds to resume them.`,
+        organizationId: orgId,
+        dedupeKey: `balance.low:${orgId}:${new Date().toISOString().slice(0, 10)}`,
+        data: { balanceCents, dailyCostCents, pausedServices },
+      })
     }
   }
 
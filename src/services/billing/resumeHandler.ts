@@ -19,7 +19,12 @@
  */
 
 import type { IncomingMessage, ServerResponse } from 'node:http'
-import type { PrismaClient } from '@prisma/client'
+import type {
+  AkashDeployment,
+  PhalaDeployment,
+  PrismaClient,
+  SpheronDeployment,
+} from '@prisma/client'
 import { getBillingApiClient } from './billingApiClient.js'
 import { getEscrowService } from './escrowService.js'
 import { scheduleOrEnforcePolicyExpiry } from '../policy/runtimeScheduler.js'
@@ -34,6 +39,302 @@ interface ResumeRequest {
   newBalanceCents: number
 }
 
+export interface ResumeBilling {
+  orgBillingId: string
+  organizationId: string
+}
+
+/**
+ * Rows paused by a run schedule come back when their window opens, not
+ * when the wallet is topped up.
+ */
+const SCHEDULE_STOPPED = { stopReason: 'SCHEDULED_STOP' as const }
+
+/**
+ * Re-deploy a SUSPENDED Akash row from its saved SDL, carry its policy
+ * over, open a fresh escrow and close the old row out. Returns a label
+ * for the resume report; throws on failure.
+ */
+export async function resumeAkashDeployment(
+  prisma: PrismaClient,
+  deployment: AkashDeployment,
+  billing: ResumeBilling
+): Promise<string> {
+  const savedSdl = deployment.savedSdl
+  if (!savedSdl) throw new Error('no saved SDL')
+
+  const { getAkashOrchestrator } = await import('../akash/orchestrator.js')
+  const orchestrator = getAkashOrchestrator(prisma)
+
+  const newDeploymentId = await orchestrator.deployService(
+    deployment.serviceId,
+    {
+      sdlContent: savedSdl,
+    }
+  )
+
+  // Link the new row to the SUSPENDED row so the lease-chain walker
+  // can compute a continuous "Running for Xh" timer across the
+  // suspend/resume bounce. Without this link the new row is a chain
+  // root and the user-visible uptime resets to 0 every topup —
+  // which is exactly what triggered the "running for days but the
+  // dashboard says 2h" bug. Best-effort: a failure here doesn't
+  // break the resume itself, just degrades the timer.
+  try {
+    await prisma.akashDeployment.update({
+      where: { id: newDeploymentId },
+      data: { resumedFromId: deployment.id },
+    })
+  } catch (linkErr) {
+    log.warn(
+      {
+        err: linkErr instanceof Error ? linkErr.message : linkErr,
+        newDeploymentId,
+        suspendedId: deployment.id,
+      },
+      'Failed to set resumedFromId on resumed Akash deployment — uptime timer will reset for this row'
+    )
+  }
+
+  // Preserve policy: create a new policy for the resumed deployment inheriting original constraints
+  if (deployment.policyId) {
+    const oldPolicy = await prisma.deploymentPolicy.findUnique({
+      where: { id: deployment.policyId },
+    })
+    if (oldPolicy) {
+      const newPolicy = await prisma.deploymentPolicy.create({
+        data: {
+          acceptableGpuModels: oldPolicy.acceptableGpuModels,
+          gpuUnits: oldPolicy.gpuUnits,
+          gpuVendor: oldPolicy.gpuVendor,
+          maxBudgetUsd: oldPolicy.maxBudgetUsd,
+          maxMonthlyUsd: oldPolicy.maxMonthlyUsd,
+          runtimeMinutes: oldPolicy.runtimeMinutes,
+          minReplicas: oldPolicy.minReplicas,
+          maxReplicas: oldPolicy.maxReplicas,
+          targetP95LatencyMs: oldPolicy.targetP95LatencyMs,
+          targetRequestsPerSecond: oldPolicy.targetRequestsPerSecond,
+          expiresAt: oldPolicy.runtimeMinutes
+            ? new Date(Date.now() + oldPolicy.runtimeMinutes * 60_000)
+            : null,
+          totalSpentUsd: oldPolicy.totalSpentUsd,
+        },
+      })
+      await prisma.akashDeployment.update({
+        where: { id: newDeploymentId },
+        data: { policyId: newPolicy.id },
+      })
+    }
+  }
+
+  // Create new escrow for the new deployment
+  const escrowService = getEscrowService(prisma)
+  const billingApi = getBillingApiClient()
+  const orgMarkup = await billingApi.getOrgMarkup(billing.orgBillingId)
+
+  // The new deployment has its own pricePerBlock from the bid
+  const newDeployment = await prisma.akashDeployment.findUnique({
+    where: { id: newDeploymentId },
+  })
+
+  if (newDeployment?.pricePerBlock) {
+    await escrowService.createEscrow({
+      akashDeploymentId: newDeploymentId,
+      organizationId: billing.organizationId,
+      pricePerBlock: newDeployment.pricePerBlock,
+      marginRate: orgMarkup.marginRate,
+      userId: 'system',
+    })
+  }
+
+  // Settle and close the old escrow (don't resume it — that would
+  // set it back to ACTIVE and contaminate burn-rate calculations)
+  await escrowService.refundEscrow(deployment.id)
+
+  await prisma.akashDeployment.update({
+    where: { id: deployment.id },
+    data: { status: 'CLOSED', closedAt: new Date() },
+  })
+
+  return `Akash: dseq=${deployment.dseq} → new deployment ${newDeploymentId}`
+}
+
+/** Start a STOPPED Phala CVM in place and resume billing from now. */
+export async function resumePhalaDeployment(
+  prisma: PrismaClient,
+  deployment: PhalaDeployment
+): Promise<string> {
+  const { getPhalaOrchestrator } = await import('../phala/orchestrator.js')
+  const orchestrator = getPhalaOrchestrator(prisma)
+  await orchestrator.startPhalaDeployment(deployment.appId)
+
+  // CRITICAL: do NOT overwrite `activeStartedAt` here. From the user's
+  // perspective the same workload is coming back online — the
+  // "Running for Xh" timer must reflect the original first-active
+  // moment, not "right now". The billing logic uses
+  // `lastBilledAt || activeStartedAt` to compute charge windows, so
+  // updating only `lastBilledAt` is sufficient to make billing pick
+  // up from this resume moment without losing the true uptime.
+  // (This was previously resetting the timer every topup cycle —
+  // see `lib/leaseChain.ts` for the chain-walking counterpart.)
+  await prisma.phalaDeployment.update({
+    where: { id: deployment.id },
+    data: {
+      status: 'ACTIVE',
+      lastBilledAt: new Date(),
+    },
+  })
+
+  // Clear the pause stopReason on the policy
+  if (deployment.policyId) {
+    await prisma.deploymentPolicy
+      .update({
+        where: { id: deployment.policyId },
+        data: { stopReason: null, stoppedAt: null },
+      })
+      .catch(err =>
+        log.warn(
+          { policyId: deployment.policyId, err },
+          'Failed to clear policy stopReason on resume'
+        )
+      )
+
+    await scheduleOrEnforcePolicyExpiry(prisma, deployment.policyId)
+  }
+
+  return `Phala: ${deployment.name}`
+}
+
+/**
+ * Re-deploy a STOPPED Spheron row from its saved recipe into a fresh row
+ * linked via `resumedFromId`. The stopped row stays as the forensic trail.
+ */
+export async function resumeSpheronDeployment(
+  prisma: PrismaClient,
+  deployment: SpheronDeployment,
+  billing: ResumeBilling
+): Promise<string> {
+  if (!deployment.savedDeployInput) {
+    throw new Error('no saved deploy input — cannot replay')
+  }
+
+  const savedInput =
+    deployment.savedDeployInput as unknown as SpheronCreateDeploymentInput
+
+  const { getSpheronOrchestrator } = await import('../spheron/orchestrator.js')
+  const { getCachedSpheronSshKeyId } =
+    await import('../providers/spheronSshKeyBootstrap.js')
+  const orchestrator = getSpheronOrchestrator(prisma)
+
+  // savedInput.sshKeyId may be missing on rows pre-bootstrap; fall
+  // back to the platform-managed key registered at startup. The
+  // stopped row's `sshKeyId` column is the most reliable fallback
+  // since it's required at insert time.
+  const sshKeyId =
+    savedInput.sshKeyId || deployment.sshKeyId || getCachedSpheronSshKeyId()
+  if (!sshKeyId) {
+    throw new Error('no sshKeyId available — bootstrap not run')
+  }
+
+  const newDeploymentId = await orchestrator.deployServiceSpheron(
+    deployment.serviceId,
+    {
+      provider: savedInput.provider,
+      offerId: savedInput.offerId,
+      gpuType: savedInput.gpuType,
+      gpuCount: savedInput.gpuCount,
+      region: savedInput.region,
+      operatingSystem: savedInput.operatingSystem,
+      instanceType: savedInput.instanceType,
+      sshKeyId,
+      // Pricing snapshot from the stopped row — Spheron's live offer
+      // pricing may have changed but the user expects to be charged
+      // the price they originally signed up for.
+      hourlyRateCents: deployment.hourlyRateCents ?? 0,
+      originalHourlyRateCents: deployment.originalHourlyRateCents ?? 0,
+      marginRate: deployment.marginRate ?? 0,
+      pricedSnapshotJson: deployment.pricedSnapshotJson,
+      composeContent: deployment.composeContent ?? undefined,
+      // envVars are intentionally NOT replayed — `envKeys` records
+      // only the keys, not the values. Resume preserves the same
+      // recipe shape but a true env-value resume would need secret
+      // storage outside Spheron.
+      envVars: undefined,
+      orgBillingId: billing.orgBillingId,
+      organizationId: billing.organizationId,
+      policyId: undefined,
+      // Mirror the Akash pattern: a fresh policy clone if the
+      // stopped row had one, so runtime caps + budget caps reset
+      // their accounting against the new lifetime window.
+    }
+  )
+
+  // Lease-chain link — connect the new row to the STOPPED row so
+  // the user-visible "Running for Xh" timer keeps walking back to
+  // the original first-active moment. Best-effort: a failure here
+  // doesn't break the resume itself, just degrades the timer.
+  try {
+    await prisma.spheronDeployment.update({
+      where: { id: newDeploymentId },
+      data: { resumedFromId: deployment.id },
+    })
+  } catch (linkErr) {
+    log.warn(
+      {
+        err: linkErr instanceof Error ? linkErr.message : linkErr,
+        newDeploymentId,
+        stoppedId: deployment.id,
+      },
+      'Failed to set resumedFromId on resumed Spheron deployment — uptime timer will reset for this row'
+    )
+  }
+
+  // Preserve policy: clone with same constraints + reset
+  // expiresAt window. Mirror of the Akash policy-clone path.
+  if (deployment.policyId) {
+    try {
+      const oldPolicy = await prisma.deploymentPolicy.findUnique({
+        where: { id: deployment.policyId },
+      })
+      if (oldPolicy) {
+        const newPolicy = await prisma.deploymentPolicy.create({
+          data: {
+            acceptableGpuModels: oldPolicy.acceptableGpuModels,
+            gpuUnits: oldPolicy.gpuUnits,
+            gpuVendor: oldPolicy.gpuVendor,
+            maxBudgetUsd: oldPolicy.maxBudgetUsd,
+            maxMonthlyUsd: oldPolicy.maxMonthlyUsd,
+            runtimeMinutes: oldPolicy.runtimeMinutes,
+            minReplicas: oldPolicy.minReplicas,
+            maxReplicas: oldPolicy.maxReplicas,
+            targetP95LatencyMs: oldPolicy.targetP95LatencyMs,
+            targetRequestsPerSecond: oldPolicy.targetRequestsPerSecond,
+            expiresAt: oldPolicy.runtimeMinutes
+              ? new Date(Date.now() + oldPolicy.runtimeMinutes * 60_000)
+              : null,
+            totalSpentUsd: oldPolicy.totalSpentUsd,
+          },
+        })
+        await prisma.spheronDeployment.update({
+          where: { id: newDeploymentId },
+          data: { policyId: newPolicy.id },
+        })
+        await scheduleOrEnforcePolicyExpiry(prisma, newPolicy.id)
+      }
+    } catch (policyErr) {
+      log.warn(
+        {
+          err: policyErr instanceof Error ? policyErr.message : policyErr,
+          stoppedId: deployment.id,
+        },
+        'Failed to clone Spheron policy on resume — new row has no policy'
+      )
+    }
+  }
+
+  return `Spheron: ${deployment.name} → new deployment ${newDeploymentId}`
+}
+
 /**
  * Handle POST /internal/compute/check-resume
  */
@@ -88,6 +389,7 @@ export async function handleComputeResumeCheck(
       where: {
         orgBillingId,
         status: 'PAUSED',
+        NOT: { akashDeployment: { policy: { is: SCHEDULE_STOPPED } } },
       },
       include: {
         akashDeployment: true,
@@ -98,6 +400,7 @@ export async function handleComputeResumeCheck(
       where: {
         orgBillingId,
         status: 'STOPPED',
+        NOT: { policy: { is: SCHEDULE_STOPPED } },
       },
     })
 
@@ -105,6 +408,7 @@ export async function handleComputeResumeCheck(
       where: {
         orgBillingId,
         status: 'STOPPED',
+        NOT: { policy: { is: SCHEDULE_STOPPED } },
       },
     })
 
@@ -139,7 +443,6 @@ export async function handleComputeResumeCheck(
     }
 
     // Resume Akash deployments
-    const escrowService = getEscrowService(prisma)
     for (const escrow of pausedEscrows) {
       const deployment = escrow.akashDeployment
       if (!deployment || !deployment.savedSdl) {
@@ -148,98 +451,11 @@ export async function handleComputeResumeCheck(
       }
 
       try {
-        // Re-deploy from saved SDL
-        const { getAkashOrchestrator } =
-          await import('../akash/orchestrator.js')
-        const orchestrator = getAkashOrchestrator(prisma)
-
-        const newDeploymentId = await orchestrator.deployService(
-          deployment.serviceId,
-          {
-            sdlContent: deployment.savedSdl,
-          }
-        )
-
-        // Link the new row to the SUSPENDED row so the lease-chain walker
-        // can compute a continuous "Running for Xh" timer across the
-        // suspend/resume bounce. Without this link the new row is a chain
-        // root and the user-visible uptime resets to 0 every topup —
-        // which is exactly what triggered the "running for days but the
-        // dashboard says 2h" bug. Best-effort: a failure here doesn't
-        // break the resume itself, just degrades the timer.
-        try {
-          await prisma.akashDeployment.update({
-            where: { id: newDeploymentId },
-            data: { resumedFromId: deployment.id },
-          })
-        } catch (linkErr) {
-          log.warn(
-            {
-              err: linkErr instanceof Error ? linkErr.message : linkErr,
-              newDeploymentId,
-              suspendedId: deployment.id,
-            },
-            'Failed to set resumedFromId on resumed Akash deployment — uptime timer will reset for this row',
-          )
-        }
-
-        // Preserve policy: create a new policy for the resumed deployment inheriting original constraints
-        if (deployment.policyId) {
-          const oldPolicy = await prisma.deploymentPolicy.findUnique({
-            where: { id: deployment.policyId },
-          })
-          if (oldPolicy) {
-            const newPolicy = await prisma.deploymentPolicy.create({
-              data: {
-                acceptableGpuModels: oldPolicy.acceptableGpuModels,
-                gpuUnits: oldPolicy.gpuUnits,
-                gpuVendor: oldPolicy.gpuVendor,
-                maxBudgetUsd: oldPolicy.maxBudgetUsd,
-                maxMonthlyUsd: oldPolicy.maxMonthlyUsd,
-                runtimeMinutes: oldPolicy.runtimeMinutes,
-                expiresAt: oldPolicy.runtimeMinutes
-                  ? new Date(Date.now() + oldPolicy.runtimeMinutes * 60_000)
-                  : null,
-                totalSpentUsd: oldPolicy.totalSpentUsd,
-              },
-            })
-            await prisma.akashDeployment.update({
-              where: { id: newDeploymentId },
-              data: { policyId: newPolicy.id },
-            })
-          }
-        }
-
-        // Create new escrow for the new deployment
-        const billingApi = getBillingApiClient()
-        const orgMarkup = await billingApi.getOrgMarkup(orgBillingId)
-
-        // The new deployment has its own pricePerBlock from the bid
-        const newDeployment = await prisma.akashDeployment.findUnique({
-          where: { id: newDeploymentId },
-        })
-
-        if (newDeployment?.pricePerBlock) {
-          await escrowService.createEscrow({
-            akashDeploymentId: newDeploymentId,
+        resumed.push(
+          await resumeAkashDeployment(prisma, deployment, {
+            orgBillingId,
             organizationId,
-            pricePerBlock: newDeployment.pricePerBlock,
-            marginRate: orgMarkup.marginRate,
-            userId: 'system',
           })
-        }
-
-        // Settle and close the old escrow (don't resume it — that would
-        // set it back to ACTIVE and contaminate burn-rate calculations)
-        await escrowService.refundEscrow(deployment.id)
-
-        await prisma.akashDeployment.update({
-          where: { id: deployment.id },
-          data: { status: 'CLOSED', closedAt: new Date() },
-        })
-
-        resumed.push(
-          `Akash: dseq=${deployment.dseq} → new deployment ${newDeploymentId}`
         )
       } catch (error) {
         errors.push(
@@ -251,46 +467,7 @@ export async function handleComputeResumeCheck(
     // Resume Phala deployments
     for (const deployment of pausedPhala) {
       try {
-        const { getPhalaOrchestrator } =
-          await import('../phala/orchestrator.js')
-        const orchestrator = getPhalaOrchestrator(prisma)
-        await orchestrator.startPhalaDeployment(deployment.appId)
-
-        // CRITICAL: do NOT overwrite `activeStartedAt` here. From the user's
-        // perspective the same workload is coming back online — the
-        // "Running for Xh" timer must reflect the original first-active
-        // moment, not "right now". The billing logic uses
-        // `lastBilledAt || activeStartedAt` to compute charge windows, so
-        // updating only `lastBilledAt` is sufficient to make billing pick
-        // up from this resume moment without losing the true uptime.
-        // (This was previously resetting the timer every topup cycle —
-        // see `lib/leaseChain.ts` for the chain-walking counterpart.)
-        await prisma.phalaDeployment.update({
-          where: { id: deployment.id },
-          data: {
-            status: 'ACTIVE',
-            lastBilledAt: new Date(),
-          },
-        })
-
-        // Clear BALANCE_LOW stopReason on policy if resuming
-        if (deployment.policyId) {
-          await prisma.deploymentPolicy
-            .update({
-              where: { id: deployment.policyId },
-              data: { stopReason: null, stoppedAt: null },
-            })
-            .catch(err =>
-              log.warn(
-                { policyId: deployment.policyId, err },
-                'Failed to clear policy stopReason on resume'
-              )
-            )
-
-          await scheduleOrEnforcePolicyExpiry(prisma, deployment.policyId)
-        }
-
-        resumed.push(`Phala: ${deployment.name}`)
+        resumed.push(await resumePhalaDeployment(prisma, deployment))
       } catch (error) {
         errors.push(
           `Phala ${deployment.id}: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -306,121 +483,12 @@ export async function handleComputeResumeCheck(
     // STOPPED with the recipe preserved (forensic trail).
     for (const deployment of pausedSpheron) {
       try {
-        if (!deployment.savedDeployInput) {
-          errors.push(`Spheron ${deployment.id}: no saved deploy input — cannot replay`)
-          continue
-        }
-
-        const savedInput = deployment.savedDeployInput as unknown as SpheronCreateDeploymentInput
-
-        const { getSpheronOrchestrator } = await import('../spheron/orchestrator.js')
-        const { getCachedSpheronSshKeyId } = await import('../providers/spheronSshKeyBootstrap.js')
-        const orchestrator = getSpheronOrchestrator(prisma)
-
-        // savedInput.sshKeyId may be missing on rows pre-bootstrap; fall
-        // back to the platform-managed key registered at startup. The
-        // stopped row's `sshKeyId` column is the most reliable fallback
-        // since it's required at insert time.
-        const sshKeyId =
-          savedInput.sshKeyId || deployment.sshKeyId || getCachedSpheronSshKeyId()
-        if (!sshKeyId) {
-          errors.push(`Spheron ${deployment.id}: no sshKeyId available — bootstrap not run`)
-          continue
-        }
-
-        const newDeploymentId = await orchestrator.deployServiceSpheron(
-          deployment.serviceId,
-          {
-            provider: savedInput.provider,
-            offerId: savedInput.offerId,
-            gpuType: savedInput.gpuType,
-            gpuCount: savedInput.gpuCount,
-            region: savedInput.region,
-            operatingSystem: savedInput.operatingSystem,
-            instanceType: savedInput.instanceType,
-            sshKeyId,
-            // Pricing snapshot from the stopped row — Spheron's live offer
-            // pricing may have changed but the user expects to be charged
-            // the price they originally signed up for.
-            hourlyRateCents: deployment.hourlyRateCents ?? 0,
-            originalHourlyRateCents: deployment.originalHourlyRateCents ?? 0,
-            marginRate: deployment.marginRate ?? 0,
-            pricedSnapshotJson: deployment.pricedSnapshotJson,
-            composeContent: deployment.composeContent ?? undefined,
-            // envVars are intentionally NOT replayed — `envKeys` records
-            // only the keys, not the values. Resume preserves the same
-            // recipe shape but a true env-value resume would need secret
-            // storage outside Spheron.
-            envVars: undefined,
+        resumed.push(
+          await resumeSpheronDeployment(prisma, deployment, {
             orgBillingId,
             organizationId,
-            policyId: undefined,
-            // Mirror the Akash pattern: a fresh policy clone if the
-            // stopped row had one, so runtime caps + budget caps reset
-            // their accounting against the new lifetime window.
-          },
-        )
-
-        // Lease-chain link — connect the new row to the STOPPED row so
-        // the user-visible "Running for Xh" timer keeps walking back to
-        // the original first-active moment. Best-effort: a failure here
-        // doesn't break the resume itself, just degrades the timer.
-        try {
-          await prisma.spheronDeployment.update({
-            where: { id: newDeploymentId },
-            data: { resumedFromId: deployment.id },
           })
-        } catch (linkErr) {
-          log.warn(
-            {
-              err: linkErr instanceof Error ? linkErr.message : linkErr,
-              newDeploymentId,
-              stoppedId: deployment.id,
-            },
-            'Failed to set resumedFromId on resumed Spheron deployment — uptime timer will reset for this row',
-          )
-        }
-
-        // Preserve policy: clone with same constraints + reset
-        // expiresAt window. Mirror of the Akash policy-clone path.
-        if (deployment.policyId) {
-          try {
-            const oldPolicy = await prisma.deploymentPolicy.findUnique({
-              where: { id: deployment.policyId },
-            })
-            if (oldPolicy) {
-              const newPolicy = await prisma.deploymentPolicy.create({
-                data: {
-                  acceptableGpuModels: oldPolicy.acceptableGpuModels,
-                  gpuUnits: oldPolicy.gpuUnits,
-                  gpuVendor: oldPolicy.gpuVendor,
-                  maxBudgetUsd: oldPolicy.maxBudgetUsd,
-                  maxMonthlyUsd: oldPolicy.maxMonthlyUsd,
-                  runtimeMinutes: oldPolicy.runtimeMinutes,
-                  expiresAt: oldPolicy.runtimeMinutes
-                    ? new Date(Date.now() + oldPolicy.runtimeMinutes * 60_000)
-                    : null,
-                  totalSpentUsd: oldPolicy.totalSpentUsd,
-                },
-              })
-              await prisma.spheronDeployment.update({
-                where: { id: newDeploymentId },
-                data: { policyId: newPolicy.id },
-              })
-              await scheduleOrEnforcePolicyExpiry(prisma, newPolicy.id)
-            }
-          } catch (policyErr) {
-            log.warn(
-              {
-                err: policyErr instanceof Error ? policyErr.message : policyErr,
-                stoppedId: deployment.id,
-              },
-              'Failed to clone Spheron policy on resume — new row has no policy',
-            )
-          }
-        }
-
-        resumed.push(`Spheron: ${deployment.name} → new deployment ${newDeploymentId}`)
+        )
       } catch (error) {
         errors.push(
           `Spheron ${deployment.id}: ${error instanceof Error ? error.message : 'Unknown error'}`
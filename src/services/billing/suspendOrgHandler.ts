@@ -13,7 +13,14 @@
  */
 
 import type { IncomingMessage, ServerResponse } from 'node:http'
-import type { PrismaClient } from '@prisma/client'
+import type {
+  AkashDeployment,
+  DeploymentEscrow,
+  PhalaDeployment,
+  PolicyStopReason,
+  PrismaClient,
+  SpheronDeployment,
+} from '@prisma/client'
 import { getEscrowService } from './escrowService.js'
 import {
   processFinalPhalaBilling,
@@ -28,6 +35,241 @@ interface SuspendRequest {
   organizationId: string
 }
 
+/**
+ * Why a deployment is being paused. Lands on the policy's `stopReason`
+ * and keys the final-settlement idempotency prefix.
+ */
+export type PauseReason = Extract<
+  PolicyStopReason,
+  'BALANCE_LOW' | 'SCHEDULED_STOP'
+>
+
+const SETTLEMENT_KEY: Record<PauseReason, string> = {
+  BALANCE_LOW: 'balance_low_suspend',
+  SCHEDULED_STOP: 'scheduled_stop',
+}
+
+export type PauseOutcome =
+  | { ok: true; label: string }
+  | { ok: false; error: string }
+
+/**
+ * Save SDL, close on-chain, mark SUSPENDED, pause escrow. A failed close
+ * leaves the row ACTIVE (and billed) and reports an error instead.
+ */
+export async function pauseAkashDeployment(
+  prisma: PrismaClient,
+  deployment: AkashDeployment & { escrow: DeploymentEscrow | null },
+  reason: PauseReason
+): Promise<PauseOutcome> {
+  const stoppedAt = new Date()
+
+  // Save SDL first — needed for eventual resume regardless of close outcome
+  await prisma.akashDeployment.update({
+    where: { id: deployment.id },
+    data: { savedSdl: deployment.sdlContent },
+  })
+
+  // Close on-chain BEFORE marking DB state as SUSPENDED.
+  // If close fails, the deployment stays ACTIVE and billed until resolved.
+  let onChainClosed = false
+  try {
+    const { getAkashOrchestrator } = await import('../akash/orchestrator.js')
+    const orchestrator = getAkashOrchestrator(prisma)
+    log.info({ dseq: deployment.dseq }, 'Closing on-chain deployment for pause')
+    await orchestrator.closeDeployment(Number(deployment.dseq))
+    onChainClosed = true
+    log.info({ dseq: deployment.dseq }, 'On-chain close TX submitted')
+    // Sequence-settle delay is held inside withWalletLock
+    // (see services/akash/walletMutex.ts). No manual sleep needed.
+  } catch (err) {
+    const errMsg = err instanceof Error ? err.message : String(err)
+    const alreadyGone =
+      /deployment not found|deployment closed|not active|does not exist|order not found|lease not found|unknown deployment|invalid deployment/i.test(
+        errMsg
+      )
+    if (alreadyGone) {
+      log.warn(
+        { dseq: deployment.dseq, err },
+        'On-chain deployment already gone — treating as closed'
+      )
+      onChainClosed = true
+    } else {
+      log.error(
+        { dseq: deployment.dseq, err },
+        'On-chain close FAILED — deployment stays ACTIVE and billed until resolved'
+      )
+      return {
+        ok: false,
+        error: `Akash dseq=${deployment.dseq}: on-chain close failed, still running and billed`,
+      }
+    }
+  }
+
+  if (onChainClosed) {
+    await prisma.akashDeployment.update({
+      where: { id: deployment.id },
+      data: { status: 'SUSPENDED' },
+    })
+
+    if (deployment.policyId) {
+      await prisma.deploymentPolicy
+        .update({
+          where: { id: deployment.policyId },
+          data: { stopReason: reason, stoppedAt },
+        })
+        .catch(err =>
+          log.warn(
+            { policyId: deployment.policyId, err },
+            'Failed to set policy stopReason'
+          )
+        )
+    }
+
+    if (deployment.escrow && deployment.escrow.status === 'ACTIVE') {
+      await settleAkashEscrowToTime(prisma, deployment.id, stoppedAt)
+      await getEscrowService(prisma).pauseEscrow(deployment.id)
+    }
+  }
+
+  return { ok: true, label: `Akash: dseq=${deployment.dseq}` }
+}
+
+/** Settle final billing, stop the CVM, mark STOPPED. */
+export async function pausePhalaDeployment(
+  prisma: PrismaClient,
+  deployment: PhalaDeployment,
+  reason: PauseReason
+): Promise<PauseOutcome> {
+  const stoppedAt = new Date()
+  await processFinalPhalaBilling(
+    prisma,
+    deployment.id,
+    stoppedAt,
+    `phala_${SETTLEMENT_KEY[reason]}`
+  )
+
+  const { getPhalaOrchestrator } = await import('../phala/orchestrator.js')
+  const orchestrator = getPhalaOrchestrator(prisma)
+  await orchestrator.stopPhalaDeployment(deployment.appId)
+
+  await prisma.phalaDeployment.update({
+    where: { id: deployment.id },
+    data: { status: 'STOPPED' },
+  })
+
+  // Record why the policy stopped, if the deployment has one
+  if (deployment.policyId) {
+    await prisma.deploymentPolicy
+      .update({
+        where: { id: deployment.policyId },
+        data: { stopReason: reason, stoppedAt: new Date() },
+      })
+      .catch(err =>
+        log.warn(
+          { policyId: deployment.policyId, err },
+          'Failed to set policy stopReason'
+        )
+      )
+  }
+
+  return { ok: true, label: `Phala: ${deployment.name}` }
+}
+
+/**
+ * Settle final billing, DELETE the upstream VM (deferred to the sweeper
+ * inside the 20-min floor), mark STOPPED with the recipe preserved.
+ */
+export async function pauseSpheronDeployment(
+  prisma: PrismaClient,
+  deployment: SpheronDeployment,
+  reason: PauseReason
+): Promise<PauseOutcome> {
+  const stoppedAt = new Date()
+
+  // Settle billing BEFORE the upstream DELETE. The 20-min floor
+  // is enforced inside processFinalSpheronBilling.
+  await processFinalSpheronBilling(
+    prisma,
+    deployment.id,
+    stoppedAt,
+    `spheron_${SETTLEMENT_KEY[reason]}`
+  )
+
+  let providerStopped = false
+  let upstreamDeletedAt: Date | null = null
+
+  if (deployment.providerDeploymentId) {
+    try {
+      const { getSpheronOrchestrator } =
+        await import('../spheron/orchestrator.js')
+      const orchestrator = getSpheronOrchestrator(prisma)
+      await orchestrator.closeDeployment(deployment.providerDeploymentId)
+      upstreamDeletedAt = new Date()
+      providerStopped = true
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : String(err)
+      const { SpheronApiError } = await import('../spheron/client.js')
+      if (err instanceof SpheronApiError && err.isAlreadyGone()) {
+        log.warn(
+          { providerDeploymentId: deployment.providerDeploymentId, err },
+          'Spheron VM already gone during pause — treating as stopped'
+        )
+        upstreamDeletedAt = new Date()
+        providerStopped = true
+      } else if (
+        err instanceof SpheronApiError &&
+        err.isMinimumRuntimeNotMet()
+      ) {
+        log.warn(
+          { providerDeploymentId: deployment.providerDeploymentId },
+          'Spheron DELETE deferred (minimum runtime) during pause — sweeper will retry'
+        )
+        providerStopped = true
+      } else {
+        log.error(
+          { deploymentId: deployment.id, err: errMsg },
+          'Spheron DELETE failed during pause — deployment stays ACTIVE and billed'
+        )
+        return {
+          ok: false,
+          error: `Spheron ${deployment.id}: DELETE failed, still running and billed`,
+        }
+      }
+    }
+  } else {
+    // No upstream id — nothing to delete, treat as stopped.
+    upstreamDeletedAt = new Date()
+    providerStopped = true
+  }
+
+  if (providerStopped) {
+    await prisma.spheronDeployment.update({
+      where: { id: deployment.id },
+      data: {
+        status: 'STOPPED',
+        ...(upstreamDeletedAt ? { upstreamDeletedAt } : {}),
+      },
+    })
+
+    if (deployment.policyId) {
+      await prisma.deploymentPolicy
+        .update({
+          where: { id: deployment.policyId },
+          data: { stopReason: reason, stoppedAt },
+        })
+        .catch(err =>
+          log.warn(
+            { policyId: deployment.policyId, err },
+            'Failed to set Spheron policy stopReason'
+          )
+        )
+    }
+  }
+
+  return { ok: true, label: `Spheron: ${deployment.name}` }
+}
+
 /**
  * Handle POST /internal/compute/suspend-org
  */
@@ -72,8 +314,6 @@ export async function handleSuspendOrg(
   const errors: string[] = []
 
   try {
-    const escrowService = getEscrowService(prisma)
-
     // 1. Pause Akash deployments: close on-chain, save SDL, mark SUSPENDED
     //    Query through service→project→organization_id (not escrow, which may not exist)
     const akashDeployments = await prisma.akashDeployment.findMany({
@@ -86,71 +326,13 @@ export async function handleSuspendOrg(
 
     for (const deployment of akashDeployments) {
       try {
-        const stoppedAt = new Date()
-
-        // Save SDL first — needed for eventual resume regardless of close outcome
-        await prisma.akashDeployment.update({
-          where: { id: deployment.id },
-          data: { savedSdl: deployment.sdlContent },
-        })
-
-        // Close on-chain BEFORE marking DB state as SUSPENDED.
-        // If close fails, the deployment stays ACTIVE and billed until resolved.
-        let onChainClosed = false
-        try {
-          const { getAkashOrchestrator } =
-            await import('../akash/orchestrator.js')
-          const orchestrator = getAkashOrchestrator(prisma)
-          log.info({ dseq: deployment.dseq }, 'Closing on-chain deployment for org suspension')
-          await orchestrator.closeDeployment(Number(deployment.dseq))
-          onChainClosed = true
-          log.info({ dseq: deployment.dseq }, 'On-chain close TX submitted')
-          // Sequence-settle delay is held inside withWalletLock
-          // (see services/akash/walletMutex.ts). No manual sleep needed.
-        } catch (err) {
-          const errMsg = err instanceof Error ? err.message : String(err)
-          const alreadyGone = /deployment not found|deployment closed|not active|does not exist|order not found|lease not found|unknown deployment|invalid deployment/i.test(errMsg)
-          if (alreadyGone) {
-            log.warn({ dseq: deployment.dseq, err }, 'On-chain deployment already gone — treating as closed')
-            onChainClosed = true
-          } else {
-            log.error(
-              { dseq: deployment.dseq, err },
-              'On-chain close FAILED — deployment stays ACTIVE and billed until resolved'
-            )
-            errors.push(
-              `Akash dseq=${deployment.dseq}: on-chain close failed, still running and billed`
-            )
-          }
-        }
-
-        if (onChainClosed) {
-          await prisma.akashDeployment.update({
-            where: { id: deployment.id },
-            data: { status: 'SUSPENDED' },
-          })
-
-          if (deployment.policyId) {
-            await prisma.deploymentPolicy
-              .update({
-                where: { id: deployment.policyId },
-                data: { stopReason: 'BALANCE_LOW', stoppedAt },
-              })
-              .catch(err =>
-                log.warn(
-                  { policyId: deployment.policyId, err },
-                  'Failed to set policy stopReason'
-                )
-              )
-          }
-
-          if (deployment.escrow && deployment.escrow.status === 'ACTIVE') {
-            await settleAkashEscrowToTime(prisma, deployment.id, stoppedAt)
-            await escrowService.pauseEscrow(deployment.id)
-          }
-
-          paused.push(`Akash: dseq=${deployment.dseq}`)
-        }
+        const outcome = await pauseAkashDeployment(
+          prisma,
+          deployment,
+          'BALANCE_LOW'
+        )
+        if (outcome.ok) paused.push(outcome.label)
+        else errors.push(outcome.error)
       } catch (error) {
         const msg = `Akash ${deployment.id}: ${error instanceof Error ? error.message : 'Unknown error'}`
         errors.push(msg)
@@ -172,40 +354,13 @@ export async function handleSuspendOrg(
 
     for (const deployment of phalaDeployments) {
       try {
-        const stoppedAt = new Date()
-        await processFinalPhalaBilling(
+        const outcome = await pausePhalaDeployment(
           prisma,
-          deployment.id,
-          stoppedAt,
-          'phala_balance_low_suspend'
+          deployment,
+          'BALANCE_LOW'
         )
-
-        const { getPhalaOrchestrator } =
-          await import('../phala/orchestrator.js')
-        const orchestrator = getPhalaOrchestrator(prisma)
-        await orchestrator.stopPhalaDeployment(deployment.appId)
-
-        await prisma.phalaDeployment.update({
-          where: { id: deployment.id },
-          data: { status: 'STOPPED' },
-        })
-
-        // Mark policy stop reason as BALANCE_LOW if policy exists
-        if (deployment.policyId) {
-          await prisma.deploymentPolicy
-            .update({
-              where: { id: deployment.policyId },
-              data: { stopReason: 'BALANCE_LOW', stoppedAt: new Date() },
-            })
-            .catch(err =>
-              log.warn(
-                { policyId: deployment.policyId, err },
-                'Failed to set policy stopReason'
-              )
-            )
-        }
-
-        paused.push(`Phala: ${deployment.name}`)
+        if (outcome.ok) paused.push(outcome.label)
+        else errors.push(outcome.error)
       } catch (error) {
         const msg = `Phala ${deployment.id}: ${error instanceof Error ? error.message : 'Unknown error'}`
         errors.push(msg)
@@ -230,87 +385,13 @@ export async function handleSuspendOrg(
 
     for (const deployment of spheronDeployments) {
       try {
-        const stoppedAt = new Date()
-
-        // Settle billing BEFORE the upstream DELETE. The 20-min floor
-        // is enforced inside processFinalSpheronBilling.
-        await processFinalSpheronBilling(
+        const outcome = await pauseSpheronDeployment(
           prisma,
-          deployment.id,
-          stoppedAt,
-          'spheron_balance_low_suspend'
+          deployment,
+          'BALANCE_LOW'
         )
-
-        let providerStopped = false
-        let upstreamDeletedAt: Date | null = null
-
-        if (deployment.providerDeploymentId) {
-          try {
-            const { getSpheronOrchestrator } = await import('../spheron/orchestrator.js')
-            const orchestrator = getSpheronOrchestrator(prisma)
-            await orchestrator.closeDeployment(deployment.providerDeploymentId)
-            upstreamDeletedAt = new Date()
-            providerStopped = true
-          } catch (err) {
-            const errMsg = err instanceof Error ? err.message : String(err)
-            const { SpheronApiError } = await import('../spheron/client.js')
-            if (err instanceof SpheronApiError && err.isAlreadyGone()) {
-              log.warn(
-                { providerDeploymentId: deployment.providerDeploymentId, err },
-                'Spheron VM already gone during org suspend — treating as stopped'
-              )
-              upstreamDeletedAt = new Date()
-              providerStopped = true
-            } else if (
-              err instanceof SpheronApiError &&
-              err.isMinimumRuntimeNotMet()
-            ) {
-              log.warn(
-                { providerDeploymentId: deployment.providerDeploymentId },
-                'Spheron DELETE deferred (minimum runtime) during org suspend — sweeper will retry'
-              )
-              providerStopped = true
-            } else {
-              log.error(
-                { deploymentId: deployment.id, err: errMsg },
-                'Spheron DELETE failed during org suspend — deployment stays ACTIVE and billed'
-              )
-              errors.push(
-                `Spheron ${deployment.id}: DELETE failed, still running and billed`
-              )
-            }
-          }
-        } else {
-          // No upstream id — nothing to delete, treat as stopped.
-          upstreamDeletedAt = new Date()
-          providerStopped = true
-        }
-
-        if (providerStopped) {
-          await prisma.spheronDeployment.update({
-            where: { id: deployment.id },
-            data: {
-              status: 'STOPPED',
-              ...(upstreamDeletedAt ? { upstreamDeletedAt } : {}),
-            },
-          })
-
-          if (deployment.policyId) {
-            await prisma.deploymentPolicy
-              .update({
-                where: { id: deployment.policyId },
-                data: { stopReason: 'BALANCE_LOW', stoppedAt },
-              })
-              .catch((err) =>
-                log.warn(
-                  { policyId: deployment.policyId, err },
-                  'Failed to set Spheron policy stopReason'
-                )
-              )
-          }
-
-          paused.push(`Spheron: ${deployment.name}`)
-        }
+        if (outcome.ok) paused.push(outcome.label)
+        else errors.push(outcome.error)
       } catch (error) {
         const msg = `Spheron ${deployment.id}: ${error instanceof Error ? error.message : 'Unknown error'}`
         errors.push(msg)
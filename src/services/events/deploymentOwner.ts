@@ -0,0 +1,38 @@
+import type { PrismaClient } from '@prisma/client'
+
+export interface DeploymentOwner {
+  serviceId: string
+  projectId: string
+  organizationId: string | null
+}
+
+/**
+ * The service / project / org behind a provider deployment id. Status
+ * events only carry the row id, which may be an Akash, Phala or Spheron
+ * deployment.
+ */
+export async function findDeploymentOwner(
+  prisma: PrismaClient,
+  deploymentId: string
+): Promise<DeploymentOwner | null> {
+  const where = { id: deploymentId }
+  const select = {
+    service: {
+      select: {
+        id: true,
+        projectId: true,
+        project: { select: { organizationId: true } },
+      },
+    },
+  }
+  const row =
+    (await prisma.akashDeployment.findUnique({ where, select })) ??
+    (await prisma.phalaDeployment.findUnique({ where, select })) ??
+    (await prisma.spheronDeployment.findUnique({ where, select }))
+  if (!row?.service) return null
+  return {
+    serviceId: row.service.id,
+    projectId: row.service.projectId,
+    organizationId: row.service.project.organizationId,
+  }
+}
@@ -0,0 +1,50 @@
+import type { PrismaClient } from '@prisma/client'
+import { audit } from '../../lib/audit.js'
+import { createLogger } from '../../lib/logger.js'
+import {
+  deploymentEvents,
+  type DeploymentStatusEvent,
+} from './deploymentEvents.js'
+import { findDeploymentOwner } from './deploymentOwner.js'
+
+const log = createLogger('deployment-status-audit')
+
+const FAILED_STATUSES = new Set(['FAILED', 'PERMANENTLY_FAILED'])
+
+/**
+ * Record every provider deployment status change as a
+ * `deployment.status_changed` audit event, so the org's event webhooks
+ * see deploys go live or fail. Status events are in-process, so this
+ * runs on every pod. Returns the unsubscribe function.
+ */
+export function startDeploymentStatusAudit(prisma: PrismaClient): () => void {
+  const onStatus = (evt: DeploymentStatusEvent) => {
+    findDeploymentOwner(prisma, evt.deploymentId)
+      .then(owner => {
+        if (!owner) return
+        audit(prisma, {
+          category: 'deployment',
+          action: 'deployment.status_changed',
+          status: FAILED_STATUSES.has(evt.status) ? 'error' : 'ok',
+          orgId: owner.organizationId,
+          projectId: owner.projectId,
+          serviceId: owner.serviceId,
+          deploymentId: evt.deploymentId,
+          payload: {
+            status: evt.status,
+            changedAt: evt.timestamp.toISOString(),
+          },
+        })
+      })
+      .catch(err => {
+        log.warn(
+          { err, deploymentId: evt.deploymentId },
+          'could not audit deployment status change'
+        )
+      })
+  }
+  deploymentEvents.on('status', onStatus)
+  return () => {
+    deploymentEvents.off('status', onStatus)
+  }
+}
@@ -0,0 +1,134 @@
+import { describe, expect, it, vi } from 'vitest'
+import type { PrismaClient } from '@prisma/client'
+import {
+  evaluateFailoverEligibility,
+  evaluatePlacementFailover,
+  parseFailoverPolicy,
+} from './failoverService.js'
+
+const healthy = { getProbeOverall: () => 'healthy' as const }
+
+function prismaWith(opts: {
+  deployment: Record<string, unknown>
+  akashFailovers?: number
+  crossFailovers?: number
+  chainRoot?: Record<string, unknown> | null
+}) {
+  const findUnique = vi
+    .fn()
+    .mockResolvedValueOnce(opts.deployment)
+    .mockResolvedValueOnce(opts.chainRoot ?? null)
+  return {
+    akashDeployment: {
+      findUnique,
+      count: vi.fn().mockResolvedValue(opts.akashFailovers ?? 0),
+    },
+    phalaDeployment: {
+      count: vi.fn().mockResolvedValue(opts.crossFailovers ?? 0),
+    },
+    spheronDeployment: { count: vi.fn().mockResolvedValue(0) },
+  } as unknown as PrismaClient
+}
+
+const baseDeployment = {
+  id: 'ak-2',
+  serviceId: 'svc-1',
+  provider: 'akash1dead',
+  deployedAt: new Date(),
+  excludedProviders: ['akash1old'],
+  gpuModel: null,
+  policy: null,
+  service: {
+    id: 'svc-1',
+    volumes: [],
+    failoverPolicy: {
+      enabled: true,
+      maxAttempts: 4,
+      fallbackProviders: ['spheron', 'phala'],
+    },
+  },
+}
+
+describe('parseFailoverPolicy', () => {
+  it('keeps known fallback providers in order and drops the rest', () => {
+    expect(
+      parseFailoverPolicy({
+        enabled: true,
+        fallbackProviders: ['Phala', 'akash', 'spheron', 'phala'],
+      }).fallbackProviders
+    ).toEqual(['phala', 'spheron'])
+    expect(parseFailoverPolicy(null).fallbackProviders).toEqual([])
+  })
+})
+
+describe('evaluateFailoverEligibility', () => {
+  it('stays on Akash for the first failover in the window', async () => {
+    const result = await evaluateFailoverEligibility(
+      prismaWith({ deployment: baseDeployment }),
+      'ak-2',
+      healthy
+    )
+    expect(result).toMatchObject({
+      eligible: true,
+      targets: ['akash'],
+      excludedProviders: ['akash1old', 'akash1dead'],
+    })
+  })
+
+  it('moves a CPU service to Phala once an Akash failover was spent', async () => {
+    const result = await evaluateFailoverEligibility(
+      prismaWith({ deployment: baseDeployment, akashFailovers: 1 }),
+      'ak-2',
+      healthy
+    )
+    expect(result).toMatchObject({ eligible: true, targets: ['phala'] })
+  })
+
+  it('counts cross-provider replacements against the same cap', async () => {
+    const result = await evaluateFailoverEligibility(
+      prismaWith({
+        deployment: baseDeployment,
+        akashFailovers: 1,
+        crossFailovers: 3,
+      }),
+      'ak-2',
+      healthy
+    )
+    expect(result).toMatchObject({ eligible: false, reason: 'cap_exceeded' })
+  })
+})
+
+describe('evaluatePlacementFailover', () => {
+  const exhausted = {
+    ...baseDeployment,
+    id: 'ak-3',
+    parentDeploymentId: 'ak-root',
+    failoverParentId: null,
+    gpuModel: 'h100',
+  }
+
+  it('sends an unplaceable failover chain to the fallbacks in order', async () => {
+    const result = await evaluatePlacementFailover(
+      prismaWith({
+        deployment: exhausted,
+        chainRoot: { failoverParentId: 'ak-1' },
+      }),
+      'ak-3'
+    )
+    expect(result).toMatchObject({
+      eligible: true,
+      targets: ['spheron', 'phala'],
+    })
+  })
+
+  it('leaves user-initiated deploys alone', async () => {
+    const result = await evaluatePlacementFailover(
+      prismaWith({
+        deployment: exhausted,
+        chainRoot: { failoverParentId: null },
+      }),
+      'ak-3'
+    )
+    expect(result).toMatchObject({ eligible: false, reason: 'no_chain_root' })
+  })
+})
@@ -12,13 +12,23 @@
  * not currently `unhealthy`, attempts within the policy window. The new
  * row carries the union of `excludedProviders` so future bid filtering
  * skips known-bad providers.
+ *
+ * Cross-provider: with `fallbackProviders` set, once an Akash-on-Akash
+ * failover has already been spent in the window (or a failover replacement
+ * could not be placed at all — see `evaluatePlacementFailover`), the next
+ * attempt redeploys the service on Spheron/Phala instead. Those rows count
+ * against the same attempt cap and are linked back via `failoverParentId`.
  */
 
+import { randomUUID } from 'node:crypto'
 import { Prisma } from '@prisma/client'
 import type { PrismaClient, AkashDeployment } from '@prisma/client'
 import { audit } from '../../lib/audit.js'
 import { createLogger } from '../../lib/logger.js'
 import { getApplicationHealthRunner } from '../health/applicationHealthRunner.js'
+import { notify } from '../notifications/notify.js'
+import type { Context } from '../../resolvers/types.js'
+import { exemptFromDeployApproval } from '../../resolvers/deployApprovalGuard.js'
 
 const log = createLogger('failover')
 
@@ -29,6 +39,15 @@ export type FailoverSkipReason =
   | 'app_unhealthy'
   | 'cap_exceeded'
   | 'no_chain_root'
+  | 'no_fallback_provider'
+
+export type FallbackProvider = 'spheron' | 'phala'
+export type FailoverTarget = 'akash' | FallbackProvider
+
+export const FALLBACK_PROVIDERS: ReadonlyArray<FallbackProvider> = [
+  'spheron',
+  'phala',
+]
 
 export type FailoverEligibility =
   | {
@@ -37,6 +56,8 @@ export type FailoverEligibility =
       maxAttempts: number
       windowHours: number
       excludedProviders: string[]
+      /** Ordered; `['akash']` or the applicable fallback providers. */
+      targets: FailoverTarget[]
     }
   | { eligible: false; reason: FailoverSkipReason; detail?: string }
 
@@ -44,12 +65,15 @@ export interface FailoverPolicy {
   enabled: boolean
   maxAttempts: number
   windowHours: number
+  /** Tried in order once Akash-on-Akash failover has been spent. */
+  fallbackProviders: FallbackProvider[]
 }
 
 const DEFAULT_POLICY: FailoverPolicy = {
   enabled: false,
   maxAttempts: 3,
   windowHours: 24,
+  fallbackProviders: [],
 }
 
 const MAX_ATTEMPTS_HARD_CAP = 10
@@ -67,7 +91,24 @@ export function parseFailoverPolicy(raw: unknown): FailoverPolicy {
   const enabled = obj.enabled === true
   const maxAttempts = clamp(numberOr(obj.maxAttempts, DEFAULT_POLICY.maxAttempts), 1, MAX_ATTEMPTS_HARD_CAP)
   const windowHours = clamp(numberOr(obj.windowHours, DEFAULT_POLICY.windowHours), MIN_WINDOW_HOURS, MAX_WINDOW_HOURS)
-  return { enabled, maxAttempts, windowHours }
+  const fallbackProviders = parseFallbackProviders(obj.fallbackProviders)
+  return { enabled, maxAttempts, windowHours, fallbackProviders }
+}
+
+/** Unknown names are dropped and duplicates collapsed; order is kept. */
+export function parseFallbackProviders(raw: unknown): FallbackProvider[] {
+  if (!Array.isArray(raw)) return []
+  const out: FallbackProvider[] = []
+  for (const v of raw) {
+    const name = typeof v === 'string' ? v.toLowerCase() : ''
+    if (
+      FALLBACK_PROVIDERS.includes(name as FallbackProvider) &&
+      !out.includes(name as FallbackProvider)
+    ) {
+      out.push(name as FallbackProvider)
+    }
+  }
+  return out
 }
 
 function numberOr(v: unknown, fallback: number): number {
@@ -87,21 +128,49 @@ function clamp(n: number, lo: number, hi: number): number {
  * Walk the failover chain backward and count how many failover-spawned
  * deployments exist within the policy window. The current deployment counts
  * as the latest attempt; the cap is on TOTAL attempts in the window so a
- * cap of 3 means "the original + 2 failovers".
+ * cap of 3 means "the original + 2 failovers". Cross-provider replacements
+ * on Phala/Spheron count toward the same cap.
  */
 export async function countAttemptsInWindow(
   prisma: PrismaClient,
   serviceId: string,
   windowHours: number
 ): Promise<number> {
-  const since = new Date(Date.now() - windowHours * 60 * 60 * 1000)
-  return prisma.akashDeployment.count({
-    where: {
-      serviceId,
-      failoverParentId: { not: null },
-      createdAt: { gte: since },
-    },
-  })
+  const { akash, crossProvider } = await countFailoversInWindow(
+    prisma,
+    serviceId,
+    windowHours
+  )
+  return akash + crossProvider
+}
+
+async function countFailoversInWindow(
+  prisma: PrismaClient,
+  serviceId: string,
+  windowHours: number
+): Promise<{ akash: number; crossProvider: number }> {
+  const where = {
+    serviceId,
+    failoverParentId: { not: null },
+    createdAt: { gte: new Date(Date.now() - windowHours * 60 * 60 * 1000) },
+  }
+  const [akash, phala, spheron] = await Promise.all([
+    prisma.akashDeployment.count({ where }),
+    prisma.phalaDeployment.count({ where }),
+    prisma.spheronDeployment.count({ where }),
+  ])
+  return { akash, crossProvider: phala + spheron }
+}
+
+/**
+ * Fallback providers that can run this workload, in policy order. Spheron
+ * only rents GPU machines, so a CPU service can only fall back to Phala.
+ */
+function applicableFallbacks(
+  policy: FailoverPolicy,
+  hasGpu: boolean
+): FallbackProvider[] {
+  return policy.fallbackProviders.filter(p => p !== 'spheron' || hasGpu)
 }
 
 /**
@@ -131,6 +200,8 @@ export async function evaluateFailoverEligibility(
       provider: true,
       deployedAt: true,
       excludedProviders: true,
+      gpuModel: true,
+      policy: { select: { gpuUnits: true } },
       service: {
         select: {
           id: true,
@@ -165,11 +236,12 @@ export async function evaluateFailoverEligibility(
     return { eligible: false, reason: 'app_unhealthy' }
   }
 
-  const attemptsInWindow = await countAttemptsInWindow(
+  const failovers = await countFailoversInWindow(
     prisma,
     deployment.serviceId,
     policy.windowHours
   )
+  const attemptsInWindow = failovers.akash + failovers.crossProvider
   if (attemptsInWindow >= policy.maxAttempts) {
     return {
       eligible: false,
@@ -181,12 +253,117 @@ export async function evaluateFailoverEligibility(
   const excluded = new Set<string>(deployment.excludedProviders ?? [])
   if (deployment.provider) excluded.add(deployment.provider)
 
+  // One Akash-on-Akash failover first: a single bad host is the common
+  // case. If that replacement died too, Akash itself is the likelier
+  // problem and the fallbacks (when configured) take over.
+  const fallbacks = applicableFallbacks(
+    policy,
+    Boolean(deployment.gpuModel || deployment.policy?.gpuUnits)
+  )
+  const targets: FailoverTarget[] =
+    failovers.akash > 0 && fallbacks.length > 0 ? fallbacks : ['akash']
+
   return {
     eligible: true,
     attemptsInWindow,
     maxAttempts: policy.maxAttempts,
     windowHours: policy.windowHours,
     excludedProviders: [...excluded],
+    targets,
+  }
+}
+
+/**
+ * Eligibility for a failover replacement that exhausted its queue-step
+ * retries without ever getting a lease — the regional capacity-crunch case,
+ * where another Akash attempt would fail the same way. Only fallback
+ * providers are considered, and only for chains that a failover started:
+ * a user-initiated deploy that can't be placed stays failed so the user
+ * decides where it goes next.
+ */
+export async function evaluatePlacementFailover(
+  prisma: PrismaClient,
+  deploymentId: string
+): Promise<FailoverEligibility> {
+  const deployment = await prisma.akashDeployment.findUnique({
+    where: { id: deploymentId },
+    select: {
+      id: true,
+      serviceId: true,
+      parentDeploymentId: true,
+      failoverParentId: true,
+      gpuModel: true,
+      policy: { select: { gpuUnits: true } },
+      service: { select: { volumes: true, failoverPolicy: true } },
+    },
+  })
+  if (!deployment || !deployment.service) {
+    return {
+      eligible: false,
+      reason: 'no_chain_root',
+      detail: 'deployment row missing',
+    }
+  }
+
+  const policy = parseFailoverPolicy(deployment.service.failoverPolicy)
+  if (!policy.enabled) {
+    return { eligible: false, reason: 'policy_disabled' }
+  }
+
+  // Queue-step retries don't carry failoverParentId; the chain root does.
+  const root = deployment.parentDeploymentId
+    ? await prisma.akashDeployment.findUnique({
+        where: { id: deployment.parentDeploymentId },
+        select: { failoverParentId: true },
+      })
+    : deployment
+  if (!root?.failoverParentId) {
+    return {
+      eligible: false,
+      reason: 'no_chain_root',
+      detail: 'not a failover replacement',
+    }
+  }
+
+  const volumes = Array.isArray(deployment.service.volumes)
+    ? deployment.service.volumes
+    : []
+  if (volumes.length > 0) {
+    return {
+      eligible: false,
+      reason: 'has_volumes',
+      detail: `${volumes.length} volume(s)`,
+    }
+  }
+
+  const fallbacks = applicableFallbacks(
+    policy,
+    Boolean(deployment.gpuModel || deployment.policy?.gpuUnits)
+  )
+  if (fallbacks.length === 0) {
+    return { eligible: false, reason: 'no_fallback_provider' }
+  }
+
+  const attemptsInWindow = await countAttemptsInWindow(
+    prisma,
+    deployment.serviceId,
+    policy.windowHours
+  )
+  if (attemptsInWindow >= policy.maxAttempts) {
+    return {
+      eligible: false,
+      reason: 'cap_exceeded',
+      detail: `${attemptsInWindow}/${policy.maxAttempts} in ${policy.windowHours}h`,
+    }
+  }
+
+  return {
+    eligible: true,
+    attemptsInWindow,
+    maxAttempts: policy.maxAttempts,
+    windowHours: policy.windowHours,
+    excludedProviders: [],
+    targets: fallbacks,
   }
 }
 
@@ -203,17 +380,48 @@ export async function evaluateFailoverEligibility(
  *   4. Audit + enqueue SUBMIT_TX (in-process or via QStash, same path the
  *      original deployment used).
  *
+ * With `targets` naming fallback providers, the replacement goes through
+ * `executeCrossProviderFailover` instead.
+ *
  * Returns the new deployment id so the caller can correlate logs.
  */
 export async function executeFailover(
   prisma: PrismaClient,
   deploymentId: string,
-  context: {
-    excludedProviders: string[]
-    reason: string
-    triggeredBy: 'sweeper' | 'manual'
-    traceId: string
+  context: FailoverContext
+): Promise<{ newDeploymentId: string; target: FailoverTarget }> {
+  const fallbacks = (context.targets ?? []).filter(
+    (t): t is FallbackProvider => t !== 'akash'
+  )
+  if (fallbacks.length > 0) {
+    return executeCrossProviderFailover(
+      prisma,
+      deploymentId,
+      fallbacks,
+      context
+    )
   }
+  const { newDeploymentId } = await executeAkashFailover(
+    prisma,
+    deploymentId,
+    context
+  )
+  return { newDeploymentId, target: 'akash' }
+}
+
+export interface FailoverContext {
+  excludedProviders: string[]
+  reason: string
+  triggeredBy: 'sweeper' | 'placement' | 'manual'
+  traceId: string
+  /** From `FailoverEligibility.targets`; defaults to Akash. */
+  targets?: FailoverTarget[]
+}
+
+async function executeAkashFailover(
+  prisma: PrismaClient,
+  deploymentId: string,
+  context: FailoverContext
 ): Promise<{ newDeploymentId: string }> {
   const deployment = await prisma.akashDeployment.findUnique({
     where: { id: deploymentId },
@@ -256,6 +464,10 @@ export async function executeFailover(
           maxBudgetUsd: existingPolicy.maxBudgetUsd,
           maxMonthlyUsd: existingPolicy.maxMonthlyUsd,
           runtimeMinutes: existingPolicy.runtimeMinutes,
+          minReplicas: existingPolicy.minReplicas,
+          maxReplicas: existingPolicy.maxReplicas,
+          targetP95LatencyMs: existingPolicy.targetP95LatencyMs,
+          targetRequestsPerSecond: existingPolicy.targetRequestsPerSecond,
           expiresAt: existingPolicy.runtimeMinutes
             ? new Date(Date.now() + existingPolicy.runtimeMinutes * 60_000)
             : null,
@@ -309,6 +521,17 @@ export async function executeFailover(
       reason: context.reason,
     },
   })
+  notify(prisma, {
+    event: 'failover.executed',
+    severity: 'warning',
+    title: 'Failover executed',
+    message: `Redeploying on a different Akash provider: ${context.reason}`,
+    projectId,
+    serviceId,
+    deploymentId: newDeployment.id,
+    dedupeKey: `failover.executed:${newDeployment.id}`,
+    data: { fromDeploymentId: deploymentId, oldProvider },
+  })
 
   // 4. Enqueue SUBMIT_TX. Use the same indirection the orchestrator uses so
   // local dev (no QStash) and prod take the same code path.
@@ -338,6 +561,248 @@ export async function executeFailover(
   return { newDeploymentId: newDeployment.id }
 }
 
+/** GraphQL codes that mean "this provider can't take it" rather than a hard stop. */
+const FALL_THROUGH_CODES: ReadonlySet<string> = new Set([
+  'NO_CAPACITY',
+  'PROVIDER_UNAVAILABLE',
+])
+
+/**
+ * Redeploy the service on the first fallback provider that accepts it.
+ *
+ *   1. Close the Akash lease if it is still up (settles billing) and free
+ *      its concurrency slot — the new deploy claims its own.
+ *   2. Deploy through `deployService` as the service's creator, the same
+ *      way build-callback auto-deploys run, so the fallback is built from
+ *      the service's stored config and passes every launch guard.
+ *      NO_CAPACITY / PROVIDER_UNAVAILABLE fall through to the next provider.
+ *   3. Link the new row back via `failoverParentId` and carry the old
+ *      policy's spend so budget caps hold across the switch.
+ */
+async function executeCrossProviderFailover(
+  prisma: PrismaClient,
+  deploymentId: string,
+  fallbacks: FallbackProvider[],
+  context: FailoverContext
+): Promise<{ newDeploymentId: string; target: FailoverTarget }> {
+  const deployment = await prisma.akashDeployment.findUnique({
+    where: { id: deploymentId },
+    include: {
+      policy: true,
+      service: {
+        select: {
+          id: true,
+          projectId: true,
+          createdByUserId: true,
+          project: { select: { organizationId: true } },
+        },
+      },
+    },
+  })
+  if (!deployment) throw new Error(`Deployment not found: ${deploymentId}`)
+  if (!deployment.service?.createdByUserId) {
+    throw new Error(
+      'Service has no owner to deploy as — cannot fail over to another provider'
+    )
+  }
+
+  const orgId = deployment.service.project?.organizationId ?? null
+  const projectId = deployment.service.projectId
+  const serviceId = deployment.serviceId
+
+  if (deployment.status === 'ACTIVE') {
+    const { tryGetProvider } = await import('../providers/registry.js')
+    const akash = tryGetProvider('akash')
+    try {
+      await akash?.close(deploymentId)
+      const { decrementOrgConcurrency } =
+        await import('../concurrency/concurrencyService.js')
+      await decrementOrgConcurrency(prisma, orgId)
+    } catch (closeErr) {
+      log.warn(
+        {
+          deploymentId,
+          err: closeErr instanceof Error ? closeErr.message : closeErr,
+        },
+        'failover: close of old deployment failed — continuing so we still re-deploy'
+      )
+    }
+  }
+
+  const oldPolicy = deployment.policy
+  const policyInput = oldPolicy
+    ? {
+        acceptableGpuModels: oldPolicy.acceptableGpuModels,
+        gpuUnits: oldPolicy.gpuUnits ?? undefined,
+        gpuVendor: oldPolicy.gpuVendor ?? undefined,
+        maxBudgetUsd: oldPolicy.maxBudgetUsd ?? undefined,
+        maxMonthlyUsd: oldPolicy.maxMonthlyUsd ?? undefined,
+        runtimeMinutes: oldPolicy.runtimeMinutes ?? undefined,
+        minReplicas: oldPolicy.minReplicas ?? undefined,
+        maxReplicas: oldPolicy.maxReplicas ?? undefined,
+        targetP95LatencyMs: oldPolicy.targetP95LatencyMs ?? undefined,
+        targetRequestsPerSecond: oldPolicy.targetRequestsPerSecond ?? undefined,
+      }
+    : undefined
+
+  // Failover replaces a workload that is already running; org approval
+  // rules don't apply to it.
+  const ctx = exemptFromDeployApproval({
+    prisma,
+    userId: deployment.service.createdByUserId,
+    organizationId: orgId ?? undefined,
+    projectId,
+  } as unknown as Context)
+
+  const { GraphQLError } = await import('graphql')
+  const { deployMutations } = await import('../../resolvers/deploy.js')
+  let lastError: unknown
+  for (const target of fallbacks) {
+    let created: { id: string; policyId?: string | null }
+    try {
+      created = (await deployMutations.deployService(
+        undefined,
+        { serviceId, target: { provider: target, policy: policyInput } },
+        ctx
+      )) as { id: string; policyId?: string | null }
+    } catch (err) {
+      const code =
+        err instanceof GraphQLError ? String(err.extensions?.code ?? '') : ''
+      if (!FALL_THROUGH_CODES.has(code)) throw err
+      log.info(
+        { deploymentId, target, code },
+        'failover: fallback provider declined, trying next'
+      )
+      lastError = err
+      continue
+    }
+
+    const link = {
+      failoverParentId: deploymentId,
+      failoverReason: context.reason,
+    }
+    if (target === 'phala') {
+      await prisma.phalaDeployment.update({
+        where: { id: created.id },
+        data: link,
+      })
+    } else {
+      await prisma.spheronDeployment.update({
+        where: { id: created.id },
+        data: link,
+      })
+    }
+    if (oldPolicy && created.policyId) {
+      await prisma.deploymentPolicy.update({
+        where: { id: created.policyId },
+        data: { totalSpentUsd: oldPolicy.totalSpentUsd },
+      })
+    }
+
+    audit(prisma, {
+      traceId: context.traceId,
+      source: context.triggeredBy === 'sweeper' ? 'monitor' : 'cloud-api',
+      category: 'deployment',
+      action: 'failover.triggered',
+      status: 'warn',
+      orgId,
+      projectId,
+      serviceId,
+      deploymentId: created.id,
+      payload: {
+        fromDeploymentId: deploymentId,
+        oldProvider: deployment.provider,
+        targetProvider: target,
+        crossProvider: true,
+        reason: context.reason,
+      },
+    })
+    notify(prisma, {
+      event: 'failover.executed',
+      severity: 'warning',
+      title: 'Failover executed',
+      message: `Moved from ${deployment.provider} to ${target}: ${context.reason}`,
+      projectId,
+      serviceId,
+      deploymentId: created.id,
+      dedupeKey: `failover.executed:${created.id}`,
+      data: { fromDeploymentId: deploymentId, provider: target },
+    })
+    log.info(
+      {
+        fromDeploymentId: deploymentId,
+        newDeploymentId: created.id,
+        target,
+        reason: context.reason,
+      },
+      'failover: spawned replacement on fallback provider'
+    )
+    return { newDeploymentId: created.id, target }
+  }
+
+  throw lastError instanceof Error
+    ? lastError
+    : new Error('No fallback provider accepted the failover')
+}
+
+/**
+ * Entry point for `handleFailure` once an Akash chain has burned through
+ * its queue-step retries. No-op unless `evaluatePlacementFailover` says the
+ * chain is a failover replacement with somewhere else to go; opted-in skips
+ * are audited like the sweeper's. Never throws — the chain is already
+ * PERMANENTLY_FAILED either way.
+ */
+export async function failoverAfterPlacementFailure(
+  prisma: PrismaClient,
+  deploymentId: string
+): Promise<void> {
+  const traceId = randomUUID()
+  try {
+    const eligibility = await evaluatePlacementFailover(prisma, deploymentId)
+    if (!eligibility.eligible) {
+      if (
+        eligibility.reason === 'cap_exceeded' ||
+        eligibility.reason === 'no_fallback_provider'
+      ) {
+        const dep = await prisma.akashDeployment.findUnique({
+          where: { id: deploymentId },
+          select: {
+            id: true,
+            serviceId: true,
+            service: {
+              select: {
+                projectId: true,
+                project: { select: { organizationId: true } },
+              },
+            },
+          },
+        })
+        if (dep) {
+          auditFailoverSkipped(prisma, {
+            traceId,
+            deployment: dep,
+            reason: eligibility.reason,
+            detail: eligibility.detail,
+          })
+        }
+      }
+      return
+    }
+    await executeFailover(prisma, deploymentId, {
+      excludedProviders: [],
+      reason: 'akash_no_capacity',
+      triggeredBy: 'placement',
+      traceId,
+      targets: eligibility.targets,
+    })
+  } catch (err) {
+    log.error(
+      { deploymentId, err },
+      'failover: placement-failure failover failed'
+    )
+  }
+}
+
 /**
  * Convenience for the sweeper: emit a structured skip event so the audit log
  * has the same `failover.skipped` row regardless of where the decision was
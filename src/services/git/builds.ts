@@ -0,0 +1,174 @@
+/**
+ * Turning a commit into a BuildJob, for every git host. Webhook handlers
+ * (GitHub App, GitLab, Bitbucket) resolve the services a push concerns and
+ * call `spawnServiceBuild` with a `GitRepoClient` for that repo.
+ */
+
+import type { PrismaClient } from '@prisma/client'
+import { createLogger } from '../../lib/logger.js'
+import { getGithubAppConfig } from '../github/config.js'
+import { spawnBuildJob } from '../github/buildSpawner.js'
+import { buildCacheScope } from '../github/buildCache.js'
+import { resolveBuildStrategy } from '../github/buildStrategy.js'
+import {
+  markBuildSpawned,
+  supersedeServiceBuilds,
+} from '../github/buildQueue.js'
+import type { GitRepoClient } from './types.js'
+import {
+  SKIPPED_NO_CHANGES_MESSAGE,
+  pushTouchesWatchPaths,
+} from './watchPaths.js'
+
+const log = createLogger('git.builds')
+
+export interface BuildableService {
+  id: string
+  createdByUserId: string | null
+  gitOwner: string | null
+  gitRepo: string | null
+  rootDirectory: string | null
+  watchPaths: string[]
+  buildCommand: string | null
+  startCommand: string | null
+  buildCacheEpoch: number
+}
+
+// Webhook redelivery dedup window. Hosts redeliver on ANY non-2xx and on
+// some "slow handler" heuristics — so the same logical push can arrive 2-5
+// times. Without this, every redelivery created another BuildJob, every
+// BuildJob fired autoDeployAfterBuild, and the user saw N AkashDeployments
+// for the same SHA. We can't add a UNIQUE(serviceId, commitSha) constraint
+// because legitimate "Rebuild" clicks for the same SHA are valid; instead
+// we look for any non-FAILED/CANCELED job for this (service, sha) created
+// recently, and treat that as proof a builder is already (or was just)
+// running.
+const DEDUP_WINDOW_MS = 5 * 60_000
+
+/**
+ * Create a BuildJob for `commitSha` and hand it to the builder. When the
+ * push's `changedFiles` miss the service's watch paths, the job is
+ * recorded as SKIPPED instead so the build history shows why nothing ran.
+ */
+export async function spawnServiceBuild(
+  prisma: PrismaClient,
+  svc: BuildableService,
+  opts: {
+    git: GitRepoClient
+    commitSha: string
+    commitMessage: string
+    branch: string
+    triggeredBy: string
+    /** Files touched by the push; null/omitted when unknown. */
+    changedFiles?: string[] | null
+  }
+): Promise<void> {
+  if (!pushTouchesWatchPaths(svc.watchPaths, opts.changedFiles ?? null)) {
+    await recordSkippedBuild(prisma, svc, opts)
+    return
+  }
+
+  const recent = await prisma.buildJob.findFirst({
+    where: {
+      serviceId: svc.id,
+      commitSha: opts.commitSha,
+      status: { in: ['PENDING', 'RUNNING', 'SUCCEEDED'] },
+      createdAt: { gte: new Date(Date.now() - DEDUP_WINDOW_MS) },
+    },
+    select: { id: true, status: true, createdAt: true },
+  })
+  if (recent) {
+    log.info(
+      {
+        serviceId: svc.id,
+        commitSha: opts.commitSha,
+        existingBuildJobId: recent.id,
+        existingStatus: recent.status,
+      },
+      'dedup: skipping webhook-triggered build — existing recent BuildJob found (likely webhook redelivery)'
+    )
+    return
+  }
+
+  const build = await resolveBuildStrategy(prisma, svc.id)
+  const buildJob = await prisma.buildJob.create({
+    data: {
+      serviceId: svc.id,
+      commitSha: opts.commitSha,
+      commitMessage: opts.commitMessage.slice(0, 1000),
+      branch: opts.branch,
+      triggeredBy: opts.triggeredBy,
+      buildStrategy: build.snapshot,
+    },
+  })
+
+  if (!svc.createdByUserId) {
+    log.warn(
+      { serviceId: svc.id },
+      'service has no createdByUserId — cannot tag image; skipping'
+    )
+    return
+  }
+  const cfg = getGithubAppConfig()
+  // Docker registry refs MUST be all lowercase — userId is a Prisma cuid
+  // (mixed case) and would break `docker build -t …` otherwise.
+  const safeUserId = svc.createdByUserId
+    .toLowerCase()
+    .replace(/[^a-z0-9-]/g, '-')
+  const safeOwner = svc.gitOwner!.toLowerCase().replace(/[^a-z0-9-]/g, '-')
+  const safeRepo = svc.gitRepo!.toLowerCase().replace(/[^a-z0-9-]/g, '-')
+  const imageTag = `ghcr.io/${cfg.ghcrNamespace}/${safeUserId}--${safeOwner}-${safeRepo}:${opts.commitSha.slice(0, 12)}`
+
+  await supersedeServiceBuilds(prisma, buildJob)
+  const spawned = await spawnBuildJob({
+    buildJobId: buildJob.id,
+    git: opts.git,
+    repoOwner: svc.gitOwner!,
+    repoName: svc.gitRepo!,
+    commitSha: opts.commitSha,
+    imageTag,
+    rootDirectory: svc.rootDirectory ?? undefined,
+    buildCommand: svc.buildCommand ?? undefined,
+    startCommand: svc.startCommand ?? undefined,
+    cacheScope: buildCacheScope(svc),
+    buildStrategy: build.strategy,
+    buildArgs: build.buildArgs,
+  })
+  await markBuildSpawned(prisma, buildJob.id, spawned)
+}
+
+async function recordSkippedBuild(
+  prisma: PrismaClient,
+  svc: BuildableService,
+  opts: {
+    commitSha: string
+    commitMessage: string
+    branch: string
+    triggeredBy: string
+  }
+): Promise<void> {
+  // Redeliveries of the same push would otherwise stack up skip rows.
+  const existing = await prisma.buildJob.findFirst({
+    where: { serviceId: svc.id, commitSha: opts.commitSha, status: 'SKIPPED' },
+    select: { id: true },
+  })
+  if (existing) return
+
+  const now = new Date()
+  await prisma.buildJob.create({
+    data: {
+      serviceId: svc.id,
+      commitSha: opts.commitSha,
+      commitMessage: opts.commitMessage.slice(0, 1000),
+      branch: opts.branch,
+      triggeredBy: opts.triggeredBy,
+      status: 'SKIPPED',
+      errorMessage: SKIPPED_NO_CHANGES_MESSAGE,
+      finishedAt: now,
+    },
+  })
+  log.info(
+    { serviceId: svc.id, commitSha: opts.commitSha },
+    'push did not touch watch paths — build skipped'
+  )
+}
@@ -0,0 +1,14 @@
+import type { GitProviderName } from './types.js'
+
+/** Non-2xx from a git host API. `status` lets callers treat 404 as "gone". */
+export class GitProviderApiError extends Error {
+  readonly provider: GitProviderName
+  readonly status: number
+
+  constructor(provider: GitProviderName, status: number, message: string) {
+    super(`${provider}: ${message}`)
+    this.name = 'GitProviderApiError'
+    this.provider = provider
+    this.status = status
+  }
+}
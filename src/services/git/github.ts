@@ -0,0 +1,55 @@
+/**
+ * `GitRepoClient` over a GitHub App installation. Thin adapter around
+ * `services/github/client.ts`; the App's own webhook endpoint stays in
+ * `services/github/webhookEndpoint.ts`.
+ */
+
+import {
+  buildCloneUrl,
+  getCommit,
+  getRepo,
+  listInstallationRepos,
+  listRepoBranches,
+  type GhRepo,
+} from '../github/client.js'
+import type { GitRepoClient, GitRepoSummary } from './types.js'
+
+function toSummary(r: GhRepo): GitRepoSummary {
+  return {
+    id: String(r.id),
+    name: r.name,
+    fullName: r.full_name,
+    owner: r.owner.login,
+    private: r.private,
+    defaultBranch: r.default_branch,
+    description: r.description,
+    pushedAt: r.pushed_at,
+    language: r.language,
+    htmlUrl: r.html_url,
+  }
+}
+
+export function githubRepoClient(
+  installationId: bigint | string
+): GitRepoClient {
+  return {
+    provider: 'github',
+    listRepos: async () =>
+      (await listInstallationRepos(installationId)).map(toSummary),
+    getRepo: async (owner, repo) =>
+      toSummary(await getRepo(installationId, owner, repo)),
+    listBranches: async (owner, repo) =>
+      (await listRepoBranches(installationId, owner, repo)).map(b => ({
+        name: b.name,
+        sha: b.commit.sha,
+        protected: b.protected,
+      })),
+    getCommit: async (owner, repo, ref) => {
+      const commit = await getCommit(installationId, owner, repo, ref)
+      return { sha: commit.sha, message: commit.commit.message }
+    },
+    cloneUrl: (owner, repo) => buildCloneUrl(installationId, owner, repo),
+    sourceUrl: (owner, repo) => `https://github.com/${owner}/${repo}`,
+    ensurePushWebhook: async () => {},
+  }
+}
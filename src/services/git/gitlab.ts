@@ -0,0 +1,219 @@
+/**
+ * GitLab (gitlab.com and self-hosted) over REST v4 with a personal, group
+ * or project access token.
+ *
+ * Repos are addressed by full path: `owner` is the namespace (group path,
+ * possibly with subgroups) and `repo` the project path. The API takes the
+ * URL-encoded `owner/repo` wherever it wants a project id.
+ *
+ * Webhooks: GitLab echoes the hook's secret token verbatim in
+ * `X-Gitlab-Token` (no HMAC), so verification is a constant-time compare.
+ */
+
+import crypto from 'node:crypto'
+import type {
+  GitConnectionCredentials,
+  GitRepoClient,
+  GitRepoSummary,
+  GitWebhookAdapter,
+} from './types.js'
+import { GitProviderApiError } from './errors.js'
+import { changedFilesFromCommits } from './watchPaths.js'
+
+interface GlProject {
+  id: number
+  name: string
+  path: string
+  path_with_namespace: string
+  namespace: { full_path: string }
+  visibility: 'private' | 'internal' | 'public'
+  default_branch: string | null
+  description: string | null
+  last_activity_at: string | null
+  web_url: string
+}
+
+interface GlBranch {
+  name: string
+  protected: boolean
+  commit: { id: string }
+}
+
+interface GlPushEvent {
+  object_kind?: string
+  ref?: string
+  after?: string
+  user_username?: string
+  project?: { path_with_namespace: string }
+  commits?: Array<{
+    id: string
+    message: string
+    added?: string[]
+    modified?: string[]
+    removed?: string[]
+  }>
+  /** GitLab embeds only the first 20 commits of a push. */
+  total_commits_count?: number
+}
+
+const MAX_PAGES = 10
+
+function apiBase(baseUrl: string): string {
+  return `${baseUrl.replace(/\/+$/, '')}/api/v4`
+}
+
+function projectRef(owner: string, repo: string): string {
+  return encodeURIComponent(`${owner}/${repo}`)
+}
+
+async function gl<T>(
+  credentials: GitConnectionCredentials,
+  path: string,
+  init: { method?: 'GET' | 'POST'; body?: unknown } = {}
+): Promise<T> {
+  const r = await fetch(`${apiBase(credentials.baseUrl)}${path}`, {
+    method: init.method ?? 'GET',
+    headers: {
+      'PRIVATE-TOKEN': credentials.token,
+      Accept: 'application/json',
+      'User-Agent': 'AlternateFutures',
+      ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+    },
+    body: init.body ? JSON.stringify(init.body) : undefined,
+  })
+  if (!r.ok) {
+    // The body is not included: it may come from a host the user chose
+    // and ends up in errors shown back to them.
+    throw new GitProviderApiError('gitlab', r.status, `${r.status} ${path}`)
+  }
+  return (await r.json()) as T
+}
+
+function toSummary(p: GlProject): GitRepoSummary {
+  return {
+    id: String(p.id),
+    name: p.name,
+    fullName: p.path_with_namespace,
+    owner: p.namespace.full_path,
+    private: p.visibility !== 'public',
+    defaultBranch: p.default_branch ?? 'main',
+    description: p.description,
+    pushedAt: p.last_activity_at,
+    language: null,
+    htmlUrl: p.web_url,
+  }
+}
+
+function gitlabRepoClient(
+  credentials: GitConnectionCredentials
+): GitRepoClient {
+  return {
+    provider: 'gitlab',
+    listRepos: async () => {
+      const projects: GlProject[] = []
+      for (let page = 1; page <= MAX_PAGES; page++) {
+        const batch = await gl<GlProject[]>(
+          credentials,
+          `/projects?membership=true&min_access_level=30&order_by=last_activity_at&per_page=100&page=${page}`
+        )
+        projects.push(...batch)
+        if (batch.length < 100) break
+      }
+      return projects.map(toSummary)
+    },
+    getRepo: async (owner, repo) =>
+      toSummary(
+        await gl<GlProject>(credentials, `/projects/${projectRef(owner, repo)}`)
+      ),
+    listBranches: async (owner, repo) => {
+      const branches = await gl<GlBranch[]>(
+        credentials,
+        `/projects/${projectRef(owner, repo)}/repository/branches?per_page=100`
+      )
+      return branches.map(b => ({
+        name: b.name,
+        sha: b.commit.id,
+        protected: b.protected,
+      }))
+    },
+    getCommit: async (owner, repo, ref) => {
+      const commit = await gl<{ id: string; message: string }>(
+        credentials,
+        `/projects/${projectRef(owner, repo)}/repository/commits/${encodeURIComponent(ref)}`
+      )
+      return { sha: commit.id, message: commit.message }
+    },
+    cloneUrl: async (owner, repo) => {
+      const url = new URL(credentials.baseUrl)
+      url.username = 'oauth2'
+      url.password = credentials.token
+      url.pathname = `${url.pathname.replace(/\/+$/, '')}/${owner}/${repo}.git`
+      return url.toString()
+    },
+    sourceUrl: (owner, repo) =>
+      `${credentials.baseUrl.replace(/\/+$/, '')}/${owner}/${repo}`,
+    ensurePushWebhook: async (owner, repo, url, secret) => {
+      const hooksPath = `/projects/${projectRef(owner, repo)}/hooks`
+      const hooks = await gl<Array<{ id: number; url: string }>>(
+        credentials,
+        `${hooksPath}?per_page=100`
+      )
+      if (hooks.some(h => h.url === url)) return
+      await gl(credentials, hooksPath, {
+        method: 'POST',
+        body: {
+          url,
+          token: secret,
+          push_events: true,
+          enable_ssl_verification: true,
+        },
+      })
+    },
+  }
+}
+
+function header(
+  headers: Record<string, string | string[] | undefined>,
+  name: string
+): string | undefined {
+  const v = headers[name]
+  return Array.isArray(v) ? v[0] : v
+}
+
+export const gitlabAdapter: GitWebhookAdapter = {
+  provider: 'gitlab',
+  client: gitlabRepoClient,
+  verifyCredentials: async credentials =>
+    (await gl<{ username: string }>(credentials, '/user')).username,
+  verifyWebhook: (headers, _rawBody, secret) => {
+    const token = header(headers, 'x-gitlab-token')
+    if (!token) return false
+    const a = Buffer.from(token)
+    const b = Buffer.from(secret)
+    return a.length === b.length && crypto.timingSafeEqual(a, b)
+  },
+  parsePush: (headers, payload) => {
+    if (header(headers, 'x-gitlab-event') !== 'Push Hook') return null
+    const event = payload as GlPushEvent
+    const path = event.project?.path_with_namespace
+    if (!event.ref?.startsWith('refs/heads/') || !event.after || !path) {
+      return null
+    }
+    // A deleted branch arrives as a push whose `after` is all zeros.
+    if (/^0+$/.test(event.after)) return null
+    const slash = path.lastIndexOf('/')
+    const head = event.commits?.find(c => c.id === event.after)
+    return {
+      owner: path.slice(0, slash),
+      repo: path.slice(slash + 1),
+      branch: event.ref.slice('refs/heads/'.length),
+      sha: event.after,
+      message: head?.message ?? '',
+      pusher: event.user_username ?? 'gitlab',
+      changedFiles: changedFilesFromCommits(
+        event.commits,
+        event.total_commits_count
+      ),
+    }
+  },
+}
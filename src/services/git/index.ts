@@ -0,0 +1,54 @@
+/**
+ * Git provider registry. GitHub goes through its App installation
+ * (`githubRepoClient`); GitLab and Bitbucket go through a `GitConnection`
+ * row holding a sealed access token.
+ */
+
+import { openSecret } from '../../lib/vault.js'
+import { bitbucketAdapter } from './bitbucket.js'
+import { gitlabAdapter } from './gitlab.js'
+import type {
+  GitRepoClient,
+  GitWebhookAdapter,
+  TokenGitProviderName,
+} from './types.js'
+
+const ADAPTERS: Record<TokenGitProviderName, GitWebhookAdapter> = {
+  gitlab: gitlabAdapter,
+  bitbucket: bitbucketAdapter,
+}
+
+export const DEFAULT_BASE_URLS: Record<TokenGitProviderName, string> = {
+  gitlab: 'https://gitlab.com',
+  bitbucket: 'https://bitbucket.org',
+}
+
+export function isTokenGitProvider(
+  provider: string
+): provider is TokenGitProviderName {
+  return Object.prototype.hasOwnProperty.call(ADAPTERS, provider)
+}
+
+export function getGitAdapter(provider: string): GitWebhookAdapter {
+  if (!isTokenGitProvider(provider)) {
+    throw new Error(`unknown git provider: ${provider}`)
+  }
+  return ADAPTERS[provider]
+}
+
+export interface GitConnectionRow {
+  provider: string
+  baseUrl: string
+  accountLogin: string
+  sealedToken: string
+}
+
+export function gitClientForConnection(conn: GitConnectionRow): GitRepoClient {
+  const adapter = getGitAdapter(conn.provider)
+  return adapter.client({
+    provider: adapter.provider,
+    baseUrl: conn.baseUrl,
+    accountLogin: conn.accountLogin,
+    token: openSecret('git-token', conn.sealedToken),
+  })
+}
@@ -0,0 +1,108 @@
+/* eslint-disable no-unused-vars */
+/**
+ * Common shape for git hosting providers.
+ *
+ * Git-source services build from GitHub (App installs), GitLab (gitlab.com
+ * or self-hosted) or Bitbucket Cloud. Everything the build pipeline needs
+ * from the host — listing repos and branches, resolving a ref to a commit,
+ * minting an authenticated clone URL — goes through a `GitRepoClient`
+ * bound to one set of credentials. Webhook verification and push parsing
+ * go through the per-provider `GitWebhookAdapter`.
+ */
+
+import type { IncomingHttpHeaders } from 'node:http'
+
+export type GitProviderName = 'github' | 'gitlab' | 'bitbucket'
+
+/** Providers connected with an access token (a `GitConnection` row). */
+export type TokenGitProviderName = Exclude<GitProviderName, 'github'>
+
+export interface GitRepoSummary {
+  id: string
+  name: string
+  fullName: string
+  /**
+   * Namespace the repo lives under: GitHub owner, GitLab group path (may
+   * contain `/` for subgroups), Bitbucket workspace.
+   */
+  owner: string
+  private: boolean
+  defaultBranch: string
+  description: string | null
+  pushedAt: string | null
+  language: string | null
+  htmlUrl: string
+}
+
+export interface GitBranchSummary {
+  name: string
+  sha: string
+  protected: boolean
+}
+
+export interface GitCommitSummary {
+  sha: string
+  message: string
+}
+
+export interface GitRepoClient {
+  readonly provider: GitProviderName
+  listRepos(): Promise<GitRepoSummary[]>
+  getRepo(owner: string, repo: string): Promise<GitRepoSummary>
+  listBranches(owner: string, repo: string): Promise<GitBranchSummary[]>
+  /** Resolve a branch, tag or SHA to an immutable commit. */
+  getCommit(owner: string, repo: string, ref: string): Promise<GitCommitSummary>
+  /** HTTPS clone URL with a token embedded. Never log or persist it. */
+  cloneUrl(owner: string, repo: string): Promise<string>
+  /** Clean browser URL of the repo (stamped into image labels). */
+  sourceUrl(owner: string, repo: string): string
+  /**
+   * Make sure the repo posts push events to `url`. Idempotent. A no-op for
+   * GitHub, whose App delivers webhooks for every installed repo.
+   */
+  ensurePushWebhook(
+    owner: string,
+    repo: string,
+    url: string,
+    secret: string
+  ): Promise<void>
+}
+
+/** Decrypted credentials of a `GitConnection` row. */
+export interface GitConnectionCredentials {
+  provider: TokenGitProviderName
+  baseUrl: string
+  /** GitLab username, Bitbucket workspace slug. */
+  accountLogin: string
+  token: string
+}
+
+/** A push to a branch, normalised across providers. */
+export interface GitPushEvent {
+  owner: string
+  repo: string
+  branch: string
+  sha: string
+  message: string
+  pusher: string
+  /** Files the push touched, or null when the host doesn't say. */
+  changedFiles: string[] | null
+}
+
+export interface GitWebhookAdapter {
+  readonly provider: TokenGitProviderName
+  client(credentials: GitConnectionCredentials): GitRepoClient
+  /**
+   * Check the token works and return the account it acts for: the GitLab
+   * username, or the Bitbucket workspace given in `accountLogin`. Throws
+   * when the token is rejected.
+   */
+  verifyCredentials(credentials: GitConnectionCredentials): Promise<string>
+  verifyWebhook(
+    headers: IncomingHttpHeaders,
+    rawBody: string,
+    secret: string
+  ): boolean
+  /** The push carried by a webhook delivery, or null for anything else. */
+  parsePush(headers: IncomingHttpHeaders, payload: unknown): GitPushEvent | null
+}
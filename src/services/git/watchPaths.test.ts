@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest'
+import { changedFilesFromCommits, pushTouchesWatchPaths } from './watchPaths.js'
+
+describe('pushTouchesWatchPaths', () => {
+  it('builds on every push without watch paths or file lists', () => {
+    expect(pushTouchesWatchPaths([], ['README.md'])).toBe(true)
+    expect(pushTouchesWatchPaths(['apps/api'], null)).toBe(true)
+  })
+
+  it('treats a plain path as its whole subtree', () => {
+    const watch = ['apps/api', 'packages/shared/']
+    expect(pushTouchesWatchPaths(watch, ['apps/api/src/index.ts'])).toBe(true)
+    expect(pushTouchesWatchPaths(watch, ['packages/shared/a.ts'])).toBe(true)
+    expect(pushTouchesWatchPaths(watch, ['apps/web/src/index.ts'])).toBe(false)
+    expect(pushTouchesWatchPaths(watch, ['apps/api-gateway/x.ts'])).toBe(false)
+  })
+
+  it('keeps * within a segment and lets ** span directories', () => {
+    expect(
+      pushTouchesWatchPaths(
+        ['packages/*/package.json'],
+        ['packages/ui/package.json']
+      )
+    ).toBe(true)
+    expect(
+      pushTouchesWatchPaths(
+        ['packages/*/package.json'],
+        ['packages/ui/src/package.json']
+      )
+    ).toBe(false)
+    expect(pushTouchesWatchPaths(['**/*.go'], ['cmd/server/main.go'])).toBe(
+      true
+    )
+    expect(pushTouchesWatchPaths(['**/*.go'], ['main.go'])).toBe(true)
+  })
+
+  it('applies exclusions after the positive patterns', () => {
+    const watch = ['apps/api', '!apps/api/docs', '!**/*.md']
+    expect(pushTouchesWatchPaths(watch, ['apps/api/docs/intro.txt'])).toBe(
+      false
+    )
+    expect(pushTouchesWatchPaths(watch, ['apps/api/CHANGELOG.md'])).toBe(false)
+    expect(
+      pushTouchesWatchPaths(watch, [
+        'apps/api/CHANGELOG.md',
+        'apps/api/main.ts',
+      ])
+    ).toBe(true)
+    expect(pushTouchesWatchPaths(['!docs'], ['src/a.ts'])).toBe(true)
+  })
+})
+
+describe('changedFilesFromCommits', () => {
+  it('unions the files of every commit', () => {
+    expect(
+      changedFilesFromCommits([
+        { added: ['a.ts'], modified: ['b.ts'], removed: [] },
+        { added: [], modified: ['b.ts'], removed: ['c.ts'] },
+      ])
+    ).toEqual(['a.ts', 'b.ts', 'c.ts'])
+  })
+
+  it('returns null when the list is empty, truncated or lacks file lists', () => {
+    expect(changedFilesFromCommits([])).toBeNull()
+    expect(
+      changedFilesFromCommits([{ added: [], modified: ['a'], removed: [] }], 25)
+    ).toBeNull()
+    expect(changedFilesFromCommits([{ modified: ['a'] }])).toBeNull()
+  })
+})
@@ -0,0 +1,101 @@
+/**
+ * Watch paths: which pushes rebuild a service.
+ *
+ * Several services can build from one repo (each with its own
+ * `rootDirectory`). `Service.watchPaths` holds globs relative to the repo
+ * root; a push only rebuilds the service when one of its changed files
+ * matches. A pattern matches a file or any directory above it, so
+ * `apps/api` covers the whole subtree. `**` spans directories
+ * (`apps/api/**`), `*` and `?` stay within one segment (`packages/*`), and
+ * a leading `!` excludes (`!apps/api/docs`) after the positive patterns.
+ *
+ * An empty list means "every push", as before watch paths existed. When
+ * the host doesn't tell us which files changed (Bitbucket, truncated
+ * commit lists) we build rather than guess.
+ */
+
+export const MAX_WATCH_PATHS = 50
+export const MAX_WATCH_PATH_LENGTH = 256
+
+export const SKIPPED_NO_CHANGES_MESSAGE = 'Skipped: no relevant changes'
+
+function globToRegExp(glob: string): RegExp {
+  let re = ''
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i]
+    if (c === '*') {
+      if (glob[i + 1] === '*') {
+        i++
+        if (glob[i + 1] === '/') {
+          i++
+          re += '(?:.*/)?'
+        } else {
+          re += '.*'
+        }
+      } else {
+        re += '[^/]*'
+      }
+    } else if (c === '?') {
+      re += '[^/]'
+    } else {
+      re += c.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    }
+  }
+  return new RegExp(`^${re}$`)
+}
+
+/** A pattern matches a file when it matches the file or one of its parent directories. */
+function matchesAny(patterns: RegExp[], file: string): boolean {
+  const segments = file.split('/')
+  for (let n = 1; n <= segments.length; n++) {
+    const prefix = segments.slice(0, n).join('/')
+    if (patterns.some(p => p.test(prefix))) return true
+  }
+  return false
+}
+
+/**
+ * True when any of `files` is covered by `watchPaths`. Always true for an
+ * empty `watchPaths` or an unknown (null) file list.
+ */
+export function pushTouchesWatchPaths(
+  watchPaths: string[],
+  files: string[] | null
+): boolean {
+  if (watchPaths.length === 0 || files === null) return true
+  const include: RegExp[] = []
+  const exclude: RegExp[] = []
+  for (const raw of watchPaths) {
+    const negated = raw.startsWith('!')
+    const glob = (negated ? raw.slice(1) : raw).replace(/^\.?\/+|\/+$/g, '')
+    if (!glob) continue
+    ;(negated ? exclude : include).push(globToRegExp(glob))
+  }
+  // Exclusions alone mean "everything except".
+  if (include.length === 0) include.push(/.*/)
+  return files.some(f => matchesAny(include, f) && !matchesAny(exclude, f))
+}
+
+/**
+ * Union of the files added, modified or removed by a push's commits, or
+ * null when the list is incomplete — pass the host's total commit count
+ * when it caps the embedded list. A push without commits (force-push to
+ * an existing commit, new branch) says nothing about what changed either.
+ */
+export function changedFilesFromCommits(
+  commits:
+    | Array<{ added?: string[]; modified?: string[]; removed?: string[] }>
+    | undefined,
+  totalCommits?: number
+): string[] | null {
+  if (!commits || commits.length === 0) return null
+  if (totalCommits !== undefined && totalCommits > commits.length) return null
+  const files = new Set<string>()
+  for (const commit of commits) {
+    if (!commit.added || !commit.modified || !commit.removed) return null
+    for (const f of [...commit.added, ...commit.modified, ...commit.removed]) {
+      files.add(f)
+    }
+  }
+  return [...files]
+}
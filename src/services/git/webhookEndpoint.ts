@@ -0,0 +1,150 @@
+/**
+ * `POST /webhooks/git/{connectionId}` — push webhooks from GitLab and
+ * Bitbucket repos connected through a `GitConnection`.
+ *
+ * Each connection has its own secret (set on the hook by
+ * `connectGitRepo`), so the connection id in the path picks the secret
+ * and the adapter that verifies the delivery. Pushes rebuild every
+ * service tracking that (connection, owner, repo, branch). Anything that
+ * isn't a branch push is ack'd 200 and ignored.
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http'
+import type { PrismaClient } from '@prisma/client'
+import { createLogger } from '../../lib/logger.js'
+import { spawnServiceBuild } from './builds.js'
+import { getGitAdapter, gitClientForConnection } from './index.js'
+
+const log = createLogger('git.webhook')
+
+const MAX_BODY_BYTES = 5 * 1024 * 1024
+
+/**
+ * Public URL the provider should deliver to. Uses `CALLBACK_BASE_URL` (the
+ * public ingress) rather than `API_BASE_URL`, which is in-cluster DNS.
+ */
+export function gitWebhookUrl(connectionId: string): string {
+  const base =
+    process.env.CALLBACK_BASE_URL || 'https://api.alternatefutures.ai'
+  return `${base.replace(/\/$/, '')}/webhooks/git/${connectionId}`
+}
+
+function reply(res: ServerResponse, status: number, body: string) {
+  res.writeHead(status, { 'content-type': 'text/plain' })
+  res.end(body)
+}
+
+async function readRawBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = []
+  let size = 0
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer)
+    size += (chunk as Buffer).length
+    if (size > MAX_BODY_BYTES) throw new Error('webhook body too large')
+  }
+  return Buffer.concat(chunks).toString('utf8')
+}
+
+export async function handleGitWebhook(
+  req: IncomingMessage,
+  res: ServerResponse,
+  prisma: PrismaClient,
+  connectionId: string
+): Promise<void> {
+  if (req.method !== 'POST') return reply(res, 405, 'method not allowed')
+
+  const conn = await prisma.gitConnection.findUnique({
+    where: { id: connectionId },
+  })
+  if (!conn) return reply(res, 404, 'unknown connection')
+
+  let raw: string
+  try {
+    raw = await readRawBody(req)
+  } catch (err) {
+    log.warn({ err, connectionId }, 'failed to read webhook body')
+    return reply(res, 413, 'payload too large')
+  }
+
+  const adapter = getGitAdapter(conn.provider)
+  if (!adapter.verifyWebhook(req.headers, raw, conn.webhookSecret)) {
+    log.warn(
+      { connectionId, provider: conn.provider },
+      'rejecting webhook: signature mismatch'
+    )
+    return reply(res, 401, 'bad signature')
+  }
+
+  let payload: unknown
+  try {
+    payload = JSON.parse(raw)
+  } catch {
+    return reply(res, 400, 'invalid json')
+  }
+
+  const push = adapter.parsePush(req.headers, payload)
+  if (!push) return reply(res, 200, 'ignored')
+
+  const services = await prisma.service.findMany({
+    where: {
+      gitConnectionId: conn.id,
+      gitOwner: push.owner,
+      gitRepo: push.repo,
+      gitBranch: push.branch,
+      previewEnvironment: { is: null },
+    },
+    select: {
+      id: true,
+      createdByUserId: true,
+      gitOwner: true,
+      gitRepo: true,
+      rootDirectory: true,
+      watchPaths: true,
+      buildCommand: true,
+      startCommand: true,
+      buildCacheEpoch: true,
+    },
+  })
+  if (services.length === 0) {
+    log.info(
+      {
+        connectionId,
+        repo: `${push.owner}/${push.repo}`,
+        branch: push.branch,
+      },
+      'push has no subscribed services'
+    )
+    return reply(res, 200, 'ok')
+  }
+
+  log.info(
+    {
+      provider: conn.provider,
+      count: services.length,
+      repo: `${push.owner}/${push.repo}`,
+      branch: push.branch,
+      sha: push.sha,
+    },
+    'push triggers rebuilds'
+  )
+
+  const git = gitClientForConnection(conn)
+  for (const svc of services) {
+    try {
+      await spawnServiceBuild(prisma, svc, {
+        git,
+        commitSha: push.sha,
+        commitMessage: push.message,
+        branch: push.branch,
+        triggeredBy: `push:${push.pusher}`,
+        changedFiles: push.changedFiles,
+      })
+    } catch (err) {
+      log.error(
+        { err, serviceId: svc.id },
+        'push-triggered rebuild failed to spawn'
+      )
+    }
+  }
+  return reply(res, 200, 'ok')
+}
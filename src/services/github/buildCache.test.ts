@@ -0,0 +1,32 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  buildCacheRepo,
+  buildCacheScope,
+  isBuildCacheEnabled,
+} from './buildCache.js'
+
+describe('buildCache', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('scopes the cache per service and epoch, lowercased', () => {
+    expect(buildCacheScope({ id: 'cmAbC123', buildCacheEpoch: 0 })).toBe(
+      'svc-cmabc123-e0'
+    )
+  })
+
+  it('changes scope when the cache is purged', () => {
+    const before = buildCacheScope({ id: 'svc1', buildCacheEpoch: 2 })
+    const after = buildCacheScope({ id: 'svc1', buildCacheEpoch: 3 })
+    expect(after).not.toBe(before)
+  })
+
+  it('honours BUILD_CACHE_REPO and BUILD_CACHE_DISABLED', () => {
+    vi.stubEnv('BUILD_CACHE_REPO', 'registry.example.com/cache')
+    expect(buildCacheRepo()).toBe('registry.example.com/cache')
+    expect(isBuildCacheEnabled()).toBe(true)
+    vi.stubEnv('BUILD_CACHE_DISABLED', '1')
+    expect(isBuildCacheEnabled()).toBe(false)
+  })
+})
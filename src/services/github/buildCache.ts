@@ -0,0 +1,46 @@
+/**
+ * Per-service build cache, shared by both build executors.
+ *
+ * The cache is registry-backed BuildKit cache in GHCR rather than a
+ * volume: K8s dind pods and Fly machines are both ephemeral and don't
+ * share disks, but both already authenticate to GHCR to push the image.
+ * We hand the builder a repository and a per-service scope; `build.sh`
+ * hashes the lockfile(s) under ROOT_DIRECTORY and uses
+ *
+ *   --cache-from $BUILD_CACHE_REPO:$BUILD_CACHE_SCOPE-<lockhash>
+ *   --cache-from $BUILD_CACHE_REPO:$BUILD_CACHE_SCOPE-latest
+ *   --cache-to   both of the above (mode=max)
+ *
+ * so a dependency change falls back to the previous layers instead of
+ * starting cold. It reports `cacheKey`, `cacheHit` and `durationMs` on
+ * the terminal callback.
+ *
+ * Purging bumps `Service.buildCacheEpoch`, which is part of the scope:
+ * the next build finds nothing to import. Orphaned tags are left to the
+ * registry's retention policy.
+ */
+
+import { getGithubAppConfig } from './config.js'
+
+export function isBuildCacheEnabled(): boolean {
+  return process.env.BUILD_CACHE_DISABLED !== '1'
+}
+
+/** `ghcr.io/<namespace>/af-build-cache`, overridable for self-hosted registries. */
+export function buildCacheRepo(): string {
+  return (
+    process.env.BUILD_CACHE_REPO ||
+    `ghcr.io/${getGithubAppConfig().ghcrNamespace}/af-build-cache`
+  )
+}
+
+/**
+ * Tag prefix for one service's cache. Lowercased like the image tags in
+ * `imageTagFor` — the service id is a mixed-case cuid.
+ */
+export function buildCacheScope(svc: {
+  id: string
+  buildCacheEpoch: number
+}): string {
+  return `svc-${svc.id.toLowerCase()}-e${svc.buildCacheEpoch}`
+}
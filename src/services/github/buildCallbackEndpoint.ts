@@ -3,22 +3,32 @@
  *
  * The builder POSTs three times per Job: RUNNING (clone starts), SUCCEEDED
  * (image pushed; payload has imageTag, commitSha, detectedFramework,
- * detectedPort), FAILED (errorMessage + truncated logs).
+ * detectedPort, and the cacheKey/cacheHit/durationMs build-cache report),
+ * FAILED (errorMessage + truncated logs). Live output goes separately to
+ * `/internal/build-logs` (buildLogs.ts) and must be flushed before the
+ * terminal callback so the SSE stream doesn't close early.
  *
  * On SUCCEEDED we update BuildJob, sync Service.dockerImage/detected*
  * fields, post commit status to GitHub, and auto-deploy via the existing
  * per-deploy mutation. Provider choice mirrors the most recent active
  * deployment: Phala → Phala, Spheron → Spheron, otherwise Akash.
  *
+ * Preview services (one per pull request, see previewEnvironments.ts) are
+ * only deployed while their preview is ACTIVE, and the preview URL is
+ * posted back to the PR once the deploy has been dispatched.
+ *
  * Auth: `X-AF-Build-Token` header is HMAC-signed with JWT_SECRET and bound
  * to the buildJobId in the body. Verified by `verifyBuildToken`.
  */
 
 import type { IncomingMessage, ServerResponse } from 'node:http'
 import type { PrismaClient, BuildStatus } from '@prisma/client'
+import { audit } from '../../lib/audit.js'
 import { createLogger } from '../../lib/logger.js'
 import { verifyBuildToken } from './buildToken.js'
 import { postCommitStatus } from './client.js'
+import { notify } from '../notifications/notify.js'
+import { announcePreview } from './previewEnvironments.js'
 import { akashMutations } from '../../resolvers/akash.js'
 import { phalaMutations } from '../../resolvers/phala.js'
 import { spheronMutations } from '../../resolvers/spheron.js'
@@ -35,6 +45,10 @@ interface CallbackBody {
   detectedFramework?: string
   detectedPort?: number | null
   errorMessage?: string
+  /** Build cache report (terminal callbacks only, see buildCache.ts). */
+  cacheKey?: string
+  cacheHit?: boolean
+  durationMs?: number
 }
 
 const VALID_STATUSES: ReadonlySet<BuildStatus> = new Set([
@@ -62,6 +76,29 @@ function reply(res: ServerResponse, status: number, body: object | string) {
   res.end(typeof body === 'string' ? body : JSON.stringify(body))
 }
 
+/**
+ * Prefer the builder's own timing (excludes pod scheduling / image pull);
+ * otherwise wall-clock from the RUNNING callback to the terminal one.
+ */
+function buildDurationMs(
+  body: CallbackBody,
+  job: { startedAt: Date | null; durationMs: number | null },
+  status: BuildStatus,
+  now: Date
+): number | null {
+  if (
+    typeof body.durationMs === 'number' &&
+    Number.isFinite(body.durationMs) &&
+    body.durationMs >= 0
+  ) {
+    return Math.min(Math.round(body.durationMs), 2_147_483_647)
+  }
+  if (job.durationMs !== null) return job.durationMs
+  if (status !== 'SUCCEEDED' && status !== 'FAILED' && status !== 'CANCELED')
+    return null
+  return job.startedAt ? now.getTime() - job.startedAt.getTime() : null
+}
+
 export async function handleBuildCallback(
   req: IncomingMessage,
   res: ServerResponse,
@@ -92,7 +129,11 @@ export async function handleBuildCallback(
     where: { id: body.buildJobId },
     include: {
       service: {
-        include: { project: true, gitInstallation: true },
+        include: {
+          project: true,
+          gitInstallation: true,
+          previewEnvironment: true,
+        },
       },
     },
   })
@@ -136,6 +177,10 @@ export async function handleBuildCallback(
       errorMessage: body.errorMessage?.slice(0, 4_000) ?? null,
       startedAt: newStatus === 'RUNNING' && !job.startedAt ? now : job.startedAt,
       finishedAt: TERMINAL.has(newStatus) ? now : null,
+      cacheKey: body.cacheKey?.slice(0, 256) ?? job.cacheKey,
+      cacheHit:
+        typeof body.cacheHit === 'boolean' ? body.cacheHit : job.cacheHit,
+      durationMs: buildDurationMs(body, job, newStatus, now),
     }
 
     // Arm 1: first transition into newStatus.
@@ -199,6 +244,22 @@ export async function handleBuildCallback(
     return reply(res, 200, { ok: true, ignored: 'duplicate' })
   }
 
+  audit(prisma, {
+    category: 'deployment',
+    action: `build.${newStatus.toLowerCase()}`,
+    status: newStatus === 'FAILED' ? 'error' : newStatus === 'CANCELED' ? 'warn' : 'ok',
+    orgId: job.service.project.organizationId,
+    projectId: job.service.projectId,
+    serviceId: job.serviceId,
+    errorMessage: newStatus === 'FAILED' ? body.errorMessage?.slice(0, 500) : undefined,
+    payload: {
+      buildJobId: job.id,
+      commitSha: job.commitSha,
+      branch: job.branch,
+      imageTag: body.imageTag ?? null,
+    },
+  })
+
   // ── 3. Best-effort: write commit status back to GitHub ─
   if (job.service.gitInstallation && job.service.gitOwner && job.service.gitRepo) {
     const installationId = job.service.gitInstallation.installationId
@@ -220,10 +281,40 @@ export async function handleBuildCallback(
     }).catch((err) => log.warn({ err, buildJobId: job.id }, 'commit status post failed'))
   }
 
+  if (newStatus === 'FAILED') {
+    notify(prisma, {
+      event: 'build.failed',
+      severity: 'critical',
+      title: 'Build failed',
+      message:
+        body.errorMessage?.slice(0, 500) ||
+        'The builder reported a failure. Check the build logs.',
+      serviceId: job.serviceId,
+      dedupeKey: `build.failed:${job.id}`,
+      data: {
+        buildJobId: job.id,
+        commitSha: job.commitSha.slice(0, 12),
+        branch: job.branch,
+      },
+    })
+  }
+
   // ── 4. On success, auto-deploy via existing per-deploy provider. ──
-  if (newStatus === 'SUCCEEDED' && body.imageTag) {
+  // A preview torn down while its build was running stays down.
+  const preview = job.service.previewEnvironment
+  if (
+    newStatus === 'SUCCEEDED' &&
+    body.imageTag &&
+    preview?.status === 'CLOSED'
+  ) {
+    log.info(
+      { serviceId: job.serviceId, prNumber: preview.prNumber },
+      'skipping auto-deploy: preview environment already closed'
+    )
+  } else if (newStatus === 'SUCCEEDED' && body.imageTag) {
     try {
       await autoDeployAfterBuild(prisma, job.serviceId)
+      if (preview) await announcePreview(prisma, job.serviceId, job.commitSha)
     } catch (err) {
       log.error({ err, serviceId: job.serviceId }, 'failed to dispatch deploy after build')
       // We still 200 the callback — the BuildJob row is updated; the user
@@ -0,0 +1,66 @@
+/**
+ * Build Log Retention Scheduler
+ *
+ * Daily, deletes live build log chunks older than
+ * `BUILD_LOG_RETENTION_DAYS` (default 30). The truncated BuildJob.logs
+ * blob is kept. One pod only (leadership in `index.ts`).
+ */
+
+import * as cron from 'node-cron'
+import { randomUUID } from 'node:crypto'
+import type { PrismaClient } from '@prisma/client'
+import { createLogger } from '../../lib/logger.js'
+import { requestContext } from '../../lib/requestContext.js'
+import { purgeExpiredBuildLogs } from './buildLogs.js'
+
+const log = createLogger('build-log-retention-scheduler')
+
+export class BuildLogRetentionScheduler {
+  private cronJob: cron.ScheduledTask | null = null
+  private running = false
+  private readonly prisma: PrismaClient
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma
+  }
+
+  start() {
+    if (this.cronJob) {
+      log.info('Already running')
+      return
+    }
+
+    this.cronJob = cron.schedule('45 3 * * *', async () => {
+      await this.runOnce()
+    })
+
+    log.info('Started — purges expired build logs daily at 03:45')
+  }
+
+  stop() {
+    if (this.cronJob) {
+      this.cronJob.stop()
+      this.cronJob = null
+      log.info('Stopped')
+    }
+  }
+
+  async runOnce(now = new Date()) {
+    if (this.running) {
+      log.info('Previous retention sweep still in progress — skipping tick')
+      return
+    }
+    this.running = true
+    const traceId = randomUUID()
+    try {
+      await requestContext.run({ requestId: traceId, traceId }, async () => {
+        const purged = await purgeExpiredBuildLogs(this.prisma, now)
+        if (purged > 0) log.info({ purged }, 'Expired build log chunks purged')
+      })
+    } catch (err) {
+      log.error({ err }, 'Build log retention sweep failed')
+    } finally {
+      this.running = false
+    }
+  }
+}
@@ -0,0 +1,252 @@
+import { Readable } from 'node:stream'
+import type { IncomingMessage, ServerResponse } from 'node:http'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+const mocks = vi.hoisted(() => ({
+  verifyBuildToken: vi.fn(),
+}))
+
+vi.mock('./buildToken.js', () => ({
+  verifyBuildToken: mocks.verifyBuildToken,
+}))
+
+import { MAX_LOG_BYTES_PER_BUILD, handleBuildLogIngest } from './buildLogs.js'
+import { BuildLogStreamEndpoint } from './buildLogStreamEndpoint.js'
+
+function makeRes() {
+  const res = {
+    headersSent: false,
+    writableEnded: false,
+    statusCode: 0,
+    body: '',
+    frames: [] as string[],
+    writeHead: vi.fn((status: number) => {
+      res.statusCode = status
+      res.headersSent = true
+    }),
+    write: vi.fn((chunk: string) => {
+      res.frames.push(chunk)
+      return true
+    }),
+    end: vi.fn((body?: string) => {
+      res.body = body ?? ''
+      res.writableEnded = true
+    }),
+    flushHeaders: vi.fn(),
+    once: vi.fn(),
+  }
+  return res
+}
+
+function postReq(body: object, token = 'tok'): IncomingMessage {
+  const req = Readable.from([Buffer.from(JSON.stringify(body))])
+  return Object.assign(req, {
+    method: 'POST',
+    headers: { 'x-af-build-token': token },
+  }) as unknown as IncomingMessage
+}
+
+describe('handleBuildLogIngest', () => {
+  afterEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('stores a batch idempotently under its seq', async () => {
+    mocks.verifyBuildToken.mockReturnValue(true)
+    const prisma = {
+      buildJob: {
+        findUnique: vi.fn().mockResolvedValue({ id: 'b1' }),
+        updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+        update: vi.fn(),
+      },
+      buildLogChunk: { createMany: vi.fn().mockResolvedValue({ count: 1 }) },
+    }
+    const res = makeRes()
+    await handleBuildLogIngest(
+      postReq({ buildJobId: 'b1', seq: 3, lines: ['step 1\n', 'step 2'] }),
+      res as unknown as ServerResponse,
+      prisma as never
+    )
+    expect(res.statusCode).toBe(200)
+    expect(mocks.verifyBuildToken).toHaveBeenCalledWith('tok', 'b1')
+    expect(prisma.buildLogChunk.createMany).toHaveBeenCalledWith({
+      data: [{ buildJobId: 'b1', seq: 3, content: 'step 1\nstep 2' }],
+      skipDuplicates: true,
+    })
+    expect(prisma.buildJob.updateMany).toHaveBeenCalledWith({
+      where: {
+        id: 'b1',
+        logBytes: { lte: MAX_LOG_BYTES_PER_BUILD - 13 },
+      },
+      data: { logBytes: { increment: 13 } },
+    })
+    expect(prisma.buildJob.update).not.toHaveBeenCalled()
+  })
+
+  it('drops batches once the build reaches its byte cap', async () => {
+    mocks.verifyBuildToken.mockReturnValue(true)
+    const prisma = {
+      buildJob: {
+        findUnique: vi.fn().mockResolvedValue({ id: 'b1' }),
+        updateMany: vi.fn().mockResolvedValue({ count: 0 }),
+      },
+      buildLogChunk: { createMany: vi.fn() },
+    }
+    const res = makeRes()
+    await handleBuildLogIngest(
+      postReq({ buildJobId: 'b1', seq: 9, lines: ['more'] }),
+      res as unknown as ServerResponse,
+      prisma as never
+    )
+    expect(res.statusCode).toBe(200)
+    expect(JSON.parse(res.body)).toEqual({ ok: true, dropped: 'limit' })
+    expect(prisma.buildLogChunk.createMany).not.toHaveBeenCalled()
+  })
+
+  it('gives back the bytes of a retried batch', async () => {
+    mocks.verifyBuildToken.mockReturnValue(true)
+    const prisma = {
+      buildJob: {
+        findUnique: vi.fn().mockResolvedValue({ id: 'b1' }),
+        updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+        update: vi.fn().mockResolvedValue({}),
+      },
+      buildLogChunk: { createMany: vi.fn().mockResolvedValue({ count: 0 }) },
+    }
+    await handleBuildLogIngest(
+      postReq({ buildJobId: 'b1', seq: 3, lines: ['again'] }),
+      makeRes() as unknown as ServerResponse,
+      prisma as never
+    )
+    expect(prisma.buildJob.update).toHaveBeenCalledWith({
+      where: { id: 'b1' },
+      data: { logBytes: { decrement: 5 } },
+    })
+  })
+
+  it('rejects a batch with a token for another build', async () => {
+    mocks.verifyBuildToken.mockReturnValue(false)
+    const prisma = {
+      buildJob: { findUnique: vi.fn() },
+      buildLogChunk: { createMany: vi.fn() },
+    }
+    const res = makeRes()
+    await handleBuildLogIngest(
+      postReq({ buildJobId: 'b1', seq: 0, lines: ['x'] }),
+      res as unknown as ServerResponse,
+      prisma as never
+    )
+    expect(res.statusCode).toBe(401)
+    expect(prisma.buildLogChunk.createMany).not.toHaveBeenCalled()
+  })
+})
+
+describe('BuildLogStreamEndpoint', () => {
+  const access = {
+    ok: true as const,
+    userId: 'user-1',
+    serviceId: 'svc-1',
+    organizationId: 'org-1',
+    service: {
+      id: 'svc-1',
+      parentServiceId: null,
+      sdlServiceName: null,
+      project: { userId: 'user-1', organizationId: 'org-1' },
+    },
+  }
+
+  function getReq(url: string, headers: Record<string, string> = {}) {
+    return {
+      method: 'GET',
+      url,
+      headers: { host: 'api.test', ...headers },
+      once: vi.fn(),
+    } as unknown as IncomingMessage
+  }
+
+  it('matches build log paths only', () => {
+    expect(BuildLogStreamEndpoint.matchPath('/sse/builds/b1/logs')).toBe('b1')
+    expect(BuildLogStreamEndpoint.matchPath('/sse/services/b1/logs')).toBe(null)
+  })
+
+  it('authorizes against the build’s service', async () => {
+    const prisma = {
+      buildJob: {
+        findUnique: vi
+          .fn()
+          .mockResolvedValue({
+            id: 'b1',
+            serviceId: 'svc-1',
+            status: 'RUNNING',
+          }),
+      },
+    }
+    const authorize = vi.fn().mockResolvedValue({
+      ok: false,
+      status: 'forbidden',
+      message: 'Access denied',
+    })
+    const endpoint = new BuildLogStreamEndpoint(prisma as never, 'secret', {
+      authorize,
+      emitAudit: vi.fn(),
+    })
+    const res = makeRes()
+    await endpoint.handle(
+      getReq('/sse/builds/b1/logs?token=t'),
+      res as unknown as ServerResponse,
+      'b1'
+    )
+    expect(authorize).toHaveBeenCalledWith(prisma, 'svc-1', 't', 'secret')
+    expect(res.statusCode).toBe(403)
+  })
+
+  it('replays chunks after Last-Event-ID and closes once the build finished', async () => {
+    const findUnique = vi
+      .fn()
+      .mockResolvedValueOnce({
+        id: 'b1',
+        serviceId: 'svc-1',
+        status: 'SUCCEEDED',
+      })
+      .mockResolvedValue({ status: 'SUCCEEDED', errorMessage: null })
+    const findMany = vi
+      .fn()
+      .mockResolvedValueOnce([
+        { seq: 5, content: 'a\nb', createdAt: new Date() },
+      ])
+      .mockResolvedValue([])
+    const prisma = {
+      buildJob: { findUnique },
+      buildLogChunk: { findMany },
+    }
+    const emitAudit = vi.fn()
+    const endpoint = new BuildLogStreamEndpoint(prisma as never, 'secret', {
+      authorize: vi.fn().mockResolvedValue(access),
+      emitAudit,
+      pollIntervalMs: 5,
+    })
+    const res = makeRes()
+    await endpoint.handle(
+      getReq('/sse/builds/b1/logs?token=t&after=1', { 'last-event-id': '4' }),
+      res as unknown as ServerResponse,
+      'b1'
+    )
+    await vi.waitFor(() => expect(res.writableEnded).toBe(true))
+
+    expect(findMany.mock.calls[0][0].where).toEqual({
+      buildJobId: 'b1',
+      seq: { gt: 4 },
+    })
+    const stream = res.frames.join('')
+    expect(stream).toContain('id: 5\ndata: a\ndata: b\n\n')
+    expect(stream).toContain('event: status\ndata: {"status":"SUCCEEDED"')
+    expect(stream).toContain('event: close')
+    expect(emitAudit).toHaveBeenLastCalledWith(
+      prisma,
+      expect.objectContaining({
+        action: 'build-log-stream.close',
+        payload: expect.objectContaining({ reason: 'build_finished' }),
+      })
+    )
+  })
+})
@@ -0,0 +1,299 @@
+/**
+ * Server-Sent Events (SSE) live build log endpoint.
+ *
+ * GET /sse/builds/:id/logs?token=<jwt-or-pat>[&after=<seq>]
+ *
+ * Same token, origin and limit rules as the service log stream
+ * (logs/logStreamEndpoint.ts) — build streams count against the same
+ * per-user budget. Access is checked against the build's service.
+ *
+ * Lines come from the `build_log_chunk` rows the builder posts to
+ * `/internal/build-logs` (see buildLogs.ts), polled from the DB so any API
+ * replica can serve the stream. Every chunk carries its `seq` as the SSE
+ * event id, so a reconnecting EventSource resumes via `Last-Event-ID`.
+ *
+ * Wire protocol:
+ *   event: ready   data: {"buildJobId","status"}
+ *   id: <seq>      data: <line> (one data field per line of the chunk)
+ *   event: status  data: {"status","errorMessage"}  once the build finishes
+ *   event: close   data: {"reason"}
+ *   event: error   data: {"message"}
+ *   : keepalive    every 15s to defeat proxy idle timeouts
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http'
+import type { BuildStatus, PrismaClient } from '@prisma/client'
+import { authorizeServiceAccess } from '../auth/serviceAccess.js'
+import {
+  type ActiveStream,
+  HARD_TIMEOUT_MS,
+  HEARTBEAT_INTERVAL_MS,
+  IDLE_TIMEOUT_MS,
+  MAX_STREAMS_PER_USER,
+  endError,
+  getCorsHeaders,
+  streamCount,
+  trackStream,
+  untrackStream,
+  writeComment,
+  writeSse,
+} from '../logs/logStreamEndpoint.js'
+import { audit } from '../../lib/audit.js'
+import { createLogger } from '../../lib/logger.js'
+import { readBuildLogChunks } from './buildLogs.js'
+
+const log = createLogger('build-log-stream-endpoint')
+
+const DEFAULT_POLL_INTERVAL_MS = 1_000
+const CHUNKS_PER_POLL = 200
+const TERMINAL_STATUSES: ReadonlySet<BuildStatus> = new Set([
+  'SUCCEEDED',
+  'FAILED',
+  'CANCELED',
+] as const)
+
+/** Test-only injection seam, as in LogStreamEndpointDeps. */
+export interface BuildLogStreamEndpointDeps {
+  authorize?: typeof authorizeServiceAccess
+  emitAudit?: typeof audit
+  pollIntervalMs?: number
+}
+
+function parseSeq(raw: string | string[] | null | undefined): number {
+  const value = Array.isArray(raw) ? raw[0] : raw
+  const n = Number.parseInt(value ?? '', 10)
+  return Number.isInteger(n) && n >= 0 ? n : -1
+}
+
+export class BuildLogStreamEndpoint {
+  private prisma: PrismaClient
+  private jwtSecret: string
+  private deps: Required<BuildLogStreamEndpointDeps>
+
+  constructor(
+    prisma: PrismaClient,
+    jwtSecret: string,
+    deps: BuildLogStreamEndpointDeps = {}
+  ) {
+    this.prisma = prisma
+    this.jwtSecret = jwtSecret
+    this.deps = {
+      authorize: deps.authorize ?? authorizeServiceAccess,
+      emitAudit: deps.emitAudit ?? audit,
+      pollIntervalMs: deps.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS,
+    }
+  }
+
+  /**
+   * Match `/sse/builds/<buildJobId>/logs`. Returns the buildJobId or null.
+   */
+  static matchPath(pathname: string): string | null {
+    const m = /^\/sse\/builds\/([A-Za-z0-9_-]+)\/logs\/?$/.exec(pathname)
+    return m ? m[1] : null
+  }
+
+  async handle(
+    req: IncomingMessage,
+    res: ServerResponse,
+    buildJobId: string
+  ): Promise<void> {
+    if (req.method !== 'GET') {
+      endError(req, res, 405, 'Method not allowed')
+      return
+    }
+
+    const url = new URL(req.url || '/', `http://${req.headers.host}`)
+    const token = url.searchParams.get('token')
+    if (!token) {
+      endError(req, res, 401, 'Missing token query parameter')
+      return
+    }
+    // Last-Event-ID wins: it is what the browser sends on auto-reconnect.
+    const resumeFrom = parseSeq(req.headers['last-event-id'])
+    let lastSeq =
+      resumeFrom >= 0 ? resumeFrom : parseSeq(url.searchParams.get('after'))
+
+    const build = await this.prisma.buildJob.findUnique({
+      where: { id: buildJobId },
+      select: { id: true, serviceId: true, status: true },
+    })
+    if (!build) {
+      endError(req, res, 404, 'Build not found')
+      return
+    }
+
+    const access = await this.deps.authorize(
+      this.prisma,
+      build.serviceId,
+      token,
+      this.jwtSecret
+    )
+    if (!access.ok) {
+      const code =
+        access.status === 'unauthorized'
+          ? 401
+          : access.status === 'forbidden'
+            ? 403
+            : access.status === 'not_found'
+              ? 404
+              : 400
+      endError(req, res, code, access.message)
+      return
+    }
+
+    if (streamCount(access.userId) >= MAX_STREAMS_PER_USER) {
+      endError(
+        req,
+        res,
+        429,
+        `Maximum ${MAX_STREAMS_PER_USER} concurrent log streams reached`
+      )
+      return
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+      ...getCorsHeaders(req),
+    })
+    res.flushHeaders?.()
+
+    const serviceId = build.serviceId
+    const startTime = Date.now()
+    let lastDeliveredAt = Date.now()
+    let cleanedUp = false
+    let polling = false
+
+    const cleanup = (reason: string): void => {
+      if (cleanedUp) return
+      cleanedUp = true
+      clearInterval(heartbeat)
+      clearInterval(idleTimer)
+      clearInterval(pollTimer)
+      clearTimeout(hardTimer)
+      untrackStream(access.userId, entry)
+      log.info(
+        {
+          userId: access.userId,
+          serviceId,
+          buildJobId,
+          reason,
+          duration: Math.round((Date.now() - startTime) / 1000),
+        },
+        'BUILD_LOG_STREAM_CLOSE'
+      )
+      this.deps.emitAudit(this.prisma, {
+        category: 'logs',
+        action: 'build-log-stream.close',
+        status: reason.startsWith('error') ? 'error' : 'ok',
+        userId: access.userId,
+        orgId: access.organizationId ?? undefined,
+        serviceId,
+        durationMs: Date.now() - startTime,
+        payload: { reason, buildJobId, lastSeq },
+      })
+      try {
+        res.end()
+      } catch {
+        /* swallow */
+      }
+    }
+
+    const entry: ActiveStream = { res, cleanup }
+    trackStream(access.userId, entry)
+
+    // Read the status before the chunks: the builder flushes its last
+    // batch before the terminal callback, so a terminal status followed by
+    // an empty read means there is nothing left to send.
+    const poll = async (): Promise<void> => {
+      if (cleanedUp || polling) return
+      polling = true
+      try {
+        const current = await this.prisma.buildJob.findUnique({
+          where: { id: buildJobId },
+          select: { status: true, errorMessage: true },
+        })
+        const chunks = await readBuildLogChunks(
+          this.prisma,
+          buildJobId,
+          lastSeq,
+          CHUNKS_PER_POLL
+        )
+        if (cleanedUp) return
+        for (const chunk of chunks) {
+          res.write(`id: ${chunk.seq}\n`)
+          writeSse(res, null, chunk.lines.join('\n'))
+          lastSeq = chunk.seq
+          lastDeliveredAt = Date.now()
+        }
+        if (!current) {
+          writeSse(res, 'close', JSON.stringify({ reason: 'build_deleted' }))
+          cleanup('build_deleted')
+          return
+        }
+        if (chunks.length === 0 && TERMINAL_STATUSES.has(current.status)) {
+          writeSse(
+            res,
+            'status',
+            JSON.stringify({
+              status: current.status,
+              errorMessage: current.errorMessage,
+            })
+          )
+          writeSse(res, 'close', JSON.stringify({ reason: 'build_finished' }))
+          cleanup('build_finished')
+        }
+      } catch (err) {
+        log.warn({ err, buildJobId }, 'build log poll failed')
+      } finally {
+        polling = false
+      }
+    }
+
+    const heartbeat = setInterval(() => {
+      if (cleanedUp) return
+      writeComment(res, 'keepalive')
+    }, HEARTBEAT_INTERVAL_MS)
+
+    const idleTimer = setInterval(() => {
+      if (cleanedUp) return
+      if (Date.now() - lastDeliveredAt >= IDLE_TIMEOUT_MS) {
+        cleanup('idle_timeout')
+      }
+    }, 60_000)
+
+    const hardTimer = setTimeout(() => {
+      cleanup('hard_timeout')
+    }, HARD_TIMEOUT_MS)
+
+    const pollTimer = setInterval(() => {
+      void poll()
+    }, this.deps.pollIntervalMs)
+
+    req.once('close', () => cleanup('client_disconnect'))
+    req.once('error', () => cleanup('request_error'))
+    res.once('error', err => {
+      log.warn({ err, userId: access.userId, buildJobId }, 'SSE response error')
+      cleanup('response_error')
+    })
+
+    writeSse(res, 'ready', JSON.stringify({ buildJobId, status: build.status }))
+    log.info(
+      { userId: access.userId, serviceId, buildJobId, after: lastSeq },
+      'BUILD_LOG_STREAM_OPEN'
+    )
+    this.deps.emitAudit(this.prisma, {
+      category: 'logs',
+      action: 'build-log-stream.open',
+      status: 'ok',
+      userId: access.userId,
+      orgId: access.organizationId ?? undefined,
+      serviceId,
+      payload: { buildJobId, after: lastSeq },
+    })
+
+    await poll()
+  }
+}
@@ -0,0 +1,184 @@
+/**
+ * Live build logs.
+ *
+ * `POST /internal/build-logs` — the builder sends its output in batches
+ * while it runs:
+ *
+ *   { "buildJobId": "...", "seq": 0, "lines": ["Cloning…", …] }
+ *
+ * authenticated with the same `X-AF-Build-Token` as the status callback.
+ * `seq` increments per batch; a retried batch (same seq) is dropped by the
+ * (buildJobId, seq) unique key. Rows are read back by the
+ * `/sse/builds/:id/logs` stream and the `buildLogs` query.
+ *
+ * Each build may store up to `MAX_LOG_BYTES_PER_BUILD` of output, counted
+ * on BuildJob.logBytes; later batches are acknowledged and dropped. Chunks
+ * are deleted `BUILD_LOG_RETENTION_DAYS` after they were written (see
+ * buildLogRetentionScheduler.ts).
+ *
+ * The truncated `logs` blob on the terminal callback is still written to
+ * BuildJob.logs — older builders only send that.
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http'
+import type { PrismaClient } from '@prisma/client'
+import { createLogger } from '../../lib/logger.js'
+import { verifyBuildToken } from './buildToken.js'
+
+const log = createLogger('github.buildLogs')
+
+const MAX_BODY_BYTES = 1024 * 1024
+const MAX_LINES_PER_BATCH = 1_000
+const MAX_LINE_LENGTH = 4_000
+/** Batches beyond this are dropped — ~10M lines is a runaway build. */
+export const MAX_LOG_BATCHES_PER_BUILD = 10_000
+/** Stored output per build; a normal build is well under 1 MB. */
+export const MAX_LOG_BYTES_PER_BUILD = 32 * 1024 * 1024
+const DEFAULT_RETENTION_DAYS = 30
+
+function retentionDays(): number {
+  const n = parseInt(process.env.BUILD_LOG_RETENTION_DAYS || '', 10)
+  return Number.isFinite(n) && n > 0 ? n : DEFAULT_RETENTION_DAYS
+}
+
+export interface BuildLogChunkView {
+  seq: number
+  lines: string[]
+  createdAt: Date
+}
+
+interface LogBody {
+  buildJobId?: string
+  seq?: number
+  lines?: unknown
+}
+
+function reply(res: ServerResponse, status: number, body: object | string) {
+  res.writeHead(status, {
+    'content-type':
+      typeof body === 'string' ? 'text/plain' : 'application/json',
+  })
+  res.end(typeof body === 'string' ? body : JSON.stringify(body))
+}
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = []
+  let size = 0
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer)
+    size += (chunk as Buffer).length
+    if (size > MAX_BODY_BYTES) throw new Error('payload too large')
+  }
+  return JSON.parse(Buffer.concat(chunks).toString('utf8'))
+}
+
+export async function handleBuildLogIngest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  prisma: PrismaClient
+): Promise<void> {
+  if (req.method !== 'POST') return reply(res, 405, 'method not allowed')
+
+  let body: LogBody
+  try {
+    body = (await readJson(req)) as LogBody
+  } catch (err) {
+    log.warn({ err }, 'invalid build-logs body')
+    return reply(res, 400, 'invalid json')
+  }
+
+  const { buildJobId, seq } = body
+  if (
+    !buildJobId ||
+    typeof seq !== 'number' ||
+    !Number.isInteger(seq) ||
+    seq < 0 ||
+    !Array.isArray(body.lines)
+  ) {
+    return reply(res, 400, 'missing or invalid buildJobId/seq/lines')
+  }
+
+  const token = req.headers['x-af-build-token']
+  const tokenStr = Array.isArray(token) ? token[0] : token
+  if (!tokenStr || !verifyBuildToken(tokenStr, buildJobId)) {
+    log.warn({ buildJobId }, 'rejected build-logs: bad/expired token')
+    return reply(res, 401, 'invalid token')
+  }
+
+  if (seq >= MAX_LOG_BATCHES_PER_BUILD) {
+    return reply(res, 200, { ok: true, dropped: 'limit' })
+  }
+
+  const lines = body.lines.slice(0, MAX_LINES_PER_BATCH).map(l =>
+    String(l)
+      .replace(/\r?\n$/, '')
+      .slice(0, MAX_LINE_LENGTH)
+  )
+  if (lines.length === 0) return reply(res, 200, { ok: true })
+
+  const job = await prisma.buildJob.findUnique({
+    where: { id: buildJobId },
+    select: { id: true },
+  })
+  if (!job) return reply(res, 404, 'build job not found')
+
+  // Reserve the bytes before writing; the conditional update keeps
+  // concurrent batches from overshooting the cap together.
+  const content = lines.join('\n')
+  const bytes = Buffer.byteLength(content)
+  const reserved = await prisma.buildJob.updateMany({
+    where: {
+      id: buildJobId,
+      logBytes: { lte: MAX_LOG_BYTES_PER_BUILD - bytes },
+    },
+    data: { logBytes: { increment: bytes } },
+  })
+  if (reserved.count === 0) {
+    return reply(res, 200, { ok: true, dropped: 'limit' })
+  }
+
+  const { count } = await prisma.buildLogChunk.createMany({
+    data: [{ buildJobId, seq, content }],
+    skipDuplicates: true,
+  })
+  if (count === 0) {
+    // A retried batch that is already stored
+    await prisma.buildJob.update({
+      where: { id: buildJobId },
+      data: { logBytes: { decrement: bytes } },
+    })
+  }
+  return reply(res, 200, { ok: true })
+}
+
+/** Delete chunks past the retention period. Returns how many went. */
+export async function purgeExpiredBuildLogs(
+  prisma: PrismaClient,
+  now = new Date()
+): Promise<number> {
+  const cutoff = new Date(now.getTime() - retentionDays() * 86_400_000)
+  const { count } = await prisma.buildLogChunk.deleteMany({
+    where: { createdAt: { lt: cutoff } },
+  })
+  return count
+}
+
+/** Chunks after `afterSeq` in order, for the SSE stream and `buildLogs`. */
+export async function readBuildLogChunks(
+  prisma: PrismaClient,
+  buildJobId: string,
+  afterSeq: number,
+  limit: number
+): Promise<BuildLogChunkView[]> {
+  const rows = await prisma.buildLogChunk.findMany({
+    where: { buildJobId, seq: { gt: afterSeq } },
+    orderBy: { seq: 'asc' },
+    take: limit,
+    select: { seq: true, content: true, createdAt: true },
+  })
+  return rows.map(r => ({
+    seq: r.seq,
+    lines: r.content.split('\n'),
+    createdAt: r.createdAt,
+  }))
+}
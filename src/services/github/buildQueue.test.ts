@@ -0,0 +1,117 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const mocks = vi.hoisted(() => ({
+  deleteBuildJob: vi.fn(),
+}))
+
+vi.mock('./buildSpawner.js', () => ({
+  deleteBuildJob: mocks.deleteBuildJob,
+}))
+
+import {
+  expireTimedOutBuilds,
+  markBuildSpawned,
+  stopBuild,
+  supersedeServiceBuilds,
+} from './buildQueue.js'
+
+function makePrisma() {
+  return {
+    buildJob: {
+      updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+      findMany: vi.fn().mockResolvedValue([]),
+      findFirst: vi.fn().mockResolvedValue(null),
+    },
+    service: { update: vi.fn() },
+  }
+}
+
+const t0 = new Date('2026-05-20T10:00:00Z')
+
+describe('buildQueue', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('stops a live build, tears down its executor and mirrors the service', async () => {
+    const prisma = makePrisma()
+    const ok = await stopBuild(
+      prisma as never,
+      { id: 'b1', serviceId: 's1', k8sJobName: 'fly:m1', createdAt: t0 },
+      'CANCELED',
+      'Canceled by user'
+    )
+    expect(ok).toBe(true)
+    expect(prisma.buildJob.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: 'b1', status: { in: ['PENDING', 'RUNNING'] } },
+      })
+    )
+    expect(mocks.deleteBuildJob).toHaveBeenCalledWith('fly:m1')
+    expect(prisma.service.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ lastBuildStatus: 'CANCELED' }),
+      })
+    )
+  })
+
+  it('does nothing when the build already finished', async () => {
+    const prisma = makePrisma()
+    prisma.buildJob.updateMany.mockResolvedValue({ count: 0 })
+    const ok = await stopBuild(
+      prisma as never,
+      { id: 'b1', serviceId: 's1', k8sJobName: 'build-b1', createdAt: t0 },
+      'CANCELED',
+      'x'
+    )
+    expect(ok).toBe(false)
+    expect(mocks.deleteBuildJob).not.toHaveBeenCalled()
+  })
+
+  it('supersedes older live builds without touching the service status', async () => {
+    const prisma = makePrisma()
+    prisma.buildJob.findMany.mockResolvedValue([
+      { id: 'old', serviceId: 's1', k8sJobName: 'build-old', createdAt: t0 },
+    ])
+    prisma.buildJob.findFirst.mockResolvedValue({ id: 'new' })
+    const stopped = await supersedeServiceBuilds(prisma as never, {
+      id: 'new',
+      serviceId: 's1',
+      createdAt: new Date(t0.getTime() + 1000),
+    })
+    expect(stopped).toBe(1)
+    expect(prisma.buildJob.updateMany.mock.calls[0][0].data).toMatchObject({
+      status: 'CANCELED',
+      errorMessage: 'Superseded by newer build new',
+    })
+    expect(mocks.deleteBuildJob).toHaveBeenCalledWith('build-old')
+    expect(prisma.service.update).not.toHaveBeenCalled()
+  })
+
+  it('tears down an executor spawned for a build canceled mid-spawn', async () => {
+    const prisma = makePrisma()
+    prisma.buildJob.updateMany.mockResolvedValue({ count: 0 })
+    const ok = await markBuildSpawned(prisma as never, 'b1', {
+      k8sJobName: 'build-b1',
+      initialLog: '',
+    })
+    expect(ok).toBe(false)
+    expect(mocks.deleteBuildJob).toHaveBeenCalledWith('build-b1')
+  })
+
+  it('fails builds older than the timeout', async () => {
+    const prisma = makePrisma()
+    prisma.buildJob.findMany.mockResolvedValue([
+      { id: 'b1', serviceId: 's1', k8sJobName: null, createdAt: t0 },
+    ])
+    const now = new Date(t0.getTime() + 45 * 60_000)
+    expect(await expireTimedOutBuilds(prisma as never, now)).toBe(1)
+    expect(prisma.buildJob.findMany.mock.calls[0][0].where.createdAt).toEqual({
+      lt: new Date(now.getTime() - 30 * 60_000),
+    })
+    expect(prisma.buildJob.updateMany.mock.calls[0][0].data).toMatchObject({
+      status: 'FAILED',
+      errorMessage: 'Build timed out after 30 minutes',
+    })
+  })
+})
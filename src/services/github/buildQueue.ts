@@ -0,0 +1,188 @@
+/**
+ * Per-service build queue, cancellation and the server-side timeout.
+ *
+ * A service has at most one live build. Starting a new one supersedes
+ * every older PENDING/RUNNING build of the same service: the row moves to
+ * CANCELED and its executor (K8s Job or Fly machine) is torn down. Because
+ * `buildCallbackEndpoint` only accepts the first transition out of a
+ * non-terminal status, a superseded builder that still manages to post
+ * SUCCEEDED is ignored — it can no longer race the newer build's
+ * auto-deploy.
+ *
+ * The timeout backs up the executors' own limits (K8s
+ * `activeDeadlineSeconds`, Fly auto-destroy), which never reach our DB
+ * when the builder dies without calling back.
+ */
+
+import type { BuildJob, BuildStatus, PrismaClient } from '@prisma/client'
+import { audit } from '../../lib/audit.js'
+import { createLogger } from '../../lib/logger.js'
+import { notify } from '../notifications/notify.js'
+import { deleteBuildJob } from './buildSpawner.js'
+
+const log = createLogger('github.buildQueue')
+
+export const DEFAULT_BUILD_TIMEOUT_MINUTES = 30
+
+const LIVE_STATUSES: BuildStatus[] = ['PENDING', 'RUNNING']
+
+const BUILD_STOP_SELECT = {
+  id: true,
+  serviceId: true,
+  k8sJobName: true,
+  createdAt: true,
+} as const
+
+export function getBuildTimeoutMinutes(): number {
+  const raw = Number.parseInt(process.env.BUILD_TIMEOUT_MINUTES ?? '', 10)
+  return Number.isFinite(raw) && raw >= 5 && raw <= 240
+    ? raw
+    : DEFAULT_BUILD_TIMEOUT_MINUTES
+}
+
+/**
+ * Move a live build to a terminal status and stop its executor. Returns
+ * false when the build had already finished (or another caller won).
+ */
+export async function stopBuild(
+  prisma: PrismaClient,
+  job: Pick<BuildJob, 'id' | 'serviceId' | 'k8sJobName' | 'createdAt'>,
+  status: 'CANCELED' | 'FAILED',
+  reason: string
+): Promise<boolean> {
+  const claimed = await prisma.buildJob.updateMany({
+    where: { id: job.id, status: { in: LIVE_STATUSES } },
+    data: { status, errorMessage: reason, finishedAt: new Date() },
+  })
+  if (claimed.count === 0) return false
+
+  if (job.k8sJobName) await deleteBuildJob(job.k8sJobName)
+
+  // Only mirror onto the Service when this was its newest build; a
+  // superseded build must not overwrite the status of its replacement.
+  const newer = await prisma.buildJob.findFirst({
+    where: {
+      serviceId: job.serviceId,
+      id: { not: job.id },
+      createdAt: { gt: job.createdAt },
+    },
+    select: { id: true },
+  })
+  if (!newer) {
+    await prisma.service.update({
+      where: { id: job.serviceId },
+      data: { lastBuildStatus: status, lastBuildAt: new Date() },
+    })
+  }
+  log.info({ buildJobId: job.id, status, reason }, 'build stopped')
+  audit(prisma, {
+    category: 'deployment',
+    action: `build.${status.toLowerCase()}`,
+    status: status === 'FAILED' ? 'error' : 'warn',
+    serviceId: job.serviceId,
+    errorMessage: reason,
+    payload: { buildJobId: job.id },
+  })
+  if (status === 'FAILED') {
+    notify(prisma, {
+      event: 'build.failed',
+      severity: 'critical',
+      title: 'Build failed',
+      message: reason,
+      serviceId: job.serviceId,
+      dedupeKey: `build.failed:${job.id}`,
+      data: { buildJobId: job.id },
+    })
+  }
+  return true
+}
+
+/**
+ * Cancel every live build of the service older than `keep`. Call right
+ * after creating the new BuildJob row. Builds created after `keep` (a
+ * concurrent push) are left alone — they will supersede `keep` instead.
+ */
+export async function supersedeServiceBuilds(
+  prisma: PrismaClient,
+  keep: Pick<BuildJob, 'id' | 'serviceId' | 'createdAt'>
+): Promise<number> {
+  const older = await prisma.buildJob.findMany({
+    where: {
+      serviceId: keep.serviceId,
+      id: { not: keep.id },
+      status: { in: LIVE_STATUSES },
+      createdAt: { lte: keep.createdAt },
+    },
+    select: BUILD_STOP_SELECT,
+  })
+  let stopped = 0
+  for (const job of older) {
+    if (
+      await stopBuild(
+        prisma,
+        job,
+        'CANCELED',
+        `Superseded by newer build ${keep.id}`
+      )
+    ) {
+      stopped++
+    }
+  }
+  return stopped
+}
+
+/**
+ * Record the executor handle and flip PENDING → RUNNING. When the build
+ * was canceled while the executor was being created, the handle didn't
+ * exist yet for `stopBuild` to tear down — do it here and return false.
+ */
+export async function markBuildSpawned(
+  prisma: PrismaClient,
+  buildJobId: string,
+  spawned: { k8sJobName: string; initialLog: string }
+): Promise<boolean> {
+  const updated = await prisma.buildJob.updateMany({
+    where: { id: buildJobId, status: 'PENDING' },
+    data: {
+      k8sJobName: spawned.k8sJobName,
+      status: 'RUNNING',
+      logs: spawned.initialLog,
+    },
+  })
+  if (updated.count === 1) return true
+  log.info(
+    { buildJobId, k8sJobName: spawned.k8sJobName },
+    'build was stopped while spawning — tearing down executor'
+  )
+  await deleteBuildJob(spawned.k8sJobName)
+  return false
+}
+
+/** Fail every build that has been live for longer than the timeout. */
+export async function expireTimedOutBuilds(
+  prisma: PrismaClient,
+  now = new Date()
+): Promise<number> {
+  const minutes = getBuildTimeoutMinutes()
+  const stale = await prisma.buildJob.findMany({
+    where: {
+      status: { in: LIVE_STATUSES },
+      createdAt: { lt: new Date(now.getTime() - minutes * 60_000) },
+    },
+    select: BUILD_STOP_SELECT,
+  })
+  let expired = 0
+  for (const job of stale) {
+    if (
+      await stopBuild(
+        prisma,
+        job,
+        'FAILED',
+        `Build timed out after ${minutes} minutes`
+      )
+    ) {
+      expired++
+    }
+  }
+  return expired
+}
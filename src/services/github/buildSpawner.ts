@@ -32,7 +32,9 @@ import path from 'node:path'
 import { createLogger } from '../../lib/logger.js'
 import { getGithubAppConfig } from './config.js'
 import { signBuildToken } from './buildToken.js'
-import { buildCloneUrl } from './client.js'
+import { buildCacheRepo, isBuildCacheEnabled } from './buildCache.js'
+import type { BuildStrategy } from './buildStrategy.js'
+import type { GitRepoClient } from '../git/types.js'
 import { destroyFlyMachine, spawnFlyBuilder } from './flyioBuilder.js'
 
 const log = createLogger('github.buildSpawner')
@@ -137,6 +139,8 @@ spec:
               value: "__CALLBACK_URL__"
             - name: CALLBACK_TOKEN
               value: "__CALLBACK_TOKEN__"
+            - name: LOGS_URL
+              value: "__LOGS_URL__"
             - name: REPO_CLONE_URL
               value: "__REPO_CLONE_URL__"
             - name: REPO_REF
@@ -159,6 +163,18 @@ spec:
               value: "__REPO_OWNER__"
             - name: REPO_NAME
               value: "__REPO_NAME__"
+            - name: BUILD_CACHE_REPO
+              value: "__BUILD_CACHE_REPO__"
+            - name: BUILD_CACHE_SCOPE
+              value: "__BUILD_CACHE_SCOPE__"
+            - name: BUILD_STRATEGY
+              value: "__BUILD_STRATEGY__"
+            - name: DOCKERFILE_PATH
+              value: "__DOCKERFILE_PATH__"
+            - name: STATIC_OUTPUT_DIR
+              value: "__STATIC_OUTPUT_DIR__"
+            - name: BUILD_ARGS_B64
+              value: "__BUILD_ARGS_B64__"
           resources:
             requests:
               cpu: "500m"
@@ -191,7 +207,8 @@ function getKubeClient(): k8s.BatchV1Api {
 
 export interface SpawnBuildInput {
   buildJobId: string
-  installationId: bigint | string
+  /** Host the repo lives on; mints the clone URL and the source URL. */
+  git: GitRepoClient
   repoOwner: string
   repoName: string
   /** Full commit SHA — REQUIRED, pin builds to immutable refs. */
@@ -201,6 +218,15 @@ export interface SpawnBuildInput {
   rootDirectory?: string
   buildCommand?: string
   startCommand?: string
+  /**
+   * Registry cache scope from `buildCacheScope(service)`. Omitted (or
+   * BUILD_CACHE_DISABLED=1) → the builder neither imports nor exports cache.
+   */
+  cacheScope?: string
+  /** From `resolveBuildStrategy`. Omitted → auto. */
+  buildStrategy?: BuildStrategy
+  /** Build-time env vars (key → value); see buildStrategy.ts. */
+  buildArgs?: Record<string, string>
   /** Override for the callback base URL. Defaults to API_BASE_URL or api.alternatefutures.ai. */
   callbackBaseUrl?: string
 }
@@ -239,10 +265,17 @@ function buildEnvFor(
   callbackToken: string,
 ): Record<string, string> {
   const cfg = getGithubAppConfig()
+  const cacheScope = isBuildCacheEnabled() ? input.cacheScope : undefined
+  const strategy: BuildStrategy = input.buildStrategy ?? { type: 'auto' }
   return {
     BUILD_JOB_ID: input.buildJobId,
     CALLBACK_URL: callbackUrl,
     CALLBACK_TOKEN: callbackToken,
+    /**
+     * Live log batches (see buildLogs.ts), posted with CALLBACK_TOKEN.
+     * Builders that predate this only send the terminal `logs` blob.
+     */
+    LOGS_URL: callbackUrl.replace(/\/build-callback$/, '/build-logs'),
     REPO_CLONE_URL: cloneUrl,
     REPO_REF: input.commitSha,
     IMAGE_TAG: input.imageTag,
@@ -252,7 +285,7 @@ function buildEnvFor(
     BUILD_COMMAND_B64: input.buildCommand ? toB64(input.buildCommand) : '',
     START_COMMAND_B64: input.startCommand ? toB64(input.startCommand) : '',
     /**
-     * Canonical GitHub URL for the source repository. `build.sh` stamps
+     * Canonical browser URL for the source repository. `build.sh` stamps
      * this into the built image as the `org.opencontainers.image.source`
      * label; GHCR reads that label on push and auto-links the container
      * package to this repository. Without a linked repo, the REST API
@@ -264,14 +297,32 @@ function buildEnvFor(
      * (that has a token embedded; the OCI label would leak it into
      * every built image's manifest).
      */
-    REPO_SOURCE_URL: `https://github.com/${input.repoOwner}/${input.repoName}`,
+    REPO_SOURCE_URL: input.git.sourceUrl(input.repoOwner, input.repoName),
     REPO_OWNER: input.repoOwner,
     REPO_NAME: input.repoName,
+    /**
+     * BuildKit registry cache (see buildCache.ts). Empty strings mean "no
+     * cache" to `build.sh`, same convention as BUILD_COMMAND_B64.
+     */
+    BUILD_CACHE_REPO: cacheScope ? buildCacheRepo() : '',
+    BUILD_CACHE_SCOPE: cacheScope ?? '',
+    /**
+     * Build strategy (see buildStrategy.ts). BUILD_ARGS_B64 is base64 of a
+     * JSON object so keys and values survive YAML and shell quoting; it
+     * carries user values, so treat it like GHCR_TOKEN.
+     */
+    BUILD_STRATEGY: strategy.type,
+    DOCKERFILE_PATH: strategy.dockerfilePath ?? '',
+    STATIC_OUTPUT_DIR: strategy.outputDirectory ?? '',
+    BUILD_ARGS_B64:
+      input.buildArgs && Object.keys(input.buildArgs).length > 0
+        ? toB64(JSON.stringify(input.buildArgs))
+        : '',
   }
 }
 
 export async function spawnBuildJob(input: SpawnBuildInput): Promise<SpawnedBuildJob> {
-  const cloneUrl = await buildCloneUrl(input.installationId, input.repoOwner, input.repoName)
+  const cloneUrl = await input.git.cloneUrl(input.repoOwner, input.repoName)
   // Precedence: explicit per-call override → `CALLBACK_BASE_URL` (public
   // ingress, required when BUILD_EXECUTOR=fly because Fly machines can't
   // resolve K8s internal DNS) → `API_BASE_URL` (in-cluster URL, works for
@@ -356,6 +407,7 @@ function renderK8sJobYaml(args: { jobName: string; env: Record<string, string> }
     .replaceAll('__BUILD_JOB_ID__', args.env.BUILD_JOB_ID)
     .replaceAll('__CALLBACK_URL__', args.env.CALLBACK_URL)
     .replaceAll('__CALLBACK_TOKEN__', args.env.CALLBACK_TOKEN)
+    .replaceAll('__LOGS_URL__', args.env.LOGS_URL)
     // YAML strings are double-quoted in the template; embed-safely escape
     // the few characters that could break out (`"` and `\`).
     .replaceAll('__REPO_CLONE_URL__', escapeYamlValue(args.env.REPO_CLONE_URL))
@@ -369,6 +421,12 @@ function renderK8sJobYaml(args: { jobName: string; env: Record<string, string> }
     .replaceAll('__REPO_SOURCE_URL__', escapeYamlValue(args.env.REPO_SOURCE_URL))
     .replaceAll('__REPO_OWNER__', args.env.REPO_OWNER)
     .replaceAll('__REPO_NAME__', args.env.REPO_NAME)
+    .replaceAll('__BUILD_CACHE_REPO__', escapeYamlValue(args.env.BUILD_CACHE_REPO))
+    .replaceAll('__BUILD_CACHE_SCOPE__', args.env.BUILD_CACHE_SCOPE)
+    .replaceAll('__BUILD_STRATEGY__', args.env.BUILD_STRATEGY)
+    .replaceAll('__DOCKERFILE_PATH__', args.env.DOCKERFILE_PATH)
+    .replaceAll('__STATIC_OUTPUT_DIR__', args.env.STATIC_OUTPUT_DIR)
+    .replaceAll('__BUILD_ARGS_B64__', args.env.BUILD_ARGS_B64)
 }
 
 async function spawnK8sBuilderJob(args: {
@@ -0,0 +1,76 @@
+import { describe, expect, it, vi } from 'vitest'
+import type { PrismaClient } from '@prisma/client'
+import {
+  parseBuildStrategy,
+  resolveBuildStrategy,
+  validateBuildStrategy,
+} from './buildStrategy.js'
+
+describe('validateBuildStrategy', () => {
+  it('defaults the dockerfile path and drops keys of other types', () => {
+    expect(
+      validateBuildStrategy({ type: 'dockerfile', outputDirectory: 'dist' })
+    ).toEqual({
+      allowed: true,
+      strategy: { type: 'dockerfile', dockerfilePath: 'Dockerfile' },
+    })
+    expect(
+      validateBuildStrategy({ type: 'buildpack', dockerfilePath: 'x' })
+    ).toEqual({ allowed: true, strategy: { type: 'buildpack' } })
+  })
+
+  it('keeps paths inside the repo', () => {
+    for (const dockerfilePath of ['/etc/Dockerfile', '../Dockerfile', '']) {
+      expect(
+        validateBuildStrategy({ type: 'dockerfile', dockerfilePath }).allowed
+      ).toBe(false)
+    }
+    expect(
+      validateBuildStrategy({ type: 'static', outputDirectory: ' web/dist ' })
+    ).toEqual({
+      allowed: true,
+      strategy: { type: 'static', outputDirectory: 'web/dist' },
+    })
+  })
+
+  it('rejects unknown types and non-objects', () => {
+    expect(validateBuildStrategy({ type: 'nix' }).allowed).toBe(false)
+    expect(validateBuildStrategy('dockerfile').allowed).toBe(false)
+    expect(validateBuildStrategy(null).allowed).toBe(false)
+  })
+
+  it('parses stored values, falling back to auto', () => {
+    expect(parseBuildStrategy(null)).toEqual({ type: 'auto' })
+    expect(parseBuildStrategy({ type: 'bogus' })).toEqual({ type: 'auto' })
+    expect(parseBuildStrategy({ type: 'static' })).toEqual({ type: 'static' })
+  })
+})
+
+describe('resolveBuildStrategy', () => {
+  it('passes build-time env vars as args but snapshots only their keys', async () => {
+    const findUnique = vi.fn().mockResolvedValue({
+      buildStrategy: { type: 'dockerfile', dockerfilePath: 'docker/api' },
+      envVars: [
+        { key: 'NPM_TOKEN', value: 'secret' },
+        { key: 'VITE_API_URL', value: 'https://api.example.com' },
+      ],
+    })
+    const prisma = { service: { findUnique } } as unknown as PrismaClient
+
+    const resolved = await resolveBuildStrategy(prisma, 'svc-1')
+
+    expect(findUnique.mock.calls[0][0].select.envVars.where).toEqual({
+      buildTime: true,
+    })
+    expect(resolved.buildArgs).toEqual({
+      NPM_TOKEN: 'secret',
+      VITE_API_URL: 'https://api.example.com',
+    })
+    expect(resolved.snapshot).toEqual({
+      type: 'dockerfile',
+      dockerfilePath: 'docker/api',
+      buildArgKeys: ['NPM_TOKEN', 'VITE_API_URL'],
+    })
+    expect(JSON.stringify(resolved.snapshot)).not.toContain('secret')
+  })
+})
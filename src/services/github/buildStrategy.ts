@@ -0,0 +1,143 @@
+/**
+ * How the builder turns a git checkout into an image.
+ *
+ *   auto        detect: Dockerfile if present, else buildpack (the default)
+ *   dockerfile  `docker build -f <dockerfilePath>` (relative to ROOT_DIRECTORY)
+ *   buildpack   Nixpacks-style framework detection, ignoring any Dockerfile
+ *   static      run the build command, serve `outputDirectory` from nginx
+ *
+ * Stored on `Service.buildStrategy` (null = auto). Env vars flagged
+ * `buildTime` are passed to every strategy — as `--build-arg`s for a
+ * Dockerfile, as build-step environment otherwise. Each BuildJob keeps a
+ * snapshot of the strategy and the build-arg *keys* it ran with; values
+ * stay on the env var rows.
+ */
+
+import type { PrismaClient } from '@prisma/client'
+
+export const BUILD_STRATEGY_TYPES = [
+  'auto',
+  'dockerfile',
+  'buildpack',
+  'static',
+] as const
+
+export type BuildStrategyType = (typeof BUILD_STRATEGY_TYPES)[number]
+
+export type BuildStrategy = {
+  type: BuildStrategyType
+  /** dockerfile only; defaults to `Dockerfile`. */
+  dockerfilePath?: string
+  /** static only; null/omitted lets the builder detect (dist, build, out, public). */
+  outputDirectory?: string
+}
+
+export type BuildStrategySnapshot = BuildStrategy & {
+  buildArgKeys: string[]
+}
+
+export interface ResolvedBuildStrategy {
+  strategy: BuildStrategy
+  buildArgs: Record<string, string>
+  snapshot: BuildStrategySnapshot
+}
+
+const DEFAULT_DOCKERFILE_PATH = 'Dockerfile'
+
+function checkRepoPath(value: unknown, field: string): string | null {
+  if (typeof value !== 'string') return `${field} must be a string.`
+  const trimmed = value.trim()
+  if (
+    trimmed === '' ||
+    trimmed.length > 256 ||
+    trimmed.startsWith('/') ||
+    trimmed.split('/').includes('..') ||
+    !/^[A-Za-z0-9._\-/]+$/.test(trimmed)
+  ) {
+    return `${field} must be a relative path inside the repo (letters, numbers, dot, dash, underscore, slash; max 256 chars).`
+  }
+  return null
+}
+
+/** Check a `buildStrategy` input and drop keys that don't apply to its type. */
+export function validateBuildStrategy(
+  input: unknown
+):
+  | { allowed: true; strategy: BuildStrategy }
+  | { allowed: false; reason: string } {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return {
+      allowed: false,
+      reason:
+        'buildStrategy must be an object with at least { type }, or null to reset to auto.',
+    }
+  }
+  const raw = input as Record<string, unknown>
+  const type = raw.type
+  if (!BUILD_STRATEGY_TYPES.includes(type as BuildStrategyType)) {
+    return {
+      allowed: false,
+      reason: `buildStrategy.type must be one of: ${BUILD_STRATEGY_TYPES.join(', ')}.`,
+    }
+  }
+  if (type === 'dockerfile') {
+    const path = raw.dockerfilePath ?? DEFAULT_DOCKERFILE_PATH
+    const error = checkRepoPath(path, 'buildStrategy.dockerfilePath')
+    if (error) return { allowed: false, reason: error }
+    return {
+      allowed: true,
+      strategy: { type, dockerfilePath: (path as string).trim() },
+    }
+  }
+  if (type === 'static') {
+    if (raw.outputDirectory === undefined || raw.outputDirectory === null) {
+      return { allowed: true, strategy: { type } }
+    }
+    const error = checkRepoPath(
+      raw.outputDirectory,
+      'buildStrategy.outputDirectory'
+    )
+    if (error) return { allowed: false, reason: error }
+    return {
+      allowed: true,
+      strategy: {
+        type,
+        outputDirectory: (raw.outputDirectory as string).trim(),
+      },
+    }
+  }
+  return { allowed: true, strategy: { type: type as BuildStrategyType } }
+}
+
+/** Normalise a stored `Service.buildStrategy`. Auto when unset or invalid. */
+export function parseBuildStrategy(raw: unknown): BuildStrategy {
+  if (raw === null || raw === undefined) return { type: 'auto' }
+  const result = validateBuildStrategy(raw)
+  return result.allowed ? result.strategy : { type: 'auto' }
+}
+
+/** The service's strategy plus its build-time env vars, ready to spawn. */
+export async function resolveBuildStrategy(
+  prisma: PrismaClient,
+  serviceId: string
+): Promise<ResolvedBuildStrategy> {
+  const service = await prisma.service.findUnique({
+    where: { id: serviceId },
+    select: {
+      buildStrategy: true,
+      envVars: {
+        where: { buildTime: true },
+        select: { key: true, value: true },
+        orderBy: { key: 'asc' },
+      },
+    },
+  })
+  const strategy = parseBuildStrategy(service?.buildStrategy)
+  const buildArgs: Record<string, string> = {}
+  for (const v of service?.envVars ?? []) buildArgs[v.key] = v.value
+  return {
+    strategy,
+    buildArgs,
+    snapshot: { ...strategy, buildArgKeys: Object.keys(buildArgs) },
+  }
+}
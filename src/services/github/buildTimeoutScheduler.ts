@@ -0,0 +1,68 @@
+/**
+ * Build Timeout Scheduler
+ *
+ * Every 5 minutes, fails BuildJobs that have been PENDING/RUNNING for
+ * longer than BUILD_TIMEOUT_MINUTES (default 30) and stops their builder.
+ * Covers builders that die without a callback, whose rows would
+ * otherwise show "Building…" forever. One pod only (leadership in
+ * `index.ts`).
+ */
+
+import * as cron from 'node-cron'
+import { randomUUID } from 'node:crypto'
+import type { PrismaClient } from '@prisma/client'
+import { createLogger } from '../../lib/logger.js'
+import { requestContext } from '../../lib/requestContext.js'
+import { expireTimedOutBuilds } from './buildQueue.js'
+
+const log = createLogger('build-timeout-scheduler')
+
+export class BuildTimeoutScheduler {
+  private cronJob: cron.ScheduledTask | null = null
+  private running = false
+  private readonly prisma: PrismaClient
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma
+  }
+
+  start() {
+    if (this.cronJob) {
+      log.info('Already running')
+      return
+    }
+
+    this.cronJob = cron.schedule('*/5 * * * *', async () => {
+      await this.runOnce()
+    })
+
+    log.info('Started — expires stuck builds every 5 minutes')
+  }
+
+  stop() {
+    if (this.cronJob) {
+      this.cronJob.stop()
+      this.cronJob = null
+      log.info('Stopped')
+    }
+  }
+
+  async runOnce(now = new Date()) {
+    if (this.running) {
+      log.info('Previous timeout check still in progress — skipping tick')
+      return
+    }
+    this.running = true
+    const traceId = randomUUID()
+    try {
+      await requestContext.run({ requestId: traceId, traceId }, async () => {
+        const expired = await expireTimedOutBuilds(this.prisma, now)
+        if (expired > 0) log.info({ expired }, 'Timed-out builds failed')
+      })
+    } catch (err) {
+      log.error({ err }, 'Build timeout check failed')
+    } finally {
+      this.running = false
+    }
+  }
+}
@@ -192,7 +192,7 @@ export async function postCommitStatus(
     state: 'pending' | 'success' | 'failure' | 'error'
     target_url?: string
     description?: string
-    /** Distinct context per check; ours is always 'alternatefutures/deploy'. */
+    /** Distinct context per check; defaults to 'alternatefutures/deploy'. */
     context?: string
   },
 ): Promise<void> {
@@ -217,6 +217,71 @@ export async function postCommitStatus(
   }
 }
 
+/** POST/PATCH with an installation token; same error shape as `gh`. */
+async function ghWrite<T>(
+  method: 'POST' | 'PATCH',
+  path: string,
+  installationId: bigint | string,
+  body: unknown
+): Promise<T> {
+  const token = await getInstallationToken(installationId)
+  const r = await fetch(`${GH}${path}`, {
+    method,
+    headers: {
+      Accept: 'application/vnd.github+json',
+      'X-GitHub-Api-Version': '2022-11-28',
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${token}`,
+      'User-Agent': 'AlternateFutures',
+    },
+    body: JSON.stringify(body),
+  })
+  if (!r.ok) {
+    const text = await r.text().catch(() => '')
+    throw new GithubApiError(
+      r.status,
+      `${r.status} ${method} ${path}: ${text.slice(0, 200)}`
+    )
+  }
+  return (await r.json()) as T
+}
+
+/**
+ * POST /repos/{owner}/{repo}/issues/{number}/comments — comment on a PR
+ * (PRs are issues for the comments API). Returns the comment id so the
+ * caller can edit it in place later.
+ */
+export async function createIssueComment(
+  installationId: bigint | string,
+  owner: string,
+  repo: string,
+  issueNumber: number,
+  body: string
+): Promise<{ id: number }> {
+  return ghWrite<{ id: number }>(
+    'POST',
+    `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/issues/${issueNumber}/comments`,
+    installationId,
+    { body }
+  )
+}
+
+/** PATCH /repos/{owner}/{repo}/issues/comments/{id} — rewrite a comment we posted. */
+export async function updateIssueComment(
+  installationId: bigint | string,
+  owner: string,
+  repo: string,
+  commentId: bigint | number,
+  body: string
+): Promise<void> {
+  await ghWrite<unknown>(
+    'PATCH',
+    `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/issues/comments/${commentId}`,
+    installationId,
+    { body }
+  )
+}
+
 /**
  * Build the HTTPS clone URL embedding a freshly-minted installation token.
  *   https://x-access-token:<token>@github.com/<owner>/<repo>.git
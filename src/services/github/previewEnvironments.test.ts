@@ -0,0 +1,150 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const mocks = vi.hoisted(() => ({
+  close: vi.fn(),
+  decrementOrgConcurrency: vi.fn(),
+  invalidateSlug: vi.fn(),
+  updateIssueComment: vi.fn(),
+}))
+
+vi.mock('../providers/registry.js', () => ({
+  getAllProviders: () => [
+    {
+      name: 'akash',
+      close: mocks.close,
+      descriptor: {
+        prismaModel: 'akashDeployment',
+        needsCleanupStatuses: ['ACTIVE', 'DEPLOYING'],
+      },
+    },
+  ],
+}))
+vi.mock('../concurrency/concurrencyService.js', () => ({
+  decrementOrgConcurrency: mocks.decrementOrgConcurrency,
+}))
+vi.mock('../proxy/subdomainProxy.js', () => ({
+  getSubdomainProxy: () => ({ invalidateSlug: mocks.invalidateSlug }),
+}))
+vi.mock('./client.js', () => ({
+  createIssueComment: vi.fn(),
+  postCommitStatus: vi.fn(),
+  updateIssueComment: mocks.updateIssueComment,
+}))
+vi.mock('../../lib/audit.js', () => ({ audit: vi.fn() }))
+
+import {
+  isPreviewIdle,
+  previewSlug,
+  teardownPreview,
+  validatePreviewPolicy,
+} from './previewEnvironments.js'
+
+describe('validatePreviewPolicy', () => {
+  it('defaults the idle TTL to 72 hours', () => {
+    expect(validatePreviewPolicy({ enabled: true })).toEqual({
+      allowed: true,
+      policy: { enabled: true, ttlHours: 72 },
+    })
+  })
+
+  it('rejects a missing enabled flag and out-of-range TTLs', () => {
+    for (const input of [
+      null,
+      { ttlHours: 24 },
+      { enabled: true, ttlHours: 0 },
+      { enabled: true, ttlHours: 1.5 },
+      { enabled: true, ttlHours: 721 },
+    ]) {
+      expect(validatePreviewPolicy(input).allowed).toBe(false)
+    }
+  })
+})
+
+describe('preview helpers', () => {
+  it('derives the slug the proxy serves as {slug}-pr-{n}-app', () => {
+    expect(previewSlug('web', 42)).toBe('web-pr-42')
+  })
+
+  it('measures idleness against the parent TTL', () => {
+    const now = new Date('2026-05-20T12:00:00Z')
+    const touched = new Date('2026-05-20T00:00:00Z')
+    expect(isPreviewIdle({ enabled: true, ttlHours: 12 }, touched, now)).toBe(
+      true
+    )
+    expect(isPreviewIdle({ enabled: true, ttlHours: 13 }, touched, now)).toBe(
+      false
+    )
+    // No (or a broken) policy falls back to the 72h default.
+    expect(isPreviewIdle(null, touched, now)).toBe(false)
+  })
+})
+
+describe('teardownPreview', () => {
+  const env = {
+    id: 'env-1',
+    serviceId: 'parent-1',
+    prNumber: 7,
+    headSha: 'abcdef1234567',
+    commentId: 99n,
+    previewService: {
+      id: 'svc-pr',
+      slug: 'web-pr-7',
+      projectId: 'proj-1',
+      project: { organizationId: 'org-1' },
+      gitOwner: 'acme',
+      gitRepo: 'web',
+      gitInstallation: { installationId: 123n },
+    },
+  }
+
+  function makePrisma(claimed: number) {
+    return {
+      previewEnvironment: {
+        updateMany: vi.fn().mockResolvedValue({ count: claimed }),
+        findUniqueOrThrow: vi.fn().mockResolvedValue(env),
+        findUnique: vi.fn().mockResolvedValue(env),
+      },
+      akashDeployment: {
+        findMany: vi.fn().mockResolvedValue([{ id: 'dep-1' }, { id: 'dep-2' }]),
+      },
+    }
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mocks.updateIssueComment.mockResolvedValue(undefined)
+  })
+
+  it('closes every live deployment and releases concurrency', async () => {
+    const prisma = makePrisma(1)
+    const closed = await teardownPreview(prisma as never, 'env-1', 'pr_closed')
+
+    expect(closed).toBe(true)
+    expect(prisma.previewEnvironment.updateMany).toHaveBeenCalledWith({
+      where: { id: 'env-1', status: 'ACTIVE' },
+      data: expect.objectContaining({
+        status: 'CLOSED',
+        closeReason: 'pr_closed',
+      }),
+    })
+    expect(mocks.close.mock.calls).toEqual([['dep-1'], ['dep-2']])
+    expect(mocks.decrementOrgConcurrency).toHaveBeenCalledTimes(2)
+    expect(mocks.invalidateSlug).toHaveBeenCalledWith('web-pr-7')
+    expect(mocks.updateIssueComment).toHaveBeenCalledWith(
+      123n,
+      'acme',
+      'web',
+      99n,
+      expect.stringContaining('closed')
+    )
+  })
+
+  it('does nothing when the preview was already closed', async () => {
+    const prisma = makePrisma(0)
+    expect(await teardownPreview(prisma as never, 'env-1', 'idle_ttl')).toBe(
+      false
+    )
+    expect(prisma.akashDeployment.findMany).not.toHaveBeenCalled()
+    expect(mocks.close).not.toHaveBeenCalled()
+  })
+})
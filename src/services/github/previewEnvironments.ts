@@ -0,0 +1,462 @@
+/**
+ * Per-pull-request preview environments.
+ *
+ * A git service with `previewPolicy.enabled` gets an ephemeral copy for
+ * every same-repo PR opened against its tracked branch. The copy is an
+ * ordinary Service row — slug `{slug}-pr-{n}`, gitBranch = PR head — so
+ * the regular build → build-callback → auto-deploy path runs it and the
+ * subdomain proxy serves it at `{slug}-pr-{n}-app.<base domain>`. Env vars
+ * and ports are copied from the parent; volumes are not.
+ *
+ * Lifecycle:
+ *   - opened / reopened / synchronize → `upsertPreviewService` + build
+ *     (webhookEndpoint.ts)
+ *   - build SUCCEEDED → auto-deploy, then `announcePreview` posts the URL
+ *     as a commit status and a PR comment (buildCallbackEndpoint.ts)
+ *   - closed, or no PR activity for `ttlHours` → `teardownPreview` closes
+ *     the deployments through their providers, which settles billing
+ *
+ * The preview Service row outlives teardown: deferred provider cleanup
+ * (Spheron's minimum-runtime delete) still needs its deployment rows, and
+ * a reopened PR picks the same row back up.
+ */
+
+import type {
+  PrismaClient,
+  Service,
+  ServiceEnvVar,
+  ServicePort,
+} from '@prisma/client'
+import { audit } from '../../lib/audit.js'
+import { createLogger } from '../../lib/logger.js'
+import { generateInternalHostname } from '../../utils/internalHostname.js'
+import { generateInvokeUrl } from '../../utils/invokeUrl.js'
+import { decrementOrgConcurrency } from '../concurrency/concurrencyService.js'
+import { getAllProviders } from '../providers/registry.js'
+import {
+  createIssueComment,
+  postCommitStatus,
+  updateIssueComment,
+} from './client.js'
+
+const log = createLogger('github.preview')
+
+export const DEFAULT_PREVIEW_TTL_HOURS = 72
+const MAX_PREVIEW_TTL_HOURS = 720
+const PREVIEW_STATUS_CONTEXT = 'alternatefutures/preview'
+const HOUR_MS = 3_600_000
+
+export interface PreviewPolicy {
+  enabled: boolean
+  ttlHours: number
+}
+
+export type PreviewCloseReason = 'pr_closed' | 'idle_ttl' | 'service_deleted'
+
+export interface PullRequestRef {
+  number: number
+  headBranch: string
+  headSha: string
+}
+
+/** The slice of a provider's Prisma delegate teardown needs. */
+interface DeploymentModel {
+  // eslint-disable-next-line no-unused-vars
+  findMany(query: unknown): Promise<Array<{ id: string }>>
+}
+
+export type PreviewParent = Service & {
+  project: { slug: string }
+  envVars: ServiceEnvVar[]
+  ports: ServicePort[]
+}
+
+export function previewSlug(parentSlug: string, prNumber: number): string {
+  return `${parentSlug}-pr-${prNumber}`
+}
+
+/** Check a `previewPolicy` input and fill in the TTL default. */
+export function validatePreviewPolicy(
+  input: unknown
+):
+  | { allowed: true; policy: PreviewPolicy }
+  | { allowed: false; reason: string } {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return {
+      allowed: false,
+      reason:
+        'previewPolicy must be an object with at least { enabled }, or null to clear.',
+    }
+  }
+  const raw = input as Record<string, unknown>
+  if (typeof raw.enabled !== 'boolean') {
+    return {
+      allowed: false,
+      reason: 'previewPolicy.enabled is required and must be a boolean.',
+    }
+  }
+  const ttlHours = raw.ttlHours ?? DEFAULT_PREVIEW_TTL_HOURS
+  if (
+    typeof ttlHours !== 'number' ||
+    !Number.isInteger(ttlHours) ||
+    ttlHours < 1 ||
+    ttlHours > MAX_PREVIEW_TTL_HOURS
+  ) {
+    return {
+      allowed: false,
+      reason: `previewPolicy.ttlHours must be an integer between 1 and ${MAX_PREVIEW_TTL_HOURS} hours.`,
+    }
+  }
+  return { allowed: true, policy: { enabled: raw.enabled, ttlHours } }
+}
+
+/** Normalise a stored `Service.previewPolicy`. Null when unset or invalid. */
+export function parsePreviewPolicy(raw: unknown): PreviewPolicy | null {
+  if (raw === null || raw === undefined) return null
+  const result = validatePreviewPolicy(raw)
+  return result.allowed ? result.policy : null
+}
+
+/** Whether an ACTIVE preview last touched at `lastActivityAt` has gone idle. */
+export function isPreviewIdle(
+  policyRaw: unknown,
+  lastActivityAt: Date,
+  now: Date
+): boolean {
+  const ttlHours =
+    parsePreviewPolicy(policyRaw)?.ttlHours ?? DEFAULT_PREVIEW_TTL_HOURS
+  return now.getTime() - lastActivityAt.getTime() >= ttlHours * HOUR_MS
+}
+
+/**
+ * Create the preview Service for a PR, or re-activate the existing one on
+ * a new push / reopen. Returns the preview service to build.
+ */
+export async function upsertPreviewService(
+  prisma: PrismaClient,
+  parent: PreviewParent,
+  pr: PullRequestRef
+): Promise<Service> {
+  const existing = await prisma.previewEnvironment.findUnique({
+    where: {
+      serviceId_prNumber: { serviceId: parent.id, prNumber: pr.number },
+    },
+  })
+  if (existing) {
+    await prisma.previewEnvironment.update({
+      where: { id: existing.id },
+      data: {
+        headBranch: pr.headBranch,
+        headSha: pr.headSha,
+        status: 'ACTIVE',
+        lastActivityAt: new Date(),
+        closedAt: null,
+        closeReason: null,
+      },
+    })
+    return prisma.service.update({
+      where: { id: existing.previewServiceId },
+      data: { gitBranch: pr.headBranch },
+    })
+  }
+
+  const slug = previewSlug(parent.slug, pr.number)
+  const taken = await prisma.service.findFirst({
+    where: { projectId: parent.projectId, slug },
+    select: { id: true },
+  })
+  if (taken) {
+    throw new Error(
+      `slug "${slug}" is already used by another service in the project`
+    )
+  }
+
+  return prisma.$transaction(async tx => {
+    const preview = await tx.service.create({
+      data: {
+        type: parent.type,
+        name: `${parent.name} (PR #${pr.number})`,
+        slug,
+        projectId: parent.projectId,
+        templateId: parent.templateId,
+        flavor: parent.flavor,
+        containerPort: parent.containerPort,
+        healthProbe: parent.healthProbe ?? undefined,
+        internalHostname: generateInternalHostname(slug, parent.project.slug),
+        createdByUserId: parent.createdByUserId,
+        gitProvider: parent.gitProvider,
+        gitOwner: parent.gitOwner,
+        gitRepo: parent.gitRepo,
+        gitBranch: pr.headBranch,
+        gitInstallationId: parent.gitInstallationId,
+        rootDirectory: parent.rootDirectory,
+        buildStrategy: parent.buildStrategy ?? undefined,
+        buildCommand: parent.buildCommand,
+        startCommand: parent.startCommand,
+        preferredRegion: parent.preferredRegion,
+        preferredProvider: parent.preferredProvider,
+      },
+    })
+    if (parent.envVars.length > 0) {
+      await tx.serviceEnvVar.createMany({
+        data: parent.envVars.map(e => ({
+          serviceId: preview.id,
+          key: e.key,
+          value: e.value,
+          secret: e.secret,
+          source: e.source,
+          buildTime: e.buildTime,
+        })),
+      })
+    }
+    if (parent.ports.length > 0) {
+      await tx.servicePort.createMany({
+        data: parent.ports.map(p => ({
+          serviceId: preview.id,
+          containerPort: p.containerPort,
+          publicPort: p.publicPort,
+          protocol: p.protocol,
+        })),
+      })
+    }
+    await tx.previewEnvironment.create({
+      data: {
+        serviceId: parent.id,
+        previewServiceId: preview.id,
+        prNumber: pr.number,
+        headBranch: pr.headBranch,
+        headSha: pr.headSha,
+      },
+    })
+    return preview
+  })
+}
+
+function previewComment(url: string, sha: string, closed: boolean): string {
+  if (closed) {
+    return `**Preview environment closed.** It was serving \`${sha.slice(0, 7)}\` at ${url}.`
+  }
+  return `**Preview environment deployed** for \`${sha.slice(0, 7)}\`: ${url}\n\nUpdated on every push to this pull request; torn down when it is closed.`
+}
+
+async function loadForGithub(prisma: PrismaClient, previewServiceId: string) {
+  return prisma.previewEnvironment.findUnique({
+    where: { previewServiceId },
+    include: {
+      previewService: {
+        select: {
+          slug: true,
+          gitOwner: true,
+          gitRepo: true,
+          gitInstallation: { select: { installationId: true } },
+        },
+      },
+    },
+  })
+}
+
+/**
+ * Post the preview URL back to GitHub once a build of `sha` has been
+ * handed to the deploy path. Best-effort: a GitHub outage must not fail
+ * the build callback.
+ */
+export async function announcePreview(
+  prisma: PrismaClient,
+  previewServiceId: string,
+  sha: string
+): Promise<void> {
+  const env = await loadForGithub(prisma, previewServiceId)
+  const svc = env?.previewService
+  if (
+    !env ||
+    env.status !== 'ACTIVE' ||
+    !svc?.gitInstallation ||
+    !svc.gitOwner ||
+    !svc.gitRepo
+  ) {
+    return
+  }
+  const installationId = svc.gitInstallation.installationId
+  const url = generateInvokeUrl(svc.slug)
+
+  try {
+    await postCommitStatus(installationId, svc.gitOwner, svc.gitRepo, sha, {
+      state: 'success',
+      target_url: url,
+      description: 'Preview environment deployed',
+      context: PREVIEW_STATUS_CONTEXT,
+    })
+  } catch (err) {
+    log.warn({ err, previewServiceId }, 'preview commit status post failed')
+  }
+
+  const body = previewComment(url, sha, false)
+  try {
+    if (env.commentId !== null) {
+      await updateIssueComment(
+        installationId,
+        svc.gitOwner,
+        svc.gitRepo,
+        env.commentId,
+        body
+      )
+    } else {
+      const comment = await createIssueComment(
+        installationId,
+        svc.gitOwner,
+        svc.gitRepo,
+        env.prNumber,
+        body
+      )
+      await prisma.previewEnvironment.update({
+        where: { id: env.id },
+        data: { commentId: BigInt(comment.id) },
+      })
+    }
+  } catch (err) {
+    log.warn(
+      { err, previewServiceId, prNumber: env.prNumber },
+      'preview PR comment failed'
+    )
+  }
+}
+
+/**
+ * Close every live deployment of a preview and mark it CLOSED. Returns
+ * false when the preview was not ACTIVE (already torn down by a racing
+ * webhook or sweep).
+ */
+export async function teardownPreview(
+  prisma: PrismaClient,
+  environmentId: string,
+  reason: PreviewCloseReason,
+  traceId?: string
+): Promise<boolean> {
+  const claimed = await prisma.previewEnvironment.updateMany({
+    where: { id: environmentId, status: 'ACTIVE' },
+    data: { status: 'CLOSED', closedAt: new Date(), closeReason: reason },
+  })
+  if (claimed.count === 0) return false
+
+  const env = await prisma.previewEnvironment.findUniqueOrThrow({
+    where: { id: environmentId },
+    include: {
+      previewService: {
+        select: {
+          id: true,
+          slug: true,
+          projectId: true,
+          project: { select: { organizationId: true } },
+        },
+      },
+    },
+  })
+  const svc = env.previewService
+  const orgId = svc.project.organizationId
+
+  const closed: string[] = []
+  const errors: string[] = []
+  for (const provider of getAllProviders()) {
+    const { descriptor } = provider
+    if (descriptor.needsCleanupStatuses.length === 0) continue
+    const model = (prisma as unknown as Record<string, DeploymentModel>)[
+      descriptor.prismaModel
+    ]
+    const live = await model.findMany({
+      where: {
+        serviceId: svc.id,
+        status: { in: descriptor.needsCleanupStatuses },
+      },
+      select: { id: true },
+    })
+    for (const dep of live) {
+      try {
+        await provider.close(dep.id)
+        await decrementOrgConcurrency(prisma, orgId)
+        closed.push(`${provider.name}:${dep.id}`)
+      } catch (err) {
+        errors.push(
+          `${provider.name}:${dep.id}: ${err instanceof Error ? err.message : String(err)}`
+        )
+      }
+    }
+  }
+
+  const { getSubdomainProxy } = await import('../proxy/subdomainProxy.js')
+  getSubdomainProxy()?.invalidateSlug(svc.slug)
+
+  if (env.commentId !== null) {
+    const gh = await loadForGithub(prisma, svc.id)
+    const repo = gh?.previewService
+    if (repo?.gitInstallation && repo.gitOwner && repo.gitRepo) {
+      await updateIssueComment(
+        repo.gitInstallation.installationId,
+        repo.gitOwner,
+        repo.gitRepo,
+        env.commentId,
+        previewComment(generateInvokeUrl(svc.slug), env.headSha, true)
+      ).catch(err =>
+        log.warn({ err, environmentId }, 'preview comment update failed')
+      )
+    }
+  }
+
+  audit(prisma, {
+    traceId,
+    source: 'monitor',
+    category: 'deployment',
+    action: 'preview.closed',
+    status: errors.length > 0 ? 'warn' : 'ok',
+    orgId,
+    projectId: svc.projectId,
+    serviceId: svc.id,
+    payload: {
+      parentServiceId: env.serviceId,
+      prNumber: env.prNumber,
+      reason,
+      closed,
+      errors,
+    },
+  })
+  log.info(
+    {
+      environmentId,
+      prNumber: env.prNumber,
+      reason,
+      closed: closed.length,
+      errors: errors.length,
+    },
+    'preview environment torn down'
+  )
+  return true
+}
+
+/** Tear down ACTIVE previews whose PR has been quiet past the parent's TTL. */
+export async function sweepIdlePreviews(
+  prisma: PrismaClient,
+  now: Date,
+  traceId: string
+): Promise<number> {
+  const candidates = await prisma.previewEnvironment.findMany({
+    where: {
+      status: 'ACTIVE',
+      lastActivityAt: { lte: new Date(now.getTime() - HOUR_MS) },
+    },
+    select: {
+      id: true,
+      lastActivityAt: true,
+      service: { select: { previewPolicy: true } },
+    },
+  })
+  let closed = 0
+  for (const env of candidates) {
+    if (!isPreviewIdle(env.service.previewPolicy, env.lastActivityAt, now))
+      continue
+    try {
+      if (await teardownPreview(prisma, env.id, 'idle_ttl', traceId)) closed++
+    } catch (err) {
+      log.error({ err, environmentId: env.id }, 'idle preview teardown failed')
+    }
+  }
+  return closed
+}
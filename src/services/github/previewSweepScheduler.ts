@@ -0,0 +1,67 @@
+/**
+ * Preview Sweep Scheduler
+ *
+ * Every 15 minutes, tears down pull-request preview environments that
+ * have seen no push for longer than their parent's
+ * `previewPolicy.ttlHours`. Closing a preview closes leases, so this runs
+ * under `runWithLeadership('preview-sweep-scheduler', …)` in `index.ts`.
+ */
+
+import * as cron from 'node-cron'
+import { randomUUID } from 'node:crypto'
+import type { PrismaClient } from '@prisma/client'
+import { createLogger } from '../../lib/logger.js'
+import { requestContext } from '../../lib/requestContext.js'
+import { sweepIdlePreviews } from './previewEnvironments.js'
+
+const log = createLogger('preview-sweep-scheduler')
+
+export class PreviewSweepScheduler {
+  private cronJob: cron.ScheduledTask | null = null
+  private running = false
+  private readonly prisma: PrismaClient
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma
+  }
+
+  start() {
+    if (this.cronJob) {
+      log.info('Already running')
+      return
+    }
+
+    this.cronJob = cron.schedule('*/15 * * * *', async () => {
+      await this.runOnce()
+    })
+
+    log.info('Started — sweeps idle preview environments every 15 minutes')
+  }
+
+  stop() {
+    if (this.cronJob) {
+      this.cronJob.stop()
+      this.cronJob = null
+      log.info('Stopped')
+    }
+  }
+
+  async runOnce(now = new Date()) {
+    if (this.running) {
+      log.info('Previous preview sweep still in progress — skipping tick')
+      return
+    }
+    this.running = true
+    const traceId = randomUUID()
+    try {
+      await requestContext.run({ requestId: traceId, traceId }, async () => {
+        const closed = await sweepIdlePreviews(this.prisma, now, traceId)
+        if (closed > 0) log.info({ closed }, 'Idle preview sweep complete')
+      })
+    } catch (err) {
+      log.error({ err }, 'Idle preview sweep failed')
+    } finally {
+      this.running = false
+    }
+  }
+}
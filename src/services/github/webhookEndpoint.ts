@@ -5,6 +5,8 @@
  *   - installation (created | deleted | suspend | unsuspend) → upsert/delete row
  *   - installation_repositories (added/removed) → no-op for now (UI re-fetches lazily)
  *   - push → if pushed branch matches any Service.gitBranch + repo, trigger rebuild
+ *   - pull_request → build/close per-PR preview environments for services
+ *     with previewPolicy enabled (see previewEnvironments.ts)
  *
  * MUST read raw body before JSON.parse for HMAC verification.
  */
@@ -15,11 +17,16 @@ import { createLogger } from '../../lib/logger.js'
 import { isGithubAppConfigured } from './config.js'
 import { verifyWebhookSignature } from './webhookSignature.js'
 import { getCommit } from './client.js'
-import { spawnBuildJob } from './buildSpawner.js'
-import { getGithubAppConfig } from './config.js'
+import { githubRepoClient } from '../git/github.js'
+import { spawnServiceBuild } from '../git/builds.js'
+import { changedFilesFromCommits } from '../git/watchPaths.js'
+import { teardownPreview, upsertPreviewService } from './previewEnvironments.js'
 
 const log = createLogger('github.webhook')
 
+/** Push payloads list at most this many commits (documented GitHub limit). */
+const GITHUB_MAX_PUSH_COMMITS = 2048
+
 function reply(res: ServerResponse, status: number, body: string) {
   res.writeHead(status, { 'content-type': 'text/plain' })
   res.end(body)
@@ -61,9 +68,29 @@ interface PushEvent {
   installation?: { id: number }
   pusher: { name: string; email: string }
   head_commit: { id: string; message: string } | null
+  commits?: Array<{ added?: string[]; modified?: string[]; removed?: string[] }>
   deleted: boolean
 }
 
+interface PullRequestEvent {
+  action: string // opened | reopened | synchronize | closed | edited | labeled | …
+  number: number
+  pull_request: {
+    number: number
+    title: string
+    head: { ref: string; sha: string; repo: { full_name: string } | null }
+    base: { ref: string; repo: { full_name: string } }
+  }
+  repository: {
+    id: number
+    name: string
+    full_name: string
+    owner: { login: string; id: number }
+  }
+  installation?: { id: number }
+  sender: { login: string }
+}
+
 export async function handleGithubWebhook(
   req: IncomingMessage,
   res: ServerResponse,
@@ -122,6 +149,10 @@ export async function handleGithubWebhook(
         await handlePushEvent(prisma, payload as PushEvent)
         return reply(res, 200, 'ok')
 
+      case 'pull_request':
+        await handlePullRequestEvent(prisma, payload as PullRequestEvent)
+        return reply(res, 200, 'ok')
+
       default:
         // We subscribed broadly in the manifest; ignore unrecognized events.
         return reply(res, 200, 'ignored')
@@ -259,6 +290,9 @@ async function handlePushEvent(prisma: PrismaClient, payload: PushEvent): Promis
       gitOwner: payload.repository.owner.login,
       gitRepo: payload.repository.name,
       gitBranch: branch,
+      // Preview copies track the PR head branch; their builds come from
+      // pull_request synchronize, not from the push.
+      previewEnvironment: { is: null },
     },
     select: {
       id: true,
@@ -267,8 +301,10 @@ async function handlePushEvent(prisma: PrismaClient, payload: PushEvent): Promis
       gitRepo: true,
       gitBranch: true,
       rootDirectory: true,
+      watchPaths: true,
       buildCommand: true,
       startCommand: true,
+      buildCacheEpoch: true,
     },
   })
 
@@ -285,80 +321,131 @@ async function handlePushEvent(prisma: PrismaClient, payload: PushEvent): Promis
     'push triggers rebuilds',
   )
 
-  // Webhook redelivery dedup window. GitHub redelivers on ANY non-2xx and on
-  // some "slow handler" heuristics — so the same logical push can arrive 2-5
-  // times. Without this, every redelivery created another BuildJob, every
-  // BuildJob fired autoDeployAfterBuild, and the user saw N AkashDeployments
-  // for the same SHA. We can't add a UNIQUE(serviceId, commitSha) constraint
-  // because legitimate "Rebuild" clicks for the same SHA are valid; instead
-  // we look for any non-FAILED/CANCELED job for this (service, sha) created
-  // recently, and treat that as proof a builder is already (or was just)
-  // running.
-  const DEDUP_WINDOW_MS = 5 * 60_000
+  // A list at the cap may have been cut short — treat it as unknown.
+  const changedFiles =
+    payload.commits && payload.commits.length >= GITHUB_MAX_PUSH_COMMITS
+      ? null
+      : changedFilesFromCommits(payload.commits)
 
   for (const svc of services) {
     try {
-      const recent = await prisma.buildJob.findFirst({
-        where: {
-          serviceId: svc.id,
-          commitSha: payload.after,
-          status: { in: ['PENDING', 'RUNNING', 'SUCCEEDED'] },
-          createdAt: { gte: new Date(Date.now() - DEDUP_WINDOW_MS) },
-        },
-        select: { id: true, status: true, createdAt: true },
+      await spawnServiceBuild(prisma, svc, {
+        git: githubRepoClient(installIdNum),
+        commitSha: payload.after,
+        commitMessage: payload.head_commit.message,
+        branch,
+        triggeredBy: `push:${payload.pusher.email || payload.pusher.name}`,
+        changedFiles,
       })
-      if (recent) {
-        log.info(
-          { serviceId: svc.id, commitSha: payload.after, existingBuildJobId: recent.id, existingStatus: recent.status },
-          'dedup: skipping push-triggered build — existing recent BuildJob found (likely webhook redelivery)',
-        )
-        continue
-      }
+    } catch (err) {
+      log.error(
+        { err, serviceId: svc.id },
+        'push-triggered rebuild failed to spawn'
+      )
+      // Continue with the other services — one bad spawn shouldn't poison the batch.
+    }
+  }
+}
 
-      const buildJob = await prisma.buildJob.create({
-        data: {
-          serviceId: svc.id,
-          commitSha: payload.after,
-          commitMessage: payload.head_commit.message.slice(0, 1000),
-          branch,
-          triggeredBy: `push:${payload.pusher.email || payload.pusher.name}`,
-        },
-      })
+// -----------------------------------------------------------------------
+// pull_request event
+// -----------------------------------------------------------------------
 
-      if (!svc.createdByUserId) {
-        log.warn({ serviceId: svc.id }, 'service has no createdByUserId — cannot tag image; skipping')
-        continue
+async function handlePullRequestEvent(
+  prisma: PrismaClient,
+  payload: PullRequestEvent
+): Promise<void> {
+  if (!payload.installation?.id) return
+  const pr = payload.pull_request
+  const local = await prisma.githubInstallation.findUnique({
+    where: { installationId: BigInt(payload.installation.id) },
+    select: { id: true },
+  })
+  if (!local) {
+    log.warn(
+      { installationId: payload.installation.id },
+      'pull_request for unknown installation'
+    )
+    return
+  }
+  const repoMatch = {
+    gitInstallationId: local.id,
+    gitOwner: payload.repository.owner.login,
+    gitRepo: payload.repository.name,
+  }
+
+  if (payload.action === 'closed') {
+    // Tear down regardless of the parent's current policy — a preview that
+    // exists must not outlive its PR.
+    const open = await prisma.previewEnvironment.findMany({
+      where: { prNumber: pr.number, status: 'ACTIVE', service: repoMatch },
+      select: { id: true },
+    })
+    for (const env of open) {
+      try {
+        await teardownPreview(prisma, env.id, 'pr_closed')
+      } catch (err) {
+        log.error({ err, environmentId: env.id }, 'preview teardown failed')
       }
-      const cfg = getGithubAppConfig()
-      // Docker registry refs MUST be all lowercase — userId is a Prisma cuid
-      // (mixed case) and would break `docker build -t …` otherwise.
-      const safeUserId = svc.createdByUserId.toLowerCase().replace(/[^a-z0-9-]/g, '-')
-      const safeOwner = svc.gitOwner!.toLowerCase().replace(/[^a-z0-9-]/g, '-')
-      const safeRepo = svc.gitRepo!.toLowerCase().replace(/[^a-z0-9-]/g, '-')
-      const imageTag = `ghcr.io/${cfg.ghcrNamespace}/${safeUserId}--${safeOwner}-${safeRepo}:${payload.after.slice(0, 12)}`
-
-      const spawned = await spawnBuildJob({
-        buildJobId: buildJob.id,
-        installationId: installIdNum,
-        repoOwner: svc.gitOwner!,
-        repoName: svc.gitRepo!,
-        commitSha: payload.after,
-        imageTag,
-        rootDirectory: svc.rootDirectory ?? undefined,
-        buildCommand: svc.buildCommand ?? undefined,
-        startCommand: svc.startCommand ?? undefined,
+    }
+    return
+  }
+
+  if (!['opened', 'reopened', 'synchronize'].includes(payload.action)) return
+
+  // Fork PRs would build untrusted code with the parent's env vars.
+  if (pr.head.repo?.full_name !== pr.base.repo.full_name) {
+    log.info(
+      { repo: payload.repository.full_name, prNumber: pr.number },
+      'skipping preview for pull request from a fork'
+    )
+    return
+  }
+
+  const parents = await prisma.service.findMany({
+    where: {
+      ...repoMatch,
+      gitBranch: pr.base.ref,
+      previewPolicy: { path: ['enabled'], equals: true },
+      previewEnvironment: { is: null },
+    },
+    include: {
+      project: { select: { slug: true } },
+      envVars: true,
+      ports: true,
+    },
+  })
+  if (parents.length === 0) return
+
+  log.info(
+    {
+      count: parents.length,
+      repo: payload.repository.full_name,
+      prNumber: pr.number,
+      sha: pr.head.sha,
+    },
+    'pull request triggers preview builds'
+  )
+
+  for (const parent of parents) {
+    try {
+      const preview = await upsertPreviewService(prisma, parent, {
+        number: pr.number,
+        headBranch: pr.head.ref,
+        headSha: pr.head.sha,
       })
-      await prisma.buildJob.update({
-        where: { id: buildJob.id },
-        data: {
-          k8sJobName: spawned.k8sJobName,
-          status: 'RUNNING',
-          logs: spawned.initialLog,
-        },
+      await spawnServiceBuild(prisma, preview, {
+        git: githubRepoClient(BigInt(payload.installation.id)),
+        commitSha: pr.head.sha,
+        commitMessage: pr.title,
+        branch: pr.head.ref,
+        triggeredBy: `pull_request:#${pr.number}`,
       })
     } catch (err) {
-      log.error({ err, serviceId: svc.id }, 'push-triggered rebuild failed to spawn')
-      // Continue with the other services — one bad spawn shouldn't poison the batch.
+      log.error(
+        { err, serviceId: parent.id, prNumber: pr.number },
+        'preview build failed to spawn'
+      )
     }
   }
 }
@@ -11,17 +11,24 @@
  * port. One 30s tick scheduler with per-probe interval throttling and
  * AbortController-cancelled fetches. Results are in-memory; the audit log
  * captures state-flips for persistence.
+ *
+ * Services with `replicas > 1` also get every ACTIVE backend probed
+ * individually; `getBackendOverall` is what the subdomain proxy uses to
+ * eject unhealthy backends from its rotation.
  */
 
 import type { PrismaClient } from '@prisma/client'
 import { Prisma } from '@prisma/client'
 import { createLogger } from '../../lib/logger.js'
 import { audit } from '../../lib/audit.js'
+import { notify } from '../notifications/notify.js'
 
 const log = createLogger('app-health-runner')
 
 const TICK_MS = 30_000
 const RESULTS_PER_SERVICE = 20
+/** Per-provider ACTIVE deployments considered for a replicated service. */
+const MAX_BACKENDS_PER_PROVIDER = 10
 
 const DEFAULTS = {
   path: '/',
@@ -72,6 +79,8 @@ interface RunnerDeps {
  */
 export class ApplicationHealthRunner {
   private snapshots = new Map<string, ProbeSnapshot>()
+  /** Keyed by `backendHostKey(uri)`; only filled for replicated services. */
+  private backendSnapshots = new Map<string, ProbeSnapshot>()
   private inflight = new Map<string, AbortController>()
   private interval: ReturnType<typeof setInterval> | null = null
   private prisma: PrismaClient | null = null
@@ -121,6 +130,16 @@ export class ApplicationHealthRunner {
     return 'starting'
   }
 
+  /**
+   * Overall health of one backend of a replicated service, by URI. Returns
+   * 'unknown' for backends that have not been probed (or whose service has
+   * a single replica).
+   */
+  getBackendOverall(uri: string): ApplicationOverallHealth {
+    const snap = this.backendSnapshots.get(backendHostKey(uri))
+    return snap ? this.deriveOverall(snap.results) : 'unknown'
+  }
+
   /** Force a single probe immediately. Used by tests + smoke scripts. */
   async probeOnce(args: {
     serviceId: string
@@ -132,6 +151,19 @@ export class ApplicationHealthRunner {
     return result
   }
 
+  /**
+   * Probe a URI without recording the result against any service. Used by
+   * the blue-green cutover gate, which checks a candidate lease before it
+   * is routable — its results must not leak into the live deployment's
+   * timeline or trigger state-flip audits.
+   */
+  async probeDetached(args: {
+    uri: string
+    probe: HealthProbeConfig
+  }): Promise<ProbeResult> {
+    return this.runProbe(args.uri, this.normalize(args.probe))
+  }
+
   // ──────────────────────────────────────────────────────────────────
   // internals
   // ──────────────────────────────────────────────────────────────────
@@ -156,8 +188,16 @@ export class ApplicationHealthRunner {
           }
           const result = await this.runProbe(c.uri, probe)
           this.recordResult(c.serviceId, result, c.probe)
+          await Promise.all(
+            c.backendUris.map(async uri => {
+              const backendResult =
+                uri === c.uri ? result : await this.runProbe(uri, probe)
+              this.recordBackendResult(uri, backendResult)
+            })
+          )
         })
       )
+      this.pruneBackendSnapshots(now)
     } catch (err) {
       log.warn({ err }, 'Application health tick failed')
     } finally {
@@ -175,6 +215,7 @@ export class ApplicationHealthRunner {
     serviceId: string
     uri: string
     probe: HealthProbeConfig
+    backendUris: string[]
   }>> {
     // `Prisma.JsonNull` sentinel matches DB-NULL exactly; `NOT: { equals: JsonNull }`
     // returns services with a healthProbe configured.
@@ -187,6 +228,7 @@ export class ApplicationHealthRunner {
         sdlServiceName: true,
         containerPort: true,
         healthProbe: true,
+        replicas: true,
         ports: {
           select: { containerPort: true, publicPort: true },
           orderBy: { containerPort: 'asc' },
@@ -195,51 +237,59 @@ export class ApplicationHealthRunner {
         akashDeployments: {
           where: { status: 'ACTIVE' },
           orderBy: { createdAt: 'desc' },
-          take: 1,
+          take: MAX_BACKENDS_PER_PROVIDER,
           select: { serviceUrls: true },
         },
         phalaDeployments: {
           where: { status: 'ACTIVE' },
           orderBy: { createdAt: 'desc' },
-          take: 1,
+          take: MAX_BACKENDS_PER_PROVIDER,
           select: { appUrl: true },
         },
         spheronDeployments: {
           where: { status: 'ACTIVE' },
           orderBy: { createdAt: 'desc' },
-          take: 1,
+          take: MAX_BACKENDS_PER_PROVIDER,
           select: { ipAddress: true },
         },
       },
     })
 
-    const out: Array<{ serviceId: string; uri: string; probe: HealthProbeConfig }> = []
+    const out: Array<{
+      serviceId: string
+      uri: string
+      probe: HealthProbeConfig
+      backendUris: string[]
+    }> = []
     for (const svc of services) {
       const probe = this.coerceProbe(svc.healthProbe)
       if (!probe) continue
 
-      let uri: string | null = null
-      const akash = svc.akashDeployments[0]
-      if (akash) {
-        uri = pickProbeUri(akash.serviceUrls, svc.sdlServiceName, probe.port)
-      }
-      if (!uri) {
-        const phala = svc.phalaDeployments[0]
-        if (phala?.appUrl) uri = phala.appUrl
-      }
-      if (!uri) {
-        const spheron = svc.spheronDeployments[0]
-        if (spheron?.ipAddress) {
-          const port = probe.port
-            ?? svc.ports[0]?.publicPort
-            ?? svc.ports[0]?.containerPort
-            ?? svc.containerPort
-            ?? 80
-          uri = `${spheron.ipAddress}:${port}`
-        }
-      }
+      const spheronPort =
+        probe.port ??
+        svc.ports[0]?.publicPort ??
+        svc.ports[0]?.containerPort ??
+        svc.containerPort ??
+        80
+      const akashUris = svc.akashDeployments.map(d =>
+        pickProbeUri(d.serviceUrls, svc.sdlServiceName, probe.port)
+      )
+      const phalaUris = svc.phalaDeployments.map(d => d.appUrl)
+      const spheronUris = svc.spheronDeployments.map(d =>
+        d.ipAddress ? `${d.ipAddress}:${spheronPort}` : null
+      )
+
+      // Primary URI keeps the single-backend precedence: newest Akash, then
+      // Phala, then Spheron.
+      const uri = akashUris[0] || phalaUris[0] || spheronUris[0] || null
       if (!uri) continue
-      out.push({ serviceId: svc.id, uri, probe })
+      const backendUris =
+        svc.replicas > 1
+          ? [...akashUris, ...phalaUris, ...spheronUris].filter(
+              (u): u is string => !!u
+            )
+          : []
+      out.push({ serviceId: svc.id, uri, probe, backendUris })
     }
     return out
   }
@@ -318,6 +368,44 @@ export class ApplicationHealthRunner {
           },
         },
       })
+      notify(this.prisma, {
+        event: 'health.changed',
+        severity: newOverall === 'healthy' ? 'info' : 'critical',
+        title:
+          newOverall === 'healthy'
+            ? 'Health check recovered'
+            : `Health check ${newOverall}`,
+        message:
+          newOverall === 'healthy'
+            ? `${probe.path} is passing again.`
+            : `${probe.path} is failing: ${result.error ?? `HTTP ${result.statusCode ?? '?'}`}`,
+        serviceId,
+        data: { from: previousOverall, to: newOverall },
+      })
+    }
+  }
+
+  private recordBackendResult(uri: string, result: ProbeResult): void {
+    const key = backendHostKey(uri)
+    const existing = this.backendSnapshots.get(key)
+    this.backendSnapshots.set(key, {
+      results: [...(existing?.results ?? []), result].slice(
+        -RESULTS_PER_SERVICE
+      ),
+      lastChecked: result.timestamp,
+    })
+  }
+
+  /**
+   * Drop backends that have not been probed for two max intervals — their
+   * deployment is gone or the service went back to a single replica.
+   */
+  private pruneBackendSnapshots(now: number): void {
+    const cutoff = now - 2 * MAX_INTERVAL_SEC * 1000
+    for (const [key, snap] of this.backendSnapshots) {
+      if (!snap.lastChecked || snap.lastChecked.getTime() < cutoff) {
+        this.backendSnapshots.delete(key)
+      }
     }
   }
 
@@ -329,7 +417,11 @@ export class ApplicationHealthRunner {
     return 'starting'
   }
 
-  private coerceProbe(raw: unknown): HealthProbeConfig | null {
+  /**
+   * Validate a raw `Service.healthProbe` JSON value. Public so the cutover
+   * gate applies exactly the same rules as the scheduled probes.
+   */
+  coerceProbe(raw: unknown): HealthProbeConfig | null {
     if (!raw || typeof raw !== 'object') return null
     const obj = raw as Record<string, unknown>
     const path = typeof obj.path === 'string' ? obj.path : DEFAULTS.path
@@ -386,6 +478,21 @@ export function pickProbeUri(
   return null
 }
 
+/**
+ * Identity of a backend across the runner and the proxy. Hostname only:
+ * the proxy and the probe may address the same backend on different ports
+ * (probe `port` override), and distinct deployments never share a host.
+ */
+export function backendHostKey(uri: string): string {
+  try {
+    return new URL(
+      uri.includes('://') ? uri : `http://${uri}`
+    ).hostname.toLowerCase()
+  } catch {
+    return uri.toLowerCase()
+  }
+}
+
 function applyPortOverride(uri: string, port?: number): string | null {
   if (!port) return uri
   // Forwarded-port form: "host:port" (no scheme)
@@ -0,0 +1,224 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import type { LogStream } from '../providers/types.js'
+import {
+  decideAdmission,
+  type AdmissionSettings,
+} from '../observability/ingestionLimits.js'
+import {
+  ContainerLogCollector,
+  inferSeverity,
+  type CollectorTarget,
+} from './containerLogCollector.js'
+
+function fakeStream() {
+  const handlers: {
+    line?: (line: string) => void
+    close?: (code: number | null) => void
+  } = {}
+  const stream: LogStream = {
+    onLine: cb => (handlers.line = cb),
+    onError: () => {},
+    onClose: cb => (handlers.close = cb),
+    close: vi.fn(),
+  }
+  return { stream, handlers }
+}
+
+const now = new Date('2026-06-01T12:00:00Z')
+
+function target(overrides: Partial<CollectorTarget> = {}): CollectorTarget {
+  return {
+    deploymentId: 'dep-1',
+    provider: 'akash',
+    startedAt: new Date('2026-06-01T11:58:00Z'),
+    serviceId: 'svc-1',
+    serviceName: 'web',
+    projectId: 'proj-1',
+    projectSlug: 'shop',
+    ...overrides,
+  }
+}
+
+function setup(
+  targets: CollectorTarget[],
+  settings: AdmissionSettings | null = null,
+  bytesThisHour = BigInt(0)
+) {
+  const streamLogs = vi.fn()
+  const provider = {
+    getCapabilities: () => ({ supportsLogStreaming: true }),
+    streamLogs,
+  }
+  const insertLogs = vi.fn().mockResolvedValue(undefined)
+  const loadTargets = vi.fn().mockResolvedValue(targets)
+  const ingestion = {
+    getAdmission: vi.fn(async (projectId: string) =>
+      decideAdmission(projectId, settings, bytesThisHour)
+    ),
+    recordIngestion: vi.fn(),
+  }
+  const collector = new ContainerLogCollector({} as any, {
+    resolveProvider: (() => provider) as any,
+    sink: { insertLogs },
+    ingestion,
+    loadTargets,
+  })
+  return { collector, streamLogs, insertLogs, loadTargets, ingestion }
+}
+
+const limits = (overrides: Partial<AdmissionSettings>): AdmissionSettings => ({
+  tracesEnabled: true,
+  metricsEnabled: true,
+  logsEnabled: true,
+  sampleRate: 1,
+  maxBytesPerHour: null,
+  ...overrides,
+})
+
+describe('inferSeverity', () => {
+  it('reads JSON levels and leading level words', () => {
+    expect(inferSeverity('{"level":"warn","msg":"slow"}')).toEqual({
+      severityText: 'WARN',
+      severityNumber: 13,
+    })
+    expect(inferSeverity('2026-06-01 ERROR connection refused')).toEqual({
+      severityText: 'ERROR',
+      severityNumber: 17,
+    })
+    expect(inferSeverity('listening on :8080')).toEqual({
+      severityText: '',
+      severityNumber: 0,
+    })
+  })
+})
+
+describe('ContainerLogCollector', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it('tails new deployments and writes their lines with attributes', async () => {
+    const { collector, streamLogs, insertLogs } = setup([target()])
+    const { stream, handlers } = fakeStream()
+    streamLogs.mockResolvedValue(stream)
+
+    await collector.reconcile(now)
+    expect(streamLogs).toHaveBeenCalledWith('dep-1', { tail: 500 })
+
+    handlers.line?.('INFO booted')
+    handlers.line?.('INFO ready')
+    await collector.flush()
+
+    const rows = insertLogs.mock.calls[0][0]
+    expect(rows).toHaveLength(2)
+    expect(rows[0]).toMatchObject({
+      body: 'INFO booted',
+      severityNumber: 9,
+      projectId: 'proj-1',
+      projectSlug: 'shop',
+      resourceAttributes: {
+        'service.name': 'web',
+        'af.deployment.id': 'dep-1',
+        'af.provider': 'akash',
+      },
+    })
+    expect(rows[1].timestamp > rows[0].timestamp).toBe(true)
+  })
+
+  it('records the kept volume for billing and telemetryUsage', async () => {
+    const { collector, streamLogs, ingestion } = setup([target()])
+    const { stream, handlers } = fakeStream()
+    streamLogs.mockResolvedValue(stream)
+
+    await collector.reconcile(now)
+    handlers.line?.('INFO booted')
+    await collector.flush()
+
+    expect(ingestion.recordIngestion).toHaveBeenCalledWith({
+      projectId: 'proj-1',
+      projectSlug: 'shop',
+      logsCount: 1,
+      bytesEstimate: 11,
+      logsDropped: 0,
+      bytesDropped: 0,
+    })
+  })
+
+  it('drops lines when logs are off or the hourly cap is reached', async () => {
+    for (const [settings, bytes] of [
+      [limits({ logsEnabled: false }), BigInt(0)],
+      [limits({ maxBytesPerHour: BigInt(1000) }), BigInt(1000)],
+    ] as const) {
+      const { collector, streamLogs, insertLogs, ingestion } = setup(
+        [target()],
+        settings,
+        bytes
+      )
+      const { stream, handlers } = fakeStream()
+      streamLogs.mockResolvedValue(stream)
+
+      await collector.reconcile(now)
+      handlers.line?.('INFO booted')
+      await collector.flush()
+
+      expect(insertLogs).not.toHaveBeenCalled()
+      expect(ingestion.recordIngestion).toHaveBeenCalledWith(
+        expect.objectContaining({ logsCount: 0, logsDropped: 1 })
+      )
+    }
+  })
+
+  it('keeps lines at the project sample rate', async () => {
+    const { collector, streamLogs, insertLogs } = setup(
+      [target()],
+      limits({ sampleRate: 0.5 })
+    )
+    const { stream, handlers } = fakeStream()
+    streamLogs.mockResolvedValue(stream)
+    vi.spyOn(Math, 'random').mockReturnValueOnce(0.2).mockReturnValueOnce(0.7)
+
+    await collector.reconcile(now)
+    handlers.line?.('INFO kept')
+    handlers.line?.('INFO sampled out')
+    await collector.flush()
+
+    expect(insertLogs.mock.calls[0][0].map((r: any) => r.body)).toEqual([
+      'INFO kept',
+    ])
+  })
+
+  it('waits to open a stream until the project admission loads', async () => {
+    const { collector, streamLogs, ingestion } = setup([target()])
+    ingestion.getAdmission.mockRejectedValueOnce(new Error('db down'))
+
+    await collector.reconcile(now)
+
+    expect(streamLogs).not.toHaveBeenCalled()
+  })
+
+  it('closes gone deployments and reopens ended streams without a tail', async () => {
+    vi.useFakeTimers({ now })
+    const { collector, streamLogs, loadTargets } = setup([target()])
+    const first = fakeStream()
+    const second = fakeStream()
+    streamLogs
+      .mockResolvedValueOnce(first.stream)
+      .mockResolvedValueOnce(second.stream)
+
+    await collector.reconcile(now)
+    first.handlers.close?.(1)
+    expect(collector.openStreams).toBe(0)
+
+    // Backoff: not reopened on the next pass, but after a minute
+    await collector.reconcile(now)
+    expect(streamLogs).toHaveBeenCalledTimes(1)
+    await collector.reconcile(new Date(now.getTime() + 10 * 60_000))
+    expect(streamLogs).toHaveBeenLastCalledWith('dep-1', { tail: 1 })
+
+    loadTargets.mockResolvedValue([])
+    await collector.reconcile(now)
+    expect(second.stream.close).toHaveBeenCalled()
+    expect(collector.openStreams).toBe(0)
+  })
+})
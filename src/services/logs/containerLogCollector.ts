@@ -0,0 +1,489 @@
+/**
+ * Container log collector.
+ *
+ * `serviceLogs` and the SSE log stream read from the provider live, so a
+ * lease that closes or crashes takes its output with it. For projects that
+ * opt in (ObservabilitySettings.containerLogsEnabled) this tails every
+ * ACTIVE deployment through the provider's LogStream and writes each line
+ * to the ClickHouse logs table, where `logs` and `searchLogs` find it long
+ * after a failover.
+ *
+ * Runs on the leader only (`runWithLeadership('container-log-collector')`
+ * in index.ts) so each line is written once. Every minute the open streams
+ * are reconciled against the ACTIVE deployments: new ones are opened, gone
+ * ones closed, and streams that ended are reopened with backoff. Only a
+ * deployment that just started is opened with a tail — reopening a
+ * long-running one would write its backlog twice. Phala has no log stream
+ * (supportsLogStreaming: false), so its deployments aren't collected.
+ *
+ * Lines go through the project's ingestion admission like collector
+ * telemetry (see observability/ingestionLimits.ts): the logs switch,
+ * `sampleRate` and `maxBytesPerHour` apply before a line is buffered, and
+ * the kept and dropped volume is recorded for billing and telemetryUsage.
+ * A stream is only opened once its project's admission is known.
+ */
+
+import { setInterval, clearInterval } from 'node:timers'
+import type { PrismaClient } from '@prisma/client'
+import { createLogger } from '../../lib/logger.js'
+import { getProvider } from '../providers/registry.js'
+import type { LogStream } from '../providers/types.js'
+import {
+  getClickHouseClient,
+  type ClickHouseObservabilityClient,
+  type LogRecord,
+} from '../observability/clickhouseClient.js'
+import type { ProjectAdmission } from '../observability/ingestionLimits.js'
+import {
+  getTelemetryIngestionService,
+  type TelemetryIngestionService,
+} from '../observability/telemetryIngestionService.js'
+
+const log = createLogger('container-log-collector')
+
+const RECONCILE_INTERVAL_MS = 60_000
+const FLUSH_INTERVAL_MS = 5_000
+/** Flush early past this many buffered lines; drop lines past 4x. */
+const FLUSH_BATCH_LINES = 5_000
+const MAX_LINE_LENGTH = 16 * 1024
+const STARTUP_WINDOW_MS = 10 * 60_000
+const STARTUP_TAIL = 500
+/**
+ * Not 0: the Akash provider drops `--tail` for 0, leaving lease-logs at its
+ * default. One repeated line per reopen is the cost.
+ */
+const REOPEN_TAIL = 1
+const MAX_BACKOFF_MS = 15 * 60_000
+/** A stream that stayed open this long resets its backoff. */
+const HEALTHY_STREAM_MS = 5 * 60_000
+const DEFAULT_MAX_STREAMS = 200
+
+export interface CollectorTarget {
+  deploymentId: string
+  provider: 'akash' | 'spheron'
+  startedAt: Date
+  serviceId: string
+  serviceName: string
+  projectId: string
+  projectSlug: string
+}
+
+export type LogSink = Pick<ClickHouseObservabilityClient, 'insertLogs'>
+export type IngestionLedger = Pick<
+  TelemetryIngestionService,
+  'getAdmission' | 'recordIngestion'
+>
+
+interface ProjectVolume {
+  projectSlug: string
+  kept: number
+  keptBytes: number
+  dropped: number
+  droppedBytes: number
+}
+
+/**
+ * Test-only injection seam, like LogStreamEndpointDeps. NEVER pass from
+ * production code.
+ */
+export interface ContainerLogCollectorDeps {
+  resolveProvider?: typeof getProvider
+  sink?: LogSink
+  ingestion?: IngestionLedger
+  loadTargets?: typeof loadCollectorTargets
+}
+
+const LEVEL =
+  /\b(fatal|panic|critical|crit|error|err|warn|warning|info|debug|trace)\b/i
+const JSON_LEVEL = /"(?:level|severity|lvl)"\s*:\s*"(\w+)"/i
+
+const SEVERITY: Record<string, [string, number]> = {
+  trace: ['TRACE', 1],
+  debug: ['DEBUG', 5],
+  info: ['INFO', 9],
+  warn: ['WARN', 13],
+  warning: ['WARN', 13],
+  err: ['ERROR', 17],
+  error: ['ERROR', 17],
+  crit: ['FATAL', 21],
+  critical: ['FATAL', 21],
+  panic: ['FATAL', 21],
+  fatal: ['FATAL', 21],
+}
+
+/**
+ * Best-effort severity for a raw container line: a JSON `level` field, or
+ * a level word near the start of the line. Unknown is OTel's 0.
+ */
+export function inferSeverity(line: string): {
+  severityText: string
+  severityNumber: number
+} {
+  const word = (JSON_LEVEL.exec(line) ?? LEVEL.exec(line.slice(0, 64)))?.[1]
+  const known = word ? SEVERITY[word.toLowerCase()] : undefined
+  return known
+    ? { severityText: known[0], severityNumber: known[1] }
+    : { severityText: '', severityNumber: 0 }
+}
+
+/** ACTIVE Akash and Spheron deployments of opted-in projects. */
+export async function loadCollectorTargets(
+  prisma: PrismaClient
+): Promise<CollectorTarget[]> {
+  const where = {
+    status: 'ACTIVE' as const,
+    service: {
+      project: {
+        observabilitySettings: { is: { containerLogsEnabled: true } },
+      },
+    },
+  }
+  const service = {
+    select: {
+      id: true,
+      slug: true,
+      sdlServiceName: true,
+      project: { select: { id: true, slug: true } },
+    },
+  }
+  const [akash, spheron] = await Promise.all([
+    prisma.akashDeployment.findMany({
+      where,
+      select: { id: true, createdAt: true, deployedAt: true, service },
+    }),
+    prisma.spheronDeployment.findMany({
+      where,
+      select: { id: true, createdAt: true, service },
+    }),
+  ])
+
+  const target = (
+    provider: CollectorTarget['provider'],
+    id: string,
+    startedAt: Date,
+    s: (typeof akash)[number]['service']
+  ): CollectorTarget => ({
+    deploymentId: id,
+    provider,
+    startedAt,
+    serviceId: s.id,
+    serviceName: s.sdlServiceName || s.slug,
+    projectId: s.project.id,
+    projectSlug: s.project.slug,
+  })
+  return [
+    ...akash.map(d =>
+      target('akash', d.id, d.deployedAt ?? d.createdAt, d.service)
+    ),
+    ...spheron.map(d => target('spheron', d.id, d.createdAt, d.service)),
+  ]
+}
+
+export class ContainerLogCollector {
+  private readonly prisma: PrismaClient
+  private readonly deps: Required<ContainerLogCollectorDeps>
+  private readonly maxStreams: number
+  private streams = new Map<
+    string,
+    { target: CollectorTarget; stream: LogStream; openedAt: number }
+  >()
+  private retries = new Map<string, { failures: number; retryAt: number }>()
+  /** Deployments opened before in this process: reopen without a tail. */
+  private opened = new Set<string>()
+  private buffer: LogRecord[] = []
+  private dropped = 0
+  private admissions = new Map<string, ProjectAdmission>()
+  private volume = new Map<string, ProjectVolume>()
+  private lastNs = BigInt(0)
+  private reconcileTimer: NodeJS.Timeout | null = null
+  private flushTimer: NodeJS.Timeout | null = null
+  private reconciling = false
+  private flushing: Promise<void> | null = null
+
+  constructor(prisma: PrismaClient, deps: ContainerLogCollectorDeps = {}) {
+    this.prisma = prisma
+    this.deps = {
+      resolveProvider: deps.resolveProvider ?? getProvider,
+      sink: deps.sink ?? {
+        insertLogs: records => getClickHouseClient().insertLogs(records),
+      },
+      ingestion: deps.ingestion ?? getTelemetryIngestionService(prisma),
+      loadTargets: deps.loadTargets ?? loadCollectorTargets,
+    }
+    this.maxStreams =
+      Number(process.env.CONTAINER_LOG_COLLECTOR_MAX_STREAMS) ||
+      DEFAULT_MAX_STREAMS
+  }
+
+  start() {
+    if (this.reconcileTimer) {
+      log.info('Already running')
+      return
+    }
+
+    this.reconcileTimer = setInterval(() => {
+      void this.reconcile()
+    }, RECONCILE_INTERVAL_MS)
+    this.flushTimer = setInterval(() => {
+      void this.flush()
+    }, FLUSH_INTERVAL_MS)
+    void this.reconcile()
+
+    log.info(
+      `Started — tails up to ${this.maxStreams} deployments, reconciled every minute`
+    )
+  }
+
+  async stop() {
+    if (!this.reconcileTimer) return
+    clearInterval(this.reconcileTimer)
+    if (this.flushTimer) clearInterval(this.flushTimer)
+    this.reconcileTimer = null
+    this.flushTimer = null
+    for (const id of Array.from(this.streams.keys())) {
+      this.closeStream(id)
+    }
+    await this.flush()
+    log.info('Stopped')
+  }
+
+  get openStreams(): number {
+    return this.streams.size
+  }
+
+  async reconcile(now = new Date()) {
+    if (this.reconciling) return
+    this.reconciling = true
+    try {
+      const targets = await this.deps.loadTargets(this.prisma)
+      const wanted = new Set(targets.map(t => t.deploymentId))
+
+      for (const id of Array.from(this.streams.keys())) {
+        if (!wanted.has(id)) this.closeStream(id)
+      }
+      for (const id of Array.from(this.retries.keys())) {
+        if (!wanted.has(id)) this.retries.delete(id)
+      }
+      for (const id of Array.from(this.opened)) {
+        if (!wanted.has(id)) this.opened.delete(id)
+      }
+      const projects = new Set(targets.map(t => t.projectId))
+      for (const projectId of Array.from(this.admissions.keys())) {
+        if (!projects.has(projectId)) this.admissions.delete(projectId)
+      }
+
+      for (const target of targets) {
+        if (this.streams.has(target.deploymentId)) continue
+        if (this.streams.size >= this.maxStreams) {
+          log.warn(
+            { wanted: targets.length, max: this.maxStreams },
+            'Stream limit reached — some deployments are not collected'
+          )
+          break
+        }
+        const retry = this.retries.get(target.deploymentId)
+        if (retry && retry.retryAt > now.getTime()) continue
+        await this.open(target, now)
+      }
+    } catch (err) {
+      log.error({ err }, 'Reconcile failed')
+    } finally {
+      this.reconciling = false
+    }
+  }
+
+  private async open(target: CollectorTarget, now: Date) {
+    const provider = this.deps.resolveProvider(target.provider)
+    if (
+      !provider.getCapabilities().supportsLogStreaming ||
+      !provider.streamLogs
+    ) {
+      return
+    }
+
+    const { deploymentId } = target
+    if (!(await this.refreshAdmission(target.projectId))) {
+      this.backoff(deploymentId, now.getTime())
+      return
+    }
+    const fresh =
+      !this.opened.has(deploymentId) &&
+      now.getTime() - target.startedAt.getTime() < STARTUP_WINDOW_MS
+    let stream: LogStream
+    try {
+      stream = await provider.streamLogs(deploymentId, {
+        tail: fresh ? STARTUP_TAIL : REOPEN_TAIL,
+      })
+    } catch (err) {
+      this.backoff(deploymentId, now.getTime())
+      log.warn({ err, deploymentId }, 'Failed to open log stream')
+      return
+    }
+
+    this.opened.add(deploymentId)
+    const openedAt = now.getTime()
+    this.streams.set(deploymentId, { target, stream, openedAt })
+    stream.onLine(line => this.record(target, line))
+    stream.onError(err => {
+      log.warn({ err, deploymentId }, 'Log stream error')
+    })
+    stream.onClose(code => {
+      if (this.streams.get(deploymentId)?.stream !== stream) return
+      this.streams.delete(deploymentId)
+      const closedAt = Date.now()
+      if (closedAt - openedAt >= HEALTHY_STREAM_MS) {
+        this.retries.delete(deploymentId)
+      } else {
+        this.backoff(deploymentId, closedAt)
+      }
+      log.info({ deploymentId, code }, 'Log stream ended')
+    })
+  }
+
+  private closeStream(deploymentId: string) {
+    const open = this.streams.get(deploymentId)
+    if (!open) return
+    this.streams.delete(deploymentId)
+    try {
+      open.stream.close()
+    } catch (err) {
+      log.warn({ err, deploymentId }, 'stream.close() threw')
+    }
+  }
+
+  /** Reload a project's admission; false while it has never loaded. */
+  private async refreshAdmission(projectId: string): Promise<boolean> {
+    try {
+      this.admissions.set(
+        projectId,
+        await this.deps.ingestion.getAdmission(projectId)
+      )
+    } catch (err) {
+      log.warn({ err, projectId }, 'Failed to load ingestion admission')
+    }
+    return this.admissions.has(projectId)
+  }
+
+  private backoff(deploymentId: string, at: number) {
+    const failures = (this.retries.get(deploymentId)?.failures ?? 0) + 1
+    const delay = Math.min(
+      RECONCILE_INTERVAL_MS * 2 ** (failures - 1),
+      MAX_BACKOFF_MS
+    )
+    this.retries.set(deploymentId, { failures, retryAt: at + delay })
+  }
+
+  /**
+   * Lines get the time they arrived, nudged forward a nanosecond at a time
+   * so lines of one burst keep their order in the store.
+   */
+  private timestamp(): string {
+    const ns = BigInt(Date.now()) * BigInt(1_000_000)
+    this.lastNs = ns > this.lastNs ? ns : this.lastNs + BigInt(1)
+    const ms = Number(this.lastNs / BigInt(1_000_000))
+    const fraction = String(this.lastNs % BigInt(1_000_000_000)).padStart(
+      9,
+      '0'
+    )
+    return `${new Date(ms).toISOString().slice(0, 19)}.${fraction}Z`
+  }
+
+  private record(target: CollectorTarget, line: string) {
+    if (!line) return
+    const body =
+      line.length > MAX_LINE_LENGTH ? line.slice(0, MAX_LINE_LENGTH) : line
+    const bytes = Buffer.byteLength(body)
+    const logs = this.admissions.get(target.projectId)?.logs
+    if (!logs?.accept || Math.random() >= logs.sampleRate) {
+      this.count(target, false, bytes)
+      return
+    }
+    if (this.buffer.length >= FLUSH_BATCH_LINES * 4) {
+      this.dropped++
+      this.count(target, false, bytes)
+      return
+    }
+    this.count(target, true, bytes)
+    this.buffer.push({
+      timestamp: this.timestamp(),
+      ...inferSeverity(body),
+      body,
+      resourceAttributes: {
+        'service.name': target.serviceName,
+        'af.service.id': target.serviceId,
+        'af.deployment.id': target.deploymentId,
+        'af.provider': target.provider,
+        'af.log.source': 'container',
+      },
+      projectId: target.projectId,
+      projectSlug: target.projectSlug,
+    })
+    if (this.buffer.length >= FLUSH_BATCH_LINES) void this.flush()
+  }
+
+  private count(target: CollectorTarget, kept: boolean, bytes: number) {
+    let v = this.volume.get(target.projectId)
+    if (!v) {
+      v = {
+        projectSlug: target.projectSlug,
+        kept: 0,
+        keptBytes: 0,
+        dropped: 0,
+        droppedBytes: 0,
+      }
+      this.volume.set(target.projectId, v)
+    }
+    if (kept) {
+      v.kept++
+      v.keptBytes += bytes
+    } else {
+      v.dropped++
+      v.droppedBytes += bytes
+    }
+  }
+
+  /**
+   * Write buffered lines, record the volume since the last flush, and
+   * reload the admission of every project still streaming so a reached
+   * cap or changed setting applies within a flush or two.
+   */
+  async flush(): Promise<void> {
+    if (this.flushing) return this.flushing
+
+    const batch = this.buffer
+    this.buffer = []
+    const dropped = this.dropped
+    this.dropped = 0
+    const volume = this.volume
+    this.volume = new Map()
+    this.flushing = (async () => {
+      try {
+        for (const [projectId, v] of volume) {
+          this.deps.ingestion.recordIngestion({
+            projectId,
+            projectSlug: v.projectSlug,
+            logsCount: v.kept,
+            bytesEstimate: v.keptBytes,
+            logsDropped: v.dropped,
+            bytesDropped: v.droppedBytes,
+          })
+        }
+        if (batch.length > 0) await this.deps.sink.insertLogs(batch)
+      } catch (err) {
+        log.error({ err, lines: batch.length }, 'Failed to write log lines')
+      } finally {
+        if (dropped > 0) {
+          log.warn({ dropped }, 'Dropped log lines while the store was behind')
+        }
+      }
+      const projects = new Set(
+        Array.from(this.streams.values(), open => open.target.projectId)
+      )
+      for (const projectId of projects) {
+        await this.refreshAdmission(projectId)
+      }
+      this.flushing = null
+    })()
+    return this.flushing
+  }
+}
@@ -81,19 +81,21 @@ export function getCorsHeaders(req: IncomingMessage): Record<string, string> {
 
 const log = createLogger('log-stream-endpoint')
 
-const MAX_STREAMS_PER_USER = 5
-const HEARTBEAT_INTERVAL_MS = 15_000
-const IDLE_TIMEOUT_MS = 30 * 60 * 1000
-const HARD_TIMEOUT_MS = 4 * 60 * 60 * 1000
-
-interface ActiveStream {
+// Shared with the build-log stream (github/buildLogStreamEndpoint.ts): both
+// kinds of stream count against the same per-user budget.
+export const MAX_STREAMS_PER_USER = 5
+export const HEARTBEAT_INTERVAL_MS = 15_000
+export const IDLE_TIMEOUT_MS = 30 * 60 * 1000
+export const HARD_TIMEOUT_MS = 4 * 60 * 60 * 1000
+
+export interface ActiveStream {
   res: ServerResponse
   cleanup: (reason: string) => void
 }
 
 const activeStreams = new Map<string, Set<ActiveStream>>()
 
-function trackStream(userId: string, entry: ActiveStream): void {
+export function trackStream(userId: string, entry: ActiveStream): void {
   let set = activeStreams.get(userId)
   if (!set) {
     set = new Set()
@@ -102,18 +104,18 @@ function trackStream(userId: string, entry: ActiveStream): void {
   set.add(entry)
 }
 
-function untrackStream(userId: string, entry: ActiveStream): void {
+export function untrackStream(userId: string, entry: ActiveStream): void {
   const set = activeStreams.get(userId)
   if (!set) return
   set.delete(entry)
   if (set.size === 0) activeStreams.delete(userId)
 }
 
-function streamCount(userId: string): number {
+export function streamCount(userId: string): number {
   return activeStreams.get(userId)?.size ?? 0
 }
 
-function writeSse(
+export function writeSse(
   res: ServerResponse,
   event: string | null,
   data: string
@@ -129,12 +131,12 @@ function writeSse(
   return res.write(frame)
 }
 
-function writeComment(res: ServerResponse, text: string): void {
+export function writeComment(res: ServerResponse, text: string): void {
   if (res.writableEnded) return
   res.write(`: ${text}\n\n`)
 }
 
-function endError(
+export function endError(
   req: IncomingMessage,
   res: ServerResponse,
   status: number,
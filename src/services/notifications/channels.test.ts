@@ -0,0 +1,149 @@
+import crypto from 'node:crypto'
+import { describe, expect, it } from 'vitest'
+import {
+  isPrivateAddress,
+  renderNotification,
+  validateChannelEvents,
+  validateChannelUrl,
+  type NotificationPayload,
+} from './channels.js'
+
+const payload: NotificationPayload = {
+  event: 'build.failed',
+  severity: 'critical',
+  title: 'Build failed',
+  message: 'npm ci exited with code 1',
+  occurredAt: '2026-05-24T10:00:00.000Z',
+  projectId: 'proj-1',
+  serviceId: 'svc-1',
+  serviceName: 'api',
+  deploymentId: null,
+  url: 'https://app.alternatefutures.ai/services/svc-1',
+  data: { buildJobId: 'build-1' },
+}
+
+describe('validateChannelUrl', () => {
+  it('only accepts the provider webhook hosts for Slack and Discord', () => {
+    expect(
+      validateChannelUrl('SLACK', 'https://hooks.slack.com/services/T0/B0/abcd')
+    ).toEqual({
+      allowed: true,
+      url: 'https://hooks.slack.com/services/T0/B0/abcd',
+      hint: 'hooks.slack.com/…abcd',
+    })
+    expect(
+      validateChannelUrl('SLACK', 'https://example.com/services/x').allowed
+    ).toBe(false)
+    expect(
+      validateChannelUrl('DISCORD', 'https://discord.com/api/webhooks/1/tok')
+        .allowed
+    ).toBe(true)
+    expect(
+      validateChannelUrl('DISCORD', 'https://hooks.slack.com/services/x')
+        .allowed
+    ).toBe(false)
+  })
+
+  it('keeps generic webhooks on public https hosts', () => {
+    expect(
+      validateChannelUrl('WEBHOOK', 'https://ops.example.com/hooks/af').allowed
+    ).toBe(true)
+    for (const url of [
+      'http://ops.example.com/hook',
+      'https://user:pw@ops.example.com/hook',
+      'https://localhost/hook',
+      'https://redis/hook',
+      'https://10.0.0.5/hook',
+      'https://169.254.169.254/latest',
+      'https://[::1]/hook',
+      'https://cloud-api.default.svc/hook',
+      'not a url',
+    ]) {
+      expect(validateChannelUrl('WEBHOOK', url).allowed).toBe(false)
+    }
+  })
+})
+
+describe('isPrivateAddress', () => {
+  it('flags resolved addresses outside public space', () => {
+    for (const ip of [
+      '10.1.2.3',
+      '172.20.0.1',
+      '::1',
+      'fd00::1',
+      '::ffff:127.0.0.1',
+    ]) {
+      expect(isPrivateAddress(ip)).toBe(true)
+    }
+    expect(isPrivateAddress('203.0.113.1')).toBe(false)
+    expect(isPrivateAddress('2606:4700::1111')).toBe(false)
+  })
+})
+
+describe('validateChannelEvents', () => {
+  it('treats a missing list as every event and rejects unknown names', () => {
+    expect(validateChannelEvents(undefined)).toEqual({
+      allowed: true,
+      events: [],
+    })
+    expect(
+      validateChannelEvents(['build.failed', 'build.failed', 'deploy.failed'])
+    ).toEqual({ allowed: true, events: ['build.failed', 'deploy.failed'] })
+    expect(validateChannelEvents(['deploy.started']).allowed).toBe(false)
+  })
+})
+
+describe('renderNotification', () => {
+  it('signs generic webhook bodies with the channel secret', () => {
+    const now = new Date('2026-05-24T10:00:05Z')
+    const { headers, body } = renderNotification(
+      { type: 'WEBHOOK', signingSecret: 'shh' },
+      'del-1',
+      payload,
+      now
+    )
+    expect(JSON.parse(body)).toMatchObject({
+      id: 'del-1',
+      event: 'build.failed',
+      serviceId: 'svc-1',
+    })
+    const timestamp = Math.floor(now.getTime() / 1000)
+    expect(headers['X-AF-Timestamp']).toBe(String(timestamp))
+    expect(headers['X-AF-Signature']).toBe(
+      'sha256=' +
+        crypto
+          .createHmac('sha256', 'shh')
+          .update(`${timestamp}.${body}`)
+          .digest('hex')
+    )
+  })
+
+  it('formats Slack and Discord messages without a signature', () => {
+    const slack = renderNotification(
+      { type: 'SLACK', signingSecret: null },
+      'del-1',
+      payload
+    )
+    expect(slack.headers['X-AF-Signature']).toBeUndefined()
+    expect(JSON.parse(slack.body).text).toContain(
+      '<https://app.alternatefutures.ai/services/svc-1|Build failed>'
+    )
+
+    const discord = JSON.parse(
+      renderNotification(
+        { type: 'DISCORD', signingSecret: null },
+        'del-1',
+        payload
+      ).body
+    )
+    expect(discord.embeds[0]).toMatchObject({
+      description: 'npm ci exited with code 1',
+      color: 0xdc2626,
+    })
+    expect(discord.embeds[0].fields).toContainEqual({
+      name: 'service',
+      value: 'api',
+      inline: true,
+    })
+  })
+})
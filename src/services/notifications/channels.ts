@@ -0,0 +1,321 @@
+/**
+ * Notification channels: which events a project subscribes to, where they
+ * go, and what each destination receives.
+ *
+ *   WEBHOOK  JSON body, signed: `X-AF-Signature: sha256=<hex>` is the
+ *            HMAC-SHA256 of `${X-AF-Timestamp}.${body}` under the
+ *            channel's signing secret
+ *   SLACK    incoming-webhook message (hooks.slack.com)
+ *   DISCORD  webhook embed (discord.com/api/webhooks)
+ */
+
+import crypto from 'node:crypto'
+import type { NotificationChannelType } from '@prisma/client'
+
+export const NOTIFICATION_EVENTS = [
+  'deploy.succeeded',
+  'deploy.failed',
+  'build.failed',
+  'failover.executed',
+  'health.changed',
+  'balance.low',
+  'policy.stopped',
+  'deploy.approval_requested',
+  'alert.firing',
+  'alert.resolved',
+] as const
+
+export type NotificationEvent = (typeof NOTIFICATION_EVENTS)[number]
+
+/** Event name of deliveries queued by `testNotificationChannel`. */
+export const TEST_EVENT = 'test'
+
+export type NotificationSeverity = 'info' | 'warning' | 'critical'
+
+/** What a delivery row stores; rendered per channel type at send time. */
+export type NotificationPayload = {
+  event: string
+  severity: NotificationSeverity
+  title: string
+  message: string
+  occurredAt: string
+  projectId: string
+  serviceId: string | null
+  serviceName: string | null
+  deploymentId: string | null
+  /** Dashboard link for the service, when there is one. */
+  url: string | null
+  data: Record<string, unknown>
+}
+
+export interface RenderedRequest {
+  headers: Record<string, string>
+  body: string
+}
+
+const MAX_URL_LENGTH = 2048
+
+const DISCORD_HOSTS = new Set([
+  'discord.com',
+  'discordapp.com',
+  'ptb.discord.com',
+  'canary.discord.com',
+])
+
+const COLORS: Record<NotificationSeverity, number> = {
+  info: 0x16a34a, // green-600
+  warning: 0xf59e0b, // amber-500
+  critical: 0xdc2626, // red-600
+}
+
+const EMOJI: Record<NotificationSeverity, string> = {
+  info: '✅',
+  warning: '⚠️',
+  critical: '🚨',
+}
+
+/**
+ * Hosts a user-supplied URL must not point at (cluster-internal, private,
+ * loopback, link-local or metadata). Single-label names (`redis`,
+ * `postgres`) resolve through the cluster's search domains, so they count
+ * as internal. Also used for self-hosted git bases. This only sees the
+ * name: `postJson` checks what it resolves to at send time.
+ */
+export function isPrivateHost(hostname: string): boolean {
+  const host = hostname.toLowerCase()
+  if (
+    host === 'localhost' ||
+    host.endsWith('.localhost') ||
+    host.endsWith('.local') ||
+    host.endsWith('.internal') ||
+    host.endsWith('.svc') ||
+    host.endsWith('.cluster.local')
+  ) {
+    return true
+  }
+  if (host.startsWith('[')) return isPrivateAddress(host.slice(1, -1))
+  if (/^\d+\.\d+\.\d+\.\d+$/.test(host)) return isPrivateAddress(host)
+  return !host.includes('.')
+}
+
+/** An IPv4 or IPv6 address (unbracketed) that isn't publicly routable. */
+export function isPrivateAddress(address: string): boolean {
+  const ip = address.toLowerCase()
+  const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/)
+  if (mapped) return isPrivateAddress(mapped[1])
+  const v4 = ip.match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)$/)
+  if (!v4) {
+    return (
+      ip === '::' ||
+      ip === '::1' ||
+      /^f[cd]/.test(ip) ||
+      ip.startsWith('fe80') ||
+      ip.startsWith('::ffff:')
+    )
+  }
+  const [a, b] = [Number(v4[1]), Number(v4[2])]
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    a >= 224
+  )
+}
+
+/**
+ * Check a destination URL for the channel type. Returns the canonical URL
+ * and a hint (host + last 4 characters) that is safe to show back.
+ */
+export function validateChannelUrl(
+  type: NotificationChannelType,
+  raw: unknown
+):
+  | { allowed: true; url: string; hint: string }
+  | { allowed: false; reason: string } {
+  if (typeof raw !== 'string' || raw.trim() === '') {
+    return { allowed: false, reason: 'url is required.' }
+  }
+  if (raw.length > MAX_URL_LENGTH) {
+    return {
+      allowed: false,
+      reason: `url must be at most ${MAX_URL_LENGTH} characters.`,
+    }
+  }
+  let url: URL
+  try {
+    url = new URL(raw.trim())
+  } catch {
+    return { allowed: false, reason: 'url must be a valid URL.' }
+  }
+  if (url.protocol !== 'https:' || url.username || url.password) {
+    return {
+      allowed: false,
+      reason: 'url must be an https URL without credentials.',
+    }
+  }
+  if (
+    type === 'SLACK' &&
+    (url.hostname !== 'hooks.slack.com' ||
+      !url.pathname.startsWith('/services/'))
+  ) {
+    return {
+      allowed: false,
+      reason:
+        'Slack channels need an incoming webhook URL (https://hooks.slack.com/services/…).',
+    }
+  }
+  if (
+    type === 'DISCORD' &&
+    (!DISCORD_HOSTS.has(url.hostname) ||
+      !url.pathname.startsWith('/api/webhooks/'))
+  ) {
+    return {
+      allowed: false,
+      reason:
+        'Discord channels need a webhook URL (https://discord.com/api/webhooks/…).',
+    }
+  }
+  if (type === 'WEBHOOK' && isPrivateHost(url.hostname)) {
+    return {
+      allowed: false,
+      reason: 'url must point at a public host.',
+    }
+  }
+  const tail = `${url.pathname}${url.search}`.slice(-4)
+  return { allowed: true, url: url.toString(), hint: `${url.host}/…${tail}` }
+}
+
+/** Check an event subscription list. Empty (or omitted) means every event. */
+export function validateChannelEvents(
+  raw: unknown
+): { allowed: true; events: string[] } | { allowed: false; reason: string } {
+  if (raw === undefined || raw === null) return { allowed: true, events: [] }
+  if (!Array.isArray(raw)) {
+    return { allowed: false, reason: 'events must be a list of event names.' }
+  }
+  const events = new Set<string>()
+  for (const e of raw) {
+    if (!NOTIFICATION_EVENTS.includes(e as NotificationEvent)) {
+      return {
+        allowed: false,
+        reason: `Unknown event "${String(e)}". Valid events: ${NOTIFICATION_EVENTS.join(', ')}.`,
+      }
+    }
+    events.add(e as string)
+  }
+  return { allowed: true, events: [...events] }
+}
+
+export function generateSigningSecret(): string {
+  return crypto.randomBytes(32).toString('hex')
+}
+
+export function signWebhookBody(
+  secret: string,
+  timestamp: number,
+  body: string
+): string {
+  const mac = crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex')
+  return `sha256=${mac}`
+}
+
+function fieldValue(value: unknown): string {
+  const text = typeof value === 'string' ? value : String(JSON.stringify(value))
+  return text.slice(0, 500)
+}
+
+function fieldsOf(payload: NotificationPayload): [string, string][] {
+  const fields: [string, string][] = []
+  if (payload.serviceName) fields.push(['service', payload.serviceName])
+  for (const [name, value] of Object.entries(payload.data).slice(0, 8)) {
+    if (value === null || value === undefined) continue
+    fields.push([name, fieldValue(value)])
+  }
+  return fields
+}
+
+/** Headers and body for one delivery attempt. */
+export function renderNotification(
+  channel: { type: NotificationChannelType; signingSecret: string | null },
+  deliveryId: string,
+  payload: NotificationPayload,
+  now = new Date()
+): RenderedRequest {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'User-Agent': 'AlternateFutures-Notifications/1.0',
+  }
+  const fields = fieldsOf(payload)
+  const message =
+    payload.message.length > 2000
+      ? payload.message.slice(0, 1997) + '...'
+      : payload.message
+
+  if (channel.type === 'SLACK') {
+    const title = payload.url
+      ? `<${payload.url}|${payload.title}>`
+      : payload.title
+    return {
+      headers,
+      body: JSON.stringify({
+        text: `${EMOJI[payload.severity]} *${title}*\n${message}`,
+        attachments: [
+          {
+            color: `#${COLORS[payload.severity].toString(16).padStart(6, '0')}`,
+            fields: fields.map(([t, value]) => ({
+              title: t,
+              value,
+              short: value.length < 40,
+            })),
+            footer: `AlternateFutures · ${payload.event}`,
+            ts: Math.floor(new Date(payload.occurredAt).getTime() / 1000),
+          },
+        ],
+      }),
+    }
+  }
+
+  if (channel.type === 'DISCORD') {
+    return {
+      headers,
+      body: JSON.stringify({
+        embeds: [
+          {
+            title: `${EMOJI[payload.severity]} ${payload.title}`.slice(0, 256),
+            description: message,
+            url: payload.url ?? undefined,
+            color: COLORS[payload.severity],
+            fields: fields.map(([name, value]) => ({
+              name,
+              value,
+              inline: value.length < 40,
+            })),
+            timestamp: payload.occurredAt,
+            footer: { text: `AlternateFutures · ${payload.event}` },
+          },
+        ],
+      }),
+    }
+  }
+
+  const body = JSON.stringify({ id: deliveryId, ...payload })
+  const timestamp = Math.floor(now.getTime() / 1000)
+  headers['X-AF-Event'] = payload.event
+  headers['X-AF-Delivery'] = deliveryId
+  headers['X-AF-Timestamp'] = String(timestamp)
+  if (channel.signingSecret) {
+    headers['X-AF-Signature'] = signWebhookBody(
+      channel.signingSecret,
+      timestamp,
+      body
+    )
+  }
+  return { headers, body }
+}
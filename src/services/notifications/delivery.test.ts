@@ -0,0 +1,139 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { PrismaClient } from '@prisma/client'
+import { lookup } from 'node:dns/promises'
+
+vi.mock('node:dns/promises', () => ({
+  lookup: vi.fn().mockResolvedValue([{ address: '203.0.113.1', family: 4 }]),
+}))
+
+vi.mock('../../lib/vault.js', () => ({
+  openSecret: (_purpose: string, sealed: string) =>
+    sealed.replace(/^sealed:/, ''),
+}))
+
+import { MAX_DELIVERY_ATTEMPTS, deliverNotification } from './delivery.js'
+
+const NOW = new Date('2026-05-24T10:00:00Z')
+
+function makePrisma(opts: { attempts?: number; claimed?: boolean } = {}) {
+  const delivery = {
+    id: 'del-1',
+    event: 'deploy.failed',
+    attempts: opts.attempts ?? 1,
+    payload: {
+      event: 'deploy.failed',
+      severity: 'critical',
+      title: 'Deployment failed',
+      message: 'boom',
+      occurredAt: NOW.toISOString(),
+      projectId: 'proj-1',
+      serviceId: null,
+      serviceName: null,
+      deploymentId: 'dep-1',
+      url: null,
+      data: {},
+    },
+    channel: {
+      id: 'ch-1',
+      type: 'WEBHOOK',
+      enabled: true,
+      sealedUrl: 'sealed:https://ops.example.com/hook',
+      signingSecret: 'secret',
+    },
+  }
+  const update = vi.fn(async ({ data }) => ({ ...delivery, ...data }))
+  const prisma = {
+    notificationDelivery: {
+      updateMany: vi.fn().mockResolvedValue({
+        count: opts.claimed === false ? 0 : 1,
+      }),
+      findUnique: vi.fn().mockResolvedValue(delivery),
+      update,
+    },
+  } as unknown as PrismaClient
+  return { prisma, update }
+}
+
+describe('deliverNotification', () => {
+  const originalFetch = global.fetch
+  let fetchMock: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    fetchMock = vi.fn()
+    global.fetch = fetchMock as unknown as typeof fetch
+  })
+
+  afterEach(() => {
+    global.fetch = originalFetch
+  })
+
+  it('posts to the unsealed URL and marks the row delivered', async () => {
+    fetchMock.mockResolvedValue({ ok: true, status: 204 })
+    const { prisma, update } = makePrisma()
+
+    const result = await deliverNotification(prisma, 'del-1', NOW)
+
+    expect(fetchMock.mock.calls[0][0]).toBe('https://ops.example.com/hook')
+    expect(fetchMock.mock.calls[0][1].headers['X-AF-Signature']).toMatch(
+      /^sha256=[0-9a-f]{64}$/
+    )
+    expect(result?.status).toBe('DELIVERED')
+    expect(update.mock.calls[0][0].data.responseStatus).toBe(204)
+  })
+
+  it('schedules a retry for server errors and network failures', async () => {
+    fetchMock.mockResolvedValue({
+      ok: false,
+      status: 503,
+      text: async () => 'unavailable',
+    })
+    const { prisma } = makePrisma({ attempts: 2 })
+
+    const result = await deliverNotification(prisma, 'del-1', NOW)
+
+    expect(result?.status).toBe('PENDING')
+    expect(result?.lastError).toBe('HTTP 503')
+    expect(result?.nextAttemptAt).toEqual(new Date(NOW.getTime() + 5 * 60_000))
+
+    fetchMock.mockRejectedValue(new Error('ECONNREFUSED'))
+    const last = makePrisma({ attempts: MAX_DELIVERY_ATTEMPTS })
+    const final = await deliverNotification(last.prisma, 'del-1', NOW)
+    expect(final?.status).toBe('FAILED')
+    expect(final?.nextAttemptAt).toBeNull()
+  })
+
+  it('fails at once when the destination rejects the request', async () => {
+    fetchMock.mockResolvedValue({
+      ok: false,
+      status: 404,
+      text: async () => 'no_service',
+    })
+    const { prisma } = makePrisma()
+
+    const result = await deliverNotification(prisma, 'del-1', NOW)
+
+    expect(result?.status).toBe('FAILED')
+    expect(result?.responseStatus).toBe(404)
+  })
+
+  it('refuses a public name that resolves to a private address', async () => {
+    vi.mocked(lookup).mockResolvedValueOnce([
+      { address: '203.0.113.1', family: 4 },
+      { address: '10.0.0.5', family: 4 },
+    ] as never)
+    const { prisma } = makePrisma()
+
+    const result = await deliverNotification(prisma, 'del-1', NOW)
+
+    expect(fetchMock).not.toHaveBeenCalled()
+    expect(result?.status).toBe('FAILED')
+    expect(result?.lastError).toBe('Destination resolves to a private address')
+  })
+
+  it('does nothing when another attempt holds the row', async () => {
+    const { prisma } = makePrisma({ claimed: false })
+
+    expect(await deliverNotification(prisma, 'del-1', NOW)).toBeNull()
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,257 @@
+/**
+ * Sending queued notifications.
+ *
+ * Every send goes through a `NotificationDelivery` row. A send first
+ * claims the row (bumps `attempts`, pushes `nextAttemptAt` out by the
+ * claim window) so the immediate attempt made by `notify()` and the
+ * scheduler's retry sweep never post the same attempt twice. Failures
+ * that can succeed later (network errors, timeouts, 408/429/5xx) are
+ * retried with backoff; anything else fails the delivery at once.
+ */
+
+import { lookup } from 'node:dns/promises'
+import type { NotificationDelivery, PrismaClient } from '@prisma/client'
+import { createLogger } from '../../lib/logger.js'
+import { openSecret } from '../../lib/vault.js'
+import {
+  TEST_EVENT,
+  isPrivateAddress,
+  isPrivateHost,
+  renderNotification,
+  type NotificationPayload,
+} from './channels.js'
+
+const log = createLogger('notification-delivery')
+
+/** Wait before retry N (1-based): 1m, 5m, 15m, 1h, 3h. */
+const RETRY_DELAYS_MS = [
+  60_000,
+  5 * 60_000,
+  15 * 60_000,
+  60 * 60_000,
+  3 * 60 * 60_000,
+]
+
+export const MAX_DELIVERY_ATTEMPTS = RETRY_DELAYS_MS.length + 1
+
+const CLAIM_MS = 2 * 60_000
+const REQUEST_TIMEOUT_MS = 10_000
+const SWEEP_BATCH = 100
+const RETENTION_DAYS = 30
+
+export interface PostResult {
+  ok: boolean
+  status: number | null
+  error: string | null
+  retryable: boolean
+}
+
+/**
+ * Why `url` must not be posted to, or null. The name is resolved here, at
+ * send time, so a public name later pointed at an internal address is
+ * still refused.
+ */
+async function refuseDestination(url: string): Promise<string | null> {
+  const { hostname } = new URL(url)
+  if (isPrivateHost(hostname)) return 'Destination is not a public host'
+  if (hostname.startsWith('[') || /^[\d.]+$/.test(hostname)) return null
+  const addresses = await lookup(hostname, { all: true })
+  return addresses.some(a => isPrivateAddress(a.address))
+    ? 'Destination resolves to a private address'
+    : null
+}
+
+/** POST a rendered body. Never throws; `retryable` says whether to try again. */
+export async function postJson(
+  url: string,
+  headers: Record<string, string>,
+  body: string
+): Promise<PostResult> {
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS)
+  try {
+    const refused = await refuseDestination(url)
+    if (refused) {
+      return { ok: false, status: null, error: refused, retryable: false }
+    }
+    const res = await fetch(url, {
+      method: 'POST',
+      headers,
+      body,
+      signal: controller.signal,
+      redirect: 'manual',
+    })
+    if (res.ok) {
+      return { ok: true, status: res.status, error: null, retryable: false }
+    }
+    // The receiver's body stays out of lastError, which the user sees.
+    await res.body?.cancel().catch(() => {})
+    return {
+      ok: false,
+      status: res.status,
+      error: `HTTP ${res.status}`,
+      retryable: res.status >= 500 || res.status === 408 || res.status === 429,
+    }
+  } catch (err) {
+    const e = err as Error
+    return {
+      ok: false,
+      status: null,
+      error:
+        e.name === 'AbortError'
+          ? `Timed out after ${REQUEST_TIMEOUT_MS / 1000}s`
+          : e.message || String(err),
+      retryable: true,
+    }
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+/**
+ * Make one attempt at a delivery. Returns the updated row, or null when
+ * the delivery isn't due (already delivered, failed, or claimed by
+ * another attempt).
+ */
+export async function deliverNotification(
+  prisma: PrismaClient,
+  deliveryId: string,
+  now = new Date()
+): Promise<NotificationDelivery | null> {
+  const claimed = await prisma.notificationDelivery.updateMany({
+    where: {
+      id: deliveryId,
+      status: 'PENDING',
+      OR: [{ nextAttemptAt: null }, { nextAttemptAt: { lte: now } }],
+    },
+    data: {
+      attempts: { increment: 1 },
+      nextAttemptAt: new Date(now.getTime() + CLAIM_MS),
+    },
+  })
+  if (claimed.count === 0) return null
+
+  const delivery = await prisma.notificationDelivery.findUnique({
+    where: { id: deliveryId },
+    include: { channel: true },
+  })
+  if (!delivery) return null
+  const { channel } = delivery
+
+  let result: PostResult
+  if (!channel.enabled && delivery.event !== TEST_EVENT) {
+    result = {
+      ok: false,
+      status: null,
+      error: 'Channel is disabled',
+      retryable: false,
+    }
+  } else {
+    let url: string | null = null
+    try {
+      url = openSecret('notification-channel', channel.sealedUrl)
+    } catch (err) {
+      log.error({ err, channelId: channel.id }, 'could not open channel URL')
+    }
+    if (url) {
+      const request = renderNotification(
+        channel,
+        delivery.id,
+        delivery.payload as unknown as NotificationPayload,
+        now
+      )
+      result = await postJson(url, request.headers, request.body)
+    } else {
+      result = {
+        ok: false,
+        status: null,
+        error: 'Channel URL could not be decrypted — update the channel',
+        retryable: false,
+      }
+    }
+  }
+
+  if (result.ok) {
+    return prisma.notificationDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: 'DELIVERED',
+        responseStatus: result.status,
+        lastError: null,
+        nextAttemptAt: null,
+        deliveredAt: new Date(),
+      },
+    })
+  }
+
+  const retry = result.retryable && delivery.attempts < MAX_DELIVERY_ATTEMPTS
+  if (!retry) {
+    log.warn(
+      {
+        deliveryId: delivery.id,
+        channelId: channel.id,
+        event: delivery.event,
+        attempts: delivery.attempts,
+        error: result.error,
+      },
+      'notification delivery failed'
+    )
+  }
+  return prisma.notificationDelivery.update({
+    where: { id: delivery.id },
+    data: {
+      status: retry ? 'PENDING' : 'FAILED',
+      responseStatus: result.status,
+      lastError: result.error?.slice(0, 1000) ?? null,
+      nextAttemptAt: retry
+        ? new Date(now.getTime() + RETRY_DELAYS_MS[delivery.attempts - 1])
+        : null,
+    },
+  })
+}
+
+export interface DeliverySweepStats {
+  attempted: number
+  delivered: number
+  failed: number
+  pruned: number
+}
+
+/** Retry every due delivery, then drop finished rows past retention. */
+export async function processDueDeliveries(
+  prisma: PrismaClient,
+  now = new Date()
+): Promise<DeliverySweepStats> {
+  const stats: DeliverySweepStats = {
+    attempted: 0,
+    delivered: 0,
+    failed: 0,
+    pruned: 0,
+  }
+  const due = await prisma.notificationDelivery.findMany({
+    where: { status: 'PENDING', nextAttemptAt: { lte: now } },
+    select: { id: true },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: SWEEP_BATCH,
+  })
+  for (const { id } of due) {
+    try {
+      const updated = await deliverNotification(prisma, id, now)
+      if (!updated) continue
+      stats.attempted++
+      if (updated.status === 'DELIVERED') stats.delivered++
+      if (updated.status === 'FAILED') stats.failed++
+    } catch (err) {
+      log.error({ err, deliveryId: id }, 'notification retry threw')
+    }
+  }
+
+  const pruned = await prisma.notificationDelivery.deleteMany({
+    where: {
+      status: { in: ['DELIVERED', 'FAILED'] },
+      createdAt: { lt: new Date(now.getTime() - RETENTION_DAYS * 86_400_000) },
+    },
+  })
+  stats.pruned = pruned.count
+  return stats
+}
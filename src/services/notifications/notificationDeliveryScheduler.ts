@@ -0,0 +1,68 @@
+/**
+ * Notification Delivery Scheduler
+ *
+ * Every minute, retries notification deliveries whose backoff has
+ * elapsed (including any whose immediate attempt was lost to a restart)
+ * and prunes the delivery log. One pod only (leadership in `index.ts`).
+ */
+
+import * as cron from 'node-cron'
+import { randomUUID } from 'node:crypto'
+import type { PrismaClient } from '@prisma/client'
+import { createLogger } from '../../lib/logger.js'
+import { requestContext } from '../../lib/requestContext.js'
+import { processDueDeliveries } from './delivery.js'
+
+const log = createLogger('notification-delivery-scheduler')
+
+export class NotificationDeliveryScheduler {
+  private cronJob: cron.ScheduledTask | null = null
+  private running = false
+  private readonly prisma: PrismaClient
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma
+  }
+
+  start() {
+    if (this.cronJob) {
+      log.info('Already running')
+      return
+    }
+
+    this.cronJob = cron.schedule('* * * * *', async () => {
+      await this.runOnce()
+    })
+
+    log.info('Started — retries notification deliveries every minute')
+  }
+
+  stop() {
+    if (this.cronJob) {
+      this.cronJob.stop()
+      this.cronJob = null
+      log.info('Stopped')
+    }
+  }
+
+  async runOnce(now = new Date()) {
+    if (this.running) {
+      log.info('Previous delivery sweep still in progress — skipping tick')
+      return
+    }
+    this.running = true
+    const traceId = randomUUID()
+    try {
+      await requestContext.run({ requestId: traceId, traceId }, async () => {
+        const stats = await processDueDeliveries(this.prisma, now)
+        if (stats.attempted > 0 || stats.pruned > 0) {
+          log.info(stats, 'Notification delivery sweep complete')
+        }
+      })
+    } catch (err) {
+      log.error({ err }, 'Notification delivery sweep failed')
+    } finally {
+      this.running = false
+    }
+  }
+}
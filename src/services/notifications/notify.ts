@@ -0,0 +1,185 @@
+/**
+ * Fan platform events out to the notification channels of the project
+ * they concern.
+ *
+ * Callers name the event and whatever scope they have — a project, a
+ * service, a provider deployment, or (for billing) just an organization,
+ * which reaches every project in it. `notify()` is fire-and-forget like
+ * `audit()`: it never throws and never blocks the caller. Each matching
+ * channel gets a `NotificationDelivery` row and one immediate attempt;
+ * retries belong to the NotificationDeliveryScheduler.
+ */
+
+import type { Prisma, PrismaClient } from '@prisma/client'
+import { createLogger } from '../../lib/logger.js'
+import {
+  deploymentEvents,
+  type DeploymentStatusEvent,
+} from '../events/deploymentEvents.js'
+import { findDeploymentOwner } from '../events/deploymentOwner.js'
+import type {
+  NotificationEvent,
+  NotificationPayload,
+  NotificationSeverity,
+} from './channels.js'
+import { deliverNotification } from './delivery.js'
+
+const log = createLogger('notifications')
+
+export interface NotificationInput {
+  event: NotificationEvent
+  title: string
+  message: string
+  /** Defaults to 'info'. */
+  severity?: NotificationSeverity
+  projectId?: string | null
+  serviceId?: string | null
+  /** Akash, Phala or Spheron deployment row id. */
+  deploymentId?: string | null
+  /** Only used when nothing narrower is known (e.g. low balance). */
+  organizationId?: string | null
+  /**
+   * Queue at most one delivery per channel for this key, so a cron that
+   * sees the same condition every tick notifies once.
+   */
+  dedupeKey?: string
+  data?: Record<string, unknown>
+}
+
+interface ResolvedScope {
+  projectId: string | null
+  organizationId: string | null
+  service: { id: string; name: string } | null
+}
+
+async function resolveScope(
+  prisma: PrismaClient,
+  input: NotificationInput
+): Promise<ResolvedScope> {
+  let serviceId = input.serviceId ?? null
+  if (!serviceId && !input.projectId && input.deploymentId) {
+    const owner = await findDeploymentOwner(prisma, input.deploymentId)
+    serviceId = owner?.serviceId ?? null
+  }
+  const service = serviceId
+    ? await prisma.service.findUnique({
+        where: { id: serviceId },
+        select: { id: true, name: true, projectId: true },
+      })
+    : null
+  return {
+    projectId: input.projectId ?? service?.projectId ?? null,
+    organizationId: input.organizationId ?? null,
+    service: service ? { id: service.id, name: service.name } : null,
+  }
+}
+
+function serviceUrl(serviceId: string): string {
+  return `${process.env.APP_URL || 'https://app.alternatefutures.ai'}/services/${serviceId}`
+}
+
+/**
+ * Queue the event on every enabled channel subscribed to it and make the
+ * first attempt. Returns the ids of the deliveries queued.
+ */
+export async function enqueueNotification(
+  prisma: PrismaClient,
+  input: NotificationInput,
+  now = new Date()
+): Promise<string[]> {
+  const scope = await resolveScope(prisma, input)
+  if (!scope.projectId && !scope.organizationId) return []
+
+  const channels = await prisma.notificationChannel.findMany({
+    where: {
+      enabled: true,
+      OR: [{ events: { isEmpty: true } }, { events: { has: input.event } }],
+      ...(scope.projectId
+        ? { projectId: scope.projectId }
+        : { project: { organizationId: scope.organizationId } }),
+    },
+    select: { id: true, projectId: true },
+  })
+  if (channels.length === 0) return []
+
+  const rows = channels.map(channel => {
+    const payload: NotificationPayload = {
+      event: input.event,
+      severity: input.severity ?? 'info',
+      title: input.title,
+      message: input.message,
+      occurredAt: now.toISOString(),
+      projectId: channel.projectId,
+      serviceId: scope.service?.id ?? null,
+      serviceName: scope.service?.name ?? null,
+      deploymentId: input.deploymentId ?? null,
+      url: scope.service ? serviceUrl(scope.service.id) : null,
+      data: input.data ?? {},
+    }
+    return {
+      channelId: channel.id,
+      event: input.event,
+      dedupeKey: input.dedupeKey ?? null,
+      payload: payload as unknown as Prisma.InputJsonValue,
+      nextAttemptAt: now,
+    }
+  })
+  const created = await prisma.notificationDelivery.createManyAndReturn({
+    data: rows,
+    skipDuplicates: true,
+    select: { id: true },
+  })
+
+  for (const { id } of created) {
+    try {
+      await deliverNotification(prisma, id)
+    } catch (err) {
+      // The row stays PENDING; the scheduler retries it.
+      log.warn({ err, deliveryId: id }, 'immediate notification attempt threw')
+    }
+  }
+  return created.map(d => d.id)
+}
+
+/** Fire-and-forget `enqueueNotification`. Never throws. */
+export function notify(prisma: PrismaClient, input: NotificationInput): void {
+  enqueueNotification(prisma, input).catch(err => {
+    log.warn(
+      { err, event: input.event, dedupeKey: input.dedupeKey },
+      'failed to queue notification'
+    )
+  })
+}
+
+/**
+ * Turn provider deployment status events (emitted by the Akash / Phala /
+ * Spheron step handlers) into deploy.succeeded / deploy.failed
+ * notifications. Returns the unsubscribe function.
+ */
+export function startDeploymentNotifications(prisma: PrismaClient): () => void {
+  const onStatus = (evt: DeploymentStatusEvent) => {
+    if (evt.status === 'ACTIVE') {
+      notify(prisma, {
+        event: 'deploy.succeeded',
+        title: 'Deployment is live',
+        message: 'The deployment finished and is serving traffic.',
+        deploymentId: evt.deploymentId,
+        dedupeKey: `deploy.succeeded:${evt.deploymentId}`,
+      })
+    } else if (evt.status === 'PERMANENTLY_FAILED') {
+      notify(prisma, {
+        event: 'deploy.failed',
+        severity: 'critical',
+        title: 'Deployment failed',
+        message:
+          'The deployment failed after exhausting its retries. Check the deployment logs for the cause.',
+        deploymentId: evt.deploymentId,
+        dedupeKey: `deploy.failed:${evt.deploymentId}`,
+      })
+    }
+  }
+  deploymentEvents.on('status', onStatus)
+  return () => {
+    deploymentEvents.off('status', onStatus)
+  }
+}
@@ -7,6 +7,7 @@
 
 import { createClient, type ClickHouseClient } from '@clickhouse/client'
 import { createLogger } from '../../lib/logger.js'
+import { encodeLogCursor, type LogCursor, type LogFilter } from './logQuery.js'
 
 const log = createLogger('clickhouse')
 
@@ -93,6 +94,19 @@ export interface LogEntry {
   logAttributes: Record<string, string>
 }
 
+/** A log line written by the platform rather than an OTel exporter. */
+export interface LogRecord {
+  /** ISO 8601, up to nanosecond precision. */
+  timestamp: string
+  severityText: string
+  severityNumber: number
+  body: string
+  resourceAttributes: Record<string, string>
+  logAttributes?: Record<string, string>
+  projectId: string
+  projectSlug: string
+}
+
 export interface ServiceStats {
   serviceName: string
   spanCount: number
@@ -105,6 +119,16 @@ export interface ServiceStats {
   p99DurationMs: number
 }
 
+/** Calls from one service to another, seen as a child span's parent. */
+export interface ServiceEdge {
+  caller: string
+  callee: string
+  requestCount: number
+  errorCount: number
+  p50DurationMs: number
+  p95DurationMs: number
+}
+
 export interface TraceQueryInput {
   projectId: string
   startTime: Date
@@ -142,6 +166,40 @@ export interface LogQueryInput {
   offset?: number
 }
 
+export interface LogSearchInput {
+  projectId: string
+  startTime: Date
+  endTime: Date
+  /** Parsed with parseLogQuery (see logQuery.ts). */
+  filters: LogFilter[]
+  limit?: number
+  after?: LogCursor
+}
+
+export interface LogSearchPage {
+  entries: LogEntry[]
+  nextCursor: string | null
+}
+
+export interface MetricAggregateInput {
+  projectId: string
+  startTime: Date
+  endTime: Date
+  metricName: string
+  aggregation: NonNullable<MetricQueryInput['aggregation']>
+}
+
+export interface LogCountInput {
+  projectId: string
+  startTime: Date
+  endTime: Date
+  /** RE2 regular expression matched against the log body. */
+  pattern?: string
+  minSeverityNumber?: number
+}
+
+export type TelemetryTable = 'traces' | 'metrics' | 'logs'
+
 // ============================================
 // Client Implementation
 // ============================================
@@ -372,16 +430,7 @@ export class ClickHouseObservabilityClient {
     const intervalFn = this.parseInterval(interval)
 
     // Aggregation function
-    const aggFn =
-      aggregation === 'avg'
-        ? 'avg(Value)'
-        : aggregation === 'sum'
-          ? 'sum(Value)'
-          : aggregation === 'min'
-            ? 'min(Value)'
-            : aggregation === 'max'
-              ? 'max(Value)'
-              : 'count()'
+    const aggFn = this.aggregationSql(aggregation)
 
     const query = `
       SELECT
@@ -448,6 +497,39 @@ export class ClickHouseObservabilityClient {
     return Array.from(seriesMap.values())
   }
 
+  /**
+   * Aggregate one metric over a whole time range, for alert evaluation.
+   * Returns null when the metric has no data points in the range.
+   */
+  async aggregateMetric(input: MetricAggregateInput): Promise<number | null> {
+    const { projectId, startTime, endTime, metricName, aggregation } = input
+
+    const query = `
+      SELECT
+        ${this.aggregationSql(aggregation)} as AggValue,
+        count() as Points
+      FROM ${this.database}.metrics
+      WHERE af_project_id = {projectId:String}
+        AND Timestamp >= {startTime:DateTime64(9)}
+        AND Timestamp <= {endTime:DateTime64(9)}
+        AND MetricName = {metricName:String}
+    `
+
+    const result = await this.client.query({
+      query,
+      query_params: {
+        projectId,
+        startTime: startTime.toISOString(),
+        endTime: endTime.toISOString(),
+        metricName,
+      },
+    })
+
+    const row = ((await result.json()).data as any[])[0]
+    if (!row || Number(row.Points) === 0) return null
+    return Number(row.AggValue)
+  }
+
   /**
    * Query logs
    */
@@ -521,6 +603,138 @@ export class ClickHouseObservabilityClient {
     }))
   }
 
+  /**
+   * Search logs with query-language filters, newest first. Pages are keyed
+   * on (Timestamp, row hash) rather than an offset, so new lines arriving
+   * between pages don't shift the results.
+   */
+  async searchLogs(input: LogSearchInput): Promise<LogSearchPage> {
+    const { projectId, startTime, endTime, filters, limit = 100, after } = input
+
+    const params: Record<string, unknown> = {
+      projectId,
+      startTime: startTime.toISOString(),
+      endTime: endTime.toISOString(),
+      limit: limit + 1,
+    }
+    const conditions: string[] = [
+      `af_project_id = {projectId:String}`,
+      `Timestamp >= {startTime:DateTime64(9)}`,
+      `Timestamp <= {endTime:DateTime64(9)}`,
+      ...filters.map((filter, i) => this.logFilterSql(filter, `f${i}`, params)),
+    ]
+    if (after) {
+      conditions.push(
+        `(Timestamp, RowHash) < ({afterTime:DateTime64(9)}, {afterHash:UInt64})`
+      )
+      params.afterTime = after.time
+      params.afterHash = after.hash
+    }
+
+    const query = `
+      SELECT
+        Timestamp,
+        TraceId,
+        SpanId,
+        SeverityText,
+        SeverityNumber,
+        Body,
+        ResourceAttributes,
+        LogAttributes,
+        cityHash64(TraceId, SpanId, Body) as RowHash
+      FROM ${this.database}.logs
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY Timestamp DESC, RowHash DESC
+      LIMIT {limit:UInt32}
+    `
+
+    const result = await this.client.query({ query, query_params: params })
+    const data = (await result.json()).data as any[]
+
+    const rows = data.slice(0, limit)
+    const last = rows[rows.length - 1]
+    return {
+      entries: rows.map(row => ({
+        timestamp: new Date(row.Timestamp),
+        traceId: row.TraceId || null,
+        spanId: row.SpanId || null,
+        severityText: row.SeverityText,
+        severityNumber: row.SeverityNumber,
+        body: row.Body,
+        resourceAttributes: row.ResourceAttributes || {},
+        logAttributes: row.LogAttributes || {},
+      })),
+      nextCursor:
+        data.length > limit && last
+          ? encodeLogCursor({
+              time: String(last.Timestamp),
+              hash: String(last.RowHash),
+            })
+          : null,
+    }
+  }
+
+  /**
+   * Append log lines to the logs table.
+   */
+  async insertLogs(records: LogRecord[]): Promise<void> {
+    if (records.length === 0) return
+    await this.client.insert({
+      table: `${this.database}.logs`,
+      format: 'JSONEachRow',
+      values: records.map(r => ({
+        Timestamp: r.timestamp,
+        TraceId: '',
+        SpanId: '',
+        SeverityText: r.severityText,
+        SeverityNumber: r.severityNumber,
+        Body: r.body,
+        ResourceAttributes: r.resourceAttributes,
+        LogAttributes: r.logAttributes ?? {},
+        af_project_id: r.projectId,
+        af_project_slug: r.projectSlug,
+      })),
+      clickhouse_settings: { date_time_input_format: 'best_effort' },
+    })
+  }
+
+  /**
+   * Count log lines in a time range, optionally only those whose body
+   * matches an RE2 pattern, for alert evaluation.
+   */
+  async countLogs(input: LogCountInput): Promise<number> {
+    const { projectId, startTime, endTime, pattern, minSeverityNumber } = input
+
+    const conditions: string[] = [
+      `af_project_id = {projectId:String}`,
+      `Timestamp >= {startTime:DateTime64(9)}`,
+      `Timestamp <= {endTime:DateTime64(9)}`,
+    ]
+    if (pattern) conditions.push(`match(Body, {pattern:String})`)
+    if (minSeverityNumber !== undefined)
+      conditions.push(`SeverityNumber >= {minSeverityNumber:Int8}`)
+
+    const query = `
+      SELECT count() as Matches
+      FROM ${this.database}.logs
+      WHERE ${conditions.join(' AND ')}
+    `
+
+    const result = await this.client.query({
+      query,
+      query_params: {
+        projectId,
+        startTime: startTime.toISOString(),
+        endTime: endTime.toISOString(),
+        pattern: pattern ?? '',
+        minSeverityNumber: minSeverityNumber ?? 0,
+      },
+    })
+
+    const row = ((await result.json()).data as any[])[0]
+    return Number(row?.Matches ?? 0)
+  }
+
   /**
    * Get service statistics
    */
@@ -571,6 +785,103 @@ export class ClickHouseObservabilityClient {
     }))
   }
 
+  /**
+   * Drop one month of a project's data from a table. The tables are
+   * partitioned by `(toYYYYMM(Timestamp), af_project_id)`, so this frees
+   * the space at once; dropping a partition that doesn't exist is a no-op.
+   * Partition expressions don't take query parameters, hence the id check.
+   */
+  async dropProjectPartition(
+    table: TelemetryTable,
+    projectId: string,
+    yyyymm: number
+  ): Promise<void> {
+    if (!/^[A-Za-z0-9_-]+$/.test(projectId) || !Number.isInteger(yyyymm)) {
+      throw new Error(`Refusing to drop partition for project ${projectId}`)
+    }
+    await this.client.command({
+      query: `ALTER TABLE ${this.database}.${table} DROP PARTITION tuple(${yyyymm}, '${projectId}')`,
+    })
+  }
+
+  /**
+   * Delete a project's rows older than `before` from a table with a
+   * lightweight delete, for the part of a month a partition drop can't take.
+   */
+  async deleteProjectRowsBefore(
+    table: TelemetryTable,
+    projectId: string,
+    before: Date
+  ): Promise<void> {
+    await this.client.command({
+      query: `
+        DELETE FROM ${this.database}.${table}
+        WHERE af_project_id = {projectId:String}
+          AND Timestamp < {before:DateTime64(9)}
+      `,
+      query_params: { projectId, before: before.toISOString() },
+    })
+  }
+
+  /**
+   * Caller→callee edges between services: each span whose parent span
+   * belongs to a different service is one request from the parent's
+   * service to its own. Latency and errors are the callee's span.
+   */
+  async getServiceEdges(
+    projectId: string,
+    startTime: Date,
+    endTime: Date
+  ): Promise<ServiceEdge[]> {
+    const query = `
+      SELECT
+        parent.ServiceName as Caller,
+        child.ServiceName as Callee,
+        count() as RequestCount,
+        countIf(child.StatusCode = 'ERROR') as ErrorCount,
+        quantile(0.5)(child.Duration / 1000000) as P50DurationMs,
+        quantile(0.95)(child.Duration / 1000000) as P95DurationMs
+      FROM ${this.database}.traces AS child
+      INNER JOIN (
+        SELECT TraceId, SpanId, ServiceName
+        FROM ${this.database}.traces
+        WHERE af_project_id = {projectId:String}
+          AND Timestamp >= {startTime:DateTime64(9)}
+          AND Timestamp <= {endTime:DateTime64(9)}
+      ) AS parent
+        ON child.TraceId = parent.TraceId
+        AND child.ParentSpanId = parent.SpanId
+      WHERE child.af_project_id = {projectId:String}
+        AND child.Timestamp >= {startTime:DateTime64(9)}
+        AND child.Timestamp <= {endTime:DateTime64(9)}
+        AND child.ParentSpanId != ''
+        AND parent.ServiceName != child.ServiceName
+      GROUP BY Caller, Callee
+      ORDER BY RequestCount DESC
+      LIMIT 500
+    `
+
+    const result = await this.client.query({
+      query,
+      query_params: {
+        projectId,
+        startTime: startTime.toISOString(),
+        endTime: endTime.toISOString(),
+      },
+    })
+
+    const data = (await result.json()).data as any[]
+
+    return data.map(row => ({
+      caller: row.Caller,
+      callee: row.Callee,
+      requestCount: Number(row.RequestCount),
+      errorCount: Number(row.ErrorCount),
+      p50DurationMs: row.P50DurationMs,
+      p95DurationMs: row.P95DurationMs,
+    }))
+  }
+
   /**
    * Health check
    */
@@ -644,6 +955,98 @@ export class ClickHouseObservabilityClient {
     }
   }
 
+  /**
+   * One query-language filter as a WHERE condition. Values and attribute
+   * keys only ever go in as parameters, named from `prefix`.
+   */
+  private logFilterSql(
+    filter: LogFilter,
+    prefix: string,
+    params: Record<string, unknown>
+  ): string {
+    let sql: string
+    if (filter.kind === 'text') {
+      params[prefix] = filter.value
+      sql = `positionCaseInsensitive(Body, {${prefix}:String}) > 0`
+    } else if (filter.kind === 'severity') {
+      const bounds: string[] = []
+      if (filter.min !== undefined) {
+        params[`${prefix}min`] = filter.min
+        bounds.push(`SeverityNumber >= {${prefix}min:Int16}`)
+      }
+      if (filter.max !== undefined) {
+        params[`${prefix}max`] = filter.max
+        bounds.push(`SeverityNumber <= {${prefix}max:Int16}`)
+      }
+      sql = bounds.length ? `(${bounds.join(' AND ')})` : '1'
+    } else {
+      let column: string
+      if (filter.field === 'attribute' || filter.field === 'resource') {
+        params[`${prefix}key`] = filter.key ?? ''
+        const map =
+          filter.field === 'attribute' ? 'LogAttributes' : 'ResourceAttributes'
+        column = `${map}[{${prefix}key:String}]`
+      } else {
+        column = {
+          service: `ResourceAttributes['service.name']`,
+          trace: 'TraceId',
+          span: 'SpanId',
+          body: 'Body',
+        }[filter.field]
+      }
+
+      const { operator, value } = filter
+      params[prefix] = value
+      const text = `{${prefix}:String}`
+      const numeric = value !== '' && Number.isFinite(Number(value))
+      switch (operator) {
+        case '~':
+          sql = `match(${column}, ${text})`
+          break
+        case '!=':
+          sql = `${column} != ${text}`
+          break
+        case '>':
+        case '>=':
+        case '<':
+        case '<=':
+          if (numeric) {
+            params[prefix] = Number(value)
+            sql = `toFloat64OrNull(${column}) ${operator} {${prefix}:Float64}`
+          } else {
+            sql = `${column} ${operator} ${text}`
+          }
+          break
+        default:
+          if (operator === ':' && value.includes('*')) {
+            params[prefix] = value
+              .replace(/[\\%_]/g, '\\$&')
+              .replace(/\*/g, '%')
+            sql = `${column} LIKE ${text}`
+          } else if (operator === ':' && filter.field === 'body') {
+            sql = `positionCaseInsensitive(Body, ${text}) > 0`
+          } else {
+            sql = `${column} = ${text}`
+          }
+      }
+    }
+    return filter.negate ? `NOT (${sql})` : sql
+  }
+
+  private aggregationSql(
+    aggregation: MetricQueryInput['aggregation'] = 'avg'
+  ): string {
+    return aggregation === 'avg'
+      ? 'avg(Value)'
+      : aggregation === 'sum'
+        ? 'sum(Value)'
+        : aggregation === 'min'
+          ? 'min(Value)'
+          : aggregation === 'max'
+            ? 'max(Value)'
+            : 'count()'
+  }
+
   private parseInterval(interval: string): string {
     // Convert interval like '1m', '5m', '1h', '1d' to ClickHouse toStartOf function
     const match = interval.match(/^(\d+)([smhd])$/)
@@ -14,8 +14,23 @@ export {
 export {
   handleTelemetryWebhook,
   handleTelemetryStats,
+  handleTelemetryAdmission,
 } from './webhookHandler.js'
 
+export {
+  ESTIMATED_BYTES,
+  decideAdmission,
+  splitByAdmission,
+  type AdmissionSettings,
+  type ProjectAdmission,
+  type SignalAdmission,
+} from './ingestionLimits.js'
+
+export {
+  STORAGE_RETENTION_DAYS,
+  applyObservabilityRetention,
+} from './retention.js'
+
 export {
   ClickHouseObservabilityClient,
   getClickHouseClient,
@@ -26,8 +41,13 @@ export {
   type MetricDataPoint,
   type MetricSeries,
   type LogEntry,
+  type LogRecord,
   type ServiceStats,
+  type ServiceEdge,
   type TraceQueryInput,
   type MetricQueryInput,
   type LogQueryInput,
+  type MetricAggregateInput,
+  type LogCountInput,
+  type TelemetryTable,
 } from './clickhouseClient.js'
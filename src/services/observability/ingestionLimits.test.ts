@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest'
+import { decideAdmission, splitByAdmission } from './ingestionLimits.js'
+
+const settings = {
+  tracesEnabled: true,
+  metricsEnabled: true,
+  logsEnabled: false,
+  sampleRate: 0.25,
+  maxBytesPerHour: BigInt(10_000),
+}
+
+describe('decideAdmission', () => {
+  it('keeps everything when the project has no settings', () => {
+    expect(decideAdmission('proj-1', null, BigInt(10) ** BigInt(12))).toEqual({
+      projectId: 'proj-1',
+      traces: { accept: true, sampleRate: 1 },
+      metrics: { accept: true, sampleRate: 1 },
+      logs: { accept: true, sampleRate: 1 },
+      overCap: false,
+    })
+  })
+
+  it('samples traces and logs but never metrics', () => {
+    const admission = decideAdmission(
+      'proj-1',
+      { ...settings, logsEnabled: true },
+      BigInt(0)
+    )
+    expect(admission.traces).toEqual({ accept: true, sampleRate: 0.25 })
+    expect(admission.metrics).toEqual({ accept: true, sampleRate: 1 })
+    expect(admission.logs).toEqual({ accept: true, sampleRate: 0.25 })
+  })
+
+  it('rejects everything once the hourly cap is reached', () => {
+    const admission = decideAdmission('proj-1', settings, BigInt(10_000))
+    expect(admission.overCap).toBe(true)
+    expect(admission.metrics).toEqual({ accept: false, sampleRate: 0 })
+  })
+})
+
+describe('splitByAdmission', () => {
+  it('bills what was kept and counts the rest as dropped', () => {
+    const admission = decideAdmission('proj-1', settings, BigInt(0))
+    expect(
+      splitByAdmission(
+        {
+          projectId: 'proj-1',
+          spansCount: 100,
+          metricsCount: 40,
+          logsCount: 10,
+          bytesEstimate: 64_240,
+        },
+        admission
+      )
+    ).toMatchObject({
+      spansCount: 25,
+      metricsCount: 40,
+      logsCount: 0,
+      bytesEstimate: 25 * 500 + 40 * 100,
+      spansDropped: 75,
+      metricsDropped: 0,
+      logsDropped: 10,
+      bytesDropped: 75 * 500 + 10 * 1024,
+    })
+  })
+})
@@ -0,0 +1,112 @@
+/**
+ * Ingestion limits from a project's ObservabilitySettings.
+ *
+ * The collector asks for a project's admission (the ingestion webhook
+ * response and `/internal/telemetry/admission` both return it) and applies
+ * it before export:
+ *   - a disabled signal is dropped
+ *   - traces and logs are kept at `sampleRate`; metrics are never sampled,
+ *     since dropping points skews every aggregate built on them
+ *   - once the bytes ingested this hour reach `maxBytesPerHour`, everything
+ *     is dropped until the hour rolls over
+ *
+ * The count connector sits in front of those processors, so the counts it
+ * reports are what arrived. `splitByAdmission` turns them into what was
+ * kept (billed as ingested) and what was dropped (shown in telemetryUsage).
+ */
+
+import type { ObservabilitySettings } from '@prisma/client'
+import type { TelemetryTable } from './clickhouseClient.js'
+import type { IngestionEvent } from './telemetryIngestionService.js'
+
+/** Average stored size per item, used to estimate bytes from counts. */
+export const ESTIMATED_BYTES: Record<TelemetryTable, number> = {
+  traces: 500,
+  metrics: 100,
+  logs: 1024,
+}
+
+export interface SignalAdmission {
+  accept: boolean
+  /** Fraction of items to keep, 0-1. */
+  sampleRate: number
+}
+
+export interface ProjectAdmission {
+  projectId: string
+  traces: SignalAdmission
+  metrics: SignalAdmission
+  logs: SignalAdmission
+  /** The hourly byte cap is reached; everything is dropped. */
+  overCap: boolean
+}
+
+export type AdmissionSettings = Pick<
+  ObservabilitySettings,
+  | 'tracesEnabled'
+  | 'metricsEnabled'
+  | 'logsEnabled'
+  | 'sampleRate'
+  | 'maxBytesPerHour'
+>
+
+function signal(enabled: boolean, sampleRate: number): SignalAdmission {
+  return enabled && sampleRate > 0
+    ? { accept: true, sampleRate }
+    : { accept: false, sampleRate: 0 }
+}
+
+/** No settings row means the defaults: everything kept, no cap. */
+export function decideAdmission(
+  projectId: string,
+  settings: AdmissionSettings | null,
+  bytesThisHour: bigint
+): ProjectAdmission {
+  const cap = settings?.maxBytesPerHour ?? null
+  const overCap = cap !== null && bytesThisHour >= cap
+  const rate = overCap ? 0 : Math.min(1, Math.max(0, settings?.sampleRate ?? 1))
+  return {
+    projectId,
+    traces: signal(!overCap && (settings?.tracesEnabled ?? true), rate),
+    metrics: signal(!overCap && (settings?.metricsEnabled ?? true), 1),
+    logs: signal(!overCap && (settings?.logsEnabled ?? true), rate),
+    overCap,
+  }
+}
+
+function keep(count: number, admission: SignalAdmission): number {
+  return admission.accept ? Math.round(count * admission.sampleRate) : 0
+}
+
+/** Split what arrived into what was kept and what was dropped. */
+export function splitByAdmission(
+  event: IngestionEvent,
+  admission: ProjectAdmission
+): IngestionEvent {
+  const spans = event.spansCount ?? 0
+  const metrics = event.metricsCount ?? 0
+  const logs = event.logsCount ?? 0
+  const spansCount = keep(spans, admission.traces)
+  const metricsCount = keep(metrics, admission.metrics)
+  const logsCount = keep(logs, admission.logs)
+  const spansDropped = spans - spansCount
+  const metricsDropped = metrics - metricsCount
+  const logsDropped = logs - logsCount
+  return {
+    ...event,
+    spansCount,
+    metricsCount,
+    logsCount,
+    bytesEstimate:
+      spansCount * ESTIMATED_BYTES.traces +
+      metricsCount * ESTIMATED_BYTES.metrics +
+      logsCount * ESTIMATED_BYTES.logs,
+    spansDropped,
+    metricsDropped,
+    logsDropped,
+    bytesDropped:
+      spansDropped * ESTIMATED_BYTES.traces +
+      metricsDropped * ESTIMATED_BYTES.metrics +
+      logsDropped * ESTIMATED_BYTES.logs,
+  }
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest'
+import {
+  LogQueryError,
+  decodeLogCursor,
+  encodeLogCursor,
+  parseLogQuery,
+} from './logQuery.js'
+
+describe('parseLogQuery', () => {
+  const now = new Date('2026-06-01T12:00:00Z')
+
+  it('parses fields, free text, negation and relative ranges', () => {
+    expect(
+      parseLogQuery(
+        'severity>=warn service:api -"health check" timeout ' +
+          'attr.http.status_code>=500 resource.k8s.pod.name:web-* since:15m',
+        now
+      )
+    ).toEqual({
+      startTime: new Date('2026-06-01T11:45:00Z'),
+      filters: [
+        { kind: 'severity', min: 13, negate: false },
+        {
+          kind: 'field',
+          field: 'service',
+          operator: ':',
+          value: 'api',
+          negate: false,
+        },
+        { kind: 'text', value: 'health check', negate: true },
+        { kind: 'text', value: 'timeout', negate: false },
+        {
+          kind: 'field',
+          field: 'attribute',
+          key: 'http.status_code',
+          operator: '>=',
+          value: '500',
+          negate: false,
+        },
+        {
+          kind: 'field',
+          field: 'resource',
+          key: 'k8s.pod.name',
+          operator: ':',
+          value: 'web-*',
+          negate: false,
+        },
+      ],
+    })
+  })
+
+  it('maps severity names to OTel number ranges', () => {
+    expect(parseLogQuery('level:error').filters).toEqual([
+      { kind: 'severity', min: 17, max: 20, negate: false },
+    ])
+    expect(parseLogQuery('severity>warn').filters).toEqual([
+      { kind: 'severity', min: 17, negate: false },
+    ])
+    expect(parseLogQuery('severity!=debug').filters).toEqual([
+      { kind: 'severity', min: 5, max: 8, negate: true },
+    ])
+  })
+
+  it('rejects unknown fields, bad patterns and unclosed quotes', () => {
+    expect(() => parseLogQuery('user:42')).toThrow(LogQueryError)
+    expect(() => parseLogQuery('body~"(unclosed"')).toThrow(/valid pattern/)
+    expect(() => parseLogQuery('"no end')).toThrow(/Unclosed quote/)
+    expect(() => parseLogQuery('since:yesterday')).toThrow(/duration/)
+  })
+})
+
+describe('log cursors', () => {
+  it('round-trips and rejects tampered cursors', () => {
+    const cursor = {
+      time: '2026-06-01 11:59:58.123456789',
+      hash: '18446744073709551615',
+    }
+    expect(decodeLogCursor(encodeLogCursor(cursor))).toEqual(cursor)
+    expect(
+      decodeLogCursor(
+        Buffer.from(JSON.stringify(["1' OR 1=1", '1'])).toString('base64url')
+      )
+    ).toBeNull()
+    expect(decodeLogCursor('not-a-cursor')).toBeNull()
+  })
+})
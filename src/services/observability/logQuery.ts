@@ -0,0 +1,288 @@
+/**
+ * Log search query language.
+ *
+ * A query is a list of terms, all of which must match:
+ *
+ *   connection reset            free text, case-insensitive, in the body
+ *   "connection reset"          the same, as one phrase
+ *   severity>=warn              severity by name (trace, debug, info, warn,
+ *                               error, fatal) or OTel severity number
+ *   service:api                 the OTel service.name resource attribute
+ *   trace:4bf92f… span:00f0…    trace and span ids
+ *   body:timeout body~"^GET "   body contains / matches an RE2 pattern
+ *   attr.http.status>=500       a log attribute; numeric values compare
+ *                               as numbers
+ *   resource.k8s.pod.name:web-* a resource attribute; * is a wildcard
+ *   since:15m until:5m          time relative to now (s, m, h, d), or an
+ *                               ISO timestamp
+ *
+ * Operators are `:` (equals; contains for body), `=`, `!=`, `>`, `>=`,
+ * `<`, `<=` and `~` (RE2 match). A leading `-` negates a term. Values with
+ * spaces go in double quotes.
+ *
+ * Parsing only produces filters; ClickHouseObservabilityClient.searchLogs
+ * turns them into parameterised SQL, so nothing here reaches the query
+ * text.
+ */
+
+export type LogFilterOperator = ':' | '=' | '!=' | '>' | '>=' | '<' | '<=' | '~'
+
+export type LogFilter =
+  | { kind: 'text'; value: string; negate: boolean }
+  | { kind: 'severity'; min?: number; max?: number; negate: boolean }
+  | {
+      kind: 'field'
+      field: 'service' | 'trace' | 'span' | 'body' | 'attribute' | 'resource'
+      /** Attribute key, for `attribute` and `resource`. */
+      key?: string
+      operator: LogFilterOperator
+      value: string
+      negate: boolean
+    }
+
+export interface ParsedLogQuery {
+  filters: LogFilter[]
+  startTime?: Date
+  endTime?: Date
+}
+
+export class LogQueryError extends Error {
+  readonly position: number
+
+  constructor(message: string, position: number) {
+    super(`${message} (at ${position + 1})`)
+    this.name = 'LogQueryError'
+    this.position = position
+  }
+}
+
+export const MAX_LOG_QUERY_LENGTH = 2000
+const MAX_TERMS = 20
+
+/** OTel severity number ranges. */
+const SEVERITY_RANGES: Record<string, [number, number]> = {
+  trace: [1, 4],
+  debug: [5, 8],
+  info: [9, 12],
+  warn: [13, 16],
+  warning: [13, 16],
+  error: [17, 20],
+  fatal: [21, 24],
+}
+
+const DURATION_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+}
+
+const FIELD_TERM = /-?([A-Za-z_][\w.]*)(!=|>=|<=|:|=|>|<|~)/y
+
+function readValue(
+  query: string,
+  start: number
+): { value: string; end: number; quoted: boolean } {
+  if (query[start] !== '"') {
+    let end = start
+    while (end < query.length && !/\s/.test(query[end])) end++
+    return { value: query.slice(start, end), end, quoted: false }
+  }
+
+  let value = ''
+  let i = start + 1
+  while (i < query.length && query[i] !== '"') {
+    if (query[i] === '\\' && i + 1 < query.length) i++
+    value += query[i]
+    i++
+  }
+  if (i >= query.length) {
+    throw new LogQueryError('Unclosed quote', start)
+  }
+  return { value, end: i + 1, quoted: true }
+}
+
+function parseSeverity(
+  operator: LogFilterOperator,
+  value: string,
+  negate: boolean,
+  position: number
+): LogFilter {
+  const named = SEVERITY_RANGES[value.toLowerCase()]
+  const number = /^\d+$/.test(value) ? Number(value) : undefined
+  const range: [number, number] | undefined =
+    named ?? (number !== undefined ? [number, number] : undefined)
+  if (!range) {
+    throw new LogQueryError(`Unknown severity "${value}"`, position)
+  }
+
+  const [low, high] = range
+  switch (operator) {
+    case ':':
+    case '=':
+      return { kind: 'severity', min: low, max: high, negate }
+    case '!=':
+      return { kind: 'severity', min: low, max: high, negate: !negate }
+    case '>=':
+      return { kind: 'severity', min: low, negate }
+    case '>':
+      return { kind: 'severity', min: high + 1, negate }
+    case '<=':
+      return { kind: 'severity', max: high, negate }
+    case '<':
+      return { kind: 'severity', max: low - 1, negate }
+    default:
+      throw new LogQueryError('severity does not support ~', position)
+  }
+}
+
+function parseTime(value: string, now: Date, position: number): Date {
+  const relative = /^(\d+)([smhd])$/.exec(value)
+  if (relative) {
+    return new Date(
+      now.getTime() - Number(relative[1]) * DURATION_MS[relative[2]]
+    )
+  }
+  const absolute = new Date(value)
+  if (!/^\d{4}-\d{2}-\d{2}/.test(value) || Number.isNaN(absolute.getTime())) {
+    throw new LogQueryError(
+      `"${value}" is not a duration like 15m or an ISO timestamp`,
+      position
+    )
+  }
+  return absolute
+}
+
+export function parseLogQuery(
+  query: string,
+  now: Date = new Date()
+): ParsedLogQuery {
+  if (query.length > MAX_LOG_QUERY_LENGTH) {
+    throw new LogQueryError(
+      `Query is longer than ${MAX_LOG_QUERY_LENGTH} characters`,
+      MAX_LOG_QUERY_LENGTH
+    )
+  }
+
+  const parsed: ParsedLogQuery = { filters: [] }
+  let i = 0
+  while (i < query.length) {
+    if (/\s/.test(query[i])) {
+      i++
+      continue
+    }
+    const position = i
+
+    FIELD_TERM.lastIndex = i
+    const term = FIELD_TERM.exec(query)
+    if (!term) {
+      const negate = query[i] === '-' && i + 1 < query.length
+      const { value, end } = readValue(query, negate ? i + 1 : i)
+      i = end
+      if (value) parsed.filters.push({ kind: 'text', value, negate })
+    } else {
+      const negate = term[0].startsWith('-')
+      const name = term[1]
+      const operator = term[2] as LogFilterOperator
+      const { value, end, quoted } = readValue(query, FIELD_TERM.lastIndex)
+      i = end
+      if (!value && !quoted) {
+        throw new LogQueryError(`Missing value for ${name}`, position)
+      }
+
+      const lower = name.toLowerCase()
+      if (lower === 'since' || lower === 'until') {
+        if (operator !== ':' && operator !== '=') {
+          throw new LogQueryError(`${name} only supports :`, position)
+        }
+        parsed[lower === 'since' ? 'startTime' : 'endTime'] = parseTime(
+          value,
+          now,
+          position
+        )
+        continue
+      }
+
+      if (operator === '~') {
+        try {
+          new RegExp(value)
+        } catch {
+          throw new LogQueryError(`"${value}" is not a valid pattern`, position)
+        }
+      }
+
+      if (lower === 'severity' || lower === 'level') {
+        parsed.filters.push(parseSeverity(operator, value, negate, position))
+      } else if (
+        lower === 'service' ||
+        lower === 'trace' ||
+        lower === 'span' ||
+        lower === 'body'
+      ) {
+        parsed.filters.push({
+          kind: 'field',
+          field: lower,
+          operator,
+          value,
+          negate,
+        })
+      } else if (lower.startsWith('attr.') || lower.startsWith('resource.')) {
+        const dot = name.indexOf('.')
+        parsed.filters.push({
+          kind: 'field',
+          field: lower.startsWith('attr.') ? 'attribute' : 'resource',
+          key: name.slice(dot + 1),
+          operator,
+          value,
+          negate,
+        })
+      } else {
+        throw new LogQueryError(
+          `Unknown field "${name}" — use attr.${name} for a log attribute, ` +
+            'or quote the text to search for it',
+          position
+        )
+      }
+    }
+
+    if (parsed.filters.length > MAX_TERMS) {
+      throw new LogQueryError(
+        `A query can have at most ${MAX_TERMS} terms`,
+        position
+      )
+    }
+  }
+
+  return parsed
+}
+
+/** Position after the last row of a page: its timestamp and row hash. */
+export interface LogCursor {
+  time: string
+  hash: string
+}
+
+export function encodeLogCursor(cursor: LogCursor): string {
+  return Buffer.from(JSON.stringify([cursor.time, cursor.hash])).toString(
+    'base64url'
+  )
+}
+
+export function decodeLogCursor(cursor: string): LogCursor | null {
+  try {
+    const [time, hash] = JSON.parse(
+      Buffer.from(cursor, 'base64url').toString('utf8')
+    )
+    if (
+      typeof time !== 'string' ||
+      typeof hash !== 'string' ||
+      !/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}(\.\d{1,9})?$/.test(time) ||
+      !/^\d{1,20}$/.test(hash)
+    ) {
+      return null
+    }
+    return { time, hash }
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it, vi } from 'vitest'
+import { applyObservabilityRetention, monthsBefore } from './retention.js'
+
+describe('monthsBefore', () => {
+  it('lists the whole months before the cutoff month', () => {
+    expect(
+      monthsBefore(
+        new Date('2025-11-20T00:00:00Z'),
+        new Date('2026-02-03T00:00:00Z')
+      )
+    ).toEqual([202511, 202512, 202601])
+    expect(
+      monthsBefore(
+        new Date('2026-06-01T00:00:00Z'),
+        new Date('2026-06-28T00:00:00Z')
+      )
+    ).toEqual([])
+  })
+})
+
+describe('applyObservabilityRetention', () => {
+  it('trims only the signals kept shorter than the storage TTL', async () => {
+    const prisma = {
+      observabilitySettings: {
+        findMany: vi.fn().mockResolvedValue([
+          {
+            projectId: 'proj-1',
+            traceRetention: 7,
+            metricRetention: 3,
+            logRetention: 7,
+          },
+        ]),
+      },
+    } as any
+    const target = {
+      dropProjectPartition: vi.fn().mockResolvedValue(undefined),
+      deleteProjectRowsBefore: vi.fn().mockResolvedValue(undefined),
+    }
+    const now = new Date('2026-06-10T00:00:00Z')
+
+    expect(await applyObservabilityRetention(prisma, target, now)).toEqual({
+      projects: 1,
+      failed: 0,
+    })
+    expect(target.dropProjectPartition).toHaveBeenCalledTimes(1)
+    expect(target.dropProjectPartition).toHaveBeenCalledWith(
+      'metrics',
+      'proj-1',
+      202605
+    )
+    expect(target.deleteProjectRowsBefore).toHaveBeenCalledTimes(1)
+    expect(target.deleteProjectRowsBefore).toHaveBeenCalledWith(
+      'metrics',
+      'proj-1',
+      new Date('2026-06-07T00:00:00Z')
+    )
+  })
+})
@@ -0,0 +1,110 @@
+/**
+ * Per-project telemetry retention.
+ *
+ * The ClickHouse tables expire rows on a table-wide TTL (see
+ * docker/clickhouse/init.sql); a project's ObservabilitySettings can only
+ * shorten it. Once a day the retention scheduler removes each project's
+ * rows older than its setting: whole months by partition drop, the rest of
+ * the cutoff month with a lightweight delete.
+ */
+
+import type { PrismaClient } from '@prisma/client'
+import { createLogger } from '../../lib/logger.js'
+import type {
+  ClickHouseObservabilityClient,
+  TelemetryTable,
+} from './clickhouseClient.js'
+
+const log = createLogger('observability-retention')
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** The table TTLs, and so the longest retention a project can ask for. */
+export const STORAGE_RETENTION_DAYS: Record<TelemetryTable, number> = {
+  traces: 7,
+  metrics: 30,
+  logs: 7,
+}
+
+const RETENTION_FIELD = {
+  traces: 'traceRetention',
+  metrics: 'metricRetention',
+  logs: 'logRetention',
+} as const
+
+const TABLES = Object.keys(STORAGE_RETENTION_DAYS) as TelemetryTable[]
+
+export type RetentionTarget = Pick<
+  ClickHouseObservabilityClient,
+  'dropProjectPartition' | 'deleteProjectRowsBefore'
+>
+
+/**
+ * The UTC months (as YYYYMM partition values) from `from`'s month up to,
+ * but not including, `before`'s month — every row in them is older than
+ * `before`.
+ */
+export function monthsBefore(from: Date, before: Date): number[] {
+  const months: number[] = []
+  let year = from.getUTCFullYear()
+  let month = from.getUTCMonth()
+  const endYear = before.getUTCFullYear()
+  const endMonth = before.getUTCMonth()
+  while (year < endYear || (year === endYear && month < endMonth)) {
+    months.push(year * 100 + month + 1)
+    month += 1
+    if (month === 12) {
+      month = 0
+      year += 1
+    }
+  }
+  return months
+}
+
+export async function applyObservabilityRetention(
+  prisma: PrismaClient,
+  target: RetentionTarget,
+  now = new Date()
+): Promise<{ projects: number; failed: number }> {
+  const rows = await prisma.observabilitySettings.findMany({
+    where: {
+      OR: [
+        { traceRetention: { lt: STORAGE_RETENTION_DAYS.traces } },
+        { metricRetention: { lt: STORAGE_RETENTION_DAYS.metrics } },
+        { logRetention: { lt: STORAGE_RETENTION_DAYS.logs } },
+      ],
+    },
+    select: {
+      projectId: true,
+      traceRetention: true,
+      metricRetention: true,
+      logRetention: true,
+    },
+  })
+
+  let failed = 0
+  for (const row of rows) {
+    for (const table of TABLES) {
+      const days = row[RETENTION_FIELD[table]]
+      const ttl = STORAGE_RETENTION_DAYS[table]
+      if (days >= ttl) continue
+
+      const before = new Date(now.getTime() - days * DAY_MS)
+      const oldest = new Date(now.getTime() - ttl * DAY_MS)
+      try {
+        for (const month of monthsBefore(oldest, before)) {
+          await target.dropProjectPartition(table, row.projectId, month)
+        }
+        await target.deleteProjectRowsBefore(table, row.projectId, before)
+      } catch (err) {
+        failed += 1
+        log.warn(
+          { err, projectId: row.projectId, table },
+          'Failed to apply retention'
+        )
+      }
+    }
+  }
+
+  return { projects: rows.length, failed }
+}
@@ -0,0 +1,74 @@
+/**
+ * Observability Retention Scheduler
+ *
+ * Applies per-project telemetry retention once a day (see retention.ts).
+ * ClickHouse deletes are heavy, so this is wrapped in
+ * `runWithLeadership('observability-retention-scheduler', …)` in `index.ts`
+ * and runs on one pod only.
+ */
+
+import * as cron from 'node-cron'
+import { randomUUID } from 'node:crypto'
+import type { PrismaClient } from '@prisma/client'
+import { createLogger } from '../../lib/logger.js'
+import { requestContext } from '../../lib/requestContext.js'
+import { getClickHouseClient } from './clickhouseClient.js'
+import { applyObservabilityRetention } from './retention.js'
+
+const log = createLogger('observability-retention-scheduler')
+
+export class ObservabilityRetentionScheduler {
+  private cronJob: cron.ScheduledTask | null = null
+  private running = false
+  private readonly prisma: PrismaClient
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma
+  }
+
+  start() {
+    if (this.cronJob) {
+      log.info('Already running')
+      return
+    }
+
+    this.cronJob = cron.schedule('15 3 * * *', async () => {
+      await this.runOnce()
+    })
+
+    log.info('Started — applies telemetry retention daily at 03:15')
+  }
+
+  stop() {
+    if (this.cronJob) {
+      this.cronJob.stop()
+      this.cronJob = null
+      log.info('Stopped')
+    }
+  }
+
+  async runOnce(now = new Date()) {
+    if (this.running) {
+      log.info('Previous retention run still in progress — skipping tick')
+      return
+    }
+    this.running = true
+    const traceId = randomUUID()
+    try {
+      await requestContext.run({ requestId: traceId, traceId }, async () => {
+        const result = await applyObservabilityRetention(
+          this.prisma,
+          getClickHouseClient(),
+          now
+        )
+        if (result.projects > 0) {
+          log.info(result, 'Telemetry retention applied')
+        }
+      })
+    } catch (err) {
+      log.error({ err }, 'Telemetry retention failed')
+    } finally {
+      this.running = false
+    }
+  }
+}
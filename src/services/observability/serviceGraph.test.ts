@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest'
+import { buildServiceGraph } from './serviceGraph.js'
+
+const services = [
+  { id: 'svc-web', name: 'Web', slug: 'web', sdlServiceName: null },
+  { id: 'svc-api', name: 'API', slug: 'api', sdlServiceName: 'api-server' },
+  { id: 'svc-db', name: 'Postgres', slug: 'postgres', sdlServiceName: null },
+]
+
+const edge = (caller: string, callee: string, requestCount: number) => ({
+  caller,
+  callee,
+  requestCount,
+  errorCount: requestCount / 10,
+  p50DurationMs: 12,
+  p95DurationMs: 80,
+})
+
+describe('buildServiceGraph', () => {
+  it('marks declared, undeclared and idle edges', () => {
+    const graph = buildServiceGraph(
+      [edge('web', 'api-server', 200), edge('api-server', 'payments', 50)],
+      services,
+      [
+        {
+          id: 'link-1',
+          sourceServiceId: 'svc-web',
+          targetServiceId: 'svc-api',
+        },
+        { id: 'link-2', sourceServiceId: 'svc-api', targetServiceId: 'svc-db' },
+      ]
+    )
+
+    expect(graph.edges).toEqual([
+      expect.objectContaining({
+        caller: 'web',
+        callee: 'api-server',
+        errorRate: 0.1,
+        declared: true,
+        observed: true,
+        serviceLinkId: 'link-1',
+      }),
+      expect.objectContaining({
+        caller: 'api-server',
+        callee: 'payments',
+        calleeServiceId: null,
+        declared: false,
+        observed: true,
+      }),
+      expect.objectContaining({
+        caller: 'api-server',
+        callee: 'Postgres',
+        requestCount: 0,
+        p95DurationMs: null,
+        declared: true,
+        observed: false,
+      }),
+    ])
+    expect(graph.nodes).toEqual([
+      { name: 'web', serviceId: 'svc-web' },
+      { name: 'api-server', serviceId: 'svc-api' },
+      { name: 'payments', serviceId: null },
+      { name: 'Postgres', serviceId: 'svc-db' },
+    ])
+  })
+})
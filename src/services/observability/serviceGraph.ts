@@ -0,0 +1,134 @@
+/**
+ * Service dependency map.
+ *
+ * Joins the caller→callee edges seen in trace spans with the project's
+ * declared ServiceLinks (source = caller, target = callee). An OTel service
+ * name is whatever the app reports, so it is matched to a platform service
+ * by slug, SDL service name or display name. Edges then fall into three
+ * groups: declared and observed, observed without a link, and declared
+ * with no traffic — the last includes links to services that don't emit
+ * spans themselves, such as managed databases.
+ */
+
+import type { ServiceEdge } from './clickhouseClient.js'
+
+export interface GraphService {
+  id: string
+  name: string
+  slug: string
+  sdlServiceName: string | null
+}
+
+export interface GraphLink {
+  id: string
+  sourceServiceId: string
+  targetServiceId: string
+}
+
+export interface ServiceGraphNode {
+  name: string
+  serviceId: string | null
+}
+
+export interface ServiceGraphEdge {
+  caller: string
+  callee: string
+  callerServiceId: string | null
+  calleeServiceId: string | null
+  requestCount: number
+  errorCount: number
+  errorRate: number
+  p50DurationMs: number | null
+  p95DurationMs: number | null
+  declared: boolean
+  observed: boolean
+  serviceLinkId: string | null
+}
+
+export interface ServiceGraph {
+  nodes: ServiceGraphNode[]
+  edges: ServiceGraphEdge[]
+}
+
+export function buildServiceGraph(
+  observed: ServiceEdge[],
+  services: GraphService[],
+  links: GraphLink[]
+): ServiceGraph {
+  // First match wins, so an earlier service's slug beats a later one's name
+  const byName = new Map<string, GraphService>()
+  for (const field of ['slug', 'sdlServiceName', 'name'] as const) {
+    for (const service of services) {
+      const name = service[field]
+      if (name && !byName.has(name)) byName.set(name, service)
+    }
+  }
+  const byId = new Map(services.map(s => [s.id, s]))
+  const linkByPair = new Map(
+    links.map(l => [`${l.sourceServiceId}→${l.targetServiceId}`, l])
+  )
+
+  const nodes = new Map<string, ServiceGraphNode>()
+  // Services that report spans are shown under their OTel name
+  const nodeNameById = new Map<string, string>()
+  const node = (name: string, serviceId: string | null) => {
+    if (!nodes.has(name)) nodes.set(name, { name, serviceId })
+    if (serviceId && !nodeNameById.has(serviceId)) {
+      nodeNameById.set(serviceId, name)
+    }
+  }
+
+  const edges: ServiceGraphEdge[] = []
+  const usedLinks = new Set<string>()
+  for (const edge of observed) {
+    const caller = byName.get(edge.caller)?.id ?? null
+    const callee = byName.get(edge.callee)?.id ?? null
+    node(edge.caller, caller)
+    node(edge.callee, callee)
+    const link =
+      caller && callee ? linkByPair.get(`${caller}→${callee}`) : undefined
+    if (link) usedLinks.add(link.id)
+    edges.push({
+      caller: edge.caller,
+      callee: edge.callee,
+      callerServiceId: caller,
+      calleeServiceId: callee,
+      requestCount: edge.requestCount,
+      errorCount: edge.errorCount,
+      errorRate:
+        edge.requestCount > 0 ? edge.errorCount / edge.requestCount : 0,
+      p50DurationMs: edge.p50DurationMs,
+      p95DurationMs: edge.p95DurationMs,
+      declared: Boolean(link),
+      observed: true,
+      serviceLinkId: link?.id ?? null,
+    })
+  }
+
+  const nameOf = (serviceId: string) => {
+    const known = nodeNameById.get(serviceId)
+    if (known) return known
+    const name = byId.get(serviceId)?.name ?? serviceId
+    node(name, serviceId)
+    return name
+  }
+  for (const link of links) {
+    if (usedLinks.has(link.id)) continue
+    edges.push({
+      caller: nameOf(link.sourceServiceId),
+      callee: nameOf(link.targetServiceId),
+      callerServiceId: link.sourceServiceId,
+      calleeServiceId: link.targetServiceId,
+      requestCount: 0,
+      errorCount: 0,
+      errorRate: 0,
+      p50DurationMs: null,
+      p95DurationMs: null,
+      declared: true,
+      observed: false,
+      serviceLinkId: link.id,
+    })
+  }
+
+  return { nodes: Array.from(nodes.values()), edges }
+}
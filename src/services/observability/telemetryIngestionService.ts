@@ -10,6 +10,7 @@
 import { setInterval, clearInterval } from 'node:timers'
 import type { PrismaClient } from '@prisma/client'
 import { createLogger } from '../../lib/logger.js'
+import { decideAdmission, type ProjectAdmission } from './ingestionLimits.js'
 
 const log = createLogger('telemetry-ingestion')
 
@@ -20,6 +21,10 @@ export interface IngestionEvent {
   metricsCount?: number
   logsCount?: number
   bytesEstimate?: number
+  spansDropped?: number
+  metricsDropped?: number
+  logsDropped?: number
+  bytesDropped?: number
   timestamp?: Date
 }
 
@@ -29,6 +34,10 @@ export interface TelemetryIngestionBuffer {
   metricsCount: number
   logsCount: number
   bytesIngested: bigint
+  spansDropped: number
+  metricsDropped: number
+  logsDropped: number
+  bytesDropped: bigint
   periodStart: Date
   periodEnd: Date
 }
@@ -38,6 +47,9 @@ export class TelemetryIngestionService {
   private flushInterval: NodeJS.Timeout | null = null
   private buffer: Map<string, TelemetryIngestionBuffer> = new Map()
   private readonly flushIntervalMs = 60 * 1000 // 1 minute
+  private admissions: Map<string, { at: number; admission: ProjectAdmission }> =
+    new Map()
+  private readonly admissionTtlMs = 15 * 1000
 
   constructor(prisma: PrismaClient) {
     this.prisma = prisma
@@ -88,6 +100,10 @@ export class TelemetryIngestionService {
       metricsCount = 0,
       logsCount = 0,
       bytesEstimate = 0,
+      spansDropped = 0,
+      metricsDropped = 0,
+      logsDropped = 0,
+      bytesDropped = 0,
     } = event
     const now = new Date()
 
@@ -107,6 +123,10 @@ export class TelemetryIngestionService {
         metricsCount: 0,
         logsCount: 0,
         bytesIngested: BigInt(0),
+        spansDropped: 0,
+        metricsDropped: 0,
+        logsDropped: 0,
+        bytesDropped: BigInt(0),
         periodStart: hourStart,
         periodEnd: hourEnd,
       }
@@ -132,6 +152,10 @@ export class TelemetryIngestionService {
         metricsCount: 0,
         logsCount: 0,
         bytesIngested: BigInt(0),
+        spansDropped: 0,
+        metricsDropped: 0,
+        logsDropped: 0,
+        bytesDropped: BigInt(0),
         periodStart: currentHour,
         periodEnd: hourEnd,
       }
@@ -143,6 +167,49 @@ export class TelemetryIngestionService {
     entry.metricsCount += metricsCount
     entry.logsCount += logsCount
     entry.bytesIngested += BigInt(bytesEstimate)
+    entry.spansDropped += spansDropped
+    entry.metricsDropped += metricsDropped
+    entry.logsDropped += logsDropped
+    entry.bytesDropped += BigInt(bytesDropped)
+  }
+
+  /**
+   * Decide what the collector may keep for a project right now, from its
+   * ObservabilitySettings and the bytes ingested so far this hour (the
+   * flushed row plus whatever is still buffered here). Cached briefly so a
+   * busy collector doesn't turn every batch into two queries.
+   */
+  async getAdmission(
+    projectId: string,
+    now: Date = new Date()
+  ): Promise<ProjectAdmission> {
+    const cached = this.admissions.get(projectId)
+    if (cached && now.getTime() - cached.at < this.admissionTtlMs) {
+      return cached.admission
+    }
+
+    const hourStart = new Date(now)
+    hourStart.setMinutes(0, 0, 0)
+    const [settings, flushed] = await Promise.all([
+      this.prisma.observabilitySettings.findUnique({ where: { projectId } }),
+      this.prisma.telemetryIngestion.findFirst({
+        where: { projectId, periodStart: hourStart },
+        select: { bytesIngested: true },
+      }),
+    ])
+    const buffered = this.buffer.get(projectId)
+    const bytesThisHour =
+      (flushed?.bytesIngested ?? BigInt(0)) +
+      (buffered && buffered.periodStart.getTime() === hourStart.getTime()
+        ? buffered.bytesIngested
+        : BigInt(0))
+
+    const admission = decideAdmission(projectId, settings, bytesThisHour)
+    this.admissions.set(projectId, { at: now.getTime(), admission })
+    if (this.admissions.size > 10_000) {
+      this.admissions.clear()
+    }
+    return admission
   }
 
   /**
@@ -152,7 +219,10 @@ export class TelemetryIngestionService {
     if (
       entry.spansCount === 0 &&
       entry.metricsCount === 0 &&
-      entry.logsCount === 0
+      entry.logsCount === 0 &&
+      entry.spansDropped === 0 &&
+      entry.metricsDropped === 0 &&
+      entry.logsDropped === 0
     ) {
       return // Nothing to flush
     }
@@ -173,6 +243,10 @@ export class TelemetryIngestionService {
           spansCount: entry.spansCount,
           metricsCount: entry.metricsCount,
           logsCount: entry.logsCount,
+          bytesDropped: entry.bytesDropped,
+          spansDropped: entry.spansDropped,
+          metricsDropped: entry.metricsDropped,
+          logsDropped: entry.logsDropped,
           periodStart: entry.periodStart,
           periodEnd: entry.periodEnd,
         },
@@ -189,13 +263,26 @@ export class TelemetryIngestionService {
           logsCount: {
             increment: entry.logsCount,
           },
+          bytesDropped: {
+            increment: entry.bytesDropped,
+          },
+          spansDropped: {
+            increment: entry.spansDropped,
+          },
+          metricsDropped: {
+            increment: entry.metricsDropped,
+          },
+          logsDropped: {
+            increment: entry.logsDropped,
+          },
         },
       })
 
       log.info(
         `Flushed project ${entry.projectId}: ` +
           `spans=${entry.spansCount}, metrics=${entry.metricsCount}, ` +
-          `logs=${entry.logsCount}, bytes=${entry.bytesIngested}`
+          `logs=${entry.logsCount}, bytes=${entry.bytesIngested}, ` +
+          `bytesDropped=${entry.bytesDropped}`
       )
     } catch (error) {
       log.error(error, `Failed to flush project ${entry.projectId}`)
@@ -281,6 +368,10 @@ export class TelemetryIngestionService {
     spansCount: number
     metricsCount: number
     logsCount: number
+    bytesDropped: bigint
+    spansDropped: number
+    metricsDropped: number
+    logsDropped: number
   }> {
     const ingestions = await this.prisma.telemetryIngestion.findMany({
       where: {
@@ -298,12 +389,20 @@ export class TelemetryIngestionService {
     let spansCount = 0
     let metricsCount = 0
     let logsCount = 0
+    let bytesDropped = BigInt(0)
+    let spansDropped = 0
+    let metricsDropped = 0
+    let logsDropped = 0
 
     for (const record of ingestions) {
       bytesIngested += record.bytesIngested
       spansCount += record.spansCount
       metricsCount += record.metricsCount
       logsCount += record.logsCount
+      bytesDropped += record.bytesDropped
+      spansDropped += record.spansDropped
+      metricsDropped += record.metricsDropped
+      logsDropped += record.logsDropped
     }
 
     return {
@@ -311,6 +410,10 @@ export class TelemetryIngestionService {
       spansCount,
       metricsCount,
       logsCount,
+      bytesDropped,
+      spansDropped,
+      metricsDropped,
+      logsDropped,
     }
   }
 
@@ -12,6 +12,7 @@ import {
   type IngestionEvent,
 } from './telemetryIngestionService.js'
 import { createLogger } from '../../lib/logger.js'
+import { ESTIMATED_BYTES, splitByAdmission } from './ingestionLimits.js'
 
 const log = createLogger('telemetry-webhook')
 
@@ -72,9 +73,14 @@ export async function handleTelemetryWebhook(
     const service = getTelemetryIngestionService(prisma)
     const events = parseOTLPPayload(payload)
 
-    // Record all events
+    // Counts are taken before the collector applies admission, so split
+    // them into what was kept (billed) and what was dropped. The response
+    // carries each project's current admission back to the collector.
+    const admissions = []
     for (const event of events) {
-      service.recordIngestion(event)
+      const admission = await service.getAdmission(event.projectId)
+      service.recordIngestion(splitByAdmission(event, admission))
+      admissions.push(admission)
     }
 
     res.statusCode = 200
@@ -83,6 +89,7 @@ export async function handleTelemetryWebhook(
       JSON.stringify({
         success: true,
         eventsRecorded: events.length,
+        admissions,
       })
     )
   } catch (error) {
@@ -173,16 +180,16 @@ function parseOTLPPayload(payload: OTLPPayload): IngestionEvent[] {
 
             if (metric.name === 'af.ingestion.spans') {
               event.spansCount = (event.spansCount ?? 0) + count
-              // Rough estimate: 500 bytes per span on average
-              event.bytesEstimate = (event.bytesEstimate ?? 0) + count * 500
+              event.bytesEstimate =
+                (event.bytesEstimate ?? 0) + count * ESTIMATED_BYTES.traces
             } else if (metric.name === 'af.ingestion.metrics') {
               event.metricsCount = (event.metricsCount ?? 0) + count
-              // Rough estimate: 100 bytes per metric point
-              event.bytesEstimate = (event.bytesEstimate ?? 0) + count * 100
+              event.bytesEstimate =
+                (event.bytesEstimate ?? 0) + count * ESTIMATED_BYTES.metrics
             } else if (metric.name === 'af.ingestion.logs') {
               event.logsCount = (event.logsCount ?? 0) + count
-              // Rough estimate: 1KB per log entry on average
-              event.bytesEstimate = (event.bytesEstimate ?? 0) + count * 1024
+              event.bytesEstimate =
+                (event.bytesEstimate ?? 0) + count * ESTIMATED_BYTES.logs
             }
           }
         }
@@ -193,6 +200,55 @@ function parseOTLPPayload(payload: OTLPPayload): IngestionEvent[] {
   return Array.from(events.values())
 }
 
+/**
+ * Admission lookup for the collector: what to keep for a project right now.
+ * GET ?projectId=...
+ */
+export async function handleTelemetryAdmission(
+  req: IncomingMessage,
+  res: ServerResponse,
+  prisma: PrismaClient
+): Promise<void> {
+  // Fail closed: INTERNAL_AUTH_TOKEN must be configured
+  const authToken = req.headers['x-internal-auth']
+  const expectedToken = process.env.INTERNAL_AUTH_TOKEN
+
+  if (!expectedToken || authToken !== expectedToken) {
+    res.statusCode = 401
+    res.setHeader('Content-Type', 'application/json')
+    res.end(JSON.stringify({ error: 'Unauthorized' }))
+    return
+  }
+
+  const url = new URL(req.url || '/', 'http://localhost')
+  const projectId = url.searchParams.get('projectId')
+  if (!projectId) {
+    res.statusCode = 400
+    res.setHeader('Content-Type', 'application/json')
+    res.end(JSON.stringify({ error: 'projectId is required' }))
+    return
+  }
+
+  try {
+    const service = getTelemetryIngestionService(prisma)
+    const admission = await service.getAdmission(projectId)
+
+    res.statusCode = 200
+    res.setHeader('Content-Type', 'application/json')
+    res.end(JSON.stringify(admission))
+  } catch (error) {
+    log.error(error, 'Admission endpoint error')
+
+    res.statusCode = 500
+    res.setHeader('Content-Type', 'application/json')
+    res.end(
+      JSON.stringify({
+        error: 'Internal server error',
+      })
+    )
+  }
+}
+
 /**
  * Get buffer stats endpoint for monitoring
  */
@@ -0,0 +1,25 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { openEnvSnapshot, sealEnvSnapshot } from './envSnapshot.js'
+
+describe('Phala env snapshots', () => {
+  beforeEach(() => {
+    vi.stubEnv('VAULT_ENCRYPTION_KEY', 'test-key')
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('round-trips the env without exposing values', () => {
+    const sealed = sealEnvSnapshot({ API_KEY: 'secret-1', PORT: '8080' })
+    expect(sealed).not.toContain('secret-1')
+    expect(openEnvSnapshot(sealed)).toEqual({
+      API_KEY: 'secret-1',
+      PORT: '8080',
+    })
+  })
+
+  it('treats a missing snapshot as no env', () => {
+    expect(openEnvSnapshot(null)).toEqual({})
+  })
+})
@@ -0,0 +1,32 @@
+/**
+ * Env snapshots for Phala deployments.
+ *
+ * DEPLOY_CVM seals the exact env it sent (resolved values included) onto
+ * the row with the vault, so a rollback can replay that deployment's
+ * env instead of today's values. `envKeys` stays the readable summary.
+ */
+
+import { openSecret, sealSecret } from '../../lib/vault.js'
+
+export function sealEnvSnapshot(env: Record<string, string>): string {
+  return sealSecret('phala-env', JSON.stringify(env))
+}
+
+/**
+ * Open a snapshot. No snapshot means no env: rollbacks only target rows
+ * that have one or were launched without env vars.
+ */
+export function openEnvSnapshot(
+  sealed: string | null | undefined
+): Record<string, string> {
+  if (!sealed) return {}
+  const parsed: unknown = JSON.parse(openSecret('phala-env', sealed))
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Phala env snapshot is not an object')
+  }
+  const env: Record<string, string> = {}
+  for (const [key, value] of Object.entries(parsed)) {
+    if (typeof value === 'string') env[key] = value
+  }
+  return env
+}
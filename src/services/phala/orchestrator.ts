@@ -130,6 +130,12 @@ export class PhalaOrchestrator {
       cvmSize?: string
       gpuModel?: string
       hourlyRateUsd?: number
+      /**
+       * Earlier deployment this one replays (`rollbackService`). DEPLOY_CVM
+       * then sends `sealedEnvSnapshot`, the env that deployment ran with.
+       */
+      rollbackOfId?: string | null
+      sealedEnvSnapshot?: string | null
     }
   ): Promise<string> {
     const service = await this.prisma.service.findUnique({
@@ -189,6 +195,7 @@ export class PhalaOrchestrator {
         status: 'CREATING',
         composeContent: options.composeContent,
         envKeys: envKeys.length > 0 ? (envKeys as string[]) : undefined,
+        sealedEnvSnapshot: options.sealedEnvSnapshot ?? null,
         cvmSize,
         gpuModel: options.gpuModel ?? null,
         serviceId,
@@ -199,6 +206,7 @@ export class PhalaOrchestrator {
         orgBillingId,
         organizationId,
         retryCount: 0,
+        rollbackOfId: options.rollbackOfId ?? null,
       },
     })
 
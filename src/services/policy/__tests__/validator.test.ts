@@ -64,6 +64,36 @@ describe('validatePolicyInput', () => {
     expect(result.allowed).toBe(false)
     expect(result.reason).toContain('empty strings')
   })
+
+  test('allows autoscaling rules with a ceiling and a target', () => {
+    const result = validatePolicyInput({
+      minReplicas: 2,
+      maxReplicas: 5,
+      targetP95LatencyMs: 300,
+    })
+    expect(result.allowed).toBe(true)
+  })
+
+  test('rejects autoscaling targets without maxReplicas', () => {
+    const result = validatePolicyInput({ targetRequestsPerSecond: 50 })
+    expect(result.allowed).toBe(false)
+    expect(result.reason).toContain('maxReplicas')
+  })
+
+  test('rejects minReplicas above maxReplicas', () => {
+    const result = validatePolicyInput({
+      minReplicas: 4,
+      maxReplicas: 3,
+      targetRequestsPerSecond: 50,
+    })
+    expect(result.allowed).toBe(false)
+  })
+
+  test('rejects autoscaling without a target', () => {
+    const result = validatePolicyInput({ maxReplicas: 3 })
+    expect(result.allowed).toBe(false)
+    expect(result.reason).toContain('targetP95LatencyMs')
+  })
 })
 
 describe('validateBudgetBeforeDeploy', () => {
@@ -8,6 +8,7 @@ import {
 } from '../billing/deploymentSettlement.js'
 import { tryGetProvider } from '../providers/registry.js'
 import { audit } from '../../lib/audit.js'
+import { notify } from '../notifications/notify.js'
 
 const log = createLogger('policy-enforcer')
 
@@ -188,6 +189,18 @@ export async function stopForPolicy(
     deploymentId,
     payload: { reason, policyId: policy.id, provider },
   })
+  notify(prisma, {
+    event: 'policy.stopped',
+    severity: 'warning',
+    title: 'Deployment stopped by policy',
+    message:
+      reason === 'BUDGET_EXCEEDED'
+        ? 'The deployment reached its policy budget and was stopped.'
+        : 'The deployment reached its policy runtime limit and was stopped.',
+    deploymentId,
+    dedupeKey: `policy.stopped:${policy.id}`,
+    data: { reason, provider },
+  })
 }
 
 /**
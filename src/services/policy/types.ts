@@ -9,6 +9,11 @@ export interface DeploymentPolicyInput {
   maxBudgetUsd?: number
   maxMonthlyUsd?: number
   runtimeMinutes?: number
+  minReplicas?: number
+  maxReplicas?: number
+  targetP95LatencyMs?: number
+  /** Per replica. */
+  targetRequestsPerSecond?: number
 }
 
 export interface DeploymentPolicyRecord {
@@ -19,6 +24,11 @@ export interface DeploymentPolicyRecord {
   maxBudgetUsd: number | null
   maxMonthlyUsd: number | null
   runtimeMinutes: number | null
+  minReplicas: number | null
+  maxReplicas: number | null
+  targetP95LatencyMs: number | null
+  targetRequestsPerSecond: number | null
+  lastScaledAt: Date | null
   expiresAt: Date | null
   stopReason: PolicyStopReason | null
   stoppedAt: Date | null
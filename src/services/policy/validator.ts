@@ -86,6 +86,9 @@ export function validatePolicyInput(input: DeploymentPolicyInput): PolicyValidat
     return { allowed: false, reason: 'GPU units must be between 1 and 8' }
   }
 
+  const autoscaling = validateAutoscalingInput(input)
+  if (!autoscaling.allowed) return autoscaling
+
   if (input.acceptableGpuModels?.length) {
     const invalid = input.acceptableGpuModels.filter((m) => !m.trim())
     if (invalid.length) {
@@ -95,3 +98,75 @@ export function validatePolicyInput(input: DeploymentPolicyInput): PolicyValidat
 
   return { allowed: true }
 }
+
+/** Upper bound for `maxReplicas`; matches the manual `Service.replicas` cap. */
+export const MAX_AUTOSCALE_REPLICAS = 10
+
+/**
+ * Autoscaling rules need a ceiling and something to scale on; the floor
+ * defaults to one replica.
+ */
+function validateAutoscalingInput(
+  input: DeploymentPolicyInput
+): PolicyValidationResult {
+  // GraphQL hands over explicit nulls for unset fields.
+  const minReplicas = input.minReplicas ?? null
+  const maxReplicas = input.maxReplicas ?? null
+  const targetP95LatencyMs = input.targetP95LatencyMs ?? null
+  const targetRequestsPerSecond = input.targetRequestsPerSecond ?? null
+  const hasTarget =
+    targetP95LatencyMs !== null || targetRequestsPerSecond !== null
+
+  if (maxReplicas === null) {
+    if (minReplicas !== null || hasTarget) {
+      return { allowed: false, reason: 'Autoscaling rules require maxReplicas' }
+    }
+    return { allowed: true }
+  }
+
+  if (
+    !Number.isInteger(maxReplicas) ||
+    maxReplicas < 1 ||
+    maxReplicas > MAX_AUTOSCALE_REPLICAS
+  ) {
+    return {
+      allowed: false,
+      reason: `maxReplicas must be between 1 and ${MAX_AUTOSCALE_REPLICAS}`,
+    }
+  }
+
+  if (
+    minReplicas !== null &&
+    (!Number.isInteger(minReplicas) ||
+      minReplicas < 1 ||
+      minReplicas > maxReplicas)
+  ) {
+    return {
+      allowed: false,
+      reason: 'minReplicas must be between 1 and maxReplicas',
+    }
+  }
+
+  if (!hasTarget) {
+    return {
+      allowed: false,
+      reason: 'Autoscaling needs targetP95LatencyMs or targetRequestsPerSecond',
+    }
+  }
+
+  if (targetP95LatencyMs !== null && targetP95LatencyMs <= 0) {
+    return {
+      allowed: false,
+      reason: 'targetP95LatencyMs must be greater than zero',
+    }
+  }
+
+  if (targetRequestsPerSecond !== null && targetRequestsPerSecond <= 0) {
+    return {
+      allowed: false,
+      reason: 'targetRequestsPerSecond must be greater than zero',
+    }
+  }
+
+  return { allowed: true }
+}
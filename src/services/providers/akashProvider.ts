@@ -18,6 +18,8 @@ import type {
   DeploymentProvider,
   DeploymentProviderDescriptor,
   DeployOptions,
+  DeployTargetQuote,
+  DeployTargetRequest,
   DeploymentResult,
   DeploymentStatusResult,
   DeploymentHealthResult,
@@ -169,6 +171,66 @@ export class AkashProvider implements DeploymentProvider {
     }
   }
 
+  /**
+   * Quote from the region picker's 24h bid medians. Without a region the
+   * cheapest available bucket sets the price, but the deploy itself stays
+   * region-less ("cheapest globally") so bidding isn't narrowed.
+   */
+  async quoteDeployTarget(
+    request: DeployTargetRequest
+  ): Promise<DeployTargetQuote> {
+    const { regionsQueries } = await import('../../resolvers/regions.js')
+    const rows = await regionsQueries.regions(
+      undefined,
+      { provider: 'AKASH' },
+      { prisma: this.prisma }
+    )
+    const gpuKey = (request.gpu?.model ?? '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]/g, '')
+
+    let best: { region: string; price: number | null } | null = null
+    for (const row of rows) {
+      if (!row.available) continue
+      if (request.region && row.id !== request.region) continue
+      const m = row.medianPrices
+      let price: number | null
+      if (!request.gpu) {
+        price = m.cpu1Core !== null ? m.cpu1Core * (request.cpu ?? 1) : null
+      } else {
+        const perGpu =
+          gpuKey in m && gpuKey !== 'cpu1Core'
+            ? m[gpuKey as keyof typeof m]
+            : null
+        price = perGpu !== null ? perGpu * request.gpu.units : null
+      }
+      const cheaper =
+        price !== null && (best?.price === null || price < (best?.price ?? 0))
+      if (!best || cheaper) best = { region: row.id, price }
+    }
+
+    if (!best) {
+      return {
+        provider: this.name,
+        available: false,
+        estimatedHourlyUsd: null,
+        reason: request.region
+          ? `No verified Akash providers in region ${request.region}`
+          : 'No verified Akash providers in any region',
+      }
+    }
+    return {
+      provider: this.name,
+      available: true,
+      estimatedHourlyUsd: best.price,
+      region: request.region ?? null,
+      reason:
+        best.price === null
+          ? 'No recent bid median for this workload'
+          : `Median of recent bids in ${best.region}`,
+    }
+  }
+
   async stop(_deploymentId: string): Promise<void> {
     throw new Error('Akash does not support stop/resume. Use close() to permanently terminate.')
   }
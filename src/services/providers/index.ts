@@ -2,6 +2,8 @@ export type {
   DeploymentProvider,
   DeploymentProviderFactory,
   DeployOptions,
+  DeployTargetRequest,
+  DeployTargetQuote,
   DeploymentResult,
   DeploymentStatusResult,
   DeploymentHealthResult,
@@ -17,6 +17,8 @@ import type {
   DeploymentProvider,
   DeploymentProviderDescriptor,
   DeployOptions,
+  DeployTargetQuote,
+  DeployTargetRequest,
   DeploymentResult,
   DeploymentStatusResult,
   DeploymentHealthResult,
@@ -30,6 +32,8 @@ import type {
   ProviderStatus,
 } from './types.js'
 import { getPhalaOrchestrator } from '../phala/orchestrator.js'
+import { resolvePhalaInstanceType } from '../phala/instanceTypes.js'
+import type { TemplateGpu } from '../../templates/schema.js'
 import { processFinalPhalaBilling } from '../billing/deploymentSettlement.js'
 import { scheduleOrEnforcePolicyExpiry } from '../policy/runtimeScheduler.js'
 import { createLogger } from '../../lib/logger.js'
@@ -138,6 +142,56 @@ export class PhalaProvider implements DeploymentProvider {
     }
   }
 
+  /**
+   * Quote from the CVM instance catalog via the same resolver
+   * `deployToPhala` uses. Phala Cloud is single-region, so a request pinned
+   * to a region bucket is never quoted as available.
+   */
+  async quoteDeployTarget(
+    request: DeployTargetRequest
+  ): Promise<DeployTargetQuote> {
+    if (request.region) {
+      return {
+        provider: this.name,
+        available: false,
+        estimatedHourlyUsd: null,
+        reason: 'Phala Cloud is single-region',
+      }
+    }
+    try {
+      const instance = await resolvePhalaInstanceType(
+        {
+          cpu: request.cpu ?? 1,
+          memory: request.memory ?? '2Gi',
+          storage: '20Gi',
+          gpu: request.gpu
+            ? {
+                units: request.gpu.units,
+                vendor: request.gpu.vendor as TemplateGpu['vendor'],
+                model: request.gpu.model ?? undefined,
+              }
+            : undefined,
+        },
+        request.acceptableGpuModels,
+        request.gpu?.units
+      )
+      return {
+        provider: this.name,
+        available: true,
+        estimatedHourlyUsd: instance.hourlyRateUsd,
+        region: null,
+        reason: `${instance.cvmSize} CVM`,
+      }
+    } catch (err) {
+      return {
+        provider: this.name,
+        available: false,
+        estimatedHourlyUsd: null,
+        reason: (err as Error).message,
+      }
+    }
+  }
+
   async stop(deploymentId: string): Promise<void> {
     const deployment = await this.prisma.phalaDeployment.findUnique({
       where: { id: deploymentId },
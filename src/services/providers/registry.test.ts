@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest'
+import {
+  quoteDeployTargets,
+  rankDeployTargets,
+  registerProvider,
+} from './registry.js'
+import type {
+  DeployTargetQuote,
+  DeploymentProvider,
+  DeployTargetRequest,
+} from './types.js'
+
+function fakeProvider(
+  name: string,
+  quote?: (request: DeployTargetRequest) => Promise<DeployTargetQuote>
+): DeploymentProvider {
+  return {
+    name,
+    displayName: name,
+    isAvailable: () => true,
+    quoteDeployTarget: quote,
+  } as unknown as DeploymentProvider
+}
+
+describe('rankDeployTargets', () => {
+  it('puts available, priced, cheaper quotes first and keeps ties stable', () => {
+    const ranked = rankDeployTargets([
+      { provider: 'a', available: false, estimatedHourlyUsd: 0.1 },
+      { provider: 'b', available: true, estimatedHourlyUsd: null },
+      { provider: 'c', available: true, estimatedHourlyUsd: 2 },
+      { provider: 'd', available: true, estimatedHourlyUsd: 0.5 },
+      { provider: 'e', available: true, estimatedHourlyUsd: 0.5 },
+    ])
+    expect(ranked.map(q => q.provider)).toEqual(['d', 'e', 'c', 'b', 'a'])
+  })
+})
+
+describe('quoteDeployTargets', () => {
+  it('skips providers without quotes and maps a failed quote to unavailable', async () => {
+    registerProvider(fakeProvider('quote-none'))
+    registerProvider(
+      fakeProvider('quote-ok', async () => ({
+        provider: 'quote-ok',
+        available: true,
+        estimatedHourlyUsd: 1.25,
+      }))
+    )
+    registerProvider(
+      fakeProvider('quote-broken', async () => {
+        throw new Error('catalog down')
+      })
+    )
+
+    const quotes = await quoteDeployTargets({
+      serviceId: 'svc-1',
+      serviceType: 'VM',
+      gpu: { units: 1, vendor: 'nvidia' },
+    })
+
+    expect(quotes).toEqual([
+      { provider: 'quote-ok', available: true, estimatedHourlyUsd: 1.25 },
+      {
+        provider: 'quote-broken',
+        available: false,
+        estimatedHourlyUsd: null,
+        reason: 'Quote failed',
+      },
+    ])
+  })
+})
@@ -31,6 +31,8 @@ import type {
   DeploymentLifecycle,
   DeploymentProvider,
   DeploymentProviderDescriptor,
+  DeployTargetQuote,
+  DeployTargetRequest,
 } from './types.js'
 import { createLogger } from '../../lib/logger.js'
 
@@ -331,3 +333,55 @@ export function findProviderForNativeStatus(
   }
   return null
 }
+
+// ---------------------------------------------------------------------------
+// Deploy target selection (`deployService` auto mode)
+// ---------------------------------------------------------------------------
+
+/**
+ * Ask every available provider that implements `quoteDeployTarget` to
+ * quote the request. A provider whose quote throws is reported as
+ * unavailable rather than failing the whole selection.
+ */
+export async function quoteDeployTargets(
+  request: DeployTargetRequest
+): Promise<DeployTargetQuote[]> {
+  return Promise.all(
+    getAvailableProviders().flatMap(provider => {
+      const quote = provider.quoteDeployTarget?.bind(provider)
+      if (!quote) return []
+      return quote(request).catch((err): DeployTargetQuote => {
+        log.warn({ err, provider: provider.name }, 'Deploy target quote failed')
+        return {
+          provider: provider.name,
+          available: false,
+          estimatedHourlyUsd: null,
+          reason: 'Quote failed',
+        }
+      })
+    })
+  )
+}
+
+/**
+ * Order quotes best-first: available before unavailable, priced before
+ * unpriced, then cheapest. Ties keep registration order, so the first
+ * registered provider (Akash) wins when nothing distinguishes them.
+ */
+export function rankDeployTargets(
+  quotes: DeployTargetQuote[]
+): DeployTargetQuote[] {
+  return quotes
+    .map((quote, index) => ({ quote, index }))
+    .sort((a, b) => {
+      if (a.quote.available !== b.quote.available) {
+        return a.quote.available ? -1 : 1
+      }
+      const pa = a.quote.estimatedHourlyUsd
+      const pb = b.quote.estimatedHourlyUsd
+      if ((pa === null) !== (pb === null)) return pa === null ? 1 : -1
+      if (pa !== null && pb !== null && pa !== pb) return pa - pb
+      return a.index - b.index
+    })
+    .map(({ quote }) => quote)
+}
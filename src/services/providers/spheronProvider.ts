@@ -32,6 +32,8 @@ import type {
   DeploymentProvider,
   DeploymentProviderDescriptor,
   DeployOptions,
+  DeployTargetQuote,
+  DeployTargetRequest,
   DeploymentResult,
   DeploymentStatusResult,
   DeploymentHealthResult,
@@ -48,6 +50,10 @@ import type {
 } from './types.js'
 import { getSpheronOrchestrator } from '../spheron/orchestrator.js'
 import { SpheronApiError, getSpheronClient } from '../spheron/client.js'
+import {
+  NoSpheronCapacityError,
+  pickSpheronOffer,
+} from '../spheron/offerPicker.js'
 import { processFinalSpheronBilling } from '../billing/deploymentSettlement.js'
 import { opsAlert } from '../../lib/opsAlert.js'
 import { createLogger } from '../../lib/logger.js'
@@ -148,6 +154,57 @@ export class SpheronProvider implements DeploymentProvider {
     )
   }
 
+  /**
+   * Quote by running the same live-catalog offer picker `deployToSpheron`
+   * uses, so an available quote means the deploy would find that offer.
+   * Spheron is GPU-only and has no FUNCTION/BUCKET runtime.
+   */
+  async quoteDeployTarget(
+    request: DeployTargetRequest
+  ): Promise<DeployTargetQuote> {
+    const unavailable = (reason: string): DeployTargetQuote => ({
+      provider: this.name,
+      available: false,
+      estimatedHourlyUsd: null,
+      reason,
+    })
+    if (!request.gpu) return unavailable('Spheron only offers GPU instances')
+    if (
+      request.serviceType === 'FUNCTION' ||
+      request.serviceType === 'BUCKET'
+    ) {
+      return unavailable(
+        `${request.serviceType} services are not supported on Spheron`
+      )
+    }
+    const client = getSpheronClient()
+    if (!client) return unavailable('Spheron is not configured on this server')
+
+    const acceptableGpuModels = request.acceptableGpuModels?.length
+      ? request.acceptableGpuModels
+      : request.gpu.model
+        ? [request.gpu.model]
+        : []
+    try {
+      const picked = await pickSpheronOffer({
+        client,
+        instanceType: 'DEDICATED',
+        bucket: request.region ?? null,
+        gpuConstraint: { gpuCount: request.gpu.units, acceptableGpuModels },
+      })
+      return {
+        provider: this.name,
+        available: true,
+        estimatedHourlyUsd: picked.offer.price,
+        region: request.region ?? null,
+        reason: `${picked.group.gpuType} offer from ${picked.offer.provider}`,
+      }
+    } catch (err) {
+      if (err instanceof NoSpheronCapacityError) return unavailable(err.reason)
+      throw err
+    }
+  }
+
   async stop(_deploymentId: string): Promise<void> {
     throw new Error(
       'Spheron does not support stop — the upstream API only exposes ' +
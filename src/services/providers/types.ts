@@ -40,6 +40,37 @@ export interface DeployOptions {
   sourceCode?: string
 }
 
+// ─── Deploy target quotes ────────────────────────────────────────
+
+/**
+ * Provider-neutral description of what a deploy needs. `deployService`
+ * in auto mode asks every registered provider to quote it and picks the
+ * cheapest one that can actually take the workload.
+ */
+export interface DeployTargetRequest {
+  serviceId: string
+  serviceType: string
+  /** Curated region bucket (us-east | us-west | eu | asia); null = any. */
+  region?: string | null
+  gpu?: { units: number; vendor: string; model?: string | null } | null
+  /** Acceptable GPU models from the deployment policy, if any. */
+  acceptableGpuModels?: string[]
+  cpu?: number
+  memory?: string
+}
+
+export interface DeployTargetQuote {
+  provider: string
+  /** False when the provider cannot take this workload right now. */
+  available: boolean
+  /** Raw provider cost in USD/hour (before margin); null = no price signal. */
+  estimatedHourlyUsd: number | null
+  /** Concrete region/cluster the provider would use, when known. */
+  region?: string | null
+  /** Why the provider is unavailable, or a short note on the price source. */
+  reason?: string | null
+}
+
 // ─── Log options ─────────────────────────────────────────────────
 
 export interface LogOptions {
@@ -268,6 +299,13 @@ export interface DeploymentProvider {
     deployment: { status: string; errorMessage?: string | null } & Record<string, unknown>,
   ): string | null
 
+  /**
+   * Quote a deploy for `deployService` auto mode: can this provider take
+   * the workload, and at roughly what hourly cost. Must not create any
+   * resources. Providers that omit it are only used when named explicitly.
+   */
+  quoteDeployTarget?(request: DeployTargetRequest): Promise<DeployTargetQuote>
+
   /**
    * Get deployment logs.
    */
@@ -20,6 +20,15 @@ vi.mock('http-proxy', () => ({
   },
 }))
 
+// Backend health for the replicated-service rotation
+const mockGetBackendOverall = vi.fn().mockReturnValue('unknown')
+
+vi.mock('../health/applicationHealthRunner.js', () => ({
+  getApplicationHealthRunner: () => ({
+    getBackendOverall: mockGetBackendOverall,
+  }),
+}))
+
 import { SubdomainProxy } from './subdomainProxy.js'
 import type { ServerResponse } from 'node:http'
 
@@ -380,6 +389,67 @@ describe('SubdomainProxy', () => {
     })
   })
 
+  // ── replicas ────────────────────────────────────────────────────────────
+
+  describe('replicated services', () => {
+    const replicated = {
+      id: 'svc-1',
+      type: 'VM',
+      replicas: 3,
+      containerPort: 8080,
+      akashDeployments: [{
+        serviceUrls: { web: { uris: ['akash-provider.com:9090'] } },
+        status: 'ACTIVE',
+      }],
+      phalaDeployments: [{
+        appUrl: 'https://phala-app.example.com',
+        status: 'ACTIVE',
+      }],
+      spheronDeployments: [{ ipAddress: '198.51.100.7', status: 'ACTIVE' }],
+      ports: [],
+    }
+
+    async function targetsFor(count: number): Promise<string[]> {
+      const out: string[] = []
+      for (let i = 0; i < count; i++) {
+        await proxy.handleRequest(mockReq('scaled-app.alternatefutures.ai'), mockRes())
+        out.push(mockProxyWeb.mock.calls[i][2].target)
+      }
+      return out
+    }
+
+    it('should round-robin across every active backend', async () => {
+      mockFindFirst.mockResolvedValue(replicated)
+      mockGetBackendOverall.mockReturnValue('healthy')
+
+      expect(await targetsFor(4)).toEqual([
+        'http://akash-provider.com:9090',
+        'https://phala-app.example.com',
+        'http://198.51.100.7:8080',
+        'http://akash-provider.com:9090',
+      ])
+      expect(mockFindFirst).toHaveBeenCalledTimes(1)
+    })
+
+    it('should eject backends the health runner marks unhealthy', async () => {
+      mockFindFirst.mockResolvedValue(replicated)
+      mockGetBackendOverall.mockImplementation((uri: string) =>
+        uri.includes('phala') ? 'unhealthy' : 'healthy'
+      )
+
+      const targets = await targetsFor(4)
+      expect(targets).not.toContain('https://phala-app.example.com')
+      expect(new Set(targets).size).toBe(2)
+    })
+
+    it('should keep serving from all backends when every one is unhealthy', async () => {
+      mockFindFirst.mockResolvedValue(replicated)
+      mockGetBackendOverall.mockReturnValue('unhealthy')
+
+      expect(new Set(await targetsFor(3)).size).toBe(3)
+    })
+  })
+
   // ── flushCache ──────────────────────────────────────────────────────────
 
   describe('flushCache', () => {
@@ -11,6 +11,10 @@
  *
  * Architecture:
  *   User -> Cloudflare (wildcard DNS) -> Traefik (K3s) -> this proxy -> Akash/Phala provider
+ *
+ * Services with `replicas > 1` resolve to every ACTIVE backend across
+ * providers; requests round-robin over the ones the application health
+ * runner does not currently mark unhealthy.
  */
 
 import httpProxy from 'http-proxy'
@@ -19,6 +23,7 @@ import type { PrismaClient } from '@prisma/client'
 import { lookup } from 'node:dns/promises'
 import { isIP } from 'node:net'
 import { createLogger } from '../../lib/logger.js'
+import { getApplicationHealthRunner } from '../health/applicationHealthRunner.js'
 
 const log = createLogger('subdomain-proxy')
 
@@ -39,6 +44,9 @@ const CACHE_TTL_MS = parseInt(process.env.PROXY_CACHE_TTL_MS || '30000', 10)
 /** Max entries in the LRU cache */
 const CACHE_MAX_SIZE = parseInt(process.env.PROXY_CACHE_MAX_SIZE || '1000', 10)
 
+/** Per-provider ACTIVE deployments considered for a replicated service */
+const MAX_BACKENDS_PER_PROVIDER = 10
+
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
@@ -46,13 +54,15 @@ const CACHE_MAX_SIZE = parseInt(process.env.PROXY_CACHE_MAX_SIZE || '1000', 10)
 export type ProxyTier = 'apps' | 'agents'
 
 interface CacheEntry {
-  target: string // e.g. "http://provider.gpu.subangle.com:31192"
+  targets: string[] // e.g. ["http://provider.gpu.subangle.com:31192"]
   status: string // e.g. "ACTIVE"
   createdAt: number
 }
 
 interface BackendLookupResult {
   target: string | null
+  /** Every backend when the service is replicated; otherwise just `target`. */
+  targets?: string[]
   status: string
   serviceId?: string
   tier: ProxyTier
@@ -85,13 +95,13 @@ class BackendCache {
     return entry
   }
 
-  set(key: string, target: string, status: string): void {
+  set(key: string, targets: string[], status: string): void {
     // Evict oldest if at capacity
     if (this.cache.size >= this.maxSize) {
       const oldest = this.cache.keys().next().value
       if (oldest !== undefined) this.cache.delete(oldest)
     }
-    this.cache.set(key, { target, status, createdAt: Date.now() })
+    this.cache.set(key, { targets, status, createdAt: Date.now() })
   }
 
   invalidate(key: string): void {
@@ -176,6 +186,8 @@ export class SubdomainProxy {
   private prisma: PrismaClient
   private proxy: httpProxy
   private cache: BackendCache
+  /** Round-robin cursor per cache key for replicated services. */
+  private cursors = new Map<string, number>()
 
   constructor(prisma: PrismaClient) {
     this.prisma = prisma
@@ -265,31 +277,9 @@ export class SubdomainProxy {
     if (!parsed) return false
 
     const { tier, slug } = parsed
-    const cacheKey = `${tier}:${slug}`
-
-    // Cached targets have already been DNS-resolved and rejected if private.
-    let cached = this.cache.get(cacheKey)
-    if (!cached) {
-      const backend = await this.lookupBackend(slug, tier)
-      if (!backend.target) {
-        this.sendError(res, backend)
-        return true
-      }
-
-      // Resolve DNS and reject private IPs BEFORE caching the entry.
-      const pinnedTarget = await resolveAndValidateTarget(backend.target)
-      if (!pinnedTarget) {
-        log.warn({ slug, tier, target: backend.target }, 'SSRF blocked: internal target')
-        this.sendError(res, { target: null, status: 'INTERNAL_ERROR', tier })
-        return true
-      }
-
-      this.cache.set(cacheKey, pinnedTarget, backend.status)
-      cached = this.cache.get(cacheKey)
-    }
-
-    if (!cached) {
-      this.sendError(res, { target: null, status: 'NOT_FOUND', tier })
+    const resolved = await this.resolveTargets(slug, tier)
+    if ('error' in resolved) {
+      this.sendError(res, resolved.error)
       return true
     }
 
@@ -298,7 +288,9 @@ export class SubdomainProxy {
     req.headers['x-af-tier'] = tier
     req.headers['x-af-slug'] = slug
 
-    this.proxy.web(req, res, { target: cached.target })
+    this.proxy.web(req, res, {
+      target: this.pickTarget(`${tier}:${slug}`, resolved.targets),
+    })
     return true
   }
 
@@ -316,36 +308,71 @@ export class SubdomainProxy {
     if (!parsed) return false
 
     const { tier, slug } = parsed
-    const cacheKey = `${tier}:${slug}`
-
-    let cached = this.cache.get(cacheKey)
-    if (!cached) {
-      const backend = await this.lookupBackend(slug, tier)
-      if (!backend.target) {
-        socket.destroy()
-        return true
-      }
-
-      const pinnedTarget = await resolveAndValidateTarget(backend.target)
-      if (!pinnedTarget) {
-        log.warn({ slug, tier, target: backend.target }, 'SSRF blocked: internal WS target')
-        socket.destroy()
-        return true
-      }
-
-      this.cache.set(cacheKey, pinnedTarget, backend.status)
-      cached = this.cache.get(cacheKey)
-    }
-
-    if (!cached) {
+    const resolved = await this.resolveTargets(slug, tier)
+    if ('error' in resolved) {
       socket.destroy()
       return true
     }
 
-    this.proxy.ws(req, socket, head, { target: cached.target })
+    this.proxy.ws(req, socket, head, {
+      target: this.pickTarget(`${tier}:${slug}`, resolved.targets),
+    })
     return true
   }
 
+  /**
+   * Cached-or-fresh backend list for a slug. Cached targets have already
+   * been DNS-resolved and rejected if private; for replicated services a
+   * private backend is dropped rather than failing the whole slug.
+   */
+  private async resolveTargets(
+    slug: string,
+    tier: ProxyTier
+  ): Promise<{ targets: string[] } | { error: BackendLookupResult }> {
+    const cacheKey = `${tier}:${slug}`
+    const cached = this.cache.get(cacheKey)
+    if (cached) return { targets: cached.targets }
+
+    const backend = await this.lookupBackend(slug, tier)
+    if (!backend.target) return { error: backend }
+
+    // Resolve DNS and reject private IPs BEFORE caching the entry.
+    const candidates = backend.targets ?? [backend.target]
+    const validated = await Promise.all(
+      candidates.map(resolveAndValidateTarget)
+    )
+    const targets = validated.filter((t): t is string => t !== null)
+    if (targets.length < candidates.length) {
+      log.warn(
+        { slug, tier, blocked: candidates.filter((_, i) => !validated[i]) },
+        'SSRF blocked: internal target'
+      )
+    }
+    if (targets.length === 0) {
+      return { error: { target: null, status: 'INTERNAL_ERROR', tier } }
+    }
+
+    this.cache.set(cacheKey, targets, backend.status)
+    return { targets }
+  }
+
+  /**
+   * Round-robin over the backends the health runner has not marked
+   * unhealthy. If every backend is unhealthy, keep serving from all of
+   * them — a probe misconfiguration must not black-hole the service.
+   */
+  private pickTarget(cacheKey: string, targets: string[]): string {
+    if (targets.length === 1) return targets[0]
+    const runner = getApplicationHealthRunner()
+    const healthy = targets.filter(
+      t => runner.getBackendOverall(t) !== 'unhealthy'
+    )
+    const pool = healthy.length > 0 ? healthy : targets
+    const cursor = this.cursors.get(cacheKey) ?? 0
+    this.cursors.set(cacheKey, (cursor + 1) % Number.MAX_SAFE_INTEGER)
+    return pool[cursor % pool.length]
+  }
+
   /** Invalidate cache for a specific slug (call after deployment changes) */
   invalidateSlug(slug: string, tier?: ProxyTier): void {
     if (tier) {
@@ -359,6 +386,7 @@ export class SubdomainProxy {
   /** Flush entire cache */
   flushCache(): void {
     this.cache.clear()
+    this.cursors.clear()
   }
 
   // -------------------------------------------------------------------------
@@ -394,22 +422,23 @@ export class SubdomainProxy {
           sdlServiceName: true,
           parentServiceId: true,
           containerPort: true,
+          replicas: true,
           akashDeployments: {
             where: { status: 'ACTIVE' },
             orderBy: { deployedAt: 'desc' },
-            take: 1,
+            take: MAX_BACKENDS_PER_PROVIDER,
             select: { serviceUrls: true, status: true },
           },
           phalaDeployments: {
             where: { status: 'ACTIVE' },
             orderBy: { createdAt: 'desc' },
-            take: 1,
+            take: MAX_BACKENDS_PER_PROVIDER,
             select: { appUrl: true, status: true },
           },
           spheronDeployments: {
             where: { status: 'ACTIVE' },
             orderBy: { createdAt: 'desc' },
-            take: 1,
+            take: MAX_BACKENDS_PER_PROVIDER,
             select: { ipAddress: true, status: true },
           },
           ports: {
@@ -441,42 +470,54 @@ export class SubdomainProxy {
         akashDep = parent?.akashDeployments[0]
       }
 
-      // Try Akash
-      if (akashDep?.serviceUrls) {
-        const urls = akashDep.serviceUrls as Record<string, { uris?: string[] }>
-
-        // If this service has an sdlServiceName, use it for a direct lookup
-        // instead of iterating (needed for multi-service deployments with
-        // multiple globally-exposed containers).
-        let uri: string | undefined
-        if (
-          service.sdlServiceName &&
-          urls[service.sdlServiceName]?.uris?.length
-        ) {
-          uri = urls[service.sdlServiceName].uris![0]
-        } else {
-          // Fallback: find the first service with externally-reachable URIs
-          for (const svc of Object.values(urls)) {
-            if (svc.uris?.length) {
-              uri = svc.uris[0]
-              break
-            }
+      // Replicated: every ACTIVE backend, same precedence order as below
+      // so `target` matches what a single-replica lookup would pick.
+      if ((service.replicas ?? 1) > 1) {
+        const port = spheronHostPort(service)
+        const targets = [
+          ...service.akashDeployments.map(d =>
+            akashTarget(d.serviceUrls, service.sdlServiceName)
+          ),
+          ...service.phalaDeployments.map(d => phalaTarget(d.appUrl)),
+          ...service.spheronDeployments.map(d =>
+            d.ipAddress ? `http://${d.ipAddress}:${port}` : null
+          ),
+        ].filter((t): t is string => !!t)
+        if (targets.length > 0) {
+          return {
+            target: targets[0],
+            targets,
+            status: 'ACTIVE',
+            serviceId: service.id,
+            tier,
           }
         }
+      }
 
-        if (uri) {
-          const target = uri.startsWith('http') ? uri : `http://${uri}`
-          return { target, status: 'ACTIVE', serviceId: service.id, tier }
+      // Try Akash
+      const akashUri = akashTarget(
+        akashDep?.serviceUrls,
+        service.sdlServiceName
+      )
+      if (akashUri) {
+        return {
+          target: akashUri,
+          status: 'ACTIVE',
+          serviceId: service.id,
+          tier,
         }
       }
 
       // Try Phala
       const phalaDep = service.phalaDeployments[0]
-      if (phalaDep?.appUrl) {
-        const target = phalaDep.appUrl.startsWith('http')
-          ? phalaDep.appUrl
-          : `https://${phalaDep.appUrl}`
-        return { target, status: 'ACTIVE', serviceId: service.id, tier }
+      const phalaUri = phalaTarget(phalaDep?.appUrl)
+      if (phalaUri) {
+        return {
+          target: phalaUri,
+          status: 'ACTIVE',
+          serviceId: service.id,
+          tier,
+        }
       }
 
       // Try Spheron — `http://<ipAddress>:<hostPort>` directly. Spheron VMs
@@ -490,13 +531,7 @@ export class SubdomainProxy {
       // For ports with no publicPort, `containerPort` is also the host bind.
       const spheronDep = service.spheronDeployments?.[0]
       if (spheronDep?.ipAddress) {
-        const firstPort = service.ports?.[0]
-        const port =
-          firstPort?.publicPort ??
-          firstPort?.containerPort ??
-          service.containerPort ??
-          80
-        const target = `http://${spheronDep.ipAddress}:${port}`
+        const target = `http://${spheronDep.ipAddress}:${spheronHostPort(service)}`
         return { target, status: 'ACTIVE', serviceId: service.id, tier }
       }
 
@@ -578,6 +613,58 @@ export class SubdomainProxy {
   }
 }
 
+// ---------------------------------------------------------------------------
+// Backend URL helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Akash ingress URI for a lease. If the service has an sdlServiceName, use
+ * it for a direct lookup instead of iterating (needed for multi-service
+ * deployments with multiple globally-exposed containers); otherwise take
+ * the first service with externally-reachable URIs.
+ */
+function akashTarget(
+  serviceUrls: unknown,
+  sdlServiceName: string | null
+): string | null {
+  if (!serviceUrls) return null
+  const urls = serviceUrls as Record<string, { uris?: string[] }>
+
+  let uri: string | undefined
+  if (sdlServiceName && urls[sdlServiceName]?.uris?.length) {
+    uri = urls[sdlServiceName].uris![0]
+  } else {
+    for (const svc of Object.values(urls)) {
+      if (svc.uris?.length) {
+        uri = svc.uris[0]
+        break
+      }
+    }
+  }
+
+  if (!uri) return null
+  return uri.startsWith('http') ? uri : `http://${uri}`
+}
+
+function phalaTarget(appUrl: string | null | undefined): string | null {
+  if (!appUrl) return null
+  return appUrl.startsWith('http') ? appUrl : `https://${appUrl}`
+}
+
+/** Host side of the Spheron compose port mapping (see lookupBackend). */
+function spheronHostPort(service: {
+  containerPort: number | null
+  ports?: Array<{ containerPort: number; publicPort: number | null }>
+}): number {
+  const firstPort = service.ports?.[0]
+  return (
+    firstPort?.publicPort ??
+    firstPort?.containerPort ??
+    service.containerPort ??
+    80
+  )
+}
+
 // ──────────────────────────────────────────────────────────────────────────
 // Module-level singleton accessor
 //
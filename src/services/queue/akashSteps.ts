@@ -16,6 +16,12 @@ import { DEFAULT_DEPOSIT_UACT, getAkashOrchestrator } from '../akash/orchestrato
 import { getEscrowService } from '../billing/escrowService.js'
 import { getBillingApiClient } from '../billing/billingApiClient.js'
 import { scheduleOrEnforcePolicyExpiry } from '../policy/runtimeScheduler.js'
+import {
+  activateCutover,
+  CUTOVER_GATE_FAILED,
+  gateCutover,
+  retireCutoverSource,
+} from '../akash/blueGreenCutover.js'
 import { execAsync } from './asyncExec.js'
 import { getAkashEnv } from '../../lib/akashEnv.js'
 import { withWalletLock, isWalletTx } from '../akash/walletMutex.js'
@@ -1321,6 +1327,12 @@ export async function finalizeDeployment(
     )
   }
 
+  // Blue-green candidate: the old lease is still serving, so refuse to
+  // bill or route this one until its app probe passes.
+  if (deployment.cutoverFromId) {
+    await gateCutover(prisma, deployment, serviceUrls)
+  }
+
   const escrowService = getEscrowService(prisma)
   const billingApi = getBillingApiClient()
   const orgBilling = await billingApi.getOrgBilling(organizationId)
@@ -1361,20 +1373,36 @@ export async function finalizeDeployment(
     }
   }
 
-  await prisma.akashDeployment.update({
-    where: { id: deployment.id },
-    data: {
-      status: 'ACTIVE',
-      serviceUrls,
-      deployedAt: new Date(),
-      ...(gpuModelUpdate ? { gpuModel: gpuModelUpdate } : {}),
-    },
-  })
+  const activatedAt = new Date()
+  const activeData = {
+    status: 'ACTIVE' as const,
+    serviceUrls,
+    deployedAt: activatedAt,
+    ...(gpuModelUpdate ? { gpuModel: gpuModelUpdate } : {}),
+  }
+  let retiredSourceId: string | null = null
+  if (deployment.cutoverFromId) {
+    retiredSourceId = await activateCutover(
+      prisma,
+      deployment,
+      activeData,
+      activatedAt
+    )
+  } else {
+    await prisma.akashDeployment.update({
+      where: { id: deployment.id },
+      data: activeData,
+    })
+  }
 
   if (deployment.policyId) {
     await scheduleOrEnforcePolicyExpiry(prisma, deployment.policyId)
   }
 
+  if (retiredSourceId) {
+    await retireCutoverSource(prisma, retiredSourceId, activatedAt)
+  }
+
   const baseDomain = process.env.PROXY_BASE_DOMAIN || 'alternatefutures.ai'
   const protocol = baseDomain.includes('localhost') ? 'http' : 'https'
   const invokeUrl = `${protocol}://${deployment.service.slug}-app.${baseDomain}`
@@ -1429,6 +1457,8 @@ const DETERMINISTIC_FAILURE_PATTERNS: ReadonlyArray<string> = [
   // SDL composer / nixpacks / template emitted invalid YAML. Won't get fixed by retry.
   'failed to parse manifest',
   'invalid sdl',
+  // Blue-green candidate failed its app probe. Source: finalizeDeployment.
+  CUTOVER_GATE_FAILED,
 ]
 
 function isDeterministicFailure(errorMessage: string | undefined | null): boolean {
@@ -1560,6 +1590,10 @@ export async function handleFailure(
             maxBudgetUsd: existingPolicy.maxBudgetUsd,
             maxMonthlyUsd: existingPolicy.maxMonthlyUsd,
             runtimeMinutes: existingPolicy.runtimeMinutes,
+            minReplicas: existingPolicy.minReplicas,
+            maxReplicas: existingPolicy.maxReplicas,
+            targetP95LatencyMs: existingPolicy.targetP95LatencyMs,
+            targetRequestsPerSecond: existingPolicy.targetRequestsPerSecond,
             expiresAt: existingPolicy.runtimeMinutes
               ? new Date(Date.now() + existingPolicy.runtimeMinutes * 60_000)
               : null,
@@ -1603,6 +1637,9 @@ export async function handleFailure(
         // the bid filter in handleCheckBids no-ops, and the deploy lands
         // wherever's cheapest globally — ignoring the user's pick.
         region: deployment.region,
+        // A retried blue-green candidate still replaces the same source.
+        cutoverFromId: deployment.cutoverFromId,
+        rollbackOfId: deployment.rollbackOfId,
       },
     })
 
@@ -1668,5 +1705,11 @@ export async function handleFailure(
       status: 'PERMANENTLY_FAILED',
       timestamp: new Date(),
     })
+
+    // A failover replacement that never got a lease means Akash itself is
+    // short on capacity; the service's fallback providers may take it.
+    const { failoverAfterPlacementFailure } =
+      await import('../failover/failoverService.js')
+    await failoverAfterPlacementFailure(prisma, deploymentId)
   }
 }
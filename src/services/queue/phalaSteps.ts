@@ -7,6 +7,7 @@ import { writeFileSync, rmSync, mkdtempSync, accessSync } from 'fs'
 import { join } from 'path'
 import { tmpdir } from 'os'
 import { getSshKeyPath } from '../phala/orchestrator.js'
+import { openEnvSnapshot, sealEnvSnapshot } from '../phala/envSnapshot.js'
 import { publishJob, isQStashEnabled } from './qstashClient.js'
 import { deploymentEvents } from '../events/deploymentEvents.js'
 import { execAsync } from './asyncExec.js'
@@ -138,28 +139,57 @@ export async function handleDeployCvm(prisma: PrismaClient, deploymentId: string
 
     writeFileSync(composePath, deployment.composeContent, { mode: 0o600 })
 
-    const envVars: Record<string, string> = {}
-    try {
-      const { buildServiceMap, resolveEnvVars } = await import('../../utils/envInterpolation.js')
-      const persistedVars = await prisma.serviceEnvVar.findMany({ where: { serviceId: deployment.serviceId } })
-      if (persistedVars.length > 0) {
-        const siblings = deployment.service?.project?.services || []
-        const serviceMap = buildServiceMap(
-          siblings.map((s: any) => ({
-            slug: s.slug,
-            internalHostname: s.internalHostname,
-            envVars: s.envVars.map((e: any) => ({ key: e.key, value: e.value })),
-            ports: s.ports.map((p: any) => ({ containerPort: p.containerPort, publicPort: p.publicPort })),
-          })),
-        )
-        const resolved = resolveEnvVars(
-          persistedVars.map((v: any) => ({ key: v.key, value: v.value })),
-          serviceMap,
+    let envVars: Record<string, string> = {}
+    if (deployment.rollbackOfId) {
+      // A rollback replays the env its target was launched with, values
+      // included, rather than today's.
+      envVars = openEnvSnapshot(deployment.sealedEnvSnapshot)
+    } else {
+      try {
+        const { buildServiceMap, resolveEnvVars } =
+          await import('../../utils/envInterpolation.js')
+        const persistedVars = await prisma.serviceEnvVar.findMany({
+          where: { serviceId: deployment.serviceId },
+        })
+        if (persistedVars.length > 0) {
+          const siblings = deployment.service?.project?.services || []
+          const serviceMap = buildServiceMap(
+            siblings.map((s: any) => ({
+              slug: s.slug,
+              internalHostname: s.internalHostname,
+              envVars: s.envVars.map((e: any) => ({
+                key: e.key,
+                value: e.value,
+              })),
+              ports: s.ports.map((p: any) => ({
+                containerPort: p.containerPort,
+                publicPort: p.publicPort,
+              })),
+            }))
+          )
+          const resolved = resolveEnvVars(
+            persistedVars.map((v: any) => ({ key: v.key, value: v.value })),
+            serviceMap
+          )
+          for (const { key, value } of resolved) {
+            envVars[key] = value
+          }
+        }
+      } catch (err) {
+        log.warn(err as Error, 'Failed to resolve persisted env vars')
+      }
+
+      try {
+        await prisma.phalaDeployment.update({
+          where: { id: deploymentId },
+          data: { sealedEnvSnapshot: sealEnvSnapshot(envVars) },
+        })
+      } catch (err) {
+        log.warn(
+          err as Error,
+          'Failed to store env snapshot — this deployment cannot be rolled back to'
         )
-        for (const { key, value } of resolved) envVars[key] = value
       }
-    } catch (err) {
-      log.warn(err as Error, 'Failed to resolve persisted env vars')
     }
 
     const envLines = Object.entries(envVars).map(([k, v]) => `${k}=${v}`).join('\n')
@@ -424,6 +454,10 @@ export async function handlePhalaFailure(prisma: PrismaClient, payload: PhalaHan
             maxBudgetUsd: existingPolicy.maxBudgetUsd,
             maxMonthlyUsd: existingPolicy.maxMonthlyUsd,
             runtimeMinutes: existingPolicy.runtimeMinutes,
+            minReplicas: existingPolicy.minReplicas,
+            maxReplicas: existingPolicy.maxReplicas,
+            targetP95LatencyMs: existingPolicy.targetP95LatencyMs,
+            targetRequestsPerSecond: existingPolicy.targetRequestsPerSecond,
             expiresAt: existingPolicy.runtimeMinutes
               ? new Date(Date.now() + existingPolicy.runtimeMinutes * 60_000)
               : null,
@@ -441,6 +475,7 @@ export async function handlePhalaFailure(prisma: PrismaClient, payload: PhalaHan
         status: 'CREATING',
         composeContent: deployment.composeContent,
         envKeys: deployment.envKeys ?? undefined,
+        sealedEnvSnapshot: deployment.sealedEnvSnapshot,
         cvmSize: deployment.cvmSize,
         serviceId: deployment.serviceId,
         siteId: deployment.siteId,
@@ -452,6 +487,7 @@ export async function handlePhalaFailure(prisma: PrismaClient, payload: PhalaHan
         retryCount: retryCount + 1,
         parentDeploymentId: deployment.parentDeploymentId || deploymentId,
         policyId: retryPolicyId,
+        rollbackOfId: deployment.rollbackOfId,
       },
     })
 
@@ -781,6 +781,10 @@ export async function handleSpheronFailure(
             maxBudgetUsd: existingPolicy.maxBudgetUsd,
             maxMonthlyUsd: existingPolicy.maxMonthlyUsd,
             runtimeMinutes: existingPolicy.runtimeMinutes,
+            minReplicas: existingPolicy.minReplicas,
+            maxReplicas: existingPolicy.maxReplicas,
+            targetP95LatencyMs: existingPolicy.targetP95LatencyMs,
+            targetRequestsPerSecond: existingPolicy.targetRequestsPerSecond,
             expiresAt: existingPolicy.runtimeMinutes
               ? new Date(Date.now() + existingPolicy.runtimeMinutes * 60_000)
               : null,
@@ -835,6 +839,7 @@ export async function handleSpheronFailure(
         retryCount: retryCount + 1,
         parentDeploymentId: deployment.parentDeploymentId || deploymentId,
         policyId: retryPolicyId,
+        rollbackOfId: deployment.rollbackOfId,
         serviceId: deployment.serviceId,
         siteId: deployment.siteId,
         afFunctionId: deployment.afFunctionId,
@@ -721,11 +721,13 @@ async function tryFailoverNoFallbackClose(
       reason: String(extra.reason ?? 'unhealthy'),
       triggeredBy: 'sweeper',
       traceId: sweepTraceId,
+      targets: eligibility.targets,
     })
     log.info(
       {
         from: deploymentId,
         to: result.newDeploymentId,
+        target: result.target,
         excluded: eligibility.excludedProviders.length,
         attemptsInWindow: eligibility.attemptsInWindow,
       },
@@ -0,0 +1,285 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { PrismaClient } from '@prisma/client'
+
+const { akashDeployMock, phalaDeployMock, publishJobMock } = vi.hoisted(() => ({
+  akashDeployMock: vi.fn(),
+  phalaDeployMock: vi.fn(),
+  publishJobMock: vi.fn(),
+}))
+
+vi.mock('../akash/orchestrator.js', () => ({
+  getAkashOrchestrator: vi.fn(() => ({ deployService: akashDeployMock })),
+}))
+
+vi.mock('../phala/orchestrator.js', () => ({
+  getPhalaOrchestrator: vi.fn(() => ({ deployServicePhala: phalaDeployMock })),
+}))
+
+vi.mock('../queue/qstashClient.js', () => ({
+  isQStashEnabled: vi.fn(() => true),
+  publishJob: publishJobMock,
+}))
+
+import {
+  extractImage,
+  extractSdlEnvKeys,
+  listDeploymentHistory,
+  replayDeployment,
+  targetGpuUnits,
+  type RollbackTarget,
+} from './rollbackService.js'
+
+const SDL = `version: "2.0"
+services:
+  app:
+    image: ghcr.io/acme/app:v1
+    env:
+      - "DATABASE_URL=postgres://db"
+      - API_KEY=secret
+`
+
+describe('recipe parsing', () => {
+  it('reads the first image out of an SDL or compose file', () => {
+    expect(extractImage(SDL)).toBe('ghcr.io/acme/app:v1')
+    expect(extractImage("services:\n  web:\n    image: 'nginx:1.27'\n")).toBe(
+      'nginx:1.27'
+    )
+    expect(extractImage(null)).toBeNull()
+  })
+
+  it('lists SDL env keys without their values', () => {
+    expect(extractSdlEnvKeys(SDL)).toEqual(['DATABASE_URL', 'API_KEY'])
+  })
+
+  it('counts the GPUs a replay would launch', () => {
+    const gpuSdl = `${SDL}profiles:
+  compute:
+    app:
+      resources:
+        gpu:
+          units: 2
+          attributes:
+            vendor:
+              nvidia:
+`
+    const akash = (sdlContent: string) =>
+      ({ provider: 'akash', row: { sdlContent } }) as RollbackTarget
+    expect(targetGpuUnits(akash(gpuSdl))).toBe(2)
+    expect(targetGpuUnits(akash(SDL))).toBe(0)
+    expect(
+      targetGpuUnits({
+        provider: 'phala',
+        row: { cvmSize: 'h200.8x.large', gpuModel: 'h200' },
+      } as RollbackTarget)
+    ).toBe(8)
+    expect(
+      targetGpuUnits({
+        provider: 'spheron',
+        row: { gpuCount: 1 },
+      } as RollbackTarget)
+    ).toBe(1)
+  })
+})
+
+describe('listDeploymentHistory', () => {
+  it('merges providers newest first and flags rollback candidates', async () => {
+    const prisma = {
+      akashDeployment: {
+        findMany: vi.fn().mockResolvedValue([
+          {
+            id: 'ak-live',
+            status: 'ACTIVE',
+            sdlContent: SDL,
+            createdAt: new Date('2026-05-03'),
+            deployedAt: new Date('2026-05-03'),
+            rollbackOfId: null,
+          },
+          {
+            id: 'ak-failed',
+            status: 'PERMANENTLY_FAILED',
+            sdlContent: SDL,
+            createdAt: new Date('2026-05-02'),
+            deployedAt: null,
+            rollbackOfId: null,
+          },
+        ]),
+      },
+      phalaDeployment: {
+        findMany: vi.fn().mockResolvedValue([
+          {
+            id: 'ph-old',
+            status: 'DELETED',
+            composeContent: 'services:\n  app:\n    image: app:v0\n',
+            envKeys: ['API_KEY'],
+            sealedEnvSnapshot: 'v1.sealed',
+            createdAt: new Date('2026-05-01'),
+            activeStartedAt: new Date('2026-05-01'),
+            rollbackOfId: null,
+          },
+          {
+            id: 'ph-legacy',
+            status: 'DELETED',
+            composeContent: 'services:\n  app:\n    image: app:v0\n',
+            envKeys: ['API_KEY'],
+            sealedEnvSnapshot: null,
+            createdAt: new Date('2026-04-30'),
+            activeStartedAt: new Date('2026-04-30'),
+            rollbackOfId: null,
+          },
+        ]),
+      },
+      spheronDeployment: { findMany: vi.fn().mockResolvedValue([]) },
+    } as unknown as PrismaClient
+
+    const history = await listDeploymentHistory(prisma, 'svc-1', 'ak-live', 20)
+
+    expect(history.map(h => [h.id, h.isCurrent, h.rollbackable])).toEqual([
+      ['ak-live', true, false],
+      ['ak-failed', false, false],
+      ['ph-old', false, true],
+      // Only env keys were recorded, so its values can't be replayed
+      ['ph-legacy', false, false],
+    ])
+    expect(history[2]).toMatchObject({
+      provider: 'phala',
+      image: 'app:v0',
+      envKeys: ['API_KEY'],
+    })
+  })
+})
+
+describe('replayDeployment', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('replays an Akash SDL verbatim and clones its policy', async () => {
+    akashDeployMock.mockResolvedValue('ak-new')
+    const update = vi.fn()
+    const prisma = {
+      deploymentPolicy: {
+        findUnique: vi.fn().mockResolvedValue({
+          acceptableGpuModels: [],
+          gpuUnits: null,
+          gpuVendor: null,
+          maxBudgetUsd: 10,
+          maxMonthlyUsd: null,
+          runtimeMinutes: null,
+          totalSpentUsd: 2,
+        }),
+        create: vi.fn().mockResolvedValue({ id: 'policy-new' }),
+      },
+      akashDeployment: { update },
+    } as unknown as PrismaClient
+    const target: RollbackTarget = {
+      provider: 'akash',
+      row: {
+        id: 'ak-old',
+        serviceId: 'svc-1',
+        status: 'CLOSED',
+        sdlContent: SDL,
+        depositUakt: 5_000_000n,
+        region: 'eu',
+        dailyRateCentsCharged: 120,
+        deployedAt: new Date(),
+        policyId: 'policy-old',
+      },
+    }
+
+    await expect(replayDeployment(prisma, target, 'BLUE_GREEN')).resolves.toBe(
+      'ak-new'
+    )
+
+    expect(akashDeployMock).toHaveBeenCalledWith('svc-1', {
+      sdlContent: SDL,
+      skipEnvInjection: true,
+      strategy: 'BLUE_GREEN',
+      deposit: 5_000_000,
+      region: 'eu',
+      rollbackOfId: 'ak-old',
+    })
+    expect(update).toHaveBeenCalledWith({
+      where: { id: 'ak-new' },
+      data: { policyId: 'policy-new' },
+    })
+  })
+
+  it('passes Phala the raw rate so the current margin is applied once', async () => {
+    phalaDeployMock.mockResolvedValue('ph-new')
+    const prisma = {} as PrismaClient
+
+    await replayDeployment(prisma, {
+      provider: 'phala',
+      row: {
+        id: 'ph-old',
+        serviceId: 'svc-1',
+        status: 'DELETED',
+        composeContent: 'services: {}',
+        envKeys: ['API_KEY'],
+        sealedEnvSnapshot: 'v1.sealed',
+        cvmSize: 'tdx.medium',
+        gpuModel: null,
+        hourlyRateCents: 25,
+        marginRate: 0.25,
+        activeStartedAt: new Date(),
+        policyId: null,
+      },
+    })
+
+    expect(phalaDeployMock).toHaveBeenCalledWith(
+      'svc-1',
+      expect.objectContaining({
+        envKeys: ['API_KEY'],
+        sealedEnvSnapshot: 'v1.sealed',
+        cvmSize: 'tdx.medium',
+        hourlyRateUsd: 0.2,
+        rollbackOfId: 'ph-old',
+      })
+    )
+  })
+
+  it('clones a Spheron row under a fresh upstream name and starts at DEPLOY_VM', async () => {
+    const create = vi.fn().mockResolvedValue({ id: 'sph-new' })
+    const prisma = {
+      spheronDeployment: {
+        findUniqueOrThrow: vi.fn().mockResolvedValue({
+          id: 'sph-old',
+          name: 'af-app-abc-r1-xyz',
+          savedDeployInput: { name: 'af-app-abc-r1-xyz', cloudInit: '...' },
+          savedCloudInit: null,
+          envKeys: ['API_KEY'],
+          serviceId: 'svc-1',
+        }),
+        create,
+      },
+    } as unknown as PrismaClient
+
+    await replayDeployment(prisma, {
+      provider: 'spheron',
+      row: {
+        id: 'sph-old',
+        serviceId: 'svc-1',
+        status: 'DELETED',
+        name: 'af-app-abc-r1-xyz',
+        savedDeployInput: {},
+        gpuCount: 1,
+        hourlyRateCents: 90,
+        activeStartedAt: new Date(),
+        policyId: null,
+      },
+    })
+
+    const data = create.mock.calls[0][0].data
+    expect(data.name).toMatch(/^af-app-abc-rb-[a-z0-9]+$/)
+    expect(data.savedDeployInput).toEqual({ name: data.name, cloudInit: '...' })
+    expect(data).toMatchObject({
+      status: 'CREATING',
+      retryCount: 0,
+      rollbackOfId: 'sph-old',
+    })
+    expect(publishJobMock).toHaveBeenCalledWith('/queue/spheron/step', {
+      step: 'DEPLOY_VM',
+      deploymentId: 'sph-new',
+    })
+  })
+})
@@ -0,0 +1,446 @@
+/**
+ * Service rollback — replay an earlier deployment's stored recipe.
+ *
+ * Every provider row keeps what it was launched with: Akash rows hold the
+ * final SDL (env already injected), Spheron rows hold `savedDeployInput`
+ * (cloud-init with the rendered .env), and Phala rows hold the compose plus
+ * a sealed snapshot of the env they were launched with. `replayDeployment` creates a fresh row from
+ * that recipe, stamped with `rollbackOfId`, and hands it to the normal queue
+ * pipeline (SUBMIT_TX / DEPLOY_CVM / DEPLOY_VM) — retries, billing and
+ * policy enforcement behave exactly as for a regular deploy.
+ *
+ * Git services can alternatively roll back to a previous successful
+ * BuildJob image; that path lives in the resolver because it is just a
+ * regular deploy with `Service.dockerImage` pinned to the old tag.
+ */
+
+import type { PrismaClient } from '@prisma/client'
+import { createLogger } from '../../lib/logger.js'
+import type { AkashDeployStrategy } from '../akash/blueGreenCutover.js'
+import { BILLING_CONFIG } from '../../config/billing.js'
+import { inferGpuCountFromId } from '../phala/instanceTypes.js'
+
+const log = createLogger('rollback')
+
+export type RollbackProvider = 'akash' | 'phala' | 'spheron'
+
+export interface DeploymentHistoryEntry {
+  id: string
+  provider: RollbackProvider
+  status: string
+  /** First `image:` found in the stored SDL/compose. */
+  image: string | null
+  /** Env var keys the deployment was launched with — never values. */
+  envKeys: string[]
+  createdAt: Date
+  /** When the deployment first reached ACTIVE; null if it never did. */
+  activeSince: Date | null
+  rollbackOfId: string | null
+  isCurrent: boolean
+  rollbackable: boolean
+}
+
+/**
+ * A historic row resolved to its provider, narrowed to the fields the
+ * guards and the replay read.
+ */
+export type RollbackTarget =
+  | {
+      provider: 'akash'
+      row: {
+        id: string
+        serviceId: string
+        status: string
+        sdlContent: string
+        depositUakt: bigint | null
+        region: string | null
+        dailyRateCentsCharged: number | null
+        deployedAt: Date | null
+        policyId: string | null
+      }
+    }
+  | {
+      provider: 'phala'
+      row: {
+        id: string
+        serviceId: string
+        status: string
+        composeContent: string
+        envKeys: unknown
+        sealedEnvSnapshot: string | null
+        cvmSize: string | null
+        gpuModel: string | null
+        hourlyRateCents: number | null
+        marginRate: number | null
+        activeStartedAt: Date | null
+        policyId: string | null
+      }
+    }
+  | {
+      provider: 'spheron'
+      row: {
+        id: string
+        serviceId: string
+        status: string
+        name: string
+        savedDeployInput: unknown
+        gpuCount: number
+        hourlyRateCents: number | null
+        activeStartedAt: Date | null
+        policyId: string | null
+      }
+    }
+
+const IMAGE_RE = /^\s*image:\s*["']?([^\s"']+)/m
+const SDL_GPU_UNITS_RE = /^\s*gpu:\s*\n\s*units:\s*(\d+)/gm
+const SDL_ENV_KEY_RE = /^\s*-\s*["']?([A-Za-z_][A-Za-z0-9_]*)=/gm
+
+export function extractImage(recipe: string | null | undefined): string | null {
+  if (!recipe) return null
+  return recipe.match(IMAGE_RE)?.[1] ?? null
+}
+
+/** Keys from `env:` list items (`- KEY=value`) in an Akash SDL. */
+export function extractSdlEnvKeys(sdl: string | null | undefined): string[] {
+  if (!sdl) return []
+  const keys = new Set<string>()
+  for (const m of sdl.matchAll(SDL_ENV_KEY_RE)) keys.add(m[1])
+  return [...keys]
+}
+
+function jsonKeys(raw: unknown): string[] {
+  return Array.isArray(raw)
+    ? raw.filter((k): k is string => typeof k === 'string')
+    : []
+}
+
+/**
+ * List a service's deployments across all providers, newest first, tagged
+ * with whether each one can be rolled back to. `currentId` is the live
+ * deployment as resolved by the caller (registry lookup).
+ */
+export async function listDeploymentHistory(
+  prisma: PrismaClient,
+  serviceId: string,
+  currentId: string | null,
+  limit: number
+): Promise<DeploymentHistoryEntry[]> {
+  const [akash, phala, spheron] = await Promise.all([
+    prisma.akashDeployment.findMany({
+      where: { serviceId },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    }),
+    prisma.phalaDeployment.findMany({
+      where: { serviceId },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    }),
+    prisma.spheronDeployment.findMany({
+      where: { serviceId },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    }),
+  ])
+
+  const entries: DeploymentHistoryEntry[] = [
+    ...akash.map(d => ({
+      id: d.id,
+      provider: 'akash' as const,
+      status: d.status,
+      image: extractImage(d.sdlContent),
+      envKeys: extractSdlEnvKeys(d.sdlContent),
+      createdAt: d.createdAt,
+      activeSince: d.deployedAt,
+      rollbackOfId: d.rollbackOfId,
+      isCurrent: d.id === currentId,
+      rollbackable: d.id !== currentId && d.deployedAt !== null,
+    })),
+    ...phala.map(d => ({
+      id: d.id,
+      provider: 'phala' as const,
+      status: d.status,
+      image: extractImage(d.composeContent),
+      envKeys: jsonKeys(d.envKeys),
+      createdAt: d.createdAt,
+      activeSince: d.activeStartedAt,
+      rollbackOfId: d.rollbackOfId,
+      isCurrent: d.id === currentId,
+      rollbackable:
+        d.id !== currentId &&
+        d.activeStartedAt !== null &&
+        phalaEnvReplayable(d),
+    })),
+    ...spheron.map(d => ({
+      id: d.id,
+      provider: 'spheron' as const,
+      status: d.status,
+      image: extractImage(d.composeContent),
+      envKeys: jsonKeys(d.envKeys),
+      createdAt: d.createdAt,
+      activeSince: d.activeStartedAt,
+      rollbackOfId: d.rollbackOfId,
+      isCurrent: d.id === currentId,
+      rollbackable:
+        d.id !== currentId &&
+        d.activeStartedAt !== null &&
+        d.savedDeployInput !== null,
+    })),
+  ]
+
+  entries.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+  return entries.slice(0, limit)
+}
+
+/** Look a deployment id up in all three provider tables. */
+export async function findRollbackTarget(
+  prisma: PrismaClient,
+  deploymentId: string
+): Promise<RollbackTarget | null> {
+  const akash = await prisma.akashDeployment.findUnique({
+    where: { id: deploymentId },
+  })
+  if (akash) return { provider: 'akash', row: akash }
+
+  const phala = await prisma.phalaDeployment.findUnique({
+    where: { id: deploymentId },
+  })
+  if (phala) return { provider: 'phala', row: phala }
+
+  const spheron = await prisma.spheronDeployment.findUnique({
+    where: { id: deploymentId },
+  })
+  if (spheron) return { provider: 'spheron', row: spheron }
+
+  return null
+}
+
+/**
+ * Phala rows from before env snapshots only know their env keys; replaying
+ * them would mean today's values, so only env-less ones qualify.
+ */
+export function phalaEnvReplayable(row: {
+  envKeys: unknown
+  sealedEnvSnapshot: string | null
+}): boolean {
+  return row.sealedEnvSnapshot !== null || jsonKeys(row.envKeys).length === 0
+}
+
+/** Whether the row ever served traffic (and so has a known-good recipe). */
+export function targetReachedActive(target: RollbackTarget): boolean {
+  if (target.provider === 'akash') return target.row.deployedAt !== null
+  return target.row.activeStartedAt !== null
+}
+
+export function estimateTargetDailyCostCents(target: RollbackTarget): number {
+  if (target.provider === 'akash') {
+    return (
+      target.row.dailyRateCentsCharged ??
+      BILLING_CONFIG.akash.minBalanceCentsToLaunch
+    )
+  }
+  return target.row.hourlyRateCents !== null
+    ? target.row.hourlyRateCents * 24
+    : BILLING_CONFIG[target.provider].minBalanceCentsToLaunch
+}
+
+/** GPUs the replay would launch, for deploy approval rules. */
+export function targetGpuUnits(target: RollbackTarget): number {
+  if (target.provider === 'akash') {
+    let units = 0
+    for (const m of target.row.sdlContent.matchAll(SDL_GPU_UNITS_RE)) {
+      units += Number(m[1])
+    }
+    return units
+  }
+  if (target.provider === 'phala') {
+    return target.row.gpuModel
+      ? inferGpuCountFromId(target.row.cvmSize ?? target.row.gpuModel)
+      : 0
+  }
+  return target.row.gpuCount
+}
+
+/**
+ * Copy the target's deployment policy onto a fresh row, restarting the
+ * runtime clock — same shape as the resume path in `resumeHandler`.
+ */
+async function clonePolicy(
+  prisma: PrismaClient,
+  policyId: string | null
+): Promise<string | null> {
+  if (!policyId) return null
+  const old = await prisma.deploymentPolicy.findUnique({
+    where: { id: policyId },
+  })
+  if (!old) return null
+  const policy = await prisma.deploymentPolicy.create({
+    data: {
+      acceptableGpuModels: old.acceptableGpuModels,
+      gpuUnits: old.gpuUnits,
+      gpuVendor: old.gpuVendor,
+      maxBudgetUsd: old.maxBudgetUsd,
+      maxMonthlyUsd: old.maxMonthlyUsd,
+      runtimeMinutes: old.runtimeMinutes,
+      minReplicas: old.minReplicas,
+      maxReplicas: old.maxReplicas,
+      targetP95LatencyMs: old.targetP95LatencyMs,
+      targetRequestsPerSecond: old.targetRequestsPerSecond,
+      expiresAt: old.runtimeMinutes
+        ? new Date(Date.now() + old.runtimeMinutes * 60_000)
+        : null,
+      totalSpentUsd: old.totalSpentUsd,
+    },
+  })
+  return policy.id
+}
+
+/**
+ * Create a new deployment row from the target's stored recipe and start
+ * its queue pipeline. Returns the new row id. The caller is responsible
+ * for launch guards, for picking an Akash `strategy` the service supports
+ * (BLUE_GREEN needs a health probe and no volumes, as in `deployToAkash`)
+ * and for closing whatever was live before, once this returns — except an
+ * ACTIVE Akash lease under BLUE_GREEN, which the cutover retires.
+ */
+export async function replayDeployment(
+  prisma: PrismaClient,
+  target: RollbackTarget,
+  akashStrategy: AkashDeployStrategy = 'RECREATE'
+): Promise<string> {
+  const policyId = await clonePolicy(prisma, target.row.policyId)
+  let deploymentId: string
+
+  if (target.provider === 'akash') {
+    const { getAkashOrchestrator } = await import('../akash/orchestrator.js')
+    // The stored SDL already has the env snapshot baked in; re-injecting
+    // would overwrite it with today's values.
+    deploymentId = await getAkashOrchestrator(prisma).deployService(
+      target.row.serviceId,
+      {
+        sdlContent: target.row.sdlContent,
+        skipEnvInjection: true,
+        strategy: akashStrategy,
+        deposit: target.row.depositUakt
+          ? Number(target.row.depositUakt)
+          : undefined,
+        region: target.row.region,
+        rollbackOfId: target.row.id,
+      }
+    )
+    if (policyId) {
+      await prisma.akashDeployment.update({
+        where: { id: deploymentId },
+        data: { policyId },
+      })
+    }
+  } else if (target.provider === 'phala') {
+    const { getPhalaOrchestrator } = await import('../phala/orchestrator.js')
+    // Recover the raw provider rate so the orchestrator re-applies the
+    // org's *current* margin rather than stacking it on the old one.
+    const hourlyRateUsd =
+      target.row.hourlyRateCents !== null
+        ? target.row.hourlyRateCents / 100 / (1 + (target.row.marginRate ?? 0))
+        : undefined
+    deploymentId = await getPhalaOrchestrator(prisma).deployServicePhala(
+      target.row.serviceId,
+      {
+        composeContent: target.row.composeContent,
+        envKeys: jsonKeys(target.row.envKeys),
+        sealedEnvSnapshot: target.row.sealedEnvSnapshot,
+        cvmSize: target.row.cvmSize ?? undefined,
+        gpuModel: target.row.gpuModel ?? undefined,
+        hourlyRateUsd,
+        rollbackOfId: target.row.id,
+      }
+    )
+    if (policyId) {
+      await prisma.phalaDeployment.update({
+        where: { id: deploymentId },
+        data: { policyId },
+      })
+    }
+  } else {
+    deploymentId = await replaySpheron(prisma, target.row, policyId)
+  }
+
+  log.info(
+    { provider: target.provider, rollbackOfId: target.row.id, deploymentId },
+    'Rollback deployment submitted'
+  )
+  return deploymentId
+}
+
+/**
+ * Spheron has no "deploy from saved input" orchestrator entry point, so
+ * clone the row the way `handleFailure` does for a retry (fresh upstream
+ * name, same pricing snapshot) and start at DEPLOY_VM.
+ */
+async function replaySpheron(
+  prisma: PrismaClient,
+  row: Extract<RollbackTarget, { provider: 'spheron' }>['row'],
+  policyId: string | null
+): Promise<string> {
+  const source = await prisma.spheronDeployment.findUniqueOrThrow({
+    where: { id: row.id },
+  })
+  const baseName = source.name.replace(/(?:-r\d+-[a-z0-9]+)+$/, '')
+  const name = `${baseName}-rb-${Date.now().toString(36)}`
+  const savedDeployInput =
+    source.savedDeployInput && typeof source.savedDeployInput === 'object'
+      ? { ...(source.savedDeployInput as Record<string, unknown>), name }
+      : source.savedDeployInput
+
+  const created = await prisma.spheronDeployment.create({
+    data: {
+      name,
+      status: 'CREATING',
+      provider: source.provider,
+      offerId: source.offerId,
+      gpuType: source.gpuType,
+      gpuCount: source.gpuCount,
+      region: source.region,
+      operatingSystem: source.operatingSystem,
+      instanceType: source.instanceType,
+      sshKeyId: source.sshKeyId,
+      savedCloudInit: source.savedCloudInit ?? undefined,
+      savedDeployInput: (savedDeployInput ?? undefined) as object | undefined,
+      composeContent: source.composeContent,
+      envKeys: source.envKeys ?? undefined,
+      pricedSnapshotJson: source.pricedSnapshotJson ?? undefined,
+      hourlyRateCents: source.hourlyRateCents,
+      originalHourlyRateCents: source.originalHourlyRateCents,
+      marginRate: source.marginRate,
+      orgBillingId: source.orgBillingId,
+      organizationId: source.organizationId,
+      retryCount: 0,
+      policyId,
+      rollbackOfId: source.id,
+      serviceId: source.serviceId,
+      siteId: source.siteId,
+      afFunctionId: source.afFunctionId,
+    },
+  })
+
+  const { isQStashEnabled, publishJob } =
+    await import('../queue/qstashClient.js')
+  if (isQStashEnabled()) {
+    await publishJob('/queue/spheron/step', {
+      step: 'DEPLOY_VM',
+      deploymentId: created.id,
+    })
+  } else {
+    const { handleSpheronStep } = await import('../queue/webhookHandler.js')
+    handleSpheronStep({
+      step: 'DEPLOY_VM',
+      deploymentId: created.id,
+    } as never).catch(err => {
+      log.error(
+        { err, deploymentId: created.id },
+        'In-process Spheron DEPLOY_VM dispatch failed'
+      )
+    })
+  }
+
+  return created.id
+}
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest'
+import {
+  compileRunSchedule,
+  eventAt,
+  isWithinRunWindow,
+  lastEventBetween,
+  parseCron,
+  previewRunSchedule,
+  validateRunSchedule,
+} from './runSchedule.js'
+
+const nights = {
+  enabled: true,
+  stopCron: '0 20 * * 1-5',
+  startCron: '0 8 * * 1-5',
+  timezone: 'Europe/Berlin',
+}
+
+describe('parseCron', () => {
+  it('expands lists, ranges and steps and treats 7 as Sunday', () => {
+    const cron = parseCron('*/15 8-10 * * 1,7')
+    expect([...cron.minutes]).toEqual([0, 15, 30, 45])
+    expect([...cron.hours]).toEqual([8, 9, 10])
+    expect(cron.weekdays.has(0)).toBe(true)
+    expect(cron.dayRestricted).toBe(false)
+    expect(cron.weekdayRestricted).toBe(true)
+  })
+
+  it('rejects names, missing fields and out-of-range values', () => {
+    expect(() => parseCron('0 8 * * MON')).toThrow('day-of-week')
+    expect(() => parseCron('0 8 * *')).toThrow('5 fields')
+    expect(() => parseCron('0 24 * * *')).toThrow('0-23')
+  })
+})
+
+describe('schedule edges', () => {
+  const schedule = compileRunSchedule(nights)
+
+  it('evaluates crons in the schedule timezone', () => {
+    // 18:00 UTC is 20:00 in Berlin during summer time.
+    expect(eventAt(schedule, new Date('2026-05-18T18:00:00Z'))).toBe('stop')
+    expect(eventAt(schedule, new Date('2026-05-18T20:00:00Z'))).toBeNull()
+    // Winter time: 20:00 Berlin is 19:00 UTC.
+    expect(eventAt(schedule, new Date('2026-01-12T19:00:00Z'))).toBe('stop')
+  })
+
+  it('returns the latest edge in a span', () => {
+    expect(
+      lastEventBetween(
+        schedule,
+        new Date('2026-05-18T17:55:00Z'),
+        new Date('2026-05-18T18:01:30Z')
+      )
+    ).toEqual({ event: 'stop', at: new Date('2026-05-18T18:00:00Z') })
+    expect(
+      lastEventBetween(
+        schedule,
+        new Date('2026-05-18T18:00:00Z'),
+        new Date('2026-05-18T18:10:00Z')
+      )
+    ).toBeNull()
+  })
+
+  it('knows whether the window is open', () => {
+    // Monday 23:00 Berlin — stopped since 20:00.
+    expect(isWithinRunWindow(schedule, new Date('2026-05-18T21:00:00Z'))).toBe(
+      false
+    )
+    // Tuesday 09:00 Berlin — started at 08:00.
+    expect(isWithinRunWindow(schedule, new Date('2026-05-19T07:00:00Z'))).toBe(
+      true
+    )
+    // Saturday — Friday's 20:00 stop still holds.
+    expect(isWithinRunWindow(schedule, new Date('2026-05-23T10:00:00Z'))).toBe(
+      false
+    )
+  })
+})
+
+describe('validateRunSchedule', () => {
+  it('normalises a valid schedule and defaults the timezone', () => {
+    expect(
+      validateRunSchedule({
+        enabled: true,
+        stopCron: '0  19 * * *',
+        startCron: '0 7 * * *',
+      })
+    ).toEqual({
+      allowed: true,
+      schedule: {
+        enabled: true,
+        stopCron: '0 19 * * *',
+        startCron: '0 7 * * *',
+        timezone: 'UTC',
+      },
+    })
+  })
+
+  it('rejects bad timezones, bad crons and identical edges', () => {
+    const bad = [
+      { ...nights, timezone: 'Mars/Olympus' },
+      { ...nights, stopCron: '0 20 * * Fri' },
+      { ...nights, startCron: nights.stopCron },
+      { stopCron: '0 20 * * *', startCron: '0 8 * * *' },
+    ]
+    for (const input of bad) {
+      expect(validateRunSchedule(input).allowed).toBe(false)
+    }
+  })
+})
+
+describe('previewRunSchedule', () => {
+  it('counts weeknights and the weekend as off-hours', () => {
+    // Monday 10:00 Berlin; $1/hour.
+    const preview = previewRunSchedule(
+      nights,
+      100,
+      new Date('2026-05-18T08:00:00Z')
+    )
+    // 4 weeknights x 12h + Friday 20:00 to Monday 08:00 (60h).
+    expect(preview.offHoursPerWeek).toBe(108)
+    expect(preview.projectedMonthlySavingsUsd).toBeCloseTo(
+      (108 / 168) * 24 * 30,
+      1
+    )
+    expect(preview.nextStopAt).toEqual(new Date('2026-05-18T18:00:00Z'))
+    expect(preview.nextStartAt).toEqual(new Date('2026-05-19T06:00:00Z'))
+  })
+})
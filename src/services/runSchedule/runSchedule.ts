@@ -0,0 +1,356 @@
+/**
+ * Recurring run windows for services.
+ *
+ * `Service.runSchedule` holds two 5-field cron expressions evaluated in an
+ * IANA timezone. `stopCron` closes the window: the service's live
+ * deployments are paused with stop reason `SCHEDULED_STOP`. `startCron`
+ * opens it again and the paused deployments are resumed. Dev environments
+ * off at night, on during the working week:
+ *
+ *   { enabled: true, stopCron: '0 20 * * 1-5', startCron: '0 8 * * 1-5',
+ *     timezone: 'Europe/Berlin' }
+ *
+ * Fields are numeric only: `*`, values, lists, ranges and steps. Day of
+ * week is 0-7, with both 0 and 7 meaning Sunday. As in classic cron, when
+ * both day-of-month and day-of-week are restricted, a day matching either
+ * one fires.
+ *
+ * Everything here is pure; `runScheduleCycle.ts` does the pausing and
+ * resuming.
+ */
+
+export interface RunSchedule {
+  enabled: boolean
+  stopCron: string
+  startCron: string
+  timezone: string
+}
+
+export type RunScheduleEvent = 'stop' | 'start'
+
+interface ParsedCron {
+  minutes: Set<number>
+  hours: Set<number>
+  days: Set<number>
+  months: Set<number>
+  weekdays: Set<number>
+  dayRestricted: boolean
+  weekdayRestricted: boolean
+}
+
+export interface CompiledRunSchedule {
+  stop: ParsedCron
+  start: ParsedCron
+  timezone: string
+}
+
+interface LocalTime {
+  minute: number
+  hour: number
+  day: number
+  month: number
+  weekday: number
+}
+
+export interface RunSchedulePreview {
+  offHoursPerWeek: number
+  projectedMonthlySavingsUsd: number
+  nextStopAt: Date | null
+  nextStartAt: Date | null
+}
+
+const MINUTE_MS = 60_000
+/** One full cycle of any schedule that only restricts time of day and weekday. */
+export const WEEK_MINUTES = 7 * 24 * 60
+
+const CRON_FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day-of-month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day-of-week', min: 0, max: 7 },
+] as const
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+function parseCronField(
+  raw: string,
+  field: (typeof CRON_FIELDS)[number]
+): Set<number> {
+  const values = new Set<number>()
+  for (const part of raw.split(',')) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part)
+    if (!match) {
+      throw new Error(`invalid ${field.name} field "${raw}"`)
+    }
+    const step = match[4] === undefined ? 1 : Number(match[4])
+    let from: number = field.min
+    let to: number = field.max
+    if (match[1] !== '*') {
+      from = Number(match[2])
+      if (match[3] !== undefined) to = Number(match[3])
+      else if (match[4] === undefined) to = from
+    }
+    if (step < 1 || from < field.min || to > field.max || from > to) {
+      throw new Error(
+        `${field.name} field "${raw}" must stay within ${field.min}-${field.max}`
+      )
+    }
+    for (let v = from; v <= to; v += step) values.add(v)
+  }
+  return values
+}
+
+/** Parse a 5-field cron expression. Throws with a readable reason. */
+export function parseCron(expression: string): ParsedCron {
+  const fields = expression.trim().split(/\s+/)
+  if (fields.length !== CRON_FIELDS.length) {
+    throw new Error(
+      `"${expression}" must have 5 fields (minute hour day-of-month month day-of-week)`
+    )
+  }
+  const [minutes, hours, days, months, weekdays] = fields.map((raw, i) =>
+    parseCronField(raw, CRON_FIELDS[i])
+  )
+  if (weekdays.has(7)) weekdays.add(0)
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    dayRestricted: !fields[2].startsWith('*'),
+    weekdayRestricted: !fields[4].startsWith('*'),
+  }
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+function formatterFor(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      weekday: 'short',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    })
+    formatters.set(timezone, formatter)
+  }
+  return formatter
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    formatterFor(timezone)
+    return true
+  } catch {
+    return false
+  }
+}
+
+function localTime(at: Date, timezone: string): LocalTime {
+  const parts = formatterFor(timezone).formatToParts(at)
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find(p => p.type === type)?.value ?? ''
+  return {
+    minute: Number(part('minute')),
+    hour: Number(part('hour')),
+    day: Number(part('day')),
+    month: Number(part('month')),
+    weekday: WEEKDAYS.indexOf(part('weekday')),
+  }
+}
+
+function cronMatches(cron: ParsedCron, t: LocalTime): boolean {
+  if (
+    !cron.minutes.has(t.minute) ||
+    !cron.hours.has(t.hour) ||
+    !cron.months.has(t.month)
+  ) {
+    return false
+  }
+  const dayOk = cron.days.has(t.day)
+  const weekdayOk = cron.weekdays.has(t.weekday)
+  if (cron.dayRestricted && cron.weekdayRestricted) return dayOk || weekdayOk
+  return dayOk && weekdayOk
+}
+
+function floorToMinute(at: Date): number {
+  return Math.floor(at.getTime() / MINUTE_MS) * MINUTE_MS
+}
+
+/**
+ * Which edge, if any, fires in the minute starting at `at`. Should both
+ * crons land on the same minute, the window stays open.
+ */
+export function eventAt(
+  schedule: CompiledRunSchedule,
+  at: Date
+): RunScheduleEvent | null {
+  const t = localTime(at, schedule.timezone)
+  if (cronMatches(schedule.start, t)) return 'start'
+  if (cronMatches(schedule.stop, t)) return 'stop'
+  return null
+}
+
+/** Latest edge that fired in (from, to], minute resolution. */
+export function lastEventBetween(
+  schedule: CompiledRunSchedule,
+  from: Date,
+  to: Date
+): { event: RunScheduleEvent; at: Date } | null {
+  const floor = floorToMinute(from)
+  for (let ms = floorToMinute(to); ms > floor; ms -= MINUTE_MS) {
+    const at = new Date(ms)
+    const event = eventAt(schedule, at)
+    if (event) return { event, at }
+  }
+  return null
+}
+
+/**
+ * Whether the service should be running at `at`, judged by the most
+ * recent edge in the preceding week. No edge at all means running.
+ */
+export function isWithinRunWindow(
+  schedule: CompiledRunSchedule,
+  at: Date
+): boolean {
+  const last = lastEventBetween(
+    schedule,
+    new Date(at.getTime() - WEEK_MINUTES * MINUTE_MS),
+    at
+  )
+  return last?.event !== 'stop'
+}
+
+/**
+ * Check a `runSchedule` input and normalise it. `timezone` defaults to
+ * UTC; the two crons must differ.
+ */
+export function validateRunSchedule(
+  input: unknown
+):
+  | { allowed: true; schedule: RunSchedule }
+  | { allowed: false; reason: string } {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return {
+      allowed: false,
+      reason:
+        'runSchedule must be an object with { enabled, stopCron, startCron }, or null to clear.',
+    }
+  }
+  const raw = input as Record<string, unknown>
+  if (typeof raw.enabled !== 'boolean') {
+    return {
+      allowed: false,
+      reason: 'runSchedule.enabled is required and must be a boolean.',
+    }
+  }
+  const timezone = raw.timezone ?? 'UTC'
+  if (typeof timezone !== 'string' || !isValidTimezone(timezone)) {
+    return {
+      allowed: false,
+      reason:
+        'runSchedule.timezone must be an IANA timezone such as "Europe/Berlin".',
+    }
+  }
+  const crons: string[] = []
+  for (const key of ['stopCron', 'startCron'] as const) {
+    const value = raw[key]
+    if (typeof value !== 'string' || value.trim() === '') {
+      return {
+        allowed: false,
+        reason: `runSchedule.${key} is required and must be a cron expression.`,
+      }
+    }
+    try {
+      parseCron(value)
+    } catch (err) {
+      return {
+        allowed: false,
+        reason: `runSchedule.${key}: ${(err as Error).message}.`,
+      }
+    }
+    crons.push(value.trim().split(/\s+/).join(' '))
+  }
+  if (crons[0] === crons[1]) {
+    return {
+      allowed: false,
+      reason: 'runSchedule.stopCron and startCron must differ.',
+    }
+  }
+  return {
+    allowed: true,
+    schedule: {
+      enabled: raw.enabled,
+      stopCron: crons[0],
+      startCron: crons[1],
+      timezone,
+    },
+  }
+}
+
+export function compileRunSchedule(schedule: RunSchedule): CompiledRunSchedule {
+  return {
+    stop: parseCron(schedule.stopCron),
+    start: parseCron(schedule.startCron),
+    timezone: schedule.timezone,
+  }
+}
+
+/**
+ * Compile a stored `Service.runSchedule`. Null when it is unset, disabled
+ * or no longer valid.
+ */
+export function parseRunSchedule(raw: unknown): CompiledRunSchedule | null {
+  if (raw === null || raw === undefined) return null
+  const result = validateRunSchedule(raw)
+  if (!result.allowed || !result.schedule.enabled) return null
+  return compileRunSchedule(result.schedule)
+}
+
+/**
+ * Walk the coming week minute by minute from `now` to count the hours
+ * the schedule keeps the service off. Savings use the same 30-day month
+ * as the policy budget check.
+ */
+export function previewRunSchedule(
+  schedule: RunSchedule,
+  hourlyRateCents: number,
+  now: Date
+): RunSchedulePreview {
+  const compiled = compileRunSchedule(schedule)
+  let running = isWithinRunWindow(compiled, now)
+  let offMinutes = 0
+  let nextStopAt: Date | null = null
+  let nextStartAt: Date | null = null
+
+  const start = floorToMinute(now)
+  for (let i = 1; i <= WEEK_MINUTES; i++) {
+    const at = new Date(start + i * MINUTE_MS)
+    const event = eventAt(compiled, at)
+    if (event === 'stop') {
+      running = false
+      nextStopAt ??= at
+    } else if (event === 'start') {
+      running = true
+      nextStartAt ??= at
+    }
+    if (!running) offMinutes++
+  }
+
+  const offFraction = offMinutes / WEEK_MINUTES
+  const dailyUsd = (hourlyRateCents * 24) / 100
+  return {
+    offHoursPerWeek: Math.round((offMinutes / 60) * 100) / 100,
+    projectedMonthlySavingsUsd:
+      Math.round(offFraction * dailyUsd * 30 * 100) / 100,
+    nextStopAt,
+    nextStartAt,
+  }
+}
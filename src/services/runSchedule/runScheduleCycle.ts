@@ -0,0 +1,314 @@
+/**
+ * Applies `Service.runSchedule` windows.
+ *
+ * At a stop edge every live deployment of the service is paused through
+ * the same per-provider steps the low-balance suspension uses, with stop
+ * reason `SCHEDULED_STOP` on the policy. A deployment without a policy
+ * gets an empty one so the reason has somewhere to live — it is what
+ * keeps the topup resume in `resumeHandler` away from these rows.
+ *
+ * At a start edge those deployments are resumed through the topup resume
+ * steps, after the same balance gate a fresh deploy goes through. A
+ * service that was redeployed by hand during the off window is left
+ * alone rather than doubled up.
+ */
+
+import type { PrismaClient } from '@prisma/client'
+import { audit } from '../../lib/audit.js'
+import { createLogger } from '../../lib/logger.js'
+import { assertDeployBalance } from '../../resolvers/balanceCheck.js'
+import { getBillingApiClient } from '../billing/billingApiClient.js'
+import {
+  resumeAkashDeployment,
+  resumePhalaDeployment,
+  resumeSpheronDeployment,
+  type ResumeBilling,
+} from '../billing/resumeHandler.js'
+import {
+  pauseAkashDeployment,
+  pausePhalaDeployment,
+  pauseSpheronDeployment,
+  type PauseOutcome,
+} from '../billing/suspendOrgHandler.js'
+import { lastEventBetween, parseRunSchedule } from './runSchedule.js'
+
+const log = createLogger('run-schedule')
+
+const SCHEDULE_STOPPED = { is: { stopReason: 'SCHEDULED_STOP' as const } }
+
+interface ScheduledService {
+  id: string
+  projectId: string
+  project: { organizationId: string | null }
+}
+
+/** Empty policy for a deployment that has none, to carry the stop reason. */
+async function createStopPolicy(prisma: PrismaClient): Promise<string> {
+  const policy = await prisma.deploymentPolicy.create({
+    data: { acceptableGpuModels: [] },
+  })
+  return policy.id
+}
+
+async function stopService(
+  prisma: PrismaClient,
+  service: ScheduledService,
+  traceId: string
+): Promise<boolean> {
+  const where = { serviceId: service.id, status: 'ACTIVE' as const }
+  const [akash, phala, spheron] = await Promise.all([
+    prisma.akashDeployment.findMany({ where, include: { escrow: true } }),
+    prisma.phalaDeployment.findMany({ where }),
+    prisma.spheronDeployment.findMany({ where }),
+  ])
+  if (akash.length + phala.length + spheron.length === 0) return false
+
+  const paused: string[] = []
+  const errors: string[] = []
+  const record = (outcome: PauseOutcome) => {
+    if (outcome.ok) paused.push(outcome.label)
+    else errors.push(outcome.error)
+  }
+  for (const d of akash) {
+    let policyId = d.policyId
+    if (!policyId) {
+      policyId = await createStopPolicy(prisma)
+      await prisma.akashDeployment.update({
+        where: { id: d.id },
+        data: { policyId },
+      })
+    }
+    record(
+      await pauseAkashDeployment(prisma, { ...d, policyId }, 'SCHEDULED_STOP')
+    )
+  }
+  for (const d of phala) {
+    let policyId = d.policyId
+    if (!policyId) {
+      policyId = await createStopPolicy(prisma)
+      await prisma.phalaDeployment.update({
+        where: { id: d.id },
+        data: { policyId },
+      })
+    }
+    record(
+      await pausePhalaDeployment(prisma, { ...d, policyId }, 'SCHEDULED_STOP')
+    )
+  }
+  for (const d of spheron) {
+    let policyId = d.policyId
+    if (!policyId) {
+      policyId = await createStopPolicy(prisma)
+      await prisma.spheronDeployment.update({
+        where: { id: d.id },
+        data: { policyId },
+      })
+    }
+    record(
+      await pauseSpheronDeployment(prisma, { ...d, policyId }, 'SCHEDULED_STOP')
+    )
+  }
+
+  audit(prisma, {
+    traceId,
+    source: 'monitor',
+    category: 'deployment',
+    action: 'schedule.stopped',
+    status: errors.length > 0 ? 'warn' : 'ok',
+    orgId: service.project.organizationId,
+    projectId: service.projectId,
+    serviceId: service.id,
+    payload: { paused, errors },
+  })
+  return paused.length > 0
+}
+
+async function startService(
+  prisma: PrismaClient,
+  service: ScheduledService,
+  traceId: string
+): Promise<boolean> {
+  const organizationId = service.project.organizationId
+  const [akash, phala, spheronStopped] = await Promise.all([
+    prisma.akashDeployment.findMany({
+      where: {
+        serviceId: service.id,
+        status: 'SUSPENDED',
+        policy: SCHEDULE_STOPPED,
+      },
+      include: { escrow: true },
+    }),
+    prisma.phalaDeployment.findMany({
+      where: {
+        serviceId: service.id,
+        status: 'STOPPED',
+        policy: SCHEDULE_STOPPED,
+      },
+    }),
+    prisma.spheronDeployment.findMany({
+      where: {
+        serviceId: service.id,
+        status: 'STOPPED',
+        policy: SCHEDULE_STOPPED,
+      },
+    }),
+  ])
+  // A Spheron resume leaves the stopped row behind as the forensic trail,
+  // so skip rows a previous window already brought back.
+  const successors = await prisma.spheronDeployment.findMany({
+    where: { resumedFromId: { in: spheronStopped.map(d => d.id) } },
+    select: { resumedFromId: true },
+  })
+  const resumedIds = new Set(successors.map(s => s.resumedFromId))
+  const spheron = spheronStopped.filter(d => !resumedIds.has(d.id))
+  if (!organizationId || akash.length + phala.length + spheron.length === 0) {
+    return false
+  }
+
+  const base = {
+    traceId,
+    source: 'monitor',
+    category: 'deployment' as const,
+    orgId: organizationId,
+    projectId: service.projectId,
+    serviceId: service.id,
+  }
+
+  const live = await Promise.all([
+    prisma.akashDeployment.count({
+      where: { serviceId: service.id, status: 'ACTIVE' },
+    }),
+    prisma.phalaDeployment.count({
+      where: { serviceId: service.id, status: 'ACTIVE' },
+    }),
+    prisma.spheronDeployment.count({
+      where: { serviceId: service.id, status: 'ACTIVE' },
+    }),
+  ])
+  if (live.some(n => n > 0)) {
+    audit(prisma, {
+      ...base,
+      action: 'schedule.start_skipped',
+      status: 'warn',
+      payload: { reason: 'already_running' },
+    })
+    return false
+  }
+
+  const provider =
+    akash.length > 0 ? 'akash' : phala.length > 0 ? 'phala' : 'spheron'
+  let dailyCostCents = 0
+  for (const d of akash) dailyCostCents += d.escrow?.dailyRateCents ?? 0
+  for (const d of [...phala, ...spheron]) {
+    dailyCostCents += (d.hourlyRateCents ?? 0) * 24
+  }
+  try {
+    await assertDeployBalance(organizationId, provider, prisma, {
+      dailyCostCents,
+    })
+  } catch (err) {
+    audit(prisma, {
+      ...base,
+      action: 'schedule.start_skipped',
+      status: 'warn',
+      payload: { reason: 'insufficient_balance', dailyCostCents },
+      errorMessage: err instanceof Error ? err.message : String(err),
+    })
+    return false
+  }
+
+  const { orgBillingId } =
+    await getBillingApiClient().getOrgBilling(organizationId)
+  const billing: ResumeBilling = { orgBillingId, organizationId }
+
+  const resumed: string[] = []
+  const errors: string[] = []
+  const attempt = async (label: string, resume: () => Promise<string>) => {
+    try {
+      resumed.push(await resume())
+    } catch (err) {
+      errors.push(
+        `${label}: ${err instanceof Error ? err.message : 'Unknown error'}`
+      )
+    }
+  }
+  for (const d of akash) {
+    await attempt(`Akash ${d.id}`, () =>
+      resumeAkashDeployment(prisma, d, billing)
+    )
+  }
+  for (const d of phala) {
+    await attempt(`Phala ${d.id}`, () => resumePhalaDeployment(prisma, d))
+  }
+  for (const d of spheron) {
+    await attempt(`Spheron ${d.id}`, () =>
+      resumeSpheronDeployment(prisma, d, billing)
+    )
+  }
+
+  audit(prisma, {
+    ...base,
+    action: 'schedule.started',
+    status: errors.length > 0 ? 'warn' : 'ok',
+    payload: { resumed, errors },
+  })
+  return resumed.length > 0
+}
+
+/**
+ * Act on every schedule edge that fired in (from, to]. If both edges
+ * fired in the span, the later one wins.
+ */
+export async function runScheduleCycle(
+  prisma: PrismaClient,
+  from: Date,
+  to: Date,
+  traceId: string
+): Promise<{ stopped: number; started: number }> {
+  const services = await prisma.service.findMany({
+    where: { runSchedule: { path: ['enabled'], equals: true } },
+    select: {
+      id: true,
+      projectId: true,
+      runSchedule: true,
+      project: { select: { organizationId: true } },
+    },
+  })
+
+  let stopped = 0
+  let started = 0
+  for (const service of services) {
+    const schedule = parseRunSchedule(service.runSchedule)
+    if (!schedule) continue
+    const edge = lastEventBetween(schedule, from, to)
+    if (!edge) continue
+
+    try {
+      if (edge.event === 'stop') {
+        if (await stopService(prisma, service, traceId)) stopped++
+      } else if (await startService(prisma, service, traceId)) {
+        started++
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err)
+      log.error(
+        { serviceId: service.id, event: edge.event, err: message },
+        'run schedule: failed to apply edge'
+      )
+      audit(prisma, {
+        traceId,
+        source: 'monitor',
+        category: 'deployment',
+        action: 'schedule.failed',
+        status: 'error',
+        orgId: service.project.organizationId,
+        projectId: service.projectId,
+        serviceId: service.id,
+        payload: { event: edge.event, firedAt: edge.at.toISOString() },
+        errorMessage: message,
+      })
+    }
+  }
+
+  return { stopped, started }
+}
@@ -0,0 +1,81 @@
+/**
+ * Run Schedule Scheduler
+ *
+ * Checks `Service.runSchedule` windows once a minute. Each tick covers
+ * the span since the previous one, so a skipped tick (previous run still
+ * going) delays an edge rather than losing it. A freshly elected leader
+ * looks back `CATCH_UP_MS` to pick up edges that fired during the
+ * handover.
+ *
+ * Stopping and resuming deployments must happen once, so this is wrapped
+ * in `runWithLeadership('run-schedule-scheduler', …)` in `index.ts`.
+ */
+
+import * as cron from 'node-cron'
+import { randomUUID } from 'node:crypto'
+import type { PrismaClient } from '@prisma/client'
+import { createLogger } from '../../lib/logger.js'
+import { requestContext } from '../../lib/requestContext.js'
+import { runScheduleCycle } from './runScheduleCycle.js'
+
+const log = createLogger('run-schedule-scheduler')
+
+const CATCH_UP_MS = 10 * 60_000
+
+export class RunScheduleScheduler {
+  private cronJob: cron.ScheduledTask | null = null
+  private running = false
+  private lastTickAt: Date | null = null
+  private readonly prisma: PrismaClient
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma
+  }
+
+  start() {
+    if (this.cronJob) {
+      log.info('Already running')
+      return
+    }
+
+    this.lastTickAt = null
+    this.cronJob = cron.schedule('* * * * *', async () => {
+      await this.runOnce()
+    })
+
+    log.info('Started — applies service run schedules every minute')
+  }
+
+  stop() {
+    if (this.cronJob) {
+      this.cronJob.stop()
+      this.cronJob = null
+      log.info('Stopped')
+    }
+  }
+
+  async runOnce(now = new Date()) {
+    if (this.running) {
+      log.info('Previous run-schedule pass still in progress — skipping tick')
+      return
+    }
+    this.running = true
+    const from = new Date(
+      Math.max(this.lastTickAt?.getTime() ?? 0, now.getTime() - CATCH_UP_MS)
+    )
+    const traceId = randomUUID()
+    try {
+      await requestContext.run({ requestId: traceId, traceId }, async () => {
+        const result = await runScheduleCycle(this.prisma, from, now, traceId)
+        if (result.stopped > 0 || result.started > 0) {
+          log.info(result, 'Run-schedule pass complete')
+        }
+      })
+      this.lastTickAt = now
+    } catch (err) {
+      log.error({ err }, 'Run-schedule pass failed')
+    } finally {
+      this.running = false
+    }
+  }
+}
@@ -7,16 +7,19 @@
  * Protocol:
  *   1. Client connects to /ws/shell?serviceId=<id>[&service=<name>][&command=<cmd>]
  *   2. Client sends: { type: "auth", token: "<jwt-or-pat>" }
- *   3. Server validates, spawns shell, sends: { type: "ready" }
+ *   3. Server validates, spawns shell, sends: { type: "ready", sessionId, recording }
+ *      and, when the org records shells, a banner on the terminal
  *   4. Bidirectional binary data piping (stdin/stdout)
  *   5. Control messages: { type: "resize", cols: N, rows: N }
  *
  * Security:
  *   - 15-minute idle timeout per session
  *   - Max 3 concurrent sessions per user
- *   - Audit logging of session lifecycle (no content logging)
+ *   - Audit logging of session lifecycle; terminal output is only kept when
+ *     the org opted into recording (see shellRecording.ts)
  */
 
+import { randomUUID } from 'node:crypto'
 import { WebSocketServer, WebSocket } from 'ws'
 import type { IncomingMessage } from 'http'
 import type { PrismaClient } from '@prisma/client'
@@ -24,6 +27,21 @@ import jwt from 'jsonwebtoken'
 import { findActiveDeploymentForService } from '../providers/registry.js'
 import type { ShellSession } from '../providers/types.js'
 import { createLogger } from '../../lib/logger.js'
+import { audit } from '../../lib/audit.js'
+import { hasProjectPermission } from '../auth/permissions.js'
+import {
+  loadTokenRestriction,
+  tokenCoversService,
+  tokenHasScope,
+} from '../auth/tokenScopes.js'
+import {
+  RECORDING_BANNER,
+  RECORDING_CHECKPOINT_MS,
+  ShellRecorder,
+  checkpointShellRecording,
+  loadShellRecordingPolicy,
+  saveShellRecording,
+} from './shellRecording.js'
 
 const log = createLogger('shell-endpoint')
 
@@ -33,6 +51,9 @@ const AUTH_TIMEOUT_MS = 10_000
 
 const activeSessions = new Map<string, Set<WebSocket>>()
 
+/** Ends a session at shutdown; resolves once its recording is written. */
+const sessionClosers = new Map<WebSocket, () => Promise<void>>()
+
 function getSessionCount(userId: string): number {
   return activeSessions.get(userId)?.size ?? 0
 }
@@ -57,6 +78,7 @@ function untrackSession(userId: string, ws: WebSocket): void {
 interface AuthResult {
   userId: string
   organizationId?: string
+  tokenId?: string
 }
 
 async function validateToken(
@@ -82,10 +104,11 @@ async function validateToken(
   try {
     const payload = jwt.verify(token, jwtSecret) as {
       userId: string
+      tokenId?: string
       type: string
     }
     if (payload.type === 'sdk-access' && payload.userId) {
-      return { userId: payload.userId }
+      return { userId: payload.userId, tokenId: payload.tokenId }
     }
   } catch {
     // Not a valid SDK JWT
@@ -112,10 +135,15 @@ async function validateToken(
     const data = (await res.json()) as {
       valid: boolean
       userId?: string
+      tokenId?: string
       organizationId?: string
     }
     if (!data.valid || !data.userId) return null
-    return { userId: data.userId, organizationId: data.organizationId }
+    return {
+      userId: data.userId,
+      organizationId: data.organizationId,
+      tokenId: data.tokenId,
+    }
   } catch (err) {
     log.warn({ err }, 'PAT validation failed')
     return null
@@ -212,7 +240,7 @@ export class ShellEndpoint {
         await this.startShellSession(ws, auth.userId, serviceId, auth.organizationId, {
           service: sdlServiceOverride,
           command: commandOverride,
-        })
+        }, auth.tokenId)
         authenticated = true
       } catch (err) {
         log.error({ err }, 'Shell auth error')
@@ -231,14 +259,17 @@ export class ShellEndpoint {
     userId: string,
     serviceId: string,
     organizationId?: string,
-    shellOpts?: { service?: string; command?: string }
+    shellOpts?: { service?: string; command?: string },
+    tokenId?: string
   ): Promise<void> {
     const startTime = Date.now()
 
     // Validate service ownership
     const service = await this.prisma.service.findUnique({
       where: { id: serviceId },
-      include: { project: { select: { userId: true, organizationId: true } } },
+      include: {
+        project: { select: { id: true, userId: true, organizationId: true } },
+      },
     })
 
     if (!service) {
@@ -248,7 +279,7 @@ export class ShellEndpoint {
     }
 
     const project = (service as any).project as
-      | { userId: string; organizationId: string | null }
+      | { id: string; userId: string; organizationId: string | null }
       | null
 
     if (!project) {
@@ -281,6 +312,60 @@ export class ShellEndpoint {
       return
     }
 
+    // Viewers and billing members can see a service but not get a shell in it.
+    const { allowed, role } = await hasProjectPermission(
+      this.prisma,
+      project,
+      userId,
+      'shell.open'
+    )
+    if (!allowed) {
+      audit(this.prisma, {
+        category: 'auth',
+        action: 'rbac.denied',
+        status: 'warn',
+        userId,
+        orgId: project.organizationId,
+        serviceId,
+        errorCode: 'FORBIDDEN',
+        payload: { permission: 'shell.open', role, operation: 'shell.open' },
+      })
+      sendJson(ws, {
+        type: 'error',
+        message: `Your role (${role ?? 'none'}) does not allow shell access`,
+      })
+      ws.close(1008, 'Forbidden')
+      return
+    }
+
+    // Scoped tokens need shell:open and, if bound, this service or project.
+    const restriction = tokenId
+      ? await loadTokenRestriction(this.prisma, tokenId)
+      : null
+    if (
+      restriction &&
+      (!tokenHasScope(restriction, 'shell:open') ||
+        !tokenCoversService(restriction, service, project.id))
+    ) {
+      audit(this.prisma, {
+        category: 'auth',
+        action: 'token_scope.denied',
+        status: 'warn',
+        userId,
+        orgId: project.organizationId,
+        projectId: project.id,
+        serviceId,
+        errorCode: 'FORBIDDEN',
+        payload: { tokenId, scope: 'shell:open', operation: 'shell.open' },
+      })
+      sendJson(ws, {
+        type: 'error',
+        message: 'This token is not allowed to open a shell in this service',
+      })
+      ws.close(1008, 'Forbidden')
+      return
+    }
+
     // Resolve the live deployment via the provider registry. Each provider's
     // descriptor.liveStatuses defines the filter, so Akash/Phala match ACTIVE
     // only and Spheron matches CREATING/STARTING/ACTIVE.
@@ -305,6 +390,11 @@ export class ShellEndpoint {
       return
     }
 
+    // Orgs can opt in to recording every shell into their services.
+    const recordingPolicy = project.organizationId
+      ? await loadShellRecordingPolicy(this.prisma, project.organizationId)
+      : null
+
     let session: ShellSession
     try {
       session = await provider.getShell(deployment.id, {
@@ -319,9 +409,59 @@ export class ShellEndpoint {
       return
     }
 
+    const sessionId = randomUUID()
+    const recordingStartedAt = new Date()
+    const recorder = recordingPolicy?.enabled
+      ? new ShellRecorder(recordingStartedAt.getTime())
+      : null
+
+    // Recording writes run one at a time, so a slow checkpoint never lands
+    // after the final save.
+    const recordingInput =
+      recorder && project.organizationId
+        ? {
+            sessionId,
+            organizationId: project.organizationId,
+            projectId: project.id,
+            serviceId,
+            deploymentId: deployment.id,
+            provider: provider.name,
+            userId,
+            startedAt: recordingStartedAt,
+          }
+        : null
+    let recordingWrites: Promise<void> = Promise.resolve()
+    let checkpointedBytes = -1
+    let checkpointedEvents = -1
+    const checkpoint = () => {
+      if (!recorder || !recordingInput) return
+      if (
+        recorder.outputBytes === checkpointedBytes &&
+        recorder.eventCount === checkpointedEvents
+      )
+        return
+      checkpointedBytes = recorder.outputBytes
+      checkpointedEvents = recorder.eventCount
+      recordingWrites = recordingWrites
+        .then(() =>
+          checkpointShellRecording(this.prisma, recorder, recordingInput)
+        )
+        .then(() => undefined)
+        .catch(err =>
+          log.warn(
+            { err, sessionId, serviceId },
+            'Failed to checkpoint shell recording'
+          )
+        )
+    }
+    const checkpointTimer = recordingInput
+      ? setInterval(checkpoint, RECORDING_CHECKPOINT_MS)
+      : null
+    checkpoint()
+
     trackSession(userId, ws)
     log.info(
-      { userId, serviceId, providerType: provider.name, deploymentId: deployment.id },
+      { userId, serviceId, sessionId, providerType: provider.name, deploymentId: deployment.id, recording: Boolean(recorder) },
       'SHELL_OPEN'
     )
 
@@ -336,27 +476,52 @@ export class ShellEndpoint {
     }
 
     let cleanedUp = false
-    const cleanup = (reason: string) => {
-      if (cleanedUp) return
+    const cleanup = (reason: string): Promise<void> => {
+      if (cleanedUp) return recordingWrites
       cleanedUp = true
       clearTimeout(idleTimer)
+      if (checkpointTimer) clearInterval(checkpointTimer)
       try { session.kill() } catch (err) {
         log.warn({ err, userId, serviceId }, 'session.kill() threw during cleanup')
       }
       untrackSession(userId, ws)
+      sessionClosers.delete(ws)
       const durationSec = Math.round((Date.now() - startTime) / 1000)
       log.info(
-        { userId, serviceId, providerType: provider.name, reason, duration: durationSec },
+        { userId, serviceId, sessionId, providerType: provider.name, reason, duration: durationSec },
         'SHELL_CLOSE'
       )
+      if (recorder && recordingInput) {
+        const endedAt = new Date()
+        recordingWrites = recordingWrites
+          .then(() =>
+            saveShellRecording(this.prisma, recorder, {
+              ...recordingInput,
+              endedAt,
+              endReason: reason,
+            })
+          )
+          .then(recordingId =>
+            log.info({ sessionId, recordingId }, 'Shell recording saved')
+          )
+          .catch(err =>
+            log.error(
+              { err, sessionId, serviceId },
+              'Failed to save shell recording'
+            )
+          )
+      }
       if (ws.readyState === WebSocket.OPEN) {
         ws.close(1000, reason)
       }
+      return recordingWrites
     }
+    sessionClosers.set(ws, () => cleanup('server_shutdown'))
 
     // Pipe shell stdout → WebSocket
     session.onData((chunk) => {
       resetIdle()
+      recorder?.output(chunk)
       if (ws.readyState === WebSocket.OPEN) {
         ws.send(chunk)
       }
@@ -366,7 +531,10 @@ export class ShellEndpoint {
       cleanup(`process_exit(${code})`)
     })
 
-    sendJson(ws, { type: 'ready' })
+    sendJson(ws, { type: 'ready', sessionId, recording: Boolean(recorder) })
+    if (recorder && ws.readyState === WebSocket.OPEN) {
+      ws.send(Buffer.from(RECORDING_BANNER))
+    }
 
     // Replace the message handler: now pipe WebSocket → shell stdin
     ws.removeAllListeners('message')
@@ -381,6 +549,7 @@ export class ShellEndpoint {
             const cols = Math.max(1, Math.min(500, Math.floor(Number(msg.cols) || 80)))
             const rows = Math.max(1, Math.min(200, Math.floor(Number(msg.rows) || 24)))
             session.resize(cols, rows)
+            recorder?.resize(cols, rows)
             return
           }
         } catch {
@@ -401,15 +570,20 @@ export class ShellEndpoint {
     })
   }
 
-  shutdown(): void {
-    for (const [userId, sessions] of activeSessions) {
-      for (const ws of sessions) {
-        sendJson(ws, { type: 'error', message: 'Server shutting down' })
-        ws.close(1001, 'Server shutdown')
-      }
-      sessions.clear()
+  /**
+   * Server shutdown: end every session and wait until their recordings
+   * are written, so a deploy or restart doesn't drop them.
+   */
+  async shutdown(): Promise<void> {
+    const saves: Promise<void>[] = []
+    for (const [ws, close] of sessionClosers) {
+      sendJson(ws, { type: 'error', message: 'Server shutting down' })
+      ws.close(1001, 'Server shutdown')
+      saves.push(close())
     }
+    sessionClosers.clear()
     activeSessions.clear()
     this.wss.close()
+    await Promise.allSettled(saves)
   }
 }
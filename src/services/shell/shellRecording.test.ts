@@ -0,0 +1,151 @@
+import { describe, expect, it, vi } from 'vitest'
+import {
+  ShellRecorder,
+  checkpointShellRecording,
+  purgeExpiredShellRecordings,
+  saveShellRecording,
+} from './shellRecording.js'
+
+vi.mock('../../lib/vault.js', () => ({
+  sealSecret: (_purpose: string, value: string) => `sealed:${value}`,
+}))
+
+function parse(cast: string) {
+  const [header, ...events] = cast
+    .trimEnd()
+    .split('\n')
+    .map(l => JSON.parse(l))
+  return { header, events }
+}
+
+describe('ShellRecorder', () => {
+  const start = Date.UTC(2026, 5, 1, 12, 0, 0)
+
+  it('writes asciicast v2 with output and resize events', () => {
+    const recorder = new ShellRecorder(start)
+    recorder.resize(120, 40, start + 5)
+    recorder.output(Buffer.from('$ ls\r\n'), start + 1_250)
+    recorder.resize(100, 30, start + 2_000)
+
+    const { header, events } = parse(recorder.finish('demo'))
+    expect(header).toMatchObject({
+      version: 2,
+      width: 120,
+      height: 40,
+      timestamp: start / 1000,
+      title: 'demo',
+    })
+    expect(events).toEqual([
+      [1.25, 'o', '$ ls\r\n'],
+      [2, 'r', '100x30'],
+    ])
+  })
+
+  it('keeps multi-byte characters split across chunks intact', () => {
+    const recorder = new ShellRecorder(start)
+    const euro = Buffer.from('€')
+    recorder.output(euro.subarray(0, 2), start + 10)
+    recorder.output(euro.subarray(2), start + 20)
+
+    expect(parse(recorder.finish()).events).toEqual([[0.02, 'o', '€']])
+  })
+
+  it('stops recording output past the size limit', () => {
+    const recorder = new ShellRecorder(start, 8)
+    recorder.output(Buffer.from('12345'), start + 100)
+    recorder.output(Buffer.from('67890'), start + 200)
+    recorder.output(Buffer.from('x'), start + 300)
+
+    expect(recorder.truncated).toBe(true)
+    expect(recorder.outputBytes).toBe(5)
+    const { events } = parse(recorder.finish())
+    expect(events).toHaveLength(2)
+    expect(events[1][0]).toBe(0.2)
+    expect(events[1][2]).toContain('output size limit')
+  })
+})
+
+describe('checkpointShellRecording', () => {
+  const input = {
+    sessionId: 'sess-1',
+    organizationId: 'org-1',
+    projectId: 'proj-1',
+    serviceId: 'svc-1',
+    deploymentId: 'dep-1',
+    provider: 'akash',
+    userId: 'user-1',
+    startedAt: new Date(Date.UTC(2026, 5, 1, 12, 0, 0)),
+  }
+
+  function makePrisma() {
+    const upsert = vi.fn().mockResolvedValue({ id: 'rec-1' })
+    const prisma = {
+      shellRecording: { upsert },
+      auditEvent: { create: vi.fn().mockResolvedValue({}) },
+    } as any
+    return { prisma, upsert }
+  }
+
+  it('writes the session so far without ending it, then the final cast over it', async () => {
+    const { prisma, upsert } = makePrisma()
+    const recorder = new ShellRecorder(input.startedAt.getTime())
+    recorder.output(Buffer.from('$ ls\r\n'), input.startedAt.getTime() + 500)
+
+    await checkpointShellRecording(prisma, recorder, input)
+    const first = upsert.mock.calls[0][0]
+    expect(first.where).toEqual({ sessionId: 'sess-1' })
+    expect(first.create.endReason).toBeUndefined()
+    expect(first.update.endReason).toBeUndefined()
+    expect(first.create.sealedCast).toContain('$ ls')
+
+    recorder.output(Buffer.from('done\r\n'), input.startedAt.getTime() + 900)
+    const endedAt = new Date(input.startedAt.getTime() + 1_000)
+    await saveShellRecording(prisma, recorder, {
+      ...input,
+      endedAt,
+      endReason: 'user_disconnect',
+    })
+    const final = upsert.mock.calls[1][0]
+    expect(final.update).toMatchObject({
+      endReason: 'user_disconnect',
+      endedAt,
+      eventCount: 2,
+    })
+    expect(final.update.sealedCast).toContain('done')
+  })
+})
+
+describe('purgeExpiredShellRecordings', () => {
+  it('deletes recordings older than each org’s retention', async () => {
+    const deleteMany = vi
+      .fn()
+      .mockResolvedValueOnce({ count: 3 })
+      .mockResolvedValueOnce({ count: 0 })
+    const auditCreate = vi.fn().mockResolvedValue({})
+    const prisma = {
+      shellRecordingSettings: {
+        findMany: vi.fn().mockResolvedValue([
+          { organizationId: 'org-1', retentionDays: 7 },
+          { organizationId: 'org-2', retentionDays: 90 },
+        ]),
+      },
+      shellRecording: { deleteMany },
+      auditEvent: { create: auditCreate },
+    } as any
+    const now = new Date('2026-06-30T00:00:00Z')
+
+    expect(await purgeExpiredShellRecordings(prisma, now)).toBe(3)
+    expect(deleteMany).toHaveBeenNthCalledWith(1, {
+      where: {
+        organizationId: 'org-1',
+        startedAt: { lt: new Date('2026-06-23T00:00:00Z') },
+      },
+    })
+    await vi.waitFor(() => expect(auditCreate).toHaveBeenCalledTimes(1))
+    expect(auditCreate.mock.calls[0][0].data).toMatchObject({
+      action: 'shell.recordings_purged',
+      orgId: 'org-1',
+      payload: { count: 3, retentionDays: 7 },
+    })
+  })
+})
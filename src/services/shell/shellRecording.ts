@@ -0,0 +1,262 @@
+/**
+ * Shell session recording — opt-in per organization.
+ *
+ * With recording on, every shell opened into one of the org's services is
+ * captured as an asciicast v2 file: a JSON header line followed by
+ * `[seconds, "o", text]` output events and `[seconds, "r", "COLSxROWS"]`
+ * resize events. Keystrokes are left out, as asciinema does by default:
+ * the terminal echo already shows what was typed, and raw input would also
+ * capture passwords typed at no-echo prompts.
+ *
+ * The cast is sealed with the vault and written while the session
+ * runs: a checkpoint every RECORDING_CHECKPOINT_MS, then a final write
+ * with the end reason when it closes. A pod that dies mid-session loses
+ * at most the last interval, and its recording keeps a null `endReason`.
+ * Recordings are kept for the org's `retentionDays`; the retention sweep
+ * runs on the leader pod. Output past MAX_RECORDING_BYTES is dropped and
+ * the recording is flagged `truncated` — the shell itself keeps working.
+ */
+
+import { StringDecoder } from 'node:string_decoder'
+import type { PrismaClient } from '@prisma/client'
+import { audit } from '../../lib/audit.js'
+import { sealSecret } from '../../lib/vault.js'
+
+export const DEFAULT_RETENTION_DAYS = 30
+export const MIN_RETENTION_DAYS = 1
+export const MAX_RETENTION_DAYS = 365
+
+/** Terminal output kept per recording (bytes, before sealing). */
+export const MAX_RECORDING_BYTES = 5 * 1024 * 1024
+
+/** How often an open session's recording is written. */
+export const RECORDING_CHECKPOINT_MS = 30_000
+
+/** Written to the terminal before the prompt when the session is recorded. */
+export const RECORDING_BANNER =
+  '\r\n\x1b[1;33m*** This shell session is being recorded by your organization. ***\x1b[0m\r\n\r\n'
+
+const TRUNCATED_NOTICE =
+  '\r\n*** Recording stopped here: output size limit reached ***\r\n'
+
+export interface ShellRecordingPolicy {
+  enabled: boolean
+  retentionDays: number
+}
+
+export async function loadShellRecordingPolicy(
+  prisma: PrismaClient,
+  organizationId: string
+): Promise<ShellRecordingPolicy> {
+  const settings = await prisma.shellRecordingSettings.findUnique({
+    where: { organizationId },
+    select: { enabled: true, retentionDays: true },
+  })
+  return settings ?? { enabled: false, retentionDays: DEFAULT_RETENTION_DAYS }
+}
+
+export function isValidRetentionDays(days: number): boolean {
+  return (
+    Number.isInteger(days) &&
+    days >= MIN_RETENTION_DAYS &&
+    days <= MAX_RETENTION_DAYS
+  )
+}
+
+/** Collects one session's output and resizes as asciicast v2 events. */
+export class ShellRecorder {
+  private readonly events: string[] = []
+  private readonly decoder = new StringDecoder('utf8')
+  private readonly startedAt: number
+  private readonly maxBytes: number
+  private cols = 80
+  private rows = 24
+  private bytes = 0
+  private truncatedAt: number | null = null
+
+  constructor(startedAt = Date.now(), maxBytes = MAX_RECORDING_BYTES) {
+    this.startedAt = startedAt
+    this.maxBytes = maxBytes
+  }
+
+  get outputBytes(): number {
+    return this.bytes
+  }
+
+  get eventCount(): number {
+    return this.events.length
+  }
+
+  get truncated(): boolean {
+    return this.truncatedAt !== null
+  }
+
+  output(chunk: Buffer, at = Date.now()): void {
+    if (this.truncatedAt !== null) return
+    if (this.bytes + chunk.length > this.maxBytes) {
+      this.truncatedAt = at
+      return
+    }
+    this.bytes += chunk.length
+    // The decoder holds back a multi-byte character split across chunks.
+    const text = this.decoder.write(chunk)
+    if (text) this.push(at, 'o', text)
+  }
+
+  resize(cols: number, rows: number, at = Date.now()): void {
+    // The client sends its size right after `ready`: before any event,
+    // that is the terminal size in the header.
+    if (this.events.length === 0) {
+      this.cols = cols
+      this.rows = rows
+      return
+    }
+    this.push(at, 'r', `${cols}x${rows}`)
+  }
+
+  /** The cast so far, while the session is still running. */
+  snapshot(title?: string): string {
+    const events =
+      this.truncatedAt === null
+        ? this.events
+        : [...this.events, this.event(this.truncatedAt, 'o', TRUNCATED_NOTICE)]
+    const header = {
+      version: 2,
+      width: this.cols,
+      height: this.rows,
+      timestamp: Math.floor(this.startedAt / 1000),
+      ...(title ? { title } : {}),
+      env: { TERM: 'xterm-256color' },
+    }
+    return [JSON.stringify(header), ...events].join('\n') + '\n'
+  }
+
+  /** The complete cast. Call once, when the session has ended. */
+  finish(title?: string): string {
+    const rest = this.decoder.end()
+    if (this.truncatedAt === null && rest) this.push(Date.now(), 'o', rest)
+    return this.snapshot(title)
+  }
+
+  private push(at: number, code: 'o' | 'r', data: string): void {
+    this.events.push(this.event(at, code, data))
+  }
+
+  private event(at: number, code: 'o' | 'r', data: string): string {
+    const seconds = Math.max(0, at - this.startedAt) / 1000
+    return JSON.stringify([Number(seconds.toFixed(3)), code, data])
+  }
+}
+
+export interface SaveShellRecordingInput {
+  sessionId: string
+  organizationId: string
+  projectId: string
+  serviceId: string
+  deploymentId: string | null
+  provider: string
+  userId: string
+  startedAt: Date
+  endedAt: Date
+  endReason: string
+}
+
+export type ShellRecordingCheckpoint = Omit<
+  SaveShellRecordingInput,
+  'endedAt' | 'endReason'
+>
+
+/** Create or overwrite the session's row; `sessionId` is unique. */
+async function writeShellRecording(
+  prisma: PrismaClient,
+  recorder: ShellRecorder,
+  input: SaveShellRecordingInput | ShellRecordingCheckpoint,
+  cast: string
+): Promise<string> {
+  const data = {
+    ...input,
+    sealedCast: sealSecret('shell-recording', cast),
+    outputBytes: recorder.outputBytes,
+    eventCount: recorder.eventCount,
+    truncated: recorder.truncated,
+    endedAt: 'endedAt' in input ? input.endedAt : new Date(),
+  }
+  const recording = await prisma.shellRecording.upsert({
+    where: { sessionId: input.sessionId },
+    create: data,
+    update: data,
+    select: { id: true },
+  })
+  return recording.id
+}
+
+/**
+ * Store what an open session has recorded so far. `endedAt` is the time of
+ * the checkpoint and `endReason` stays null until the session ends.
+ */
+export async function checkpointShellRecording(
+  prisma: PrismaClient,
+  recorder: ShellRecorder,
+  input: ShellRecordingCheckpoint
+): Promise<string> {
+  const cast = recorder.snapshot(`Shell session ${input.sessionId}`)
+  return writeShellRecording(prisma, recorder, input, cast)
+}
+
+/** Seal and store a finished recording, then audit it against the session. */
+export async function saveShellRecording(
+  prisma: PrismaClient,
+  recorder: ShellRecorder,
+  input: SaveShellRecordingInput
+): Promise<string> {
+  const cast = recorder.finish(`Shell session ${input.sessionId}`)
+  const recordingId = await writeShellRecording(prisma, recorder, input, cast)
+  audit(prisma, {
+    category: 'user',
+    action: 'shell.recording_saved',
+    userId: input.userId,
+    orgId: input.organizationId,
+    projectId: input.projectId,
+    serviceId: input.serviceId,
+    deploymentId: input.deploymentId,
+    durationMs: input.endedAt.getTime() - input.startedAt.getTime(),
+    payload: {
+      recordingId,
+      sessionId: input.sessionId,
+      outputBytes: recorder.outputBytes,
+      truncated: recorder.truncated,
+      endReason: input.endReason,
+    },
+  })
+  return recordingId
+}
+
+/**
+ * Delete recordings older than their org's retention. Orgs that turned
+ * recording off keep their settings row, so old recordings still age out.
+ * Returns how many were deleted.
+ */
+export async function purgeExpiredShellRecordings(
+  prisma: PrismaClient,
+  now = new Date()
+): Promise<number> {
+  const orgs = await prisma.shellRecordingSettings.findMany({
+    select: { organizationId: true, retentionDays: true },
+  })
+  let purged = 0
+  for (const org of orgs) {
+    const cutoff = new Date(now.getTime() - org.retentionDays * 86_400_000)
+    const { count } = await prisma.shellRecording.deleteMany({
+      where: { organizationId: org.organizationId, startedAt: { lt: cutoff } },
+    })
+    if (count === 0) continue
+    purged += count
+    audit(prisma, {
+      category: 'cron',
+      action: 'shell.recordings_purged',
+      orgId: org.organizationId,
+      payload: { count, retentionDays: org.retentionDays },
+    })
+  }
+  return purged
+}
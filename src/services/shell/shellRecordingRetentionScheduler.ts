@@ -0,0 +1,65 @@
+/**
+ * Shell Recording Retention Scheduler
+ *
+ * Hourly, deletes shell recordings older than their organization's
+ * retention period. One pod only (leadership in `index.ts`).
+ */
+
+import * as cron from 'node-cron'
+import { randomUUID } from 'node:crypto'
+import type { PrismaClient } from '@prisma/client'
+import { createLogger } from '../../lib/logger.js'
+import { requestContext } from '../../lib/requestContext.js'
+import { purgeExpiredShellRecordings } from './shellRecording.js'
+
+const log = createLogger('shell-recording-retention-scheduler')
+
+export class ShellRecordingRetentionScheduler {
+  private cronJob: cron.ScheduledTask | null = null
+  private running = false
+  private readonly prisma: PrismaClient
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma
+  }
+
+  start() {
+    if (this.cronJob) {
+      log.info('Already running')
+      return
+    }
+
+    this.cronJob = cron.schedule('0 * * * *', async () => {
+      await this.runOnce()
+    })
+
+    log.info('Started — purges expired shell recordings hourly')
+  }
+
+  stop() {
+    if (this.cronJob) {
+      this.cronJob.stop()
+      this.cronJob = null
+      log.info('Stopped')
+    }
+  }
+
+  async runOnce(now = new Date()) {
+    if (this.running) {
+      log.info('Previous retention sweep still in progress — skipping tick')
+      return
+    }
+    this.running = true
+    const traceId = randomUUID()
+    try {
+      await requestContext.run({ requestId: traceId, traceId }, async () => {
+        const purged = await purgeExpiredShellRecordings(this.prisma, now)
+        if (purged > 0) log.info({ purged }, 'Expired shell recordings purged')
+      })
+    } catch (err) {
+      log.error({ err }, 'Shell recording retention sweep failed')
+    } finally {
+      this.running = false
+    }
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Event Webhook Scheduler
+ *
+ * Every 15 seconds, queues new audit events for each org event webhook,
+ * sends due deliveries and prunes the delivery log. One pod only
+ * (leadership in `index.ts`) so fan-out cursors have a single writer.
+ */
+
+import * as cron from 'node-cron'
+import { randomUUID } from 'node:crypto'
+import type { PrismaClient } from '@prisma/client'
+import { createLogger } from '../../lib/logger.js'
+import { requestContext } from '../../lib/requestContext.js'
+import { processEventWebhooks } from './eventWebhooks.js'
+
+const log = createLogger('event-webhook-scheduler')
+
+export class EventWebhookScheduler {
+  private cronJob: cron.ScheduledTask | null = null
+  private running = false
+  private readonly prisma: PrismaClient
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma
+  }
+
+  start() {
+    if (this.cronJob) {
+      log.info('Already running')
+      return
+    }
+
+    this.cronJob = cron.schedule('*/15 * * * * *', async () => {
+      await this.runOnce()
+    })
+
+    log.info('Started — streams audit events to org webhooks every 15s')
+  }
+
+  stop() {
+    if (this.cronJob) {
+      this.cronJob.stop()
+      this.cronJob = null
+      log.info('Stopped')
+    }
+  }
+
+  async runOnce(now = new Date()) {
+    if (this.running) {
+      log.info('Previous event webhook tick still in progress — skipping')
+      return
+    }
+    this.running = true
+    const traceId = randomUUID()
+    try {
+      await requestContext.run({ requestId: traceId, traceId }, async () => {
+        const stats = await processEventWebhooks(this.prisma, now)
+        if (stats.queued > 0 || stats.attempted > 0 || stats.pruned > 0) {
+          log.info(stats, 'Event webhook tick complete')
+        }
+      })
+    } catch (err) {
+      log.error({ err }, 'Event webhook tick failed')
+    } finally {
+      this.running = false
+    }
+  }
+}
@@ -0,0 +1,174 @@
+import crypto from 'node:crypto'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { AuditEvent, PrismaClient } from '@prisma/client'
+
+vi.mock('node:dns/promises', () => ({
+  lookup: vi.fn().mockResolvedValue([{ address: '203.0.113.1', family: 4 }]),
+}))
+vi.mock('../../lib/vault.js', () => ({
+  openSecret: (_purpose: string, sealed: string) => {
+    if (!sealed.startsWith('sealed:')) throw new Error('not sealed')
+    return sealed.slice('sealed:'.length)
+  },
+}))
+
+import {
+  MAX_ATTEMPTS,
+  deliverEventWebhook,
+  matchesEventFilter,
+  renderEventWebhook,
+  retryDelayMs,
+} from './eventWebhooks.js'
+
+const NOW = new Date('2026-05-25T10:00:00Z')
+
+const event = {
+  id: 'evt-1',
+  timestamp: new Date('2026-05-25T09:59:40Z'),
+  traceId: 'trace-1',
+  source: 'cloud-api',
+  category: 'deployment',
+  action: 'build.failed',
+  status: 'error',
+  userId: null,
+  orgId: 'org-1',
+  projectId: 'proj-1',
+  serviceId: 'svc-1',
+  deploymentId: null,
+  durationMs: null,
+  payload: { buildJobId: 'build-1' },
+  errorCode: null,
+  errorMessage: 'npm ci exited with code 1',
+} as unknown as AuditEvent
+
+describe('retryDelayMs', () => {
+  it('doubles from 30s and caps at 6h', () => {
+    expect(retryDelayMs(1)).toBe(30_000)
+    expect(retryDelayMs(2)).toBe(60_000)
+    expect(retryDelayMs(5)).toBe(8 * 60_000)
+    expect(retryDelayMs(20)).toBe(6 * 60 * 60_000)
+  })
+})
+
+describe('matchesEventFilter', () => {
+  it('matches on action prefixes and treats an empty filter as everything', () => {
+    expect(matchesEventFilter([], 'domain.verified')).toBe(true)
+    expect(matchesEventFilter(['build.', 'service.env.'], 'build.failed')).toBe(
+      true
+    )
+    expect(matchesEventFilter(['service.env.'], 'deployment.requested')).toBe(
+      false
+    )
+  })
+})
+
+describe('renderEventWebhook', () => {
+  it('signs the body and identifies the event for dedupe', () => {
+    const { headers, body } = renderEventWebhook(
+      { sealedSigningSecret: 'sealed:shh' },
+      { id: 'del-1', attempts: 2 },
+      event,
+      NOW
+    )
+    expect(JSON.parse(body)).toMatchObject({
+      id: 'evt-1',
+      type: 'build.failed',
+      orgId: 'org-1',
+      occurredAt: '2026-05-25T09:59:40.000Z',
+      payload: { buildJobId: 'build-1' },
+    })
+    expect(headers['X-AF-Event-Id']).toBe('evt-1')
+    expect(headers['X-AF-Attempt']).toBe('2')
+    const timestamp = Math.floor(NOW.getTime() / 1000)
+    expect(headers['X-AF-Signature']).toBe(
+      'sha256=' +
+        crypto
+          .createHmac('sha256', 'shh')
+          .update(`${timestamp}.${body}`)
+          .digest('hex')
+    )
+  })
+})
+
+function makePrisma(attempts: number, sealedSigningSecret = 'sealed:shh') {
+  const delivery = {
+    id: 'del-1',
+    action: event.action,
+    attempts,
+    webhook: {
+      id: 'wh-1',
+      enabled: true,
+      sealedUrl: 'sealed:https://ops.example.com/af-events',
+      sealedSigningSecret,
+    },
+    auditEvent: event,
+  }
+  const update = vi.fn(async ({ data }) => ({ ...delivery, ...data }))
+  const prisma = {
+    eventWebhookDelivery: {
+      updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+      findUnique: vi.fn().mockResolvedValue(delivery),
+      update,
+    },
+  } as unknown as PrismaClient
+  return { prisma, update }
+}
+
+describe('deliverEventWebhook', () => {
+  const originalFetch = global.fetch
+  let fetchMock: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    fetchMock = vi.fn()
+    global.fetch = fetchMock as unknown as typeof fetch
+  })
+
+  afterEach(() => {
+    global.fetch = originalFetch
+  })
+
+  it('backs off exponentially, then dead-letters after the last attempt', async () => {
+    fetchMock.mockResolvedValue({
+      ok: false,
+      status: 502,
+      text: async () => 'bad gateway',
+    })
+
+    const third = await deliverEventWebhook(makePrisma(3).prisma, 'del-1', NOW)
+    expect(third?.status).toBe('PENDING')
+    expect(third?.nextAttemptAt).toEqual(new Date(NOW.getTime() + 120_000))
+
+    const last = await deliverEventWebhook(
+      makePrisma(MAX_ATTEMPTS).prisma,
+      'del-1',
+      NOW
+    )
+    expect(last?.status).toBe('DEAD')
+    expect(last?.deadAt).toBeInstanceOf(Date)
+    expect(last?.nextAttemptAt).toBeNull()
+  })
+
+  it('dead-letters at once when the endpoint rejects the event', async () => {
+    fetchMock.mockResolvedValue({
+      ok: false,
+      status: 410,
+      text: async () => 'gone',
+    })
+    const { prisma } = makePrisma(1)
+
+    const result = await deliverEventWebhook(prisma, 'del-1', NOW)
+
+    expect(result?.status).toBe('DEAD')
+    expect(result?.responseStatus).toBe(410)
+  })
+
+  it('dead-letters without sending when the signing secret cannot be opened', async () => {
+    const { prisma } = makePrisma(1, 'plaintext-secret')
+
+    const result = await deliverEventWebhook(prisma, 'del-1', NOW)
+
+    expect(fetchMock).not.toHaveBeenCalled()
+    expect(result?.status).toBe('DEAD')
+    expect(result?.lastError).toMatch(/could not be decrypted/)
+  })
+})
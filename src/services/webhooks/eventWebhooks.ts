@@ -0,0 +1,390 @@
+/**
+ * Org event webhooks — the org's audit trail as a signed JSON stream.
+ *
+ * `AuditEvent` is the source of truth. Each tick the EventWebhookScheduler
+ *   1. fans out: for every enabled webhook, reads the org's audit events
+ *      at or after `cursorAt` (matching orgId, or a project / service of
+ *      the org) and queues one `EventWebhookDelivery` per event, then
+ *      advances the cursor;
+ *   2. sends every due PENDING delivery, retrying with exponential
+ *      backoff (30s doubling, capped at 6h) until MAX_ATTEMPTS, after
+ *      which the row is dead-lettered (DEAD).
+ *
+ * `audit()` writes are fire-and-forget, so fan-out trails real time by
+ * FANOUT_LAG_MS to let in-flight rows commit. A crash between sending and
+ * recording means the event is sent again: delivery is at-least-once and
+ * receivers dedupe on `X-AF-Event-Id`. `replayWebhookDeliveries` puts
+ * delivered and dead rows back in the queue and rewinds the cursor so
+ * events never queued (e.g. from before the webhook existed) are picked up.
+ */
+
+import type {
+  AuditEvent,
+  EventWebhook,
+  EventWebhookDelivery,
+  Prisma,
+  PrismaClient,
+} from '@prisma/client'
+import { createLogger } from '../../lib/logger.js'
+import { openSecret } from '../../lib/vault.js'
+import { signWebhookBody } from '../notifications/channels.js'
+import { postJson, type PostResult } from '../notifications/delivery.js'
+
+const log = createLogger('event-webhooks')
+
+export const MAX_ATTEMPTS = 10
+const BASE_RETRY_MS = 30_000
+const MAX_RETRY_MS = 6 * 60 * 60_000
+
+const FANOUT_LAG_MS = 10_000
+const FANOUT_BATCH = 500
+const SEND_BATCH = 200
+const CLAIM_MS = 2 * 60_000
+export const RETENTION_DAYS = 30
+
+/** Internal plumbing and log-tail reads are never streamed to customers. */
+const EXCLUDED_CATEGORIES = ['cron', 'system', 'ai-proxy', 'logs']
+
+/** Delay before the retry that follows attempt `attempt` (1-based). */
+export function retryDelayMs(attempt: number): number {
+  return Math.min(BASE_RETRY_MS * 2 ** (attempt - 1), MAX_RETRY_MS)
+}
+
+/** An empty filter takes every event; otherwise any prefix must match. */
+export function matchesEventFilter(filter: string[], action: string): boolean {
+  return filter.length === 0 || filter.some(p => action.startsWith(p))
+}
+
+/**
+ * The JSON body receivers get. `id` is the audit event id (dedupe key).
+ * The signing secret is opened here, only for the signature.
+ */
+export function renderEventWebhook(
+  webhook: Pick<EventWebhook, 'sealedSigningSecret'>,
+  delivery: Pick<EventWebhookDelivery, 'id' | 'attempts'>,
+  event: AuditEvent,
+  now = new Date()
+): { headers: Record<string, string>; body: string } {
+  const body = JSON.stringify({
+    id: event.id,
+    type: event.action,
+    category: event.category,
+    status: event.status,
+    occurredAt: event.timestamp.toISOString(),
+    traceId: event.traceId,
+    orgId: event.orgId,
+    projectId: event.projectId,
+    serviceId: event.serviceId,
+    deploymentId: event.deploymentId,
+    userId: event.userId,
+    errorCode: event.errorCode,
+    errorMessage: event.errorMessage,
+    payload: event.payload,
+  })
+  const timestamp = Math.floor(now.getTime() / 1000)
+  return {
+    body,
+    headers: {
+      'Content-Type': 'application/json',
+      'User-Agent': 'AlternateFutures-Webhooks/1.0',
+      'X-AF-Event': event.action,
+      'X-AF-Event-Id': event.id,
+      'X-AF-Delivery': delivery.id,
+      'X-AF-Attempt': String(delivery.attempts),
+      'X-AF-Timestamp': String(timestamp),
+      'X-AF-Signature': signWebhookBody(
+        openSecret('event-webhook', webhook.sealedSigningSecret),
+        timestamp,
+        body
+      ),
+    },
+  }
+}
+
+interface OrgScope {
+  projectIds: string[]
+  serviceIds: string[]
+}
+
+async function loadOrgScope(
+  prisma: PrismaClient,
+  organizationId: string
+): Promise<OrgScope> {
+  const projects = await prisma.project.findMany({
+    where: { organizationId },
+    select: { id: true, services: { select: { id: true } } },
+  })
+  return {
+    projectIds: projects.map(p => p.id),
+    serviceIds: projects.flatMap(p => p.services.map(s => s.id)),
+  }
+}
+
+/** Queue deliveries for audit events the webhook hasn't seen yet. */
+async function fanOutWebhook(
+  prisma: PrismaClient,
+  webhook: EventWebhook,
+  scope: OrgScope,
+  upTo: Date
+): Promise<number> {
+  if (webhook.cursorAt > upTo) return 0
+  const where: Prisma.AuditEventWhereInput = {
+    timestamp: { gte: webhook.cursorAt, lte: upTo },
+    category: { notIn: EXCLUDED_CATEGORIES },
+    OR: [
+      { orgId: webhook.organizationId },
+      { projectId: { in: scope.projectIds } },
+      { serviceId: { in: scope.serviceIds } },
+    ],
+  }
+  if (webhook.events.length > 0) {
+    where.AND = [
+      { OR: webhook.events.map(p => ({ action: { startsWith: p } })) },
+    ]
+  }
+  const events = await prisma.auditEvent.findMany({
+    where,
+    select: { id: true, action: true, timestamp: true },
+    orderBy: { timestamp: 'asc' },
+    take: FANOUT_BATCH,
+  })
+
+  let queued = 0
+  if (events.length > 0) {
+    const created = await prisma.eventWebhookDelivery.createMany({
+      data: events.map(e => ({
+        webhookId: webhook.id,
+        auditEventId: e.id,
+        action: e.action,
+        nextAttemptAt: upTo,
+      })),
+      skipDuplicates: true,
+    })
+    queued = created.count
+  }
+  // A full batch may stop mid-way through one timestamp; the cursor is
+  // inclusive and the unique key absorbs the overlap.
+  const cursorAt =
+    events.length === FANOUT_BATCH ? events[events.length - 1].timestamp : upTo
+  await prisma.eventWebhook.update({
+    where: { id: webhook.id },
+    data: { cursorAt },
+  })
+  return queued
+}
+
+/** Run fan-out for every enabled webhook. Returns deliveries queued. */
+export async function fanOutAuditEvents(
+  prisma: PrismaClient,
+  now = new Date()
+): Promise<number> {
+  const webhooks = await prisma.eventWebhook.findMany({
+    where: { enabled: true },
+  })
+  const upTo = new Date(now.getTime() - FANOUT_LAG_MS)
+  const scopes = new Map<string, OrgScope>()
+  let queued = 0
+  for (const webhook of webhooks) {
+    try {
+      let scope = scopes.get(webhook.organizationId)
+      if (!scope) {
+        scope = await loadOrgScope(prisma, webhook.organizationId)
+        scopes.set(webhook.organizationId, scope)
+      }
+      queued += await fanOutWebhook(prisma, webhook, scope, upTo)
+    } catch (err) {
+      log.error({ err, webhookId: webhook.id }, 'event webhook fan-out failed')
+    }
+  }
+  return queued
+}
+
+/**
+ * Make one attempt at a delivery. Returns the updated row, or null when
+ * it isn't due or another attempt holds it.
+ */
+export async function deliverEventWebhook(
+  prisma: PrismaClient,
+  deliveryId: string,
+  now = new Date()
+): Promise<EventWebhookDelivery | null> {
+  const claimed = await prisma.eventWebhookDelivery.updateMany({
+    where: {
+      id: deliveryId,
+      status: 'PENDING',
+      // A disabled webhook keeps its queue; it drains once re-enabled.
+      webhook: { enabled: true },
+      OR: [{ nextAttemptAt: null }, { nextAttemptAt: { lte: now } }],
+    },
+    data: {
+      attempts: { increment: 1 },
+      nextAttemptAt: new Date(now.getTime() + CLAIM_MS),
+    },
+  })
+  if (claimed.count === 0) return null
+
+  const delivery = await prisma.eventWebhookDelivery.findUnique({
+    where: { id: deliveryId },
+    include: { webhook: true, auditEvent: true },
+  })
+  if (!delivery) return null
+  const { webhook } = delivery
+
+  let result: PostResult
+  let url: string | null = null
+  let request: ReturnType<typeof renderEventWebhook> | null = null
+  try {
+    url = openSecret('event-webhook', webhook.sealedUrl)
+    request = renderEventWebhook(webhook, delivery, delivery.auditEvent, now)
+  } catch (err) {
+    log.error(
+      { err, webhookId: webhook.id },
+      'could not open webhook URL or signing secret'
+    )
+  }
+  if (url && request) {
+    result = await postJson(url, request.headers, request.body)
+  } else {
+    result = {
+      ok: false,
+      status: null,
+      error:
+        'Webhook URL or signing secret could not be decrypted — recreate the webhook',
+      retryable: false,
+    }
+  }
+
+  if (result.ok) {
+    return prisma.eventWebhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: 'DELIVERED',
+        responseStatus: result.status,
+        lastError: null,
+        nextAttemptAt: null,
+        deliveredAt: new Date(),
+      },
+    })
+  }
+
+  const retry = result.retryable && delivery.attempts < MAX_ATTEMPTS
+  if (!retry) {
+    log.warn(
+      {
+        deliveryId: delivery.id,
+        webhookId: webhook.id,
+        action: delivery.action,
+        attempts: delivery.attempts,
+        error: result.error,
+      },
+      'event webhook delivery dead-lettered'
+    )
+  }
+  return prisma.eventWebhookDelivery.update({
+    where: { id: delivery.id },
+    data: {
+      status: retry ? 'PENDING' : 'DEAD',
+      responseStatus: result.status,
+      lastError: result.error?.slice(0, 1000) ?? null,
+      nextAttemptAt: retry
+        ? new Date(now.getTime() + retryDelayMs(delivery.attempts))
+        : null,
+      deadAt: retry ? null : new Date(),
+    },
+  })
+}
+
+export interface EventWebhookTickStats {
+  queued: number
+  attempted: number
+  delivered: number
+  dead: number
+  pruned: number
+}
+
+/** One scheduler tick: fan out, send what is due, prune old rows. */
+export async function processEventWebhooks(
+  prisma: PrismaClient,
+  now = new Date()
+): Promise<EventWebhookTickStats> {
+  const stats: EventWebhookTickStats = {
+    queued: await fanOutAuditEvents(prisma, now),
+    attempted: 0,
+    delivered: 0,
+    dead: 0,
+    pruned: 0,
+  }
+
+  const due = await prisma.eventWebhookDelivery.findMany({
+    where: {
+      status: 'PENDING',
+      nextAttemptAt: { lte: now },
+      webhook: { enabled: true },
+    },
+    select: { id: true },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: SEND_BATCH,
+  })
+  for (const { id } of due) {
+    try {
+      const updated = await deliverEventWebhook(prisma, id, now)
+      if (!updated) continue
+      stats.attempted++
+      if (updated.status === 'DELIVERED') stats.delivered++
+      if (updated.status === 'DEAD') stats.dead++
+    } catch (err) {
+      log.error({ err, deliveryId: id }, 'event webhook delivery threw')
+    }
+  }
+
+  const pruned = await prisma.eventWebhookDelivery.deleteMany({
+    where: {
+      status: { in: ['DELIVERED', 'DEAD'] },
+      createdAt: { lt: new Date(now.getTime() - RETENTION_DAYS * 86_400_000) },
+    },
+  })
+  stats.pruned = pruned.count
+  return stats
+}
+
+/**
+ * Re-send the org's events since `since`: delivered and dead deliveries go
+ * back to PENDING with a fresh attempt budget, and each webhook's cursor
+ * is rewound so events that were never queued are picked up on the next
+ * tick. Returns the number of deliveries re-queued.
+ */
+export async function replayWebhookDeliveries(
+  prisma: PrismaClient,
+  args: { organizationId: string; since: Date; webhookId?: string | null },
+  now = new Date()
+): Promise<number> {
+  const webhooks = await prisma.eventWebhook.findMany({
+    where: {
+      organizationId: args.organizationId,
+      ...(args.webhookId ? { id: args.webhookId } : {}),
+    },
+    select: { id: true },
+  })
+  const ids = webhooks.map(w => w.id)
+  if (ids.length === 0) return 0
+
+  const requeued = await prisma.eventWebhookDelivery.updateMany({
+    where: {
+      webhookId: { in: ids },
+      status: { in: ['DELIVERED', 'DEAD'] },
+      auditEvent: { timestamp: { gte: args.since } },
+    },
+    data: {
+      status: 'PENDING',
+      attempts: 0,
+      nextAttemptAt: now,
+      lastError: null,
+      deadAt: null,
+    },
+  })
+  await prisma.eventWebhook.updateMany({
+    where: { id: { in: ids }, cursorAt: { gt: args.since } },
+    data: { cursorAt: args.since },
+  })
+  return requeued.count
+}
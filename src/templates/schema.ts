@@ -290,4 +290,10 @@ export interface TemplateDeployConfig {
    * `services/regions/mapping.ts`. Null/undefined = "Any" (no constraint).
    */
   region?: string | null
+  /**
+   * Replica count emitted as the deployment `count` (default 1). Ignored
+   * for templates with persistent storage — each replica would get its own
+   * volume — and for `customSdl` templates.
+   */
+  replicas?: number
 }
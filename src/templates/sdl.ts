@@ -169,6 +169,7 @@ export function generateSDLFromTemplate(
     template.persistentStorage && template.persistentStorage.length > 0
   const storageProfileBlock = buildStorageProfileBlock(storage, template)
   const paramsBlock = hasPersistent ? buildParamsBlock(template) : ''
+  const count = hasPersistent ? 1 : Math.max(1, config?.replicas ?? 1)
 
   // ── Start command override ──────────────────────────────────
   // IMPORTANT: Use `args` (Kubernetes args), NOT `command` (Kubernetes command).
@@ -238,7 +239,7 @@ deployment:
   ${serviceName}:
     dcloud:
       profile: ${serviceName}
-      count: 1
+      count: ${count}
 `
 }
 
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest'
+import type { Context } from '../resolvers/types.js'
+import { assertProjectAccess } from './authorization.js'
+
+function makeContext(organizationId?: string) {
+  return { userId: 'user-1', organizationId, prisma: {} } as unknown as Context
+}
+
+const personal = { id: 'p1', userId: 'user-1', organizationId: null }
+const orgProject = { id: 'p2', userId: 'user-1', organizationId: 'org-1' }
+
+describe('assertProjectAccess', () => {
+  it('reaches personal projects with or without an org header', () => {
+    expect(() => assertProjectAccess(makeContext(), personal)).not.toThrow()
+    expect(() =>
+      assertProjectAccess(makeContext('org-1'), personal)
+    ).not.toThrow()
+  })
+
+  it('reaches org projects only through their own org', () => {
+    expect(() =>
+      assertProjectAccess(makeContext('org-1'), orgProject)
+    ).not.toThrow()
+    // The creator omitting the header must not skip the org's role checks
+    expect(() => assertProjectAccess(makeContext(), orgProject)).toThrow(
+      'Not authorized to access this project'
+    )
+    expect(() => assertProjectAccess(makeContext('org-2'), orgProject)).toThrow(
+      'Not authorized to access this project'
+    )
+  })
+})
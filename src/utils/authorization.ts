@@ -1,25 +1,85 @@
 import { GraphQLError } from 'graphql'
+import type { OrganizationRole } from '@prisma/client'
 import type { Context } from '../resolvers/types.js'
+import { audit } from '../lib/audit.js'
+import {
+  getOrgRole,
+  roleHasPermission,
+  type OrgPermission,
+} from '../services/auth/permissions.js'
+import {
+  scopeForPermission,
+  tokenCoversProject,
+  tokenCoversService,
+  tokenHasScope,
+  type TokenScope,
+} from '../services/auth/tokenScopes.js'
+
+type ProjectRef = {
+  id?: string
+  userId: string | null
+  organizationId: string | null
+}
+
+function assertOwnership(
+  context: Context,
+  project: ProjectRef,
+  message: string
+): void {
+  // Org projects are reachable only through their own org, so its role
+  // checks always apply — even to whoever created the project.
+  const authorized =
+    (!!context.organizationId &&
+      project.organizationId === context.organizationId) ||
+    (project.userId === context.userId && project.organizationId === null)
+
+  if (!authorized) {
+    throw new GraphQLError(message, { extensions: { code: 'UNAUTHORIZED' } })
+  }
+}
 
 /**
  * Checks whether the authenticated user/org context has access to a project.
  * Rules:
  *  - If the context has an organizationId, the project must belong to that org
  *    OR be owned directly by the user with no org attached.
- *  - Otherwise, the project must be directly owned by the user.
+ *  - Otherwise, the project must be directly owned by the user with no
+ *    org attached — creating an org project doesn't keep it reachable
+ *    after the creator is demoted or removed.
+ *  - A scoped token bound to projects must include this one (pass `id`).
  */
 export function assertProjectAccess(
   context: Context,
-  project: { userId: string | null; organizationId: string | null },
+  project: ProjectRef,
   message = 'Not authorized to access this project'
 ): void {
-  const authorized = context.organizationId
-    ? project.organizationId === context.organizationId ||
-      (project.userId === context.userId && project.organizationId === null)
-    : project.userId === context.userId
+  assertOwnership(context, project, message)
+  if (
+    context.tokenScope &&
+    !tokenCoversProject(context.tokenScope, project.id)
+  ) {
+    denyTokenAccess(context, { projectId: project.id ?? null })
+  }
+}
 
-  if (!authorized) {
-    throw new GraphQLError(message, { extensions: { code: 'UNAUTHORIZED' } })
+/**
+ * `assertProjectAccess` for something that belongs to a service. Tokens
+ * bound to that service (or to its project) pass.
+ */
+export function assertServiceAccess(
+  context: Context,
+  service: { id: string; parentServiceId?: string | null; project: ProjectRef },
+  message = 'Not authorized to access this project'
+): void {
+  assertOwnership(context, service.project, message)
+  if (
+    context.tokenScope &&
+    !tokenCoversService(context.tokenScope, service, service.project.id)
+  ) {
+    denyTokenAccess(context, {
+      projectId: service.project.id ?? null,
+      serviceId: service.id,
+    })
   }
 }
 
@@ -32,3 +92,163 @@ export function requireAuth(context: Context): string {
   }
   return context.userId
 }
+
+// A request can check several permissions against the same org; look the
+// role up once.
+const roleCache = new WeakMap<
+  Context,
+  Map<string, Promise<OrganizationRole | null>>
+>()
+
+function cachedOrgRole(
+  context: Context,
+  organizationId: string,
+  userId: string
+): Promise<OrganizationRole | null> {
+  let roles = roleCache.get(context)
+  if (!roles) {
+    roles = new Map()
+    roleCache.set(context, roles)
+  }
+  let role = roles.get(organizationId)
+  if (!role) {
+    role = getOrgRole(context.prisma, organizationId, userId)
+    roles.set(organizationId, role)
+  }
+  return role
+}
+
+interface DeniedScope {
+  orgId: string
+  projectId?: string | null
+  serviceId?: string | null
+  /** What was attempted, e.g. the mutation name. */
+  operation?: string
+}
+
+function denyPermission(
+  context: Context,
+  permission: OrgPermission,
+  role: OrganizationRole | null,
+  scope: DeniedScope
+): never {
+  audit(context.prisma, {
+    category: 'auth',
+    action: 'rbac.denied',
+    status: 'warn',
+    userId: context.userId,
+    orgId: scope.orgId,
+    projectId: scope.projectId ?? null,
+    serviceId: scope.serviceId ?? null,
+    errorCode: 'FORBIDDEN',
+    payload: { permission, role, operation: scope.operation ?? null },
+  })
+  throw new GraphQLError(
+    role
+      ? `Your role (${role}) does not allow this action`
+      : 'Not a member of this organization',
+    { extensions: { code: 'FORBIDDEN', permission } }
+  )
+}
+
+function denyTokenAccess(
+  context: Context,
+  denied: {
+    scope?: TokenScope
+    projectId?: string | null
+    serviceId?: string | null
+    operation?: string
+  }
+): never {
+  audit(context.prisma, {
+    category: 'auth',
+    action: 'token_scope.denied',
+    status: 'warn',
+    userId: context.userId,
+    orgId: context.organizationId ?? null,
+    projectId: denied.projectId ?? null,
+    serviceId: denied.serviceId ?? null,
+    errorCode: 'FORBIDDEN',
+    payload: {
+      tokenId: context.tokenScope?.tokenId ?? null,
+      scope: denied.scope ?? null,
+      operation: denied.operation ?? null,
+    },
+  })
+  throw new GraphQLError(
+    denied.scope
+      ? `This token does not have the ${denied.scope} scope`
+      : `This token is not allowed to access this ${denied.serviceId ? 'service' : 'project'}`,
+    { extensions: { code: 'FORBIDDEN', scope: denied.scope } }
+  )
+}
+
+/**
+ * Require a scope when the request uses a scoped token; unrestricted
+ * tokens and sessions always pass. Denials are audited as
+ * `token_scope.denied`.
+ */
+export function assertTokenScope(
+  context: Context,
+  scope: TokenScope,
+  details: {
+    projectId?: string | null
+    serviceId?: string | null
+    operation?: string
+  } = {}
+): void {
+  if (context.tokenScope && !tokenHasScope(context.tokenScope, scope)) {
+    denyTokenAccess(context, { ...details, scope })
+  }
+}
+
+/**
+ * Require a permission in an organization. Denials are audited as
+ * `rbac.denied`. Returns the caller's role.
+ */
+export async function assertOrgPermission(
+  context: Context,
+  organizationId: string,
+  permission: OrgPermission,
+  scope: Omit<DeniedScope, 'orgId'> = {}
+): Promise<OrganizationRole> {
+  const userId = requireAuth(context)
+  const role = await cachedOrgRole(context, organizationId, userId)
+  if (!role || !roleHasPermission(role, permission)) {
+    denyPermission(context, permission, role, {
+      ...scope,
+      orgId: organizationId,
+    })
+  }
+  assertTokenScope(context, scopeForPermission(permission), scope)
+  return role
+}
+
+/**
+ * `assertProjectAccess` plus a role check for org projects. The owner of a
+ * personal project may do anything with it. With a `serviceId`, a token
+ * bound to that service is enough.
+ */
+export async function assertProjectPermission(
+  context: Context,
+  project: ProjectRef,
+  permission: OrgPermission,
+  scope: { serviceId?: string | null; operation?: string } = {}
+): Promise<void> {
+  if (scope.serviceId) {
+    assertServiceAccess(context, { id: scope.serviceId, project })
+  } else {
+    assertProjectAccess(context, project)
+  }
+  const details = { ...scope, projectId: project.id ?? null }
+  if (!project.organizationId) {
+    assertTokenScope(context, scopeForPermission(permission), details)
+    return
+  }
+  await assertOrgPermission(
+    context,
+    project.organizationId,
+    permission,
+    details
+  )
+}